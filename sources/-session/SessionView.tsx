@@ -1,24 +1,37 @@
 import { AgentContentView } from '@/components/AgentContentView';
 import { AgentInput } from '@/components/AgentInput';
+import { Avatar } from '@/components/Avatar';
 import { getSuggestions } from '@/components/autocomplete/suggestions';
 import { ChatHeaderView } from '@/components/ChatHeaderView';
-import { ChatList } from '@/components/ChatList';
+import { ChatList, MessageFocus } from '@/components/ChatList';
 import { Deferred } from '@/components/Deferred';
 import { EmptyMessages } from '@/components/EmptyMessages';
+import { MessageQueueView } from '@/components/MessageQueueView';
+import { StatusDot } from '@/components/StatusDot';
 import { VoiceAssistantStatusBar } from '@/components/VoiceAssistantStatusBar';
 import { useDraft } from '@/hooks/useDraft';
 import { Modal } from '@/modal';
 import { voiceHooks } from '@/realtime/hooks/voiceHooks';
 import { startRealtimeSession, stopRealtimeSession } from '@/realtime/RealtimeSession';
 import { gitStatusSync } from '@/sync/gitStatusSync';
+import { presenceSync } from '@/sync/presenceSync';
 import { sessionAbort } from '@/sync/ops';
-import { storage, useIsDataReady, useLocalSetting, useRealtimeStatus, useSessionMessages, useSessionUsage, useSetting } from '@/sync/storage';
+import { canControlSession } from '@/sync/sessionShareTypes';
+import { getDisplayName } from '@/sync/friendTypes';
+import { useSessionOwner } from '@/hooks/useSessionOwner';
+import { describeViewerActivity, useSessionViewers } from '@/hooks/useSessionViewers';
+import { layout } from '@/components/layout';
+import { DraftAttachment } from '@/sync/attachments';
+import { uploadAttachments } from '@/sync/attachmentsOps';
+import { listPendingPermissions } from '@/sync/pendingPermissions';
+import { storage, useIsDataReady, useLocalSetting, useRealtimeStatus, useSessionMessages, useSessionUsage, useSetting, useDiffComments } from '@/sync/storage';
 import { useSession } from '@/sync/storage';
 import { Session } from '@/sync/storageTypes';
 import { sync } from '@/sync/sync';
 import { t } from '@/text';
 import { tracking, trackMessageSent } from '@/track';
 import { isRunningOnMac } from '@/utils/platform';
+import { pickFileAttachments, pickImageAttachments } from '@/utils/pickAttachments';
 import { useDeviceType, useHeaderHeight, useIsLandscape, useIsTablet } from '@/utils/responsive';
 import { formatPathRelativeToHome, getSessionAvatarId, getSessionName, useSessionStatus } from '@/utils/sessionUtils';
 import { isVersionSupported, MINIMUM_CLI_VERSION } from '@/utils/versionUtils';
@@ -30,7 +43,7 @@ import { ActivityIndicator, Platform, Pressable, Text, View } from 'react-native
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useUnistyles } from 'react-native-unistyles';
 
-export const SessionView = React.memo((props: { id: string }) => {
+export const SessionView = React.memo((props: { id: string, focus?: MessageFocus }) => {
     const sessionId = props.id;
     const router = useRouter();
     const session = useSession(sessionId);
@@ -42,6 +55,7 @@ export const SessionView = React.memo((props: { id: string }) => {
     const headerHeight = useHeaderHeight();
     const realtimeStatus = useRealtimeStatus();
     const isTablet = useIsTablet();
+    const viewers = useSessionViewers(sessionId);
 
     // Compute header props based on session state
     const headerProps = useMemo(() => {
@@ -78,9 +92,15 @@ export const SessionView = React.memo((props: { id: string }) => {
             onAvatarPress: () => router.push(`/session/${sessionId}/info`),
             isConnected: isConnected,
             flavor: session.metadata?.flavor || null,
-            tintColor: isConnected ? '#000' : '#8E8E93'
+            tintColor: isConnected ? '#000' : '#8E8E93',
+            viewers: viewers.map((viewer) => ({
+                id: viewer.entry.userId,
+                imageUrl: viewer.user?.avatar?.url,
+                thumbhash: viewer.user?.avatar?.thumbhash
+            })),
+            activity: describeViewerActivity(viewers)
         };
-    }, [session, isDataReady, sessionId, router]);
+    }, [session, isDataReady, sessionId, router, viewers]);
 
     return (
         <>
@@ -141,7 +161,7 @@ export const SessionView = React.memo((props: { id: string }) => {
                     </View>
                 ) : (
                     // Normal session view
-                    <SessionViewLoaded key={sessionId} sessionId={sessionId} session={session} />
+                    <SessionViewLoaded key={sessionId} sessionId={sessionId} session={session} focus={props.focus} />
                 )}
             </View>
         </>
@@ -149,7 +169,86 @@ export const SessionView = React.memo((props: { id: string }) => {
 });
 
 
-function SessionViewLoaded({ sessionId, session }: { sessionId: string, session: Session }) {
+/**
+ * Live session in a dashboard pane, with a compact header instead of the navigation header
+ */
+export const SessionPaneView = React.memo((props: { id: string, onExpand: () => void, onClose: () => void }) => {
+    const session = useSession(props.id);
+    const { theme } = useUnistyles();
+
+    if (!session) {
+        return (
+            <View style={{ flex: 1, justifyContent: 'center', alignItems: 'center' }}>
+                <Ionicons name="trash-outline" size={32} color={theme.colors.textSecondary} />
+                <Text style={{ color: theme.colors.textSecondary, fontSize: 15, marginTop: 8 }}>{t('errors.sessionDeleted')}</Text>
+                <Pressable onPress={props.onClose} hitSlop={8} style={{ marginTop: 12 }}>
+                    <Text style={{ color: theme.colors.textLink, fontSize: 15 }}>{t('sessionDashboard.closePane')}</Text>
+                </Pressable>
+            </View>
+        );
+    }
+
+    return (
+        <View style={{ flex: 1 }}>
+            <SessionPaneHeader session={session} onExpand={props.onExpand} onClose={props.onClose} />
+            <SessionViewLoaded key={props.id} sessionId={props.id} session={session} compact={true} />
+        </View>
+    );
+});
+
+function SessionPaneHeader({ session, onExpand, onClose }: { session: Session, onExpand: () => void, onClose: () => void }) {
+    const { theme } = useUnistyles();
+    const sessionStatus = useSessionStatus(session);
+    return (
+        <View style={{
+            flexDirection: 'row',
+            alignItems: 'center',
+            gap: 8,
+            paddingHorizontal: 12,
+            height: 48,
+            borderBottomWidth: 1,
+            borderBottomColor: theme.colors.divider,
+            backgroundColor: theme.colors.header.background,
+        }}>
+            <Avatar id={getSessionAvatarId(session)} size={24} monochrome={!sessionStatus.isConnected} flavor={session.metadata?.flavor} />
+            <View style={{ flex: 1 }}>
+                <Text numberOfLines={1} style={{ color: theme.colors.text, fontSize: 14, fontWeight: '600' }}>
+                    {getSessionName(session)}
+                </Text>
+                <View style={{ flexDirection: 'row', alignItems: 'center', gap: 4 }}>
+                    <StatusDot color={sessionStatus.statusDotColor} isPulsing={sessionStatus.isPulsing} size={6} />
+                    <Text numberOfLines={1} style={{ color: sessionStatus.statusColor, fontSize: 12 }}>
+                        {sessionStatus.statusText}
+                    </Text>
+                </View>
+            </View>
+            <Pressable onPress={onExpand} hitSlop={8}>
+                <Ionicons name="expand-outline" size={20} color={theme.colors.header.tint} />
+            </Pressable>
+            <Pressable onPress={onClose} hitSlop={8}>
+                <Ionicons name="close" size={22} color={theme.colors.header.tint} />
+            </Pressable>
+        </View>
+    );
+}
+
+// Shown instead of the input to friends who can only follow the session
+function ViewOnlyNotice({ session }: { session: Session }) {
+    const { theme } = useUnistyles();
+    const owner = useSessionOwner(session);
+    return (
+        <View style={{ alignItems: 'center', paddingHorizontal: 16, paddingVertical: 12 }}>
+            <View style={{ flexDirection: 'row', alignItems: 'center', gap: 6, maxWidth: layout.maxWidth }}>
+                <Ionicons name="eye-outline" size={16} color={theme.colors.textSecondary} />
+                <Text style={{ fontSize: 13, color: theme.colors.textSecondary }}>
+                    {t('sessionSharing.viewOnly', { name: owner ? getDisplayName(owner) : '…' })}
+                </Text>
+            </View>
+        </View>
+    );
+}
+
+function SessionViewLoaded({ sessionId, session, focus, compact = false }: { sessionId: string, session: Session, focus?: MessageFocus, compact?: boolean }) {
     const { theme } = useUnistyles();
     const router = useRouter();
     const safeArea = useSafeAreaInsets();
@@ -172,10 +271,73 @@ function SessionViewLoaded({ sessionId, session }: { sessionId: string, session:
     const sessionUsage = useSessionUsage(sessionId);
     const alwaysShowContextSize = useSetting('alwaysShowContextSize');
     const experiments = useSetting('experiments');
+    const canControl = canControlSession(session);
+    const pendingPermissionCount = React.useMemo(() => canControl ? listPendingPermissions(session.agentState).length : 0, [session.agentState, canControl]);
+    const diffComments = useDiffComments(sessionId);
+    const pendingCommentCount = canControl ? diffComments.filter((comment) => comment.sentAt === null).length : 0;
 
     // Use draft hook for auto-saving message drafts
     const { clearDraft } = useDraft(sessionId, message, setMessage);
 
+    // Let other people looking at a shared session see us
+    React.useEffect(() => {
+        presenceSync.enter(sessionId);
+        return () => presenceSync.leave(sessionId);
+    }, [sessionId]);
+
+    const handleChangeText = React.useCallback((text: string) => {
+        setMessage(text);
+        presenceSync.noteTyping(sessionId);
+    }, [sessionId]);
+
+    // Attachments picked for the next message, uploaded when it is sent
+    const [attachments, setAttachments] = React.useState<DraftAttachment[]>([]);
+    const [isUploading, setIsUploading] = React.useState(false);
+
+    const handleAttachPress = React.useCallback(() => {
+        const pick = async (picker: () => Promise<DraftAttachment[]>) => {
+            try {
+                const picked = await picker();
+                setAttachments((prev) => [...prev, ...picked]);
+            } catch (error) {
+                Modal.alert(t('common.error'), error instanceof Error ? error.message : String(error));
+            }
+        };
+        Modal.alert(t('attachments.title'), undefined, [
+            { text: t('attachments.photoLibrary'), onPress: () => pick(pickImageAttachments) },
+            { text: t('attachments.files'), onPress: () => pick(pickFileAttachments) },
+            { text: t('common.cancel'), style: 'cancel' }
+        ]);
+    }, []);
+
+    // Send goes straight to the agent, also mid-turn to steer it, queue waits until it is ready
+    const submit = React.useCallback(async (queue: boolean) => {
+        if ((!message.trim() && attachments.length === 0) || isUploading) {
+            return;
+        }
+        let uploaded;
+        try {
+            setIsUploading(true);
+            uploaded = await uploadAttachments(sessionId, attachments);
+        } catch (error) {
+            Modal.alert(t('attachments.uploadFailed'), error instanceof Error ? error.message : String(error));
+            return;
+        } finally {
+            setIsUploading(false);
+        }
+        setMessage('');
+        clearDraft();
+        setAttachments([]);
+        if (queue && storage.getState().sessions[sessionId]?.thinking) {
+            sync.queueMessage(sessionId, message, uploaded);
+        } else {
+            sync.sendMessage(sessionId, message, undefined, uploaded);
+        }
+        trackMessageSent();
+    }, [sessionId, message, attachments, isUploading, clearDraft]);
+    const handleSend = React.useCallback(() => submit(false), [submit]);
+    const handleQueue = React.useCallback(() => submit(true), [submit]);
+
     // Handle dismissing CLI version warning
     const handleDismissCliWarning = React.useCallback(() => {
         if (machineId && cliVersion) {
@@ -249,7 +411,7 @@ function SessionViewLoaded({ sessionId, session }: { sessionId: string, session:
         <>
             <Deferred>
                 {messages.length > 0 && (
-                    <ChatList session={session} />
+                    <ChatList session={session} focus={focus} />
                 )}
             </Deferred>
         </>
@@ -264,52 +426,55 @@ function SessionViewLoaded({ sessionId, session }: { sessionId: string, session:
         </>
     ) : null;
 
-    const input = (
-        <AgentInput
-            placeholder={t('session.inputPlaceholder')}
-            value={message}
-            onChangeText={setMessage}
-            sessionId={sessionId}
-            permissionMode={permissionMode}
-            onPermissionModeChange={updatePermissionMode}
-            metadata={session.metadata}
-            connectionStatus={{
-                text: sessionStatus.statusText,
-                color: sessionStatus.statusColor,
-                dotColor: sessionStatus.statusDotColor,
-                isPulsing: sessionStatus.isPulsing
-            }}
-            onSend={() => {
-                if (message.trim()) {
-                    setMessage('');
-                    clearDraft();
-                    sync.sendMessage(sessionId, message);
-                    trackMessageSent();
-                }
-            }}
-            onMicPress={micButtonState.onMicPress}
-            isMicActive={micButtonState.isMicActive}
-            onAbort={() => sessionAbort(sessionId)}
-            showAbortButton={sessionStatus.state === 'thinking' || sessionStatus.state === 'waiting'}
-            onFileViewerPress={experiments ? () => router.push(`/session/${sessionId}/files`) : undefined}
-            // Autocomplete configuration
-            autocompletePrefixes={['@', '/']}
-            autocompleteSuggestions={(query) => getSuggestions(sessionId, query)}
-            usageData={sessionUsage ? {
-                inputTokens: sessionUsage.inputTokens,
-                outputTokens: sessionUsage.outputTokens,
-                cacheCreation: sessionUsage.cacheCreation,
-                cacheRead: sessionUsage.cacheRead,
-                contextSize: sessionUsage.contextSize
-            } : session.latestUsage ? {
-                inputTokens: session.latestUsage.inputTokens,
-                outputTokens: session.latestUsage.outputTokens,
-                cacheCreation: session.latestUsage.cacheCreation,
-                cacheRead: session.latestUsage.cacheRead,
-                contextSize: session.latestUsage.contextSize
-            } : undefined}
-            alwaysShowContextSize={alwaysShowContextSize}
-        />
+    const input = !canControl ? (
+        <ViewOnlyNotice session={session} />
+    ) : (
+        <>
+            <MessageQueueView sessionId={sessionId} />
+            <AgentInput
+                placeholder={t('session.inputPlaceholder')}
+                value={message}
+                onChangeText={handleChangeText}
+                sessionId={sessionId}
+                permissionMode={permissionMode}
+                onPermissionModeChange={updatePermissionMode}
+                metadata={session.metadata}
+                connectionStatus={{
+                    text: sessionStatus.statusText,
+                    color: sessionStatus.statusColor,
+                    dotColor: sessionStatus.statusDotColor,
+                    isPulsing: sessionStatus.isPulsing
+                }}
+                onSend={handleSend}
+                onQueue={sessionStatus.state === 'thinking' ? handleQueue : undefined}
+                isSending={isUploading}
+                attachments={attachments}
+                onAttachPress={handleAttachPress}
+                onRemoveAttachment={(id) => setAttachments((prev) => prev.filter((attachment) => attachment.id !== id))}
+                onMicPress={micButtonState.onMicPress}
+                isMicActive={micButtonState.isMicActive}
+                onAbort={() => sessionAbort(sessionId)}
+                showAbortButton={sessionStatus.state === 'thinking' || sessionStatus.state === 'waiting'}
+                onFileViewerPress={experiments ? () => router.push(`/session/${sessionId}/files`) : undefined}
+                // Autocomplete configuration
+                autocompletePrefixes={['@', '/']}
+                autocompleteSuggestions={(query) => getSuggestions(sessionId, query)}
+                usageData={sessionUsage ? {
+                    inputTokens: sessionUsage.inputTokens,
+                    outputTokens: sessionUsage.outputTokens,
+                    cacheCreation: sessionUsage.cacheCreation,
+                    cacheRead: sessionUsage.cacheRead,
+                    contextSize: sessionUsage.contextSize
+                } : session.latestUsage ? {
+                    inputTokens: session.latestUsage.inputTokens,
+                    outputTokens: session.latestUsage.outputTokens,
+                    cacheCreation: session.latestUsage.cacheCreation,
+                    cacheRead: session.latestUsage.cacheRead,
+                    contextSize: session.latestUsage.contextSize
+                } : undefined}
+                alwaysShowContextSize={alwaysShowContextSize}
+            />
+        </>
     );
 
 
@@ -349,8 +514,76 @@ function SessionViewLoaded({ sessionId, session }: { sessionId: string, session:
                 </Pressable>
             )}
 
+            {/* Several permission requests at once - offer to answer them together */}
+            {pendingPermissionCount > 1 && !(isLandscape && deviceType === 'phone') && (
+                <Pressable
+                    onPress={() => router.push(`/session/${sessionId}/pending`)}
+                    style={{
+                        position: 'absolute',
+                        top: shouldShowCliWarning ? 48 : 8,
+                        alignSelf: 'center',
+                        backgroundColor: theme.colors.text,
+                        borderRadius: 100,
+                        paddingHorizontal: 14,
+                        paddingVertical: 7,
+                        flexDirection: 'row',
+                        alignItems: 'center',
+                        zIndex: 998,
+                        shadowColor: '#000',
+                        shadowOffset: { width: 0, height: 2 },
+                        shadowOpacity: 0.15,
+                        shadowRadius: 4,
+                        elevation: 4,
+                    }}
+                >
+                    <Ionicons name="shield-checkmark-outline" size={14} color={theme.colors.surface} style={{ marginRight: 6 }} />
+                    <Text style={{
+                        fontSize: 12,
+                        color: theme.colors.surface,
+                        fontWeight: '600'
+                    }}>
+                        {t('pendingPermissions.pill', { count: pendingPermissionCount })}
+                    </Text>
+                    <Ionicons name="chevron-forward" size={14} color={theme.colors.surface} style={{ marginLeft: 4 }} />
+                </Pressable>
+            )}
+
+            {/* Diff comments waiting to be sent to the agent */}
+            {pendingCommentCount > 0 && !(isLandscape && deviceType === 'phone') && (
+                <Pressable
+                    onPress={() => router.push(`/session/${sessionId}/comments`)}
+                    style={{
+                        position: 'absolute',
+                        top: (shouldShowCliWarning ? 48 : 8) + (pendingPermissionCount > 1 ? 40 : 0),
+                        alignSelf: 'center',
+                        backgroundColor: theme.colors.textLink,
+                        borderRadius: 100,
+                        paddingHorizontal: 14,
+                        paddingVertical: 7,
+                        flexDirection: 'row',
+                        alignItems: 'center',
+                        zIndex: 997,
+                        shadowColor: '#000',
+                        shadowOffset: { width: 0, height: 2 },
+                        shadowOpacity: 0.15,
+                        shadowRadius: 4,
+                        elevation: 4,
+                    }}
+                >
+                    <Ionicons name="chatbox-ellipses-outline" size={14} color="white" style={{ marginRight: 6 }} />
+                    <Text style={{
+                        fontSize: 12,
+                        color: 'white',
+                        fontWeight: '600'
+                    }}>
+                        {t('diffComments.pill', { count: pendingCommentCount })}
+                    </Text>
+                    <Ionicons name="chevron-forward" size={14} color="white" style={{ marginLeft: 4 }} />
+                </Pressable>
+            )}
+
             {/* Main content area - no padding since header is overlay */}
-            <View style={{ flexBasis: 0, flexGrow: 1, paddingBottom: safeArea.bottom + ((isRunningOnMac() || Platform.OS === 'web') ? 32 : 0) }}>
+            <View style={{ flexBasis: 0, flexGrow: 1, paddingBottom: compact ? 0 : safeArea.bottom + ((isRunningOnMac() || Platform.OS === 'web') ? 32 : 0) }}>
                 <AgentContentView
                     content={content}
                     input={input}
@@ -360,7 +593,7 @@ function SessionViewLoaded({ sessionId, session }: { sessionId: string, session:
 
             {/* Back button for landscape phone mode when header is hidden */}
             {
-                isLandscape && deviceType === 'phone' && (
+                isLandscape && deviceType === 'phone' && !compact && (
                     <Pressable
                         onPress={() => router.back()}
                         style={{
@@ -83,6 +83,31 @@ export default function RootLayout() {
                     headerBackTitle: t('common.back'),
                 }}
             />
+            <Stack.Screen
+                name="session/[id]/pending"
+                options={{
+                    headerShown: true,
+                    headerTitle: t('pendingPermissions.title'),
+                    headerBackTitle: t('common.back'),
+                    presentation: 'modal',
+                }}
+            />
+            <Stack.Screen
+                name="session/[id]/sharing"
+                options={{
+                    headerShown: true,
+                    headerTitle: t('sessionSharing.title'),
+                    headerBackTitle: t('common.back'),
+                }}
+            />
+            <Stack.Screen
+                name="session/[id]/permissions"
+                options={{
+                    headerShown: true,
+                    headerTitle: t('permissionAudit.title'),
+                    headerBackTitle: t('common.back'),
+                }}
+            />
             <Stack.Screen
                 name="session/[id]/files"
                 options={{
@@ -91,6 +116,54 @@ export default function RootLayout() {
                     headerBackTitle: t('common.back'),
                 }}
             />
+            <Stack.Screen
+                name="shell/[id]"
+                options={{
+                    headerShown: true,
+                    headerTitle: t('remoteTerminal.title'),
+                    headerBackTitle: t('common.back'),
+                }}
+            />
+            <Stack.Screen
+                name="session/[id]/search"
+                options={{
+                    headerShown: true,
+                    headerTitle: t('codeSearch.title'),
+                    headerBackTitle: t('common.back'),
+                }}
+            />
+            <Stack.Screen
+                name="session/[id]/history"
+                options={{
+                    headerShown: true,
+                    headerTitle: t('gitHistory.title'),
+                    headerBackTitle: t('common.back'),
+                }}
+            />
+            <Stack.Screen
+                name="session/[id]/commit"
+                options={{
+                    headerShown: true,
+                    headerTitle: t('gitHistory.commitTitle'),
+                    headerBackTitle: t('common.back'),
+                }}
+            />
+            <Stack.Screen
+                name="session/[id]/review"
+                options={{
+                    headerShown: true,
+                    headerTitle: t('review.title'),
+                    headerBackTitle: t('common.back'),
+                }}
+            />
+            <Stack.Screen
+                name="session/[id]/comments"
+                options={{
+                    headerShown: true,
+                    headerTitle: t('diffComments.title'),
+                    headerBackTitle: t('common.back'),
+                }}
+            />
             <Stack.Screen
                 name="session/[id]/file"
                 options={{
@@ -117,6 +190,58 @@ export default function RootLayout() {
                     headerTitle: t('settings.features'),
                 }}
             />
+            <Stack.Screen
+                name="settings/permission-rules"
+                options={{
+                    headerTitle: t('permissionRules.title'),
+                }}
+            />
+            <Stack.Screen
+                name="settings/permission-audit"
+                options={{
+                    headerTitle: t('permissionAudit.title'),
+                }}
+            />
+            <Stack.Screen
+                name="schedules/index"
+                options={{
+                    headerShown: true,
+                    headerTitle: t('scheduledPrompts.title'),
+                    headerBackTitle: t('common.back'),
+                }}
+            />
+            <Stack.Screen
+                name="schedules/edit"
+                options={{
+                    headerShown: true,
+                    headerTitle: t('scheduledPrompts.new'),
+                    headerBackTitle: t('common.cancel'),
+                }}
+            />
+            <Stack.Screen
+                name="templates/index"
+                options={{
+                    headerShown: true,
+                    headerTitle: t('promptTemplates.title'),
+                    headerBackTitle: t('common.back'),
+                }}
+            />
+            <Stack.Screen
+                name="templates/edit"
+                options={{
+                    headerShown: true,
+                    headerTitle: t('promptTemplates.new'),
+                    headerBackTitle: t('common.cancel'),
+                }}
+            />
+            <Stack.Screen
+                name="templates/import"
+                options={{
+                    headerShown: true,
+                    headerTitle: t('promptTemplates.importTitle'),
+                    headerBackTitle: t('common.back'),
+                }}
+            />
             <Stack.Screen
                 name="terminal/connect"
                 options={{
@@ -183,6 +308,22 @@ export default function RootLayout() {
                     headerBackTitle: t('common.cancel'),
                 }}
             />
+            <Stack.Screen
+                name="artifacts/history/[id]"
+                options={{
+                    headerShown: true,
+                    headerTitle: t('artifacts.history'),
+                    headerBackTitle: t('common.back'),
+                }}
+            />
+            <Stack.Screen
+                name="artifacts/history/diff/[id]"
+                options={{
+                    headerShown: true,
+                    headerTitle: t('artifacts.compareTitle'),
+                    headerBackTitle: t('common.back'),
+                }}
+            />
             <Stack.Screen
                 name="text-selection"
                 options={{
@@ -282,6 +423,22 @@ export default function RootLayout() {
                     headerBackTitle: t('common.back'),
                 }}
             />
+            <Stack.Screen
+                name="session/search"
+                options={{
+                    headerShown: true,
+                    headerTitle: t('sessionSearch.title'),
+                    headerBackTitle: t('common.back'),
+                }}
+            />
+            <Stack.Screen
+                name="session/dashboard"
+                options={{
+                    headerShown: true,
+                    headerTitle: t('sessionDashboard.title'),
+                    headerBackTitle: t('common.back'),
+                }}
+            />
             <Stack.Screen
                 name="settings/connect/claude"
                 options={{
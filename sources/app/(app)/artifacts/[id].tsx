@@ -11,7 +11,8 @@ import { Modal } from '@/modal';
 import { sync } from '@/sync/sync';
 import { deleteArtifact } from '@/sync/apiArtifacts';
 import { storage } from '@/sync/storage';
-import { MarkdownView } from '@/components/markdown/MarkdownView';
+import { ArtifactContentView } from '@/components/ArtifactContentView';
+import { resolveArtifactFormat, toggleChecklistItem } from '@/sync/artifactContent';
 
 const stylesheet = StyleSheet.create((theme) => ({
     container: {
@@ -124,6 +125,25 @@ export default function ArtifactDetailScreen() {
         router.push(`/artifacts/edit/${id}`);
     }, [id, router]);
 
+    // Checking an item saves right away, one toggle at a time so versions don't conflict
+    const [isToggling, setIsToggling] = React.useState(false);
+    const handleToggleItem = React.useCallback(async (index: number) => {
+        if (!artifact || isToggling) return;
+        try {
+            setIsToggling(true);
+            await sync.updateArtifact(id, artifact.title, toggleChecklistItem(artifact.body, index), artifact.sessions, artifact.draft);
+        } catch (err) {
+            console.error('Failed to update checklist:', err);
+            Modal.alert(t('common.error'), t('artifacts.updateError'));
+        } finally {
+            setIsToggling(false);
+        }
+    }, [id, artifact, isToggling]);
+
+    const handleHistory = React.useCallback(() => {
+        router.push(`/artifacts/history/${id}`);
+    }, [id, router]);
+
     const handleDelete = React.useCallback(async () => {
         const confirmed = await Modal.confirm(
             t('artifacts.deleteConfirm'),
@@ -226,6 +246,13 @@ export default function ArtifactDetailScreen() {
                             >
                                 <Ionicons name="create-outline" size={22} color={styles.title.color} />
                             </Pressable>
+                            <Pressable
+                                onPress={handleHistory}
+                                style={{ padding: 8, marginRight: 8 }}
+                                disabled={isDeleting}
+                            >
+                                <Ionicons name="time-outline" size={22} color={styles.title.color} />
+                            </Pressable>
                             <Pressable
                                 onPress={handleDelete}
                                 style={{ padding: 8 }}
@@ -265,7 +292,11 @@ export default function ArtifactDetailScreen() {
 
                     <View style={styles.bodyContainer}>
                         {artifact.body ? (
-                            <MarkdownView markdown={artifact.body} />
+                            <ArtifactContentView
+                                body={artifact.body}
+                                format={resolveArtifactFormat(artifact)}
+                                onToggleItem={isToggling ? undefined : handleToggleItem}
+                            />
                         ) : (
                             <Text style={styles.emptyBody}>
                                 No content
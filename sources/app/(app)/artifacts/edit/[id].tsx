@@ -10,6 +10,9 @@ import { sync } from '@/sync/sync';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useArtifact } from '@/sync/storage';
 import { KeyboardAvoidingView } from 'react-native-keyboard-controller';
+import { ArtifactContentEditor } from '@/components/ArtifactContentEditor';
+import { ArtifactFormat } from '@/sync/artifactTypes';
+import { isSameArtifactFormat, resolveArtifactFormat } from '@/sync/artifactContent';
 
 const stylesheet = StyleSheet.create((theme) => ({
     container: {
@@ -63,12 +66,6 @@ const stylesheet = StyleSheet.create((theme) => ({
     inputFocused: {
         borderColor: theme.colors.button.primary.background,
     },
-    textArea: {
-        minHeight: 200,
-        textAlignVertical: 'top',
-        paddingTop: 14,
-        lineHeight: 22,
-    },
     headerButton: {
         paddingHorizontal: 16,
         paddingVertical: 8,
@@ -92,11 +89,11 @@ export default function EditArtifactScreen() {
     
     const [title, setTitle] = React.useState('');
     const [body, setBody] = React.useState('');
+    const [format, setFormat] = React.useState<ArtifactFormat>({ type: 'markdown' });
     const [isSaving, setIsSaving] = React.useState(false);
     const [isLoading, setIsLoading] = React.useState(true);
     const [hasChanges, setHasChanges] = React.useState(false);
     const [titleFocused, setTitleFocused] = React.useState(false);
-    const [bodyFocused, setBodyFocused] = React.useState(false);
     
     // Load full artifact with body if needed
     React.useEffect(() => {
@@ -115,10 +112,12 @@ export default function EditArtifactScreen() {
                     if (!cancelled && fullArtifact) {
                         setTitle(fullArtifact.title || '');
                         setBody(fullArtifact.body || '');
+                        setFormat(resolveArtifactFormat(fullArtifact));
                     }
                 } else {
                     setTitle(artifact.title || '');
                     setBody(artifact.body || '');
+                    setFormat(resolveArtifactFormat(artifact));
                 }
             } catch (err) {
                 console.error('Failed to load artifact for editing:', err);
@@ -139,9 +138,10 @@ export default function EditArtifactScreen() {
         if (artifact) {
             const titleChanged = (title || null) !== artifact.title;
             const bodyChanged = (body || null) !== artifact.body;
-            setHasChanges(titleChanged || bodyChanged);
+            const formatChanged = !isSameArtifactFormat(format, resolveArtifactFormat(artifact));
+            setHasChanges(titleChanged || bodyChanged || formatChanged);
         }
-    }, [title, body, artifact]);
+    }, [title, body, format, artifact]);
     
     const handleSave = React.useCallback(async () => {
         if (isSaving || !hasChanges) return;
@@ -162,7 +162,10 @@ export default function EditArtifactScreen() {
             await sync.updateArtifact(
                 id,
                 title.trim() || null,
-                body.trim() || null
+                body.trim() || null,
+                artifact?.sessions,
+                artifact?.draft,
+                format
             );
             
             // Navigate back
@@ -175,7 +178,7 @@ export default function EditArtifactScreen() {
             );
             setIsSaving(false);
         }
-    }, [id, title, body, hasChanges, isSaving, router]);
+    }, [id, artifact, title, body, format, hasChanges, isSaving, router]);
     
     const HeaderRight = React.useCallback(() => (
         <Pressable
@@ -284,32 +287,13 @@ export default function EditArtifactScreen() {
                             />
                         </View>
                         
-                        <View style={styles.inputGroup}>
-                            <Text style={styles.label}>{t('artifacts.bodyLabel')}</Text>
-                            <TextInput
-                                style={[
-                                    styles.input,
-                                    styles.textArea,
-                                    bodyFocused && styles.inputFocused,
-                                    Platform.OS === 'web' && { 
-                                        outlineStyle: 'none',
-                                        outline: 'none',
-                                        outlineWidth: 0,
-                                        outlineColor: 'transparent'
-                                    } as any
-                                ]}
-                                value={body}
-                                onChangeText={setBody}
-                                placeholder={t('artifacts.bodyPlaceholder')}
-                                placeholderTextColor={theme.colors.input.placeholder}
-                                onFocus={() => setBodyFocused(true)}
-                                onBlur={() => setBodyFocused(false)}
-                                editable={!isSaving}
-                                multiline
-                                numberOfLines={10}
-                                autoCapitalize="sentences"
-                            />
-                        </View>
+                        <ArtifactContentEditor
+                            format={format}
+                            onFormatChange={setFormat}
+                            body={body}
+                            onBodyChange={setBody}
+                            editable={!isSaving}
+                        />
                     </ScrollView>
                 </KeyboardWrapper>
             </View>
@@ -0,0 +1,163 @@
+import React from 'react';
+import { ActivityIndicator, Pressable, View } from 'react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useUnistyles } from 'react-native-unistyles';
+import { Item } from '@/components/Item';
+import { ItemGroup } from '@/components/ItemGroup';
+import { ItemList } from '@/components/ItemList';
+import { Text } from '@/components/StyledText';
+import { Typography } from '@/constants/Typography';
+import { useArtifactRevisions } from '@/sync/storage';
+import { DecryptedArtifactRevision } from '@/sync/artifactTypes';
+import { sync } from '@/sync/sync';
+import { Modal } from '@/modal';
+import { t } from '@/text';
+
+const deviceNames: Record<string, string> = {
+    ios: 'iOS',
+    android: 'Android',
+    mac: 'Mac',
+    web: 'Web',
+};
+
+function formatRevisionDate(revision: DecryptedArtifactRevision): string {
+    return new Date(revision.createdAt).toLocaleDateString(undefined, {
+        year: 'numeric',
+        month: 'short',
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit',
+    });
+}
+
+function revisionSubtitle(revision: DecryptedArtifactRevision): string {
+    if (!revision.isDecrypted) {
+        return t('artifacts.revisionUnreadable');
+    }
+    const device = revision.device && deviceNames[revision.device]
+        ? t('artifacts.savedFrom', { device: deviceNames[revision.device] })
+        : t('artifacts.savedFromUnknown');
+    return revision.title ? `${device} · ${revision.title}` : device;
+}
+
+/**
+ * Saved revisions of an artifact, to compare any two of them or go back to one
+ */
+export default function ArtifactHistoryScreen() {
+    const { id } = useLocalSearchParams<{ id: string }>();
+    const router = useRouter();
+    const { theme } = useUnistyles();
+    const revisions = useArtifactRevisions(id);
+    const [error, setError] = React.useState<string | null>(null);
+    const [selected, setSelected] = React.useState<string[]>([]);
+    const [restoringId, setRestoringId] = React.useState<string | null>(null);
+
+    React.useEffect(() => {
+        sync.fetchArtifactRevisions(id).catch((err) => {
+            console.error('Failed to load artifact history:', err);
+            setError(t('artifacts.historyError'));
+        });
+    }, [id]);
+
+    const current = revisions?.[0];
+
+    const handleToggle = React.useCallback((revision: DecryptedArtifactRevision) => {
+        setSelected((prev) => prev.includes(revision.id)
+            ? prev.filter((revisionId) => revisionId !== revision.id)
+            : [...prev, revision.id].slice(-2));
+    }, []);
+
+    const handleCompare = React.useCallback(() => {
+        if (!revisions || !current) {
+            return;
+        }
+        // A single selection is compared with the current state, older revision always on the left
+        const ids = selected.length === 1 ? [selected[0], current.id] : selected;
+        const [from, to] = revisions.filter((revision) => ids.includes(revision.id)).reverse();
+        if (from && to) {
+            router.push(`/artifacts/history/diff/${id}?from=${from.id}&to=${to.id}`);
+        }
+    }, [id, revisions, current, selected, router]);
+
+    const handleRestore = React.useCallback(async (revision: DecryptedArtifactRevision) => {
+        const confirmed = await Modal.confirm(
+            t('artifacts.restoreConfirm'),
+            t('artifacts.restoreConfirmDescription', { date: formatRevisionDate(revision) }),
+            { confirmText: t('artifacts.restore') }
+        );
+        if (!confirmed) {
+            return;
+        }
+        try {
+            setRestoringId(revision.id);
+            await sync.restoreArtifactRevision(id, revision);
+            setSelected([]);
+        } catch (err) {
+            console.error('Failed to restore artifact revision:', err);
+            Modal.alert(t('common.error'), t('artifacts.restoreError'));
+        } finally {
+            setRestoringId(null);
+        }
+    }, [id]);
+
+    if (!revisions) {
+        return (
+            <View style={{ flex: 1, alignItems: 'center', justifyContent: 'center' }}>
+                {error
+                    ? <Text style={{ fontSize: 15, color: theme.colors.textSecondary, ...Typography.default() }}>{error}</Text>
+                    : <ActivityIndicator size="small" color={theme.colors.textSecondary} />}
+            </View>
+        );
+    }
+
+    const canCompare = selected.length === 2 || (selected.length === 1 && selected[0] !== current?.id);
+
+    return (
+        <ItemList style={{ paddingTop: 0 }}>
+            <ItemGroup footer={t('artifacts.historyFooter')}>
+                <Item
+                    title={selected.length === 2 ? t('artifacts.compareSelected') : t('artifacts.compareWithCurrent')}
+                    icon={<Ionicons name="git-compare-outline" size={29} color={theme.colors.textSecondary} />}
+                    onPress={handleCompare}
+                    disabled={!canCompare}
+                />
+            </ItemGroup>
+
+            <ItemGroup title={t('artifacts.revisions')}>
+                {revisions.length === 0 && (
+                    <Item title={t('artifacts.noRevisions')} showChevron={false} />
+                )}
+                {revisions.map((revision) => (
+                    <Item
+                        key={revision.id}
+                        title={formatRevisionDate(revision)}
+                        subtitle={revisionSubtitle(revision)}
+                        detail={revision.id === current?.id ? t('artifacts.currentRevision') : undefined}
+                        leftElement={
+                            <Ionicons
+                                name={selected.includes(revision.id) ? 'checkmark-circle' : 'ellipse-outline'}
+                                size={24}
+                                color={selected.includes(revision.id) ? theme.colors.textLink : theme.colors.textSecondary}
+                            />
+                        }
+                        rightElement={revision.id !== current?.id && revision.isDecrypted ? (
+                            <Pressable
+                                onPress={() => handleRestore(revision)}
+                                disabled={restoringId !== null}
+                                hitSlop={8}
+                                accessibilityLabel={t('artifacts.restore')}
+                            >
+                                {restoringId === revision.id
+                                    ? <ActivityIndicator size="small" color={theme.colors.textSecondary} />
+                                    : <Ionicons name="arrow-undo-outline" size={22} color={theme.colors.textLink} />}
+                            </Pressable>
+                        ) : undefined}
+                        onPress={() => handleToggle(revision)}
+                        showChevron={false}
+                    />
+                ))}
+            </ItemGroup>
+        </ItemList>
+    );
+}
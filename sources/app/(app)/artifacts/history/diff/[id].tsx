@@ -0,0 +1,92 @@
+import React from 'react';
+import { ScrollView, View } from 'react-native';
+import { useLocalSearchParams } from 'expo-router';
+import { StyleSheet } from 'react-native-unistyles';
+import { Text } from '@/components/StyledText';
+import { Typography } from '@/constants/Typography';
+import { DiffView } from '@/components/diff/DiffView';
+import { layout } from '@/components/layout';
+import { useArtifactRevisions } from '@/sync/storage';
+import { DecryptedArtifactRevision } from '@/sync/artifactTypes';
+import { t } from '@/text';
+
+// Title is diffed as the first line so renames show up next to content changes
+function revisionText(revision: DecryptedArtifactRevision): string {
+    return `${revision.title ?? ''}\n\n${revision.body ?? ''}`;
+}
+
+function formatRevisionDate(revision: DecryptedArtifactRevision): string {
+    return new Date(revision.createdAt).toLocaleDateString(undefined, {
+        year: 'numeric',
+        month: 'short',
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit',
+    });
+}
+
+/**
+ * Changes between two saved revisions of an artifact
+ */
+export default function ArtifactRevisionDiffScreen() {
+    const { id, from, to } = useLocalSearchParams<{ id: string, from: string, to: string }>();
+    const revisions = useArtifactRevisions(id);
+    const fromRevision = revisions?.find((revision) => revision.id === from);
+    const toRevision = revisions?.find((revision) => revision.id === to);
+
+    if (!fromRevision || !toRevision) {
+        return (
+            <View style={styles.empty}>
+                <Text style={styles.emptyText}>{t('artifacts.revisionNotFound')}</Text>
+            </View>
+        );
+    }
+
+    return (
+        <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+            <View style={[styles.inner, { maxWidth: layout.maxWidth }]}>
+                <Text style={styles.range}>
+                    {t('artifacts.compareRange', { from: formatRevisionDate(fromRevision), to: formatRevisionDate(toRevision) })}
+                </Text>
+                <DiffView
+                    oldText={revisionText(fromRevision)}
+                    newText={revisionText(toRevision)}
+                    wrapLines={true}
+                />
+            </View>
+        </ScrollView>
+    );
+}
+
+const styles = StyleSheet.create((theme) => ({
+    container: {
+        flex: 1,
+        backgroundColor: theme.colors.surface,
+    },
+    content: {
+        alignItems: 'center',
+        paddingBottom: 40,
+    },
+    inner: {
+        width: '100%',
+    },
+    range: {
+        fontSize: 13,
+        color: theme.colors.textSecondary,
+        paddingHorizontal: 16,
+        paddingVertical: 12,
+        ...Typography.default(),
+    },
+    empty: {
+        flex: 1,
+        alignItems: 'center',
+        justifyContent: 'center',
+        padding: 32,
+    },
+    emptyText: {
+        fontSize: 15,
+        color: theme.colors.textSecondary,
+        textAlign: 'center',
+        ...Typography.default(),
+    },
+}));
@@ -9,6 +9,8 @@ import { Modal } from '@/modal';
 import { sync } from '@/sync/sync';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
+import { ArtifactContentEditor } from '@/components/ArtifactContentEditor';
+import { ArtifactFormat } from '@/sync/artifactTypes';
 import { KeyboardAvoidingView } from 'react-native-keyboard-controller';
 
 const stylesheet = StyleSheet.create((theme) => ({
@@ -47,12 +49,6 @@ const stylesheet = StyleSheet.create((theme) => ({
     inputFocused: {
         borderColor: theme.colors.button.primary.background,
     },
-    textArea: {
-        minHeight: 200,
-        textAlignVertical: 'top',
-        paddingTop: 14,
-        lineHeight: 22,
-    },
     headerButton: {
         paddingHorizontal: 16,
         paddingVertical: 8,
@@ -75,9 +71,9 @@ export default function NewArtifactScreen() {
     
     const [title, setTitle] = React.useState('');
     const [body, setBody] = React.useState('');
+    const [format, setFormat] = React.useState<ArtifactFormat>({ type: 'markdown' });
     const [isSaving, setIsSaving] = React.useState(false);
     const [titleFocused, setTitleFocused] = React.useState(false);
-    const [bodyFocused, setBodyFocused] = React.useState(false);
     
     const handleSave = React.useCallback(async () => {
         if (isSaving) return;
@@ -97,7 +93,11 @@ export default function NewArtifactScreen() {
             // Create the artifact
             const artifactId = await sync.createArtifact(
                 title.trim() || null,
-                body.trim() || null
+                body.trim() || null,
+                undefined,
+                undefined,
+                undefined,
+                format
             );
             
             // Navigate to the new artifact
@@ -110,7 +110,7 @@ export default function NewArtifactScreen() {
             );
             setIsSaving(false);
         }
-    }, [title, body, isSaving, router]);
+    }, [title, body, format, isSaving, router]);
     
     const HeaderRight = React.useCallback(() => (
         <Pressable
@@ -185,32 +185,13 @@ export default function NewArtifactScreen() {
                             />
                         </View>
                         
-                        <View style={styles.inputGroup}>
-                            <Text style={styles.label}>{t('artifacts.bodyLabel')}</Text>
-                            <TextInput
-                                style={[
-                                    styles.input,
-                                    styles.textArea,
-                                    bodyFocused && styles.inputFocused,
-                                    Platform.OS === 'web' && { 
-                                        outlineStyle: 'none',
-                                        outline: 'none',
-                                        outlineWidth: 0,
-                                        outlineColor: 'transparent'
-                                    } as any
-                                ]}
-                                value={body}
-                                onChangeText={setBody}
-                                placeholder={t('artifacts.bodyPlaceholder')}
-                                placeholderTextColor={theme.colors.input.placeholder}
-                                onFocus={() => setBodyFocused(true)}
-                                onBlur={() => setBodyFocused(false)}
-                                editable={!isSaving}
-                                multiline
-                                numberOfLines={10}
-                                autoCapitalize="sentences"
-                            />
-                        </View>
+                        <ArtifactContentEditor
+                            format={format}
+                            onFormatChange={setFormat}
+                            body={body}
+                            onBodyChange={setBody}
+                            editable={!isSaving}
+                        />
                     </ScrollView>
                 </KeyboardWrapper>
             </View>
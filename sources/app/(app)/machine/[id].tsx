@@ -421,6 +421,18 @@ export default function MachineDetailScreen() {
                     </>
                 )}
 
+                {/* Terminal */}
+                {machine.active && (
+                    <ItemGroup>
+                        <Item
+                            title={t('remoteTerminal.open')}
+                            subtitle={t('remoteTerminal.openMachineSubtitle')}
+                            icon={<Ionicons name="terminal-outline" size={29} color="#8E8E93" />}
+                            onPress={() => router.push({ pathname: '/shell/[id]', params: { id: machine.id } })}
+                        />
+                    </ItemGroup>
+                )}
+
                 {/* Daemon */}
                 <ItemGroup title={t('machine.daemon')}>
                         <Item
@@ -0,0 +1,327 @@
+import React from 'react';
+import { ActivityIndicator, Pressable, TextInput, View } from 'react-native';
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { StyleSheet, useUnistyles } from 'react-native-unistyles';
+import { Item } from '@/components/Item';
+import { ItemGroup } from '@/components/ItemGroup';
+import { ItemList } from '@/components/ItemList';
+import { Text } from '@/components/StyledText';
+import { Typography } from '@/constants/Typography';
+import { useAuth } from '@/auth/AuthContext';
+import { useAllMachines, useAllSessions, useProjects, useScheduledPrompt } from '@/sync/storage';
+import { nextRunAfter, parseSchedule, ScheduledPromptTarget } from '@/sync/scheduledPrompts';
+import { createScheduledPrompt, deleteScheduledPrompt, runScheduledPromptNow, updateScheduledPrompt } from '@/sync/scheduledPromptsOps';
+import { getSessionName } from '@/utils/sessionUtils';
+import { Modal } from '@/modal';
+import { t } from '@/text';
+
+type Agent = Extract<ScheduledPromptTarget, { type: 'spawn' }>['agent'];
+
+const presets: { schedule: string, title: () => string }[] = [
+    { schedule: '0 * * * *', title: () => t('scheduledPrompts.presetHourly') },
+    { schedule: '0 9 * * *', title: () => t('scheduledPrompts.presetDaily') },
+    { schedule: '0 9 * * 1-5', title: () => t('scheduledPrompts.presetWeekdays') },
+    { schedule: '0 9 * * 1', title: () => t('scheduledPrompts.presetWeekly') },
+];
+
+const agents: Agent[] = ['claude', 'codex', 'gemini'];
+
+function sameTarget(a: ScheduledPromptTarget | null, b: ScheduledPromptTarget): boolean {
+    if (!a || a.type !== b.type) {
+        return false;
+    }
+    if (a.type === 'session' && b.type === 'session') {
+        return a.sessionId === b.sessionId;
+    }
+    return a.type === 'spawn' && b.type === 'spawn' && a.machineId === b.machineId && a.path === b.path;
+}
+
+/**
+ * Create or edit a scheduled prompt. A new prompt can be preset to a session or to a project
+ */
+export default function EditScheduledPromptScreen() {
+    const params = useLocalSearchParams<{ id?: string, sessionId?: string, machineId?: string, path?: string }>();
+    const router = useRouter();
+    const auth = useAuth();
+    const { theme } = useUnistyles();
+    const existing = useScheduledPrompt(params.id ?? '');
+    const sessions = useAllSessions();
+    const projects = useProjects();
+    const machines = useAllMachines();
+
+    const [title, setTitle] = React.useState(existing?.title ?? '');
+    const [prompt, setPrompt] = React.useState(existing?.prompt ?? '');
+    const [schedule, setSchedule] = React.useState(existing?.schedule ?? '0 9 * * 1-5');
+    const [target, setTarget] = React.useState<ScheduledPromptTarget | null>(() => {
+        if (existing) {
+            return existing.target;
+        }
+        if (params.sessionId) {
+            return { type: 'session', sessionId: params.sessionId };
+        }
+        if (params.machineId && params.path) {
+            return { type: 'spawn', machineId: params.machineId, path: params.path, agent: 'claude' };
+        }
+        return null;
+    });
+    const [isSaving, setIsSaving] = React.useState(false);
+
+    const parsed = React.useMemo(() => parseSchedule(schedule), [schedule]);
+    const nextRun = parsed ? nextRunAfter(parsed, Date.now()) : null;
+
+    const machineName = React.useCallback((machineId: string) => {
+        const machine = machines.find((m) => m.id === machineId);
+        return machine?.metadata?.displayName || machine?.metadata?.host || machineId;
+    }, [machines]);
+
+    // Active sessions, plus the one of the prompt so an ended target stays visible
+    const targetSessions = React.useMemo(() => sessions.filter((session) =>
+        session.active || (target?.type === 'session' && target.sessionId === session.id)
+    ), [sessions, target]);
+
+    const handleSave = React.useCallback(async () => {
+        if (!auth?.credentials || isSaving) {
+            return;
+        }
+        if (!title.trim() || !prompt.trim()) {
+            Modal.alert(t('common.error'), t('scheduledPrompts.fieldsRequired'));
+            return;
+        }
+        if (!parsed) {
+            Modal.alert(t('common.error'), t('scheduledPrompts.invalidSchedule'));
+            return;
+        }
+        if (!target) {
+            Modal.alert(t('common.error'), t('scheduledPrompts.targetRequired'));
+            return;
+        }
+        setIsSaving(true);
+        try {
+            const fields = { title: title.trim(), prompt: prompt.trim(), schedule: schedule.trim(), target };
+            if (existing) {
+                await updateScheduledPrompt(auth.credentials, existing.id, fields);
+            } else {
+                await createScheduledPrompt(auth.credentials, fields);
+            }
+            router.back();
+        } catch (error) {
+            Modal.alert(t('common.error'), error instanceof Error ? error.message : String(error));
+            setIsSaving(false);
+        }
+    }, [auth, isSaving, title, prompt, parsed, schedule, target, existing, router]);
+
+    const handleRunNow = React.useCallback(async () => {
+        if (!auth?.credentials || !existing) {
+            return;
+        }
+        setIsSaving(true);
+        try {
+            await runScheduledPromptNow(auth.credentials, existing.id);
+        } catch (error) {
+            Modal.alert(t('common.error'), error instanceof Error ? error.message : String(error));
+        } finally {
+            setIsSaving(false);
+        }
+    }, [auth, existing]);
+
+    const handleDelete = React.useCallback(async () => {
+        if (!auth?.credentials || !existing) {
+            return;
+        }
+        const confirmed = await Modal.confirm(
+            t('scheduledPrompts.delete'),
+            t('scheduledPrompts.deleteConfirm', { title: existing.title }),
+            { confirmText: t('scheduledPrompts.delete'), destructive: true }
+        );
+        if (!confirmed) {
+            return;
+        }
+        try {
+            await deleteScheduledPrompt(auth.credentials, existing.id);
+            router.back();
+        } catch (error) {
+            Modal.alert(t('common.error'), error instanceof Error ? error.message : String(error));
+        }
+    }, [auth, existing, router]);
+
+    const lastSessionId = existing?.lastRun?.sessionId;
+
+    return (
+        <>
+            <Stack.Screen
+                options={{
+                    headerTitle: existing ? t('scheduledPrompts.edit') : t('scheduledPrompts.new'),
+                    headerRight: () => (
+                        <Pressable onPress={handleSave} disabled={isSaving} hitSlop={10}>
+                            {isSaving
+                                ? <ActivityIndicator size="small" color={theme.colors.header.tint} />
+                                : <Text style={styles.headerButton}>{t('common.save')}</Text>}
+                        </Pressable>
+                    )
+                }}
+            />
+            <ItemList style={{ paddingTop: 0 }} keyboardShouldPersistTaps="handled">
+                <ItemGroup title={t('scheduledPrompts.prompt')}>
+                    <View style={styles.inputContainer}>
+                        <TextInput
+                            style={styles.input}
+                            placeholder={t('scheduledPrompts.titlePlaceholder')}
+                            placeholderTextColor={theme.colors.textSecondary}
+                            value={title}
+                            onChangeText={setTitle}
+                        />
+                    </View>
+                    <View style={styles.inputContainer}>
+                        <TextInput
+                            style={[styles.input, styles.promptInput]}
+                            placeholder={t('scheduledPrompts.promptPlaceholder')}
+                            placeholderTextColor={theme.colors.textSecondary}
+                            value={prompt}
+                            onChangeText={setPrompt}
+                            multiline
+                        />
+                    </View>
+                </ItemGroup>
+
+                <ItemGroup
+                    title={t('scheduledPrompts.schedule')}
+                    footer={parsed
+                        ? nextRun !== null ? t('scheduledPrompts.nextRun', { time: new Date(nextRun).toLocaleString() }) : t('scheduledPrompts.neverRuns')
+                        : t('scheduledPrompts.scheduleFooter')}
+                >
+                    <View style={styles.inputContainer}>
+                        <TextInput
+                            style={[styles.input, styles.scheduleInput, !parsed && { color: theme.colors.textDestructive }]}
+                            placeholder="0 9 * * 1-5"
+                            placeholderTextColor={theme.colors.textSecondary}
+                            value={schedule}
+                            onChangeText={setSchedule}
+                            autoCapitalize="none"
+                            autoCorrect={false}
+                        />
+                    </View>
+                    {presets.map((preset) => (
+                        <Item
+                            key={preset.schedule}
+                            title={preset.title()}
+                            subtitle={preset.schedule}
+                            rightElement={schedule.trim() === preset.schedule ? <Ionicons name="checkmark" size={20} color="#007AFF" /> : null}
+                            onPress={() => setSchedule(preset.schedule)}
+                            showChevron={false}
+                        />
+                    ))}
+                </ItemGroup>
+
+                <ItemGroup title={t('scheduledPrompts.existingSession')}>
+                    {targetSessions.length === 0 && (
+                        <Item title={t('scheduledPrompts.noActiveSessions')} showChevron={false} />
+                    )}
+                    {targetSessions.map((session) => {
+                        const option: ScheduledPromptTarget = { type: 'session', sessionId: session.id };
+                        return (
+                            <Item
+                                key={session.id}
+                                title={getSessionName(session)}
+                                subtitle={session.metadata?.path}
+                                icon={<Ionicons name="chatbubble-ellipses-outline" size={29} color="#007AFF" />}
+                                rightElement={sameTarget(target, option) ? <Ionicons name="checkmark" size={20} color="#007AFF" /> : null}
+                                onPress={() => setTarget(option)}
+                                showChevron={false}
+                            />
+                        );
+                    })}
+                </ItemGroup>
+
+                <ItemGroup title={t('scheduledPrompts.newSession')} footer={t('scheduledPrompts.newSessionFooter')}>
+                    {projects.map((project) => {
+                        const option: ScheduledPromptTarget = {
+                            type: 'spawn',
+                            machineId: project.key.machineId,
+                            path: project.key.path,
+                            agent: target?.type === 'spawn' ? target.agent : 'claude'
+                        };
+                        return (
+                            <Item
+                                key={`${project.key.machineId}:${project.key.path}`}
+                                title={project.key.path}
+                                subtitle={machineName(project.key.machineId)}
+                                icon={<Ionicons name="folder-outline" size={29} color="#007AFF" />}
+                                rightElement={sameTarget(target, option) ? <Ionicons name="checkmark" size={20} color="#007AFF" /> : null}
+                                onPress={() => setTarget(option)}
+                                showChevron={false}
+                            />
+                        );
+                    })}
+                </ItemGroup>
+
+                {target?.type === 'spawn' && (
+                    <ItemGroup title={t('scheduledPrompts.agent')}>
+                        {agents.map((agent) => (
+                            <Item
+                                key={agent}
+                                title={agent === 'claude' ? 'Claude' : agent === 'codex' ? 'Codex' : 'Gemini'}
+                                rightElement={target.agent === agent ? <Ionicons name="checkmark" size={20} color="#007AFF" /> : null}
+                                onPress={() => setTarget({ ...target, agent })}
+                                showChevron={false}
+                            />
+                        ))}
+                    </ItemGroup>
+                )}
+
+                {existing && (
+                    <ItemGroup>
+                        <Item
+                            title={t('scheduledPrompts.runNow')}
+                            icon={<Ionicons name="play-circle-outline" size={29} color="#34C759" />}
+                            onPress={handleRunNow}
+                            disabled={isSaving}
+                            showChevron={false}
+                        />
+                        {lastSessionId && (
+                            <Item
+                                title={t('scheduledPrompts.openLastSession')}
+                                icon={<Ionicons name="open-outline" size={29} color="#007AFF" />}
+                                onPress={() => router.push(`/session/${lastSessionId}`)}
+                            />
+                        )}
+                        <Item
+                            title={t('scheduledPrompts.delete')}
+                            icon={<Ionicons name="trash-outline" size={29} color="#FF3B30" />}
+                            destructive
+                            onPress={handleDelete}
+                            showChevron={false}
+                        />
+                    </ItemGroup>
+                )}
+            </ItemList>
+        </>
+    );
+}
+
+const styles = StyleSheet.create((theme) => ({
+    headerButton: {
+        fontSize: 17,
+        color: theme.colors.header.tint,
+        ...Typography.default('semiBold'),
+    },
+    inputContainer: {
+        paddingHorizontal: 16,
+        paddingVertical: 8,
+    },
+    input: {
+        paddingVertical: 10,
+        paddingHorizontal: 12,
+        fontSize: 16,
+        color: theme.colors.text,
+        backgroundColor: theme.colors.surfaceHighest,
+        borderRadius: 8,
+    },
+    promptInput: {
+        minHeight: 120,
+        textAlignVertical: 'top',
+    },
+    scheduleInput: {
+        ...Typography.mono(),
+    },
+}));
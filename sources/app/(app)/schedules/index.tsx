@@ -0,0 +1,138 @@
+import React from 'react';
+import { ActivityIndicator, Pressable, View } from 'react-native';
+import { Stack, useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useUnistyles } from 'react-native-unistyles';
+import { Item } from '@/components/Item';
+import { ItemGroup } from '@/components/ItemGroup';
+import { ItemList } from '@/components/ItemList';
+import { Switch } from '@/components/Switch';
+import { useAuth } from '@/auth/AuthContext';
+import { storage, useAllMachines, useScheduledPrompts } from '@/sync/storage';
+import { getNextRun, ScheduledPrompt } from '@/sync/scheduledPrompts';
+import { updateScheduledPrompt } from '@/sync/scheduledPromptsOps';
+import { getSessionName, formatLastSeen } from '@/utils/sessionUtils';
+import { Modal } from '@/modal';
+import { t } from '@/text';
+
+function formatRunTime(timestamp: number): string {
+    return new Date(timestamp).toLocaleString(undefined, {
+        weekday: 'short',
+        month: 'short',
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit'
+    });
+}
+
+function useScheduleTargetTitle() {
+    const machines = useAllMachines();
+    return React.useCallback((prompt: ScheduledPrompt) => {
+        const target = prompt.target;
+        if (target.type === 'session') {
+            const session = storage.getState().sessions[target.sessionId];
+            return session ? getSessionName(session) : t('scheduledPrompts.missingSession');
+        }
+        const machine = machines.find((m) => m.id === target.machineId);
+        const machineName = machine?.metadata?.displayName || machine?.metadata?.host || target.machineId;
+        return t('scheduledPrompts.newSessionIn', { path: target.path, machine: machineName });
+    }, [machines]);
+}
+
+function lastRunTitle(prompt: ScheduledPrompt): string {
+    const run = prompt.lastRun;
+    if (!run) {
+        return t('scheduledPrompts.neverRun');
+    }
+    switch (run.status) {
+        case 'running':
+            return t('scheduledPrompts.running');
+        case 'success':
+            return t('scheduledPrompts.lastRunSuccess', { time: formatLastSeen(run.startedAt) });
+        case 'error':
+            return t('scheduledPrompts.lastRunError', { time: formatLastSeen(run.startedAt), error: run.error ?? '' });
+    }
+}
+
+export default function ScheduledPromptsScreen() {
+    const router = useRouter();
+    const auth = useAuth();
+    const { theme } = useUnistyles();
+    const prompts = useScheduledPrompts();
+    const targetTitle = useScheduleTargetTitle();
+
+    // Refresh the next run times every minute
+    const [now, setNow] = React.useState(() => Date.now());
+    React.useEffect(() => {
+        const interval = setInterval(() => setNow(Date.now()), 60 * 1000);
+        return () => clearInterval(interval);
+    }, []);
+
+    const setPaused = React.useCallback(async (prompt: ScheduledPrompt, paused: boolean) => {
+        if (!auth?.credentials) {
+            return;
+        }
+        try {
+            await updateScheduledPrompt(auth.credentials, prompt.id, { paused });
+        } catch (error) {
+            Modal.alert(t('common.error'), error instanceof Error ? error.message : String(error));
+        }
+    }, [auth]);
+
+    return (
+        <>
+            <Stack.Screen
+                options={{
+                    headerRight: () => (
+                        <Pressable onPress={() => router.push('/schedules/edit')} hitSlop={10}>
+                            <Ionicons name="add" size={26} color={theme.colors.header.tint} />
+                        </Pressable>
+                    )
+                }}
+            />
+            <ItemList style={{ paddingTop: 0 }}>
+                <ItemGroup footer={t('scheduledPrompts.footer')}>
+                    {prompts === null && (
+                        <View style={{ padding: 16 }}>
+                            <ActivityIndicator size="small" color={theme.colors.textSecondary} />
+                        </View>
+                    )}
+                    {prompts?.length === 0 && (
+                        <Item
+                            title={t('scheduledPrompts.empty')}
+                            icon={<Ionicons name="add-circle-outline" size={29} color="#007AFF" />}
+                            onPress={() => router.push('/schedules/edit')}
+                            showChevron={false}
+                        />
+                    )}
+                    {prompts?.map((prompt) => {
+                        const nextRun = getNextRun(prompt, now);
+                        const next = prompt.paused
+                            ? t('scheduledPrompts.paused')
+                            : nextRun !== null ? t('scheduledPrompts.nextRun', { time: formatRunTime(nextRun) }) : t('scheduledPrompts.invalidSchedule');
+                        return (
+                            <Item
+                                key={prompt.id}
+                                title={prompt.title}
+                                subtitle={[`${prompt.schedule} · ${targetTitle(prompt)}`, next, lastRunTitle(prompt)].join('\n')}
+                                subtitleLines={0}
+                                icon={<Ionicons
+                                    name={prompt.lastRun?.status === 'error' ? 'alert-circle-outline' : 'time-outline'}
+                                    size={29}
+                                    color={prompt.lastRun?.status === 'error' ? '#FF3B30' : prompt.paused ? '#8E8E93' : '#007AFF'}
+                                />}
+                                rightElement={
+                                    <Switch
+                                        value={!prompt.paused}
+                                        onValueChange={(enabled) => setPaused(prompt, !enabled)}
+                                    />
+                                }
+                                onPress={() => router.push({ pathname: '/schedules/edit', params: { id: prompt.id } })}
+                            />
+                        );
+                    })}
+                </ItemGroup>
+            </ItemList>
+        </>
+    );
+}
@@ -5,6 +5,10 @@ import { SessionView } from '@/-session/SessionView';
 
 export default React.memo(() => {
     const route = useRoute();
-    const sessionId = (route.params! as any).id as string;
-    return (<SessionView id={sessionId} />);
-});
\ No newline at end of file
+    const params = route.params! as any;
+    const sessionId = params.id as string;
+    const messageId = params.message as string | undefined;
+    const createdAt = params.at ? Number(params.at) : null;
+    const focus = React.useMemo(() => messageId ? { messageId, createdAt } : undefined, [messageId, createdAt]);
+    return (<SessionView id={sessionId} focus={focus} />);
+});
@@ -0,0 +1,230 @@
+import * as React from 'react';
+import { View, Pressable, ScrollView, ActivityIndicator, Platform } from 'react-native';
+import { useRoute } from '@react-navigation/native';
+import { useRouter } from 'expo-router';
+import { Octicons } from '@expo/vector-icons';
+import { useUnistyles, StyleSheet } from 'react-native-unistyles';
+import { Text } from '@/components/StyledText';
+import { Typography } from '@/constants/Typography';
+import { storage, useDiffComments, useSession, useSessionMessages } from '@/sync/storage';
+import { composeDiffCommentsMessage, DiffComment, DiffCommentStatus, getDiffCommentStatus } from '@/sync/diffComments';
+import { sync } from '@/sync/sync';
+import { useNavigateToSession } from '@/hooks/useNavigateToSession';
+import { Modal } from '@/modal';
+import { layout } from '@/components/layout';
+import { t } from '@/text';
+
+export default function DiffCommentsScreen() {
+    const route = useRoute();
+    const router = useRouter();
+    const sessionId = (route.params! as any).id as string;
+    const session = useSession(sessionId);
+    const { messages } = useSessionMessages(sessionId);
+    const comments = useDiffComments(sessionId);
+    const navigateToSession = useNavigateToSession();
+    const { theme } = useUnistyles();
+    const [isSending, setIsSending] = React.useState(false);
+
+    const metadata = session?.metadata ?? null;
+    const statuses = React.useMemo(() => {
+        const result: Record<string, DiffCommentStatus> = {};
+        for (const comment of comments) {
+            result[comment.id] = getDiffCommentStatus(comment, messages, metadata);
+        }
+        return result;
+    }, [comments, messages, metadata]);
+    const pending = comments.filter((comment) => statuses[comment.id] === 'pending');
+    const resolved = comments.filter((comment) => statuses[comment.id] === 'resolved');
+
+    const handleSend = React.useCallback(async () => {
+        setIsSending(true);
+        try {
+            await sync.sendMessage(sessionId, composeDiffCommentsMessage(pending), t('diffComments.sentMessage', { count: pending.length }));
+            const sentAt = Date.now();
+            storage.getState().applyDiffComments(pending.map((comment) => ({ ...comment, sentAt })));
+            navigateToSession(sessionId);
+        } catch (error) {
+            Modal.alert(t('common.error'), error instanceof Error ? error.message : String(error));
+        } finally {
+            setIsSending(false);
+        }
+    }, [sessionId, pending, navigateToSession]);
+
+    const handleEdit = React.useCallback(async (comment: DiffComment) => {
+        const text = await Modal.prompt(t('diffComments.commentOnLine', { line: comment.line }), comment.lineText.trim() || undefined, {
+            defaultValue: comment.comment,
+            placeholder: t('diffComments.placeholder'),
+            cancelText: t('common.cancel'),
+            confirmText: t('common.save')
+        });
+        if (text === null || text === comment.comment) {
+            return;
+        }
+        if (!text.trim()) {
+            storage.getState().removeDiffComment(comment.id);
+        } else {
+            storage.getState().applyDiffComments([{ ...comment, comment: text, sentAt: null }]);
+        }
+    }, []);
+
+    const handleClearResolved = React.useCallback(() => {
+        for (const comment of resolved) {
+            storage.getState().removeDiffComment(comment.id);
+        }
+    }, [resolved]);
+
+    return (
+        <View style={[styles.container, { backgroundColor: theme.colors.surface }]}>
+            <ScrollView contentContainerStyle={styles.listContent}>
+                {comments.length === 0 ? (
+                    <Text style={styles.emptyText}>{t('diffComments.empty')}</Text>
+                ) : comments.map((comment) => (
+                    <CommentRow
+                        key={comment.id}
+                        comment={comment}
+                        status={statuses[comment.id]}
+                        onPress={() => handleEdit(comment)}
+                        onOpen={() => router.push(`/session/${sessionId}/message/${comment.messageId}`)}
+                        onDelete={() => storage.getState().removeDiffComment(comment.id)}
+                    />
+                ))}
+                {resolved.length > 0 && (
+                    <Pressable onPress={handleClearResolved} style={styles.clearButton}>
+                        <Text style={styles.clearText}>{t('diffComments.clearResolved', { count: resolved.length })}</Text>
+                    </Pressable>
+                )}
+            </ScrollView>
+
+            <View style={styles.footer}>
+                <Pressable
+                    onPress={handleSend}
+                    disabled={isSending || pending.length === 0}
+                    style={[styles.sendButton, (isSending || pending.length === 0) && { opacity: 0.5 }]}
+                >
+                    {isSending && <ActivityIndicator size="small" color="white" />}
+                    <Text style={styles.sendText}>{t('diffComments.send', { count: pending.length })}</Text>
+                </Pressable>
+            </View>
+        </View>
+    );
+}
+
+function CommentRow(props: {
+    comment: DiffComment;
+    status: DiffCommentStatus;
+    onPress: () => void;
+    onOpen: () => void;
+    onDelete: () => void;
+}) {
+    const { comment, status } = props;
+    const { theme } = useUnistyles();
+    const statusColor = status === 'resolved' ? theme.colors.success : status === 'sent' ? theme.colors.textSecondary : theme.colors.textLink;
+    const statusTitle = status === 'resolved' ? t('diffComments.resolved') : status === 'sent' ? t('diffComments.sent') : t('diffComments.pending');
+
+    return (
+        <Pressable onPress={props.onPress} style={styles.comment}>
+            <View style={styles.commentHeader}>
+                <Text style={styles.commentLocation} numberOfLines={1} ellipsizeMode="middle">
+                    {`${comment.filePath} · ${t('diffComments.line', { line: comment.line })}`}
+                </Text>
+                <Text style={[styles.status, { color: statusColor }]}>{statusTitle}</Text>
+                <Pressable onPress={props.onOpen} hitSlop={8}>
+                    <Octicons name="file-diff" size={16} color={theme.colors.textLink} />
+                </Pressable>
+                <Pressable onPress={props.onDelete} hitSlop={8}>
+                    <Octicons name="trash" size={16} color={theme.colors.textDestructive} />
+                </Pressable>
+            </View>
+            <Text style={[styles.snippet, status === 'resolved' && { textDecorationLine: 'line-through' }]} numberOfLines={3}>
+                {comment.snippet}
+            </Text>
+            <Text style={styles.commentText}>{comment.comment}</Text>
+        </Pressable>
+    );
+}
+
+const styles = StyleSheet.create((theme) => ({
+    container: {
+        flex: 1,
+    },
+    listContent: {
+        paddingVertical: 8,
+        maxWidth: layout.maxWidth,
+        width: '100%',
+        alignSelf: 'center',
+    },
+    emptyText: {
+        marginTop: 32,
+        paddingHorizontal: 32,
+        textAlign: 'center',
+        fontSize: 15,
+        color: theme.colors.textSecondary,
+        ...Typography.default(),
+    },
+    comment: {
+        paddingHorizontal: 16,
+        paddingVertical: 12,
+        gap: 6,
+        borderBottomWidth: Platform.select({ ios: 0.33, default: 1 }),
+        borderBottomColor: theme.colors.divider,
+    },
+    commentHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 12,
+    },
+    commentLocation: {
+        flex: 1,
+        fontSize: 14,
+        fontWeight: '600',
+        color: theme.colors.text,
+        ...Typography.default('semiBold'),
+    },
+    status: {
+        fontSize: 12,
+        fontWeight: '600',
+        ...Typography.default('semiBold'),
+    },
+    snippet: {
+        padding: 8,
+        borderRadius: 6,
+        fontSize: 12,
+        color: theme.colors.textSecondary,
+        backgroundColor: theme.colors.surfaceHigh,
+        ...Typography.mono(),
+    },
+    commentText: {
+        fontSize: 15,
+        color: theme.colors.text,
+        ...Typography.default(),
+    },
+    clearButton: {
+        alignItems: 'center',
+        padding: 16,
+    },
+    clearText: {
+        fontSize: 14,
+        color: theme.colors.textLink,
+        ...Typography.default(),
+    },
+    footer: {
+        padding: 16,
+        borderTopWidth: Platform.select({ ios: 0.33, default: 1 }),
+        borderTopColor: theme.colors.divider,
+    },
+    sendButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: 8,
+        paddingVertical: 12,
+        borderRadius: 10,
+        backgroundColor: theme.colors.textLink,
+    },
+    sendText: {
+        fontSize: 15,
+        fontWeight: '600',
+        color: 'white',
+        ...Typography.default('semiBold'),
+    },
+}));
@@ -0,0 +1,219 @@
+import * as React from 'react';
+import { View, Pressable, ScrollView, ActivityIndicator, Platform } from 'react-native';
+import { useRoute } from '@react-navigation/native';
+import { useLocalSearchParams } from 'expo-router';
+import { Octicons } from '@expo/vector-icons';
+import { useUnistyles, StyleSheet } from 'react-native-unistyles';
+import { Text } from '@/components/StyledText';
+import { FileIcon } from '@/components/FileIcon';
+import { DiffView } from '@/components/diff/DiffView';
+import { Typography } from '@/constants/Typography';
+import { gitCommitDetails, gitCommitFiles, gitFileAtRevision } from '@/sync/gitOperations';
+import { GitCommitDetails } from '@/sync/git-parsers/parseLog';
+import { DiffFileStat } from '@/sync/git-parsers/parseDiff';
+import { layout } from '@/components/layout';
+import { t } from '@/text';
+
+interface FileDiffContent {
+    oldText: string;
+    newText: string;
+}
+
+export default function CommitScreen() {
+    const route = useRoute();
+    const sessionId = (route.params! as any).id as string;
+    const { hash } = useLocalSearchParams<{ hash: string }>();
+    const { theme } = useUnistyles();
+
+    const [commit, setCommit] = React.useState<GitCommitDetails | null>(null);
+    const [files, setFiles] = React.useState<DiffFileStat[]>([]);
+    const [error, setError] = React.useState<string | null>(null);
+    const [expanded, setExpanded] = React.useState<Record<string, boolean>>({});
+    const [diffs, setDiffs] = React.useState<Record<string, FileDiffContent>>({});
+
+    React.useEffect(() => {
+        let cancelled = false;
+        (async () => {
+            try {
+                const details = await gitCommitDetails(sessionId, hash);
+                const changed = await gitCommitFiles(sessionId, details);
+                if (!cancelled) {
+                    setCommit(details);
+                    setFiles(changed);
+                }
+            } catch (e) {
+                if (!cancelled) {
+                    setError(e instanceof Error ? e.message : String(e));
+                }
+            }
+        })();
+        return () => {
+            cancelled = true;
+        };
+    }, [sessionId, hash]);
+
+    // Both sides of a file are only loaded when it is expanded
+    const toggleFile = React.useCallback(async (file: DiffFileStat) => {
+        const isExpanded = !expanded[file.file];
+        setExpanded((existing) => ({ ...existing, [file.file]: isExpanded }));
+        if (!isExpanded || file.binary || diffs[file.file] || !commit) {
+            return;
+        }
+        const [oldText, newText] = await Promise.all([
+            commit.parents.length > 0 ? gitFileAtRevision(sessionId, commit.parents[0], file.file) : Promise.resolve(''),
+            gitFileAtRevision(sessionId, commit.hash, file.file)
+        ]);
+        setDiffs((existing) => ({ ...existing, [file.file]: { oldText, newText } }));
+    }, [expanded, diffs, commit, sessionId]);
+
+    if (error) {
+        return (
+            <View style={[styles.centered, { backgroundColor: theme.colors.surface }]}>
+                <Text style={styles.errorText}>{error}</Text>
+            </View>
+        );
+    }
+
+    if (!commit) {
+        return (
+            <View style={[styles.centered, { backgroundColor: theme.colors.surface }]}>
+                <ActivityIndicator color={theme.colors.textSecondary} />
+            </View>
+        );
+    }
+
+    const insertions = files.reduce((sum, file) => sum + file.insertions, 0);
+    const deletions = files.reduce((sum, file) => sum + file.deletions, 0);
+
+    return (
+        <ScrollView
+            style={{ flex: 1, backgroundColor: theme.colors.surface }}
+            contentContainerStyle={{ maxWidth: layout.maxWidth, width: '100%', alignSelf: 'center', paddingBottom: 32 }}
+        >
+            <View style={styles.header}>
+                <Text style={styles.subject} selectable>{commit.subject}</Text>
+                {commit.body.length > 0 && <Text style={styles.body} selectable>{commit.body}</Text>}
+                <Text style={styles.meta} selectable>
+                    {`${commit.authorName} <${commit.authorEmail}>\n${new Date(commit.timestamp).toLocaleString()}`}
+                </Text>
+                <Text style={styles.hash} selectable>{commit.hash}</Text>
+                {commit.parents.length > 1 && (
+                    <Text style={styles.meta}>
+                        {t('gitHistory.mergeOf', { parents: commit.parents.map((parent) => parent.slice(0, 7)).join(', ') })}
+                    </Text>
+                )}
+                {commit.refs.length > 0 && <Text style={styles.meta}>{commit.refs.join(', ')}</Text>}
+                <Text style={styles.meta}>
+                    {t('gitHistory.changeSummary', { files: files.length, insertions, deletions })}
+                </Text>
+            </View>
+
+            {files.map((file) => {
+                const fileName = file.file.split('/').pop() || file.file;
+                const diff = diffs[file.file];
+                return (
+                    <View key={file.file} style={styles.file}>
+                        <Pressable onPress={() => toggleFile(file)} style={styles.fileHeader}>
+                            <Octicons
+                                name={expanded[file.file] ? 'chevron-down' : 'chevron-right'}
+                                size={14}
+                                color={theme.colors.textSecondary}
+                            />
+                            <FileIcon fileName={fileName} size={18} />
+                            <Text style={styles.filePath} numberOfLines={1} ellipsizeMode="middle">{file.file}</Text>
+                            {file.binary ? (
+                                <Text style={styles.fileStat}>{t('gitHistory.binary')}</Text>
+                            ) : (
+                                <Text style={styles.fileStat}>
+                                    <Text style={{ color: theme.colors.success }}>{`+${file.insertions}`}</Text>
+                                    {' '}
+                                    <Text style={{ color: theme.colors.textDestructive }}>{`-${file.deletions}`}</Text>
+                                </Text>
+                            )}
+                        </Pressable>
+                        {expanded[file.file] && (
+                            file.binary ? (
+                                <Text style={styles.binaryText}>{t('gitHistory.binaryNotShown')}</Text>
+                            ) : diff ? (
+                                <DiffView oldText={diff.oldText} newText={diff.newText} />
+                            ) : (
+                                <ActivityIndicator style={{ marginVertical: 12 }} color={theme.colors.textSecondary} />
+                            )
+                        )}
+                    </View>
+                );
+            })}
+        </ScrollView>
+    );
+}
+
+const styles = StyleSheet.create((theme) => ({
+    centered: {
+        flex: 1,
+        justifyContent: 'center',
+        alignItems: 'center',
+        padding: 32,
+    },
+    errorText: {
+        fontSize: 15,
+        textAlign: 'center',
+        color: theme.colors.textDestructive,
+        ...Typography.default(),
+    },
+    header: {
+        padding: 16,
+        gap: 8,
+        borderBottomWidth: Platform.select({ ios: 0.33, default: 1 }),
+        borderBottomColor: theme.colors.divider,
+    },
+    subject: {
+        fontSize: 18,
+        fontWeight: '600',
+        color: theme.colors.text,
+        ...Typography.default('semiBold'),
+    },
+    body: {
+        fontSize: 14,
+        color: theme.colors.text,
+        ...Typography.default(),
+    },
+    meta: {
+        fontSize: 13,
+        color: theme.colors.textSecondary,
+        ...Typography.default(),
+    },
+    hash: {
+        fontSize: 12,
+        color: theme.colors.textSecondary,
+        ...Typography.mono(),
+    },
+    file: {
+        borderBottomWidth: Platform.select({ ios: 0.33, default: 1 }),
+        borderBottomColor: theme.colors.divider,
+    },
+    fileHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+        paddingHorizontal: 16,
+        paddingVertical: 12,
+    },
+    filePath: {
+        flex: 1,
+        fontSize: 14,
+        color: theme.colors.text,
+        ...Typography.default(),
+    },
+    fileStat: {
+        fontSize: 12,
+        color: theme.colors.textSecondary,
+        ...Typography.mono(),
+    },
+    binaryText: {
+        paddingHorizontal: 16,
+        paddingBottom: 12,
+        fontSize: 13,
+        color: theme.colors.textSecondary,
+        ...Typography.default(),
+    },
+}));
@@ -5,13 +5,17 @@ import { useLocalSearchParams } from 'expo-router';
 import { Text } from '@/components/StyledText';
 import { SimpleSyntaxHighlighter } from '@/components/SimpleSyntaxHighlighter';
 import { Typography } from '@/constants/Typography';
-import { sessionReadFile, sessionBash } from '@/sync/ops';
-import { storage } from '@/sync/storage';
+import { sessionReadFile } from '@/sync/ops';
+import { gitApplyHunk, gitFileDiff } from '@/sync/gitOperations';
+import { DiffHunk, FileDiff, parseFileDiff } from '@/sync/git-parsers/parseHunks';
+import { storage, useSession } from '@/sync/storage';
+import { isSessionOwner } from '@/sync/sessionShareTypes';
 import { Modal } from '@/modal';
 import { useUnistyles, StyleSheet } from 'react-native-unistyles';
 import { layout } from '@/components/layout';
 import { t } from '@/text';
 import { FileIcon } from '@/components/FileIcon';
+import { FileEditor } from '@/components/FileEditor';
 
 interface FileContent {
     content: string;
@@ -68,12 +72,54 @@ const DiffDisplay: React.FC<{ diffContent: string }> = ({ diffContent }) => {
     );
 };
 
+// Diff split into hunks that can be staged or unstaged one by one
+const HunkDiffDisplay: React.FC<{
+    diff: FileDiff;
+    action: 'stage' | 'unstage';
+    disabled: boolean;
+    onHunkAction: (diff: FileDiff, hunk: DiffHunk, action: 'stage' | 'unstage') => void;
+}> = ({ diff, action, disabled, onHunkAction }) => {
+    const { theme } = useUnistyles();
+    return (
+        <View>
+            {diff.hunks.map((hunk, index) => (
+                <View key={`${hunk.header}-${index}`} style={{ marginBottom: 12 }}>
+                    <View style={{ flexDirection: 'row', justifyContent: 'flex-end', marginBottom: 4 }}>
+                        <Pressable
+                            onPress={() => onHunkAction(diff, hunk, action)}
+                            disabled={disabled}
+                            hitSlop={8}
+                            style={{
+                                paddingHorizontal: 10,
+                                paddingVertical: 4,
+                                borderRadius: 6,
+                                backgroundColor: theme.colors.input.background,
+                                opacity: disabled ? 0.5 : 1
+                            }}
+                        >
+                            <Text style={{ fontSize: 12, fontWeight: '600', color: theme.colors.textLink, ...Typography.default() }}>
+                                {action === 'stage' ? t('files.stageHunk') : t('files.unstageHunk')}
+                            </Text>
+                        </Pressable>
+                    </View>
+                    <DiffDisplay diffContent={[hunk.header, ...hunk.lines].join('\n')} />
+                </View>
+            ))}
+        </View>
+    );
+};
+
 export default function FileScreen() {
     const route = useRoute();
     const { theme } = useUnistyles();
     const { id: sessionId } = useLocalSearchParams<{ id: string }>();
+    // Staging and saving write to the owner's machine, shares only read the file
+    const session = useSession(sessionId!);
+    const canWrite = !!session && isSessionOwner(session);
     const searchParams = useLocalSearchParams();
     const encodedPath = searchParams.path as string;
+    // Line to scroll to when opened from a search result
+    const targetLine = searchParams.line ? parseInt(searchParams.line as string, 10) || null : null;
     let filePath = '';
     
     // Decode base64 path with error handling
@@ -86,9 +132,13 @@ export default function FileScreen() {
     
     const [fileContent, setFileContent] = React.useState<FileContent | null>(null);
     const [diffContent, setDiffContent] = React.useState<string | null>(null);
-    const [displayMode, setDisplayMode] = React.useState<'file' | 'diff'>('diff');
+    const [stagedDiffContent, setStagedDiffContent] = React.useState<string | null>(null);
+    const [isApplyingHunk, setIsApplyingHunk] = React.useState(false);
+    const [displayMode, setDisplayMode] = React.useState<'file' | 'diff' | 'edit'>('diff');
     const [isLoading, setIsLoading] = React.useState(true);
     const [error, setError] = React.useState<string | null>(null);
+    const scrollViewRef = React.useRef<ScrollView>(null);
+    const hasScrolledToLine = React.useRef(false);
 
     // Determine file language from extension
     const getFileLanguage = React.useCallback((path: string): string | null => {
@@ -163,6 +213,29 @@ export default function FileScreen() {
         return ext ? binaryExtensions.includes(ext) : false;
     }, []);
 
+    // Fetch unstaged and staged git diffs of the file (if in git repo)
+    const loadDiffs = React.useCallback(async () => {
+        const [unstaged, staged] = await Promise.all([
+            gitFileDiff(sessionId, filePath, false),
+            gitFileDiff(sessionId, filePath, true)
+        ]);
+        setDiffContent(unstaged.success && unstaged.output.trim() ? unstaged.output : null);
+        setStagedDiffContent(staged.success && staged.output.trim() ? staged.output : null);
+    }, [sessionId, filePath]);
+
+    const handleHunkAction = React.useCallback(async (diff: FileDiff, hunk: DiffHunk, action: 'stage' | 'unstage') => {
+        setIsApplyingHunk(true);
+        try {
+            const result = await gitApplyHunk(sessionId, diff, hunk, action);
+            if (!result.success) {
+                Modal.alert(t('files.gitFailed'), result.error);
+            }
+            await loadDiffs();
+        } finally {
+            setIsApplyingHunk(false);
+        }
+    }, [sessionId, loadDiffs]);
+
     // Load file content
     React.useEffect(() => {
         let isCancelled = false;
@@ -192,18 +265,7 @@ export default function FileScreen() {
                 // Fetch git diff for the file (if in git repo)
                 if (sessionPath && sessionId) {
                     try {
-                        const diffResponse = await sessionBash(sessionId, {
-                            // If someone is using a custom diff tool like
-                            // difftastic, the parser would break. So instead
-                            // force git to use the built in diff tool.
-                            command: `git diff --no-ext-diff "${filePath}"`,
-                            cwd: sessionPath,
-                            timeout: 5000
-                        });
-                        
-                        if (!isCancelled && diffResponse.success && diffResponse.stdout.trim()) {
-                            setDiffContent(diffResponse.stdout);
-                        }
+                        await loadDiffs();
                     } catch (diffError) {
                         console.log('Could not fetch git diff:', diffError);
                         // Continue with file loading even if diff fails
@@ -262,7 +324,7 @@ export default function FileScreen() {
         return () => {
             isCancelled = true;
         };
-    }, [sessionId, filePath, isBinaryFile]);
+    }, [sessionId, filePath, isBinaryFile, loadDiffs]);
 
     // Show error modal if there's an error
     React.useEffect(() => {
@@ -271,14 +333,33 @@ export default function FileScreen() {
         }
     }, [error]);
 
-    // Set default display mode based on diff availability
+    // Set default display mode based on diff availability, the editor stays open once chosen
     React.useEffect(() => {
-        if (diffContent) {
-            setDisplayMode('diff');
-        } else if (fileContent) {
-            setDisplayMode('file');
+        setDisplayMode((mode) => {
+            if (mode === 'edit') {
+                return mode;
+            }
+            return (diffContent || stagedDiffContent) && !targetLine ? 'diff' : 'file';
+        });
+    }, [diffContent, stagedDiffContent, fileContent, targetLine]);
+
+    // Lines are rendered with a fixed line height of 20, keep a few lines above the target visible
+    const handleContentSizeChange = React.useCallback(() => {
+        if (!targetLine || hasScrolledToLine.current || displayMode !== 'file' || !fileContent?.content) {
+            return;
         }
-    }, [diffContent, fileContent]);
+        hasScrolledToLine.current = true;
+        scrollViewRef.current?.scrollTo({ y: Math.max(0, targetLine - 4) * 20, animated: false });
+    }, [targetLine, displayMode, fileContent]);
+
+    const handleSaved = React.useCallback((text: string) => {
+        setFileContent({ content: text, encoding: 'utf8', isBinary: false });
+        loadDiffs();
+    }, [loadDiffs]);
+
+    const unstagedDiff = React.useMemo(() => diffContent ? parseFileDiff(diffContent) : null, [diffContent]);
+    const stagedDiff = React.useMemo(() => stagedDiffContent ? parseFileDiff(stagedDiffContent) : null, [stagedDiffContent]);
+    const hasDiff = !!(diffContent || stagedDiffContent);
 
     const fileName = filePath.split('/').pop() || filePath;
     const language = getFileLanguage(filePath);
@@ -397,8 +478,8 @@ export default function FileScreen() {
                 </Text>
             </View>
 
-            {/* Toggle buttons for File/Diff view */}
-            {diffContent && (
+            {/* Toggle buttons for File/Diff/Edit view */}
+            {fileContent && (
                 <View style={{
                     flexDirection: 'row',
                     paddingHorizontal: 16,
@@ -407,7 +488,7 @@ export default function FileScreen() {
                     borderBottomColor: theme.colors.divider,
                     backgroundColor: theme.colors.surface
                 }}>
-                    <Pressable
+                    {hasDiff && <Pressable
                         onPress={() => setDisplayMode('diff')}
                         style={{
                             paddingHorizontal: 16,
@@ -425,7 +506,7 @@ export default function FileScreen() {
                         }}>
                             {t('files.diff')}
                         </Text>
-                    </Pressable>
+                    </Pressable>}
                     
                     <Pressable
                         onPress={() => setDisplayMode('file')}
@@ -433,7 +514,8 @@ export default function FileScreen() {
                             paddingHorizontal: 16,
                             paddingVertical: 8,
                             borderRadius: 8,
-                            backgroundColor: displayMode === 'file' ? theme.colors.textLink : theme.colors.input.background
+                            backgroundColor: displayMode === 'file' ? theme.colors.textLink : theme.colors.input.background,
+                            marginRight: 8
                         }}
                     >
                         <Text style={{
@@ -445,47 +527,101 @@ export default function FileScreen() {
                             {t('files.file')}
                         </Text>
                     </Pressable>
+
+                    {canWrite && <Pressable
+                        onPress={() => setDisplayMode('edit')}
+                        style={{
+                            paddingHorizontal: 16,
+                            paddingVertical: 8,
+                            borderRadius: 8,
+                            backgroundColor: displayMode === 'edit' ? theme.colors.textLink : theme.colors.input.background
+                        }}
+                    >
+                        <Text style={{
+                            fontSize: 14,
+                            fontWeight: '600',
+                            color: displayMode === 'edit' ? 'white' : theme.colors.textSecondary,
+                            ...Typography.default()
+                        }}>
+                            {t('files.edit')}
+                        </Text>
+                    </Pressable>}
                 </View>
             )}
             
             {/* Content display */}
-            <ScrollView 
-                style={{ flex: 1 }}
-                contentContainerStyle={{ padding: 16 }}
-                showsVerticalScrollIndicator={true}
-            >
-                {displayMode === 'diff' && diffContent ? (
-                    <DiffDisplay diffContent={diffContent} />
-                ) : displayMode === 'file' && fileContent?.content ? (
-                    <SimpleSyntaxHighlighter 
-                        code={fileContent.content}
-                        language={language}
-                        selectable={true}
-                    />
-                ) : displayMode === 'file' && fileContent && !fileContent.content ? (
-                    <Text style={{
-                        fontSize: 16,
-                        color: theme.colors.textSecondary,
-                        fontStyle: 'italic',
-                        ...Typography.default()
-                    }}>
-                        {t('files.fileEmpty')}
-                    </Text>
-                ) : !diffContent && !fileContent?.content ? (
-                    <Text style={{
-                        fontSize: 16,
-                        color: theme.colors.textSecondary,
-                        fontStyle: 'italic',
-                        ...Typography.default()
-                    }}>
-                        {t('files.noChanges')}
-                    </Text>
-                ) : null}
-            </ScrollView>
+            {displayMode === 'edit' && canWrite ? (
+                <FileEditor sessionId={sessionId!} filePath={filePath} language={language} onSaved={handleSaved} />
+            ) : (
+                <ScrollView 
+                    ref={scrollViewRef}
+                    style={{ flex: 1 }}
+                    contentContainerStyle={{ padding: 16 }}
+                    showsVerticalScrollIndicator={true}
+                    onContentSizeChange={handleContentSizeChange}
+                >
+                    {displayMode === 'diff' && hasDiff ? (
+                        <>
+                            {diffContent && (
+                                <>
+                                    {stagedDiffContent && <Text style={sectionTitleStyle(theme.colors.warning)}>{t('files.unstagedDiff')}</Text>}
+                                    {unstagedDiff && canWrite ? (
+                                        <HunkDiffDisplay diff={unstagedDiff} action="stage" disabled={isApplyingHunk} onHunkAction={handleHunkAction} />
+                                    ) : (
+                                        <DiffDisplay diffContent={diffContent} />
+                                    )}
+                                </>
+                            )}
+                            {stagedDiffContent && (
+                                <>
+                                    <Text style={sectionTitleStyle(theme.colors.success)}>{t('files.stagedDiff')}</Text>
+                                    {stagedDiff && canWrite ? (
+                                        <HunkDiffDisplay diff={stagedDiff} action="unstage" disabled={isApplyingHunk} onHunkAction={handleHunkAction} />
+                                    ) : (
+                                        <DiffDisplay diffContent={stagedDiffContent} />
+                                    )}
+                                </>
+                            )}
+                        </>
+                    ) : displayMode === 'file' && fileContent?.content ? (
+                        <SimpleSyntaxHighlighter 
+                            code={fileContent.content}
+                            language={language}
+                            selectable={true}
+                        />
+                    ) : displayMode === 'file' && fileContent && !fileContent.content ? (
+                        <Text style={{
+                            fontSize: 16,
+                            color: theme.colors.textSecondary,
+                            fontStyle: 'italic',
+                            ...Typography.default()
+                        }}>
+                            {t('files.fileEmpty')}
+                        </Text>
+                    ) : !hasDiff && !fileContent?.content ? (
+                        <Text style={{
+                            fontSize: 16,
+                            color: theme.colors.textSecondary,
+                            fontStyle: 'italic',
+                            ...Typography.default()
+                        }}>
+                            {t('files.noChanges')}
+                        </Text>
+                    ) : null}
+                </ScrollView>
+            )}
         </View>
     );
 }
 
+const sectionTitleStyle = (color: string) => ({
+    fontSize: 14,
+    fontWeight: '600' as const,
+    color,
+    marginBottom: 8,
+    ...Typography.default()
+});
+
 const styles = StyleSheet.create((theme) => ({
     container: {
         flex: 1,
@@ -1,8 +1,8 @@
 import * as React from 'react';
-import { View, ActivityIndicator, Platform, TextInput } from 'react-native';
+import { View, ActivityIndicator, Platform, TextInput, Pressable } from 'react-native';
 import { t } from '@/text';
 import { useRoute } from '@react-navigation/native';
-import { useRouter } from 'expo-router';
+import { Stack, useRouter } from 'expo-router';
 import { useFocusEffect } from '@react-navigation/native';
 import { Octicons } from '@expo/vector-icons';
 import { Text } from '@/components/StyledText';
@@ -10,8 +10,11 @@ import { Item } from '@/components/Item';
 import { ItemList } from '@/components/ItemList';
 import { Typography } from '@/constants/Typography';
 import { getGitStatusFiles, GitFileStatus, GitStatusFiles } from '@/sync/gitStatusFiles';
+import { gitCommit, gitDraftCommitMessage, gitPull, gitPush, gitStageFiles, gitUnstageFiles, GitOperationResult } from '@/sync/gitOperations';
+import { Modal } from '@/modal';
 import { searchFiles, FileItem } from '@/sync/suggestionFile';
-import { useSessionGitStatus, useSessionProjectGitStatus } from '@/sync/storage';
+import { useSession, useSessionGitStatus, useSessionProjectGitStatus } from '@/sync/storage';
+import { isSessionOwner } from '@/sync/sessionShareTypes';
 import { useUnistyles, StyleSheet } from 'react-native-unistyles';
 import { layout } from '@/components/layout';
 import { FileIcon } from '@/components/FileIcon';
@@ -30,12 +33,19 @@ export default function FilesScreen() {
     const projectGitStatus = useSessionProjectGitStatus(sessionId);
     const sessionGitStatus = useSessionGitStatus(sessionId);
     const gitStatus = projectGitStatus || sessionGitStatus;
+    // Git commands run on the owner's machine, shares only get to look at the changes
+    const session = useSession(sessionId);
+    const canWrite = !!session && isSessionOwner(session);
     const { theme } = useUnistyles();
+    const [commitMessage, setCommitMessage] = React.useState('');
+    const [runningOperation, setRunningOperation] = React.useState<string | null>(null);
     
     // Load git status files
-    const loadGitStatusFiles = React.useCallback(async () => {
+    const loadGitStatusFiles = React.useCallback(async (showLoading: boolean = true) => {
         try {
-            setIsLoading(true);
+            if (showLoading) {
+                setIsLoading(true);
+            }
             const result = await getGitStatusFiles(sessionId);
             setGitStatusFiles(result);
         } catch (error) {
@@ -87,6 +97,63 @@ export default function FilesScreen() {
         }
     }, [searchQuery, gitStatusFiles, sessionId, isLoading]);
 
+    // Run a git operation, one at a time, and reload the file list afterwards
+    const runOperation = React.useCallback(async (key: string, operation: () => Promise<GitOperationResult>): Promise<boolean> => {
+        if (runningOperation) {
+            return false;
+        }
+        setRunningOperation(key);
+        try {
+            const result = await operation();
+            if (!result.success) {
+                Modal.alert(t('files.gitFailed'), result.error);
+            }
+            return result.success;
+        } finally {
+            setRunningOperation(null);
+            loadGitStatusFiles(false);
+        }
+    }, [runningOperation, loadGitStatusFiles]);
+
+    const handleToggleStaged = React.useCallback((files: GitFileStatus[], staged: boolean) => {
+        // Renames need both sides to be staged or unstaged together
+        const paths = files.flatMap((file) => file.oldPath ? [file.fullPath, file.oldPath] : [file.fullPath]);
+        runOperation(
+            staged ? 'unstage' : 'stage',
+            () => staged ? gitUnstageFiles(sessionId, paths) : gitStageFiles(sessionId, paths)
+        );
+    }, [runOperation, sessionId]);
+
+    const handleCommit = React.useCallback(async () => {
+        const message = commitMessage.trim();
+        if (!message) {
+            Modal.alert(t('common.error'), t('files.commitMessageRequired'));
+            return;
+        }
+        if (await runOperation('commit', () => gitCommit(sessionId, message))) {
+            setCommitMessage('');
+        }
+    }, [commitMessage, runOperation, sessionId]);
+
+    const handleDraftCommitMessage = React.useCallback(async () => {
+        if (runningOperation) {
+            return;
+        }
+        setRunningOperation('draft');
+        try {
+            const draft = await gitDraftCommitMessage(sessionId);
+            if (draft) {
+                setCommitMessage(draft);
+            } else {
+                Modal.alert(t('common.error'), t('files.draftCommitMessageTimeout'));
+            }
+        } catch (error) {
+            Modal.alert(t('files.gitFailed'), error instanceof Error ? error.message : String(error));
+        } finally {
+            setRunningOperation(null);
+        }
+    }, [runningOperation, sessionId]);
+
     const handleFilePress = React.useCallback((file: GitFileStatus | FileItem) => {
         // Navigate to file viewer with the file path (base64 encoded for special characters)
         const encodedPath = btoa(file.fullPath);
@@ -129,6 +196,72 @@ export default function FilesScreen() {
         return <Octicons name={statusIcon as any} size={16} color={statusColor} />;
     };
 
+    const renderFileActions = (file: GitFileStatus) => {
+        return (
+            <View style={{ flexDirection: 'row', alignItems: 'center', gap: 12 }}>
+                {renderStatusIcon(file)}
+                {canWrite && <Pressable
+                    onPress={() => handleToggleStaged([file], file.isStaged)}
+                    disabled={!!runningOperation}
+                    hitSlop={8}
+                    style={{ opacity: runningOperation ? 0.4 : 1 }}
+                >
+                    <Octicons name={file.isStaged ? 'dash' : 'plus'} size={18} color={theme.colors.textLink} />
+                </Pressable>}
+            </View>
+        );
+    };
+
+    const renderSectionAction = (title: string, onPress: () => void) => canWrite && (
+        <Pressable onPress={onPress} disabled={!!runningOperation} hitSlop={8}>
+            <Text style={{
+                fontSize: 14,
+                color: runningOperation ? theme.colors.textSecondary : theme.colors.textLink,
+                ...Typography.default()
+            }}>
+                {title}
+            </Text>
+        </Pressable>
+    );
+
+    const renderActionButton = (key: string, icon: string, title: string, onPress: () => void, primary: boolean) => {
+        const isRunning = runningOperation === key;
+        return (
+            <Pressable
+                onPress={onPress}
+                disabled={!!runningOperation}
+                style={{
+                    flexDirection: 'row',
+                    alignItems: 'center',
+                    gap: 6,
+                    paddingHorizontal: 12,
+                    paddingVertical: 8,
+                    borderRadius: 8,
+                    backgroundColor: primary ? theme.colors.textLink : theme.colors.input.background,
+                    opacity: runningOperation && !isRunning ? 0.5 : 1
+                }}
+            >
+                {isRunning ? (
+                    <ActivityIndicator size="small" color={primary ? 'white' : theme.colors.textSecondary} />
+                ) : (
+                    <Octicons name={icon as any} size={14} color={primary ? 'white' : theme.colors.textSecondary} />
+                )}
+                <Text style={{
+                    fontSize: 14,
+                    fontWeight: '600',
+                    color: primary ? 'white' : theme.colors.textSecondary,
+                    ...Typography.default()
+                }}>
+                    {title}
+                </Text>
+            </Pressable>
+        );
+    };
+
+    const renderRemoteButton = (key: string, icon: string, title: string, operation: () => Promise<GitOperationResult>) => {
+        return renderActionButton(key, icon, title, () => runOperation(key, operation), false);
+    };
+
     const renderLineChanges = (file: GitFileStatus) => {
         const parts = [];
         if (file.linesAdded > 0) {
@@ -156,7 +289,21 @@ export default function FilesScreen() {
 
     return (
         <View style={[styles.container, { backgroundColor: theme.colors.surface }]}>
-            
+            <Stack.Screen
+                options={{
+                    headerRight: () => (
+                        <View style={{ flexDirection: 'row', alignItems: 'center', gap: 16 }}>
+                            <Pressable onPress={() => router.push(`/session/${sessionId}/history`)} hitSlop={10}>
+                                <Octicons name="history" size={20} color={theme.colors.header.tint} />
+                            </Pressable>
+                            <Pressable onPress={() => router.push(`/session/${sessionId}/search`)} hitSlop={10}>
+                                <Octicons name="code-square" size={20} color={theme.colors.header.tint} />
+                            </Pressable>
+                        </View>
+                    ),
+                }}
+            />
+
             {/* Search Input - Always Visible */}
             <View style={{
                 padding: 16,
@@ -195,11 +342,14 @@ export default function FilesScreen() {
                     borderBottomWidth: Platform.select({ ios: 0.33, default: 1 }),
                     borderBottomColor: theme.colors.divider
                 }}>
-                    <View style={{
-                        flexDirection: 'row',
-                        alignItems: 'center',
-                        marginBottom: 8
-                    }}>
+                    <Pressable
+                        onPress={() => router.push(`/session/${sessionId}/history?tab=branches`)}
+                        style={{
+                            flexDirection: 'row',
+                            alignItems: 'center',
+                            marginBottom: 8
+                        }}
+                    >
                         <Octicons name="git-branch" size={16} color={theme.colors.textSecondary} style={{ marginRight: 6 }} />
                         <Text style={{
                             fontSize: 16,
@@ -209,7 +359,8 @@ export default function FilesScreen() {
                         }}>
                             {gitStatusFiles.branch || t('files.detachedHead')}
                         </Text>
-                    </View>
+                        <Octicons name="chevron-down" size={14} color={theme.colors.textSecondary} style={{ marginLeft: 6 }} />
+                    </Pressable>
                     <Text style={{
                         fontSize: 12,
                         color: theme.colors.textSecondary,
@@ -217,6 +368,57 @@ export default function FilesScreen() {
                     }}>
                         {t('files.summary', { staged: gitStatusFiles.totalStaged, unstaged: gitStatusFiles.totalUnstaged })}
                     </Text>
+                    {gitStatusFiles.branch && canWrite && (
+                        <View style={{ flexDirection: 'row', marginTop: 12, gap: 8 }}>
+                            {renderRemoteButton(
+                                'pull',
+                                'arrow-down',
+                                gitStatus?.behindCount ? t('files.pullCount', { count: gitStatus.behindCount }) : t('files.pull'),
+                                () => gitPull(sessionId)
+                            )}
+                            {renderRemoteButton(
+                                'push',
+                                'arrow-up',
+                                gitStatus?.aheadCount ? t('files.pushCount', { count: gitStatus.aheadCount }) : t('files.push'),
+                                () => gitPush(sessionId, !!gitStatus?.upstreamBranch)
+                            )}
+                        </View>
+                    )}
+                </View>
+            )}
+
+            {/* Commit staged changes */}
+            {!isLoading && !searchQuery && canWrite && gitStatusFiles && gitStatusFiles.totalStaged > 0 && (
+                <View style={{
+                    padding: 16,
+                    gap: 8,
+                    borderBottomWidth: Platform.select({ ios: 0.33, default: 1 }),
+                    borderBottomColor: theme.colors.divider
+                }}>
+                    <TextInput
+                        value={commitMessage}
+                        onChangeText={setCommitMessage}
+                        placeholder={t('files.commitMessagePlaceholder')}
+                        multiline
+                        editable={runningOperation !== 'draft'}
+                        style={{
+                            minHeight: 60,
+                            maxHeight: 160,
+                            fontSize: 15,
+                            color: theme.colors.text,
+                            backgroundColor: theme.colors.input.background,
+                            borderRadius: 10,
+                            paddingHorizontal: 12,
+                            paddingVertical: 8,
+                            textAlignVertical: 'top',
+                            ...Typography.default()
+                        }}
+                        placeholderTextColor={theme.colors.input.placeholder}
+                    />
+                    <View style={{ flexDirection: 'row', gap: 8 }}>
+                        {renderActionButton('draft', 'sparkle-fill', t('files.draftCommitMessage'), handleDraftCommitMessage, false)}
+                        {renderActionButton('commit', 'git-commit', t('files.commit', { count: gitStatusFiles.totalStaged }), handleCommit, true)}
+                    </View>
                 </View>
             )}
 
@@ -352,7 +554,10 @@ export default function FilesScreen() {
                                     paddingHorizontal: 16,
                                     paddingVertical: 12,
                                     borderBottomWidth: Platform.select({ ios: 0.33, default: 1 }),
-                                    borderBottomColor: theme.colors.divider
+                                    borderBottomColor: theme.colors.divider,
+                                    flexDirection: 'row',
+                                    justifyContent: 'space-between',
+                                    alignItems: 'center'
                                 }}>
                                     <Text style={{
                                         fontSize: 14,
@@ -362,6 +567,7 @@ export default function FilesScreen() {
                                     }}>
                                         {t('files.stagedChanges', { count: gitStatusFiles.stagedFiles.length })}
                                     </Text>
+                                    {renderSectionAction(t('files.unstageAll'), () => handleToggleStaged(gitStatusFiles.stagedFiles, true))}
                                 </View>
                                 {gitStatusFiles.stagedFiles.map((file, index) => (
                                     <Item
@@ -369,7 +575,7 @@ export default function FilesScreen() {
                                         title={file.fileName}
                                         subtitle={renderFileSubtitle(file)}
                                         icon={renderFileIcon(file)}
-                                        rightElement={renderStatusIcon(file)}
+                                        rightElement={renderFileActions(file)}
                                         onPress={() => handleFilePress(file)}
                                         showDivider={index < gitStatusFiles.stagedFiles.length - 1 || gitStatusFiles.unstagedFiles.length > 0}
                                     />
@@ -385,7 +591,10 @@ export default function FilesScreen() {
                                     paddingHorizontal: 16,
                                     paddingVertical: 12,
                                     borderBottomWidth: Platform.select({ ios: 0.33, default: 1 }),
-                                    borderBottomColor: theme.colors.divider
+                                    borderBottomColor: theme.colors.divider,
+                                    flexDirection: 'row',
+                                    justifyContent: 'space-between',
+                                    alignItems: 'center'
                                 }}>
                                     <Text style={{
                                         fontSize: 14,
@@ -395,6 +604,7 @@ export default function FilesScreen() {
                                     }}>
                                         {t('files.unstagedChanges', { count: gitStatusFiles.unstagedFiles.length })}
                                     </Text>
+                                    {renderSectionAction(t('files.stageAll'), () => handleToggleStaged(gitStatusFiles.unstagedFiles, false))}
                                 </View>
                                 {gitStatusFiles.unstagedFiles.map((file, index) => (
                                     <Item
@@ -402,7 +612,7 @@ export default function FilesScreen() {
                                         title={file.fileName}
                                         subtitle={renderFileSubtitle(file)}
                                         icon={renderFileIcon(file)}
-                                        rightElement={renderStatusIcon(file)}
+                                        rightElement={renderFileActions(file)}
                                         onPress={() => handleFilePress(file)}
                                         showDivider={index < gitStatusFiles.unstagedFiles.length - 1}
                                     />
@@ -0,0 +1,460 @@
+import * as React from 'react';
+import { View, Pressable, FlatList, ActivityIndicator, Platform } from 'react-native';
+import { useRoute } from '@react-navigation/native';
+import { Stack, useRouter, useLocalSearchParams } from 'expo-router';
+import { Octicons } from '@expo/vector-icons';
+import { useUnistyles, StyleSheet } from 'react-native-unistyles';
+import { Text } from '@/components/StyledText';
+import { Typography } from '@/constants/Typography';
+import { gitBranches, gitCheckout, gitCreateBranch, gitLog } from '@/sync/gitOperations';
+import { continueGraph, GitCommit, GitLogRow } from '@/sync/git-parsers/parseLog';
+import { GitBranchRef } from '@/sync/git-parsers/parseBranch';
+import { useSession, useSessionProjectGitStatus } from '@/sync/storage';
+import { isSessionOwner } from '@/sync/sessionShareTypes';
+import { formatLastSeen } from '@/utils/sessionUtils';
+import { Modal } from '@/modal';
+import { layout } from '@/components/layout';
+import { t } from '@/text';
+
+const LOG_PAGE_SIZE = 100;
+const GRAPH_LINE_HEIGHT = 20;
+const LANE_COLORS = ['#007AFF', '#34C759', '#FF9500', '#AF52DE', '#FF2D55', '#5AC8FA', '#FFCC00', '#8E8E93'];
+
+export default function GitHistoryScreen() {
+    const route = useRoute();
+    const router = useRouter();
+    const sessionId = (route.params! as any).id as string;
+    const params = useLocalSearchParams<{ tab?: string }>();
+    const { theme } = useUnistyles();
+    const gitStatus = useSessionProjectGitStatus(sessionId);
+    // Only the owner switches and creates branches, the checkout is on their machine
+    const session = useSession(sessionId);
+    const canWrite = !!session && isSessionOwner(session);
+
+    const [tab, setTab] = React.useState<'commits' | 'branches'>(params.tab === 'branches' ? 'branches' : 'commits');
+    // Ref whose history is shown, null for HEAD
+    const [ref, setRef] = React.useState<string | null>(null);
+    const [allBranches, setAllBranches] = React.useState(false);
+    const [rows, setRows] = React.useState<GitLogRow[]>([]);
+    const [commitCount, setCommitCount] = React.useState(0);
+    const [hasMore, setHasMore] = React.useState(true);
+    const [isLoadingLog, setIsLoadingLog] = React.useState(false);
+    const [branches, setBranches] = React.useState<GitBranchRef[] | null>(null);
+    const [runningOperation, setRunningOperation] = React.useState(false);
+    const [error, setError] = React.useState<string | null>(null);
+    const generation = React.useRef(0);
+
+    const loadLog = React.useCallback(async (skip: number) => {
+        const current = skip === 0 ? ++generation.current : generation.current;
+        setIsLoadingLog(true);
+        if (skip === 0) {
+            setError(null);
+        }
+        try {
+            const page = await gitLog(sessionId, { ref: ref ?? undefined, all: allBranches, skip, limit: LOG_PAGE_SIZE });
+            if (generation.current !== current) {
+                return;
+            }
+            const pageCommits = page.filter((row) => row.type === 'commit').length;
+            setRows((existing) => skip === 0 ? page : [...existing, ...page]);
+            setCommitCount(skip + pageCommits);
+            setHasMore(pageCommits === LOG_PAGE_SIZE);
+        } catch (e) {
+            if (generation.current === current) {
+                setError(e instanceof Error ? e.message : String(e));
+                setHasMore(false);
+            }
+        } finally {
+            if (generation.current === current) {
+                setIsLoadingLog(false);
+            }
+        }
+    }, [sessionId, ref, allBranches]);
+
+    const loadBranches = React.useCallback(async () => {
+        try {
+            setBranches(await gitBranches(sessionId));
+        } catch (e) {
+            setError(e instanceof Error ? e.message : String(e));
+            setBranches([]);
+        }
+    }, [sessionId]);
+
+    React.useEffect(() => {
+        loadLog(0);
+    }, [loadLog]);
+
+    React.useEffect(() => {
+        loadBranches();
+    }, [loadBranches]);
+
+    const handleLoadMore = React.useCallback(() => {
+        if (hasMore && !isLoadingLog && !error) {
+            loadLog(commitCount);
+        }
+    }, [hasMore, isLoadingLog, error, loadLog, commitCount]);
+
+    const runBranchOperation = React.useCallback(async (operation: () => ReturnType<typeof gitCheckout>) => {
+        if (runningOperation) {
+            return;
+        }
+        setRunningOperation(true);
+        try {
+            const result = await operation();
+            if (!result.success) {
+                Modal.alert(t('files.gitFailed'), result.error);
+                return;
+            }
+            setRef(null);
+            setAllBranches(false);
+            await loadBranches();
+            loadLog(0);
+        } finally {
+            setRunningOperation(false);
+        }
+    }, [runningOperation, loadBranches, loadLog]);
+
+    const handleCreateBranch = React.useCallback(async () => {
+        const name = await Modal.prompt(t('gitHistory.newBranch'), t('gitHistory.newBranchDescription'), {
+            placeholder: t('gitHistory.branchNamePlaceholder'),
+            cancelText: t('common.cancel'),
+            confirmText: t('gitHistory.createBranch')
+        });
+        if (name?.trim()) {
+            runBranchOperation(() => gitCreateBranch(sessionId, name.trim(), true));
+        }
+    }, [runBranchOperation, sessionId]);
+
+    const handleBranchPress = React.useCallback((branch: GitBranchRef) => {
+        const viewHistory = () => {
+            setRef(branch.name);
+            setAllBranches(false);
+            setTab('commits');
+        };
+        if (branch.current || !canWrite) {
+            viewHistory();
+            return;
+        }
+        Modal.alert(branch.name, undefined, [
+            { text: t('gitHistory.checkout'), onPress: () => runBranchOperation(() => gitCheckout(sessionId, branch.name)) },
+            { text: t('gitHistory.viewHistory'), onPress: viewHistory },
+            { text: t('common.cancel'), style: 'cancel' }
+        ]);
+    }, [runBranchOperation, sessionId, canWrite]);
+
+    const openCommit = React.useCallback((commit: GitCommit) => {
+        router.push(`/session/${sessionId}/commit?hash=${commit.hash}`);
+    }, [router, sessionId]);
+
+    const currentBranch = branches?.find((branch) => branch.current);
+    // Graphs are padded to the widest one so the commit text lines up
+    const graphColumns = React.useMemo(() => rows.reduce((max, row) => Math.max(max, row.graph.length), 0), [rows]);
+
+    return (
+        <View style={[styles.container, { backgroundColor: theme.colors.surface }]}>
+            <Stack.Screen
+                options={{
+                    headerRight: () => canWrite && (
+                        <Pressable onPress={handleCreateBranch} disabled={runningOperation} hitSlop={10}>
+                            <Octicons name="plus" size={20} color={theme.colors.header.tint} />
+                        </Pressable>
+                    ),
+                }}
+            />
+
+            <View style={styles.toolbar}>
+                <View style={styles.segments}>
+                    <SegmentButton title={t('gitHistory.commits')} active={tab === 'commits'} onPress={() => setTab('commits')} />
+                    <SegmentButton title={t('gitHistory.branches')} active={tab === 'branches'} onPress={() => setTab('branches')} />
+                </View>
+                {tab === 'commits' && (
+                    <View style={styles.filterRow}>
+                        <Octicons name="git-branch" size={14} color={theme.colors.textSecondary} />
+                        <Text style={styles.filterText} numberOfLines={1}>
+                            {allBranches
+                                ? t('gitHistory.allBranches')
+                                : ref ?? currentBranch?.name ?? t('files.detachedHead')}
+                        </Text>
+                        <Pressable onPress={() => setAllBranches((value) => !value)} hitSlop={8}>
+                            <Text style={styles.filterAction}>
+                                {allBranches ? t('gitHistory.showCurrent') : t('gitHistory.showAll')}
+                            </Text>
+                        </Pressable>
+                    </View>
+                )}
+                {runningOperation && <ActivityIndicator size="small" color={theme.colors.textSecondary} />}
+            </View>
+
+            {error && <Text style={styles.errorText} numberOfLines={4}>{error}</Text>}
+
+            {tab === 'commits' ? (
+                <FlatList
+                    data={rows}
+                    keyExtractor={(row, index) => row.type === 'commit' ? row.commit.hash : `graph-${index}`}
+                    contentContainerStyle={styles.listContent}
+                    onEndReached={handleLoadMore}
+                    onEndReachedThreshold={0.5}
+                    renderItem={({ item }) => item.type === 'commit'
+                        ? <CommitRow row={item} graphColumns={graphColumns} onPress={openCommit} />
+                        : <GraphText graph={item.graph} />}
+                    ListFooterComponent={isLoadingLog ? (
+                        <ActivityIndicator style={{ marginVertical: 24 }} color={theme.colors.textSecondary} />
+                    ) : null}
+                    ListEmptyComponent={!isLoadingLog && !error ? (
+                        <Text style={styles.emptyText}>{t('gitHistory.noCommits')}</Text>
+                    ) : null}
+                />
+            ) : (
+                <FlatList
+                    data={branches ?? []}
+                    keyExtractor={(branch) => branch.name}
+                    contentContainerStyle={styles.listContent}
+                    renderItem={({ item }) => (
+                        <BranchRow
+                            branch={item}
+                            // The status of the project is fresher than the refs for the checked out branch
+                            ahead={item.current && gitStatus ? gitStatus.aheadCount ?? 0 : item.ahead}
+                            behind={item.current && gitStatus ? gitStatus.behindCount ?? 0 : item.behind}
+                            disabled={runningOperation}
+                            onPress={handleBranchPress}
+                        />
+                    )}
+                    ListEmptyComponent={branches === null ? (
+                        <ActivityIndicator style={{ marginVertical: 24 }} color={theme.colors.textSecondary} />
+                    ) : null}
+                />
+            )}
+        </View>
+    );
+}
+
+function SegmentButton(props: { title: string, active: boolean, onPress: () => void }) {
+    const { theme } = useUnistyles();
+    return (
+        <Pressable
+            onPress={props.onPress}
+            style={[styles.segment, props.active && { backgroundColor: theme.colors.surface }]}
+        >
+            <Text style={[styles.segmentText, { color: props.active ? theme.colors.text : theme.colors.textSecondary }]}>
+                {props.title}
+            </Text>
+        </Pressable>
+    );
+}
+
+// Graph drawing with every lane in its own color
+const GraphText = React.memo((props: { graph: string }) => {
+    const { theme } = useUnistyles();
+    return (
+        <Text style={styles.graph}>
+            {Array.from(props.graph).map((char, index) => (
+                <Text
+                    key={index}
+                    style={{
+                        color: char === '*' ? theme.colors.text : LANE_COLORS[Math.floor(index / 2) % LANE_COLORS.length],
+                        fontWeight: char === '*' ? '700' : undefined
+                    }}
+                >
+                    {char === '*' ? '●' : char}
+                </Text>
+            ))}
+        </Text>
+    );
+});
+
+const CommitRow = React.memo((props: {
+    row: Extract<GitLogRow, { type: 'commit' }>;
+    graphColumns: number;
+    onPress: (commit: GitCommit) => void;
+}) => {
+    const { row } = props;
+    const { commit } = row;
+    const { theme } = useUnistyles();
+    return (
+        <Pressable onPress={() => props.onPress(commit)} style={styles.commitRow}>
+            <View>
+                <GraphText graph={row.graph.padEnd(props.graphColumns)} />
+                <GraphText graph={continueGraph(row.graph, commit.parents.length > 0).padEnd(props.graphColumns)} />
+            </View>
+            <View style={styles.commitText}>
+                <Text style={styles.commitSubject} numberOfLines={1}>
+                    {commit.refs.map((decoration) => (
+                        <Text
+                            key={decoration}
+                            style={[styles.refBadge, {
+                                backgroundColor: decoration.startsWith('HEAD') ? theme.colors.textLink : theme.colors.input.background,
+                                color: decoration.startsWith('HEAD') ? 'white' : theme.colors.textSecondary
+                            }]}
+                        >
+                            {` ${decoration} `}
+                        </Text>
+                    ))}
+                    {commit.refs.length > 0 ? ' ' : ''}
+                    {commit.subject}
+                </Text>
+                <Text style={styles.commitMeta} numberOfLines={1}>
+                    {`${commit.shortHash} • ${commit.authorName} • ${formatLastSeen(commit.timestamp)}`}
+                </Text>
+            </View>
+        </Pressable>
+    );
+});
+
+function BranchRow(props: { branch: GitBranchRef, ahead: number, behind: number, disabled: boolean, onPress: (branch: GitBranchRef) => void }) {
+    const { branch } = props;
+    const { theme } = useUnistyles();
+
+    let tracking: string;
+    if (!branch.upstream) {
+        tracking = t('gitHistory.noUpstream');
+    } else if (branch.upstreamGone) {
+        tracking = t('gitHistory.upstreamGone', { upstream: branch.upstream });
+    } else {
+        tracking = branch.upstream;
+    }
+
+    return (
+        <Pressable onPress={() => props.onPress(branch)} disabled={props.disabled} style={styles.branchRow}>
+            <Octicons
+                name={branch.current ? 'check' : 'git-branch'}
+                size={16}
+                color={branch.current ? theme.colors.success : theme.colors.textSecondary}
+                style={{ width: 20 }}
+            />
+            <View style={styles.commitText}>
+                <Text style={[styles.branchName, branch.current && { color: theme.colors.textLink }]} numberOfLines={1}>
+                    {branch.name}
+                </Text>
+                <Text style={styles.commitMeta} numberOfLines={1}>
+                    {`${tracking} • ${branch.shortHash} ${branch.subject}`}
+                </Text>
+            </View>
+            {branch.upstream && !branch.upstreamGone && (props.ahead > 0 || props.behind > 0) && (
+                <View style={styles.trackingCounts}>
+                    {props.ahead > 0 && <Text style={styles.trackingText}>{`↑${props.ahead}`}</Text>}
+                    {props.behind > 0 && <Text style={styles.trackingText}>{`↓${props.behind}`}</Text>}
+                </View>
+            )}
+        </Pressable>
+    );
+}
+
+const styles = StyleSheet.create((theme) => ({
+    container: {
+        flex: 1,
+    },
+    toolbar: {
+        padding: 16,
+        gap: 12,
+        borderBottomWidth: Platform.select({ ios: 0.33, default: 1 }),
+        borderBottomColor: theme.colors.divider,
+    },
+    segments: {
+        flexDirection: 'row',
+        padding: 2,
+        borderRadius: 8,
+        backgroundColor: theme.colors.input.background,
+    },
+    segment: {
+        flex: 1,
+        alignItems: 'center',
+        paddingVertical: 6,
+        borderRadius: 6,
+    },
+    segmentText: {
+        fontSize: 14,
+        fontWeight: '600',
+        ...Typography.default('semiBold'),
+    },
+    filterRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 6,
+    },
+    filterText: {
+        flex: 1,
+        fontSize: 14,
+        color: theme.colors.text,
+        ...Typography.default(),
+    },
+    filterAction: {
+        fontSize: 14,
+        color: theme.colors.textLink,
+        ...Typography.default(),
+    },
+    errorText: {
+        paddingHorizontal: 16,
+        paddingTop: 12,
+        fontSize: 13,
+        color: theme.colors.textDestructive,
+        ...Typography.default(),
+    },
+    listContent: {
+        paddingVertical: 8,
+        maxWidth: layout.maxWidth,
+        width: '100%',
+        alignSelf: 'center',
+    },
+    emptyText: {
+        marginTop: 32,
+        paddingHorizontal: 32,
+        textAlign: 'center',
+        fontSize: 15,
+        color: theme.colors.textSecondary,
+        ...Typography.default(),
+    },
+    graph: {
+        paddingHorizontal: 16,
+        fontSize: 14,
+        lineHeight: GRAPH_LINE_HEIGHT,
+        height: GRAPH_LINE_HEIGHT,
+        ...Typography.mono(),
+    },
+    commitRow: {
+        flexDirection: 'row',
+    },
+    commitText: {
+        flex: 1,
+        paddingRight: 16,
+    },
+    commitSubject: {
+        fontSize: 15,
+        lineHeight: GRAPH_LINE_HEIGHT,
+        color: theme.colors.text,
+        ...Typography.default(),
+    },
+    commitMeta: {
+        fontSize: 12,
+        lineHeight: GRAPH_LINE_HEIGHT,
+        color: theme.colors.textSecondary,
+        ...Typography.default(),
+    },
+    refBadge: {
+        fontSize: 11,
+        fontWeight: '600',
+        ...Typography.mono(),
+    },
+    branchRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 12,
+        paddingLeft: 16,
+        paddingVertical: 10,
+    },
+    branchName: {
+        fontSize: 15,
+        fontWeight: '600',
+        color: theme.colors.text,
+        ...Typography.default('semiBold'),
+    },
+    trackingCounts: {
+        flexDirection: 'row',
+        gap: 6,
+        paddingRight: 16,
+    },
+    trackingText: {
+        fontSize: 13,
+        color: theme.colors.textSecondary,
+        ...Typography.mono(),
+    },
+}));
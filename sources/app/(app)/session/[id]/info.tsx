@@ -7,7 +7,10 @@ import { Item } from '@/components/Item';
 import { ItemGroup } from '@/components/ItemGroup';
 import { ItemList } from '@/components/ItemList';
 import { Avatar } from '@/components/Avatar';
-import { useSession, useIsDataReady } from '@/sync/storage';
+import { useSession, useSessionForks, useIsDataReady, storage } from '@/sync/storage';
+import { sync } from '@/sync/sync';
+import { exportSession, ExportFormat } from '@/sync/sessionExport';
+import { shareTextFile } from '@/utils/shareFile';
 import { getSessionName, useSessionStatus, formatOSPlatform, formatPathRelativeToHome, getSessionAvatarId } from '@/utils/sessionUtils';
 import * as Clipboard from 'expo-clipboard';
 import { Modal } from '@/modal';
@@ -20,6 +23,9 @@ import { CodeView } from '@/components/CodeView';
 import { Session } from '@/sync/storageTypes';
 import { useHappyAction } from '@/hooks/useHappyAction';
 import { HappyError } from '@/utils/errors';
+import { useSessionOwner } from '@/hooks/useSessionOwner';
+import { getDisplayName } from '@/sync/friendTypes';
+import { canControlSession, isSessionOwner } from '@/sync/sessionShareTypes';
 
 // Animated status dot component
 function StatusDot({ color, isPulsing, size = 8 }: { color: string; isPulsing?: boolean; size?: number }) {
@@ -66,6 +72,11 @@ function SessionInfoContent({ session }: { session: Session }) {
     const devModeEnabled = __DEV__;
     const sessionName = getSessionName(session);
     const sessionStatus = useSessionStatus(session);
+    const canControl = canControlSession(session);
+    const isOwner = isSessionOwner(session);
+    const owner = useSessionOwner(session);
+    const parentSession = useSession(session.metadata?.forkedFrom?.sessionId ?? '');
+    const forks = useSessionForks(session.id);
     
     // Check if CLI version is outdated
     const isCliOutdated = session.metadata?.version && !isVersionSupported(session.metadata.version, MINIMUM_CLI_VERSION);
@@ -125,6 +136,25 @@ function SessionInfoContent({ session }: { session: Session }) {
         // Success - no alert needed, UI will update to show deleted state
     });
 
+    // Export loads the full history first, so older pages are included
+    const exportFormatRef = React.useRef<ExportFormat>('markdown');
+    const [exporting, performExport] = useHappyAction(async () => {
+        await sync.loadAllMessages(session.id);
+        const messages = storage.getState().sessionMessages[session.id]?.messages ?? [];
+        const file = exportSession(exportFormatRef.current, { title: sessionName, session, messages });
+        try {
+            await shareTextFile({ ...file, dialogTitle: t('sessionInfo.exportConversation') });
+        } catch (error) {
+            console.error('Failed to export session:', error);
+            throw new HappyError(t('sessionInfo.exportFailed'), false);
+        }
+    });
+
+    const handleExport = useCallback((format: ExportFormat) => {
+        exportFormatRef.current = format;
+        performExport();
+    }, [performExport]);
+
     const handleDeleteSession = useCallback(() => {
         Modal.alert(
             t('sessionInfo.deleteSession'),
@@ -247,6 +277,29 @@ function SessionInfoContent({ session }: { session: Session }) {
                     />
                 </ItemGroup>
 
+                {/* Lineage */}
+                {(parentSession || forks.length > 0) && (
+                    <ItemGroup title={t('sessionFork.lineage')}>
+                        {parentSession && (
+                            <Item
+                                title={t('sessionFork.forkedFrom')}
+                                subtitle={getSessionName(parentSession)}
+                                icon={<Ionicons name="git-branch-outline" size={29} color="#5856D6" />}
+                                onPress={() => router.push(`/session/${parentSession.id}`)}
+                            />
+                        )}
+                        {forks.map((fork) => (
+                            <Item
+                                key={fork.id}
+                                title={getSessionName(fork)}
+                                subtitle={t('sessionFork.forkCreated', { date: formatDate(fork.createdAt) })}
+                                icon={<Ionicons name="git-merge-outline" size={29} color="#5856D6" />}
+                                onPress={() => router.push(`/session/${fork.id}`)}
+                            />
+                        ))}
+                    </ItemGroup>
+                )}
+
                 {/* Quick Actions */}
                 <ItemGroup title={t('sessionInfo.quickActions')}>
                     {session.metadata?.machineId && (
@@ -257,7 +310,69 @@ function SessionInfoContent({ session }: { session: Session }) {
                             onPress={() => router.push(`/machine/${session.metadata?.machineId}`)}
                         />
                     )}
-                    {sessionStatus.isConnected && (
+                    {canControl && (
+                        <Item
+                            title={t('review.title')}
+                            subtitle={t('review.openSubtitle')}
+                            icon={<Ionicons name="checkmark-done-outline" size={29} color="#34C759" />}
+                            onPress={() => router.push(`/session/${session.id}/review`)}
+                        />
+                    )}
+                    {isOwner && session.metadata?.machineId && session.metadata.path && (
+                        <Item
+                            title={t('remoteTerminal.open')}
+                            subtitle={t('remoteTerminal.openSessionSubtitle')}
+                            icon={<Ionicons name="terminal-outline" size={29} color="#8E8E93" />}
+                            onPress={() => router.push({
+                                pathname: '/shell/[id]',
+                                params: { id: session.metadata!.machineId!, path: session.metadata!.path, session: session.id }
+                            })}
+                        />
+                    )}
+                    {isOwner && session.metadata?.machineId && session.metadata.path && (
+                        <Item
+                            title={t('permissionRules.title')}
+                            subtitle={t('permissionRules.sessionSubtitle')}
+                            icon={<Ionicons name="shield-checkmark-outline" size={29} color="#34C759" />}
+                            onPress={() => router.push({
+                                pathname: '/settings/permission-rules',
+                                params: { machineId: session.metadata!.machineId!, path: session.metadata!.path }
+                            })}
+                        />
+                    )}
+                    {session.share ? (
+                        <Item
+                            title={t('sessionSharing.sharedBy', { name: owner ? getDisplayName(owner) : '…' })}
+                            subtitle={session.share.role === 'collaborator' ? t('sessionSharing.roleCollaborator') : t('sessionSharing.roleViewer')}
+                            icon={<Ionicons name="people-outline" size={29} color="#5856D6" />}
+                            onPress={owner ? () => router.push(`/user/${owner.id}`) : undefined}
+                        />
+                    ) : (
+                        <Item
+                            title={t('sessionSharing.title')}
+                            subtitle={t('sessionSharing.openSubtitle')}
+                            icon={<Ionicons name="people-outline" size={29} color="#5856D6" />}
+                            onPress={() => router.push(`/session/${session.id}/sharing`)}
+                        />
+                    )}
+                    {canControl && (
+                        <Item
+                            title={t('scheduledPrompts.schedulePrompt')}
+                            subtitle={t('scheduledPrompts.schedulePromptSubtitle')}
+                            icon={<Ionicons name="alarm-outline" size={29} color="#FF9500" />}
+                            onPress={() => router.push({
+                                pathname: '/schedules/edit',
+                                params: { sessionId: session.id }
+                            })}
+                        />
+                    )}
+                    <Item
+                        title={t('permissionAudit.title')}
+                        subtitle={t('permissionAudit.sessionSubtitle')}
+                        icon={<Ionicons name="list-outline" size={29} color="#5856D6" />}
+                        onPress={() => router.push(`/session/${session.id}/permissions`)}
+                    />
+                    {isOwner && sessionStatus.isConnected && (
                         <Item
                             title={t('sessionInfo.archiveSession')}
                             subtitle={t('sessionInfo.archiveSessionSubtitle')}
@@ -265,7 +380,7 @@ function SessionInfoContent({ session }: { session: Session }) {
                             onPress={handleArchiveSession}
                         />
                     )}
-                    {!sessionStatus.isConnected && !session.active && (
+                    {isOwner && !sessionStatus.isConnected && !session.active && (
                         <Item
                             title={t('sessionInfo.deleteSession')}
                             subtitle={t('sessionInfo.deleteSessionSubtitle')}
@@ -275,6 +390,31 @@ function SessionInfoContent({ session }: { session: Session }) {
                     )}
                 </ItemGroup>
 
+                {/* Export */}
+                <ItemGroup title={t('sessionInfo.exportConversation')}>
+                    <Item
+                        title={t('sessionInfo.exportMarkdown')}
+                        subtitle={t('sessionInfo.exportMarkdownSubtitle')}
+                        icon={<Ionicons name="document-text-outline" size={29} color="#007AFF" />}
+                        onPress={() => handleExport('markdown')}
+                        disabled={exporting}
+                    />
+                    <Item
+                        title={t('sessionInfo.exportJson')}
+                        subtitle={t('sessionInfo.exportJsonSubtitle')}
+                        icon={<Ionicons name="code-slash-outline" size={29} color="#007AFF" />}
+                        onPress={() => handleExport('json')}
+                        disabled={exporting}
+                    />
+                    <Item
+                        title={t('sessionInfo.exportHtml')}
+                        subtitle={t('sessionInfo.exportHtmlSubtitle')}
+                        icon={<Ionicons name="globe-outline" size={29} color="#007AFF" />}
+                        onPress={() => handleExport('html')}
+                        disabled={exporting}
+                    />
+                </ItemGroup>
+
                 {/* Metadata */}
                 {session.metadata && (
                     <ItemGroup title={t('sessionInfo.metadata')}>
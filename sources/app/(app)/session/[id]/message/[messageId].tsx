@@ -1,15 +1,23 @@
 import * as React from 'react';
 import { useLocalSearchParams, Stack, useRouter } from "expo-router";
-import { Text, View, ActivityIndicator } from "react-native";
+import { Text, View, ActivityIndicator, Pressable } from "react-native";
+import { Ionicons } from '@expo/vector-icons';
 import { useMessage, useSession, useSessionMessages } from "@/sync/storage";
 import { sync } from '@/sync/sync';
 import { Deferred } from "@/components/Deferred";
 import { ToolFullView } from '@/components/tools/ToolFullView';
 import { ToolHeader } from '@/components/tools/ToolHeader';
 import { ToolStatusIndicator } from '@/components/tools/ToolStatusIndicator';
-import { Message } from '@/sync/typesMessage';
+import { Message, ToolCall } from '@/sync/typesMessage';
+import { Metadata } from '@/sync/storageTypes';
 import { StyleSheet, useUnistyles } from 'react-native-unistyles';
 import { Typography } from '@/constants/Typography';
+import { useSaveAsArtifact } from '@/hooks/useSaveAsArtifact';
+import { readSessionFile } from '@/sync/fileEditing';
+import { Modal } from '@/modal';
+import { t } from '@/text';
+
+const FILE_TOOLS = ['Write', 'Edit', 'MultiEdit'];
 
 const stylesheet = StyleSheet.create((theme) => ({
     loadingContainer: {
@@ -21,6 +29,11 @@ const stylesheet = StyleSheet.create((theme) => ({
         flex: 1,
         padding: 16,
     },
+    headerRight: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 12,
+    },
     messageText: {
         color: theme.colors.text,
         fontSize: 16,
@@ -84,7 +97,12 @@ export default React.memo(() => {
                 <Stack.Screen
                     options={{
                         headerTitle: () => <ToolHeader tool={message.tool} />,
-                        headerRight: () => <ToolStatusIndicator tool={message.tool} />,
+                        headerRight: () => (
+                            <View style={styles.headerRight}>
+                                <SaveFileArtifactButton tool={message.tool} sessionId={sessionId!} />
+                                <ToolStatusIndicator tool={message.tool} />
+                            </View>
+                        ),
                         headerStyle: {
                             backgroundColor: theme.colors.header.background,
                         },
@@ -94,18 +112,67 @@ export default React.memo(() => {
                 />
             )}
             <Deferred>
-                <FullView message={message} />
+                <FullView message={message} sessionId={sessionId!} metadata={session.metadata} />
             </Deferred>
         </>
     );
 });
 
-function FullView(props: { message: Message }) {
+/**
+ * Saves the file a finished Write or Edit produced, edits only carry the changed part so the file is read back
+ */
+function SaveFileArtifactButton(props: { tool: ToolCall, sessionId: string }) {
+    const { theme } = useUnistyles();
+    const saveAsArtifact = useSaveAsArtifact(props.sessionId);
+    const [reading, setReading] = React.useState(false);
+    const path: string | undefined = props.tool.input?.file_path;
+
+    if (!FILE_TOOLS.includes(props.tool.name) || props.tool.state !== 'completed' || typeof path !== 'string') {
+        return null;
+    }
+
+    const handlePress = async () => {
+        let content: string | undefined = props.tool.name === 'Write' ? props.tool.input?.content : undefined;
+        if (typeof content !== 'string') {
+            setReading(true);
+            try {
+                content = (await readSessionFile(props.sessionId, path)).text;
+            } catch (error) {
+                Modal.alert(t('common.error'), error instanceof Error ? error.message : String(error));
+                return;
+            } finally {
+                setReading(false);
+            }
+        }
+        const name = path.split('/').pop() || path;
+        const extension = name.includes('.') ? name.split('.').pop()!.toLowerCase() : undefined;
+        saveAsArtifact(content, name, { type: 'code', language: extension });
+    };
+
+    if (reading) {
+        return <ActivityIndicator size="small" color={theme.colors.header.tint} />;
+    }
+    return (
+        <Pressable onPress={handlePress} hitSlop={8} accessibilityLabel={t('artifacts.saveAsArtifact')}>
+            <Ionicons name="bookmark-outline" size={20} color={theme.colors.header.tint} />
+        </Pressable>
+    );
+}
+
+function FullView(props: { message: Message, sessionId: string, metadata: Metadata | null }) {
     const { theme } = useUnistyles();
     const styles = stylesheet;
     
     if (props.message.kind === 'tool-call') {
-        return <ToolFullView tool={props.message.tool} messages={props.message.children} />
+        return (
+            <ToolFullView
+                tool={props.message.tool}
+                metadata={props.metadata}
+                messages={props.message.children}
+                sessionId={props.sessionId}
+                messageId={props.message.id}
+            />
+        );
     }
     if (props.message.kind === 'agent-text') {
         return (
@@ -0,0 +1,193 @@
+import React from 'react';
+import { View, Text } from 'react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { StyleSheet } from 'react-native-unistyles';
+import { Item } from '@/components/Item';
+import { ItemGroup } from '@/components/ItemGroup';
+import { ItemList } from '@/components/ItemList';
+import { ToolDiffView } from '@/components/tools/ToolDiffView';
+import { useSession, useSetting } from '@/sync/storage';
+import { sessionAllow, sessionDeny } from '@/sync/ops';
+import { combinePendingPermissionDiffs, listAnswerablePermissions } from '@/sync/pendingPermissions';
+import { presenceSync } from '@/sync/presenceSync';
+import { SessionViewer, useSessionViewers, viewerName } from '@/hooks/useSessionViewers';
+import { formatPermissionParams } from '@/utils/formatPermissionParams';
+import { useHappyAction } from '@/hooks/useHappyAction';
+import { HappyError } from '@/utils/errors';
+import { trackPermissionResponse } from '@/track';
+import { t } from '@/text';
+
+export default function PendingPermissionsScreen() {
+    const { id } = useLocalSearchParams<{ id: string }>();
+    const router = useRouter();
+    const session = useSession(id);
+    const showLineNumbers = useSetting('showLineNumbersInToolViews');
+    // Viewers of a shared session get nothing to answer
+    const pending = React.useMemo(() => listAnswerablePermissions(session), [session]);
+
+    // Requests someone else in a shared session is answering stay on the list but can't be picked
+    const viewers = useSessionViewers(id);
+    const lockHolders = React.useMemo(() => {
+        const holders = new Map<string, SessionViewer>();
+        for (const request of pending) {
+            const holder = presenceSync.lockHolder(id, request.id);
+            const viewer = holder && viewers.find((v) => v.entry.userId === holder.userId);
+            if (viewer) {
+                holders.set(request.id, viewer);
+            }
+        }
+        return holders;
+    }, [id, pending, viewers]);
+
+    // Everything is selected by default, requests arriving later are selected too
+    const [deselected, setDeselected] = React.useState<Set<string>>(new Set());
+    const selected = React.useMemo(
+        () => pending.filter((p) => !deselected.has(p.id) && !lockHolders.has(p.id)),
+        [pending, deselected, lockHolders]
+    );
+    const changes = React.useMemo(() => combinePendingPermissionDiffs(selected), [selected]);
+
+    // Close the sheet once everything is answered
+    const hadPending = React.useRef(false);
+    React.useEffect(() => {
+        if (pending.length > 0) {
+            hadPending.current = true;
+        } else if (hadPending.current) {
+            router.back();
+        }
+    }, [pending.length, router]);
+
+    const toggle = (requestId: string) => {
+        setDeselected((prev) => {
+            const next = new Set(prev);
+            if (next.has(requestId)) {
+                next.delete(requestId);
+            } else {
+                next.add(requestId);
+            }
+            return next;
+        });
+    };
+
+    const decisionRef = React.useRef<'allow' | 'deny'>('allow');
+    const [answering, answer] = useHappyAction(async () => {
+        const approve = decisionRef.current === 'allow';
+        try {
+            // One by one to keep the order the agent asked in
+            for (const request of selected) {
+                // The lock may have been taken since the sheet rendered
+                if (presenceSync.lockHolder(id, request.id)) {
+                    continue;
+                }
+                if (approve) {
+                    await sessionAllow(id, request.id);
+                } else {
+                    await sessionDeny(id, request.id);
+                }
+                trackPermissionResponse(approve);
+            }
+        } catch (error) {
+            console.error('Failed to answer permission requests:', error);
+            throw new HappyError(t('pendingPermissions.failed'), true);
+        }
+    });
+    const answerSelected = (decision: 'allow' | 'deny') => {
+        decisionRef.current = decision;
+        answer();
+    };
+
+    if (pending.length === 0) {
+        return (
+            <ItemList>
+                <ItemGroup>
+                    <Item title={t('pendingPermissions.empty')} showChevron={false} />
+                </ItemGroup>
+            </ItemList>
+        );
+    }
+
+    const allSelected = selected.length === pending.length - lockHolders.size;
+
+    return (
+        <ItemList>
+            <ItemGroup
+                title={t('pendingPermissions.requests', { count: pending.length })}
+                footer={t('pendingPermissions.requestsFooter')}
+            >
+                {pending.map((request) => {
+                    const holder = lockHolders.get(request.id);
+                    const isSelected = !holder && !deselected.has(request.id);
+                    const params = formatPermissionParams(request.arguments, 2, 40);
+                    return (
+                        <Item
+                            key={request.id}
+                            title={`${request.index}. ${request.tool}`}
+                            subtitle={holder ? `${t('sessionPresence.permissionLocked', { name: viewerName(holder) })}\n${params}` : params}
+                            subtitleLines={0}
+                            icon={<Ionicons
+                                name={holder ? 'lock-closed-outline' : isSelected ? 'checkmark-circle' : 'ellipse-outline'}
+                                size={29}
+                                color={isSelected ? '#007AFF' : '#C7C7CC'}
+                            />}
+                            onPress={() => toggle(request.id)}
+                            disabled={!!holder}
+                            showChevron={false}
+                        />
+                    );
+                })}
+                <Item
+                    title={allSelected ? t('pendingPermissions.selectNone') : t('pendingPermissions.selectAll')}
+                    onPress={() => setDeselected(allSelected ? new Set(pending.map((p) => p.id)) : new Set())}
+                    showChevron={false}
+                />
+            </ItemGroup>
+
+            <ItemGroup>
+                <Item
+                    title={t('pendingPermissions.approveSelected', { count: selected.length })}
+                    icon={<Ionicons name="checkmark-circle-outline" size={29} color="#34C759" />}
+                    onPress={() => answerSelected('allow')}
+                    loading={answering && decisionRef.current === 'allow'}
+                    disabled={answering || selected.length === 0}
+                    showChevron={false}
+                />
+                <Item
+                    title={t('pendingPermissions.denySelected', { count: selected.length })}
+                    icon={<Ionicons name="close-circle-outline" size={29} color="#FF3B30" />}
+                    onPress={() => answerSelected('deny')}
+                    loading={answering && decisionRef.current === 'deny'}
+                    disabled={answering || selected.length === 0}
+                    showChevron={false}
+                />
+            </ItemGroup>
+
+            {changes.map((fileChanges) => (
+                <ItemGroup key={fileChanges.file} title={fileChanges.file}>
+                    {fileChanges.diffs.map((diff, index) => (
+                        <View key={`${diff.id}-${index}`} style={styles.diff}>
+                            {index > 0 && <Text style={styles.diffSeparator}>⋯</Text>}
+                            <ToolDiffView
+                                oldText={diff.oldText}
+                                newText={diff.newText}
+                                showLineNumbers={showLineNumbers}
+                                showPlusMinusSymbols={showLineNumbers}
+                            />
+                        </View>
+                    ))}
+                </ItemGroup>
+            ))}
+        </ItemList>
+    );
+}
+
+const styles = StyleSheet.create((theme) => ({
+    diff: {
+        paddingVertical: 4,
+    },
+    diffSeparator: {
+        textAlign: 'center',
+        color: theme.colors.textSecondary,
+        paddingVertical: 4,
+    },
+}));
@@ -0,0 +1,11 @@
+import React from 'react';
+import { useLocalSearchParams } from 'expo-router';
+import { PermissionAuditView } from '@/components/PermissionAuditView';
+import { useSession } from '@/sync/storage';
+
+export default function SessionPermissionsScreen() {
+    const { id } = useLocalSearchParams<{ id: string }>();
+    const session = useSession(id);
+    const sessions = React.useMemo(() => session ? [session] : [], [session]);
+    return <PermissionAuditView sessions={sessions} exportName={`permissions-${id.slice(0, 8)}`} />;
+}
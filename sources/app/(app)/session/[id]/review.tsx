@@ -0,0 +1,393 @@
+import * as React from 'react';
+import { View, Pressable, ScrollView, ActivityIndicator, Platform } from 'react-native';
+import { useRoute } from '@react-navigation/native';
+import { Octicons } from '@expo/vector-icons';
+import { useUnistyles, StyleSheet } from 'react-native-unistyles';
+import { Text } from '@/components/StyledText';
+import { FileIcon } from '@/components/FileIcon';
+import { DiffView } from '@/components/diff/DiffView';
+import { Typography } from '@/constants/Typography';
+import { collectReviewFiles, composeReviewMessage, findLastCheckpoint, ReviewDecision, ReviewFile, ReviewHunk } from '@/sync/changeReview';
+import { gitWorkingTreeDiff } from '@/sync/gitOperations';
+import { revertSessionFileHunks } from '@/sync/fileEditing';
+import { useSession, useSessionMessages } from '@/sync/storage';
+import { sync } from '@/sync/sync';
+import { useNavigateToSession } from '@/hooks/useNavigateToSession';
+import { canControlSession, isSessionOwner } from '@/sync/sessionShareTypes';
+import { Modal } from '@/modal';
+import { layout } from '@/components/layout';
+import { t } from '@/text';
+
+export default function ReviewScreen() {
+    const route = useRoute();
+    const sessionId = (route.params! as any).id as string;
+    const session = useSession(sessionId);
+    const { messages } = useSessionMessages(sessionId);
+    const navigateToSession = useNavigateToSession();
+    const { theme } = useUnistyles();
+
+    const [scope, setScope] = React.useState<'lastPrompt' | 'session'>('lastPrompt');
+    const [gitDiff, setGitDiff] = React.useState<string | null>(null);
+    const [decisions, setDecisions] = React.useState<Record<string, ReviewDecision>>({});
+    const [isApplying, setIsApplying] = React.useState(false);
+
+    const loadGitDiff = React.useCallback(async () => {
+        const result = await gitWorkingTreeDiff(sessionId);
+        // Without git only the edits of the agent are reviewed
+        setGitDiff(result.success ? result.output : '');
+    }, [sessionId]);
+
+    React.useEffect(() => {
+        loadGitDiff();
+    }, [loadGitDiff]);
+
+    // Hunk ids depend on the scope, so decisions don't carry over
+    React.useEffect(() => {
+        setDecisions({});
+    }, [scope]);
+
+    const since = React.useMemo(() => scope === 'lastPrompt' ? findLastCheckpoint(messages) : 0, [scope, messages]);
+    const files = React.useMemo(
+        () => gitDiff === null ? [] : collectReviewFiles(messages, since, gitDiff, session?.metadata ?? null),
+        [messages, since, gitDiff, session?.metadata]
+    );
+
+    const updateDecision = React.useCallback((hunkId: string, update: Partial<ReviewDecision>) => {
+        setDecisions((existing) => ({
+            ...existing,
+            [hunkId]: { ...(existing[hunkId] ?? { revert: false, comment: '' }), ...update }
+        }));
+    }, []);
+
+    const handleComment = React.useCallback(async (hunk: ReviewHunk) => {
+        const comment = await Modal.prompt(t('review.comment'), t('review.commentDescription'), {
+            defaultValue: decisions[hunk.id]?.comment ?? '',
+            placeholder: t('review.commentPlaceholder'),
+            cancelText: t('common.cancel'),
+            confirmText: t('common.save')
+        });
+        if (comment !== null) {
+            updateDecision(hunk.id, { comment });
+        }
+    }, [decisions, updateDecision]);
+
+    const hunks = files.flatMap((file) => file.hunks);
+    const revertCount = hunks.filter((hunk) => decisions[hunk.id]?.revert).length;
+    const commentCount = hunks.filter((hunk) => decisions[hunk.id]?.comment.trim()).length;
+    // Viewers of a shared session can look at the changes but not revert or comment on them,
+    // collaborators can comment, reverting writes to the owner's machine
+    const canRevert = !!session && isSessionOwner(session);
+    const canApply = !!session && canControlSession(session) && (revertCount > 0 || commentCount > 0);
+
+    const handleApply = React.useCallback(async () => {
+        setIsApplying(true);
+        try {
+            // Reverts go first so the agent is only told about the ones that were applied
+            const failed = new Set<string>();
+            const errors: string[] = [];
+            for (const file of files) {
+                const reverts = file.hunks.filter((hunk) => decisions[hunk.id]?.revert);
+                if (reverts.length === 0) {
+                    continue;
+                }
+                const result = await revertSessionFileHunks(sessionId, file.path, reverts);
+                result.failed.forEach((id) => failed.add(id));
+                if (result.error) {
+                    errors.push(`${file.path}: ${result.error}`);
+                }
+            }
+            const applied: Record<string, ReviewDecision> = {};
+            for (const [id, decision] of Object.entries(decisions)) {
+                applied[id] = { ...decision, revert: decision.revert && !failed.has(id) };
+            }
+
+            const message = composeReviewMessage(files, applied);
+            if (message) {
+                await sync.sendMessage(sessionId, message, t('review.sentMessage', {
+                    comments: commentCount,
+                    reverts: revertCount - failed.size
+                }));
+            }
+            if (failed.size > 0) {
+                Modal.alert(t('review.revertFailed', { count: failed.size }), errors.join('\n') || t('review.revertFailedDescription'));
+            }
+            setDecisions({});
+            if (message) {
+                navigateToSession(sessionId);
+            } else {
+                loadGitDiff();
+            }
+        } finally {
+            setIsApplying(false);
+        }
+    }, [files, decisions, sessionId, commentCount, revertCount, navigateToSession, loadGitDiff]);
+
+    return (
+        <View style={[styles.container, { backgroundColor: theme.colors.surface }]}>
+            <View style={styles.toolbar}>
+                <View style={styles.segments}>
+                    <SegmentButton title={t('review.sinceLastPrompt')} active={scope === 'lastPrompt'} onPress={() => setScope('lastPrompt')} />
+                    <SegmentButton title={t('review.wholeSession')} active={scope === 'session'} onPress={() => setScope('session')} />
+                </View>
+                {gitDiff !== null && (
+                    <Text style={styles.summaryText}>
+                        {t('review.summary', { files: files.length, hunks: hunks.length })}
+                    </Text>
+                )}
+            </View>
+
+            {gitDiff === null ? (
+                <ActivityIndicator style={{ marginTop: 32 }} color={theme.colors.textSecondary} />
+            ) : files.length === 0 ? (
+                <Text style={styles.emptyText}>{t('review.noChanges')}</Text>
+            ) : (
+                <ScrollView contentContainerStyle={styles.listContent}>
+                    {files.map((file) => (
+                        <ReviewFileView
+                            key={file.path}
+                            file={file}
+                            decisions={decisions}
+                            disabled={isApplying}
+                            canRevert={canRevert}
+                            onToggleRevert={(hunk) => updateDecision(hunk.id, { revert: !decisions[hunk.id]?.revert })}
+                            onComment={handleComment}
+                        />
+                    ))}
+                </ScrollView>
+            )}
+
+            <View style={styles.footer}>
+                <Pressable
+                    onPress={handleApply}
+                    disabled={isApplying || !canApply}
+                    style={[styles.applyButton, (isApplying || !canApply) && { opacity: 0.5 }]}
+                >
+                    {isApplying && <ActivityIndicator size="small" color="white" />}
+                    <Text style={styles.applyText}>
+                        {t('review.apply', { reverts: revertCount, comments: commentCount })}
+                    </Text>
+                </Pressable>
+            </View>
+        </View>
+    );
+}
+
+function SegmentButton(props: { title: string, active: boolean, onPress: () => void }) {
+    const { theme } = useUnistyles();
+    return (
+        <Pressable
+            onPress={props.onPress}
+            style={[styles.segment, props.active && { backgroundColor: theme.colors.surface }]}
+        >
+            <Text style={[styles.segmentText, { color: props.active ? theme.colors.text : theme.colors.textSecondary }]}>
+                {props.title}
+            </Text>
+        </Pressable>
+    );
+}
+
+const ReviewFileView = React.memo((props: {
+    file: ReviewFile;
+    decisions: Record<string, ReviewDecision>;
+    disabled: boolean;
+    canRevert: boolean;
+    onToggleRevert: (hunk: ReviewHunk) => void;
+    onComment: (hunk: ReviewHunk) => void;
+}) => {
+    const { file } = props;
+    const { theme } = useUnistyles();
+    const fileName = file.path.split('/').pop() || file.path;
+
+    return (
+        <View style={styles.file}>
+            <View style={styles.fileHeader}>
+                <FileIcon fileName={fileName} size={20} />
+                <View style={{ flex: 1 }}>
+                    <Text style={styles.filePath} numberOfLines={1} ellipsizeMode="middle">{file.path}</Text>
+                    <Text style={styles.fileMeta}>
+                        {file.toolNames.length > 0 ? file.toolNames.join(', ') : t('review.notByAgent')}
+                    </Text>
+                </View>
+            </View>
+            {file.hunks.map((hunk) => {
+                const decision = props.decisions[hunk.id];
+                return (
+                    <View key={hunk.id} style={[styles.hunk, decision?.revert && { opacity: 0.6 }]}>
+                        <View style={styles.hunkHeader}>
+                            <Text style={styles.hunkLocation} numberOfLines={1}>
+                                {hunk.header ?? (hunk.revertible ? t('review.agentEdit') : t('review.fileWrite'))}
+                            </Text>
+                            {props.canRevert && <Pressable
+                                onPress={() => props.onToggleRevert(hunk)}
+                                disabled={props.disabled || !hunk.revertible}
+                                hitSlop={6}
+                                style={[styles.hunkButton, !hunk.revertible && { opacity: 0.4 }]}
+                            >
+                                <Octicons
+                                    name={decision?.revert ? 'undo' : 'check'}
+                                    size={12}
+                                    color={decision?.revert ? theme.colors.textDestructive : theme.colors.success}
+                                />
+                                <Text style={[styles.hunkButtonText, { color: decision?.revert ? theme.colors.textDestructive : theme.colors.success }]}>
+                                    {decision?.revert ? t('review.revert') : t('review.keep')}
+                                </Text>
+                            </Pressable>}
+                            <Pressable
+                                onPress={() => props.onComment(hunk)}
+                                disabled={props.disabled}
+                                hitSlop={6}
+                                style={styles.hunkButton}
+                            >
+                                <Octicons name="comment" size={12} color={theme.colors.textLink} />
+                            </Pressable>
+                        </View>
+                        <DiffView oldText={hunk.oldText} newText={hunk.newText} />
+                        {!!decision?.comment.trim() && (
+                            <Pressable onPress={() => props.onComment(hunk)} style={styles.comment}>
+                                <Octicons name="comment" size={12} color={theme.colors.textSecondary} />
+                                <Text style={styles.commentText}>{decision.comment.trim()}</Text>
+                            </Pressable>
+                        )}
+                    </View>
+                );
+            })}
+        </View>
+    );
+});
+
+const styles = StyleSheet.create((theme) => ({
+    container: {
+        flex: 1,
+    },
+    toolbar: {
+        padding: 16,
+        gap: 8,
+        borderBottomWidth: Platform.select({ ios: 0.33, default: 1 }),
+        borderBottomColor: theme.colors.divider,
+    },
+    segments: {
+        flexDirection: 'row',
+        padding: 2,
+        borderRadius: 8,
+        backgroundColor: theme.colors.input.background,
+    },
+    segment: {
+        flex: 1,
+        alignItems: 'center',
+        paddingVertical: 6,
+        borderRadius: 6,
+    },
+    segmentText: {
+        fontSize: 14,
+        fontWeight: '600',
+        ...Typography.default('semiBold'),
+    },
+    summaryText: {
+        fontSize: 13,
+        color: theme.colors.textSecondary,
+        ...Typography.default(),
+    },
+    emptyText: {
+        marginTop: 32,
+        paddingHorizontal: 32,
+        textAlign: 'center',
+        fontSize: 15,
+        color: theme.colors.textSecondary,
+        ...Typography.default(),
+    },
+    listContent: {
+        paddingBottom: 32,
+        maxWidth: layout.maxWidth,
+        width: '100%',
+        alignSelf: 'center',
+    },
+    file: {
+        borderBottomWidth: Platform.select({ ios: 0.33, default: 1 }),
+        borderBottomColor: theme.colors.divider,
+        paddingBottom: 8,
+    },
+    fileHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 10,
+        paddingHorizontal: 16,
+        paddingTop: 14,
+        paddingBottom: 8,
+    },
+    filePath: {
+        fontSize: 15,
+        fontWeight: '600',
+        color: theme.colors.text,
+        ...Typography.default('semiBold'),
+    },
+    fileMeta: {
+        fontSize: 12,
+        color: theme.colors.textSecondary,
+        ...Typography.default(),
+    },
+    hunk: {
+        marginBottom: 8,
+    },
+    hunkHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+        paddingHorizontal: 16,
+        paddingVertical: 6,
+    },
+    hunkLocation: {
+        flex: 1,
+        fontSize: 12,
+        color: theme.colors.textSecondary,
+        ...Typography.mono(),
+    },
+    hunkButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 4,
+        paddingHorizontal: 10,
+        paddingVertical: 4,
+        borderRadius: 6,
+        backgroundColor: theme.colors.input.background,
+    },
+    hunkButtonText: {
+        fontSize: 12,
+        fontWeight: '600',
+        ...Typography.default('semiBold'),
+    },
+    comment: {
+        flexDirection: 'row',
+        gap: 6,
+        marginHorizontal: 16,
+        marginTop: 6,
+        padding: 8,
+        borderRadius: 8,
+        backgroundColor: theme.colors.surfaceHigh,
+    },
+    commentText: {
+        flex: 1,
+        fontSize: 14,
+        color: theme.colors.text,
+        ...Typography.default(),
+    },
+    footer: {
+        padding: 16,
+        borderTopWidth: Platform.select({ ios: 0.33, default: 1 }),
+        borderTopColor: theme.colors.divider,
+    },
+    applyButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: 8,
+        paddingVertical: 12,
+        borderRadius: 10,
+        backgroundColor: theme.colors.textLink,
+    },
+    applyText: {
+        fontSize: 15,
+        fontWeight: '600',
+        color: 'white',
+        ...Typography.default('semiBold'),
+    },
+}));
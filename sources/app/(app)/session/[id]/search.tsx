@@ -0,0 +1,364 @@
+import * as React from 'react';
+import { View, TextInput, Pressable, FlatList, ActivityIndicator, Platform } from 'react-native';
+import { useRoute } from '@react-navigation/native';
+import { useRouter } from 'expo-router';
+import { Octicons } from '@expo/vector-icons';
+import { useUnistyles, StyleSheet } from 'react-native-unistyles';
+import { Text } from '@/components/StyledText';
+import { FileIcon } from '@/components/FileIcon';
+import { Typography } from '@/constants/Typography';
+import { searchCode } from '@/sync/codeSearch';
+import { CodeSearchFile, CodeSearchLine, formatCodeReference, parseGlobList } from '@/sync/codeSearchParser';
+import { storage } from '@/sync/storage';
+import { useNavigateToSession } from '@/hooks/useNavigateToSession';
+import { layout } from '@/components/layout';
+import { t } from '@/text';
+
+const SEARCH_DEBOUNCE_MS = 400;
+
+export default function CodeSearchScreen() {
+    const route = useRoute();
+    const router = useRouter();
+    const navigateToSession = useNavigateToSession();
+    const sessionId = (route.params! as any).id as string;
+    const { theme } = useUnistyles();
+
+    const [query, setQuery] = React.useState('');
+    const [regex, setRegex] = React.useState(false);
+    const [caseSensitive, setCaseSensitive] = React.useState(false);
+    const [include, setInclude] = React.useState('');
+    const [exclude, setExclude] = React.useState('');
+    const [results, setResults] = React.useState<CodeSearchFile[]>([]);
+    const [isSearching, setIsSearching] = React.useState(false);
+    const [truncated, setTruncated] = React.useState(false);
+    const [error, setError] = React.useState<string | null>(null);
+    const generation = React.useRef(0);
+
+    // Restart the search whenever the query or an option changes, results of older searches are dropped
+    React.useEffect(() => {
+        const current = ++generation.current;
+        const isCancelled = () => generation.current !== current;
+        setResults([]);
+        setTruncated(false);
+        setError(null);
+        if (!query) {
+            setIsSearching(false);
+            return;
+        }
+        setIsSearching(true);
+        const timer = setTimeout(async () => {
+            try {
+                const options = { query, regex, caseSensitive, include: parseGlobList(include), exclude: parseGlobList(exclude) };
+                const result = await searchCode(sessionId, options, (files) => {
+                    if (!isCancelled()) {
+                        setResults((existing) => [...existing, ...files]);
+                    }
+                }, isCancelled);
+                if (!isCancelled()) {
+                    setTruncated(result.truncated);
+                }
+            } catch (e) {
+                if (!isCancelled()) {
+                    setError(e instanceof Error ? e.message : String(e));
+                }
+            } finally {
+                if (!isCancelled()) {
+                    setIsSearching(false);
+                }
+            }
+        }, SEARCH_DEBOUNCE_MS);
+        return () => clearTimeout(timer);
+    }, [sessionId, query, regex, caseSensitive, include, exclude]);
+
+    // Invalidate the running search when leaving the screen
+    React.useEffect(() => () => {
+        generation.current++;
+    }, []);
+
+    const openLine = React.useCallback((path: string, lineNumber: number) => {
+        router.push(`/session/${sessionId}/file?path=${btoa(path)}&line=${lineNumber}`);
+    }, [router, sessionId]);
+
+    const insertReference = React.useCallback((path: string, lineNumber: number) => {
+        const reference = formatCodeReference(path, lineNumber);
+        const draft = storage.getState().sessions[sessionId]?.draft;
+        storage.getState().updateSessionDraft(sessionId, draft ? `${draft.trimEnd()} ${reference} ` : `${reference} `);
+        navigateToSession(sessionId);
+    }, [sessionId, navigateToSession]);
+
+    const matchCount = React.useMemo(() => results.reduce((sum, file) => sum + file.matchCount, 0), [results]);
+
+    return (
+        <View style={[styles.container, { backgroundColor: theme.colors.surface }]}>
+            <View style={styles.searchPanel}>
+                <View style={styles.inputRow}>
+                    <Octicons name="search" size={16} color={theme.colors.textSecondary} style={{ marginRight: 8 }} />
+                    <TextInput
+                        value={query}
+                        onChangeText={setQuery}
+                        placeholder={t('codeSearch.placeholder')}
+                        placeholderTextColor={theme.colors.input.placeholder}
+                        style={styles.input}
+                        autoCapitalize="none"
+                        autoCorrect={false}
+                        autoFocus={true}
+                        returnKeyType="search"
+                    />
+                    <ToggleButton label=".*" active={regex} onPress={() => setRegex((value) => !value)} />
+                    <ToggleButton label="Aa" active={caseSensitive} onPress={() => setCaseSensitive((value) => !value)} />
+                </View>
+                <View style={styles.globRow}>
+                    <TextInput
+                        value={include}
+                        onChangeText={setInclude}
+                        placeholder={t('codeSearch.includePlaceholder')}
+                        placeholderTextColor={theme.colors.input.placeholder}
+                        style={[styles.input, styles.globInput]}
+                        autoCapitalize="none"
+                        autoCorrect={false}
+                    />
+                    <TextInput
+                        value={exclude}
+                        onChangeText={setExclude}
+                        placeholder={t('codeSearch.excludePlaceholder')}
+                        placeholderTextColor={theme.colors.input.placeholder}
+                        style={[styles.input, styles.globInput]}
+                        autoCapitalize="none"
+                        autoCorrect={false}
+                    />
+                </View>
+                {query.length > 0 && (
+                    <View style={styles.statusRow}>
+                        {isSearching && <ActivityIndicator size="small" color={theme.colors.textSecondary} style={{ marginRight: 8 }} />}
+                        <Text style={[styles.statusText, error ? { color: theme.colors.textDestructive } : null]} numberOfLines={3}>
+                            {error
+                                ? error
+                                : results.length > 0 || !isSearching
+                                    ? t('codeSearch.summary', { matches: matchCount, files: results.length })
+                                    : t('codeSearch.searching')}
+                            {truncated && !error ? ` ${t('codeSearch.truncated')}` : ''}
+                        </Text>
+                    </View>
+                )}
+            </View>
+
+            <FlatList
+                data={results}
+                keyExtractor={(file) => file.path}
+                keyboardShouldPersistTaps="handled"
+                contentContainerStyle={{ paddingBottom: 32, maxWidth: layout.maxWidth, width: '100%', alignSelf: 'center' }}
+                renderItem={({ item }) => (
+                    <SearchResultFile file={item} onOpenLine={openLine} onInsertReference={insertReference} />
+                )}
+                ListEmptyComponent={!query ? (
+                    <Text style={styles.emptyText}>{t('codeSearch.hint')}</Text>
+                ) : null}
+            />
+        </View>
+    );
+}
+
+function ToggleButton(props: { label: string, active: boolean, onPress: () => void }) {
+    const { theme } = useUnistyles();
+    return (
+        <Pressable
+            onPress={props.onPress}
+            hitSlop={6}
+            style={[styles.toggle, props.active && { backgroundColor: theme.colors.textLink }]}
+        >
+            <Text style={[styles.toggleText, { color: props.active ? 'white' : theme.colors.textSecondary }]}>{props.label}</Text>
+        </Pressable>
+    );
+}
+
+const SearchResultFile = React.memo((props: {
+    file: CodeSearchFile;
+    onOpenLine: (path: string, lineNumber: number) => void;
+    onInsertReference: (path: string, lineNumber: number) => void;
+}) => {
+    const { file } = props;
+    const { theme } = useUnistyles();
+    const fileName = file.path.split('/').pop() || file.path;
+    const firstMatch = file.blocks.flat().find((line) => line.matches.length > 0);
+
+    return (
+        <View style={styles.fileGroup}>
+            <Pressable
+                onPress={() => props.onOpenLine(file.path, firstMatch?.lineNumber ?? 1)}
+                style={styles.fileHeader}
+            >
+                <FileIcon fileName={fileName} size={18} />
+                <Text style={styles.filePath} numberOfLines={1} ellipsizeMode="middle">{file.path}</Text>
+                <Text style={styles.fileCount}>{file.matchCount}</Text>
+            </Pressable>
+            {file.blocks.map((block, blockIndex) => (
+                <View key={block[0].lineNumber}>
+                    {blockIndex > 0 && <View style={styles.blockSeparator} />}
+                    {block.map((line) => (
+                        <SearchResultLine
+                            key={line.lineNumber}
+                            line={line}
+                            onPress={() => props.onOpenLine(file.path, line.lineNumber)}
+                            onInsert={line.matches.length > 0 ? () => props.onInsertReference(file.path, line.lineNumber) : undefined}
+                            highlightColor={theme.colors.diff.addedBg}
+                        />
+                    ))}
+                </View>
+            ))}
+        </View>
+    );
+});
+
+function SearchResultLine(props: { line: CodeSearchLine, onPress: () => void, onInsert?: () => void, highlightColor: string }) {
+    const { line } = props;
+    const { theme } = useUnistyles();
+    const isMatch = line.matches.length > 0;
+
+    // Split the line into plain and matched segments
+    const segments: { text: string, match: boolean }[] = [];
+    let index = 0;
+    for (const match of line.matches) {
+        if (match.start > index) {
+            segments.push({ text: line.text.slice(index, match.start), match: false });
+        }
+        segments.push({ text: line.text.slice(match.start, match.end), match: true });
+        index = match.end;
+    }
+    segments.push({ text: line.text.slice(index), match: false });
+
+    return (
+        <Pressable onPress={props.onPress} style={styles.line}>
+            <Text style={styles.lineNumber}>{line.lineNumber}</Text>
+            <Text style={[styles.lineText, { color: isMatch ? theme.colors.text : theme.colors.textSecondary }]} numberOfLines={1}>
+                {segments.map((segment, i) => (
+                    <Text key={i} style={segment.match ? { backgroundColor: props.highlightColor, fontWeight: '600' } : undefined}>
+                        {segment.text}
+                    </Text>
+                ))}
+            </Text>
+            {props.onInsert && (
+                <Pressable onPress={props.onInsert} hitSlop={8} style={{ marginLeft: 8 }}>
+                    <Octicons name="comment" size={14} color={theme.colors.textLink} />
+                </Pressable>
+            )}
+        </Pressable>
+    );
+}
+
+const styles = StyleSheet.create((theme) => ({
+    container: {
+        flex: 1,
+    },
+    searchPanel: {
+        padding: 16,
+        gap: 8,
+        borderBottomWidth: Platform.select({ ios: 0.33, default: 1 }),
+        borderBottomColor: theme.colors.divider,
+    },
+    inputRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        backgroundColor: theme.colors.input.background,
+        borderRadius: 10,
+        paddingHorizontal: 12,
+        paddingVertical: 6,
+    },
+    input: {
+        flex: 1,
+        fontSize: 16,
+        color: theme.colors.text,
+        ...Typography.default(),
+    },
+    globRow: {
+        flexDirection: 'row',
+        gap: 8,
+    },
+    globInput: {
+        fontSize: 14,
+        backgroundColor: theme.colors.input.background,
+        borderRadius: 10,
+        paddingHorizontal: 12,
+        paddingVertical: 8,
+        ...Typography.mono(),
+    },
+    toggle: {
+        marginLeft: 6,
+        paddingHorizontal: 8,
+        paddingVertical: 4,
+        borderRadius: 6,
+    },
+    toggleText: {
+        fontSize: 13,
+        fontWeight: '600',
+        ...Typography.mono(),
+    },
+    statusRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+    },
+    statusText: {
+        flex: 1,
+        fontSize: 13,
+        color: theme.colors.textSecondary,
+        ...Typography.default(),
+    },
+    emptyText: {
+        marginTop: 32,
+        paddingHorizontal: 32,
+        textAlign: 'center',
+        fontSize: 15,
+        color: theme.colors.textSecondary,
+        ...Typography.default(),
+    },
+    fileGroup: {
+        borderBottomWidth: Platform.select({ ios: 0.33, default: 1 }),
+        borderBottomColor: theme.colors.divider,
+        paddingBottom: 8,
+    },
+    fileHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingHorizontal: 16,
+        paddingTop: 12,
+        paddingBottom: 6,
+        gap: 8,
+    },
+    filePath: {
+        flex: 1,
+        fontSize: 14,
+        fontWeight: '600',
+        color: theme.colors.text,
+        ...Typography.default('semiBold'),
+    },
+    fileCount: {
+        fontSize: 12,
+        color: theme.colors.textSecondary,
+        ...Typography.default(),
+    },
+    blockSeparator: {
+        height: 1,
+        marginVertical: 6,
+        marginLeft: 68,
+        marginRight: 16,
+        backgroundColor: theme.colors.divider,
+    },
+    line: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingHorizontal: 16,
+        paddingVertical: 2,
+    },
+    lineNumber: {
+        width: 44,
+        marginRight: 8,
+        textAlign: 'right',
+        fontSize: 12,
+        color: theme.colors.textSecondary,
+        ...Typography.mono(),
+    },
+    lineText: {
+        flex: 1,
+        fontSize: 13,
+        ...Typography.mono(),
+    },
+}));
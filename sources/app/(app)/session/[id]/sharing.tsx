@@ -0,0 +1,147 @@
+import React from 'react';
+import { ActivityIndicator, View } from 'react-native';
+import { useLocalSearchParams } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useUnistyles } from 'react-native-unistyles';
+import { Item } from '@/components/Item';
+import { ItemGroup } from '@/components/ItemGroup';
+import { ItemList } from '@/components/ItemList';
+import { Avatar } from '@/components/Avatar';
+import { useAuth } from '@/auth/AuthContext';
+import { useAcceptedFriends } from '@/sync/storage';
+import { sync } from '@/sync/sync';
+import { getSessionShares, unshareSession } from '@/sync/apiSessionShares';
+import { SessionShare, SessionShareRole } from '@/sync/sessionShareTypes';
+import { getDisplayName, UserProfile } from '@/sync/friendTypes';
+import { Modal } from '@/modal';
+import { t } from '@/text';
+
+function roleLabel(role: SessionShareRole): string {
+    return role === 'collaborator' ? t('sessionSharing.roleCollaborator') : t('sessionSharing.roleViewer');
+}
+
+function FriendAvatar({ user }: { user: UserProfile }) {
+    const { theme } = useUnistyles();
+    return user.avatar
+        ? <Avatar id={user.id} imageUrl={user.avatar.url} size={29} />
+        : <Ionicons name="person-circle-outline" size={29} color={theme.colors.textSecondary} />;
+}
+
+/**
+ * Friends an own session is shared with, and sharing it with more of them
+ */
+export default function SessionSharingScreen() {
+    const { id } = useLocalSearchParams<{ id: string }>();
+    const auth = useAuth();
+    const { theme } = useUnistyles();
+    const friends = useAcceptedFriends();
+    const [shares, setShares] = React.useState<SessionShare[] | null>(null);
+    const [busyUserId, setBusyUserId] = React.useState<string | null>(null);
+
+    const reload = React.useCallback(async () => {
+        if (!auth?.credentials) {
+            return;
+        }
+        setShares(await getSessionShares(auth.credentials, id));
+    }, [auth, id]);
+
+    React.useEffect(() => {
+        reload();
+    }, [reload]);
+
+    const share = React.useCallback(async (friend: UserProfile, role: SessionShareRole) => {
+        setBusyUserId(friend.id);
+        try {
+            const result = await sync.shareSessionWith(id, friend, role);
+            if (result.type === 'legacySession') {
+                Modal.alert(t('common.error'), t('sessionSharing.legacySession'));
+            } else if (result.type === 'friendNeedsUpdate') {
+                Modal.alert(t('common.error'), t('sessionSharing.friendNeedsUpdate', { name: getDisplayName(friend) }));
+            } else {
+                await reload();
+            }
+        } catch (error) {
+            Modal.alert(t('common.error'), error instanceof Error ? error.message : String(error));
+        } finally {
+            setBusyUserId(null);
+        }
+    }, [id, reload]);
+
+    const stopSharing = React.useCallback(async (friend: UserProfile) => {
+        if (!auth?.credentials) {
+            return;
+        }
+        setBusyUserId(friend.id);
+        try {
+            await unshareSession(auth.credentials, id, friend.id);
+            await reload();
+        } catch (error) {
+            Modal.alert(t('common.error'), error instanceof Error ? error.message : String(error));
+        } finally {
+            setBusyUserId(null);
+        }
+    }, [auth, id, reload]);
+
+    const handleSharePress = (friend: UserProfile) => {
+        Modal.alert(t('sessionSharing.shareWith', { name: getDisplayName(friend) }), t('sessionSharing.chooseRole'), [
+            { text: t('sessionSharing.roleViewer'), onPress: () => share(friend, 'viewer') },
+            { text: t('sessionSharing.roleCollaborator'), onPress: () => share(friend, 'collaborator') },
+            { text: t('common.cancel'), style: 'cancel' }
+        ]);
+    };
+
+    const handleSharedPress = (existing: SessionShare) => {
+        const otherRole: SessionShareRole = existing.role === 'viewer' ? 'collaborator' : 'viewer';
+        Modal.alert(getDisplayName(existing.user), roleLabel(existing.role), [
+            { text: t('sessionSharing.changeTo', { role: roleLabel(otherRole) }), onPress: () => share(existing.user, otherRole) },
+            { text: t('sessionSharing.stopSharing'), style: 'destructive', onPress: () => stopSharing(existing.user) },
+            { text: t('common.cancel'), style: 'cancel' }
+        ]);
+    };
+
+    const sharedIds = new Set(shares?.map((existing) => existing.user.id));
+    const available = friends.filter((friend) => !sharedIds.has(friend.id));
+
+    return (
+        <ItemList style={{ paddingTop: 0 }}>
+            <ItemGroup title={t('sessionSharing.sharedWith')} footer={t('sessionSharing.footer')}>
+                {shares === null && (
+                    <View style={{ padding: 16 }}>
+                        <ActivityIndicator size="small" color={theme.colors.textSecondary} />
+                    </View>
+                )}
+                {shares?.length === 0 && (
+                    <Item title={t('sessionSharing.notShared')} showChevron={false} />
+                )}
+                {shares?.map((existing) => (
+                    <Item
+                        key={existing.user.id}
+                        title={getDisplayName(existing.user)}
+                        subtitle={roleLabel(existing.role)}
+                        leftElement={<FriendAvatar user={existing.user} />}
+                        onPress={() => handleSharedPress(existing)}
+                        loading={busyUserId === existing.user.id}
+                        disabled={busyUserId !== null}
+                    />
+                ))}
+            </ItemGroup>
+
+            <ItemGroup title={t('sessionSharing.friends')}>
+                {available.length === 0 && (
+                    <Item title={t('sessionSharing.noFriends')} showChevron={false} />
+                )}
+                {available.map((friend) => (
+                    <Item
+                        key={friend.id}
+                        title={getDisplayName(friend)}
+                        subtitle={`@${friend.username}`}
+                        leftElement={<FriendAvatar user={friend} />}
+                        onPress={() => handleSharePress(friend)}
+                        loading={busyUserId === friend.id}
+                        disabled={busyUserId !== null}
+                    />
+                ))}
+            </ItemGroup>
+        </ItemList>
+    );
+}
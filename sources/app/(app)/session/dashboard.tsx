@@ -0,0 +1,138 @@
+import React from 'react';
+import { View, Pressable } from 'react-native';
+import { Stack } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { StyleSheet, useUnistyles } from 'react-native-unistyles';
+import { SessionPaneView } from '@/-session/SessionView';
+import { Avatar } from '@/components/Avatar';
+import { Item } from '@/components/Item';
+import { ItemGroup } from '@/components/ItemGroup';
+import { ItemList } from '@/components/ItemList';
+import { useAllSessions, useLocalSettingMutable } from '@/sync/storage';
+import { LocalSettings } from '@/sync/localSettings';
+import { useNavigateToSession } from '@/hooks/useNavigateToSession';
+import { getSessionAvatarId, getSessionName, getSessionSubtitle } from '@/utils/sessionUtils';
+import { Modal } from '@/modal';
+import { t } from '@/text';
+
+type DashboardLayout = LocalSettings['dashboardLayout'];
+
+// Panes per row for each layout
+const LAYOUT_ROWS: Record<DashboardLayout, number[]> = {
+    columns2: [2],
+    columns3: [3],
+    grid4: [2, 2],
+};
+
+export default function SessionDashboardScreen() {
+    const { theme } = useUnistyles();
+    const navigateToSession = useNavigateToSession();
+    const [layout, setLayout] = useLocalSettingMutable('dashboardLayout');
+    const [storedPanes, setPanes] = useLocalSettingMutable('dashboardPanes');
+
+    // Panes of a larger layout are kept when switching to a smaller one
+    const rows = LAYOUT_ROWS[layout];
+    const paneCount = rows.reduce((sum, count) => sum + count, 0);
+    const panes = React.useMemo(() => Array.from({ length: paneCount }, (_, i) => storedPanes[i] ?? null), [storedPanes, paneCount]);
+
+    const setPane = (index: number, sessionId: string | null) => {
+        const next = Array.from({ length: Math.max(storedPanes.length, paneCount) }, (_, i) => storedPanes[i] ?? null);
+        next[index] = sessionId;
+        setPanes(next);
+    };
+
+    const handleChooseLayout = () => {
+        Modal.alert(t('sessionDashboard.layout'), undefined, [
+            { text: t('sessionDashboard.columns2'), onPress: () => setLayout('columns2') },
+            { text: t('sessionDashboard.columns3'), onPress: () => setLayout('columns3') },
+            { text: t('sessionDashboard.grid4'), onPress: () => setLayout('grid4') },
+            { text: t('common.cancel'), style: 'cancel' },
+        ]);
+    };
+
+    let offset = 0;
+    return (
+        <>
+            <Stack.Screen
+                options={{
+                    headerRight: () => (
+                        <Pressable onPress={handleChooseLayout} hitSlop={10}>
+                            <Ionicons name="grid-outline" size={22} color={theme.colors.header.tint} />
+                        </Pressable>
+                    ),
+                }}
+            />
+            <View style={styles.container}>
+                {rows.map((count, rowIndex) => {
+                    const rowStart = offset;
+                    offset += count;
+                    return (
+                        <View key={rowIndex} style={styles.row}>
+                            {panes.slice(rowStart, rowStart + count).map((sessionId, i) => {
+                                const index = rowStart + i;
+                                return (
+                                    <View key={index} style={styles.pane}>
+                                        {sessionId ? (
+                                            <SessionPaneView
+                                                id={sessionId}
+                                                onExpand={() => navigateToSession(sessionId)}
+                                                onClose={() => setPane(index, null)}
+                                            />
+                                        ) : (
+                                            <SessionPicker
+                                                exclude={panes}
+                                                onPick={(id) => setPane(index, id)}
+                                            />
+                                        )}
+                                    </View>
+                                );
+                            })}
+                        </View>
+                    );
+                })}
+            </View>
+        </>
+    );
+}
+
+function SessionPicker(props: { exclude: (string | null)[], onPick: (sessionId: string) => void }) {
+    const allSessions = useAllSessions();
+    const sessions = React.useMemo(() => allSessions
+        .filter((session) => !props.exclude.includes(session.id))
+        .sort((a, b) => Number(b.active) - Number(a.active))
+        .slice(0, 20), [allSessions, props.exclude]);
+
+    return (
+        <ItemList>
+            <ItemGroup title={t('sessionDashboard.pickSession')} footer={sessions.length === 0 ? t('sessionDashboard.noSessions') : undefined}>
+                {sessions.map((session) => (
+                    <Item
+                        key={session.id}
+                        title={getSessionName(session)}
+                        subtitle={getSessionSubtitle(session)}
+                        icon={<Avatar id={getSessionAvatarId(session)} size={29} monochrome={!session.active} flavor={session.metadata?.flavor} />}
+                        onPress={() => props.onPick(session.id)}
+                    />
+                ))}
+            </ItemGroup>
+        </ItemList>
+    );
+}
+
+const styles = StyleSheet.create((theme) => ({
+    container: {
+        flex: 1,
+        gap: 1,
+        backgroundColor: theme.colors.divider,
+    },
+    row: {
+        flex: 1,
+        flexDirection: 'row',
+        gap: 1,
+    },
+    pane: {
+        flex: 1,
+        overflow: 'hidden',
+        backgroundColor: theme.colors.surface,
+    },
+}));
@@ -0,0 +1,124 @@
+import React from 'react';
+import { View, TextInput, Text } from 'react-native';
+import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { StyleSheet, useUnistyles } from 'react-native-unistyles';
+import { ItemList } from '@/components/ItemList';
+import { ItemGroup } from '@/components/ItemGroup';
+import { Item } from '@/components/Item';
+import { storage } from '@/sync/storage';
+import { sync } from '@/sync/sync';
+import { searchIndex, SearchHit } from '@/sync/searchIndex';
+import { getSessionName, formatLastSeen } from '@/utils/sessionUtils';
+import { t } from '@/text';
+
+const hitIcons: Record<SearchHit['kind'], React.ComponentProps<typeof Ionicons>['name']> = {
+    user: 'person-outline',
+    agent: 'sparkles-outline',
+    tool: 'construct-outline',
+};
+
+export default function SessionSearchScreen() {
+    const router = useRouter();
+    const { theme } = useUnistyles();
+    const [query, setQuery] = React.useState('');
+    const sessions = storage((state) => state.sessions);
+
+    // Pull cached history of sessions that were not opened yet into the index
+    React.useEffect(() => {
+        sync.indexCachedSessions();
+    }, []);
+
+    const results = React.useMemo(() => searchIndex.search(query), [query]);
+
+    const openHit = React.useCallback((hit: SearchHit) => {
+        router.push({
+            pathname: '/session/[id]',
+            params: { id: hit.sessionId, message: hit.messageId, at: String(hit.createdAt) }
+        });
+    }, [router]);
+
+    const hasQuery = query.trim().length > 0;
+
+    return (
+        <ItemList keyboardShouldPersistTaps="handled">
+            <View style={styles.searchContainer}>
+                <Ionicons name="search-outline" size={18} color={theme.colors.textSecondary} style={styles.searchIcon} />
+                <TextInput
+                    style={styles.searchInput}
+                    placeholder={t('sessionSearch.placeholder')}
+                    placeholderTextColor={theme.colors.textSecondary}
+                    value={query}
+                    onChangeText={setQuery}
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                    autoFocus={true}
+                    returnKeyType="search"
+                    clearButtonMode="while-editing"
+                />
+            </View>
+
+            {hasQuery && results.length === 0 && (
+                <Text style={styles.emptyText}>{t('sessionSearch.noResults')}</Text>
+            )}
+            {!hasQuery && (
+                <Text style={styles.emptyText}>{t('sessionSearch.hint')}</Text>
+            )}
+
+            {results.map((result) => {
+                const session = sessions[result.sessionId];
+                if (!session) {
+                    return null;
+                }
+                return (
+                    <ItemGroup
+                        key={result.sessionId}
+                        title={getSessionName(session)}
+                        footer={t('sessionSearch.matches', { count: result.hits.length })}
+                    >
+                        {result.hits.map((hit) => (
+                            <Item
+                                key={`${hit.messageId}-${hit.kind}`}
+                                title={hit.snippet}
+                                subtitle={formatLastSeen(hit.createdAt)}
+                                subtitleLines={1}
+                                icon={<Ionicons name={hitIcons[hit.kind]} size={22} color={theme.colors.textSecondary} />}
+                                onPress={() => openHit(hit)}
+                            />
+                        ))}
+                    </ItemGroup>
+                );
+            })}
+        </ItemList>
+    );
+}
+
+const styles = StyleSheet.create((theme) => ({
+    searchContainer: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        marginHorizontal: 16,
+        marginTop: 16,
+        paddingHorizontal: 12,
+        backgroundColor: theme.colors.surface,
+        borderRadius: 12,
+        borderWidth: 1,
+        borderColor: theme.colors.divider,
+    },
+    searchIcon: {
+        marginRight: 8,
+    },
+    searchInput: {
+        flex: 1,
+        paddingVertical: 12,
+        fontSize: 16,
+        color: theme.colors.text,
+    },
+    emptyText: {
+        marginTop: 32,
+        paddingHorizontal: 32,
+        textAlign: 'center',
+        fontSize: 15,
+        color: theme.colors.textSecondary,
+    },
+}));
@@ -0,0 +1,23 @@
+import React from 'react';
+import { useLocalSearchParams } from 'expo-router';
+import { PermissionAuditView } from '@/components/PermissionAuditView';
+import { useAllSessions } from '@/sync/storage';
+
+export default function PermissionAuditScreen() {
+    const params = useLocalSearchParams<{ machineId?: string, path?: string }>();
+    const allSessions = useAllSessions();
+
+    // Sessions of a single project, or all sessions when opened without a project
+    const sessions = React.useMemo(() => {
+        if (!params.machineId || !params.path) {
+            return allSessions;
+        }
+        return allSessions.filter((s) => s.metadata?.machineId === params.machineId && s.metadata?.path === params.path);
+    }, [allSessions, params.machineId, params.path]);
+
+    const exportName = params.path
+        ? `permissions-${params.path.split('/').filter(Boolean).pop() ?? 'project'}`
+        : 'permissions';
+
+    return <PermissionAuditView sessions={sessions} exportName={exportName} showSessions={true} />;
+}
@@ -0,0 +1,309 @@
+import React from 'react';
+import { View, TextInput } from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { StyleSheet, useUnistyles } from 'react-native-unistyles';
+import { randomUUID } from 'expo-crypto';
+import { Item } from '@/components/Item';
+import { ItemGroup } from '@/components/ItemGroup';
+import { ItemList } from '@/components/ItemList';
+import { Switch } from '@/components/Switch';
+import { useAllMachines, usePermissionRuleAudit, useProjects, useSettingMutable } from '@/sync/storage';
+import { PermissionRule } from '@/sync/permissionRules';
+import { formatLastSeen } from '@/utils/sessionUtils';
+import { Modal } from '@/modal';
+import { t } from '@/text';
+
+type Matcher = PermissionRule['matcher'];
+
+const matchers: { matcher: Matcher, icon: React.ComponentProps<typeof Ionicons>['name'] }[] = [
+    { matcher: 'any', icon: 'apps-outline' },
+    { matcher: 'pathGlob', icon: 'document-text-outline' },
+    { matcher: 'commandPrefix', icon: 'terminal-outline' },
+];
+
+function matcherTitle(matcher: Matcher): string {
+    switch (matcher) {
+        case 'any':
+            return t('permissionRules.matchAny');
+        case 'pathGlob':
+            return t('permissionRules.matchPathGlob');
+        case 'commandPrefix':
+            return t('permissionRules.matchCommandPrefix');
+    }
+}
+
+function projectId(machineId: string, path: string): string {
+    return `${machineId}:${path}`;
+}
+
+export default function PermissionRulesScreen() {
+    const params = useLocalSearchParams<{ machineId?: string, path?: string }>();
+    if (params.machineId && params.path) {
+        return <ProjectRules machineId={params.machineId} path={params.path} />;
+    }
+    return <ProjectsOverview />;
+}
+
+function useMachineName() {
+    const machines = useAllMachines();
+    return React.useCallback((machineId: string) => {
+        const machine = machines.find((m) => m.id === machineId);
+        return machine?.metadata?.displayName || machine?.metadata?.host || machineId;
+    }, [machines]);
+}
+
+/**
+ * All projects that have rules or sessions, opens the rules of a single project
+ */
+function ProjectsOverview() {
+    const router = useRouter();
+    const projects = useProjects();
+    const [rules] = useSettingMutable('permissionRules');
+    const machineName = useMachineName();
+
+    const keys = React.useMemo(() => {
+        const result = new Map<string, { machineId: string, path: string }>();
+        for (const rule of rules) {
+            result.set(projectId(rule.machineId, rule.path), { machineId: rule.machineId, path: rule.path });
+        }
+        for (const project of projects) {
+            result.set(projectId(project.key.machineId, project.key.path), project.key);
+        }
+        return Array.from(result.values());
+    }, [rules, projects]);
+
+    return (
+        <ItemList style={{ paddingTop: 0 }}>
+            <ItemGroup
+                title={t('permissionRules.projects')}
+                footer={t('permissionRules.projectsFooter')}
+            >
+                {keys.length === 0 && (
+                    <Item title={t('permissionRules.noProjects')} showChevron={false} />
+                )}
+                {keys.map((key) => {
+                    const count = rules.filter((r) => r.machineId === key.machineId && r.path === key.path).length;
+                    return (
+                        <Item
+                            key={projectId(key.machineId, key.path)}
+                            title={key.path}
+                            subtitle={machineName(key.machineId)}
+                            detail={count > 0 ? t('permissionRules.rulesCount', { count }) : undefined}
+                            icon={<Ionicons name="folder-outline" size={29} color="#007AFF" />}
+                            onPress={() => router.push({
+                                pathname: '/settings/permission-rules',
+                                params: { machineId: key.machineId, path: key.path }
+                            })}
+                        />
+                    );
+                })}
+            </ItemGroup>
+
+            <ItemGroup>
+                <Item
+                    title={t('permissionAudit.title')}
+                    subtitle={t('permissionAudit.allSubtitle')}
+                    icon={<Ionicons name="list-outline" size={29} color="#5856D6" />}
+                    onPress={() => router.push('/settings/permission-audit')}
+                />
+            </ItemGroup>
+        </ItemList>
+    );
+}
+
+/**
+ * Rules of a single project with a form for adding new ones
+ */
+function ProjectRules(props: { machineId: string, path: string }) {
+    const router = useRouter();
+    const { theme } = useUnistyles();
+    const [rules, setRules] = useSettingMutable('permissionRules');
+    const audit = usePermissionRuleAudit();
+    const machineName = useMachineName();
+
+    const [tool, setTool] = React.useState('');
+    const [matcher, setMatcher] = React.useState<Matcher>('any');
+    const [pattern, setPattern] = React.useState('');
+    const [action, setAction] = React.useState<PermissionRule['action']>('allow');
+
+    const projectRules = React.useMemo(
+        () => rules.filter((r) => r.machineId === props.machineId && r.path === props.path),
+        [rules, props.machineId, props.path]
+    );
+    const projectAudit = React.useMemo(() => {
+        const ruleIds = new Set(projectRules.map((r) => r.id));
+        return audit.filter((entry) => ruleIds.has(entry.ruleId)).slice(0, 20);
+    }, [audit, projectRules]);
+
+    const updateRule = (id: string, changes: Partial<PermissionRule>) => {
+        setRules(rules.map((r) => r.id === id ? { ...r, ...changes } : r));
+    };
+
+    const deleteRule = async (rule: PermissionRule) => {
+        const confirmed = await Modal.confirm(
+            t('permissionRules.deleteRule'),
+            t('permissionRules.deleteRuleConfirm'),
+            { confirmText: t('permissionRules.delete'), destructive: true }
+        );
+        if (confirmed) {
+            setRules(rules.filter((r) => r.id !== rule.id));
+        }
+    };
+
+    const addRule = () => {
+        const toolName = tool.trim();
+        const value = pattern.trim();
+        if (!toolName) {
+            Modal.alert(t('common.error'), t('permissionRules.toolRequired'));
+            return;
+        }
+        if (matcher !== 'any' && !value) {
+            Modal.alert(t('common.error'), t('permissionRules.patternRequired'));
+            return;
+        }
+        setRules([...rules, {
+            id: randomUUID(),
+            machineId: props.machineId,
+            path: props.path,
+            tool: toolName,
+            matcher,
+            pattern: matcher === 'any' ? null : value,
+            action,
+            enabled: true,
+            createdAt: Date.now()
+        }]);
+        setTool('');
+        setPattern('');
+    };
+
+    return (
+        <ItemList style={{ paddingTop: 0 }} keyboardShouldPersistTaps="handled">
+            <ItemGroup
+                title={t('permissionRules.rules')}
+                footer={t('permissionRules.rulesFooter', { path: props.path, machine: machineName(props.machineId) })}
+            >
+                {projectRules.length === 0 && (
+                    <Item title={t('permissionRules.noRules')} showChevron={false} />
+                )}
+                {projectRules.map((rule) => (
+                    <Item
+                        key={rule.id}
+                        title={`${rule.action === 'allow' ? t('permissionRules.allow') : t('permissionRules.deny')} ${rule.tool}`}
+                        subtitle={rule.pattern ? `${matcherTitle(rule.matcher)}: ${rule.pattern}` : matcherTitle(rule.matcher)}
+                        icon={<Ionicons
+                            name={rule.action === 'allow' ? 'checkmark-circle-outline' : 'close-circle-outline'}
+                            size={29}
+                            color={rule.action === 'allow' ? '#34C759' : '#FF3B30'}
+                        />}
+                        rightElement={
+                            <Switch
+                                value={rule.enabled}
+                                onValueChange={(enabled) => updateRule(rule.id, { enabled })}
+                            />
+                        }
+                        onPress={() => deleteRule(rule)}
+                        showChevron={false}
+                    />
+                ))}
+            </ItemGroup>
+
+            <ItemGroup title={t('permissionRules.addRule')}>
+                <View style={styles.inputContainer}>
+                    <TextInput
+                        style={styles.input}
+                        placeholder={t('permissionRules.toolPlaceholder')}
+                        placeholderTextColor={theme.colors.textSecondary}
+                        value={tool}
+                        onChangeText={setTool}
+                        autoCapitalize="none"
+                        autoCorrect={false}
+                    />
+                </View>
+                {matchers.map((item) => (
+                    <Item
+                        key={item.matcher}
+                        title={matcherTitle(item.matcher)}
+                        icon={<Ionicons name={item.icon} size={29} color="#007AFF" />}
+                        rightElement={matcher === item.matcher ? <Ionicons name="checkmark" size={20} color="#007AFF" /> : null}
+                        onPress={() => setMatcher(item.matcher)}
+                        showChevron={false}
+                    />
+                ))}
+                {matcher !== 'any' && (
+                    <View style={styles.inputContainer}>
+                        <TextInput
+                            style={styles.input}
+                            placeholder={matcher === 'pathGlob' ? t('permissionRules.pathGlobPlaceholder') : t('permissionRules.commandPrefixPlaceholder')}
+                            placeholderTextColor={theme.colors.textSecondary}
+                            value={pattern}
+                            onChangeText={setPattern}
+                            autoCapitalize="none"
+                            autoCorrect={false}
+                        />
+                    </View>
+                )}
+                <Item
+                    title={t('permissionRules.allow')}
+                    icon={<Ionicons name="checkmark-circle-outline" size={29} color="#34C759" />}
+                    rightElement={action === 'allow' ? <Ionicons name="checkmark" size={20} color="#007AFF" /> : null}
+                    onPress={() => setAction('allow')}
+                    showChevron={false}
+                />
+                <Item
+                    title={t('permissionRules.deny')}
+                    icon={<Ionicons name="close-circle-outline" size={29} color="#FF3B30" />}
+                    rightElement={action === 'deny' ? <Ionicons name="checkmark" size={20} color="#007AFF" /> : null}
+                    onPress={() => setAction('deny')}
+                    showChevron={false}
+                />
+                <Item
+                    title={t('permissionRules.addRule')}
+                    icon={<Ionicons name="add-circle-outline" size={29} color="#007AFF" />}
+                    onPress={addRule}
+                    showChevron={false}
+                />
+            </ItemGroup>
+
+            <ItemGroup>
+                <Item
+                    title={t('permissionAudit.title')}
+                    subtitle={t('permissionAudit.projectSubtitle')}
+                    icon={<Ionicons name="list-outline" size={29} color="#5856D6" />}
+                    onPress={() => router.push({
+                        pathname: '/settings/permission-audit',
+                        params: { machineId: props.machineId, path: props.path }
+                    })}
+                />
+            </ItemGroup>
+
+            {projectAudit.length > 0 && (
+                <ItemGroup title={t('permissionRules.recentDecisions')}>
+                    {projectAudit.map((entry) => (
+                        <Item
+                            key={`${entry.sessionId}-${entry.id}`}
+                            title={`${entry.action === 'allow' ? t('permissionRules.allowed') : t('permissionRules.denied')} ${entry.tool}`}
+                            subtitle={formatLastSeen(entry.createdAt)}
+                            showChevron={false}
+                        />
+                    ))}
+                </ItemGroup>
+            )}
+        </ItemList>
+    );
+}
+
+const styles = StyleSheet.create((theme) => ({
+    inputContainer: {
+        paddingHorizontal: 16,
+        paddingVertical: 8,
+    },
+    input: {
+        paddingVertical: 10,
+        paddingHorizontal: 12,
+        fontSize: 16,
+        color: theme.colors.text,
+        backgroundColor: theme.colors.surfaceHighest,
+        borderRadius: 8,
+    },
+}));
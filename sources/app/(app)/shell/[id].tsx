@@ -0,0 +1,375 @@
+import * as React from 'react';
+import { View, ScrollView, TextInput, Pressable, Platform, ActivityIndicator } from 'react-native';
+import { useLocalSearchParams, Stack } from 'expo-router';
+import { KeyboardAvoidingView } from 'react-native-keyboard-controller';
+import { Ionicons, Octicons } from '@expo/vector-icons';
+import { useUnistyles, StyleSheet } from 'react-native-unistyles';
+import { Text } from '@/components/StyledText';
+import { AnsiText } from '@/components/AnsiText';
+import { Typography } from '@/constants/Typography';
+import { storage, useMachine, useTerminalTab, useTerminalTabs } from '@/sync/storage';
+import { TerminalEntry, TerminalTab } from '@/sync/storageTypes';
+import { terminalManager } from '@/sync/terminal';
+import { formatPathRelativeToHome } from '@/utils/sessionUtils';
+import { layout } from '@/components/layout';
+import { t } from '@/text';
+
+export default function RemoteTerminalScreen() {
+    const { theme } = useUnistyles();
+    const params = useLocalSearchParams<{ id: string, path?: string, session?: string }>();
+    const machineId = params.id;
+    const machine = useMachine(machineId);
+    const homeDir = machine?.metadata?.homeDir;
+    const tabs = useTerminalTabs(machineId);
+    const [selectedTabId, setSelectedTabId] = React.useState<string | null>(null);
+    const tab = useTerminalTab(selectedTabId);
+
+    // Reuse the tab opened for the same directory and session, or open a new one
+    React.useEffect(() => {
+        const cwd = params.path || homeDir;
+        if (!cwd) {
+            return;
+        }
+        const sessionId = params.session || null;
+        const existing = Object.values(storage.getState().terminalTabs)
+            .find((item) => item.machineId === machineId && item.sessionId === sessionId && item.cwd === cwd);
+        setSelectedTabId(existing ? existing.id : terminalManager.openTab(machineId, cwd, sessionId));
+    }, [machineId, params.path, params.session, homeDir]);
+
+    const handleNewTab = React.useCallback(() => {
+        const cwd = tab?.cwd || params.path || homeDir;
+        if (cwd) {
+            setSelectedTabId(terminalManager.openTab(machineId, cwd, tab?.sessionId ?? params.session ?? null));
+        }
+    }, [machineId, tab, params.path, params.session, homeDir]);
+
+    const handleCloseTab = React.useCallback((tabId: string) => {
+        const index = tabs.findIndex((item) => item.id === tabId);
+        terminalManager.closeTab(tabId);
+        if (tabId === selectedTabId) {
+            const next = tabs[index + 1] ?? tabs[index - 1] ?? null;
+            setSelectedTabId(next ? next.id : null);
+        }
+    }, [tabs, selectedTabId]);
+
+    return (
+        <View style={[styles.container, { backgroundColor: theme.colors.surface }]}>
+            <Stack.Screen
+                options={{
+                    headerRight: () => (
+                        <Pressable onPress={handleNewTab} hitSlop={10}>
+                            <Ionicons name="add" size={26} color={theme.colors.header.tint} />
+                        </Pressable>
+                    ),
+                }}
+            />
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.tabBar} contentContainerStyle={styles.tabBarContent}>
+                {tabs.map((item, index) => (
+                    <TerminalTabChip
+                        key={item.id}
+                        tab={item}
+                        index={index}
+                        selected={item.id === selectedTabId}
+                        onPress={() => setSelectedTabId(item.id)}
+                        onClose={() => handleCloseTab(item.id)}
+                    />
+                ))}
+            </ScrollView>
+            {tab ? (
+                <TerminalTabView key={tab.id} tab={tab} homeDir={homeDir} />
+            ) : (
+                <View style={styles.centered}>
+                    <Text style={styles.emptyText}>{t('remoteTerminal.noTabs')}</Text>
+                </View>
+            )}
+        </View>
+    );
+}
+
+function TerminalTabChip(props: { tab: TerminalTab, index: number, selected: boolean, onPress: () => void, onClose: () => void }) {
+    const { theme } = useUnistyles();
+    const name = props.tab.cwd.split('/').filter(Boolean).pop() || '/';
+    const isRunning = props.tab.entries.some((entry) => entry.status === 'running');
+    return (
+        <Pressable
+            onPress={props.onPress}
+            style={[styles.tabChip, props.selected && { backgroundColor: theme.colors.input.background }]}
+        >
+            {isRunning && <View style={[styles.runningDot, { backgroundColor: theme.colors.success }]} />}
+            <Text style={[styles.tabChipText, { color: props.selected ? theme.colors.text : theme.colors.textSecondary }]} numberOfLines={1}>
+                {`${props.index + 1}: ${name}`}
+            </Text>
+            <Pressable onPress={props.onClose} hitSlop={8}>
+                <Ionicons name="close" size={14} color={theme.colors.textSecondary} />
+            </Pressable>
+        </Pressable>
+    );
+}
+
+function TerminalTabView(props: { tab: TerminalTab, homeDir?: string }) {
+    const { tab } = props;
+    const { theme } = useUnistyles();
+    const [command, setCommand] = React.useState('');
+    // Position while stepping through the history, -1 when editing a new command
+    const [historyIndex, setHistoryIndex] = React.useState(-1);
+    const scrollRef = React.useRef<ScrollView>(null);
+    const isAtBottom = React.useRef(true);
+    const isRunning = tab.entries.some((entry) => entry.status === 'running');
+    const prompt = formatPathRelativeToHome(tab.cwd, props.homeDir);
+
+    const handleRun = React.useCallback(() => {
+        const value = command.trim();
+        if (!value || isRunning) {
+            return;
+        }
+        if (value === 'clear') {
+            terminalManager.clear(tab.id);
+        } else {
+            terminalManager.run(tab.id, value);
+        }
+        setCommand('');
+        setHistoryIndex(-1);
+        isAtBottom.current = true;
+    }, [command, isRunning, tab.id]);
+
+    const stepHistory = React.useCallback((direction: 1 | -1) => {
+        const history = terminalManager.getHistory(tab.machineId);
+        const next = Math.max(-1, Math.min(history.length - 1, historyIndex + direction));
+        setHistoryIndex(next);
+        setCommand(next === -1 ? '' : history[next]);
+    }, [tab.machineId, historyIndex]);
+
+    return (
+        <KeyboardAvoidingView style={{ flex: 1 }} behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+            <ScrollView
+                ref={scrollRef}
+                style={[styles.output, { backgroundColor: theme.colors.surfaceHigh }]}
+                contentContainerStyle={styles.outputContent}
+                onScroll={(e) => {
+                    const { contentOffset, contentSize, layoutMeasurement } = e.nativeEvent;
+                    isAtBottom.current = contentOffset.y + layoutMeasurement.height >= contentSize.height - 40;
+                }}
+                scrollEventThrottle={100}
+                onContentSizeChange={() => {
+                    // Follow new output unless scrolled up to read earlier output
+                    if (isAtBottom.current) {
+                        scrollRef.current?.scrollToEnd({ animated: false });
+                    }
+                }}
+            >
+                {tab.entries.length === 0 && (
+                    <Text style={styles.hint}>{t('remoteTerminal.hint')}</Text>
+                )}
+                {tab.entries.map((entry) => (
+                    <TerminalEntryView key={entry.id} entry={entry} homeDir={props.homeDir} />
+                ))}
+            </ScrollView>
+            <View style={styles.inputBar}>
+                <Text style={styles.prompt} numberOfLines={1}>{prompt} $</Text>
+                <View style={styles.inputRow}>
+                    <TextInput
+                        value={command}
+                        onChangeText={(value) => {
+                            setCommand(value);
+                            setHistoryIndex(-1);
+                        }}
+                        onSubmitEditing={handleRun}
+                        onKeyPress={Platform.OS === 'web' ? (e) => {
+                            const key = e.nativeEvent.key;
+                            if (key === 'ArrowUp' || key === 'ArrowDown') {
+                                e.preventDefault();
+                                stepHistory(key === 'ArrowUp' ? 1 : -1);
+                            }
+                        } : undefined}
+                        placeholder={isRunning ? t('remoteTerminal.running') : t('remoteTerminal.placeholder')}
+                        placeholderTextColor={theme.colors.input.placeholder}
+                        style={styles.input}
+                        autoCapitalize="none"
+                        autoCorrect={false}
+                        spellCheck={false}
+                        returnKeyType="send"
+                        blurOnSubmit={false}
+                        editable={!isRunning}
+                    />
+                    <ToolButton icon="chevron-up" onPress={() => stepHistory(1)} />
+                    <ToolButton icon="chevron-down" onPress={() => stepHistory(-1)} />
+                    {isRunning ? (
+                        <Pressable onPress={() => terminalManager.interrupt(tab.id)} style={[styles.actionButton, { backgroundColor: theme.colors.warning }]}>
+                            <Text style={styles.actionButtonText}>^C</Text>
+                        </Pressable>
+                    ) : (
+                        <Pressable onPress={handleRun} disabled={!command.trim()} style={[styles.actionButton, { backgroundColor: theme.colors.textLink, opacity: command.trim() ? 1 : 0.5 }]}>
+                            <Octicons name="arrow-right" size={16} color="white" />
+                        </Pressable>
+                    )}
+                </View>
+            </View>
+        </KeyboardAvoidingView>
+    );
+}
+
+function ToolButton(props: { icon: React.ComponentProps<typeof Octicons>['name'], onPress: () => void }) {
+    const { theme } = useUnistyles();
+    return (
+        <Pressable onPress={props.onPress} hitSlop={6} style={styles.toolButton}>
+            <Octicons name={props.icon} size={16} color={theme.colors.textSecondary} />
+        </Pressable>
+    );
+}
+
+const TerminalEntryView = React.memo((props: { entry: TerminalEntry, homeDir?: string }) => {
+    const { entry } = props;
+    const { theme } = useUnistyles();
+    return (
+        <View style={styles.entry}>
+            <Text style={styles.entryCommand} selectable>
+                <Text style={{ color: theme.colors.textSecondary }}>{formatPathRelativeToHome(entry.cwd, props.homeDir)} $ </Text>
+                {entry.command}
+            </Text>
+            {entry.output.length > 0 && (
+                <AnsiText text={entry.output.replace(/\n$/, '')} style={styles.entryOutput} selectable />
+            )}
+            {entry.status === 'running' && (
+                <ActivityIndicator size="small" color={theme.colors.textSecondary} style={{ alignSelf: 'flex-start', marginTop: 4 }} />
+            )}
+            {entry.status === 'interrupted' && (
+                <Text style={[styles.entryStatus, { color: theme.colors.warning }]}>{t('remoteTerminal.interrupted')}</Text>
+            )}
+            {entry.status === 'failed' && (
+                <Text style={[styles.entryStatus, { color: theme.colors.textDestructive }]}>{t('remoteTerminal.failed')}</Text>
+            )}
+            {entry.status === 'exited' && entry.exitCode !== 0 && entry.exitCode !== null && (
+                <Text style={[styles.entryStatus, { color: theme.colors.textDestructive }]}>{t('remoteTerminal.exitCode', { code: entry.exitCode })}</Text>
+            )}
+        </View>
+    );
+});
+
+const styles = StyleSheet.create((theme) => ({
+    container: {
+        flex: 1,
+    },
+    centered: {
+        flex: 1,
+        justifyContent: 'center',
+        alignItems: 'center',
+        padding: 32,
+    },
+    emptyText: {
+        fontSize: 15,
+        textAlign: 'center',
+        color: theme.colors.textSecondary,
+        ...Typography.default(),
+    },
+    tabBar: {
+        flexGrow: 0,
+        borderBottomWidth: Platform.select({ ios: 0.33, default: 1 }),
+        borderBottomColor: theme.colors.divider,
+    },
+    tabBarContent: {
+        paddingHorizontal: 8,
+        paddingVertical: 6,
+        gap: 4,
+    },
+    tabChip: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 6,
+        paddingHorizontal: 10,
+        paddingVertical: 6,
+        borderRadius: 8,
+        maxWidth: 200,
+    },
+    tabChipText: {
+        fontSize: 13,
+        flexShrink: 1,
+        ...Typography.mono(),
+    },
+    runningDot: {
+        width: 6,
+        height: 6,
+        borderRadius: 3,
+    },
+    output: {
+        flex: 1,
+    },
+    outputContent: {
+        padding: 12,
+        maxWidth: layout.maxWidth,
+        width: '100%',
+        alignSelf: 'center',
+    },
+    hint: {
+        fontSize: 13,
+        color: theme.colors.textSecondary,
+        ...Typography.default(),
+    },
+    entry: {
+        marginBottom: 12,
+    },
+    entryCommand: {
+        fontSize: 13,
+        lineHeight: 18,
+        fontWeight: '600',
+        color: theme.colors.text,
+        ...Typography.mono(),
+    },
+    entryOutput: {
+        fontSize: 12,
+        lineHeight: 17,
+        marginTop: 2,
+        color: theme.colors.text,
+        ...Typography.mono(),
+    },
+    entryStatus: {
+        fontSize: 12,
+        marginTop: 2,
+        ...Typography.mono(),
+    },
+    inputBar: {
+        paddingHorizontal: 12,
+        paddingTop: 8,
+        paddingBottom: Platform.select({ ios: 28, default: 12 }),
+        borderTopWidth: Platform.select({ ios: 0.33, default: 1 }),
+        borderTopColor: theme.colors.divider,
+        gap: 6,
+    },
+    prompt: {
+        fontSize: 12,
+        color: theme.colors.textSecondary,
+        ...Typography.mono(),
+    },
+    inputRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 4,
+    },
+    input: {
+        flex: 1,
+        fontSize: 15,
+        paddingHorizontal: 10,
+        paddingVertical: 8,
+        borderRadius: 8,
+        color: theme.colors.text,
+        backgroundColor: theme.colors.input.background,
+        ...Typography.mono(),
+    },
+    toolButton: {
+        paddingHorizontal: 6,
+        paddingVertical: 8,
+    },
+    actionButton: {
+        minWidth: 40,
+        height: 36,
+        borderRadius: 8,
+        justifyContent: 'center',
+        alignItems: 'center',
+        paddingHorizontal: 8,
+    },
+    actionButtonText: {
+        fontSize: 14,
+        fontWeight: '700',
+        color: 'white',
+        ...Typography.mono(),
+    },
+}));
@@ -0,0 +1,238 @@
+import React from 'react';
+import { ActivityIndicator, Pressable, Share, TextInput, View } from 'react-native';
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { StyleSheet, useUnistyles } from 'react-native-unistyles';
+import { Item } from '@/components/Item';
+import { ItemGroup } from '@/components/ItemGroup';
+import { ItemList } from '@/components/ItemList';
+import { Text } from '@/components/StyledText';
+import { Typography } from '@/constants/Typography';
+import { useAuth } from '@/auth/AuthContext';
+import { useAcceptedFriends, useProfile, usePromptTemplate } from '@/sync/storage';
+import { sync } from '@/sync/sync';
+import { getDisplayName as getFriendName, UserProfile } from '@/sync/friendTypes';
+import { encodeTemplateShare, extractTemplateVariables, PromptTemplate, templateCommand } from '@/sync/promptTemplates';
+import { createPromptTemplate, deletePromptTemplate, updatePromptTemplate } from '@/sync/promptTemplatesOps';
+import { getDisplayName } from '@/sync/profile';
+import { Modal } from '@/modal';
+import { t } from '@/text';
+
+/**
+ * Create or edit a prompt template, saved templates can be sent to friends or shared as a link
+ */
+export default function EditPromptTemplateScreen() {
+    const params = useLocalSearchParams<{ id?: string }>();
+    const router = useRouter();
+    const auth = useAuth();
+    const { theme } = useUnistyles();
+    const existing = usePromptTemplate(params.id ?? '');
+    const profile = useProfile();
+    const friends = useAcceptedFriends();
+    const [sendingTo, setSendingTo] = React.useState<string | null>(null);
+
+    const [name, setName] = React.useState(existing?.name ?? '');
+    const [description, setDescription] = React.useState(existing?.description ?? '');
+    const [body, setBody] = React.useState(existing?.body ?? '');
+    const [isSaving, setIsSaving] = React.useState(false);
+
+    const variables = React.useMemo(() => extractTemplateVariables(body), [body]);
+
+    const handleSave = React.useCallback(async () => {
+        if (!auth?.credentials || isSaving) {
+            return;
+        }
+        if (!templateCommand(name) || !body.trim()) {
+            Modal.alert(t('common.error'), t('promptTemplates.fieldsRequired'));
+            return;
+        }
+        setIsSaving(true);
+        try {
+            const fields = { name: name.trim(), description: description.trim(), body };
+            if (existing) {
+                await updatePromptTemplate(auth.credentials, existing.id, fields);
+            } else {
+                await createPromptTemplate(auth.credentials, { ...fields, sharedBy: null, sharedByUserId: null });
+            }
+            router.back();
+        } catch (error) {
+            Modal.alert(t('common.error'), error instanceof Error ? error.message : String(error));
+            setIsSaving(false);
+        }
+    }, [auth, isSaving, name, description, body, existing, router]);
+
+    const handleShare = React.useCallback(async (template: PromptTemplate) => {
+        const link = encodeTemplateShare(template, getDisplayName(profile));
+        try {
+            await Share.share({ message: t('promptTemplates.shareMessage', { template: template.name, link }) });
+        } catch (error) {
+            Modal.alert(t('common.error'), error instanceof Error ? error.message : String(error));
+        }
+    }, [profile]);
+
+    const handleSendToFriend = React.useCallback(async (template: PromptTemplate, friend: UserProfile) => {
+        setSendingTo(friend.id);
+        try {
+            const result = await sync.shareTemplateWith(template, friend);
+            if (result.type === 'friendNeedsUpdate') {
+                Modal.alert(t('common.error'), t('promptTemplates.friendNeedsUpdate', { name: getFriendName(friend) }));
+            } else {
+                Modal.alert(t('promptTemplates.sent'), t('promptTemplates.sentTo', { name: getFriendName(friend), template: template.name }));
+            }
+        } catch (error) {
+            Modal.alert(t('common.error'), error instanceof Error ? error.message : String(error));
+        } finally {
+            setSendingTo(null);
+        }
+    }, []);
+
+    const handleDelete = React.useCallback(async () => {
+        if (!auth?.credentials || !existing) {
+            return;
+        }
+        const confirmed = await Modal.confirm(
+            t('promptTemplates.delete'),
+            t('promptTemplates.deleteConfirm', { name: existing.name }),
+            { confirmText: t('promptTemplates.delete'), destructive: true }
+        );
+        if (!confirmed) {
+            return;
+        }
+        try {
+            await deletePromptTemplate(auth.credentials, existing.id);
+            router.back();
+        } catch (error) {
+            Modal.alert(t('common.error'), error instanceof Error ? error.message : String(error));
+        }
+    }, [auth, existing, router]);
+
+    return (
+        <>
+            <Stack.Screen
+                options={{
+                    headerTitle: existing ? t('promptTemplates.edit') : t('promptTemplates.new'),
+                    headerRight: () => (
+                        <Pressable onPress={handleSave} disabled={isSaving} hitSlop={10}>
+                            {isSaving
+                                ? <ActivityIndicator size="small" color={theme.colors.header.tint} />
+                                : <Text style={styles.headerButton}>{t('common.save')}</Text>}
+                        </Pressable>
+                    )
+                }}
+            />
+            <ItemList style={{ paddingTop: 0 }} keyboardShouldPersistTaps="handled">
+                <ItemGroup
+                    title={t('promptTemplates.template')}
+                    footer={templateCommand(name) ? t('promptTemplates.commandFooter', { command: templateCommand(name) }) : undefined}
+                >
+                    <View style={styles.inputContainer}>
+                        <TextInput
+                            style={styles.input}
+                            placeholder={t('promptTemplates.namePlaceholder')}
+                            placeholderTextColor={theme.colors.textSecondary}
+                            value={name}
+                            onChangeText={setName}
+                        />
+                    </View>
+                    <View style={styles.inputContainer}>
+                        <TextInput
+                            style={styles.input}
+                            placeholder={t('promptTemplates.descriptionPlaceholder')}
+                            placeholderTextColor={theme.colors.textSecondary}
+                            value={description}
+                            onChangeText={setDescription}
+                        />
+                    </View>
+                </ItemGroup>
+
+                <ItemGroup
+                    title={t('promptTemplates.body')}
+                    footer={variables.length > 0
+                        ? t('promptTemplates.variablesFooter', { variables: variables.join(', ') })
+                        : t('promptTemplates.noVariablesFooter')}
+                >
+                    <View style={styles.inputContainer}>
+                        <TextInput
+                            style={[styles.input, styles.bodyInput]}
+                            placeholder={t('promptTemplates.bodyPlaceholder')}
+                            placeholderTextColor={theme.colors.textSecondary}
+                            value={body}
+                            onChangeText={setBody}
+                            autoCapitalize="none"
+                            multiline
+                        />
+                    </View>
+                </ItemGroup>
+
+                {existing && (
+                    <ItemGroup title={t('promptTemplates.share')} footer={t('promptTemplates.shareFooter')}>
+                        <Item
+                            title={t('promptTemplates.shareLink')}
+                            icon={<Ionicons name="share-outline" size={29} color="#007AFF" />}
+                            onPress={() => handleShare(existing)}
+                            showChevron={false}
+                        />
+                    </ItemGroup>
+                )}
+
+                {existing && friends.length > 0 && (
+                    <ItemGroup title={t('promptTemplates.sendToFriends')} footer={t('promptTemplates.sendToFriendsFooter')}>
+                        {friends.map((friend) => (
+                            <Item
+                                key={friend.id}
+                                title={getFriendName(friend)}
+                                subtitle={`@${friend.username}`}
+                                icon={sendingTo === friend.id
+                                    ? <ActivityIndicator size="small" />
+                                    : <Ionicons name="person-circle-outline" size={29} color="#5856D6" />}
+                                onPress={() => handleSendToFriend(existing, friend)}
+                                disabled={sendingTo !== null}
+                                showChevron={false}
+                            />
+                        ))}
+                    </ItemGroup>
+                )}
+
+                {existing && (
+                    <ItemGroup footer={existing.sharedBy
+                        ? (existing.sharedByUserId ? t('promptTemplates.sharedBy', { name: existing.sharedBy }) : t('promptTemplates.linkFrom', { name: existing.sharedBy }))
+                        : undefined}>
+                        <Item
+                            title={t('promptTemplates.delete')}
+                            icon={<Ionicons name="trash-outline" size={29} color="#FF3B30" />}
+                            destructive
+                            onPress={handleDelete}
+                            showChevron={false}
+                        />
+                    </ItemGroup>
+                )}
+            </ItemList>
+        </>
+    );
+}
+
+const styles = StyleSheet.create((theme) => ({
+    headerButton: {
+        fontSize: 17,
+        color: theme.colors.header.tint,
+        ...Typography.default('semiBold'),
+    },
+    inputContainer: {
+        paddingHorizontal: 16,
+        paddingVertical: 8,
+    },
+    input: {
+        paddingVertical: 10,
+        paddingHorizontal: 12,
+        fontSize: 16,
+        color: theme.colors.text,
+        backgroundColor: theme.colors.surfaceHighest,
+        borderRadius: 8,
+    },
+    bodyInput: {
+        minHeight: 200,
+        textAlignVertical: 'top',
+        fontSize: 14,
+        ...Typography.mono(),
+    },
+}));
@@ -0,0 +1,143 @@
+import React from 'react';
+import { ActivityIndicator, View } from 'react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { StyleSheet } from 'react-native-unistyles';
+import { Item } from '@/components/Item';
+import { ItemGroup } from '@/components/ItemGroup';
+import { ItemList } from '@/components/ItemList';
+import { Text } from '@/components/StyledText';
+import { Typography } from '@/constants/Typography';
+import { useAuth } from '@/auth/AuthContext';
+import { useFeedItems, useUser } from '@/sync/storage';
+import { sync } from '@/sync/sync';
+import { decodeTemplateShare, extractTemplateVariables, SharedTemplate } from '@/sync/promptTemplates';
+import { createPromptTemplate } from '@/sync/promptTemplatesOps';
+import { getDisplayName } from '@/sync/friendTypes';
+import { Modal } from '@/modal';
+import { t } from '@/text';
+
+/**
+ * Preview of a shared template, either a link that was opened or pasted into the library,
+ * or a template a friend sent, opened from the feed
+ */
+export default function ImportPromptTemplateScreen() {
+    const params = useLocalSearchParams<{ data?: string, feed?: string }>();
+    const router = useRouter();
+    const auth = useAuth();
+    const feedItems = useFeedItems();
+    const feedBody = feedItems.find((item) => item.id === params.feed)?.body;
+    const friendShare = feedBody?.kind === 'template_shared' ? feedBody : null;
+    const friend = useUser(friendShare?.uid);
+    const linkShared = React.useMemo(() => params.data ? decodeTemplateShare(params.data) : null, [params.data]);
+    const [friendShared, setFriendShared] = React.useState<SharedTemplate | null>(null);
+    const [isOpening, setIsOpening] = React.useState(!!friendShare);
+    const [isSaving, setIsSaving] = React.useState(false);
+
+    React.useEffect(() => {
+        if (!friendShare) {
+            return;
+        }
+        let cancelled = false;
+        sync.openSharedTemplate(friendShare.template).then((template) => {
+            if (!cancelled) {
+                setFriendShared(template);
+                setIsOpening(false);
+            }
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [friendShare?.template]);
+
+    const shared = friendShare ? friendShared : linkShared;
+    // The feed item names its sender, the name in a link is whatever its creator typed
+    const senderName = friendShare ? (friend ? getDisplayName(friend) : null) : shared?.from ?? null;
+
+    const handleSave = React.useCallback(async () => {
+        if (!auth?.credentials || !shared) {
+            return;
+        }
+        setIsSaving(true);
+        try {
+            await createPromptTemplate(auth.credentials, {
+                name: shared.name,
+                description: shared.description,
+                body: shared.body,
+                sharedBy: senderName,
+                sharedByUserId: friendShare?.uid ?? null
+            });
+            router.replace('/templates');
+        } catch (error) {
+            Modal.alert(t('common.error'), error instanceof Error ? error.message : String(error));
+            setIsSaving(false);
+        }
+    }, [auth, shared, senderName, friendShare?.uid, router]);
+
+    if (isOpening) {
+        return (
+            <View style={styles.loading}>
+                <ActivityIndicator size="small" />
+            </View>
+        );
+    }
+
+    if (!shared) {
+        return (
+            <ItemList style={{ paddingTop: 0 }}>
+                <ItemGroup>
+                    <Item title={friendShare ? t('promptTemplates.cannotOpenShare') : t('promptTemplates.invalidLink')} showChevron={false} />
+                </ItemGroup>
+            </ItemList>
+        );
+    }
+
+    const variables = extractTemplateVariables(shared.body);
+    return (
+        <ItemList style={{ paddingTop: 0 }}>
+            <ItemGroup footer={senderName ? (friendShare ? t('promptTemplates.sharedBy', { name: senderName }) : t('promptTemplates.linkFrom', { name: senderName })) : undefined}>
+                <Item
+                    title={shared.name}
+                    subtitle={shared.description || undefined}
+                    detail={variables.length > 0 ? t('promptTemplates.variablesCount', { count: variables.length }) : undefined}
+                    icon={<Ionicons name="document-text-outline" size={29} color="#5856D6" />}
+                    showChevron={false}
+                />
+            </ItemGroup>
+
+            <ItemGroup title={t('promptTemplates.body')}>
+                <View style={styles.body}>
+                    <Text style={styles.bodyText} selectable>{shared.body}</Text>
+                </View>
+            </ItemGroup>
+
+            <ItemGroup>
+                <Item
+                    title={t('promptTemplates.addToLibrary')}
+                    icon={isSaving
+                        ? <ActivityIndicator size="small" />
+                        : <Ionicons name="add-circle-outline" size={29} color="#34C759" />}
+                    onPress={handleSave}
+                    disabled={isSaving}
+                    showChevron={false}
+                />
+            </ItemGroup>
+        </ItemList>
+    );
+}
+
+const styles = StyleSheet.create((theme) => ({
+    loading: {
+        flex: 1,
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    body: {
+        padding: 16,
+    },
+    bodyText: {
+        fontSize: 13,
+        color: theme.colors.text,
+        ...Typography.mono(),
+    },
+}));
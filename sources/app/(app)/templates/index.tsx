@@ -0,0 +1,86 @@
+import React from 'react';
+import { ActivityIndicator, Pressable, View } from 'react-native';
+import { Stack, useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useUnistyles } from 'react-native-unistyles';
+import { Item } from '@/components/Item';
+import { ItemGroup } from '@/components/ItemGroup';
+import { ItemList } from '@/components/ItemList';
+import { usePromptTemplates } from '@/sync/storage';
+import { decodeTemplateShare, extractTemplateVariables, templateCommand, TEMPLATE_SHARE_PREFIX } from '@/sync/promptTemplates';
+import { Modal } from '@/modal';
+import { t } from '@/text';
+
+export default function PromptTemplatesScreen() {
+    const router = useRouter();
+    const { theme } = useUnistyles();
+    const templates = usePromptTemplates();
+
+    const handleImport = React.useCallback(async () => {
+        const link = await Modal.prompt(t('promptTemplates.importTitle'), t('promptTemplates.importMessage'), {
+            placeholder: `${TEMPLATE_SHARE_PREFIX}...`,
+            cancelText: t('common.cancel'),
+            confirmText: t('promptTemplates.import')
+        });
+        if (!link) {
+            return;
+        }
+        if (!decodeTemplateShare(link.trim())) {
+            Modal.alert(t('common.error'), t('promptTemplates.invalidLink'));
+            return;
+        }
+        router.push({ pathname: '/templates/import', params: { data: link.trim() } });
+    }, [router]);
+
+    return (
+        <>
+            <Stack.Screen
+                options={{
+                    headerRight: () => (
+                        <Pressable onPress={() => router.push('/templates/edit')} hitSlop={10}>
+                            <Ionicons name="add" size={26} color={theme.colors.header.tint} />
+                        </Pressable>
+                    )
+                }}
+            />
+            <ItemList style={{ paddingTop: 0 }}>
+                <ItemGroup footer={t('promptTemplates.footer')}>
+                    {templates === null && (
+                        <View style={{ padding: 16 }}>
+                            <ActivityIndicator size="small" color={theme.colors.textSecondary} />
+                        </View>
+                    )}
+                    {templates?.length === 0 && (
+                        <Item
+                            title={t('promptTemplates.empty')}
+                            icon={<Ionicons name="add-circle-outline" size={29} color="#007AFF" />}
+                            onPress={() => router.push('/templates/edit')}
+                            showChevron={false}
+                        />
+                    )}
+                    {templates?.map((template) => {
+                        const variables = extractTemplateVariables(template.body);
+                        return (
+                            <Item
+                                key={template.id}
+                                title={template.name}
+                                subtitle={template.description ? `/${templateCommand(template.name)} · ${template.description}` : `/${templateCommand(template.name)}`}
+                                detail={variables.length > 0 ? t('promptTemplates.variablesCount', { count: variables.length }) : undefined}
+                                icon={<Ionicons name={template.sharedBy ? 'people-outline' : 'document-text-outline'} size={29} color="#5856D6" />}
+                                onPress={() => router.push({ pathname: '/templates/edit', params: { id: template.id } })}
+                            />
+                        );
+                    })}
+                </ItemGroup>
+
+                <ItemGroup>
+                    <Item
+                        title={t('promptTemplates.importTitle')}
+                        icon={<Ionicons name="link-outline" size={29} color="#007AFF" />}
+                        onPress={handleImport}
+                    />
+                </ItemGroup>
+            </ItemList>
+        </>
+    );
+}
@@ -26,6 +26,7 @@ import { useCommandDetector } from '@/hooks/useCommandDetector';
 import { sessionSetModel } from '@/sync/ops';
 import { storage } from '@/sync/storage';
 import { Modal } from '@/modal';
+import { DraftAttachment, isImageAttachment } from '@/sync/attachments';
 
 interface AgentInputProps {
     value: string;
@@ -33,6 +34,7 @@ interface AgentInputProps {
     onChangeText: (text: string) => void;
     sessionId?: string;
     onSend: () => void;
+    onQueue?: () => void;  // Shown next to send while the agent is working, sends once it is ready
     sendIcon?: React.ReactNode;
     onMicPress?: () => void;
     isMicActive?: boolean;
@@ -50,7 +52,7 @@ interface AgentInputProps {
         isPulsing?: boolean;
     };
     autocompletePrefixes: string[];
-    autocompleteSuggestions: (query: string) => Promise<{ key: string, text: string, component: React.ElementType }[]>;
+    autocompleteSuggestions: (query: string) => Promise<{ key: string, text: string, component: React.ElementType, resolveText?: () => Promise<string | null> }[]>;
     usageData?: {
         inputTokens: number;
         outputTokens: number;
@@ -69,6 +71,9 @@ interface AgentInputProps {
     isSendDisabled?: boolean;
     isSending?: boolean;
     minHeight?: number;
+    attachments?: DraftAttachment[];
+    onAttachPress?: () => void;
+    onRemoveAttachment?: (id: string) => void;
 }
 
 const MAX_CONTEXT_SIZE = 190000;
@@ -223,6 +228,35 @@ const stylesheet = StyleSheet.create((theme, runtime) => ({
         justifyContent: 'space-between',
         paddingHorizontal: 0,
     },
+    attachmentsRow: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: 6,
+        paddingTop: 6,
+        paddingHorizontal: 4,
+    },
+    attachmentChip: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 6,
+        maxWidth: 200,
+        paddingLeft: 4,
+        paddingRight: 6,
+        paddingVertical: 4,
+        borderRadius: 8,
+        backgroundColor: theme.colors.surfaceHigh,
+    },
+    attachmentThumbnail: {
+        width: 24,
+        height: 24,
+        borderRadius: 4,
+    },
+    attachmentName: {
+        flexShrink: 1,
+        fontSize: 12,
+        color: theme.colors.text,
+        ...Typography.default(),
+    },
     actionButtonsLeft: {
         flexDirection: 'row',
         gap: 8,
@@ -293,7 +327,8 @@ export const AgentInput = React.memo(React.forwardRef<MultiTextInputHandle, Agen
     const { theme } = useUnistyles();
     const screenWidth = useWindowDimensions().width;
 
-    const hasText = props.value.trim().length > 0;
+    // Attachments can be sent without any text
+    const hasText = props.value.trim().length > 0 || (props.attachments?.length ?? 0) > 0;
     
     // Check if this is a Codex or Gemini session
     const isCodex = props.metadata?.flavor === 'codex';
@@ -344,16 +379,21 @@ export const AgentInput = React.memo(React.forwardRef<MultiTextInputHandle, Agen
     // }, [props.value, inputState, activeWord, suggestions.length, selected]);
 
     // Handle suggestion selection
-    const handleSuggestionSelect = React.useCallback((index: number) => {
+    const handleSuggestionSelect = React.useCallback(async (index: number) => {
         if (!suggestions[index] || !inputRef.current) return;
 
         const suggestion = suggestions[index];
+        const { text, selection } = inputState;
+
+        // Templates ask for their variables before the text is known
+        const suggestionText = suggestion.resolveText ? await suggestion.resolveText() : suggestion.text;
+        if (suggestionText === null || !inputRef.current) return;
 
         // Apply the suggestion
         const result = applySuggestion(
-            inputState.text,
-            inputState.selection,
-            suggestion.text,
+            text,
+            selection,
+            suggestionText,
             props.autocompletePrefixes,
             true // add space after
         );
@@ -480,7 +520,7 @@ export const AgentInput = React.memo(React.forwardRef<MultiTextInputHandle, Agen
         // Original key handling
         if (Platform.OS === 'web') {
             if (event.key === 'Enter' && !event.shiftKey) {
-                if (props.value.trim()) {
+                if (hasText) {
                     props.onSend();
                     return true; // Key was handled
                 }
@@ -499,7 +539,7 @@ export const AgentInput = React.memo(React.forwardRef<MultiTextInputHandle, Agen
 
         }
         return false; // Key was not handled
-    }, [props.value, props.onSend, props.permissionMode, props.onPermissionModeChange, suggestions, selected, handleSuggestionSelect, moveUp, moveDown, props.showAbortButton, props.onAbort, isAborting, handleAbortPress]);
+    }, [props.value, hasText, props.onSend, props.permissionMode, props.onPermissionModeChange, suggestions, selected, handleSuggestionSelect, moveUp, moveDown, props.showAbortButton, props.onAbort, isAborting, handleAbortPress]);
 
 
 
@@ -737,6 +777,31 @@ export const AgentInput = React.memo(React.forwardRef<MultiTextInputHandle, Agen
                 )}
                 {/* Unified panel containing input and action buttons */}
                 <View style={styles.unifiedPanel}>
+                    {/* Attachments picked for the next message */}
+                    {props.attachments && props.attachments.length > 0 && (
+                        <View style={styles.attachmentsRow}>
+                            {props.attachments.map((attachment) => (
+                                <View key={attachment.id} style={styles.attachmentChip}>
+                                    {isImageAttachment(attachment) ? (
+                                        <Image source={{ uri: attachment.uri }} style={styles.attachmentThumbnail} contentFit="cover" />
+                                    ) : (
+                                        <Ionicons name="document-attach-outline" size={16} color={theme.colors.button.secondary.tint} />
+                                    )}
+                                    <Text style={styles.attachmentName} numberOfLines={1}>{attachment.name}</Text>
+                                    {props.onRemoveAttachment && (
+                                        <Pressable
+                                            onPress={() => props.onRemoveAttachment?.(attachment.id)}
+                                            hitSlop={8}
+                                            accessibilityLabel={t('attachments.remove')}
+                                        >
+                                            <Ionicons name="close-circle" size={16} color={theme.colors.textSecondary} />
+                                        </Pressable>
+                                    )}
+                                </View>
+                            ))}
+                        </View>
+                    )}
+
                     {/* Input field */}
                     <View style={[styles.inputContainer, props.minHeight ? { minHeight: props.minHeight } : undefined]}>
                         <MultiTextInput
@@ -780,6 +845,34 @@ export const AgentInput = React.memo(React.forwardRef<MultiTextInputHandle, Agen
                                 </Pressable>
                             )}
 
+                            {/* Attach button */}
+                            {props.onAttachPress && (
+                                <Pressable
+                                    onPress={() => {
+                                        hapticsLight();
+                                        props.onAttachPress?.();
+                                    }}
+                                    hitSlop={{ top: 5, bottom: 10, left: 0, right: 0 }}
+                                    accessibilityLabel={t('attachments.attach')}
+                                    style={(p) => ({
+                                        flexDirection: 'row',
+                                        alignItems: 'center',
+                                        borderRadius: Platform.select({ default: 16, android: 20 }),
+                                        paddingHorizontal: 8,
+                                        paddingVertical: 6,
+                                        justifyContent: 'center',
+                                        height: 32,
+                                        opacity: p.pressed ? 0.7 : 1,
+                                    })}
+                                >
+                                    <Ionicons
+                                        name="attach"
+                                        size={18}
+                                        color={theme.colors.button.secondary.tint}
+                                    />
+                                </Pressable>
+                            )}
+
                             {/* Agent selector button */}
                             {props.agentType && props.onAgentClick && (
                                 <Pressable
@@ -926,6 +1019,33 @@ export const AgentInput = React.memo(React.forwardRef<MultiTextInputHandle, Agen
                             <GitStatusButton sessionId={props.sessionId} onPress={props.onFileViewerPress} />
                         </View>
 
+                        {/* Queue button */}
+                        {props.onQueue && hasText && (
+                            <Pressable
+                                style={(p) => ({
+                                    width: 32,
+                                    height: 32,
+                                    marginLeft: 8,
+                                    alignItems: 'center',
+                                    justifyContent: 'center',
+                                    opacity: p.pressed ? 0.7 : 1,
+                                })}
+                                hitSlop={{ top: 5, bottom: 10, left: 0, right: 0 }}
+                                onPress={() => {
+                                    hapticsLight();
+                                    props.onQueue?.();
+                                }}
+                                disabled={props.isSendDisabled || props.isSending}
+                                accessibilityLabel={t('messageQueue.queue')}
+                            >
+                                <Octicons
+                                    name="clock"
+                                    size={16}
+                                    color={theme.colors.button.secondary.tint}
+                                />
+                            </Pressable>
+                        )}
+
                         {/* Send/Voice button */}
                         <View
                             style={[
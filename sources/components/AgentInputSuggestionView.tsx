@@ -59,6 +59,32 @@ export const FileMentionSuggestion = React.memo(({ fileName, filePath, fileType
     );
 });
 
+interface TemplateSuggestionProps {
+    command: string;
+    description?: string;
+}
+
+export const TemplateSuggestion = React.memo(({ command, description }: TemplateSuggestionProps) => {
+    return (
+        <View style={styles.suggestionContainer}>
+            <Text
+                style={[styles.commandText, { marginRight: 12 }]}
+            >
+                /{command}
+            </Text>
+            <Text
+                style={styles.descriptionText}
+                numberOfLines={1}
+            >
+                {description}
+            </Text>
+            <Text style={styles.labelText}>
+                {t('agentInput.suggestion.templateLabel')}
+            </Text>
+        </View>
+    );
+});
+
 const styles = StyleSheet.create((theme) => ({
     suggestionContainer: {
         flexDirection: 'row',
@@ -0,0 +1,38 @@
+import * as React from 'react';
+import { Text, TextStyle, StyleProp } from 'react-native';
+import { parseAnsi } from '@/utils/ansi';
+
+interface AnsiTextProps {
+    text: string;
+    style?: StyleProp<TextStyle>;
+    selectable?: boolean;
+}
+
+/**
+ * Text with ANSI colors and styles applied, colors without a code use the inherited style
+ */
+export const AnsiText = React.memo((props: AnsiTextProps) => {
+    const segments = React.useMemo(() => parseAnsi(props.text), [props.text]);
+    return (
+        <Text style={props.style} selectable={props.selectable}>
+            {segments.map((segment, index) => {
+                const { fg, bg, bold, dim, italic, underline } = segment.style;
+                return (
+                    <Text
+                        key={index}
+                        style={{
+                            color: fg ?? undefined,
+                            backgroundColor: bg ?? undefined,
+                            fontWeight: bold ? '700' : undefined,
+                            opacity: dim ? 0.6 : undefined,
+                            fontStyle: italic ? 'italic' : undefined,
+                            textDecorationLine: underline ? 'underline' : undefined
+                        }}
+                    >
+                        {segment.text}
+                    </Text>
+                );
+            })}
+        </Text>
+    );
+});
@@ -0,0 +1,264 @@
+import * as React from 'react';
+import { View, TextInput, Pressable, Platform } from 'react-native';
+import { StyleSheet, useUnistyles } from 'react-native-unistyles';
+import { Ionicons } from '@expo/vector-icons';
+import { Text } from '@/components/StyledText';
+import { Typography } from '@/constants/Typography';
+import { ArtifactFormat, ArtifactType } from '@/sync/artifactTypes';
+import { ARTIFACT_TYPES, ChecklistItem, parseChecklist, serializeChecklist } from '@/sync/artifactContent';
+import { t } from '@/text';
+
+const typeIcons: Record<ArtifactType, React.ComponentProps<typeof Ionicons>['name']> = {
+    markdown: 'document-text-outline',
+    code: 'code-slash-outline',
+    diagram: 'git-network-outline',
+    checklist: 'checkbox-outline',
+};
+
+function typeLabel(type: ArtifactType): string {
+    switch (type) {
+        case 'markdown': return t('artifacts.typeMarkdown');
+        case 'code': return t('artifacts.typeCode');
+        case 'diagram': return t('artifacts.typeDiagram');
+        case 'checklist': return t('artifacts.typeChecklist');
+    }
+}
+
+const webInput = Platform.OS === 'web' ? {
+    outlineStyle: 'none',
+    outline: 'none',
+    outlineWidth: 0,
+    outlineColor: 'transparent'
+} as any : undefined;
+
+/**
+ * Type picker and body editor shared by the new and edit artifact screens
+ */
+export function ArtifactContentEditor(props: {
+    format: ArtifactFormat;
+    onFormatChange: (format: ArtifactFormat) => void;
+    body: string;
+    onBodyChange: (body: string) => void;
+    editable: boolean;
+}) {
+    const { theme } = useUnistyles();
+    const [bodyFocused, setBodyFocused] = React.useState(false);
+    const { type } = props.format;
+    const isSource = type === 'code' || type === 'diagram';
+
+    return (
+        <>
+            <View style={styles.inputGroup}>
+                <Text style={styles.label}>{t('artifacts.typeLabel')}</Text>
+                <View style={styles.typeRow}>
+                    {ARTIFACT_TYPES.map((option) => {
+                        const selected = option === type;
+                        return (
+                            <Pressable
+                                key={option}
+                                style={[styles.typeOption, selected && styles.typeOptionSelected]}
+                                onPress={() => props.onFormatChange(option === 'code' ? { type: option, language: props.format.language } : { type: option })}
+                                disabled={!props.editable}
+                            >
+                                <Ionicons name={typeIcons[option]} size={16} color={selected ? theme.colors.textLink : theme.colors.textSecondary} />
+                                <Text style={[styles.typeOptionText, selected && styles.typeOptionTextSelected]}>{typeLabel(option)}</Text>
+                            </Pressable>
+                        );
+                    })}
+                </View>
+            </View>
+
+            {type === 'code' && (
+                <View style={styles.inputGroup}>
+                    <Text style={styles.label}>{t('artifacts.languageLabel')}</Text>
+                    <TextInput
+                        style={[styles.input, webInput]}
+                        value={props.format.language ?? ''}
+                        onChangeText={(language) => props.onFormatChange({ type: 'code', language: language.trim() || undefined })}
+                        placeholder={t('artifacts.languagePlaceholder')}
+                        placeholderTextColor={theme.colors.input.placeholder}
+                        editable={props.editable}
+                        autoCapitalize="none"
+                        autoCorrect={false}
+                    />
+                </View>
+            )}
+
+            <View style={styles.inputGroup}>
+                <Text style={styles.label}>{t('artifacts.bodyLabel')}</Text>
+                {type === 'checklist' ? (
+                    <ChecklistEditor body={props.body} onBodyChange={props.onBodyChange} editable={props.editable} />
+                ) : (
+                    <TextInput
+                        style={[
+                            styles.input,
+                            styles.textArea,
+                            isSource && styles.sourceText,
+                            bodyFocused && styles.inputFocused,
+                            webInput
+                        ]}
+                        value={props.body}
+                        onChangeText={props.onBodyChange}
+                        placeholder={type === 'diagram' ? t('artifacts.diagramPlaceholder') : t('artifacts.bodyPlaceholder')}
+                        placeholderTextColor={theme.colors.input.placeholder}
+                        onFocus={() => setBodyFocused(true)}
+                        onBlur={() => setBodyFocused(false)}
+                        editable={props.editable}
+                        multiline
+                        numberOfLines={10}
+                        autoCapitalize={isSource ? 'none' : 'sentences'}
+                        autoCorrect={!isSource}
+                    />
+                )}
+            </View>
+        </>
+    );
+}
+
+// Items are kept locally so an item being typed is not dropped before it has text
+function ChecklistEditor(props: { body: string, onBodyChange: (body: string) => void, editable: boolean }) {
+    const { theme } = useUnistyles();
+    const [items, setItems] = React.useState<ChecklistItem[]>(() => {
+        const parsed = parseChecklist(props.body);
+        return parsed.length > 0 ? parsed : [{ text: '', done: false }];
+    });
+
+    const update = (next: ChecklistItem[]) => {
+        setItems(next);
+        props.onBodyChange(serializeChecklist(next));
+    };
+
+    return (
+        <View style={styles.checklist}>
+            {items.map((item, index) => (
+                <View key={index} style={styles.checklistRow}>
+                    <Pressable
+                        onPress={() => update(items.map((existing, i) => i === index ? { ...existing, done: !existing.done } : existing))}
+                        disabled={!props.editable}
+                        hitSlop={8}
+                    >
+                        <Ionicons
+                            name={item.done ? 'checkbox' : 'square-outline'}
+                            size={22}
+                            color={item.done ? theme.colors.textLink : theme.colors.textSecondary}
+                        />
+                    </Pressable>
+                    <TextInput
+                        style={[styles.checklistInput, webInput]}
+                        value={item.text}
+                        onChangeText={(text) => update(items.map((existing, i) => i === index ? { ...existing, text } : existing))}
+                        placeholder={t('artifacts.checklistItemPlaceholder')}
+                        placeholderTextColor={theme.colors.input.placeholder}
+                        editable={props.editable}
+                        onSubmitEditing={() => update([...items.slice(0, index + 1), { text: '', done: false }, ...items.slice(index + 1)])}
+                        returnKeyType="next"
+                    />
+                    <Pressable
+                        onPress={() => update(items.filter((_, i) => i !== index))}
+                        disabled={!props.editable}
+                        hitSlop={8}
+                        accessibilityLabel={t('artifacts.removeChecklistItem')}
+                    >
+                        <Ionicons name="close-circle-outline" size={20} color={theme.colors.textSecondary} />
+                    </Pressable>
+                </View>
+            ))}
+            <Pressable
+                style={styles.checklistRow}
+                onPress={() => update([...items, { text: '', done: false }])}
+                disabled={!props.editable}
+            >
+                <Ionicons name="add-circle-outline" size={22} color={theme.colors.textLink} />
+                <Text style={styles.addItemText}>{t('artifacts.addChecklistItem')}</Text>
+            </Pressable>
+        </View>
+    );
+}
+
+const styles = StyleSheet.create((theme) => ({
+    inputGroup: {
+        marginBottom: 24,
+    },
+    label: {
+        fontSize: 13,
+        fontWeight: '600',
+        color: theme.colors.textSecondary,
+        marginBottom: 8,
+        textTransform: 'uppercase',
+        letterSpacing: 0.5,
+    },
+    typeRow: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: 8,
+    },
+    typeOption: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 6,
+        paddingHorizontal: 12,
+        paddingVertical: 8,
+        borderRadius: 16,
+        borderWidth: 1,
+        borderColor: theme.colors.divider,
+        backgroundColor: theme.colors.surface,
+    },
+    typeOptionSelected: {
+        borderColor: theme.colors.textLink,
+    },
+    typeOptionText: {
+        fontSize: 14,
+        color: theme.colors.textSecondary,
+    },
+    typeOptionTextSelected: {
+        color: theme.colors.textLink,
+        fontWeight: '600',
+    },
+    input: {
+        backgroundColor: theme.colors.surface,
+        borderRadius: 12,
+        paddingHorizontal: 16,
+        paddingVertical: 14,
+        fontSize: 16,
+        color: theme.colors.text,
+        borderWidth: 1,
+        borderColor: theme.colors.divider,
+    },
+    inputFocused: {
+        borderColor: theme.colors.button.primary.background,
+    },
+    textArea: {
+        minHeight: 200,
+        textAlignVertical: 'top',
+        paddingTop: 14,
+        lineHeight: 22,
+    },
+    sourceText: {
+        ...Typography.mono(),
+        fontSize: 14,
+        lineHeight: 20,
+    },
+    checklist: {
+        backgroundColor: theme.colors.surface,
+        borderRadius: 12,
+        borderWidth: 1,
+        borderColor: theme.colors.divider,
+        paddingHorizontal: 12,
+    },
+    checklistRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 10,
+        paddingVertical: 8,
+    },
+    checklistInput: {
+        flex: 1,
+        fontSize: 16,
+        paddingVertical: 4,
+        color: theme.colors.text,
+    },
+    addItemText: {
+        fontSize: 16,
+        color: theme.colors.textLink,
+    },
+}));
@@ -0,0 +1,108 @@
+import * as React from 'react';
+import { View, ScrollView, Pressable, Text } from 'react-native';
+import { StyleSheet, useUnistyles } from 'react-native-unistyles';
+import { Ionicons } from '@expo/vector-icons';
+import { Typography } from '@/constants/Typography';
+import { MarkdownView } from './markdown/MarkdownView';
+import { MermaidRenderer } from './markdown/MermaidRenderer';
+import { SimpleSyntaxHighlighter } from './SimpleSyntaxHighlighter';
+import { ArtifactFormat } from '@/sync/artifactTypes';
+import { parseChecklist } from '@/sync/artifactContent';
+import { t } from '@/text';
+
+/**
+ * Body of an artifact shown the way its type asks for
+ */
+export const ArtifactContentView = React.memo((props: {
+    body: string;
+    format: ArtifactFormat;
+    onToggleItem?: (index: number) => void;  // Checklist items are read only without it
+}) => {
+    switch (props.format.type) {
+        case 'code':
+            return (
+                <View style={styles.codeBlock}>
+                    {props.format.language && <Text style={styles.codeLanguage}>{props.format.language}</Text>}
+                    <ScrollView
+                        horizontal={true}
+                        contentContainerStyle={{ paddingHorizontal: 16, paddingVertical: 16 }}
+                        showsHorizontalScrollIndicator={false}
+                    >
+                        <SimpleSyntaxHighlighter code={props.body} language={props.format.language ?? null} selectable={true} />
+                    </ScrollView>
+                </View>
+            );
+        case 'diagram':
+            return <MermaidRenderer content={props.body} />;
+        case 'checklist':
+            return <ChecklistView body={props.body} onToggleItem={props.onToggleItem} />;
+        default:
+            return <MarkdownView markdown={props.body} />;
+    }
+});
+
+function ChecklistView(props: { body: string, onToggleItem?: (index: number) => void }) {
+    const { theme } = useUnistyles();
+    const items = React.useMemo(() => parseChecklist(props.body), [props.body]);
+    const done = items.filter((item) => item.done).length;
+
+    return (
+        <View>
+            <Text style={styles.checklistProgress}>{t('artifacts.checklistProgress', { done, total: items.length })}</Text>
+            {items.map((item, index) => (
+                <Pressable
+                    key={index}
+                    style={styles.checklistItem}
+                    onPress={() => props.onToggleItem?.(index)}
+                    disabled={!props.onToggleItem}
+                >
+                    <Ionicons
+                        name={item.done ? 'checkbox' : 'square-outline'}
+                        size={22}
+                        color={item.done ? theme.colors.textLink : theme.colors.textSecondary}
+                    />
+                    <Text style={[styles.checklistText, item.done && styles.checklistTextDone]}>{item.text}</Text>
+                </Pressable>
+            ))}
+        </View>
+    );
+}
+
+const styles = StyleSheet.create((theme) => ({
+    codeBlock: {
+        backgroundColor: theme.colors.surfaceHighest,
+        borderRadius: 8,
+    },
+    codeLanguage: {
+        ...Typography.mono(),
+        color: theme.colors.textSecondary,
+        fontSize: 12,
+        marginTop: 8,
+        paddingHorizontal: 16,
+    },
+    checklistProgress: {
+        ...Typography.default(),
+        fontSize: 13,
+        color: theme.colors.textSecondary,
+        marginBottom: 8,
+    },
+    checklistItem: {
+        flexDirection: 'row',
+        alignItems: 'flex-start',
+        gap: 12,
+        paddingVertical: 10,
+        borderBottomWidth: StyleSheet.hairlineWidth,
+        borderBottomColor: theme.colors.divider,
+    },
+    checklistText: {
+        ...Typography.default(),
+        flex: 1,
+        fontSize: 16,
+        lineHeight: 22,
+        color: theme.colors.text,
+    },
+    checklistTextDone: {
+        color: theme.colors.textSecondary,
+        textDecorationLine: 'line-through',
+    },
+}));
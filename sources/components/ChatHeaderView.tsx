@@ -19,8 +19,19 @@ interface ChatHeaderViewProps {
     tintColor?: string;
     isConnected?: boolean;
     flavor?: string | null;
+    viewers?: ChatHeaderViewer[];
+    activity?: string | null; // Shown instead of the subtitle, e.g. someone typing
 }
 
+export interface ChatHeaderViewer {
+    id: string;
+    imageUrl?: string | null;
+    thumbhash?: string | null;
+}
+
+// Avatars of other viewers shown before the rest is collapsed into a count
+const MAX_VIEWERS = 3;
+
 export const ChatHeaderView: React.FC<ChatHeaderViewProps> = ({
     title,
     subtitle,
@@ -29,6 +40,8 @@ export const ChatHeaderView: React.FC<ChatHeaderViewProps> = ({
     avatarId,
     isConnected = true,
     flavor,
+    viewers,
+    activity,
 }) => {
     const { theme } = useUnistyles();
     const navigation = useNavigation();
@@ -69,7 +82,21 @@ export const ChatHeaderView: React.FC<ChatHeaderViewProps> = ({
                     >
                         {title}
                     </Text>
-                    {subtitle && (
+                    {activity ? (
+                        <Text
+                            numberOfLines={1}
+                            ellipsizeMode="tail"
+                            style={[
+                                styles.subtitle,
+                                {
+                                    color: theme.colors.textLink,
+                                    ...Typography.default('italic')
+                                }
+                            ]}
+                        >
+                            {activity}
+                        </Text>
+                    ) : subtitle && (
                         <Text
                             numberOfLines={1}
                             ellipsizeMode="tail"
@@ -86,6 +113,24 @@ export const ChatHeaderView: React.FC<ChatHeaderViewProps> = ({
                         </Text>
                     )}
                 </View>
+
+                {viewers && viewers.length > 0 && (
+                    <View style={styles.viewers}>
+                        {viewers.slice(0, MAX_VIEWERS).map((viewer, index) => (
+                            <View
+                                key={viewer.id}
+                                style={[styles.viewer, { marginLeft: index === 0 ? 0 : -8, borderColor: theme.colors.header.background }]}
+                            >
+                                <Avatar id={viewer.id} size={24} imageUrl={viewer.imageUrl} thumbhash={viewer.thumbhash} />
+                            </View>
+                        ))}
+                        {viewers.length > MAX_VIEWERS && (
+                            <Text style={[styles.viewersMore, { color: theme.colors.header.tint, ...Typography.default() }]}>
+                                +{viewers.length - MAX_VIEWERS}
+                            </Text>
+                        )}
+                    </View>
+                )}
                 
                 {avatarId && onAvatarPress && (
                     <Pressable
@@ -146,6 +191,20 @@ const styles = StyleSheet.create({
         fontWeight: '400',
         lineHeight: 14,
     },
+    viewers: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        marginLeft: 8,
+    },
+    viewer: {
+        borderWidth: 2,
+        borderRadius: 14,
+    },
+    viewersMore: {
+        fontSize: 12,
+        marginLeft: 4,
+        opacity: 0.7,
+    },
     avatarButton: {
         width: 44,
         height: 44,
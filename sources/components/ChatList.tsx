@@ -1,5 +1,5 @@
 import * as React from 'react';
-import { useSession, useSessionMessages } from "@/sync/storage";
+import { useSession, useSessionMessages, useSessionMessagesPaging } from "@/sync/storage";
 import { ActivityIndicator, FlatList, Platform, View } from 'react-native';
 import { useCallback } from 'react';
 import { useHeaderHeight } from '@/utils/responsive';
@@ -8,22 +8,37 @@ import { MessageView } from './MessageView';
 import { Metadata, Session } from '@/sync/storageTypes';
 import { ChatFooter } from './ChatFooter';
 import { Message } from '@/sync/typesMessage';
+import { sync } from '@/sync/sync';
+import { useUnistyles } from 'react-native-unistyles';
 
-export const ChatList = React.memo((props: { session: Session }) => {
+// Message to scroll to when the list opens, createdAt is a fallback for ids from the search index
+export type MessageFocus = {
+    messageId: string;
+    createdAt: number | null;
+};
+
+export const ChatList = React.memo((props: { session: Session, focus?: MessageFocus }) => {
     const { messages } = useSessionMessages(props.session.id);
     return (
         <ChatListInternal
             metadata={props.session.metadata}
             sessionId={props.session.id}
             messages={messages}
+            focus={props.focus}
         />
     )
 });
 
-const ListHeader = React.memo(() => {
+const ListHeader = React.memo((props: { sessionId: string }) => {
     const headerHeight = useHeaderHeight();
     const safeArea = useSafeAreaInsets();
-    return <View style={{ flexDirection: 'row', alignItems: 'center', height: headerHeight + safeArea.top + 32 }} />;
+    const { isLoadingOlder } = useSessionMessagesPaging(props.sessionId);
+    return (
+        <View style={{ alignItems: 'center' }}>
+            <View style={{ height: headerHeight + safeArea.top + 32 }} />
+            {isLoadingOlder && <ActivityIndicator size="small" style={{ paddingVertical: 16 }} />}
+        </View>
+    );
 });
 
 const ListFooter = React.memo((props: { sessionId: string }) => {
@@ -37,13 +52,64 @@ const ChatListInternal = React.memo((props: {
     metadata: Metadata | null,
     sessionId: string,
     messages: Message[],
+    focus?: MessageFocus,
 }) => {
+    const { theme } = useUnistyles();
+    const listRef = React.useRef<FlatList<Message>>(null);
+    const handledFocus = React.useRef<MessageFocus | null>(null);
+    const [highlightedId, setHighlightedId] = React.useState<string | null>(null);
+    const { hasOlder, isLoadingOlder } = useSessionMessagesPaging(props.sessionId);
+
+    // Scroll to the focused message, paging back through history until it is loaded
+    React.useEffect(() => {
+        const focus = props.focus;
+        if (!focus || handledFocus.current === focus) {
+            return;
+        }
+        let index = props.messages.findIndex((m) => m.id === focus.messageId);
+        if (index === -1 && focus.createdAt !== null) {
+            index = props.messages.findIndex((m) => m.createdAt === focus.createdAt);
+        }
+        if (index === -1) {
+            if (hasOlder && !isLoadingOlder) {
+                sync.loadOlderMessages(props.sessionId);
+            }
+            return;
+        }
+        handledFocus.current = focus;
+        setHighlightedId(props.messages[index].id);
+        listRef.current?.scrollToIndex({ index, viewPosition: 0.5, animated: true });
+    }, [props.focus, props.messages, props.sessionId, hasOlder, isLoadingOlder]);
+
+    // Fade out the highlight after a moment
+    React.useEffect(() => {
+        if (!highlightedId) {
+            return;
+        }
+        const timeout = setTimeout(() => setHighlightedId(null), 3000);
+        return () => clearTimeout(timeout);
+    }, [highlightedId]);
+
+    const onScrollToIndexFailed = useCallback((info: { index: number, averageItemLength: number }) => {
+        listRef.current?.scrollToOffset({ offset: info.averageItemLength * info.index, animated: false });
+        setTimeout(() => {
+            listRef.current?.scrollToIndex({ index: info.index, viewPosition: 0.5, animated: true });
+        }, 100);
+    }, []);
+
     const keyExtractor = useCallback((item: any) => item.id, []);
     const renderItem = useCallback(({ item }: { item: any }) => (
-        <MessageView message={item} metadata={props.metadata} sessionId={props.sessionId} />
-    ), [props.metadata, props.sessionId]);
+        <View style={item.id === highlightedId ? { backgroundColor: theme.colors.surfaceHighest } : undefined}>
+            <MessageView message={item} metadata={props.metadata} sessionId={props.sessionId} />
+        </View>
+    ), [props.metadata, props.sessionId, highlightedId, theme]);
+    // List is inverted, so the end is the oldest loaded message
+    const onEndReached = useCallback(() => {
+        sync.loadOlderMessages(props.sessionId);
+    }, [props.sessionId]);
     return (
         <FlatList
+            ref={listRef}
             data={props.messages}
             inverted={true}
             keyExtractor={keyExtractor}
@@ -54,8 +120,11 @@ const ChatListInternal = React.memo((props: {
             keyboardShouldPersistTaps="handled"
             keyboardDismissMode={Platform.OS === 'ios' ? 'interactive' : 'none'}
             renderItem={renderItem}
+            onEndReached={onEndReached}
+            onEndReachedThreshold={0.5}
+            onScrollToIndexFailed={onScrollToIndexFailed}
             ListHeaderComponent={<ListFooter sessionId={props.sessionId} />}
-            ListFooterComponent={<ListHeader />}
+            ListFooterComponent={<ListHeader sessionId={props.sessionId} />}
         />
     )
 });
\ No newline at end of file
@@ -42,6 +42,16 @@ export function CommandPaletteProvider({ children }: { children: React.ReactNode
                     router.push('/');
                 }
             },
+            {
+                id: 'search-messages',
+                title: 'Search Messages',
+                subtitle: 'Find text across all sessions',
+                icon: 'search-outline',
+                category: 'Sessions',
+                action: () => {
+                    router.push('/session/search');
+                }
+            },
             {
                 id: 'settings',
                 title: 'Settings',
@@ -19,7 +19,7 @@ export const FeedItemCard = React.memo(({ item }: FeedItemCardProps) => {
     // Get user profile from global users cache for friend-related items
     // User MUST exist for friend-related items or they would have been filtered out
     const user = useUser(
-        (item.body.kind === 'friend_request' || item.body.kind === 'friend_accepted')
+        (item.body.kind === 'friend_request' || item.body.kind === 'friend_accepted' || item.body.kind === 'session_shared' || item.body.kind === 'template_shared')
             ? item.body.uid 
             : undefined
     );
@@ -82,6 +82,51 @@ export const FeedItemCard = React.memo(({ item }: FeedItemCardProps) => {
             );
         }
             
+        case 'session_shared': {
+            const sessionId = item.body.sessionId;
+            const avatarElement = user!.avatar ? (
+                <Avatar 
+                    id={user!.id}
+                    imageUrl={user!.avatar.url}
+                    size={40}
+                />
+            ) : (
+                <Ionicons name="people" size={20} color={theme.colors.textSecondary} />
+            );
+
+            return (
+                <Item
+                    title={t('feed.sessionShared', { name: user!.firstName || user!.username })}
+                    subtitle={getTimeAgo(item.createdAt)}
+                    leftElement={avatarElement}
+                    onPress={() => router.push(`/session/${sessionId}`)}
+                    showChevron={true}
+                />
+            );
+        }
+
+        case 'template_shared': {
+            const avatarElement = user!.avatar ? (
+                <Avatar 
+                    id={user!.id}
+                    imageUrl={user!.avatar.url}
+                    size={40}
+                />
+            ) : (
+                <Ionicons name="document-text" size={20} color={theme.colors.textSecondary} />
+            );
+
+            return (
+                <Item
+                    title={t('feed.templateShared', { name: user!.firstName || user!.username })}
+                    subtitle={getTimeAgo(item.createdAt)}
+                    leftElement={avatarElement}
+                    onPress={() => router.push({ pathname: '/templates/import', params: { feed: item.id } })}
+                    showChevron={true}
+                />
+            );
+        }
+
         case 'text':
             return (
                 <Item
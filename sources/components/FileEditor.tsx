@@ -0,0 +1,266 @@
+import * as React from 'react';
+import { View, ScrollView, TextInput, Pressable, ActivityIndicator, Platform } from 'react-native';
+import { Octicons } from '@expo/vector-icons';
+import { useUnistyles, StyleSheet } from 'react-native-unistyles';
+import { Text } from '@/components/StyledText';
+import { SimpleSyntaxHighlighter } from '@/components/SimpleSyntaxHighlighter';
+import { DiffView } from '@/components/diff/DiffView';
+import { mergeThreeWay } from '@/components/diff/mergeThreeWay';
+import { Typography } from '@/constants/Typography';
+import { readSessionFile, saveSessionFile, SessionFileVersion } from '@/sync/fileEditing';
+import { createEditHistory, recordEdit, redoEdit, undoEdit } from '@/utils/editHistory';
+import { Modal } from '@/modal';
+import { t } from '@/text';
+
+interface FileEditorProps {
+    sessionId: string;
+    filePath: string;
+    language: string | null;
+    onSaved: (text: string) => void;
+}
+
+export const FileEditor = React.memo((props: FileEditorProps) => {
+    const { sessionId, filePath, language, onSaved } = props;
+    const { theme } = useUnistyles();
+    // Version on disk the edits are based on
+    const [base, setBase] = React.useState<SessionFileVersion | null>(null);
+    const [history, setHistory] = React.useState(() => createEditHistory(''));
+    const [conflict, setConflict] = React.useState<SessionFileVersion | null>(null);
+    const [isSaving, setIsSaving] = React.useState(false);
+    const [loadError, setLoadError] = React.useState<string | null>(null);
+
+    React.useEffect(() => {
+        let isCancelled = false;
+        readSessionFile(sessionId, filePath)
+            .then((version) => {
+                if (!isCancelled) {
+                    setBase(version);
+                    setHistory(createEditHistory(version.text));
+                }
+            })
+            .catch((error) => {
+                if (!isCancelled) {
+                    setLoadError(error instanceof Error ? error.message : String(error));
+                }
+            });
+        return () => {
+            isCancelled = true;
+        };
+    }, [sessionId, filePath]);
+
+    const text = history.present;
+    const isDirty = base !== null && text !== base.text;
+
+    const handleSave = React.useCallback(async () => {
+        if (!base || isSaving) {
+            return;
+        }
+        setIsSaving(true);
+        try {
+            const result = await saveSessionFile(sessionId, filePath, text, base.hash);
+            if (result.type === 'saved') {
+                setBase(result.version);
+                onSaved(result.version.text);
+            } else if (result.type === 'conflict') {
+                setConflict(result.current);
+            } else {
+                Modal.alert(t('common.error'), result.error);
+            }
+        } finally {
+            setIsSaving(false);
+        }
+    }, [base, isSaving, sessionId, filePath, text, onSaved]);
+
+    // Every resolution continues from the version on disk, so the next save is checked against it
+    const resolveConflict = React.useCallback((resolved: string) => {
+        if (!conflict) {
+            return;
+        }
+        setBase(conflict);
+        setHistory((h) => recordEdit(h, resolved, Date.now(), false));
+        setConflict(null);
+    }, [conflict]);
+
+    if (loadError) {
+        return (
+            <View style={styles.centered}>
+                <Text style={styles.secondaryText}>{loadError}</Text>
+            </View>
+        );
+    }
+
+    if (!base) {
+        return (
+            <View style={styles.centered}>
+                <ActivityIndicator size="small" color={theme.colors.textSecondary} />
+            </View>
+        );
+    }
+
+    if (conflict) {
+        return <ConflictView base={base.text} ours={text} theirs={conflict.text} onResolve={resolveConflict} />;
+    }
+
+    return (
+        <View style={{ flex: 1 }}>
+            <View style={styles.toolbar}>
+                <ToolbarButton icon="undo" disabled={history.past.length === 0} onPress={() => setHistory(undoEdit)} />
+                <ToolbarButton icon="redo" disabled={history.future.length === 0} onPress={() => setHistory(redoEdit)} />
+                <View style={{ flex: 1 }} />
+                {isDirty && <Text style={styles.secondaryText}>{t('fileEditor.unsaved')}</Text>}
+                <Pressable
+                    onPress={handleSave}
+                    disabled={!isDirty || isSaving}
+                    style={[styles.saveButton, (!isDirty || isSaving) && { opacity: 0.5 }]}
+                >
+                    {isSaving
+                        ? <ActivityIndicator size="small" color="white" />
+                        : <Text style={styles.saveButtonText}>{t('common.save')}</Text>}
+                </Pressable>
+            </View>
+            <ScrollView style={{ flex: 1 }} contentContainerStyle={{ padding: 16 }} keyboardShouldPersistTaps="handled">
+                <View>
+                    {/* Highlighted copy of the text below a transparent input, both use the same metrics */}
+                    <SimpleSyntaxHighlighter code={text} language={language} selectable={false} />
+                    <TextInput
+                        value={text}
+                        onChangeText={(value) => setHistory((h) => recordEdit(h, value))}
+                        multiline
+                        autoCapitalize="none"
+                        autoCorrect={false}
+                        spellCheck={false}
+                        scrollEnabled={false}
+                        selectionColor={theme.colors.textLink}
+                        style={[styles.input, { color: 'transparent' }]}
+                    />
+                </View>
+            </ScrollView>
+        </View>
+    );
+});
+
+function ToolbarButton(props: { icon: string, disabled: boolean, onPress: () => void }) {
+    const { theme } = useUnistyles();
+    return (
+        <Pressable onPress={props.onPress} disabled={props.disabled} hitSlop={8} style={{ opacity: props.disabled ? 0.4 : 1 }}>
+            <Octicons name={props.icon as any} size={18} color={theme.colors.text} />
+        </Pressable>
+    );
+}
+
+function ConflictView(props: { base: string, ours: string, theirs: string, onResolve: (text: string) => void }) {
+    const merge = React.useMemo(
+        () => mergeThreeWay(props.base, props.ours, props.theirs, { ours: t('fileEditor.yourVersion'), theirs: t('fileEditor.diskVersion') }),
+        [props.base, props.ours, props.theirs]
+    );
+
+    return (
+        <ScrollView style={{ flex: 1 }} contentContainerStyle={{ padding: 16, gap: 12 }}>
+            <Text style={styles.conflictTitle}>{t('fileEditor.conflictTitle')}</Text>
+            <Text style={styles.secondaryText}>
+                {merge.conflicts > 0 ? t('fileEditor.conflictCount', { count: merge.conflicts }) : t('fileEditor.conflictMergeable')}
+            </Text>
+
+            <View style={styles.resolveRow}>
+                <ResolveButton title={t('fileEditor.useMerged')} primary onPress={() => props.onResolve(merge.merged)} />
+                <ResolveButton title={t('fileEditor.keepMine')} onPress={() => props.onResolve(props.ours)} />
+                <ResolveButton title={t('fileEditor.useDisk')} onPress={() => props.onResolve(props.theirs)} />
+            </View>
+
+            <Text style={styles.sectionTitle}>{t('fileEditor.changesOnDisk')}</Text>
+            <DiffView oldText={props.base} newText={props.theirs} />
+            <Text style={styles.sectionTitle}>{t('fileEditor.yourChanges')}</Text>
+            <DiffView oldText={props.base} newText={props.ours} />
+        </ScrollView>
+    );
+}
+
+function ResolveButton(props: { title: string, primary?: boolean, onPress: () => void }) {
+    return (
+        <Pressable onPress={props.onPress} style={[styles.resolveButton, props.primary && styles.resolveButtonPrimary]}>
+            <Text style={[styles.resolveButtonText, props.primary && { color: 'white' }]}>{props.title}</Text>
+        </Pressable>
+    );
+}
+
+const styles = StyleSheet.create((theme) => ({
+    centered: {
+        flex: 1,
+        justifyContent: 'center',
+        alignItems: 'center',
+        padding: 20,
+    },
+    toolbar: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 16,
+        paddingHorizontal: 16,
+        paddingVertical: 8,
+        borderBottomWidth: Platform.select({ ios: 0.33, default: 1 }),
+        borderBottomColor: theme.colors.divider,
+    },
+    saveButton: {
+        paddingHorizontal: 16,
+        paddingVertical: 6,
+        borderRadius: 8,
+        backgroundColor: theme.colors.textLink,
+        minWidth: 64,
+        alignItems: 'center',
+    },
+    saveButtonText: {
+        fontSize: 14,
+        fontWeight: '600',
+        color: 'white',
+        ...Typography.default(),
+    },
+    secondaryText: {
+        fontSize: 13,
+        color: theme.colors.textSecondary,
+        ...Typography.default(),
+    },
+    input: {
+        position: 'absolute',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        padding: 0,
+        fontFamily: Typography.mono().fontFamily,
+        fontSize: 14,
+        lineHeight: 20,
+        textAlignVertical: 'top',
+    },
+    conflictTitle: {
+        fontSize: 17,
+        fontWeight: '600',
+        color: theme.colors.text,
+        ...Typography.default('semiBold'),
+    },
+    sectionTitle: {
+        fontSize: 14,
+        fontWeight: '600',
+        color: theme.colors.text,
+        marginTop: 8,
+        ...Typography.default(),
+    },
+    resolveRow: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: 8,
+    },
+    resolveButton: {
+        paddingHorizontal: 12,
+        paddingVertical: 8,
+        borderRadius: 8,
+        backgroundColor: theme.colors.input.background,
+    },
+    resolveButtonPrimary: {
+        backgroundColor: theme.colors.textLink,
+    },
+    resolveButtonText: {
+        fontSize: 14,
+        fontWeight: '600',
+        color: theme.colors.text,
+        ...Typography.default(),
+    },
+}));
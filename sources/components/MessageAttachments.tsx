@@ -0,0 +1,169 @@
+import * as React from 'react';
+import { View, Pressable, ActivityIndicator, useWindowDimensions } from 'react-native';
+import { Image } from 'expo-image';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { StyleSheet, useUnistyles } from 'react-native-unistyles';
+import { Text } from '@/components/StyledText';
+import { Typography } from '@/constants/Typography';
+import { formatAttachmentSize, isImageAttachment, MessageAttachment } from '@/sync/attachments';
+import { getLocalAttachmentUri } from '@/sync/attachmentsOps';
+import { sessionReadFile } from '@/sync/ops';
+import { Modal } from '@/modal';
+
+// Images downloaded back from the session, keyed by session and path. Entries are base64 data
+// URIs, so only the most recently shown ones are kept, Map order is the order of last use
+const MAX_CACHED_IMAGES = 20;
+const imageCache = new Map<string, string>();
+
+function getCachedImage(key: string): string | undefined {
+    const uri = imageCache.get(key);
+    if (uri !== undefined) {
+        imageCache.delete(key);
+        imageCache.set(key, uri);
+    }
+    return uri;
+}
+
+function cacheImage(key: string, uri: string) {
+    imageCache.delete(key);
+    imageCache.set(key, uri);
+    while (imageCache.size > MAX_CACHED_IMAGES) {
+        imageCache.delete(imageCache.keys().next().value!);
+    }
+}
+
+function useAttachmentImage(sessionId: string, attachment: MessageAttachment): string | null | 'error' {
+    const key = `${sessionId}:${attachment.path}`;
+    const [uri, setUri] = React.useState<string | null | 'error'>(() => getLocalAttachmentUri(sessionId, attachment.path) ?? getCachedImage(key) ?? null);
+
+    React.useEffect(() => {
+        if (uri !== null) {
+            return;
+        }
+        let cancelled = false;
+        sessionReadFile(sessionId, attachment.path).then((response) => {
+            if (cancelled) {
+                return;
+            }
+            if (response.success && response.content) {
+                const dataUri = `data:${attachment.mimeType};base64,${response.content}`;
+                cacheImage(key, dataUri);
+                setUri(dataUri);
+            } else {
+                setUri('error');
+            }
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [sessionId, attachment.path]);
+
+    return uri;
+}
+
+function ImagePreviewModal(props: { uri: string, onClose: () => void }) {
+    const { width, height } = useWindowDimensions();
+    return (
+        <Pressable onPress={props.onClose}>
+            <Image
+                source={{ uri: props.uri }}
+                style={{ width: width * 0.9, height: height * 0.8 }}
+                contentFit="contain"
+            />
+        </Pressable>
+    );
+}
+
+function ImageAttachment(props: { sessionId: string, attachment: MessageAttachment }) {
+    const { theme } = useUnistyles();
+    const uri = useAttachmentImage(props.sessionId, props.attachment);
+
+    if (uri === null || uri === 'error') {
+        return (
+            <View style={styles.thumbnail}>
+                {uri === null
+                    ? <ActivityIndicator size="small" color={theme.colors.textSecondary} />
+                    : <Ionicons name="image-outline" size={24} color={theme.colors.textSecondary} />}
+            </View>
+        );
+    }
+    return (
+        <Pressable onPress={() => Modal.show({ component: ImagePreviewModal, props: { uri } })}>
+            <Image source={{ uri }} style={styles.thumbnail} contentFit="cover" />
+        </Pressable>
+    );
+}
+
+/**
+ * Thumbnails of images and chips of files attached to a user message
+ */
+export const MessageAttachments = React.memo((props: { sessionId: string, attachments: MessageAttachment[] }) => {
+    const { theme } = useUnistyles();
+    const router = useRouter();
+    const images = props.attachments.filter(isImageAttachment);
+    const files = props.attachments.filter((attachment) => !isImageAttachment(attachment));
+
+    return (
+        <View style={styles.container}>
+            {images.length > 0 && (
+                <View style={styles.images}>
+                    {images.map((attachment) => (
+                        <ImageAttachment key={attachment.path} sessionId={props.sessionId} attachment={attachment} />
+                    ))}
+                </View>
+            )}
+            {files.map((attachment) => (
+                <Pressable
+                    key={attachment.path}
+                    style={styles.file}
+                    onPress={() => router.push(`/session/${props.sessionId}/file?path=${btoa(attachment.path)}`)}
+                >
+                    <Ionicons name="document-attach-outline" size={18} color={theme.colors.textSecondary} />
+                    <Text style={styles.fileName} numberOfLines={1}>{attachment.name}</Text>
+                    <Text style={styles.fileSize}>{formatAttachmentSize(attachment.size)}</Text>
+                </Pressable>
+            ))}
+        </View>
+    );
+});
+
+const styles = StyleSheet.create((theme) => ({
+    container: {
+        gap: 6,
+        marginVertical: 6,
+    },
+    images: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: 6,
+    },
+    thumbnail: {
+        width: 96,
+        height: 96,
+        borderRadius: 8,
+        backgroundColor: theme.colors.surfaceHigh,
+        alignItems: 'center',
+        justifyContent: 'center',
+    },
+    file: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 6,
+        paddingHorizontal: 10,
+        paddingVertical: 6,
+        borderRadius: 8,
+        backgroundColor: theme.colors.surfaceHigh,
+    },
+    fileName: {
+        flexShrink: 1,
+        fontSize: 13,
+        color: theme.colors.text,
+        ...Typography.default(),
+    },
+    fileSize: {
+        fontSize: 12,
+        color: theme.colors.textSecondary,
+        ...Typography.default(),
+    },
+}));
@@ -0,0 +1,165 @@
+import * as React from 'react';
+import { View, Pressable, ScrollView, useWindowDimensions } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { StyleSheet, useUnistyles } from 'react-native-unistyles';
+import { Text } from '@/components/StyledText';
+import { Typography } from '@/constants/Typography';
+import { layout } from './layout';
+import { storage, useMessageQueue } from '@/sync/storage';
+import { moveQueuedMessage, QueuedMessage, removeQueuedMessage, updateQueuedMessage } from '@/sync/messageQueue';
+import { sync } from '@/sync/sync';
+import { Modal } from '@/modal';
+import { t } from '@/text';
+
+interface MessageQueueViewProps {
+    sessionId: string;
+}
+
+/**
+ * Prompts staged above the input while the agent is thinking
+ */
+export const MessageQueueView = React.memo((props: MessageQueueViewProps) => {
+    const { theme } = useUnistyles();
+    const { width: screenWidth } = useWindowDimensions();
+    const queue = useMessageQueue(props.sessionId);
+
+    const handleMove = React.useCallback((message: QueuedMessage, offset: number) => {
+        storage.getState().applyMessageQueues(moveQueuedMessage(storage.getState().messageQueues, props.sessionId, message.id, offset));
+    }, [props.sessionId]);
+
+    const handleEdit = React.useCallback(async (message: QueuedMessage) => {
+        const text = await Modal.prompt(t('messageQueue.editTitle'), undefined, {
+            defaultValue: message.text,
+            confirmText: t('common.save')
+        });
+        if (text === null || !text.trim()) {
+            return;
+        }
+        storage.getState().applyMessageQueues(updateQueuedMessage(storage.getState().messageQueues, props.sessionId, message.id, text));
+    }, [props.sessionId]);
+
+    const handleDelete = React.useCallback((message: QueuedMessage) => {
+        storage.getState().applyMessageQueues(removeQueuedMessage(storage.getState().messageQueues, props.sessionId, message.id));
+    }, [props.sessionId]);
+
+    const handleSendNow = React.useCallback((message: QueuedMessage) => {
+        sync.sendQueuedMessage(props.sessionId, message.id);
+    }, [props.sessionId]);
+
+    if (queue.length === 0) {
+        return null;
+    }
+
+    return (
+        <View style={[styles.container, { paddingHorizontal: screenWidth > 700 ? 16 : 8 }]}>
+            <View style={[styles.panel, { maxWidth: layout.maxWidth }]}>
+                <View style={styles.header}>
+                    <Ionicons name="time-outline" size={14} color={theme.colors.textSecondary} />
+                    <Text style={styles.headerText}>{t('messageQueue.title', { count: queue.length })}</Text>
+                </View>
+                <ScrollView style={styles.list} keyboardShouldPersistTaps="handled">
+                    {queue.map((message, index) => (
+                        <View key={message.id} style={styles.row}>
+                            <Pressable style={styles.textContainer} onPress={() => handleEdit(message)}>
+                                {!!message.attachments?.length && (
+                                    <Ionicons name="attach" size={16} color={theme.colors.textSecondary} />
+                                )}
+                                <Text style={styles.text} numberOfLines={2}>
+                                    {message.text || message.attachments?.map((attachment) => attachment.name).join(', ')}
+                                </Text>
+                            </Pressable>
+                            <Pressable
+                                style={styles.button}
+                                onPress={() => handleMove(message, -1)}
+                                disabled={index === 0}
+                                hitSlop={4}
+                                accessibilityLabel={t('messageQueue.moveUp')}
+                            >
+                                <Ionicons name="chevron-up" size={18} color={index === 0 ? theme.colors.divider : theme.colors.textSecondary} />
+                            </Pressable>
+                            <Pressable
+                                style={styles.button}
+                                onPress={() => handleMove(message, 1)}
+                                disabled={index === queue.length - 1}
+                                hitSlop={4}
+                                accessibilityLabel={t('messageQueue.moveDown')}
+                            >
+                                <Ionicons name="chevron-down" size={18} color={index === queue.length - 1 ? theme.colors.divider : theme.colors.textSecondary} />
+                            </Pressable>
+                            <Pressable
+                                style={styles.button}
+                                onPress={() => handleSendNow(message)}
+                                hitSlop={4}
+                                accessibilityLabel={t('messageQueue.sendNow')}
+                            >
+                                <Ionicons name="arrow-up-circle-outline" size={18} color={theme.colors.textLink} />
+                            </Pressable>
+                            <Pressable
+                                style={styles.button}
+                                onPress={() => handleDelete(message)}
+                                hitSlop={4}
+                                accessibilityLabel={t('messageQueue.remove')}
+                            >
+                                <Ionicons name="close" size={18} color={theme.colors.textSecondary} />
+                            </Pressable>
+                        </View>
+                    ))}
+                </ScrollView>
+            </View>
+        </View>
+    );
+});
+
+const styles = StyleSheet.create((theme) => ({
+    container: {
+        alignItems: 'center',
+        paddingTop: 8,
+    },
+    panel: {
+        width: '100%',
+        borderRadius: 12,
+        backgroundColor: theme.colors.surfaceHigh,
+        paddingVertical: 6,
+    },
+    header: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 6,
+        paddingHorizontal: 12,
+        paddingBottom: 4,
+    },
+    headerText: {
+        fontSize: 12,
+        color: theme.colors.textSecondary,
+        ...Typography.default('semiBold'),
+    },
+    list: {
+        maxHeight: 160,
+    },
+    row: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingLeft: 12,
+        paddingRight: 6,
+        paddingVertical: 4,
+    },
+    textContainer: {
+        flex: 1,
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 4,
+        paddingRight: 6,
+    },
+    text: {
+        flexShrink: 1,
+        fontSize: 14,
+        color: theme.colors.text,
+        ...Typography.default(),
+    },
+    button: {
+        width: 28,
+        height: 28,
+        alignItems: 'center',
+        justifyContent: 'center',
+    },
+}));
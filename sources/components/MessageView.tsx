@@ -1,6 +1,6 @@
 import * as React from "react";
-import { View, Text } from "react-native";
-import { StyleSheet } from 'react-native-unistyles';
+import { View, Text, Pressable } from "react-native";
+import { StyleSheet, useUnistyles } from 'react-native-unistyles';
 import { MarkdownView } from "./markdown/MarkdownView";
 import { t } from '@/text';
 import { Message, UserTextMessage, AgentTextMessage, ToolCallMessage } from "@/sync/typesMessage";
@@ -10,6 +10,16 @@ import { ToolView } from "./tools/ToolView";
 import { AgentEvent } from "@/sync/typesRaw";
 import { sync } from '@/sync/sync';
 import { Option } from './markdown/MarkdownView';
+import { useArtifactIdBySource, useMessageDelivery, useSession } from '@/sync/storage';
+import { Ionicons } from '@expo/vector-icons';
+import { Modal } from '@/modal';
+import { useNavigateToSession } from '@/hooks/useNavigateToSession';
+import { getSessionName } from '@/utils/sessionUtils';
+import { MessageAttachments } from './MessageAttachments';
+import { useSaveAsArtifact } from '@/hooks/useSaveAsArtifact';
+import { AgentArtifact, suggestArtifactTitle } from '@/sync/agentArtifacts';
+import { useRouter } from 'expo-router';
+import { isSessionOwner } from '@/sync/sessionShareTypes';
 
 export const MessageView = (props: {
   message: Message;
@@ -72,14 +82,89 @@ function UserTextBlock(props: {
     sync.sendMessage(props.sessionId, option.title);
   }, [props.sessionId]);
 
+  // With attachments the sent text lists their paths, only what the user typed is shown
+  const attachments = props.message.meta?.attachments;
+  const text = attachments?.length ? (props.message.meta?.displayText ?? props.message.text) : (props.message.displayText || props.message.text);
+
   return (
     <View style={styles.userMessageContainer}>
       <View style={styles.userMessageBubble}>
-        <MarkdownView markdown={props.message.displayText || props.message.text} onOptionPress={handleOptionPress} />
+        {attachments && attachments.length > 0 && (
+          <MessageAttachments sessionId={props.sessionId} attachments={attachments} />
+        )}
+        {!!text && (
+          <MarkdownView markdown={text} onOptionPress={handleOptionPress} />
+        )}
         {/* {__DEV__ && (
           <Text style={styles.debugText}>{JSON.stringify(props.message.meta)}</Text>
         )} */}
       </View>
+      <MessageDeliveryStatus localId={props.message.localId} />
+      <ForkAction message={props.message} sessionId={props.sessionId} />
+    </View>
+  );
+}
+
+function ForkAction(props: { message: UserTextMessage; sessionId: string }) {
+  const { theme } = useUnistyles();
+  const session = useSession(props.sessionId);
+  const delivery = useMessageDelivery(props.message.localId);
+  const navigateToSession = useNavigateToSession();
+  const [forking, setForking] = React.useState(false);
+
+  // Only sent messages of own sessions that know their machine can be forked, forking runs on the owner's machine
+  if (!session?.metadata?.machineId || !isSessionOwner(session) || delivery) {
+    return null;
+  }
+
+  const fork = async (worktree: boolean) => {
+    setForking(true);
+    try {
+      const forkId = await sync.forkSession(props.sessionId, props.message.id, { worktree, parentTitle: getSessionName(session) });
+      navigateToSession(forkId);
+    } catch (error) {
+      Modal.alert(t('common.error'), t('sessionFork.failed', { error: error instanceof Error ? error.message : String(error) }));
+    } finally {
+      setForking(false);
+    }
+  };
+
+  const handlePress = () => {
+    Modal.alert(t('sessionFork.title'), t('sessionFork.message'), [
+      { text: t('common.cancel'), style: 'cancel' },
+      { text: t('sessionFork.fork'), onPress: () => fork(false) },
+      { text: t('sessionFork.forkInWorktree'), onPress: () => fork(true) },
+    ]);
+  };
+
+  return (
+    <Pressable onPress={handlePress} disabled={forking} hitSlop={8} style={styles.forkButton}>
+      <Ionicons name="git-branch-outline" size={12} color={theme.colors.textSecondary} />
+      <Text style={styles.forkText}>{forking ? t('sessionFork.forking') : t('sessionFork.fork')}</Text>
+    </Pressable>
+  );
+}
+
+function MessageDeliveryStatus(props: { localId: string | null }) {
+  const delivery = useMessageDelivery(props.localId);
+  if (!delivery) {
+    return null;
+  }
+  if (delivery === 'failed') {
+    return (
+      <View style={styles.deliveryContainer}>
+        <Text style={styles.deliveryFailedText}>{t('message.deliveryFailed')}</Text>
+        <Pressable onPress={() => sync.retryMessage(props.localId!)} hitSlop={8}>
+          <Text style={styles.deliveryRetryText}>{t('common.retry')}</Text>
+        </Pressable>
+      </View>
+    );
+  }
+  return (
+    <View style={styles.deliveryContainer}>
+      <Text style={styles.deliveryText}>
+        {delivery === 'queued' ? t('message.deliveryQueued') : t('message.deliverySending')}
+      </Text>
     </View>
   );
 }
@@ -88,17 +173,62 @@ function AgentTextBlock(props: {
   message: AgentTextMessage;
   sessionId: string;
 }) {
+  const { theme } = useUnistyles();
+  const saveAsArtifact = useSaveAsArtifact(props.sessionId);
   const handleOptionPress = React.useCallback((option: Option) => {
     sync.sendMessage(props.sessionId, option.title);
   }, [props.sessionId]);
+  const handleSaveCodeBlock = React.useCallback((content: string, language: string | null) => {
+    saveAsArtifact(content.replace(/\n$/, ''), suggestArtifactTitle(content), { type: 'code', language: language ?? undefined });
+  }, [saveAsArtifact]);
 
   return (
     <View style={styles.agentMessageContainer}>
-      <MarkdownView markdown={props.message.text} onOptionPress={handleOptionPress} />
+      {!!props.message.text && (
+        <MarkdownView markdown={props.message.text} onOptionPress={handleOptionPress} onSaveCodeBlock={handleSaveCodeBlock} />
+      )}
+      {props.message.artifacts?.map((artifact) => (
+        <PublishedArtifact key={artifact.key} artifact={artifact} sessionId={props.sessionId} />
+      ))}
+      {!!props.message.text && (
+        <Pressable
+          onPress={() => saveAsArtifact(props.message.text, suggestArtifactTitle(props.message.text))}
+          hitSlop={8}
+          style={styles.saveArtifactButton}
+        >
+          <Ionicons name="bookmark-outline" size={12} color={theme.colors.textSecondary} />
+          <Text style={styles.forkText}>{t('artifacts.saveAsArtifact')}</Text>
+        </Pressable>
+      )}
     </View>
   );
 }
 
+function PublishedArtifact(props: { artifact: AgentArtifact; sessionId: string }) {
+  const { theme } = useUnistyles();
+  const router = useRouter();
+  const artifactId = useArtifactIdBySource(`${props.sessionId}:${props.artifact.key}`);
+
+  return (
+    <Pressable
+      onPress={() => artifactId && router.push(`/artifacts/${artifactId}`)}
+      disabled={!artifactId}
+      style={styles.publishedArtifact}
+    >
+      <Ionicons name="document-text-outline" size={20} color={theme.colors.textSecondary} />
+      <View style={{ flex: 1 }}>
+        <Text style={styles.publishedArtifactTitle} numberOfLines={1}>
+          {props.artifact.title || t('artifacts.untitled')}
+        </Text>
+        <Text style={styles.publishedArtifactSubtitle}>
+          {artifactId ? t('artifacts.publishedByAgent') : t('artifacts.publishing')}
+        </Text>
+      </View>
+      {artifactId && <Ionicons name="chevron-forward" size={16} color={theme.colors.textSecondary} />}
+    </Pressable>
+  );
+}
+
 function AgentEventBlock(props: {
   event: AgentEvent;
   metadata: Metadata | null;
@@ -208,6 +338,65 @@ const styles = StyleSheet.create((theme) => ({
   toolContainer: {
     marginHorizontal: 8,
   },
+  deliveryContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: -8,
+    marginBottom: 12,
+  },
+  deliveryText: {
+    color: theme.colors.textSecondary,
+    fontSize: 12,
+  },
+  deliveryFailedText: {
+    color: theme.colors.textDestructive,
+    fontSize: 12,
+  },
+  deliveryRetryText: {
+    color: theme.colors.textLink,
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  forkButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginTop: -8,
+    marginBottom: 12,
+  },
+  forkText: {
+    color: theme.colors.textSecondary,
+    fontSize: 12,
+  },
+  saveArtifactButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginTop: 4,
+  },
+  publishedArtifact: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    marginTop: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: theme.colors.divider,
+    backgroundColor: theme.colors.surfaceHighest,
+  },
+  publishedArtifactTitle: {
+    color: theme.colors.text,
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  publishedArtifactSubtitle: {
+    color: theme.colors.textSecondary,
+    fontSize: 12,
+    marginTop: 2,
+  },
   debugText: {
     color: theme.colors.agentEventText,
     fontSize: 12,
@@ -0,0 +1,200 @@
+import React from 'react';
+import { View, Text, ScrollView, Pressable } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { StyleSheet, useUnistyles } from 'react-native-unistyles';
+import { Item } from '@/components/Item';
+import { ItemGroup } from '@/components/ItemGroup';
+import { ItemList } from '@/components/ItemList';
+import { Session } from '@/sync/storageTypes';
+import { usePermissionDecisions, usePermissionRuleAudit } from '@/sync/storage';
+import {
+    buildPermissionAudit,
+    filterPermissionAudit,
+    permissionAuditTools,
+    permissionAuditToCSV,
+    PermissionAuditEntry,
+    PermissionOutcome
+} from '@/sync/permissionAudit';
+import { formatPermissionParams } from '@/utils/formatPermissionParams';
+import { formatLastSeen, getSessionName } from '@/utils/sessionUtils';
+import { shareTextFile } from '@/utils/shareFile';
+import { useHappyAction } from '@/hooks/useHappyAction';
+import { HappyError } from '@/utils/errors';
+import { Modal } from '@/modal';
+import { t } from '@/text';
+
+const outcomes: PermissionOutcome[] = ['approved', 'denied', 'canceled'];
+
+const outcomeIcons: Record<PermissionOutcome, { name: React.ComponentProps<typeof Ionicons>['name'], color: string }> = {
+    approved: { name: 'checkmark-circle-outline', color: '#34C759' },
+    denied: { name: 'close-circle-outline', color: '#FF3B30' },
+    canceled: { name: 'remove-circle-outline', color: '#8E8E93' },
+};
+
+const deviceNames: Record<string, string> = {
+    ios: 'iOS',
+    android: 'Android',
+    mac: 'Mac',
+    web: 'Web',
+};
+
+function outcomeTitle(outcome: PermissionOutcome): string {
+    switch (outcome) {
+        case 'approved':
+            return t('permissionAudit.approved');
+        case 'denied':
+            return t('permissionAudit.denied');
+        case 'canceled':
+            return t('permissionAudit.canceled');
+    }
+}
+
+function deciderTitle(entry: PermissionAuditEntry): string {
+    switch (entry.decidedBy) {
+        case 'rule':
+            return t('permissionAudit.decidedByRule');
+        case 'user':
+            return t('permissionAudit.decidedByYou', { device: deviceNames[entry.sentFrom ?? ''] ?? entry.sentFrom ?? '' });
+        case 'unknown':
+            return t('permissionAudit.decidedElsewhere');
+    }
+}
+
+/**
+ * Filterable list of permission decisions of the given sessions with CSV export
+ */
+export const PermissionAuditView = React.memo((props: { sessions: Session[], exportName: string, showSessions?: boolean }) => {
+    const { theme } = useUnistyles();
+    const decisions = usePermissionDecisions();
+    const ruleAudit = usePermissionRuleAudit();
+    const [tool, setTool] = React.useState<string | null>(null);
+    const [outcome, setOutcome] = React.useState<PermissionOutcome | null>(null);
+
+    const entries = React.useMemo(() => buildPermissionAudit(props.sessions, decisions, ruleAudit), [props.sessions, decisions, ruleAudit]);
+    const tools = React.useMemo(() => permissionAuditTools(entries), [entries]);
+    const filtered = React.useMemo(() => filterPermissionAudit(entries, { tool, outcome }), [entries, tool, outcome]);
+    const sessionNames = React.useMemo(() => {
+        const names: Record<string, string> = {};
+        for (const session of props.sessions) {
+            names[session.id] = getSessionName(session);
+        }
+        return names;
+    }, [props.sessions]);
+
+    const [exporting, exportCSV] = useHappyAction(async () => {
+        try {
+            await shareTextFile({
+                content: permissionAuditToCSV(filtered, sessionNames),
+                fileName: `${props.exportName}.csv`,
+                mimeType: 'text/csv',
+                uti: 'public.comma-separated-values-text',
+                dialogTitle: t('permissionAudit.exportCsv')
+            });
+        } catch (error) {
+            console.error('Failed to export permission log:', error);
+            throw new HappyError(t('permissionAudit.exportFailed'), false);
+        }
+    });
+
+    const showDetails = React.useCallback((entry: PermissionAuditEntry) => {
+        const lines = [
+            `${outcomeTitle(entry.outcome)} · ${deciderTitle(entry)}`,
+        ];
+        if (entry.decision) {
+            lines.push(t('permissionAudit.decision', { decision: entry.decision }));
+        }
+        if (entry.mode) {
+            lines.push(t('permissionAudit.mode', { mode: entry.mode }));
+        }
+        if (entry.reason) {
+            lines.push(entry.reason);
+        }
+        lines.push('', JSON.stringify(entry.arguments ?? null, null, 2));
+        Modal.alert(entry.tool, lines.join('\n'));
+    }, []);
+
+    const renderChip = (key: string, title: string, selected: boolean, onPress: () => void) => (
+        <Pressable
+            key={key}
+            onPress={onPress}
+            style={[styles.chip, selected && { backgroundColor: theme.colors.text }]}
+        >
+            <Text style={[styles.chipText, selected && { color: theme.colors.surface }]}>{title}</Text>
+        </Pressable>
+    );
+
+    return (
+        <ItemList style={{ paddingTop: 0 }}>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chips}>
+                {renderChip('all', t('permissionAudit.allOutcomes'), outcome === null, () => setOutcome(null))}
+                {outcomes.map((o) => renderChip(o, outcomeTitle(o), outcome === o, () => setOutcome(outcome === o ? null : o)))}
+            </ScrollView>
+            {tools.length > 1 && (
+                <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chips}>
+                    {renderChip('all', t('permissionAudit.allTools'), tool === null, () => setTool(null))}
+                    {tools.map((name) => renderChip(name, name, tool === name, () => setTool(tool === name ? null : name)))}
+                </ScrollView>
+            )}
+
+            <ItemGroup
+                title={t('permissionAudit.decisions')}
+                footer={t('permissionAudit.footer')}
+            >
+                {filtered.length === 0 && (
+                    <Item title={t('permissionAudit.empty')} showChevron={false} />
+                )}
+                {filtered.map((entry) => {
+                    const subtitle = [formatPermissionParams(entry.arguments, 3, 40)];
+                    if (props.showSessions && sessionNames[entry.sessionId]) {
+                        subtitle.push(sessionNames[entry.sessionId]);
+                    }
+                    const time = entry.completedAt ?? entry.createdAt;
+                    subtitle.push(time !== null ? `${deciderTitle(entry)} · ${formatLastSeen(time)}` : deciderTitle(entry));
+                    return (
+                        <Item
+                            key={`${entry.sessionId}-${entry.id}`}
+                            title={entry.tool}
+                            subtitle={subtitle.join('\n')}
+                            subtitleLines={0}
+                            detail={outcomeTitle(entry.outcome)}
+                            icon={<Ionicons name={outcomeIcons[entry.outcome].name} size={29} color={outcomeIcons[entry.outcome].color} />}
+                            onPress={() => showDetails(entry)}
+                            showChevron={false}
+                        />
+                    );
+                })}
+            </ItemGroup>
+
+            <ItemGroup>
+                <Item
+                    title={t('permissionAudit.exportCsv')}
+                    subtitle={t('permissionAudit.exportCsvSubtitle', { count: filtered.length })}
+                    icon={<Ionicons name="download-outline" size={29} color="#007AFF" />}
+                    onPress={exportCSV}
+                    loading={exporting}
+                    disabled={exporting || filtered.length === 0}
+                    showChevron={false}
+                />
+            </ItemGroup>
+            <View style={{ height: 16 }} />
+        </ItemList>
+    );
+});
+
+const styles = StyleSheet.create((theme) => ({
+    chips: {
+        paddingHorizontal: 16,
+        paddingTop: 12,
+        gap: 8,
+    },
+    chip: {
+        paddingHorizontal: 12,
+        paddingVertical: 6,
+        borderRadius: 16,
+        backgroundColor: theme.colors.surfaceHighest,
+    },
+    chipText: {
+        fontSize: 14,
+        color: theme.colors.text,
+    },
+}));
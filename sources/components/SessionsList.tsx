@@ -9,7 +9,7 @@ import { Avatar } from './Avatar';
 import { ActiveSessionsGroup } from './ActiveSessionsGroup';
 import { ActiveSessionsGroupCompact } from './ActiveSessionsGroupCompact';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
-import { useSetting } from '@/sync/storage';
+import { useSession, useSetting } from '@/sync/storage';
 import { useVisibleSessionListViewData } from '@/hooks/useVisibleSessionListViewData';
 import { Typography } from '@/constants/Typography';
 import { Session } from '@/sync/storageTypes';
@@ -196,6 +196,7 @@ export function SessionsList() {
     const keyExtractor = React.useCallback((item: SessionListViewItem & { selected?: boolean }, index: number) => {
         switch (item.type) {
             case 'header': return `header-${item.title}-${index}`;
+            case 'shared-header': return 'shared-header';
             case 'active-sessions': return 'active-sessions';
             case 'project-group': return `project-group-${item.machine.id}-${item.displayPath}-${index}`;
             case 'session': return `session-${item.session.id}`;
@@ -213,6 +214,15 @@ export function SessionsList() {
                     </View>
                 );
 
+            case 'shared-header':
+                return (
+                    <View style={styles.headerSection}>
+                        <Text style={styles.headerText}>
+                            {t('sessionSharing.sharedWithMe')}
+                        </Text>
+                    </View>
+                );
+
             case 'active-sessions':
                 // Extract just the session ID from pathname (e.g., /session/abc123/file -> abc123)
                 let selectedId: string | undefined;
@@ -246,8 +256,8 @@ export function SessionsList() {
                 const prevItem = index > 0 && dataWithSelected ? dataWithSelected[index - 1] : null;
                 const nextItem = index < (dataWithSelected?.length || 0) - 1 && dataWithSelected ? dataWithSelected[index + 1] : null;
 
-                const isFirst = prevItem?.type === 'header';
-                const isLast = nextItem?.type === 'header' || nextItem == null || nextItem?.type === 'active-sessions';
+                const isFirst = prevItem?.type === 'header' || prevItem?.type === 'shared-header';
+                const isLast = nextItem?.type === 'header' || nextItem?.type === 'shared-header' || nextItem == null || nextItem?.type === 'active-sessions';
                 const isSingle = isFirst && isLast;
 
                 return (
@@ -300,7 +310,10 @@ const SessionItem = React.memo(({ session, selected, isFirst, isLast, isSingle }
     const styles = stylesheet;
     const sessionStatus = useSessionStatus(session);
     const sessionName = getSessionName(session);
-    const sessionSubtitle = getSessionSubtitle(session);
+    const parentSession = useSession(session.metadata?.forkedFrom?.sessionId ?? '');
+    const sessionSubtitle = parentSession
+        ? t('sessionFork.subtitle', { subtitle: getSessionSubtitle(session), name: getSessionName(parentSession) })
+        : getSessionSubtitle(session);
     const navigateToSession = useNavigateToSession();
     const isTablet = useIsTablet();
 
@@ -322,6 +322,24 @@ export const SettingsView = React.memo(function SettingsView() {
                     icon={<Ionicons name="flask-outline" size={29} color="#FF9500" />}
                     onPress={() => router.push('/settings/features')}
                 />
+                <Item
+                    title={t('permissionRules.title')}
+                    subtitle={t('permissionRules.subtitle')}
+                    icon={<Ionicons name="shield-checkmark-outline" size={29} color="#34C759" />}
+                    onPress={() => router.push('/settings/permission-rules')}
+                />
+                <Item
+                    title={t('scheduledPrompts.title')}
+                    subtitle={t('scheduledPrompts.subtitle')}
+                    icon={<Ionicons name="alarm-outline" size={29} color="#FF9500" />}
+                    onPress={() => router.push('/schedules')}
+                />
+                <Item
+                    title={t('promptTemplates.title')}
+                    subtitle={t('promptTemplates.subtitle')}
+                    icon={<Ionicons name="document-text-outline" size={29} color="#5856D6" />}
+                    onPress={() => router.push('/templates')}
+                />
                 {experiments && (
                     <Item
                         title={t('settings.usage')}
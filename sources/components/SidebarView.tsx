@@ -11,6 +11,7 @@ import { VoiceAssistantStatusBar } from './VoiceAssistantStatusBar';
 import { useRealtimeStatus } from '@/sync/storage';
 import { MainView } from './MainView';
 import { Image } from 'expo-image';
+import { Ionicons } from '@expo/vector-icons';
 import { StyleSheet, useUnistyles } from 'react-native-unistyles';
 import { t } from '@/text';
 import { useInboxHasContent } from '@/hooks/useInboxHasContent';
@@ -204,6 +205,20 @@ export const SidebarView = React.memo(() => {
                                 />
                             </Pressable>
                         )}
+                        <Pressable
+                            onPress={() => router.push('/session/dashboard')}
+                            hitSlop={15}
+                            style={{ width: 32, height: 32, alignItems: 'center', justifyContent: 'center' }}
+                        >
+                            <Ionicons name="grid-outline" size={22} color={theme.colors.header.tint} />
+                        </Pressable>
+                        <Pressable
+                            onPress={() => router.push('/session/search')}
+                            hitSlop={15}
+                            style={{ width: 32, height: 32, alignItems: 'center', justifyContent: 'center' }}
+                        >
+                            <Ionicons name="search-outline" size={24} color={theme.colors.header.tint} />
+                        </Pressable>
                         <Pressable
                             onPress={() => router.push('/(app)/inbox')}
                             hitSlop={15}
@@ -0,0 +1,167 @@
+import * as React from 'react';
+import { View, TextInput, Pressable, ScrollView } from 'react-native';
+import { StyleSheet, useUnistyles } from 'react-native-unistyles';
+import { Text } from '@/components/StyledText';
+import { Typography } from '@/constants/Typography';
+import { extractTemplateVariables, fillTemplate, PromptTemplate } from '@/sync/promptTemplates';
+import { Modal } from '@/modal';
+import { t } from '@/text';
+
+interface TemplateVariablesModalProps {
+    template: PromptTemplate;
+    variables: string[];
+    onResolve: (values: Record<string, string> | null) => void;
+    onClose: () => void;
+}
+
+function TemplateVariablesModal(props: TemplateVariablesModalProps) {
+    const { theme } = useUnistyles();
+    const [values, setValues] = React.useState<Record<string, string>>({});
+    const resolved = React.useRef(false);
+
+    const resolve = React.useCallback((result: Record<string, string> | null) => {
+        if (!resolved.current) {
+            resolved.current = true;
+            props.onResolve(result);
+        }
+    }, [props.onResolve]);
+
+    // Closing the modal in any other way cancels the insert
+    React.useEffect(() => () => resolve(null), [resolve]);
+
+    const handleInsert = () => {
+        resolve(values);
+        props.onClose();
+    };
+
+    const handleCancel = () => {
+        resolve(null);
+        props.onClose();
+    };
+
+    return (
+        <View style={styles.container}>
+            <Text style={styles.title}>{props.template.name}</Text>
+            {!!props.template.description && (
+                <Text style={styles.description}>{props.template.description}</Text>
+            )}
+            <ScrollView style={styles.fields} keyboardShouldPersistTaps="handled">
+                {props.variables.map((name, index) => (
+                    <View key={name} style={styles.field}>
+                        <Text style={styles.label}>{name}</Text>
+                        <TextInput
+                            style={styles.input}
+                            value={values[name] ?? ''}
+                            onChangeText={(value) => setValues((prev) => ({ ...prev, [name]: value }))}
+                            placeholder={t('promptTemplates.variablePlaceholder', { name })}
+                            placeholderTextColor={theme.colors.input.placeholder}
+                            autoFocus={index === 0}
+                            multiline
+                        />
+                    </View>
+                ))}
+            </ScrollView>
+            <View style={styles.buttons}>
+                <Pressable style={styles.button} onPress={handleCancel}>
+                    <Text style={styles.buttonText}>{t('common.cancel')}</Text>
+                </Pressable>
+                <View style={styles.buttonSeparator} />
+                <Pressable style={styles.button} onPress={handleInsert}>
+                    <Text style={[styles.buttonText, Typography.default('semiBold')]}>{t('promptTemplates.insert')}</Text>
+                </Pressable>
+            </View>
+        </View>
+    );
+}
+
+/**
+ * Text of a template to insert, asking for its variables first. Null when cancelled
+ */
+export function resolveTemplateText(template: PromptTemplate): Promise<string | null> {
+    const variables = extractTemplateVariables(template.body);
+    if (variables.length === 0) {
+        return Promise.resolve(template.body);
+    }
+    return new Promise((resolve) => {
+        Modal.show({
+            component: TemplateVariablesModal,
+            props: {
+                template,
+                variables,
+                onResolve: (values: Record<string, string> | null) => resolve(values ? fillTemplate(template.body, values) : null)
+            }
+        });
+    });
+}
+
+const styles = StyleSheet.create((theme) => ({
+    container: {
+        width: 340,
+        maxWidth: '100%',
+        maxHeight: 520,
+        borderRadius: 14,
+        overflow: 'hidden',
+        backgroundColor: theme.colors.surface,
+    },
+    title: {
+        paddingHorizontal: 16,
+        paddingTop: 20,
+        fontSize: 17,
+        textAlign: 'center',
+        color: theme.colors.text,
+        ...Typography.default('semiBold'),
+    },
+    description: {
+        paddingHorizontal: 16,
+        paddingTop: 4,
+        fontSize: 13,
+        textAlign: 'center',
+        color: theme.colors.textSecondary,
+        ...Typography.default(),
+    },
+    fields: {
+        paddingHorizontal: 16,
+        marginVertical: 12,
+    },
+    field: {
+        gap: 4,
+        marginBottom: 12,
+    },
+    label: {
+        fontSize: 13,
+        color: theme.colors.textSecondary,
+        ...Typography.mono(),
+    },
+    input: {
+        minHeight: 36,
+        maxHeight: 120,
+        borderWidth: 1,
+        borderColor: theme.colors.divider,
+        borderRadius: 8,
+        paddingHorizontal: 10,
+        paddingVertical: 8,
+        fontSize: 14,
+        color: theme.colors.text,
+        backgroundColor: theme.colors.input.background,
+        ...Typography.default(),
+    },
+    buttons: {
+        flexDirection: 'row',
+        borderTopWidth: 1,
+        borderTopColor: theme.colors.divider,
+    },
+    button: {
+        flex: 1,
+        alignItems: 'center',
+        paddingVertical: 11,
+    },
+    buttonSeparator: {
+        width: 1,
+        backgroundColor: theme.colors.divider,
+    },
+    buttonText: {
+        fontSize: 17,
+        color: theme.colors.textLink,
+        ...Typography.default(),
+    },
+}));
@@ -1,12 +1,16 @@
-import { CommandSuggestion, FileMentionSuggestion } from '@/components/AgentInputSuggestionView';
+import { CommandSuggestion, FileMentionSuggestion, TemplateSuggestion } from '@/components/AgentInputSuggestionView';
 import * as React from 'react';
 import { searchFiles, FileItem } from '@/sync/suggestionFile';
 import { searchCommands, CommandItem } from '@/sync/suggestionCommands';
+import { searchTemplates, templateCommand } from '@/sync/promptTemplates';
+import { storage } from '@/sync/storage';
+import { resolveTemplateText } from '@/components/TemplateVariablesModal';
 
 export async function getCommandSuggestions(sessionId: string, query: string): Promise<{
     key: string;
     text: string;
     component: React.ComponentType;
+    resolveText?: () => Promise<string | null>;
 }[]> {
     // Remove the "/" prefix for searching
     const searchTerm = query.slice(1);
@@ -15,15 +19,29 @@ export async function getCommandSuggestions(sessionId: string, query: string): P
         // Use the command search cache with fuzzy matching
         const commands = await searchCommands(sessionId, searchTerm, { limit: 5 });
         
+        // Templates of the library are offered as commands that insert their text
+        const templates = searchTemplates(Object.values(storage.getState().promptTemplates?.templates ?? {}), searchTerm, 3);
+
         // Convert CommandItem to suggestion format
-        return commands.map((cmd: CommandItem) => ({
-            key: `cmd-${cmd.command}`,
-            text: `/${cmd.command}`,
-            component: () => React.createElement(CommandSuggestion, {
-                command: cmd.command,
-                description: cmd.description
-            })
-        }));
+        return [
+            ...commands.map((cmd: CommandItem) => ({
+                key: `cmd-${cmd.command}`,
+                text: `/${cmd.command}`,
+                component: () => React.createElement(CommandSuggestion, {
+                    command: cmd.command,
+                    description: cmd.description
+                })
+            })),
+            ...templates.map((template) => ({
+                key: `template-${template.id}`,
+                text: template.body,
+                component: () => React.createElement(TemplateSuggestion, {
+                    command: templateCommand(template.name),
+                    description: template.description || template.name
+                }),
+                resolveText: () => resolveTemplateText(template)
+            }))
+        ];
     } catch (error) {
         console.error('Error fetching command suggestions:', error);
         // Return empty array on error
@@ -35,6 +53,7 @@ export async function getFileMentionSuggestions(sessionId: string, query: string
     key: string;
     text: string;
     component: React.ComponentType;
+    resolveText?: () => Promise<string | null>;
 }[]> {
     // Remove the "@" prefix for searching
     const searchTerm = query.slice(1);
@@ -64,6 +83,7 @@ export async function getSuggestions(sessionId: string, query: string): Promise<
     key: string;
     text: string;
     component: React.ComponentType;
+    resolveText?: () => Promise<string | null>;
 }[]> {
     console.log('💡 getSuggestions called with query:', JSON.stringify(query));
     
@@ -12,7 +12,8 @@ export function useActiveSuggestions(
     handler: (query: string) => Promise<{
         key: string,
         text: string,
-        component: React.ElementType
+        component: React.ElementType,
+        resolveText?: () => Promise<string | null>
     }[]>,
     options: SuggestionOptions = {}
 ) {
@@ -24,7 +25,7 @@ export function useActiveSuggestions(
 
     // State for suggestions
     const [state, setState] = React.useState<{
-        suggestions: { key: string, text: string, component: React.ElementType }[];
+        suggestions: { key: string, text: string, component: React.ElementType, resolveText?: () => Promise<string | null> }[];
         selected: number,
     }>({
         suggestions: [],
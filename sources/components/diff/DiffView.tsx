@@ -1,10 +1,17 @@
 import React, { useMemo } from 'react';
 import { View, Text, ViewStyle } from 'react-native';
-import { calculateUnifiedDiff, DiffToken } from '@/components/diff/calculateDiff';
+import { calculateUnifiedDiff, DiffHunk, DiffLine, DiffToken } from '@/components/diff/calculateDiff';
 import { Typography } from '@/constants/Typography';
 import { useUnistyles } from 'react-native-unistyles';
 
 
+export interface DiffLineTarget {
+    side: 'old' | 'new';
+    lineNumber: number;
+    content: string;
+    snippet: string; // The line with a line of context on each side
+}
+
 interface DiffViewProps {
     oldText: string;
     newText: string;
@@ -18,6 +25,20 @@ interface DiffViewProps {
     maxHeight?: number;
     wrapLines?: boolean;
     fontScaleX?: number;
+    onLineLongPress?: (target: DiffLineTarget) => void;
+    lineMarkers?: Record<string, string>; // Gutter marker colors keyed by "side:lineNumber"
+}
+
+function getLineTarget(hunk: DiffHunk, line: DiffLine): DiffLineTarget {
+    const side = line.type === 'remove' ? 'old' : 'new';
+    const sideLines = hunk.lines.filter((l) => side === 'old' ? l.type !== 'add' : l.type !== 'remove');
+    const index = sideLines.indexOf(line);
+    return {
+        side,
+        lineNumber: (side === 'old' ? line.oldLineNumber : line.newLineNumber) ?? 0,
+        content: line.content,
+        snippet: sideLines.slice(Math.max(0, index - 1), index + 2).map((l) => l.content).join('\n')
+    };
 }
 
 export const DiffView: React.FC<DiffViewProps> = ({
@@ -29,6 +50,8 @@ export const DiffView: React.FC<DiffViewProps> = ({
     wrapLines = false,
     style,
     fontScaleX = 1,
+    onLineLongPress,
+    lineMarkers,
 }) => {
     // Always use light theme colors
     const { theme } = useUnistyles();
@@ -155,12 +178,15 @@ export const DiffView: React.FC<DiffViewProps> = ({
                 const isRemoved = line.type === 'remove';
                 const textColor = isAdded ? colors.addedText : isRemoved ? colors.removedText : colors.contextText;
                 const bgColor = isAdded ? colors.addedBg : isRemoved ? colors.removedBg : colors.contextBg;
+                const markerKey = isRemoved ? `old:${line.oldLineNumber}` : `new:${line.newLineNumber}`;
+                const markerColor = lineMarkers?.[markerKey];
                 
                 // Render complete line in a single Text element
                 lines.push(
                     <Text
                         key={`line-${hunkIndex}-${lineIndex}`}
                         numberOfLines={wrapLines ? undefined : 1}
+                        onLongPress={onLineLongPress ? () => onLineLongPress(getLineTarget(hunk, line)) : undefined}
                         style={{
                             ...Typography.mono(),
                             fontSize: 13,
@@ -171,10 +197,14 @@ export const DiffView: React.FC<DiffViewProps> = ({
                             paddingRight: 8,
                         }}
                     >
+                        {markerColor && (
+                            <Text style={{ color: markerColor }}>{'\u25CF'}</Text>
+                        )}
                         {showLineNumbers && (
                             <Text style={{
-                                color: colors.lineNumberText,
+                                color: markerColor ?? colors.lineNumberText,
                                 backgroundColor: colors.lineNumberBg,
+                                fontWeight: markerColor ? '700' : undefined,
                             }}>
                                 {String(line.type === 'remove' ? line.oldLineNumber :
                                        line.type === 'add' ? line.newLineNumber :
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { mergeThreeWay } from './mergeThreeWay';
+
+const base = ['one', 'two', 'three', 'four', 'five', 'six'].join('\n');
+
+describe('mergeThreeWay', () => {
+    it('should combine changes to different lines', () => {
+        const ours = base.replace('two', 'TWO');
+        const theirs = base.replace('five', 'FIVE') + '\nseven';
+        expect(mergeThreeWay(base, ours, theirs)).toEqual({
+            merged: ['one', 'TWO', 'three', 'four', 'FIVE', 'six', 'seven'].join('\n'),
+            conflicts: 0
+        });
+    });
+
+    it('should accept identical changes on both sides', () => {
+        const changed = base.replace('three', 'THREE');
+        expect(mergeThreeWay(base, changed, changed)).toEqual({ merged: changed, conflicts: 0 });
+    });
+
+    it('should mark overlapping changes as conflicts', () => {
+        const ours = base.replace('three', 'mine');
+        const theirs = base.replace('three', 'agent');
+        const result = mergeThreeWay(base, ours, theirs, { ours: 'app', theirs: 'disk' });
+        expect(result.conflicts).toBe(1);
+        expect(result.merged).toBe(['one', 'two', '<<<<<<< app', 'mine', '=======', 'agent', '>>>>>>> disk', 'four', 'five', 'six'].join('\n'));
+    });
+
+    it('should keep deletions of one side', () => {
+        const ours = base.replace('four\n', '');
+        expect(mergeThreeWay(base, ours, base).merged).toBe(ours);
+        expect(mergeThreeWay(base, base, ours).merged).toBe(ours);
+    });
+});
@@ -0,0 +1,122 @@
+import { diffArrays } from 'diff';
+
+export interface MergeResult {
+    merged: string; // Merged text, conflicting regions are wrapped in conflict markers
+    conflicts: number;
+}
+
+interface ChangeRegion {
+    baseStart: number;
+    baseEnd: number; // Exclusive
+    lines: string[]; // Replacement for base[baseStart, baseEnd)
+}
+
+function splitLines(text: string): string[] {
+    return text.length === 0 ? [] : text.split('\n');
+}
+
+/**
+ * Regions of the base that were replaced in the changed version
+ */
+function changeRegions(base: string[], changed: string[]): ChangeRegion[] {
+    const regions: ChangeRegion[] = [];
+    let baseIndex = 0;
+    let current: ChangeRegion | null = null;
+    for (const part of diffArrays(base, changed)) {
+        if (part.added || part.removed) {
+            if (!current) {
+                current = { baseStart: baseIndex, baseEnd: baseIndex, lines: [] };
+                regions.push(current);
+            }
+            if (part.removed) {
+                baseIndex += part.count ?? part.value.length;
+                current.baseEnd = baseIndex;
+            } else {
+                current.lines.push(...part.value);
+            }
+        } else {
+            current = null;
+            baseIndex += part.count ?? part.value.length;
+        }
+    }
+    return regions;
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+    return a.length === b.length && a.every((line, i) => line === b[i]);
+}
+
+/**
+ * Line based three-way merge of two versions that were both derived from base.
+ * Changes to different parts of the base are combined, overlapping different
+ * changes are kept side by side between conflict markers
+ */
+export function mergeThreeWay(base: string, ours: string, theirs: string, labels: { ours: string, theirs: string } = { ours: 'ours', theirs: 'theirs' }): MergeResult {
+    const baseLines = splitLines(base);
+    const ourRegions = changeRegions(baseLines, splitLines(ours));
+    const theirRegions = changeRegions(baseLines, splitLines(theirs));
+
+    const output: string[] = [];
+    let conflicts = 0;
+    let baseIndex = 0;
+    let i = 0;
+    let j = 0;
+    while (i < ourRegions.length || j < theirRegions.length) {
+        // Take the next region and grow it while regions of either side overlap it
+        const nextOurs = ourRegions[i];
+        const nextTheirs = theirRegions[j];
+        let start = Math.min(nextOurs?.baseStart ?? Infinity, nextTheirs?.baseStart ?? Infinity);
+        let end = start;
+        const ourGroup: ChangeRegion[] = [];
+        const theirGroup: ChangeRegion[] = [];
+        let grew = true;
+        while (grew) {
+            grew = false;
+            while (i < ourRegions.length && overlaps(ourRegions[i], start, end)) {
+                end = Math.max(end, ourRegions[i].baseEnd);
+                ourGroup.push(ourRegions[i++]);
+                grew = true;
+            }
+            while (j < theirRegions.length && overlaps(theirRegions[j], start, end)) {
+                end = Math.max(end, theirRegions[j].baseEnd);
+                theirGroup.push(theirRegions[j++]);
+                grew = true;
+            }
+        }
+
+        output.push(...baseLines.slice(baseIndex, start));
+        const ourLines = applyRegions(baseLines, start, end, ourGroup);
+        const theirLines = applyRegions(baseLines, start, end, theirGroup);
+        if (theirGroup.length === 0 || sameLines(ourLines, theirLines)) {
+            output.push(...ourLines);
+        } else if (ourGroup.length === 0) {
+            output.push(...theirLines);
+        } else {
+            conflicts++;
+            output.push(`<<<<<<< ${labels.ours}`, ...ourLines, '=======', ...theirLines, `>>>>>>> ${labels.theirs}`);
+        }
+        baseIndex = end;
+    }
+    output.push(...baseLines.slice(baseIndex));
+
+    return { merged: output.join('\n'), conflicts };
+}
+
+function overlaps(region: ChangeRegion, start: number, end: number): boolean {
+    // Insertions at the same position or touching a changed range count as overlapping
+    return region.baseStart <= end && region.baseEnd >= start;
+}
+
+/**
+ * Base lines [start, end) with the given regions of one side applied
+ */
+function applyRegions(base: string[], start: number, end: number, regions: ChangeRegion[]): string[] {
+    const lines: string[] = [];
+    let index = start;
+    for (const region of regions) {
+        lines.push(...base.slice(index, region.baseStart), ...region.lines);
+        index = region.baseEnd;
+    }
+    lines.push(...base.slice(index, end));
+    return lines;
+}
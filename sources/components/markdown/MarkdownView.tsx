@@ -23,6 +23,7 @@ export type Option = {
 export const MarkdownView = React.memo((props: { 
     markdown: string;
     onOptionPress?: (option: Option) => void;
+    onSaveCodeBlock?: (content: string, language: string | null) => void;
 }) => {
     const blocks = React.useMemo(() => parseMarkdown(props.markdown), [props.markdown]);
     
@@ -59,7 +60,7 @@ export const MarkdownView = React.memo((props: {
                     } else if (block.type === 'numbered-list') {
                         return <RenderNumberedListBlock items={block.items} key={index} first={index === 0} last={index === blocks.length - 1} selectable={selectable} />;
                     } else if (block.type === 'code-block') {
-                        return <RenderCodeBlock content={block.content} language={block.language} key={index} first={index === 0} last={index === blocks.length - 1} selectable={selectable} />;
+                        return <RenderCodeBlock content={block.content} language={block.language} key={index} first={index === 0} last={index === blocks.length - 1} selectable={selectable} onSave={props.onSaveCodeBlock} />;
                     } else if (block.type === 'mermaid') {
                         return <MermaidRenderer content={block.content} key={index} />;
                     } else if (block.type === 'options') {
@@ -132,7 +133,7 @@ function RenderNumberedListBlock(props: { items: { number: number, spans: Markdo
     );
 }
 
-function RenderCodeBlock(props: { content: string, language: string | null, first: boolean, last: boolean, selectable: boolean }) {
+function RenderCodeBlock(props: { content: string, language: string | null, first: boolean, last: boolean, selectable: boolean, onSave?: (content: string, language: string | null) => void }) {
     const [isHovered, setIsHovered] = React.useState(false);
 
     const copyCode = React.useCallback(async () => {
@@ -166,7 +167,16 @@ function RenderCodeBlock(props: { content: string, language: string | null, firs
                     selectable={props.selectable}
                 />
             </ScrollView>
-            <View style={[style.copyButtonWrapper, isHovered && style.copyButtonWrapperVisible]}>
+            {/* There is no hover on mobile, buttons stay visible when the block can be saved */}
+            <View style={[style.copyButtonWrapper, (isHovered || (Platform.OS !== 'web' && props.onSave)) && style.copyButtonWrapperVisible]}>
+                {props.onSave && (
+                    <Pressable
+                        style={style.copyButton}
+                        onPress={() => props.onSave!(props.content, props.language)}
+                    >
+                        <Text style={style.copyButtonText}>{t('artifacts.save')}</Text>
+                    </Pressable>
+                )}
                 <Pressable
                     style={style.copyButton}
                     onPress={copyCode}
@@ -391,6 +401,8 @@ const style = StyleSheet.create((theme) => ({
         position: 'absolute',
         top: 8,
         right: 8,
+        flexDirection: 'row',
+        gap: 6,
         opacity: 0,
         zIndex: 10,
         elevation: 10,
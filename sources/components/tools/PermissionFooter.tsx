@@ -1,9 +1,13 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { View, Text, TouchableOpacity, ActivityIndicator, StyleSheet, Platform } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { sessionAllow, sessionDeny } from '@/sync/ops';
 import { useUnistyles } from 'react-native-unistyles';
-import { storage } from '@/sync/storage';
+import { storage, useProfile, useSession } from '@/sync/storage';
+import { canControlSession, isSessionOwner } from '@/sync/sessionShareTypes';
+import { permissionLockHolder } from '@/sync/sessionPresence';
+import { presenceSync } from '@/sync/presenceSync';
+import { useSessionViewers, viewerName } from '@/hooks/useSessionViewers';
 import { t } from '@/text';
 
 interface PermissionFooterProps {
@@ -23,9 +27,42 @@ interface PermissionFooterProps {
 
 export const PermissionFooter: React.FC<PermissionFooterProps> = ({ permission, sessionId, toolName, toolInput, metadata }) => {
     const { theme } = useUnistyles();
+    const session = useSession(sessionId);
     const [loadingButton, setLoadingButton] = useState<'allow' | 'deny' | 'abort' | null>(null);
     const [loadingAllEdits, setLoadingAllEdits] = useState(false);
     const [loadingForSession, setLoadingForSession] = useState(false);
+
+    // Soft lock, only the first person reviewing a request in a shared session can answer it.
+    // A review starts when someone presses on the request, and the owner can always answer
+    const profile = useProfile();
+    const viewers = useSessionViewers(sessionId);
+    const canAnswer = permission.status === 'pending' && (!session || canControlSession(session));
+    const isOwner = !session || isSessionOwner(session);
+    const [claimedAt, setClaimedAt] = useState<number | null>(null);
+    const claimed = claimedAt !== null;
+    useEffect(() => {
+        if (!claimed) {
+            return;
+        }
+        return () => presenceSync.releasePermission(sessionId, permission.id);
+    }, [claimed, sessionId, permission.id]);
+    // Runs in the capture phase of the responder system, which mouse presses on web go through too,
+    // and never takes the responder so the buttons still get the press
+    const handleReview = () => {
+        if (canAnswer && !claimed) {
+            setClaimedAt(presenceSync.claimPermission(sessionId, permission.id));
+        }
+        return false;
+    };
+    const lockHolder = canAnswer && !isOwner
+        ? permissionLockHolder(viewers.map((viewer) => viewer.entry), permission.id, claimedAt !== null ? { userId: profile.id, since: claimedAt } : null)
+        : null;
+    const handleTakeOver = () => {
+        if (lockHolder) {
+            setClaimedAt(presenceSync.takeOverPermission(sessionId, permission.id, lockHolder.reviewing[permission.id]));
+        }
+    };
+    const lockViewer = viewers.find((viewer) => viewer.entry === lockHolder);
     
     // Check if this is a Codex session - check both metadata.flavor and tool name prefix
     const isCodex = metadata?.flavor === 'codex' || toolName.startsWith('Codex');
@@ -135,6 +172,11 @@ export const PermissionFooter: React.FC<PermissionFooterProps> = ({ permission,
     const isDenied = permission.status === 'denied';
     const isPending = permission.status === 'pending';
 
+    // Friends the session is shared with read-only can't answer
+    if (isPending && session && !canControlSession(session)) {
+        return null;
+    }
+
     // Helper function to check if tool matches allowed pattern
     const isToolAllowed = (toolName: string, toolInput: any, allowedTools: string[] | undefined): boolean => {
         if (!allowedTools) return false;
@@ -214,6 +256,14 @@ export const PermissionFooter: React.FC<PermissionFooterProps> = ({ permission,
             fontWeight: '400',
             color: theme.colors.textSecondary,
         },
+        takeOver: {
+            marginLeft: 8,
+        },
+        takeOverText: {
+            fontSize: 14,
+            fontWeight: '500',
+            color: theme.colors.textLink,
+        },
         buttonTextAllow: {
             color: theme.colors.permissionButton.allow.background,
             fontWeight: '500',
@@ -257,10 +307,25 @@ export const PermissionFooter: React.FC<PermissionFooterProps> = ({ permission,
         },
     });
 
+    // Someone else in the shared session is answering
+    if (lockViewer) {
+        return (
+            <View style={[styles.container, styles.buttonContent]}>
+                <Ionicons name="lock-closed-outline" size={14} color={theme.colors.textSecondary} style={styles.icon} />
+                <Text style={styles.buttonText}>
+                    {t('sessionPresence.permissionLocked', { name: viewerName(lockViewer) })}
+                </Text>
+                <TouchableOpacity onPress={handleTakeOver} style={styles.takeOver}>
+                    <Text style={styles.takeOverText}>{t('sessionPresence.takeOver')}</Text>
+                </TouchableOpacity>
+            </View>
+        );
+    }
+
     // Render Codex buttons if this is a Codex session
     if (isCodex) {
         return (
-            <View style={styles.container}>
+            <View style={styles.container} onStartShouldSetResponderCapture={handleReview}>
                 <View style={styles.buttonContainer}>
                     {/* Codex: Yes button */}
                     <TouchableOpacity
@@ -355,7 +420,7 @@ export const PermissionFooter: React.FC<PermissionFooterProps> = ({ permission,
 
     // Render Claude buttons (existing behavior)
     return (
-        <View style={styles.container}>
+        <View style={styles.container} onStartShouldSetResponderCapture={handleReview}>
             <View style={styles.buttonContainer}>
                 <TouchableOpacity
                     style={[
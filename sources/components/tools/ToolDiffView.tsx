@@ -1,6 +1,6 @@
 import * as React from 'react';
 import { ScrollView, View } from 'react-native';
-import { DiffView } from '@/components/diff/DiffView';
+import { DiffLineTarget, DiffView } from '@/components/diff/DiffView';
 import { useSetting } from '@/sync/storage';
 
 interface ToolDiffViewProps {
@@ -9,6 +9,8 @@ interface ToolDiffViewProps {
     style?: any;
     showLineNumbers?: boolean;
     showPlusMinusSymbols?: boolean;
+    onLineLongPress?: (target: DiffLineTarget) => void;
+    lineMarkers?: Record<string, string>;
 }
 
 export const ToolDiffView = React.memo<ToolDiffViewProps>(({ 
@@ -16,7 +18,9 @@ export const ToolDiffView = React.memo<ToolDiffViewProps>(({
     newText, 
     style, 
     showLineNumbers = false,
-    showPlusMinusSymbols = false 
+    showPlusMinusSymbols = false,
+    onLineLongPress,
+    lineMarkers
 }) => {
     const wrapLines = useSetting('wrapLinesInDiffs');
     
@@ -27,6 +31,8 @@ export const ToolDiffView = React.memo<ToolDiffViewProps>(({
             wrapLines={wrapLines}
             showLineNumbers={showLineNumbers}
             showPlusMinusSymbols={showPlusMinusSymbols}
+            onLineLongPress={onLineLongPress}
+            lineMarkers={lineMarkers}
             style={{ flex: 1, ...style }}
         />
     );
@@ -14,9 +14,11 @@ interface ToolFullViewProps {
     tool: ToolCall;
     metadata?: Metadata | null;
     messages?: Message[];
+    sessionId?: string;
+    messageId?: string;
 }
 
-export function ToolFullView({ tool, metadata, messages = [] }: ToolFullViewProps) {
+export function ToolFullView({ tool, metadata, messages = [], sessionId, messageId }: ToolFullViewProps) {
     // Check if there's a specialized content view for this tool
     const SpecializedFullView = getToolFullViewComponent(tool.name);
     const screenWidth = useWindowDimensions().width;
@@ -28,7 +30,7 @@ export function ToolFullView({ tool, metadata, messages = [] }: ToolFullViewProp
             <View style={styles.contentWrapper}>
                 {/* Tool-specific content or generic fallback */}
                 {SpecializedFullView ? (
-                    <SpecializedFullView tool={tool} metadata={metadata || null} messages={messages} />
+                    <SpecializedFullView tool={tool} metadata={metadata || null} messages={messages} sessionId={sessionId} messageId={messageId} />
                 ) : (
                     <>
                     {/* Generic fallback for tools without specialized views */}
@@ -6,14 +6,20 @@ import { knownTools } from '@/components/tools/knownTools';
 import { toolFullViewStyles } from '../ToolFullView';
 import { ToolDiffView } from '@/components/tools/ToolDiffView';
 import { trimIdent } from '@/utils/trimIdent';
+import { resolvePath } from '@/utils/pathUtils';
+import { useDiffLineComments } from '@/hooks/useDiffLineComments';
 
 interface EditViewFullProps {
     tool: ToolCall;
     metadata: Metadata | null;
+    sessionId?: string;
+    messageId?: string;
 }
 
-export const EditViewFull = React.memo<EditViewFullProps>(({ tool, metadata }) => {
+export const EditViewFull = React.memo<EditViewFullProps>(({ tool, metadata, sessionId, messageId }) => {
     const { input } = tool;
+    const filePath = typeof input?.file_path === 'string' ? resolvePath(input.file_path, metadata) : null;
+    const { getLineMarkers, getLineLongPress } = useDiffLineComments(sessionId, messageId, filePath);
 
     // Parse the input
     let oldString = '';
@@ -32,6 +38,8 @@ export const EditViewFull = React.memo<EditViewFullProps>(({ tool, metadata }) =
                 style={{ width: '100%' }}
                 showLineNumbers={true}
                 showPlusMinusSymbols={true}
+                onLineLongPress={getLineLongPress(0)}
+                lineMarkers={getLineMarkers(0)}
             />
         </View>
     );
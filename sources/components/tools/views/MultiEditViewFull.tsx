@@ -8,15 +8,21 @@ import { DiffView } from '@/components/diff/DiffView';
 import { trimIdent } from '@/utils/trimIdent';
 import { t } from '@/text';
 import { useSetting } from '@/sync/storage';
+import { resolvePath } from '@/utils/pathUtils';
+import { useDiffLineComments } from '@/hooks/useDiffLineComments';
 
 interface MultiEditViewFullProps {
     tool: ToolCall;
     metadata: Metadata | null;
+    sessionId?: string;
+    messageId?: string;
 }
 
-export const MultiEditViewFull = React.memo<MultiEditViewFullProps>(({ tool, metadata }) => {
+export const MultiEditViewFull = React.memo<MultiEditViewFullProps>(({ tool, metadata, sessionId, messageId }) => {
     const { input } = tool;
     const wrapLinesInDiffs = useSetting('wrapLinesInDiffs');
+    const filePath = typeof input?.file_path === 'string' ? resolvePath(input.file_path, metadata) : null;
+    const { getLineMarkers, getLineLongPress } = useDiffLineComments(sessionId, messageId, filePath);
 
     // Parse the input
     let edits: Array<{ old_string: string; new_string: string; replace_all?: boolean }> = [];
@@ -54,6 +60,8 @@ export const MultiEditViewFull = React.memo<MultiEditViewFullProps>(({ tool, met
                             wrapLines={wrapLinesInDiffs}
                             showLineNumbers={true}
                             showPlusMinusSymbols={true}
+                            onLineLongPress={getLineLongPress(index)}
+                            lineMarkers={getLineMarkers(index)}
                         />
                         {index < edits.length - 1 && <View style={styles.separator} />}
                     </View>
@@ -18,7 +18,9 @@ import { CodexDiffView } from './CodexDiffView';
 export type ToolViewProps = {
     tool: ToolCall;
     metadata: Metadata | null;
-    messages: Message[]
+    messages: Message[];
+    sessionId?: string; // Set for full views, which can comment on the diffs of the tool
+    messageId?: string;
 }
 
 // Type for tool view components
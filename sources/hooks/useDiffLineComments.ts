@@ -0,0 +1,86 @@
+import * as React from 'react';
+import { randomUUID } from 'expo-crypto';
+import { useUnistyles } from 'react-native-unistyles';
+import { storage, useDiffComments, useSession, useSessionMessages } from '@/sync/storage';
+import { diffCommentKey, getDiffCommentStatus } from '@/sync/diffComments';
+import { DiffLineTarget } from '@/components/diff/DiffView';
+import { Modal } from '@/modal';
+import { t } from '@/text';
+
+/**
+ * Commenting on the lines of the diffs of a tool call. Without a session the diffs are read only
+ */
+export function useDiffLineComments(sessionId: string | undefined, messageId: string | undefined, filePath: string | null) {
+    const { theme } = useUnistyles();
+    const comments = useDiffComments(sessionId ?? '', messageId);
+    const { messages } = useSessionMessages(sessionId ?? '');
+    const session = useSession(sessionId ?? '');
+    const metadata = session?.metadata ?? null;
+    const enabled = !!sessionId && !!messageId && !!filePath;
+
+    const markers = React.useMemo(() => {
+        const result: Record<string, string> = {};
+        for (const comment of comments) {
+            const status = getDiffCommentStatus(comment, messages, metadata);
+            result[diffCommentKey(comment.editIndex, comment.side, comment.line)] =
+                status === 'resolved' ? theme.colors.success : status === 'sent' ? theme.colors.textSecondary : theme.colors.textLink;
+        }
+        return result;
+    }, [comments, messages, metadata, theme]);
+
+    const getLineMarkers = React.useCallback((editIndex: number): Record<string, string> => {
+        const result: Record<string, string> = {};
+        const prefix = `${editIndex}:`;
+        for (const [key, color] of Object.entries(markers)) {
+            if (key.startsWith(prefix)) {
+                result[key.slice(prefix.length)] = color;
+            }
+        }
+        return result;
+    }, [markers]);
+
+    const getLineLongPress = React.useCallback((editIndex: number) => {
+        if (!enabled) {
+            return undefined;
+        }
+        return async (target: DiffLineTarget) => {
+            const existing = comments.find((comment) => comment.editIndex === editIndex && comment.side === target.side && comment.line === target.lineNumber);
+            const text = await Modal.prompt(t('diffComments.commentOnLine', { line: target.lineNumber }), target.content.trim() || undefined, {
+                defaultValue: existing?.comment ?? '',
+                placeholder: t('diffComments.placeholder'),
+                cancelText: t('common.cancel'),
+                confirmText: t('common.save')
+            });
+            if (text === null) {
+                return;
+            }
+            if (!text.trim()) {
+                if (existing) {
+                    storage.getState().removeDiffComment(existing.id);
+                }
+                return;
+            }
+            storage.getState().applyDiffComments([existing ? {
+                ...existing,
+                comment: text,
+                // A changed comment has to be sent again
+                sentAt: existing.comment === text ? existing.sentAt : null
+            } : {
+                id: randomUUID(),
+                sessionId: sessionId!,
+                messageId: messageId!,
+                editIndex,
+                filePath: filePath!,
+                side: target.side,
+                line: target.lineNumber,
+                lineText: target.content,
+                snippet: target.snippet,
+                comment: text,
+                createdAt: Date.now(),
+                sentAt: null
+            }]);
+        };
+    }, [enabled, comments, sessionId, messageId, filePath]);
+
+    return { getLineMarkers, getLineLongPress };
+}
@@ -31,7 +31,8 @@ export function useDraft(
         if (!sessionId || !isFocused) return;
 
         const session = storage.getState().sessions[sessionId];
-        if (session?.draft && !value) {
+        // Other screens may have added to the draft while this one was in the background
+        if (session?.draft && (!value || session.draft !== lastSavedValue.current)) {
             onChange(session.draft);
             lastSavedValue.current = session.draft;
         } else if (!session?.draft) {
@@ -40,6 +41,13 @@ export function useDraft(
         }
     }, [sessionId, isFocused, onChange]);
 
+    // Save right away when the screen loses focus so other screens see the latest draft
+    useEffect(() => {
+        if (sessionId && !isFocused && value !== lastSavedValue.current) {
+            saveDraft(value);
+        }
+    }, [sessionId, isFocused]);
+
     // Auto-save with smart debouncing
     useEffect(() => {
         if (!sessionId) return;
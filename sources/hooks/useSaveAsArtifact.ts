@@ -0,0 +1,34 @@
+import * as React from 'react';
+import { useRouter } from 'expo-router';
+import { sync } from '@/sync/sync';
+import { Modal } from '@/modal';
+import { t } from '@/text';
+import { ArtifactFormat } from '@/sync/artifactTypes';
+
+/**
+ * Saves agent output as an artifact linked to the session, asking for a title first
+ */
+export function useSaveAsArtifact(sessionId: string) {
+    const router = useRouter();
+
+    return React.useCallback(async (body: string, suggestedTitle: string, format?: ArtifactFormat) => {
+        const title = await Modal.prompt(t('artifacts.saveAsArtifact'), undefined, {
+            defaultValue: suggestedTitle,
+            placeholder: t('artifacts.titlePlaceholder'),
+            confirmText: t('artifacts.save')
+        });
+        if (title === null) {
+            return;
+        }
+        try {
+            const artifactId = await sync.createArtifact(title.trim() || null, body, [sessionId], undefined, undefined, format);
+            Modal.alert(t('artifacts.savedAsArtifact'), undefined, [
+                { text: t('common.ok'), style: 'cancel' },
+                { text: t('artifacts.open'), onPress: () => router.push(`/artifacts/${artifactId}`) }
+            ]);
+        } catch (error) {
+            console.error('Failed to save artifact:', error);
+            Modal.alert(t('common.error'), t('artifacts.createError'));
+        }
+    }, [sessionId, router]);
+}
@@ -0,0 +1,20 @@
+import * as React from 'react';
+import { storage, useUser } from '@/sync/storage';
+import { Session } from '@/sync/storageTypes';
+import { UserProfile } from '@/sync/friendTypes';
+
+/**
+ * Profile of the friend who shared the session, null for own sessions or while loading
+ */
+export function useSessionOwner(session: Session | null | undefined): UserProfile | null {
+    const ownerId = session?.share?.ownerId;
+    const owner = useUser(ownerId);
+
+    React.useEffect(() => {
+        if (ownerId) {
+            storage.getState().assumeUsers([ownerId]);
+        }
+    }, [ownerId]);
+
+    return owner ?? null;
+}
@@ -0,0 +1,47 @@
+import * as React from 'react';
+import { useShallow } from 'zustand/react/shallow';
+import { storage, useSessionPresence } from '@/sync/storage';
+import { PresenceEntry } from '@/sync/sessionPresence';
+import { getDisplayName, UserProfile } from '@/sync/friendTypes';
+import { t } from '@/text';
+
+export interface SessionViewer {
+    entry: PresenceEntry;
+    user: UserProfile | null; // null while the profile is loading
+}
+
+/**
+ * Other people looking at the session right now, with their profiles
+ */
+export function useSessionViewers(sessionId: string): SessionViewer[] {
+    const entries = useSessionPresence(sessionId);
+    const users = storage(useShallow((state) => entries.map((entry) => state.users[entry.userId] ?? null)));
+    const userIds = entries.map((entry) => entry.userId).join(',');
+
+    React.useEffect(() => {
+        if (userIds) {
+            storage.getState().assumeUsers(userIds.split(','));
+        }
+    }, [userIds]);
+
+    return React.useMemo(() => entries.map((entry, index) => ({ entry, user: users[index] })), [entries, users]);
+}
+
+/**
+ * What the other viewers are doing, typing first, null when they are only watching
+ */
+export function describeViewerActivity(viewers: SessionViewer[]): string | null {
+    const typing = viewers.find((viewer) => viewer.entry.activity === 'typing');
+    if (typing) {
+        return t('sessionPresence.typing', { name: viewerName(typing) });
+    }
+    const reviewing = viewers.find((viewer) => Object.keys(viewer.entry.reviewing).length > 0);
+    if (reviewing) {
+        return t('sessionPresence.reviewingPermission', { name: viewerName(reviewing) });
+    }
+    return null;
+}
+
+export function viewerName(viewer: SessionViewer): string {
+    return viewer.user ? getDisplayName(viewer.user) : t('sessionPresence.someone');
+}
@@ -2,6 +2,7 @@ import { Session } from "@/sync/storageTypes";
 import { Message } from "@/sync/typesMessage";
 import { trimIdent } from "@/utils/trimIdent";
 import { VOICE_CONFIG } from "../voiceConfig";
+import { PendingPermission } from "@/sync/pendingPermissions";
 
 interface SessionMetadata {
     summary?: { text?: string };
@@ -13,20 +14,30 @@ interface SessionMetadata {
 
 
 /**
- * Format a permission request for natural language context
+ * Format the pending permission requests of a session for natural language context,
+ * every request carries the index and tool it can be answered by
  */
-export function formatPermissionRequest(
-    sessionId: string,
-    requestId: string,
-    toolName: string,
-    toolArgs: any
-): string {
-    return trimIdent(`
-        Claude Code is requesting permission to use ${toolName} (session ${sessionId}):
-        <request_id>${requestId}</request_id>
-        <tool_name>${toolName}</tool_name>
-        <tool_args>${JSON.stringify(toolArgs)}</tool_args>
-    `);
+export function formatPermissionRequest(sessionId: string, pending: PendingPermission[]): string {
+    const requests = pending.map((request) => trimIdent(`
+        <request index="${request.index}">
+        <request_id>${request.id}</request_id>
+        <tool_name>${request.tool}</tool_name>
+        <tool_args>${JSON.stringify(request.arguments)}</tool_args>
+        </request>
+    `));
+    const intro = pending.length === 1
+        ? `Claude Code is requesting permission to use ${pending[0].tool} (session ${sessionId}, requestIndex ${pending[0].index}):`
+        : `Claude Code is waiting on ${pending.length} permission requests (session ${sessionId}), answer them by requestIndex, toolName or all:`;
+    return [intro, ...requests].join('\n');
+}
+
+/**
+ * Format all pending permission requests so they can be addressed by number or tool name
+ */
+export function formatPendingPermissions(pending: PendingPermission[]): string {
+    return pending
+        .map((request) => `${request.index}. ${request.tool} <tool_args>${JSON.stringify(request.arguments)}</tool_args>`)
+        .join('\n');
 }
 
 //
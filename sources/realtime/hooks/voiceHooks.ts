@@ -11,6 +11,7 @@ import {
 } from './contextFormatters';
 import { storage } from '@/sync/storage';
 import { Message } from '@/sync/typesMessage';
+import { PendingPermission } from '@/sync/pendingPermissions';
 import { VOICE_CONFIG } from '../voiceConfig';
 
 /**
@@ -103,11 +104,11 @@ export const voiceHooks = {
     /**
      * Called when Claude requests permission for a tool use
      */
-    onPermissionRequested(sessionId: string, requestId: string, toolName: string, toolArgs: any) {
-        if (VOICE_CONFIG.DISABLE_PERMISSION_REQUESTS) return;
+    onPermissionRequested(sessionId: string, pending: PendingPermission[]) {
+        if (VOICE_CONFIG.DISABLE_PERMISSION_REQUESTS || pending.length === 0) return;
         
         reportSession(sessionId);
-        reportTextUpdate(formatPermissionRequest(sessionId, requestId, toolName, toolArgs));
+        reportTextUpdate(formatPermissionRequest(sessionId, pending));
     },
 
     /**
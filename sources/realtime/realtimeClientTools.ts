@@ -4,6 +4,11 @@ import { sessionAllow, sessionDeny } from '@/sync/ops';
 import { storage } from '@/sync/storage';
 import { trackPermissionResponse } from '@/track';
 import { getCurrentRealtimeSessionId } from './RealtimeSession';
+import { listAnswerablePermissions, selectPendingPermissions } from '@/sync/pendingPermissions';
+import { canControlSession } from '@/sync/sessionShareTypes';
+import { presenceSync } from '@/sync/presenceSync';
+import { getDisplayName } from '@/sync/friendTypes';
+import { formatPendingPermissions } from './hooks/contextFormatters';
 
 /**
  * Static client tools for the realtime voice interface.
@@ -32,6 +37,11 @@ export const realtimeClientTools = {
             console.error('❌ No active session');
             return "error (no active session)";
         }
+
+        const session = storage.getState().sessions[sessionId];
+        if (session && !canControlSession(session)) {
+            return "error (this session is shared with the user as view only, messages can't be sent)";
+        }
         
         console.log('🔍 messageClaudeCode called with:', message);
         console.log('📤 Sending message to session:', sessionId);
@@ -40,11 +50,16 @@ export const realtimeClientTools = {
     },
 
     /**
-     * Process a permission request from Claude Code
+     * Process permission requests from Claude Code.
+     * Requests are addressed by their 1-based `requestIndex`, by `toolName`, or all at once
+     * with `all`. Without any of them the call only succeeds when a single request is pending.
      */
     processPermissionRequest: async (parameters: unknown) => {
         const messageSchema = z.object({
-            decision: z.enum(['allow', 'deny'])
+            decision: z.enum(['allow', 'deny']),
+            requestIndex: z.number().int().positive().optional(),
+            toolName: z.string().min(1).optional(),
+            all: z.boolean().optional()
         });
         const parsedMessage = messageSchema.safeParse(parameters);
 
@@ -53,7 +68,7 @@ export const realtimeClientTools = {
             return "error (invalid decision parameter, expected 'allow' or 'deny')";
         }
 
-        const decision = parsedMessage.data.decision;
+        const { decision, requestIndex, toolName, all } = parsedMessage.data;
         const sessionId = getCurrentRealtimeSessionId();
         
         if (!sessionId) {
@@ -61,26 +76,44 @@ export const realtimeClientTools = {
             return "error (no active session)";
         }
         
-        console.log('🔍 processPermissionRequest called with:', decision);
+        console.log('🔍 processPermissionRequest called with:', parsedMessage.data);
         
         // Get the current session to check for permission requests
         const session = storage.getState().sessions[sessionId];
-        const requests = session?.agentState?.requests;
+        if (session && !canControlSession(session)) {
+            return "error (this session is shared with the user as view only, permission requests can't be answered)";
+        }
+        const pending = listAnswerablePermissions(session);
         
-        if (!requests || Object.keys(requests).length === 0) {
+        if (pending.length === 0) {
             console.error('❌ No active permission request');
             return "error (no active permission request)";
         }
         
-        const requestId = Object.keys(requests)[0];
+        const selected = selectPendingPermissions(pending, { index: requestIndex, tool: toolName, all });
+        if (selected.length === 0) {
+            return `error (no matching permission request, ask the user which one using requestIndex, toolName or all. Pending requests:\n${formatPendingPermissions(pending)})`;
+        }
+
+        // Someone else in the shared session is answering, same soft lock as the permission buttons
+        for (const request of selected) {
+            const holder = presenceSync.lockHolder(sessionId, request.id);
+            if (holder) {
+                const user = storage.getState().users[holder.userId];
+                const name = user ? getDisplayName(user) : 'another person';
+                return `error (request ${request.index} is being answered by ${name} who is also in this session, nothing was answered)`;
+            }
+        }
         
         try {
-            if (decision === 'allow') {
-                await sessionAllow(sessionId, requestId);
-                trackPermissionResponse(true);
-            } else {
-                await sessionDeny(sessionId, requestId);
-                trackPermissionResponse(false);
+            for (const request of selected) {
+                if (decision === 'allow') {
+                    await sessionAllow(sessionId, request.id);
+                    trackPermissionResponse(true);
+                } else {
+                    await sessionDeny(sessionId, request.id);
+                    trackPermissionResponse(false);
+                }
             }
             return "done [DO NOT say anything else, simply say 'done']";
         } catch (error) {
@@ -88,4 +121,4 @@ export const realtimeClientTools = {
             return `error (failed to ${decision} permission)`;
         }
     }
-};
\ No newline at end of file
+};
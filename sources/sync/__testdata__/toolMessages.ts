@@ -0,0 +1,25 @@
+import { Message, ToolCall, ToolCallMessage } from '../typesMessage';
+import { Metadata } from '../storageTypes';
+
+//
+// Builders for tests of code that reads tool calls back out of a session
+//
+
+export function toolCall(name: string, input: any, createdAt = 0, state: ToolCall['state'] = 'completed'): ToolCall {
+    return { name, state, input, createdAt, startedAt: createdAt, completedAt: createdAt, description: null };
+}
+
+export function toolCallMessage(
+    createdAt: number,
+    name: string,
+    input: any,
+    opts: { state?: ToolCall['state'], children?: Message[] } = {}
+): ToolCallMessage {
+    return {
+        kind: 'tool-call', id: `t${createdAt}`, localId: null, createdAt, children: opts.children ?? [],
+        tool: toolCall(name, input, createdAt, opts.state)
+    };
+}
+
+// Session in a project checked out at /repo
+export const repoMetadata: Metadata = { path: '/repo', host: 'host' };
@@ -0,0 +1,38 @@
+import { AuthCredentials } from '@/auth/tokenStorage';
+import { sync } from './sync';
+import { kvMutate } from './apiKv';
+
+//
+// Artifacts the agent publishes in its messages are claimed in the KV store before they are
+// created. A claim is only ever written once and is kept when the artifact is deleted, so a block
+// is saved by one device only and is not recreated after the user removed it
+//
+
+const CLAIM_PREFIX = 'agent-artifact.';
+
+function getClaimKey(source: string): string {
+    return `${CLAIM_PREFIX}${source}`;
+}
+
+/**
+ * Claim a published block, the version of the claim or null when it was claimed before
+ */
+export async function claimAgentArtifact(credentials: AuthCredentials, source: string): Promise<number | null> {
+    const result = await kvMutate(credentials, [{
+        key: getClaimKey(source),
+        value: await sync.encryption.encryptRaw({ source, claimedAt: Date.now() }),
+        version: -1
+    }]);
+    return result.success ? result.results[0].version : null;
+}
+
+/**
+ * Give a claim back when the artifact could not be created, so the block is published again later
+ */
+export async function releaseAgentArtifact(credentials: AuthCredentials, source: string, version: number): Promise<void> {
+    await kvMutate(credentials, [{
+        key: getClaimKey(source),
+        value: null,
+        version
+    }]);
+}
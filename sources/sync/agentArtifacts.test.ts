@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { extractAgentArtifacts, suggestArtifactTitle } from './agentArtifacts';
+
+describe('agentArtifacts', () => {
+    it('should take artifact blocks out of the message', () => {
+        const text = 'Here is the plan.\n\n<artifact title="Release notes">\n# v2\n\n- Faster sync\n</artifact>\n\nLet me know.';
+        const result = extractAgentArtifacts('m1', text);
+        expect(result.text).toBe('Here is the plan.\n\nLet me know.');
+        expect(result.artifacts).toEqual([{ key: 'm1:0', title: 'Release notes', body: '# v2\n\n- Faster sync' }]);
+    });
+
+    it('should number several blocks and allow a missing title', () => {
+        const text = '<artifact>\none\n</artifact>\n<artifact title=" Two ">\n```ts\nconst a = 1;\n```\n</artifact>';
+        const result = extractAgentArtifacts('m2', text);
+        expect(result.text).toBe('');
+        expect(result.artifacts.map((artifact) => [artifact.key, artifact.title])).toEqual([['m2:0', null], ['m2:1', 'Two']]);
+        expect(result.artifacts[1].body).toBe('```ts\nconst a = 1;\n```');
+    });
+
+    it('should read the type and language attributes', () => {
+        const text = '<artifact title="Setup" type="code" language="bash">\nnpm i\n</artifact>\n<artifact type="checklist">\n- [ ] a\n</artifact>\n<artifact type="video">\nx\n</artifact>';
+        const result = extractAgentArtifacts('m4', text);
+        expect(result.artifacts.map((artifact) => artifact.format)).toEqual([{ type: 'code', language: 'bash' }, { type: 'checklist' }, undefined]);
+        expect(result.artifacts[0].title).toBe('Setup');
+    });
+
+    it('should leave inline mentions alone', () => {
+        const text = 'Use an <artifact title="x"> block on its own lines.';
+        expect(extractAgentArtifacts('m3', text)).toEqual({ text, artifacts: [] });
+    });
+
+    it('should suggest a title from the first heading or line', () => {
+        expect(suggestArtifactTitle('Intro text\n\n## **Setup** guide\nmore')).toBe('Setup guide');
+        expect(suggestArtifactTitle('```\ncode\n```')).toBe('code');
+        expect(suggestArtifactTitle('x'.repeat(80))).toBe(`${'x'.repeat(57)}...`);
+    });
+});
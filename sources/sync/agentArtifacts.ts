@@ -0,0 +1,62 @@
+/**
+ * Artifacts made from agent output
+ * The agent can publish an artifact by putting an <artifact title="..."> block in its response, the reducer
+ * takes the block out of the message and the app saves it linked to the session. Messages, code blocks and
+ * written files can also be saved by hand
+ */
+
+import { ArtifactFormat } from './artifactTypes';
+import { isArtifactType } from './artifactContent';
+
+export interface AgentArtifact {
+    key: string; // "<prefix>:<index>" from the id of the message, stable across devices so an artifact is published once
+    title: string | null;
+    body: string;
+    format?: ArtifactFormat;  // From the type and language attributes, markdown when missing
+}
+
+const ARTIFACT_BLOCK = /^<artifact((?:\s+[a-z]+="[^"]*")*)\s*>[ \t]*\n([\s\S]*?)\n<\/artifact>[ \t]*$/gm;
+const ARTIFACT_ATTRIBUTE = /([a-z]+)="([^"]*)"/g;
+
+function parseAttributes(text: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    for (const match of text.matchAll(ARTIFACT_ATTRIBUTE)) {
+        attributes[match[1]] = match[2].trim();
+    }
+    return attributes;
+}
+
+/**
+ * Takes artifact blocks out of an agent message, the remaining text is what is shown
+ */
+export function extractAgentArtifacts(keyPrefix: string, text: string): { text: string, artifacts: AgentArtifact[] } {
+    if (!text.includes('<artifact')) {
+        return { text, artifacts: [] };
+    }
+    const artifacts: AgentArtifact[] = [];
+    const remaining = text.replace(ARTIFACT_BLOCK, (_, attributeText: string, body: string) => {
+        const attributes = parseAttributes(attributeText);
+        const artifact: AgentArtifact = { key: `${keyPrefix}:${artifacts.length}`, title: attributes.title || null, body };
+        if (isArtifactType(attributes.type)) {
+            artifact.format = attributes.type === 'code' && attributes.language
+                ? { type: attributes.type, language: attributes.language }
+                : { type: attributes.type };
+        }
+        artifacts.push(artifact);
+        return '';
+    });
+    if (artifacts.length === 0) {
+        return { text, artifacts };
+    }
+    return { text: remaining.replace(/\n{3,}/g, '\n\n').trim(), artifacts };
+}
+
+/**
+ * Title offered when saving text by hand, the first heading or the start of the first line
+ */
+export function suggestArtifactTitle(text: string): string {
+    const lines = text.split('\n').map((line) => line.trim()).filter((line) => line && !line.startsWith('```'));
+    const heading = lines.find((line) => /^#{1,6}\s/.test(line));
+    const title = (heading ?? lines[0] ?? '').replace(/^#{1,6}\s+/, '').replace(/[*_`]/g, '');
+    return title.length > 60 ? `${title.slice(0, 57).trimEnd()}...` : title;
+}
@@ -1,7 +1,7 @@
 import { AuthCredentials } from '@/auth/tokenStorage';
 import { backoff } from '@/utils/time';
 import { getServerUrl } from './serverConfig';
-import { Artifact, ArtifactCreateRequest, ArtifactUpdateRequest, ArtifactUpdateResponse } from './artifactTypes';
+import { Artifact, ArtifactCreateRequest, ArtifactRevision, ArtifactUpdateRequest, ArtifactUpdateResponse } from './artifactTypes';
 
 /**
  * Fetch all artifacts for the account
@@ -52,6 +52,32 @@ export async function fetchArtifact(credentials: AuthCredentials, artifactId: st
     });
 }
 
+/**
+ * Fetch the saved revisions of an artifact, newest first
+ */
+export async function fetchArtifactRevisions(credentials: AuthCredentials, artifactId: string): Promise<ArtifactRevision[]> {
+    const API_ENDPOINT = getServerUrl();
+
+    return await backoff(async () => {
+        const response = await fetch(`${API_ENDPOINT}/v1/artifacts/${artifactId}/revisions`, {
+            headers: {
+                'Authorization': `Bearer ${credentials.token}`,
+                'Content-Type': 'application/json'
+            }
+        });
+
+        if (!response.ok) {
+            if (response.status === 404) {
+                throw new Error('Artifact not found');
+            }
+            throw new Error(`Failed to fetch artifact revisions: ${response.status}`);
+        }
+
+        const data = await response.json() as { revisions: ArtifactRevision[] };
+        return data.revisions;
+    });
+}
+
 /**
  * Create a new artifact
  */
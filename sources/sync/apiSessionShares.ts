@@ -0,0 +1,110 @@
+import { AuthCredentials } from '@/auth/tokenStorage';
+import { backoff } from '@/utils/time';
+import { getServerUrl } from './serverConfig';
+import { SessionShare, SessionShareRole, SessionSharesResponseSchema } from './sessionShareTypes';
+
+/**
+ * Publish the public key other accounts wrap session keys to when sharing with this account
+ */
+export async function publishContentPublicKey(
+    credentials: AuthCredentials,
+    contentPublicKey: string
+): Promise<void> {
+    const API_ENDPOINT = getServerUrl();
+
+    await backoff(async () => {
+        const response = await fetch(`${API_ENDPOINT}/v1/account/content-key`, {
+            method: 'POST',
+            headers: {
+                'Authorization': `Bearer ${credentials.token}`,
+                'Content-Type': 'application/json'
+            },
+            body: JSON.stringify({ contentPublicKey })
+        });
+
+        if (!response.ok) {
+            throw new Error(`Failed to publish content key: ${response.status}`);
+        }
+    });
+}
+
+/**
+ * Get the accounts an own session is shared with
+ */
+export async function getSessionShares(
+    credentials: AuthCredentials,
+    sessionId: string
+): Promise<SessionShare[]> {
+    const API_ENDPOINT = getServerUrl();
+
+    return await backoff(async () => {
+        const response = await fetch(`${API_ENDPOINT}/v1/sessions/${sessionId}/shares`, {
+            method: 'GET',
+            headers: {
+                'Authorization': `Bearer ${credentials.token}`
+            }
+        });
+
+        if (!response.ok) {
+            if (response.status === 404) {
+                return [];
+            }
+            throw new Error(`Failed to get session shares: ${response.status}`);
+        }
+
+        const data = await response.json();
+        const parsed = SessionSharesResponseSchema.safeParse(data);
+        if (!parsed.success) {
+            console.error('Failed to parse session shares:', parsed.error);
+            return [];
+        }
+
+        return parsed.data.shares;
+    });
+}
+
+/**
+ * Share a session with a friend or change their role, the data key is wrapped for the friend's public key
+ */
+export async function shareSession(
+    credentials: AuthCredentials,
+    sessionId: string,
+    share: { userId: string, role: SessionShareRole, encryptedDataKey: string }
+): Promise<void> {
+    const API_ENDPOINT = getServerUrl();
+
+    const response = await fetch(`${API_ENDPOINT}/v1/sessions/${sessionId}/shares`, {
+        method: 'POST',
+        headers: {
+            'Authorization': `Bearer ${credentials.token}`,
+            'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(share)
+    });
+
+    if (!response.ok) {
+        throw new Error(`Failed to share session: ${response.status}`);
+    }
+}
+
+/**
+ * Stop sharing a session with a friend
+ */
+export async function unshareSession(
+    credentials: AuthCredentials,
+    sessionId: string,
+    userId: string
+): Promise<void> {
+    const API_ENDPOINT = getServerUrl();
+
+    const response = await fetch(`${API_ENDPOINT}/v1/sessions/${sessionId}/shares/${userId}`, {
+        method: 'DELETE',
+        headers: {
+            'Authorization': `Bearer ${credentials.token}`
+        }
+    });
+
+    if (!response.ok && response.status !== 404) {
+        throw new Error(`Failed to stop sharing session: ${response.status}`);
+    }
+}
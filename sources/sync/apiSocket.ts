@@ -148,6 +148,10 @@ class ApiSocket {
         throw new Error('RPC call failed');
     }
 
+    isConnected(): boolean {
+        return this.currentStatus === 'connected';
+    }
+
     send(event: string, data: any) {
         this.socket!.emit(event, data);
         return true;
@@ -0,0 +1,25 @@
+import { AuthCredentials } from '@/auth/tokenStorage';
+import { getServerUrl } from './serverConfig';
+
+/**
+ * Send a prompt template to a friend, the server adds it to the friend's feed as coming from this account
+ */
+export async function sendTemplateShare(
+    credentials: AuthCredentials,
+    share: { userId: string, encryptedTemplate: string }
+): Promise<void> {
+    const API_ENDPOINT = getServerUrl();
+
+    const response = await fetch(`${API_ENDPOINT}/v1/templates/shares`, {
+        method: 'POST',
+        headers: {
+            'Authorization': `Bearer ${credentials.token}`,
+            'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(share)
+    });
+
+    if (!response.ok) {
+        throw new Error(`Failed to share template: ${response.status}`);
+    }
+}
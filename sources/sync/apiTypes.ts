@@ -218,13 +218,23 @@ export const ApiEphemeralMachineActivityUpdateSchema = z.object({
     activeAt: z.number(),
 });
 
+export const ApiEphemeralPresenceUpdateSchema = z.object({
+    type: z.literal('presence'),
+    id: z.string(), // session id
+    userId: z.string(),
+    activity: z.enum(['viewing', 'typing', 'left']),
+    reviewing: z.record(z.string(), z.number()).optional(), // permission id -> ms spent reviewing it
+});
+
 export const ApiEphemeralUpdateSchema = z.union([
     ApiEphemeralActivityUpdateSchema,
     ApiEphemeralUsageUpdateSchema,
     ApiEphemeralMachineActivityUpdateSchema,
+    ApiEphemeralPresenceUpdateSchema,
 ]);
 
 export type ApiEphemeralActivityUpdate = z.infer<typeof ApiEphemeralActivityUpdateSchema>;
+export type ApiEphemeralPresenceUpdate = z.infer<typeof ApiEphemeralPresenceUpdateSchema>;
 export type ApiEphemeralUpdate = z.infer<typeof ApiEphemeralUpdateSchema>;
 
 // Machine metadata updates use Partial<MachineMetadata> from storageTypes
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { isArtifactType, isSameArtifactFormat, parseChecklist, resolveArtifactFormat, serializeChecklist, toggleChecklistItem } from './artifactContent';
+
+describe('artifactContent', () => {
+    it('should read plain artifacts as markdown', () => {
+        expect(resolveArtifactFormat({})).toEqual({ type: 'markdown' });
+        expect(resolveArtifactFormat({ type: 'code', language: 'ts' })).toEqual({ type: 'code', language: 'ts' });
+        expect(resolveArtifactFormat({ type: 'diagram', language: 'ts' })).toEqual({ type: 'diagram' });
+    });
+
+    it('should only accept known types', () => {
+        expect(isArtifactType('checklist')).toBe(true);
+        expect(isArtifactType('video')).toBe(false);
+        expect(isArtifactType(undefined)).toBe(false);
+    });
+
+    it('should compare formats with and without a language', () => {
+        expect(isSameArtifactFormat({ type: 'markdown' }, { type: 'markdown' })).toBe(true);
+        expect(isSameArtifactFormat({ type: 'code' }, { type: 'code', language: 'go' })).toBe(false);
+    });
+
+    it('should parse task lists and other lines leniently', () => {
+        const body = '- [x] Ship it\n- [ ] Write notes\n\n* plain bullet\n2. numbered\nJust text';
+        expect(parseChecklist(body)).toEqual([
+            { text: 'Ship it', done: true },
+            { text: 'Write notes', done: false },
+            { text: 'plain bullet', done: false },
+            { text: 'numbered', done: false },
+            { text: 'Just text', done: false },
+        ]);
+        expect(parseChecklist(null)).toEqual([]);
+    });
+
+    it('should serialize without empty items and toggle by index', () => {
+        expect(serializeChecklist([{ text: ' a ', done: false }, { text: '', done: true }, { text: 'b', done: true }])).toBe('- [ ] a\n- [x] b');
+        expect(toggleChecklistItem('- [ ] a\n- [x] b', 0)).toBe('- [x] a\n- [x] b');
+        expect(toggleChecklistItem('- [ ] a', 5)).toBe('- [ ] a');
+    });
+
+    it('should toggle only the item line and keep the rest of the body', () => {
+        const body = '# Plan\n\nSome notes\n  * [X] done\n- todo\n1. step';
+        expect(toggleChecklistItem(body, 2)).toBe('# Plan\n\nSome notes\n  * [ ] done\n- todo\n1. step');
+        expect(toggleChecklistItem(body, 3)).toBe('# Plan\n\nSome notes\n  * [X] done\n- [x] todo\n1. step');
+        expect(toggleChecklistItem(body, 4)).toBe('# Plan\n\nSome notes\n  * [X] done\n- todo\n- [x] step');
+        expect(parseChecklist(toggleChecklistItem(body, 1))[1]).toEqual({ text: 'Some notes', done: true });
+    });
+});
@@ -0,0 +1,93 @@
+/**
+ * Typed artifact content
+ * The body of every artifact stays a single string so plain artifacts, revisions and diffs keep working,
+ * the type in the header tells how to read it. Checklists are stored as a markdown task list
+ */
+
+import { ArtifactFormat, ArtifactType } from './artifactTypes';
+
+export const ARTIFACT_TYPES: ArtifactType[] = ['markdown', 'code', 'diagram', 'checklist'];
+
+export interface ChecklistItem {
+    text: string;
+    done: boolean;
+}
+
+export function isArtifactType(value: unknown): value is ArtifactType {
+    return typeof value === 'string' && (ARTIFACT_TYPES as string[]).includes(value);
+}
+
+/**
+ * Format of an artifact, artifacts saved before types existed are markdown
+ */
+export function resolveArtifactFormat(artifact: { type?: ArtifactType, language?: string }): ArtifactFormat {
+    const type = artifact.type ?? 'markdown';
+    if (type === 'code' && artifact.language) {
+        return { type, language: artifact.language };
+    }
+    return { type };
+}
+
+export function isSameArtifactFormat(a: ArtifactFormat, b: ArtifactFormat): boolean {
+    return a.type === b.type && (a.language ?? null) === (b.language ?? null);
+}
+
+const TASK_LINE = /^\s*[-*+]\s+\[([ xX])\]\s?(.*)$/;
+const LIST_LINE = /^\s*(?:[-*+]|\d+[.)])\s+(.*)$/;
+const BULLET_LINE = /^(\s*[-*+]\s+)/;
+
+/**
+ * Reads a checklist from a body, other markdown is read leniently so any artifact can become a checklist
+ */
+export function parseChecklist(body: string | null | undefined): ChecklistItem[] {
+    if (!body) {
+        return [];
+    }
+    const items: ChecklistItem[] = [];
+    for (const line of body.split('\n')) {
+        if (!line.trim()) {
+            continue;
+        }
+        const task = TASK_LINE.exec(line);
+        if (task) {
+            items.push({ text: task[2].trim(), done: task[1] !== ' ' });
+            continue;
+        }
+        const listItem = LIST_LINE.exec(line);
+        items.push({ text: (listItem ? listItem[1] : line).trim(), done: false });
+    }
+    return items;
+}
+
+export function serializeChecklist(items: ChecklistItem[]): string {
+    return items
+        .filter((item) => item.text.trim())
+        .map((item) => `- [${item.done ? 'x' : ' '}] ${item.text.trim()}`)
+        .join('\n');
+}
+
+/**
+ * Flips one item in place, the item is counted the way `parseChecklist` reads the body and every
+ * other line is kept as it is. Items that are not tasks yet become checked tasks
+ */
+export function toggleChecklistItem(body: string | null | undefined, index: number): string {
+    const lines = (body ?? '').split('\n');
+    let item = -1;
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+        if (!line.trim() || ++item !== index) {
+            continue;
+        }
+        const task = TASK_LINE.exec(line);
+        if (task) {
+            lines[i] = line.replace(/\[[ xX]\]/, task[1] === ' ' ? '[x]' : '[ ]');
+        } else if (BULLET_LINE.test(line)) {
+            lines[i] = line.replace(BULLET_LINE, '$1[x] ');
+        } else {
+            const listItem = LIST_LINE.exec(line);
+            lines[i] = `- [x] ${(listItem ? listItem[1] : line).trim()}`;
+        }
+        break;
+    }
+    return lines.join('\n');
+}
@@ -13,6 +13,16 @@ export interface Artifact {
     updatedAt: number;
 }
 
+/**
+ * How the body of an artifact is shown and edited, artifacts without a type are markdown
+ */
+export type ArtifactType = 'markdown' | 'code' | 'diagram' | 'checklist';
+
+export interface ArtifactFormat {
+    type: ArtifactType;
+    language?: string;  // Only for code
+}
+
 /**
  * Decrypted artifact header
  */
@@ -20,6 +30,9 @@ export interface ArtifactHeader {
     title: string | null;
     sessions?: string[];  // Optional array of session IDs linked to this artifact
     draft?: boolean;      // Optional draft flag - hides artifact from visible list when true
+    source?: string;      // Optional key of the agent block the artifact was published from
+    type?: ArtifactType;  // Optional type of the body, missing for plain artifacts
+    language?: string;    // Optional language of code artifacts
 }
 
 /**
@@ -37,6 +50,9 @@ export interface DecryptedArtifact {
     title: string | null;
     sessions?: string[];  // Optional array of session IDs linked to this artifact
     draft?: boolean;      // Optional draft flag - hides artifact from visible list when true
+    source?: string;      // Optional key of the agent block the artifact was published from
+    type?: ArtifactType;  // Optional type of the body, missing for plain artifacts
+    language?: string;    // Optional language of code artifacts
     body?: string | null;  // Only loaded when viewing full artifact
     headerVersion: number;
     bodyVersion?: number;
@@ -46,6 +62,44 @@ export interface DecryptedArtifact {
     isDecrypted: boolean;  // Whether decryption was successful
 }
 
+/**
+ * Saved state of an artifact from API, one is kept for every save
+ */
+export interface ArtifactRevision {
+    id: string;
+    content: string;  // Base64 encoded encrypted JSON ArtifactRevisionContent
+    headerVersion: number;
+    bodyVersion: number;
+    createdAt: number;
+}
+
+/**
+ * Decrypted revision content
+ */
+export interface ArtifactRevisionContent {
+    title: string | null;
+    body: string | null;
+    device: string;  // Platform the revision was saved from, e.g. "ios" or "web"
+    type?: ArtifactType;
+    language?: string;
+}
+
+/**
+ * Decrypted revision for UI
+ */
+export interface DecryptedArtifactRevision {
+    id: string;
+    title: string | null;
+    body: string | null;
+    device: string | null;
+    type?: ArtifactType;
+    language?: string;
+    headerVersion: number;
+    bodyVersion: number;
+    createdAt: number;
+    isDecrypted: boolean;  // Whether decryption was successful
+}
+
 /**
  * Request to create a new artifact
  */
@@ -54,6 +108,7 @@ export interface ArtifactCreateRequest {
     header: string;  // Base64 encoded encrypted header
     body: string;  // Base64 encoded encrypted body
     dataEncryptionKey: string;  // Base64 encoded encryption key (encrypted with user key)
+    revision?: string;  // Base64 encoded encrypted first revision
 }
 
 /**
@@ -64,6 +119,7 @@ export interface ArtifactUpdateRequest {
     expectedHeaderVersion?: number;
     body?: string;  // Base64 encoded encrypted body
     expectedBodyVersion?: number;
+    revision?: string;  // Base64 encoded encrypted revision of the artifact after this update
 }
 
 /**
@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { attachmentPath, formatAttachmentSize, formatAttachmentsMessage } from './attachments';
+
+const screenshot = { name: 'Screen Shot.png', path: '.happy/attachments/abcd1234-Screen_Shot.png', mimeType: 'image/png', size: 2048 };
+
+describe('attachments', () => {
+    it('should build safe unique paths inside the attachments directory', () => {
+        expect(attachmentPath('abcd1234-ffff', 'Screen Shot.png')).toBe('.happy/attachments/abcd1234-Screen_Shot.png');
+        expect(attachmentPath('abcd1234', '../../etc/passwd')).toBe('.happy/attachments/abcd1234-etc_passwd');
+        expect(attachmentPath('abcd1234', 'Résumé.pdf')).toBe('.happy/attachments/abcd1234-Re_sume_.pdf');
+        expect(attachmentPath('abcd1234', '???')).toBe('.happy/attachments/abcd1234-attachment');
+    });
+
+    it('should list attachment paths after the typed text', () => {
+        expect(formatAttachmentsMessage('Fix this', [])).toBe('Fix this');
+        expect(formatAttachmentsMessage('Fix this', [screenshot])).toBe(
+            'Fix this\n\nThe user attached a file, read it from the working directory:\n- .happy/attachments/abcd1234-Screen_Shot.png'
+        );
+        expect(formatAttachmentsMessage('', [screenshot, screenshot]).startsWith('The user attached files')).toBe(true);
+    });
+
+    it('should format sizes', () => {
+        expect(formatAttachmentSize(512)).toBe('512 B');
+        expect(formatAttachmentSize(2048)).toBe('2 KB');
+        expect(formatAttachmentSize(3.5 * 1024 * 1024)).toBe('3.5 MB');
+    });
+});
@@ -0,0 +1,65 @@
+/**
+ * Images and files attached to user messages
+ * Attachments are uploaded into the working directory of the session before the message is sent,
+ * the message lists their paths so the agent can read them and keeps them in its meta for the thumbnails
+ */
+
+import { MessageAttachment } from './typesMessageMeta';
+
+export type { MessageAttachment };
+
+/**
+ * Attachment picked on this device that is not uploaded yet
+ */
+export interface DraftAttachment {
+    id: string;
+    name: string;
+    uri: string; // Local uri, used for the preview and to read the content
+    mimeType: string;
+    size: number;
+}
+
+export const ATTACHMENTS_DIR = '.happy/attachments';
+
+// Content goes through the session RPC as base64, larger files are better copied to the machine directly
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+
+export function isImageAttachment(attachment: { mimeType: string }): boolean {
+    return attachment.mimeType.startsWith('image/');
+}
+
+/**
+ * Path of an attachment relative to the working directory, unique per attachment and safe on any OS
+ */
+export function attachmentPath(id: string, name: string): string {
+    const safeName = name
+        .normalize('NFKD')
+        .replace(/[^\w.-]+/g, '_')
+        .replace(/^[._]+/, '')
+        .slice(-80) || 'attachment';
+    return `${ATTACHMENTS_DIR}/${id.slice(0, 8)}-${safeName}`;
+}
+
+/**
+ * Text sent to the agent, the typed text followed by the paths of the attachments
+ */
+export function formatAttachmentsMessage(text: string, attachments: MessageAttachment[]): string {
+    if (attachments.length === 0) {
+        return text;
+    }
+    const list = attachments.map((attachment) => `- ${attachment.path}`).join('\n');
+    const header = attachments.length === 1
+        ? 'The user attached a file, read it from the working directory:'
+        : 'The user attached files, read them from the working directory:';
+    return text.trim() ? `${text}\n\n${header}\n${list}` : `${header}\n${list}`;
+}
+
+export function formatAttachmentSize(size: number): string {
+    if (size < 1024) {
+        return `${size} B`;
+    }
+    if (size < 1024 * 1024) {
+        return `${Math.round(size / 1024)} KB`;
+    }
+    return `${(size / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,54 @@
+/**
+ * Uploading attachments into the working directory of a session
+ */
+
+import { sessionWriteFile } from './ops';
+import { ATTACHMENTS_DIR, attachmentPath, DraftAttachment, MAX_ATTACHMENT_SIZE, MessageAttachment } from './attachments';
+import { readFileBase64 } from '@/utils/readFileBase64';
+import { encodeBase64 } from '@/encryption/base64';
+import { encodeUTF8 } from '@/encryption/text';
+
+// Local uris of attachments uploaded from this device, so their thumbnails don't have to be downloaded back
+const localUris = new Map<string, string>();
+
+export function getLocalAttachmentUri(sessionId: string, path: string): string | null {
+    return localUris.get(`${sessionId}:${path}`) ?? null;
+}
+
+/**
+ * Upload attachments in order, fails on the first attachment that can't be uploaded
+ */
+export async function uploadAttachments(sessionId: string, drafts: DraftAttachment[]): Promise<MessageAttachment[]> {
+    if (drafts.length === 0) {
+        return [];
+    }
+
+    // Keep uploads out of the git status of the project, failing here doesn't matter
+    await sessionWriteFile(sessionId, `${ATTACHMENTS_DIR}/.gitignore`, encodeBase64(encodeUTF8('*\n')));
+
+    const uploaded: MessageAttachment[] = [];
+    for (const draft of drafts) {
+        const tooLarge = new Error(`${draft.name} is larger than ${MAX_ATTACHMENT_SIZE / (1024 * 1024)} MB`);
+        if (draft.size > MAX_ATTACHMENT_SIZE) {
+            throw tooLarge;
+        }
+        const content = await readFileBase64(draft.uri);
+        const size = Math.floor(content.length * 3 / 4); // Pickers don't always know the size
+        if (size > MAX_ATTACHMENT_SIZE) {
+            throw tooLarge;
+        }
+        const path = attachmentPath(draft.id, draft.name);
+        const response = await sessionWriteFile(sessionId, path, content, null);
+        if (!response.success) {
+            throw new Error(response.error || `Failed to upload ${draft.name}`);
+        }
+        localUris.set(`${sessionId}:${path}`, draft.uri);
+        uploaded.push({
+            name: draft.name,
+            path,
+            mimeType: draft.mimeType,
+            size
+        });
+    }
+    return uploaded;
+}
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { collectReviewFiles, composeReviewMessage, findLastCheckpoint, revertHunks } from './changeReview';
+import { Message } from './typesMessage';
+import { repoMetadata as metadata, toolCallMessage } from './__testdata__/toolMessages';
+
+function prompt(createdAt: number): Message {
+    return { kind: 'user-text', id: `u${createdAt}`, localId: null, createdAt, text: 'go' };
+}
+
+const gitDiff = [
+    'diff --git a/src/a.ts b/src/a.ts',
+    'index 1111111..2222222 100644',
+    '--- a/src/a.ts',
+    '+++ b/src/a.ts',
+    '@@ -1,3 +1,3 @@',
+    ' one',
+    '-two',
+    '+TWO',
+    ' three',
+    '@@ -10,2 +10,0 @@',
+    '-ten',
+    '-eleven',
+    ''
+].join('\n');
+
+describe('changeReview', () => {
+    it('should find the prompt that started the latest edits', () => {
+        const messages = [prompt(1), toolCallMessage(2, 'Edit', {}), prompt(3), toolCallMessage(4, 'Edit', {}), prompt(5)];
+        expect(findLastCheckpoint(messages)).toBe(3);
+        expect(findLastCheckpoint([prompt(1)])).toBe(0);
+    });
+
+    it('should prefer git hunks and fall back to tool edits', () => {
+        const messages = [
+            toolCallMessage(1, 'Edit', { file_path: '/repo/old.ts', old_string: 'a', new_string: 'b' }),
+            toolCallMessage(5, 'Edit', { file_path: '/repo/src/a.ts', old_string: 'two', new_string: 'TWO' }),
+            toolCallMessage(6, 'MultiEdit', { file_path: '/repo/b.ts', edits: [{ old_string: 'x', new_string: 'y' }, { old_string: 'p', new_string: 'q' }] }),
+            toolCallMessage(7, 'Write', { file_path: '/repo/c.ts', content: 'new file' }),
+            toolCallMessage(8, 'Edit', { file_path: '/repo/d.ts', old_string: 'a', new_string: 'b' }, { state: 'error' })
+        ];
+        const files = collectReviewFiles(messages, 2, gitDiff, metadata);
+        expect(files.map((file) => file.path)).toEqual(['b.ts', 'c.ts', 'src/a.ts']);
+        expect(files[0].hunks.map((hunk) => hunk.newText)).toEqual(['y', 'q']);
+        expect(files[1].hunks[0].revertible).toBe(false);
+        expect(files[2].toolNames).toEqual(['Edit']);
+        expect(files[2].hunks).toMatchObject([
+            { source: 'git', oldText: 'one\ntwo\nthree', newText: 'one\nTWO\nthree', newStart: 1 },
+            { source: 'git', oldText: 'ten\neleven', newText: '', newStart: 11 }
+        ]);
+    });
+
+    it('should revert hunks by line and by text', () => {
+        const files = collectReviewFiles([], 0, gitDiff, metadata);
+        const current = ['one', 'TWO', 'three', '4', '5', '6', '7', '8', '9', '10', ''].join('\n');
+        const reverted = revertHunks(current, files[0].hunks);
+        expect(reverted.failed).toEqual([]);
+        expect(reverted.content).toBe(['one', 'two', 'three', '4', '5', '6', '7', '8', '9', '10', 'ten', 'eleven', ''].join('\n'));
+
+        // Moved by a line added above, found by its text instead
+        const moved = revertHunks('zero\n' + current, [files[0].hunks[0]]);
+        expect(moved.content.startsWith('zero\none\ntwo\nthree\n')).toBe(true);
+
+        const ambiguous = revertHunks('b b', [{ id: 'x', source: 'tool', header: null, oldText: 'a', newText: 'b', newStart: null, revertible: true }]);
+        expect(ambiguous).toEqual({ content: 'b b', failed: ['x'] });
+    });
+
+    it('should compose one message with comments and reverts', () => {
+        const files = collectReviewFiles([], 0, gitDiff, metadata);
+        const message = composeReviewMessage(files, {
+            [files[0].hunks[0].id]: { revert: false, comment: 'Why uppercase?' },
+            [files[0].hunks[1].id]: { revert: true, comment: '' }
+        });
+        expect(message).toContain('1. src/a.ts:1\n```\none\nTWO\nthree\n```\nWhy uppercase?');
+        expect(message).toContain('- src/a.ts:11');
+        expect(composeReviewMessage(files, {})).toBeNull();
+    });
+});
@@ -0,0 +1,239 @@
+/**
+ * Review of the changes an agent made since a checkpoint
+ * Changes are collected from the file editing tool calls of the session and from the current git diff,
+ * split into hunks that can be kept, reverted or commented on one by one
+ */
+
+import { Message, ToolCall } from './typesMessage';
+import { Metadata } from './storageTypes';
+import { parseFileDiff } from './git-parsers/parseHunks';
+import { collectEditToolCalls, toolEdits } from './toolEdits';
+
+export interface ReviewHunk {
+    id: string;
+    source: 'git' | 'tool';
+    header: string | null; // "@@ -a,b +c,d @@" of git hunks
+    oldText: string;
+    newText: string;
+    newStart: number | null; // First line of newText in the current file, null when only known by content
+    revertible: boolean; // Whole-file writes can't be reverted without the original content
+}
+
+export interface ReviewFile {
+    path: string;
+    hunks: ReviewHunk[];
+    toolNames: string[]; // Tools of the agent that touched the file, empty for changes only found in git
+}
+
+export interface ReviewDecision {
+    revert: boolean;
+    comment: string;
+}
+
+const SNIPPET_LINES = 8;
+
+/**
+ * Time of the prompt that started the latest run of edits, 0 when there is none
+ */
+export function findLastCheckpoint(messages: Message[]): number {
+    const edits = collectEditToolCalls(messages, 0);
+    if (edits.length === 0) {
+        return 0;
+    }
+    const lastEdit = Math.max(...edits.map((tool) => tool.createdAt));
+    const prompts = messages
+        .filter((message) => message.kind === 'user-text' && message.createdAt <= lastEdit)
+        .map((message) => message.createdAt);
+    return prompts.length > 0 ? Math.max(...prompts) : 0;
+}
+
+function toolHunks(tool: ToolCall, metadata: Metadata | null): { path: string, hunk: Omit<ReviewHunk, 'id'> }[] {
+    return toolEdits(tool, metadata).map((edit) => ({
+        path: edit.path,
+        hunk: {
+            source: 'tool',
+            header: null,
+            oldText: edit.oldText,
+            newText: edit.newText,
+            newStart: null,
+            revertible: edit.kind === 'replace' || edit.kind === 'rewrite'
+        }
+    }));
+}
+
+/**
+ * Split `git diff` output of many files by file, keyed by the path on the new side
+ */
+export function splitGitDiff(diffOutput: string): Map<string, string> {
+    const files = new Map<string, string>();
+    const chunks = diffOutput.split(/^(?=diff --git )/m).filter((chunk) => chunk.startsWith('diff --git '));
+    for (const chunk of chunks) {
+        const target = chunk.match(/^\+\+\+ (.+)$/m)?.[1] ?? '';
+        const source = chunk.match(/^--- (.+)$/m)?.[1] ?? '';
+        const side = target !== '/dev/null' ? target : source;
+        const path = side.replace(/^"(.*)"$/, '$1').replace(/^[ab]\//, '');
+        if (path && path !== '/dev/null') {
+            files.set(path, chunk);
+        }
+    }
+    return files;
+}
+
+function gitHunks(diff: string): Omit<ReviewHunk, 'id'>[] {
+    const parsed = parseFileDiff(diff);
+    if (!parsed) {
+        return [];
+    }
+    return parsed.hunks.map((hunk) => {
+        const oldLines: string[] = [];
+        const newLines: string[] = [];
+        for (const line of hunk.lines) {
+            if (line.startsWith(' ') || line.startsWith('-')) {
+                oldLines.push(line.slice(1));
+            }
+            if (line.startsWith(' ') || line.startsWith('+')) {
+                newLines.push(line.slice(1));
+            }
+        }
+        // An empty new side is given as the line before the removed lines
+        const range = hunk.header.match(/\+(\d+)(?:,(\d+))?/);
+        const newStart = range ? parseInt(range[1], 10) + (range[2] === '0' ? 1 : 0) : NaN;
+        return {
+            source: 'git',
+            header: hunk.header,
+            oldText: oldLines.join('\n'),
+            newText: newLines.join('\n'),
+            newStart: Number.isNaN(newStart) ? null : Math.max(newStart, 1),
+            revertible: true
+        };
+    });
+}
+
+/**
+ * Files changed since the checkpoint. Files with a git diff are reviewed by their git hunks since
+ * those reflect the current content, the edits of the agent are used for files git doesn't know about
+ */
+export function collectReviewFiles(messages: Message[], since: number, gitDiff: string, metadata: Metadata | null): ReviewFile[] {
+    const tools = collectEditToolCalls(messages, since);
+    tools.sort((a, b) => a.createdAt - b.createdAt);
+
+    const files = new Map<string, { hunks: Omit<ReviewHunk, 'id'>[], toolNames: Set<string> }>();
+    const fileEntry = (path: string) => {
+        let entry = files.get(path);
+        if (!entry) {
+            entry = { hunks: [], toolNames: new Set() };
+            files.set(path, entry);
+        }
+        return entry;
+    };
+
+    const gitFiles = splitGitDiff(gitDiff);
+    for (const tool of tools) {
+        for (const { path, hunk } of toolHunks(tool, metadata)) {
+            const entry = fileEntry(path);
+            entry.toolNames.add(tool.name);
+            if (!gitFiles.has(path)) {
+                entry.hunks.push(hunk);
+            }
+        }
+    }
+    for (const [path, diff] of gitFiles) {
+        fileEntry(path).hunks.push(...gitHunks(diff));
+    }
+
+    return Array.from(files.entries())
+        .filter(([, entry]) => entry.hunks.length > 0)
+        .map(([path, entry]) => ({
+            path,
+            toolNames: Array.from(entry.toolNames),
+            hunks: entry.hunks.map((hunk, index) => ({ ...hunk, id: `${path}:${index}` }))
+        }))
+        .sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Undo hunks in the current content of a file. Hunks are located by their line first and by their
+ * text when the file moved on, hunks that can't be found unambiguously are returned as failed
+ */
+export function revertHunks(content: string, hunks: ReviewHunk[]): { content: string, failed: string[] } {
+    const failed: string[] = [];
+    const unplaced: ReviewHunk[] = [];
+    let lines = content.split('\n');
+
+    // Bottom-up, so reverting a hunk doesn't move the ones above it
+    const placed = hunks.filter((hunk) => hunk.newStart !== null).sort((a, b) => b.newStart! - a.newStart!);
+    for (const hunk of placed) {
+        const newLines = hunk.newText.length > 0 ? hunk.newText.split('\n') : [];
+        const start = hunk.newStart! - 1;
+        const matches = newLines.every((line, index) => lines[start + index] === line);
+        if (matches && start + newLines.length <= lines.length) {
+            const oldLines = hunk.oldText.length > 0 ? hunk.oldText.split('\n') : [];
+            lines = [...lines.slice(0, start), ...oldLines, ...lines.slice(start + newLines.length)];
+        } else {
+            unplaced.push(hunk);
+        }
+    }
+
+    let result = lines.join('\n');
+    for (const hunk of [...unplaced, ...hunks.filter((hunk) => hunk.newStart === null)]) {
+        const index = hunk.newText.length > 0 ? result.indexOf(hunk.newText) : -1;
+        if (!hunk.revertible || index === -1 || result.indexOf(hunk.newText, index + 1) !== -1) {
+            failed.push(hunk.id);
+            continue;
+        }
+        result = result.slice(0, index) + hunk.oldText + result.slice(index + hunk.newText.length);
+    }
+    return { content: result, failed };
+}
+
+function snippet(text: string): string {
+    const lines = text.split('\n');
+    const shown = lines.slice(0, SNIPPET_LINES);
+    if (lines.length > SNIPPET_LINES) {
+        shown.push('…');
+    }
+    return ['```', ...shown, '```'].join('\n');
+}
+
+function hunkLocation(file: ReviewFile, hunk: ReviewHunk): string {
+    return hunk.newStart !== null ? `${file.path}:${hunk.newStart}` : file.path;
+}
+
+/**
+ * Single message for the agent with every comment and the hunks that were reverted,
+ * null when there is nothing to tell
+ */
+export function composeReviewMessage(files: ReviewFile[], decisions: Record<string, ReviewDecision>): string | null {
+    const comments: string[] = [];
+    const reverted: string[] = [];
+    for (const file of files) {
+        for (const hunk of file.hunks) {
+            const decision = decisions[hunk.id];
+            if (!decision) {
+                continue;
+            }
+            if (decision.revert) {
+                reverted.push(`- ${hunkLocation(file, hunk)}`);
+            }
+            if (decision.comment.trim()) {
+                comments.push([
+                    `${comments.length + 1}. ${hunkLocation(file, hunk)}${decision.revert ? ' (reverted)' : ''}`,
+                    snippet(hunk.newText || hunk.oldText),
+                    decision.comment.trim()
+                ].join('\n'));
+            }
+        }
+    }
+    if (comments.length === 0 && reverted.length === 0) {
+        return null;
+    }
+
+    const sections = ['I reviewed your changes.'];
+    if (comments.length > 0) {
+        sections.push('Please address these review comments:', ...comments);
+    }
+    if (reverted.length > 0) {
+        sections.push('I reverted these changes, don\'t reapply them unless a comment asks for it:\n' + reverted.join('\n'));
+    }
+    return sections.join('\n\n');
+}
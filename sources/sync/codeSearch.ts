@@ -0,0 +1,50 @@
+/**
+ * Project-wide code search through ripgrep on the session's machine
+ * Matching files are listed first, then searched in small batches so results show up while the search is running
+ */
+
+import { sessionRipgrep } from './ops';
+import { buildRipgrepArgs, CodeSearchFile, CodeSearchOptions, parseRipgrepJson } from './codeSearchParser';
+
+const MAX_FILES = 200;
+const BATCH_SIZE = 20;
+
+function ripgrepError(response: { exitCode?: number, stderr?: string, error?: string }): string {
+    return response.stderr?.trim() || response.error || `ripgrep exited with code ${response.exitCode}`;
+}
+
+/**
+ * Search the project of the session. onFiles receives each batch of results as it arrives,
+ * the search stops early once isCancelled returns true.
+ * Resolves with true when the number of matching files exceeded the limit
+ */
+export async function searchCode(
+    sessionId: string,
+    options: CodeSearchOptions,
+    onFiles: (files: CodeSearchFile[]) => void,
+    isCancelled: () => boolean
+): Promise<{ truncated: boolean }> {
+    const listing = await sessionRipgrep(sessionId, buildRipgrepArgs(options, 'files'));
+    // Exit code 1 means nothing matched
+    if (listing.exitCode === 1) {
+        return { truncated: false };
+    }
+    if (!listing.success || listing.exitCode !== 0) {
+        throw new Error(ripgrepError(listing));
+    }
+
+    const paths = (listing.stdout ?? '').split('\n').filter((path) => path.length > 0).sort();
+    const searched = paths.slice(0, MAX_FILES);
+    for (let i = 0; i < searched.length && !isCancelled(); i += BATCH_SIZE) {
+        const response = await sessionRipgrep(sessionId, buildRipgrepArgs(options, 'matches', searched.slice(i, i + BATCH_SIZE)));
+        if (isCancelled()) {
+            break;
+        }
+        // Files may have changed since they were listed, so no matches isn't an error here
+        if (!response.success || (response.exitCode !== 0 && response.exitCode !== 1)) {
+            throw new Error(ripgrepError(response));
+        }
+        onFiles(parseRipgrepJson(response.stdout ?? ''));
+    }
+    return { truncated: paths.length > MAX_FILES };
+}
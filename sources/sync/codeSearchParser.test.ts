@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { buildRipgrepArgs, formatCodeReference, parseGlobList, parseRipgrepJson } from './codeSearchParser';
+
+const options = { query: 'foo(', regex: false, caseSensitive: false, include: ['*.ts'], exclude: ['dist/**'] };
+
+function event(type: string, data: object): string {
+    return JSON.stringify({ type, data });
+}
+
+describe('codeSearchParser', () => {
+    it('should build args for listing and searching files', () => {
+        expect(buildRipgrepArgs(options, 'files')).toEqual([
+            '--files-with-matches', '--glob', '*.ts', '--glob', '!dist/**', '--ignore-case', '--fixed-strings', '--regexp', 'foo('
+        ]);
+        const args = buildRipgrepArgs({ ...options, regex: true, caseSensitive: true }, 'matches', ['a.ts', '-b.ts']);
+        expect(args).toContain('--json');
+        expect(args).toContain('--case-sensitive');
+        expect(args).not.toContain('--fixed-strings');
+        expect(args).not.toContain('--glob');
+        expect(args.slice(-5)).toEqual(['--regexp', 'foo(', '--', 'a.ts', '-b.ts']);
+    });
+
+    it('should parse glob lists', () => {
+        expect(parseGlobList(' *.ts, src/** ,,test/*  ')).toEqual(['*.ts', 'src/**', 'test/*']);
+        expect(parseGlobList('')).toEqual([]);
+    });
+
+    it('should group lines into blocks and convert byte offsets', () => {
+        const output = [
+            event('begin', { path: { text: 'src/a.ts' } }),
+            event('context', { path: { text: 'src/a.ts' }, lines: { text: 'const x = 1;\n' }, line_number: 1, submatches: [] }),
+            event('match', { path: { text: 'src/a.ts' }, lines: { text: 'é foo(x)\n' }, line_number: 2, submatches: [{ match: { text: 'foo(' }, start: 3, end: 7 }] }),
+            event('match', { path: { text: 'src/a.ts' }, lines: { text: 'foo(y)\r\n' }, line_number: 10, submatches: [{ match: { text: 'foo(' }, start: 0, end: 4 }] }),
+            event('end', { path: { text: 'src/a.ts' } }),
+            event('begin', { path: { bytes: 'AAE=' } }),
+            event('match', { path: { bytes: 'AAE=' }, lines: { text: 'foo(\n' }, line_number: 1, submatches: [] }),
+            event('summary', {}),
+            'not json'
+        ].join('\n');
+
+        const files = parseRipgrepJson(output);
+        expect(files).toHaveLength(1);
+        expect(files[0].path).toBe('src/a.ts');
+        expect(files[0].matchCount).toBe(2);
+        expect(files[0].blocks).toHaveLength(2);
+        expect(files[0].blocks[0]).toEqual([
+            { lineNumber: 1, text: 'const x = 1;', matches: [] },
+            { lineNumber: 2, text: 'é foo(x)', matches: [{ start: 2, end: 6 }] }
+        ]);
+        expect(files[0].blocks[1]).toEqual([{ lineNumber: 10, text: 'foo(y)', matches: [{ start: 0, end: 4 }] }]);
+    });
+
+    it('should format references', () => {
+        expect(formatCodeReference('src/a.ts', 12)).toBe('@src/a.ts:12');
+    });
+});
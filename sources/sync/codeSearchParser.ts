@@ -0,0 +1,128 @@
+/**
+ * Arguments and output parsing for ripgrep based code search
+ */
+
+import { decodeUTF8, encodeUTF8 } from '@/encryption/text';
+
+export interface CodeSearchOptions {
+    query: string;
+    regex: boolean;
+    caseSensitive: boolean;
+    include: string[]; // Globs the searched files must match
+    exclude: string[]; // Globs of files to skip
+}
+
+export interface CodeSearchLine {
+    lineNumber: number;
+    text: string;
+    matches: { start: number, end: number }[]; // Character ranges, empty for context lines
+}
+
+export interface CodeSearchFile {
+    path: string;
+    matchCount: number;
+    blocks: CodeSearchLine[][]; // Runs of consecutive lines, matches with their context
+}
+
+export const CODE_SEARCH_CONTEXT_LINES = 2;
+const MAX_MATCHES_PER_FILE = 50;
+
+/**
+ * Turn a comma or whitespace separated list of globs into an array
+ */
+export function parseGlobList(value: string): string[] {
+    return value.split(/[,\s]+/).map((glob) => glob.trim()).filter((glob) => glob.length > 0);
+}
+
+export function buildRipgrepArgs(options: CodeSearchOptions, mode: 'files' | 'matches', paths: string[] = []): string[] {
+    const args: string[] = [];
+    if (mode === 'files') {
+        args.push('--files-with-matches');
+        for (const glob of options.include) {
+            args.push('--glob', glob);
+        }
+        for (const glob of options.exclude) {
+            args.push('--glob', `!${glob}`);
+        }
+    } else {
+        args.push('--json', '--context', String(CODE_SEARCH_CONTEXT_LINES), '--max-count', String(MAX_MATCHES_PER_FILE), '--max-columns', '500', '--max-columns-preview');
+    }
+    args.push(options.caseSensitive ? '--case-sensitive' : '--ignore-case');
+    if (!options.regex) {
+        args.push('--fixed-strings');
+    }
+    args.push('--regexp', options.query);
+    if (paths.length > 0) {
+        args.push('--', ...paths);
+    }
+    return args;
+}
+
+// Ripgrep reports match offsets in bytes of the UTF-8 encoded line
+function byteToCharOffset(bytes: Uint8Array, offset: number): number {
+    return decodeUTF8(bytes.slice(0, offset)).length;
+}
+
+/**
+ * Parse the output of `rg --json` into files with their matched lines and context
+ */
+export function parseRipgrepJson(output: string): CodeSearchFile[] {
+    const files: CodeSearchFile[] = [];
+    let current: CodeSearchFile | null = null;
+    for (const line of output.split('\n')) {
+        if (!line.trim()) {
+            continue;
+        }
+        let event: any;
+        try {
+            event = JSON.parse(line);
+        } catch {
+            continue;
+        }
+        // Paths and lines that aren't valid UTF-8 are reported as bytes and skipped
+        const path: string | undefined = event.data?.path?.text;
+        if (event.type === 'begin') {
+            current = path !== undefined ? { path, matchCount: 0, blocks: [] } : null;
+            if (current) {
+                files.push(current);
+            }
+            continue;
+        }
+        if ((event.type !== 'match' && event.type !== 'context') || !current || path !== current.path) {
+            continue;
+        }
+        const text: string | undefined = event.data.lines?.text;
+        if (text === undefined) {
+            continue;
+        }
+        const bytes = encodeUTF8(text);
+        const matches = event.type === 'match'
+            ? (event.data.submatches ?? []).map((m: { start: number, end: number }) => ({
+                start: byteToCharOffset(bytes, m.start),
+                end: byteToCharOffset(bytes, m.end)
+            }))
+            : [];
+        const searchLine: CodeSearchLine = {
+            lineNumber: event.data.line_number,
+            text: text.replace(/\r?\n$/, ''),
+            matches
+        };
+        if (event.type === 'match') {
+            current.matchCount++;
+        }
+        const block = current.blocks[current.blocks.length - 1];
+        if (block && block[block.length - 1].lineNumber + 1 === searchLine.lineNumber) {
+            block.push(searchLine);
+        } else {
+            current.blocks.push([searchLine]);
+        }
+    }
+    return files;
+}
+
+/**
+ * Reference to a line of a file in the form the agent understands in messages
+ */
+export function formatCodeReference(path: string, lineNumber: number): string {
+    return `@${path}:${lineNumber}`;
+}
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { composeDiffCommentsMessage, DiffComment, getDiffCommentStatus } from './diffComments';
+import { repoMetadata as metadata, toolCallMessage } from './__testdata__/toolMessages';
+
+function comment(overrides: Partial<DiffComment>): DiffComment {
+    return {
+        id: 'c1', sessionId: 's1', messageId: 't1', editIndex: 0, filePath: 'src/a.ts', side: 'new', line: 2,
+        lineText: '    return a + b;', snippet: 'function add(a, b) {\n    return a + b;\n}', comment: 'Handle overflow',
+        createdAt: 10, sentAt: 20, ...overrides
+    };
+}
+
+describe('diffComments', () => {
+    it('should resolve comments once a later edit replaces the line', () => {
+        const replaced = toolCallMessage(30, 'Edit', { file_path: '/repo/src/a.ts', old_string: 'return a + b;', new_string: 'return safeAdd(a, b);' });
+        const earlier = toolCallMessage(15, 'Edit', { file_path: '/repo/src/a.ts', old_string: 'return a + b;', new_string: 'x' });
+        const otherFile = toolCallMessage(30, 'Edit', { file_path: '/repo/src/b.ts', old_string: 'return a + b;', new_string: 'x' });
+
+        expect(getDiffCommentStatus(comment({ sentAt: null }), [replaced], metadata)).toBe('pending');
+        expect(getDiffCommentStatus(comment({}), [earlier, otherFile], metadata)).toBe('sent');
+        expect(getDiffCommentStatus(comment({}), [replaced], metadata)).toBe('resolved');
+    });
+
+    it('should resolve removed lines when they come back and rewrites that drop the line', () => {
+        const removed = comment({ side: 'old', lineText: 'validate(input);' });
+        const restored = toolCallMessage(30, 'MultiEdit', { file_path: '/repo/src/a.ts', edits: [{ old_string: 'run();', new_string: 'validate(input);\nrun();' }] });
+        expect(getDiffCommentStatus(removed, [restored], metadata)).toBe('resolved');
+
+        const rewrite = toolCallMessage(30, 'Write', { file_path: '/repo/src/a.ts', content: 'export const add = safeAdd;' });
+        expect(getDiffCommentStatus(comment({}), [rewrite], metadata)).toBe('resolved');
+    });
+
+    it('should compose one message grouped by file', () => {
+        const message = composeDiffCommentsMessage([
+            comment({ id: 'c2', createdAt: 12, filePath: 'src/b.ts', line: 5, snippet: 'b()', comment: 'Rename' }),
+            comment({})
+        ]);
+        expect(message).toBe([
+            'Please address my comments on your edits:',
+            'src/a.ts:\n- On your new code:\n  ```\n  function add(a, b) {\n      return a + b;\n  }\n  ```\n  Handle overflow',
+            'src/b.ts:\n- On your new code:\n  ```\n  b()\n  ```\n  Rename'
+        ].join('\n\n'));
+    });
+});
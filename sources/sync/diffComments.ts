@@ -0,0 +1,102 @@
+/**
+ * Comments on lines of the diffs of file editing tools
+ * Comments are collected across the tool calls of a session and sent to the agent as one message,
+ * a sent comment counts as resolved once a later edit of the agent touches the commented line
+ */
+
+import { Message, ToolCall } from './typesMessage';
+import { Metadata } from './storageTypes';
+import { collectEditToolCalls, toolEdits } from './toolEdits';
+
+export interface DiffComment {
+    id: string;
+    sessionId: string;
+    messageId: string; // Tool call the diff belongs to
+    editIndex: number; // Edit of a MultiEdit call, 0 otherwise
+    filePath: string;
+    side: 'old' | 'new'; // Removed lines are on the old side, added and unchanged lines on the new one
+    line: number; // Line number within the diff of the edit, not of the file
+    lineText: string;
+    snippet: string; // Commented line with a line of context around it
+    comment: string;
+    createdAt: number;
+    sentAt: number | null;
+}
+
+export type DiffCommentStatus = 'pending' | 'sent' | 'resolved';
+
+export function diffCommentKey(editIndex: number, side: 'old' | 'new', line: number): string {
+    return `${editIndex}:${side}:${line}`;
+}
+
+// Text before and after the tool call for the commented file, null when the tool didn't touch it
+function editedTexts(tool: ToolCall, filePath: string, metadata: Metadata | null): { before: string[], after: string[], rewrite: boolean } | null {
+    const edits = toolEdits(tool, metadata)
+        .filter((edit) => edit.path === filePath && edit.kind !== 'add' && edit.kind !== 'delete');
+    if (edits.length === 0) {
+        return null;
+    }
+    const rewrite = edits.some((edit) => edit.kind !== 'replace');
+    return {
+        before: rewrite ? [] : edits.map((edit) => edit.oldText),
+        after: edits.map((edit) => edit.newText),
+        rewrite
+    };
+}
+
+/**
+ * Whether an edit of the agent after the comment was sent replaced the commented line,
+ * or brought a commented removed line back
+ */
+export function isDiffCommentResolved(comment: DiffComment, messages: Message[], metadata: Metadata | null): boolean {
+    if (comment.sentAt === null) {
+        return false;
+    }
+    const tools = collectEditToolCalls(messages, comment.sentAt + 1);
+    const line = comment.lineText.trim();
+    return tools.some((tool) => {
+        const texts = editedTexts(tool, comment.filePath, metadata);
+        if (!texts) {
+            return false;
+        }
+        if (!line) {
+            // Blank lines can't be told apart, any edit of the file counts
+            return true;
+        }
+        if (texts.rewrite) {
+            const present = texts.after.some((text) => text.includes(line));
+            return comment.side === 'new' ? !present : present;
+        }
+        return comment.side === 'new'
+            ? texts.before.some((text) => text.includes(line))
+            : texts.after.some((text) => text.includes(line));
+    });
+}
+
+export function getDiffCommentStatus(comment: DiffComment, messages: Message[], metadata: Metadata | null): DiffCommentStatus {
+    if (comment.sentAt === null) {
+        return 'pending';
+    }
+    return isDiffCommentResolved(comment, messages, metadata) ? 'resolved' : 'sent';
+}
+
+/**
+ * One message with every comment, grouped by file in the order they were made
+ */
+export function composeDiffCommentsMessage(comments: DiffComment[]): string {
+    const sorted = [...comments].sort((a, b) => a.createdAt - b.createdAt);
+    const files = Array.from(new Set(sorted.map((comment) => comment.filePath)));
+    const sections = files.map((filePath) => {
+        const items = sorted
+            .filter((comment) => comment.filePath === filePath)
+            .map((comment) => [
+                `- On your ${comment.side === 'old' ? 'removed' : 'new'} code:`,
+                '  ```',
+                ...comment.snippet.split('\n').map((line) => `  ${line}`),
+                '  ```',
+                `  ${comment.comment.trim().split('\n').join('\n  ')}`
+            ].join('\n'));
+        return [`${filePath}:`, ...items].join('\n');
+    });
+    return ['Please address my comments on your edits:', ...sections].join('\n\n');
+}
@@ -1,6 +1,7 @@
 import { decodeBase64, encodeBase64 } from '@/encryption/base64';
-import { ArtifactHeader, ArtifactBody } from '../artifactTypes';
+import { ArtifactHeader, ArtifactBody, ArtifactRevisionContent } from '../artifactTypes';
 import { AES256Encryption } from './encryptor';
+import { isArtifactType } from '../artifactContent';
 import * as Random from 'expo-crypto';
 
 export class ArtifactEncryption {
@@ -41,7 +42,12 @@ export class ArtifactEncryption {
                 return null;
             }
             return {
-                title: typeof header.title === 'string' ? header.title : null
+                title: typeof header.title === 'string' ? header.title : null,
+                sessions: Array.isArray(header.sessions) ? header.sessions.filter((id: unknown) => typeof id === 'string') : undefined,
+                draft: typeof header.draft === 'boolean' ? header.draft : undefined,
+                source: typeof header.source === 'string' ? header.source : undefined,
+                type: isArtifactType(header.type) ? header.type : undefined,
+                language: typeof header.language === 'string' ? header.language : undefined
             };
         } catch (error) {
             console.error('Failed to decrypt artifact header:', error);
@@ -80,4 +86,40 @@ export class ArtifactEncryption {
             return null;
         }
     }
-}
\ No newline at end of file
+
+    /**
+     * Encrypt artifact revision
+     */
+    async encryptRevision(revision: ArtifactRevisionContent): Promise<string> {
+        const encrypted = await this.encryptor.encrypt([revision]);
+        return encodeBase64(encrypted[0], 'base64');
+    }
+
+    /**
+     * Decrypt artifact revision
+     */
+    async decryptRevision(encryptedRevision: string): Promise<ArtifactRevisionContent | null> {
+        try {
+            const encryptedData = decodeBase64(encryptedRevision, 'base64');
+            const decrypted = await this.encryptor.decrypt([encryptedData]);
+            if (!decrypted[0]) {
+                return null;
+            }
+            // Validate structure
+            const revision = decrypted[0] as any;
+            if (typeof revision !== 'object' || revision === null) {
+                return null;
+            }
+            return {
+                title: typeof revision.title === 'string' ? revision.title : null,
+                body: typeof revision.body === 'string' ? revision.body : null,
+                device: typeof revision.device === 'string' ? revision.device : 'unknown',
+                type: isArtifactType(revision.type) ? revision.type : undefined,
+                language: typeof revision.language === 'string' ? revision.language : undefined
+            };
+        } catch (error) {
+            console.error('Failed to decrypt artifact revision:', error);
+            return null;
+        }
+    }
+}
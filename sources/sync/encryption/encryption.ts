@@ -5,6 +5,7 @@ import { EncryptionCache } from "./encryptionCache";
 import { SessionEncryption } from "./sessionEncryption";
 import { MachineEncryption } from "./machineEncryption";
 import { encodeBase64, decodeBase64 } from "@/encryption/base64";
+import { encodeUTF8, decodeUTF8 } from "@/encryption/text";
 import sodium from '@/encryption/libsodium.lib';
 import { decryptBox, encryptBox } from "@/encryption/libsodium";
 import { randomUUID } from 'expo-crypto';
@@ -33,6 +34,7 @@ export class Encryption {
 
     // Session and machine encryption management
     private sessionEncryptions = new Map<string, SessionEncryption>();
+    private sessionDataKeys = new Map<string, Uint8Array>(); // Kept to share sessions with other accounts
     private machineEncryptions = new Map<string, MachineEncryption>();
     private cache: EncryptionCache;
 
@@ -72,6 +74,9 @@ export class Encryption {
 
             // Create appropriate encryptor based on data key
             const encryptor = await this.openEncryption(dataKey);
+            if (dataKey) {
+                this.sessionDataKeys.set(sessionId, dataKey);
+            }
 
             // Create and cache session encryption
             const sessionEnc = new SessionEncryption(
@@ -91,11 +96,19 @@ export class Encryption {
         return this.sessionEncryptions.get(sessionId) || null;
     }
 
+    /**
+     * Data encryption key of a session, null for legacy sessions encrypted with the master secret
+     */
+    getSessionDataKey(sessionId: string): Uint8Array | null {
+        return this.sessionDataKeys.get(sessionId) || null;
+    }
+
     /**
      * Remove session encryption from memory when session is deleted
      */
     removeSessionEncryption(sessionId: string): void {
         this.sessionEncryptions.delete(sessionId);
+        this.sessionDataKeys.delete(sessionId);
         // Also clear any cached data for this session
         this.cache.clearSessionCache(sessionId);
     }
@@ -181,6 +194,39 @@ export class Encryption {
         return result;
     }
 
+    async encryptEncryptionKeyFor(key: Uint8Array, publicKey: Uint8Array): Promise<Uint8Array> {
+        // Same format as our own keys, so the other account opens it with decryptEncryptionKey
+        const encrypted = encryptBox(key, publicKey);
+        const result = new Uint8Array(encrypted.length + 1);
+        result[0] = 0; // Version byte
+        result.set(encrypted, 1);
+        return result;
+    }
+
+    //
+    // Data sent to other accounts
+    //
+
+    /**
+     * Encrypt data so that only the account with the given content public key can open it
+     */
+    async encryptForAccount(data: any, publicKey: Uint8Array): Promise<string> {
+        const encrypted = await this.encryptEncryptionKeyFor(encodeUTF8(JSON.stringify(data)), publicKey);
+        return encodeBase64(encrypted, 'base64');
+    }
+
+    /**
+     * Open data another account encrypted for this account's content public key
+     */
+    async decryptFromAccount(encrypted: string): Promise<any | null> {
+        try {
+            const decrypted = await this.decryptEncryptionKey(encrypted);
+            return decrypted ? JSON.parse(decodeUTF8(decrypted)) : null;
+        } catch (error) {
+            return null;
+        }
+    }
+
     generateId(): string {
         return randomUUID();
     }
@@ -4,6 +4,8 @@ import { z } from 'zod';
 export const FeedBodySchema = z.discriminatedUnion('kind', [
     z.object({ kind: z.literal('friend_request'), uid: z.string() }),
     z.object({ kind: z.literal('friend_accepted'), uid: z.string() }),
+    z.object({ kind: z.literal('session_shared'), uid: z.string(), sessionId: z.string() }),
+    z.object({ kind: z.literal('template_shared'), uid: z.string(), template: z.string() }), // template is encrypted for the recipient's content key
     z.object({ kind: z.literal('text'), text: z.string() })
 ]);
 
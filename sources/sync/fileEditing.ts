@@ -0,0 +1,85 @@
+/**
+ * Reading and writing text files of a session for the in-app editor
+ * Writes are guarded by the SHA-256 hash of the version the edit started from, so changes
+ * the agent made in the meantime are detected instead of overwritten
+ */
+
+import * as Crypto from 'expo-crypto';
+import { sessionReadFile, sessionWriteFile } from './ops';
+import { gitStatusSync } from './gitStatusSync';
+import { decodeBase64, encodeBase64 } from '@/encryption/base64';
+import { decodeUTF8, encodeUTF8 } from '@/encryption/text';
+import { encodeHex } from '@/encryption/hex';
+import { ReviewHunk, revertHunks } from './changeReview';
+
+export interface SessionFileVersion {
+    text: string;
+    hash: string;
+}
+
+export type SessionFileSaveResult =
+    | { type: 'saved'; version: SessionFileVersion }
+    | { type: 'conflict'; current: SessionFileVersion }
+    | { type: 'error'; error: string };
+
+async function hashContent(bytes: Uint8Array): Promise<string> {
+    const digest = await Crypto.digest(Crypto.CryptoDigestAlgorithm.SHA256, new Uint8Array(bytes));
+    return encodeHex(new Uint8Array(digest)).toLowerCase();
+}
+
+export async function readSessionFile(sessionId: string, path: string): Promise<SessionFileVersion> {
+    const response = await sessionReadFile(sessionId, path);
+    if (!response.success || response.content === undefined) {
+        throw new Error(response.error || 'Failed to read file');
+    }
+    const bytes = decodeBase64(response.content);
+    return { text: decodeUTF8(bytes), hash: await hashContent(bytes) };
+}
+
+/**
+ * Write the file unless it changed since the version with baseHash was read
+ */
+export async function saveSessionFile(sessionId: string, path: string, text: string, baseHash: string): Promise<SessionFileSaveResult> {
+    try {
+        const current = await readSessionFile(sessionId, path);
+        if (current.hash !== baseHash) {
+            return { type: 'conflict', current };
+        }
+
+        const bytes = encodeUTF8(text);
+        const response = await sessionWriteFile(sessionId, path, encodeBase64(bytes), baseHash);
+        if (!response.success) {
+            // The file may have changed between the check and the write
+            const latest = await readSessionFile(sessionId, path);
+            if (latest.hash !== baseHash) {
+                return { type: 'conflict', current: latest };
+            }
+            return { type: 'error', error: response.error || 'Failed to write file' };
+        }
+
+        gitStatusSync.getSync(sessionId).invalidate();
+        return { type: 'saved', version: { text, hash: response.hash ?? await hashContent(bytes) } };
+    } catch (error) {
+        return { type: 'error', error: error instanceof Error ? error.message : 'Failed to write file' };
+    }
+}
+
+/**
+ * Undo reviewed hunks in a file, hunks that no longer match the file are returned as failed
+ */
+export async function revertSessionFileHunks(sessionId: string, path: string, hunks: ReviewHunk[]): Promise<{ failed: string[], error?: string }> {
+    try {
+        const current = await readSessionFile(sessionId, path);
+        const reverted = revertHunks(current.text, hunks);
+        if (reverted.failed.length === hunks.length) {
+            return { failed: reverted.failed };
+        }
+        const result = await saveSessionFile(sessionId, path, reverted.content, current.hash);
+        if (result.type !== 'saved') {
+            return { failed: hunks.map((hunk) => hunk.id), error: result.type === 'error' ? result.error : undefined };
+        }
+        return { failed: reverted.failed };
+    } catch (error) {
+        return { failed: hunks.map((hunk) => hunk.id), error: error instanceof Error ? error.message : 'Failed to revert changes' };
+    }
+}
@@ -25,7 +25,8 @@ export const UserProfileSchema = z.object({
     }).nullable(),
     username: z.string(),
     bio: z.string().nullable(),
-    status: RelationshipStatusSchema
+    status: RelationshipStatusSchema,
+    contentPublicKey: z.string().nullable().optional() // Base64 public key session keys are shared to, null until the user's app published it
 });
 
 export type UserProfile = z.infer<typeof UserProfileSchema>;
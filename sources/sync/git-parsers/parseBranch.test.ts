@@ -0,0 +1,20 @@
+import { describe, it, expect } from 'vitest';
+import { parseBranchRefs } from './parseBranch';
+
+describe('parseBranchRefs', () => {
+    it('should parse branches with their tracking state', () => {
+        const output = [
+            ' \x1ffeat\x1f59ac2fa\x1forigin/feat\x1fahead 2, behind 1\x1f1700000000\x1fAdd feature',
+            '*\x1fmain\x1f0a1efb5\x1forigin/main\x1f\x1f1710000000\x1fMerge branch \'feat\'',
+            ' \x1fold\x1f1234567\x1forigin/old\x1fgone\x1f1600000000\x1fOld work',
+            ' \x1flocal\x1f7654321\x1f\x1f\x1f1650000000\x1fbehind 3'
+        ].join('\n');
+
+        const branches = parseBranchRefs(output);
+        expect(branches.map((b) => b.name)).toEqual(['main', 'feat', 'local', 'old']);
+        expect(branches[0]).toMatchObject({ current: true, upstream: 'origin/main', ahead: 0, behind: 0 });
+        expect(branches[1]).toMatchObject({ current: false, ahead: 2, behind: 1, timestamp: 1700000000000 });
+        expect(branches[2]).toMatchObject({ upstream: null, behind: 0, subject: 'behind 3' });
+        expect(branches[3].upstreamGone).toBe(true);
+    });
+});
@@ -94,4 +94,48 @@ export function getBranchStatus(statusChar: string): 'current' | 'remote' | 'nor
         default:
             return 'normal';
     }
-}
\ No newline at end of file
+}
+
+export interface GitBranchRef {
+    name: string;
+    current: boolean;
+    shortHash: string;
+    upstream: string | null;
+    ahead: number;
+    behind: number;
+    upstreamGone: boolean; // The upstream branch was deleted on the remote
+    timestamp: number; // Last commit, milliseconds
+    subject: string;
+}
+
+// Fields parsed by parseBranchRefs, separated by unit separators
+export const BRANCH_REF_FORMAT = [
+    '%(HEAD)', '%(refname:short)', '%(objectname:short)', '%(upstream:short)',
+    '%(upstream:track,nobracket)', '%(committerdate:unix)', '%(subject)'
+].join('%1f');
+
+/**
+ * Parse `git for-each-ref --format=<BRANCH_REF_FORMAT> refs/heads` output, most recently committed first
+ */
+export function parseBranchRefs(output: string): GitBranchRef[] {
+    const branches: GitBranchRef[] = [];
+    for (const line of output.split('\n')) {
+        const fields = line.split('\x1f');
+        if (fields.length < 7 || !fields[1]) {
+            continue;
+        }
+        const [head, name, shortHash, upstream, track, timestamp, ...subject] = fields;
+        branches.push({
+            name,
+            current: head === '*',
+            shortHash,
+            upstream: upstream || null,
+            ahead: parseInt(track.match(/ahead (\d+)/)?.[1] ?? '0', 10),
+            behind: parseInt(track.match(/behind (\d+)/)?.[1] ?? '0', 10),
+            upstreamGone: track === 'gone',
+            timestamp: (parseInt(timestamp, 10) || 0) * 1000,
+            subject: subject.join('\x1f')
+        });
+    }
+    return branches.sort((a, b) => b.timestamp - a.timestamp);
+}
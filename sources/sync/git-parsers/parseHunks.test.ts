@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { buildHunkPatch, parseFileDiff } from './parseHunks';
+
+const diff = [
+    'diff --git a/app.ts b/app.ts',
+    'index 1111111..2222222 100644',
+    '--- a/app.ts',
+    '+++ b/app.ts',
+    '@@ -1,3 +1,3 @@',
+    ' first',
+    '-second',
+    '+SECOND',
+    ' third',
+    '@@ -10,2 +10,3 @@ function main() {',
+    ' tenth',
+    ' last',
+    '+added',
+    '\\ No newline at end of file',
+    ''
+].join('\n');
+
+describe('parseHunks', () => {
+    it('should split a file diff into hunks', () => {
+        const parsed = parseFileDiff(diff)!;
+        expect(parsed.fileHeader).toHaveLength(4);
+        expect(parsed.hunks.map((h) => [h.header, h.added, h.removed])).toEqual([
+            ['@@ -1,3 +1,3 @@', 1, 1],
+            ['@@ -10,2 +10,3 @@ function main() {', 1, 0],
+        ]);
+        expect(parsed.hunks[1].lines[3]).toBe('\\ No newline at end of file');
+    });
+
+    it('should build a patch for a single hunk', () => {
+        const parsed = parseFileDiff(diff)!;
+        expect(buildHunkPatch(parsed, parsed.hunks[0])).toBe([
+            'diff --git a/app.ts b/app.ts',
+            'index 1111111..2222222 100644',
+            '--- a/app.ts',
+            '+++ b/app.ts',
+            '@@ -1,3 +1,3 @@',
+            ' first',
+            '-second',
+            '+SECOND',
+            ' third',
+            ''
+        ].join('\n'));
+    });
+
+    it('should reject output without hunks', () => {
+        expect(parseFileDiff('')).toBeNull();
+        expect(parseFileDiff('Binary files a/x.png and b/x.png differ')).toBeNull();
+    });
+});
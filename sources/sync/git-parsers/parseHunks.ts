@@ -0,0 +1,57 @@
+/**
+ * Git diff hunk parser
+ * Splits the unified diff of a single file into hunks that can be applied on their own
+ */
+
+export interface DiffHunk {
+    header: string; // The "@@ -a,b +c,d @@" line
+    lines: string[]; // Hunk body, including "\ No newline at end of file" markers
+    added: number;
+    removed: number;
+}
+
+export interface FileDiff {
+    fileHeader: string[]; // Lines from "diff --git" up to the first hunk
+    hunks: DiffHunk[];
+}
+
+/**
+ * Parse `git diff` output of a single file
+ */
+export function parseFileDiff(diffOutput: string): FileDiff | null {
+    const lines = diffOutput.split('\n');
+    if (lines[lines.length - 1] === '') {
+        lines.pop();
+    }
+
+    const fileHeader: string[] = [];
+    const hunks: DiffHunk[] = [];
+    let current: DiffHunk | null = null;
+    for (const line of lines) {
+        if (line.startsWith('@@')) {
+            current = { header: line, lines: [], added: 0, removed: 0 };
+            hunks.push(current);
+        } else if (current) {
+            current.lines.push(line);
+            if (line.startsWith('+')) {
+                current.added++;
+            } else if (line.startsWith('-')) {
+                current.removed++;
+            }
+        } else {
+            fileHeader.push(line);
+        }
+    }
+
+    if (hunks.length === 0 || !fileHeader.some((line) => line.startsWith('--- ')) || !fileHeader.some((line) => line.startsWith('+++ '))) {
+        return null;
+    }
+    return { fileHeader, hunks };
+}
+
+/**
+ * Patch containing only the given hunk, for `git apply`
+ */
+export function buildHunkPatch(diff: FileDiff, hunk: DiffHunk): string {
+    return [...diff.fileHeader, hunk.header, ...hunk.lines].join('\n') + '\n';
+}
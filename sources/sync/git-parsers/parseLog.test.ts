@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { continueGraph, getHeadBranch, parseCommitDetails, parseLog } from './parseLog';
+
+const S = '\x1f';
+
+describe('parseLog', () => {
+    it('should parse commits with their graph and connector lines', () => {
+        const output = [
+            `*   ${S}aaaaaaaa${S}aaaaaaa${S}bbbbbbbb cccccccc${S}Ann${S}ann@example.com${S}1700000000${S}HEAD -> main, origin/main${S}Merge branch 'feat'`,
+            '|\\  ',
+            `| * ${S}cccccccc${S}ccccccc${S}dddddddd${S}Bob${S}bob@example.com${S}1690000000${S}tag: v1.0${S}Use a | and ${S} in text`,
+            '|/  ',
+            `* ${S}dddddddd${S}ddddddd${S}${S}Ann${S}ann@example.com${S}1680000000${S}${S}Initial commit`,
+            ''
+        ].join('\n');
+
+        const rows = parseLog(output);
+        expect(rows.map((row) => row.type)).toEqual(['commit', 'graph', 'commit', 'graph', 'commit']);
+        expect(rows[0]).toMatchObject({ graph: '*', commit: { hash: 'aaaaaaaa', parents: ['bbbbbbbb', 'cccccccc'], refs: ['HEAD -> main', 'origin/main'], timestamp: 1700000000000 } });
+        expect(rows[1]).toEqual({ type: 'graph', graph: '|\\' });
+        expect(rows[2]).toMatchObject({ graph: '| *', commit: { refs: ['tag: v1.0'], subject: 'Use a | and ' } });
+        expect(rows[4]).toMatchObject({ commit: { parents: [], refs: [], subject: 'Initial commit' } });
+    });
+
+    it('should parse commit details with a multi-line body', () => {
+        const details = parseCommitDetails(`${S}aaaaaaaa${S}aaaaaaa${S}bbbbbbbb${S}Ann${S}ann@example.com${S}1700000000${S}${S}Fix bug${S}First line\n\nSecond line\n`);
+        expect(details).toMatchObject({ hash: 'aaaaaaaa', subject: 'Fix bug', body: 'First line\n\nSecond line' });
+        expect(parseCommitDetails('fatal: bad object')).toBeNull();
+    });
+
+    it('should find the branch HEAD points to', () => {
+        expect(getHeadBranch(['HEAD -> feature/x', 'origin/main'])).toBe('feature/x');
+        expect(getHeadBranch(['HEAD', 'main'])).toBeNull();
+    });
+});
+
+describe('continueGraph', () => {
+    it('should continue the lanes of a commit row', () => {
+        expect(continueGraph('| * |', true)).toBe('| | |');
+        expect(continueGraph('* | |', false)).toBe('  | |');
+        expect(continueGraph('| *', false)).toBe('|');
+    });
+});
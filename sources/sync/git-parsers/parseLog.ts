@@ -0,0 +1,101 @@
+/**
+ * Git log parser for graph-aware history output
+ * Expects the fields of LOG_FORMAT, separated by unit separators so subjects and names can contain anything
+ */
+
+export interface GitCommit {
+    hash: string;
+    shortHash: string;
+    parents: string[];
+    authorName: string;
+    authorEmail: string;
+    timestamp: number; // Milliseconds
+    refs: string[]; // Decorations like "HEAD -> main", "origin/main", "tag: v1.0"
+    subject: string;
+}
+
+export interface GitCommitDetails extends GitCommit {
+    body: string;
+}
+
+export type GitLogRow =
+    | { type: 'commit'; graph: string; commit: GitCommit }
+    | { type: 'graph'; graph: string }; // Connector lines between commits, e.g. "|\" or "| |/"
+
+const SEPARATOR = '\x1f';
+
+// Field order parsed by parseCommitFields, %b (the message body) has to stay last
+export const LOG_FORMAT = ['', '%H', '%h', '%P', '%an', '%ae', '%at', '%D', '%s'].join('%x1f');
+export const COMMIT_DETAILS_FORMAT = ['', '%H', '%h', '%P', '%an', '%ae', '%at', '%D', '%s', '%b'].join('%x1f');
+
+function parseCommitFields(fields: string[]): GitCommit | null {
+    const [hash, shortHash, parents, authorName, authorEmail, timestamp, refs, subject] = fields;
+    if (!hash || !/^[0-9a-f]{7,64}$/.test(hash)) {
+        return null;
+    }
+    return {
+        hash,
+        shortHash: shortHash || hash.slice(0, 7),
+        parents: parents ? parents.split(' ').filter(Boolean) : [],
+        authorName: authorName ?? '',
+        authorEmail: authorEmail ?? '',
+        timestamp: (parseInt(timestamp ?? '', 10) || 0) * 1000,
+        refs: refs ? refs.split(', ').map((ref) => ref.trim()).filter(Boolean) : [],
+        subject: subject ?? ''
+    };
+}
+
+/**
+ * Parse `git log --graph --format=<LOG_FORMAT>` output. The graph drawing before the
+ * first separator is kept so the commit lanes can be rendered next to each commit
+ */
+export function parseLog(logOutput: string): GitLogRow[] {
+    const rows: GitLogRow[] = [];
+    for (const line of logOutput.split('\n')) {
+        if (line.length === 0) {
+            continue;
+        }
+        const index = line.indexOf(SEPARATOR);
+        if (index === -1) {
+            rows.push({ type: 'graph', graph: line.trimEnd() });
+            continue;
+        }
+        const commit = parseCommitFields(line.slice(index + 1).split(SEPARATOR));
+        if (commit) {
+            rows.push({ type: 'commit', graph: line.slice(0, index).trimEnd(), commit });
+        }
+    }
+    return rows;
+}
+
+/**
+ * Parse `git show -s --format=<COMMIT_DETAILS_FORMAT>` output
+ */
+export function parseCommitDetails(showOutput: string): GitCommitDetails | null {
+    const fields = showOutput.replace(/^\s*\x1f/, '').split(SEPARATOR);
+    const commit = parseCommitFields(fields);
+    if (!commit) {
+        return null;
+    }
+    // The body is last and may itself span many lines
+    return { ...commit, body: fields.slice(8).join(SEPARATOR).trim() };
+}
+
+/**
+ * Branch name of a "HEAD -> name" decoration, null when HEAD isn't on a branch
+ */
+export function getHeadBranch(refs: string[]): string | null {
+    const head = refs.find((ref) => ref.startsWith('HEAD -> '));
+    return head ? head.slice('HEAD -> '.length) : null;
+}
+
+/**
+ * Graph drawing for the extra text lines of a commit row: lanes keep going straight down,
+ * and the commit's own lane ends when it has no parents
+ */
+export function continueGraph(graph: string, hasParents: boolean): string {
+    return graph
+        .replace(/[\\/_]/g, ' ')
+        .replace('*', hasParents ? '|' : ' ')
+        .trimEnd();
+}
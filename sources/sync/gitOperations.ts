@@ -0,0 +1,236 @@
+/**
+ * Git operations
+ * Staging, committing, syncing with the remote and browsing history, executed through remote bash commands.
+ * The git status of the project is refreshed after every operation that changes the repository
+ */
+
+import { sessionBash } from './ops';
+import { storage } from './storage';
+import { sync } from './sync';
+import { gitStatusSync } from './gitStatusSync';
+import { buildHunkPatch, DiffHunk, FileDiff } from './git-parsers/parseHunks';
+import { COMMIT_DETAILS_FORMAT, GitCommitDetails, GitLogRow, LOG_FORMAT, parseCommitDetails, parseLog } from './git-parsers/parseLog';
+import { BRANCH_REF_FORMAT, GitBranchRef, parseBranchRefs } from './git-parsers/parseBranch';
+import { DiffFileStat, parseNumStat } from './git-parsers/parseDiff';
+import { shellHeredoc, shellQuote } from '@/utils/shellQuote';
+
+export interface GitOperationResult {
+    success: boolean;
+    output: string;
+    error?: string;
+}
+
+const COMMIT_DRAFT_DIFF_LIMIT = 20000;
+const COMMIT_DRAFT_TIMEOUT_MS = 180000;
+
+async function runGit(sessionId: string, command: string, opts: { timeout?: number, refreshStatus?: boolean } = {}): Promise<GitOperationResult> {
+    const { timeout = 15000, refreshStatus = true } = opts;
+    const session = storage.getState().sessions[sessionId];
+    if (!session?.metadata?.path) {
+        return { success: false, output: '', error: 'Session has no working directory' };
+    }
+
+    try {
+        const result = await sessionBash(sessionId, {
+            command,
+            cwd: session.metadata.path,
+            timeout
+        });
+        if (!result.success || result.exitCode !== 0) {
+            // Git reports most problems (hooks, conflicts, rejected pushes) on stderr but some on stdout
+            const error = result.stderr.trim() || result.stdout.trim() || result.error || `git exited with code ${result.exitCode}`;
+            return { success: false, output: result.stdout, error };
+        }
+        return { success: true, output: result.stdout };
+    } catch (error) {
+        return { success: false, output: '', error: error instanceof Error ? error.message : 'Failed to run git' };
+    } finally {
+        if (refreshStatus) {
+            gitStatusSync.getSync(sessionId).invalidate();
+        }
+    }
+}
+
+function quotePaths(paths: string[]): string {
+    return paths.map(shellQuote).join(' ');
+}
+
+export function gitStageFiles(sessionId: string, paths: string[]): Promise<GitOperationResult> {
+    return runGit(sessionId, `git add -A -- ${quotePaths(paths)}`);
+}
+
+export function gitUnstageFiles(sessionId: string, paths: string[]): Promise<GitOperationResult> {
+    // There is no HEAD to reset to before the first commit, everything staged is new then
+    const quoted = quotePaths(paths);
+    return runGit(sessionId, `if git rev-parse -q --verify HEAD >/dev/null; then git reset -q HEAD -- ${quoted}; else git rm -q --cached -r -- ${quoted}; fi`);
+}
+
+/**
+ * Stage a hunk of the unstaged diff, or unstage a hunk of the staged diff
+ */
+export function gitApplyHunk(sessionId: string, diff: FileDiff, hunk: DiffHunk, action: 'stage' | 'unstage'): Promise<GitOperationResult> {
+    const reverse = action === 'unstage' ? ' -R' : '';
+    return runGit(sessionId, `git apply --cached${reverse} --whitespace=nowarn - ${shellHeredoc(buildHunkPatch(diff, hunk))}`);
+}
+
+export function gitFileDiff(sessionId: string, path: string, staged: boolean): Promise<GitOperationResult> {
+    return runGit(sessionId, `git diff --no-ext-diff${staged ? ' --cached' : ''} -- ${shellQuote(path)}`, { refreshStatus: false });
+}
+
+/**
+ * Staged and unstaged changes against HEAD, with paths relative to the session directory
+ */
+export function gitWorkingTreeDiff(sessionId: string): Promise<GitOperationResult> {
+    return runGit(sessionId, 'git diff --no-ext-diff --relative HEAD', { timeout: 30000, refreshStatus: false });
+}
+
+export function gitStagedDiff(sessionId: string): Promise<GitOperationResult> {
+    return runGit(sessionId, 'git diff --no-ext-diff --cached', { refreshStatus: false });
+}
+
+export function gitCommit(sessionId: string, message: string): Promise<GitOperationResult> {
+    return runGit(sessionId, `git commit -F - ${shellHeredoc(message)}`, { timeout: 60000 });
+}
+
+export function gitPush(sessionId: string, hasUpstream: boolean): Promise<GitOperationResult> {
+    return runGit(sessionId, hasUpstream ? 'git push' : 'git push --set-upstream origin HEAD', { timeout: 120000 });
+}
+
+export function gitPull(sessionId: string): Promise<GitOperationResult> {
+    return runGit(sessionId, 'git pull --ff-only', { timeout: 120000 });
+}
+
+export function gitCheckout(sessionId: string, branch: string): Promise<GitOperationResult> {
+    return runGit(sessionId, `git checkout ${shellQuote(branch)}`, { timeout: 60000 });
+}
+
+export function gitCreateBranch(sessionId: string, name: string, checkout: boolean): Promise<GitOperationResult> {
+    return runGit(sessionId, checkout ? `git checkout -b ${shellQuote(name)}` : `git branch ${shellQuote(name)}`);
+}
+
+/**
+ * A page of the commit graph, of a single ref or of all branches
+ */
+export async function gitLog(sessionId: string, opts: { ref?: string, all?: boolean, skip: number, limit: number }): Promise<GitLogRow[]> {
+    const target = opts.all ? '--all' : opts.ref ? `${shellQuote(opts.ref)} --` : '';
+    const result = await runGit(
+        sessionId,
+        `git log --graph --date-order --format=${shellQuote(LOG_FORMAT)} -n ${opts.limit} --skip=${opts.skip} ${target}`,
+        { timeout: 30000, refreshStatus: false }
+    );
+    if (!result.success) {
+        throw new Error(result.error);
+    }
+    return parseLog(result.output);
+}
+
+export async function gitBranches(sessionId: string): Promise<GitBranchRef[]> {
+    const result = await runGit(sessionId, `git for-each-ref --format=${shellQuote(BRANCH_REF_FORMAT)} refs/heads`, { refreshStatus: false });
+    if (!result.success) {
+        throw new Error(result.error);
+    }
+    return parseBranchRefs(result.output);
+}
+
+export async function gitCommitDetails(sessionId: string, hash: string): Promise<GitCommitDetails> {
+    const result = await runGit(sessionId, `git show -s --format=${shellQuote(COMMIT_DETAILS_FORMAT)} ${shellQuote(hash)}`, { refreshStatus: false });
+    const details = result.success ? parseCommitDetails(result.output) : null;
+    if (!details) {
+        throw new Error(result.error || `Unknown commit ${hash}`);
+    }
+    return details;
+}
+
+/**
+ * Files changed by a commit, compared with its first parent. Paths are relative to the repository root
+ */
+export async function gitCommitFiles(sessionId: string, commit: { hash: string, parents: string[] }): Promise<DiffFileStat[]> {
+    const command = commit.parents.length > 0
+        ? `git diff --no-ext-diff --numstat --no-renames ${shellQuote(commit.parents[0])} ${shellQuote(commit.hash)}`
+        : `git diff-tree --root -r --no-commit-id --numstat --no-renames ${shellQuote(commit.hash)}`;
+    const result = await runGit(sessionId, command, { timeout: 30000, refreshStatus: false });
+    if (!result.success) {
+        throw new Error(result.error);
+    }
+    return parseNumStat(result.output).files;
+}
+
+/**
+ * Content of a file at a revision, empty when the file doesn't exist there
+ */
+export async function gitFileAtRevision(sessionId: string, revision: string, path: string): Promise<string> {
+    const result = await runGit(sessionId, `git show ${shellQuote(`${revision}:${path}`)}`, { timeout: 30000, refreshStatus: false });
+    return result.success ? result.output : '';
+}
+
+/**
+ * Ask the agent of the session to write a commit message for the staged changes and wait
+ * for its reply. Resolves with null when the agent doesn't answer in time
+ */
+export async function gitDraftCommitMessage(sessionId: string): Promise<string | null> {
+    const diff = await gitStagedDiff(sessionId);
+    if (!diff.success) {
+        throw new Error(diff.error);
+    }
+    const stagedDiff = diff.output.length > COMMIT_DRAFT_DIFF_LIMIT
+        ? diff.output.slice(0, COMMIT_DRAFT_DIFF_LIMIT) + '\n[diff truncated]'
+        : diff.output;
+    const prompt = [
+        'Write a git commit message for the staged changes below. Use a short summary line, a blank line and an optional body.',
+        'Reply with the commit message only, without any explanation or code fences. Do not run any commands.',
+        '',
+        stagedDiff
+    ].join('\n');
+
+    const localId = await sync.sendMessage(sessionId, prompt, 'Draft a commit message for the staged changes');
+    if (!localId) {
+        return null;
+    }
+    const reply = await waitForAgentReply(sessionId, localId);
+    return reply ? stripCodeFence(reply) : null;
+}
+
+/**
+ * First answer of the agent to the message with the given localId. Messages are told apart by the order
+ * they arrive in, timestamps come from other devices so aren't compared
+ */
+function waitForAgentReply(sessionId: string, localId: string): Promise<string | null> {
+    return new Promise((resolve) => {
+        // Everything present once the server echoed our message came before the reply
+        let known: Set<string> | null = null;
+
+        const done = (reply: string | null) => {
+            clearTimeout(timeout);
+            unsubscribe();
+            resolve(reply);
+        };
+
+        // The reply is complete once the agent stops thinking after it answered
+        const check = () => {
+            const state = storage.getState();
+            const messages = state.sessionMessages[sessionId]?.messages ?? [];
+            if (!known) {
+                if (state.messageDelivery[localId] || !messages.some((m) => m.kind === 'user-text' && m.localId === localId)) {
+                    return;
+                }
+                known = new Set(messages.map((m) => m.id));
+            }
+            if (state.sessions[sessionId]?.thinking) {
+                return;
+            }
+            const reply = messages.find((m) => m.kind === 'agent-text' && !known!.has(m.id));
+            if (reply?.kind === 'agent-text') {
+                done(reply.text);
+            }
+        };
+
+        const timeout = setTimeout(() => done(null), COMMIT_DRAFT_TIMEOUT_MS);
+        const unsubscribe = storage.subscribe(check);
+        check();
+    });
+}
+
+function stripCodeFence(text: string): string {
+    const match = text.trim().match(/^```[\w-]*\n([\s\S]*?)\n```$/);
+    return (match ? match[1] : text).trim();
+}
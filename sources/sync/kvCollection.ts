@@ -0,0 +1,126 @@
+import { AuthCredentials } from '@/auth/tokenStorage';
+import { sync } from './sync';
+import { kvList, kvMutate } from './apiKv';
+
+//
+// A collection of items stored encrypted in the KV store, one key per item. Writes go over the
+// version we know of, so a change made on another device is never overwritten unseen.
+// Callers serialize mutations with their own lock
+//
+
+export interface KvCollectionState<T> {
+    items: Record<string, T>;
+    versions: Record<string, number>; // Keyed by KV key
+}
+
+export interface KvCollectionOptions<T> {
+    prefix: string;
+    name: string; // Used in errors, e.g. "scheduled prompt"
+    getState: () => KvCollectionState<T>;
+    applyState: (state: KvCollectionState<T>) => void;
+}
+
+export class KvCollection<T extends { id: string }> {
+    private readonly options: KvCollectionOptions<T>;
+
+    constructor(options: KvCollectionOptions<T>) {
+        this.options = options;
+    }
+
+    getKey(id: string): string {
+        return `${this.options.prefix}${id}`;
+    }
+
+    isKey(key: string): boolean {
+        return key.startsWith(this.options.prefix);
+    }
+
+    /**
+     * Fetch all items from the server and decrypt them
+     */
+    async fetch(credentials: AuthCredentials): Promise<KvCollectionState<T>> {
+        const response = await kvList(credentials, {
+            prefix: this.options.prefix,
+            limit: 1000
+        });
+
+        const state: KvCollectionState<T> = { items: {}, versions: {} };
+        for (const item of response.items) {
+            state.versions[item.key] = item.version;
+            try {
+                const decrypted = await sync.encryption.decryptRaw(item.value) as T;
+                state.items[decrypted.id] = decrypted;
+            } catch (error) {
+                console.error(`Failed to decrypt ${this.options.name} ${item.key}:`, error);
+            }
+        }
+        return state;
+    }
+
+    async refresh(credentials: AuthCredentials): Promise<void> {
+        this.options.applyState(await this.fetch(credentials));
+    }
+
+    /**
+     * Write an item over the version we know of, false when it was changed elsewhere in the meantime
+     */
+    async write(credentials: AuthCredentials, item: T): Promise<boolean> {
+        const key = this.getKey(item.id);
+        const result = await kvMutate(credentials, [{
+            key,
+            value: await sync.encryption.encryptRaw(item),
+            version: this.options.getState().versions[key] ?? -1
+        }]);
+        if (!result.success) {
+            return false;
+        }
+        const state = this.options.getState();
+        this.options.applyState({
+            items: { ...state.items, [item.id]: item },
+            versions: { ...state.versions, [key]: result.results[0].version }
+        });
+        return true;
+    }
+
+    async create(credentials: AuthCredentials, item: T): Promise<void> {
+        if (!await this.write(credentials, item)) {
+            throw new Error(`Failed to save ${this.options.name}`);
+        }
+    }
+
+    /**
+     * Apply a change to the latest version of an item, refetching once when another device changed it
+     */
+    async update(credentials: AuthCredentials, id: string, update: (item: T) => T): Promise<void> {
+        for (let attempt = 0; attempt < 2; attempt++) {
+            const existing = this.options.getState().items[id];
+            if (!existing) {
+                throw new Error(`${this.options.name[0].toUpperCase()}${this.options.name.slice(1)} not found`);
+            }
+            if (await this.write(credentials, update(existing))) {
+                return;
+            }
+            await this.refresh(credentials);
+        }
+        throw new Error(`Failed to save ${this.options.name}`);
+    }
+
+    async delete(credentials: AuthCredentials, id: string): Promise<void> {
+        const key = this.getKey(id);
+        const version = this.options.getState().versions[key];
+        if (version !== undefined) {
+            let result = await kvMutate(credentials, [{ key, value: null, version }]);
+            if (!result.success) {
+                // Deleting wins over changes made elsewhere
+                result = await kvMutate(credentials, [{ key, value: null, version: result.errors[0].version }]);
+            }
+            if (!result.success) {
+                throw new Error(`Failed to delete ${this.options.name}`);
+            }
+        }
+        const state = this.options.getState();
+        const { [id]: _, ...items } = state.items;
+        const { [key]: __, ...versions } = state.versions;
+        this.options.applyState({ items, versions });
+    }
+}
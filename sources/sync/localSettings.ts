@@ -13,6 +13,9 @@ export const LocalSettingsSchema = z.object({
     markdownCopyV2: z.boolean().describe('Replace native paragraph selection with long-press modal for full markdown copy'),
     // CLI version acknowledgments - keyed by machineId
     acknowledgedCliVersions: z.record(z.string(), z.string()).describe('Acknowledged CLI versions per machine'),
+    // Session dashboard (tablet and web)
+    dashboardLayout: z.enum(['columns2', 'columns3', 'grid4']).describe('Arrangement of session dashboard panes'),
+    dashboardPanes: z.array(z.string().nullable()).describe('Session shown in each dashboard pane, null for an empty pane'),
 });
 
 //
@@ -35,6 +38,8 @@ export const localSettingsDefaults: LocalSettings = {
     themePreference: 'adaptive',
     markdownCopyV2: false,
     acknowledgedCliVersions: {},
+    dashboardLayout: 'columns2',
+    dashboardPanes: [],
 };
 Object.freeze(localSettingsDefaults);
 
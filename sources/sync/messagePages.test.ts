@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { advanceCursor, hasGapBefore, mergeCachedMessages, messagesPageUrl, parseMessagesPage } from './messagePages';
+import { ApiMessage } from './apiTypes';
+import { DecryptedMessage } from './storageTypes';
+
+function apiMessage(seq: number): ApiMessage {
+    return { id: `m${seq}`, seq, localId: null, content: { t: 'encrypted', c: '' }, createdAt: seq * 1000 };
+}
+
+function decrypted(seq: number): DecryptedMessage {
+    return { id: `m${seq}`, seq, localId: null, content: null, createdAt: seq * 1000 };
+}
+
+describe('messagePages', () => {
+    it('should build page urls with an optional cursor', () => {
+        expect(messagesPageUrl('s1', null)).toBe('/v1/sessions/s1/messages?limit=100');
+        expect(messagesPageUrl('s1', 42)).toBe('/v1/sessions/s1/messages?limit=100&before=42');
+    });
+
+    it('should sort pages oldest first and treat missing hasMore as last page', () => {
+        const page = parseMessagesPage({ messages: [apiMessage(3), apiMessage(1), apiMessage(2)] });
+        expect(page.messages.map((m) => m.seq)).toEqual([1, 2, 3]);
+        expect(page.hasMore).toBe(false);
+    });
+
+    it('should detect a gap between the newest page and known history', () => {
+        const cursor = { oldestSeq: 1, newestSeq: 10, hasOlder: false };
+        expect(hasGapBefore({ messages: [apiMessage(15), apiMessage(16)], hasMore: true }, cursor)).toBe(true);
+        expect(hasGapBefore({ messages: [apiMessage(10), apiMessage(11)], hasMore: true }, cursor)).toBe(false);
+        expect(hasGapBefore({ messages: [apiMessage(15)], hasMore: false }, cursor)).toBe(false);
+        expect(hasGapBefore({ messages: [apiMessage(15)], hasMore: true }, { oldestSeq: null, newestSeq: null, hasOlder: false })).toBe(false);
+    });
+
+    it('should extend the cursor in both directions', () => {
+        let cursor = advanceCursor({ oldestSeq: null, newestSeq: null, hasOlder: false }, [decrypted(5), decrypted(6)], true);
+        expect(cursor).toEqual({ oldestSeq: 5, newestSeq: 6, hasOlder: true });
+
+        cursor = advanceCursor(cursor, [decrypted(7)]);
+        expect(cursor).toEqual({ oldestSeq: 5, newestSeq: 7, hasOlder: true });
+
+        cursor = advanceCursor(cursor, [decrypted(1)], false);
+        expect(cursor).toEqual({ oldestSeq: 1, newestSeq: 7, hasOlder: false });
+    });
+
+    it('should merge cached messages and keep only the newest ones', () => {
+        let cached = mergeCachedMessages(null, [decrypted(2), decrypted(1)], false, 3);
+        expect(cached.messages.map((m) => m.seq)).toEqual([1, 2]);
+        expect(cached.hasOlder).toBe(false);
+
+        cached = mergeCachedMessages(cached, [decrypted(2), decrypted(3), decrypted(4)], false, 3);
+        expect(cached.messages.map((m) => m.seq)).toEqual([2, 3, 4]);
+        expect(cached.hasOlder).toBe(true);
+    });
+});
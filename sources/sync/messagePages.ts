@@ -0,0 +1,94 @@
+/**
+ * Cursor helpers for paginated session history
+ * Pages are requested newest first and addressed by message seq, the decrypted
+ * cache keeps only the newest messages so it stays cheap to load on startup
+ */
+
+import type { ApiMessage } from './apiTypes';
+import type { DecryptedMessage } from './storageTypes';
+
+export const MESSAGES_PAGE_SIZE = 100;
+export const MESSAGE_CACHE_LIMIT = 1000;
+
+export interface MessagePageCursor {
+    oldestSeq: number | null;
+    newestSeq: number | null;
+    hasOlder: boolean;
+}
+
+export interface MessagePage {
+    messages: ApiMessage[]; // Sorted by seq, oldest first
+    hasMore: boolean;
+}
+
+export interface CachedSessionMessages {
+    messages: DecryptedMessage[]; // Sorted by seq, oldest first
+    hasOlder: boolean;
+}
+
+export function messagesPageUrl(sessionId: string, before?: number | null): string {
+    const params = new URLSearchParams({ limit: String(MESSAGES_PAGE_SIZE) });
+    if (before !== undefined && before !== null) {
+        params.set('before', String(before));
+    }
+    return `/v1/sessions/${sessionId}/messages?${params.toString()}`;
+}
+
+/**
+ * Normalize a page response. Servers without pagination return the whole
+ * history without `hasMore`, which is treated as the last page.
+ */
+export function parseMessagesPage(data: { messages?: ApiMessage[], hasMore?: boolean }): MessagePage {
+    const messages = [...(data.messages ?? [])].sort((a, b) => a.seq - b.seq);
+    return { messages, hasMore: data.hasMore === true };
+}
+
+/**
+ * Whether a catch-up page still leaves a gap to the newest message we already have
+ */
+export function hasGapBefore(page: MessagePage, cursor: MessagePageCursor): boolean {
+    if (!page.hasMore || page.messages.length === 0 || cursor.newestSeq === null) {
+        return false;
+    }
+    return page.messages[0].seq > cursor.newestSeq;
+}
+
+/**
+ * Extend the cursor with loaded messages, `hasOlder` is only passed when the
+ * page reached the oldest end of what we have
+ */
+export function advanceCursor(cursor: MessagePageCursor, messages: { seq: number | null }[], hasOlder?: boolean): MessagePageCursor {
+    let { oldestSeq, newestSeq } = cursor;
+    for (const message of messages) {
+        if (message.seq === null) {
+            continue;
+        }
+        if (oldestSeq === null || message.seq < oldestSeq) {
+            oldestSeq = message.seq;
+        }
+        if (newestSeq === null || message.seq > newestSeq) {
+            newestSeq = message.seq;
+        }
+    }
+    return { oldestSeq, newestSeq, hasOlder: hasOlder ?? cursor.hasOlder };
+}
+
+/**
+ * Merge new messages into the cached history, keeping only the newest ones.
+ * `hasOlder` is whether the server has messages before the oldest merged one.
+ */
+export function mergeCachedMessages(cached: CachedSessionMessages | null, incoming: DecryptedMessage[], hasOlder: boolean, limit: number = MESSAGE_CACHE_LIMIT): CachedSessionMessages {
+    const byId = new Map<string, DecryptedMessage>();
+    for (const message of cached?.messages ?? []) {
+        byId.set(message.id, message);
+    }
+    for (const message of incoming) {
+        byId.set(message.id, message);
+    }
+    const sorted = Array.from(byId.values()).sort((a, b) => (a.seq ?? 0) - (b.seq ?? 0));
+    const truncated = sorted.length > limit;
+    return {
+        messages: truncated ? sorted.slice(sorted.length - limit) : sorted,
+        hasOlder: truncated || hasOlder
+    };
+}
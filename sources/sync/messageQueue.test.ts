@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { enqueueMessage, MessageQueues, moveQueuedMessage, removeQueuedMessage, takeQueuedMessage, updateQueuedMessage } from './messageQueue';
+
+function queued(id: string, sessionId = 's1') {
+    return { id, sessionId, text: `text ${id}`, createdAt: 0 };
+}
+
+function ids(queues: MessageQueues, sessionId = 's1') {
+    return (queues[sessionId] ?? []).map((message) => message.id);
+}
+
+describe('messageQueue', () => {
+    it('should keep a separate queue per session', () => {
+        let queues: MessageQueues = {};
+        queues = enqueueMessage(queues, queued('a'));
+        queues = enqueueMessage(queues, queued('b'));
+        queues = enqueueMessage(queues, queued('c', 's2'));
+        expect(ids(queues)).toEqual(['a', 'b']);
+        expect(ids(queues, 's2')).toEqual(['c']);
+    });
+
+    it('should move messages and clamp to the ends of the queue', () => {
+        const queues = [queued('a'), queued('b'), queued('c')].reduce(enqueueMessage, {});
+        expect(ids(moveQueuedMessage(queues, 's1', 'c', -1))).toEqual(['a', 'c', 'b']);
+        expect(ids(moveQueuedMessage(queues, 's1', 'a', 5))).toEqual(['b', 'c', 'a']);
+        expect(moveQueuedMessage(queues, 's1', 'a', -1)).toBe(queues);
+        expect(moveQueuedMessage(queues, 's1', 'missing', 1)).toBe(queues);
+    });
+
+    it('should take the first message or a specific one', () => {
+        const queues = [queued('a'), queued('b')].reduce(enqueueMessage, {});
+        const first = takeQueuedMessage(queues, 's1');
+        expect(first.message?.id).toBe('a');
+        expect(ids(first.queues)).toEqual(['b']);
+
+        const picked = takeQueuedMessage(queues, 's1', 'b');
+        expect(picked.message?.id).toBe('b');
+        expect(ids(picked.queues)).toEqual(['a']);
+
+        expect(takeQueuedMessage({}, 's1').message).toBeNull();
+    });
+
+    it('should edit messages and drop empty queues', () => {
+        let queues = enqueueMessage({}, queued('a'));
+        queues = updateQueuedMessage(queues, 's1', 'a', 'edited');
+        expect(queues.s1[0].text).toBe('edited');
+        expect(removeQueuedMessage(queues, 's1', 'a')).toEqual({});
+    });
+});
@@ -0,0 +1,75 @@
+/**
+ * Follow-up prompts staged while the agent is thinking
+ * Each session keeps its own queue, the first message is sent when the agent reports
+ * it is ready again. Queues are kept on the device and survive restarts
+ */
+
+import { MessageAttachment } from './attachments';
+
+export interface QueuedMessage {
+    id: string;
+    sessionId: string;
+    text: string;
+    createdAt: number;
+    attachments?: MessageAttachment[]; // Already uploaded to the session
+}
+
+export type MessageQueues = Record<string, QueuedMessage[]>; // Keyed by session id
+
+export function enqueueMessage(queues: MessageQueues, message: QueuedMessage): MessageQueues {
+    return {
+        ...queues,
+        [message.sessionId]: [...(queues[message.sessionId] ?? []), message]
+    };
+}
+
+export function updateQueuedMessage(queues: MessageQueues, sessionId: string, id: string, text: string): MessageQueues {
+    const queue = queues[sessionId];
+    if (!queue) {
+        return queues;
+    }
+    return {
+        ...queues,
+        [sessionId]: queue.map((message) => message.id === id ? { ...message, text } : message)
+    };
+}
+
+export function removeQueuedMessage(queues: MessageQueues, sessionId: string, id: string): MessageQueues {
+    const queue = (queues[sessionId] ?? []).filter((message) => message.id !== id);
+    if (queue.length > 0) {
+        return { ...queues, [sessionId]: queue };
+    }
+    const { [sessionId]: _, ...rest } = queues;
+    return rest;
+}
+
+/**
+ * Moves a message up (negative offset) or down the queue, clamped to its ends
+ */
+export function moveQueuedMessage(queues: MessageQueues, sessionId: string, id: string, offset: number): MessageQueues {
+    const queue = queues[sessionId];
+    const index = queue ? queue.findIndex((message) => message.id === id) : -1;
+    if (index < 0) {
+        return queues;
+    }
+    const target = Math.min(Math.max(index + offset, 0), queue.length - 1);
+    if (target === index) {
+        return queues;
+    }
+    const reordered = [...queue];
+    const [message] = reordered.splice(index, 1);
+    reordered.splice(target, 0, message);
+    return { ...queues, [sessionId]: reordered };
+}
+
+/**
+ * Takes the message to send next, or a specific one when sent out of order
+ */
+export function takeQueuedMessage(queues: MessageQueues, sessionId: string, id?: string): { message: QueuedMessage | null, queues: MessageQueues } {
+    const queue = queues[sessionId] ?? [];
+    const message = (id ? queue.find((item) => item.id === id) : queue[0]) ?? null;
+    if (!message) {
+        return { message: null, queues };
+    }
+    return { message, queues: removeQueuedMessage(queues, sessionId, message.id) };
+}
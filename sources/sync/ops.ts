@@ -5,7 +5,8 @@
 
 import { apiSocket } from './apiSocket';
 import { sync } from './sync';
-import type { MachineMetadata } from './storageTypes';
+import { storage } from './storage';
+import type { MachineMetadata, Metadata } from './storageTypes';
 
 // Strict type definitions for all operations
 
@@ -287,6 +288,55 @@ export async function machineUpdateMetadata(
     throw new Error('Unexpected error in machineUpdateMetadata');
 }
 
+/**
+ * Update session metadata with optimistic concurrency control, the update is re-applied
+ * on top of the latest metadata when the version changed in between
+ */
+export async function sessionUpdateMetadata(
+    sessionId: string,
+    update: (metadata: Metadata) => Metadata,
+    maxRetries: number = 3
+): Promise<void> {
+    const session = storage.getState().sessions[sessionId];
+    if (!session?.metadata) {
+        throw new Error(`Session metadata not found for ${sessionId}`);
+    }
+    const sessionEncryption = sync.encryption.getSessionEncryption(sessionId);
+    if (!sessionEncryption) {
+        throw new Error(`Session encryption not found for ${sessionId}`);
+    }
+
+    let currentVersion = session.metadataVersion;
+    let currentMetadata = session.metadata;
+    for (let retryCount = 0; retryCount < maxRetries; retryCount++) {
+        const result = await apiSocket.emitWithAck<{
+            result: 'success' | 'version-mismatch' | 'error';
+            version?: number;
+            metadata?: string;
+            message?: string;
+        }>('update-metadata', {
+            sid: sessionId,
+            metadata: await sessionEncryption.encryptMetadata(update(currentMetadata)),
+            expectedVersion: currentVersion
+        });
+
+        if (result.result === 'success') {
+            return;
+        } else if (result.result === 'version-mismatch') {
+            const latestMetadata = await sessionEncryption.decryptMetadata(result.version!, result.metadata!);
+            if (!latestMetadata) {
+                throw new Error('Failed to decrypt session metadata');
+            }
+            currentVersion = result.version!;
+            currentMetadata = latestMetadata;
+        } else {
+            throw new Error(result.message || 'Failed to update session metadata');
+        }
+    }
+
+    throw new Error(`Failed to update after ${maxRetries} retries due to version conflicts`);
+}
+
 /**
  * Abort the current session operation
  */
@@ -302,6 +352,7 @@ export async function sessionAbort(sessionId: string): Promise<void> {
 export async function sessionAllow(sessionId: string, id: string, mode?: 'default' | 'acceptEdits' | 'bypassPermissions' | 'plan', allowedTools?: string[], decision?: 'approved' | 'approved_for_session'): Promise<void> {
     const request: SessionPermissionRequest = { id, approved: true, mode, allowTools: allowedTools, decision };
     await apiSocket.sessionRPC(sessionId, 'permission', request);
+    sync.recordPermissionDecision(sessionId, id, 'allow');
 }
 
 /**
@@ -310,6 +361,7 @@ export async function sessionAllow(sessionId: string, id: string, mode?: 'defaul
 export async function sessionDeny(sessionId: string, id: string, mode?: 'default' | 'acceptEdits' | 'bypassPermissions' | 'plan', allowedTools?: string[], decision?: 'denied' | 'abort'): Promise<void> {
     const request: SessionPermissionRequest = { id, approved: false, mode, allowTools: allowedTools, decision };
     await apiSocket.sessionRPC(sessionId, 'permission', request);
+    sync.recordPermissionDecision(sessionId, id, 'deny');
 }
 
 /**
@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { MessageOutbox, OutboxItem, MessageDeliveryState } from './outbox';
+
+describe('MessageOutbox', () => {
+    let connected: boolean;
+    let sent: OutboxItem[];
+    let persisted: OutboxItem[];
+    let states: Record<string, MessageDeliveryState>;
+
+    function createOutbox(items: OutboxItem[] = [], maxAttempts?: number) {
+        return new MessageOutbox({
+            items,
+            maxAttempts,
+            transport: {
+                isConnected: () => connected,
+                send: (item) => sent.push({ ...item })
+            },
+            persist: (i) => { persisted = i; },
+            onChange: (s) => { states = s; }
+        });
+    }
+
+    function message(localId: string, sessionId = 's1') {
+        return { localId, sessionId, message: `enc-${localId}`, sentFrom: 'ios', permissionMode: 'default', createdAt: 0 };
+    }
+
+    beforeEach(() => {
+        connected = true;
+        sent = [];
+        persisted = [];
+        states = {};
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('should keep messages queued while disconnected and replay them in order', () => {
+        connected = false;
+        const outbox = createOutbox();
+        outbox.enqueue(message('a'));
+        outbox.enqueue(message('b'));
+        outbox.flush('s1');
+
+        expect(sent).toHaveLength(0);
+        expect(states).toEqual({ a: 'queued', b: 'queued' });
+        expect(persisted.map((i) => i.localId)).toEqual(['a', 'b']);
+
+        connected = true;
+        outbox.flush('s1');
+        expect(sent.map((i) => i.localId)).toEqual(['a', 'b']);
+        expect(states).toEqual({ a: 'sending', b: 'sending' });
+    });
+
+    it('should dedupe by localId', () => {
+        const outbox = createOutbox();
+        outbox.enqueue(message('a'));
+        outbox.enqueue(message('a'));
+        expect(outbox.getItems()).toHaveLength(1);
+
+    });
+
+    it('should only flush the requested session', () => {
+        const outbox = createOutbox();
+        connected = false;
+        outbox.enqueue(message('a', 's1'));
+        outbox.enqueue(message('b', 's2'));
+        connected = true;
+        outbox.flush('s2');
+        expect(sent.map((i) => i.localId)).toEqual(['b']);
+        expect(outbox.getPendingSessions()).toEqual(['s1', 's2']);
+    });
+
+    it('should forget delivered messages', () => {
+        const outbox = createOutbox();
+        outbox.enqueue(message('a'));
+        outbox.flush();
+        outbox.markDelivered('a');
+        expect(states).toEqual({});
+        expect(persisted).toEqual([]);
+    });
+
+    it('should fail messages the server never echoes', () => {
+        vi.useFakeTimers();
+        const outbox = createOutbox();
+        outbox.enqueue(message('a'));
+        outbox.enqueue(message('b'));
+        outbox.flush();
+        outbox.markDelivered('b');
+
+        vi.advanceTimersByTime(30 * 1000);
+        expect(states).toEqual({ a: 'failed' });
+
+        outbox.retry('a');
+        outbox.markDelivered('a');
+        vi.advanceTimersByTime(30 * 1000);
+        expect(states).toEqual({});
+    });
+
+    it('should requeue in-flight messages on disconnect and fail after max attempts', () => {
+        const outbox = createOutbox([], 2);
+        outbox.enqueue(message('a'));
+
+        outbox.flush();
+        outbox.handleDisconnect();
+        expect(states.a).toBe('queued');
+
+        outbox.flush();
+        outbox.handleDisconnect();
+        expect(states.a).toBe('failed');
+
+        outbox.flush();
+        expect(sent).toHaveLength(2);
+    });
+
+    it('should resend failed messages on retry', () => {
+        const outbox = createOutbox([], 1);
+        outbox.enqueue(message('a'));
+        outbox.flush();
+        outbox.handleDisconnect();
+        expect(states.a).toBe('failed');
+
+        outbox.retry('a');
+        expect(states.a).toBe('sending');
+        expect(sent).toHaveLength(2);
+    });
+
+    it('should restore persisted in-flight messages as queued', () => {
+        const outbox = createOutbox([{ ...message('a'), attempts: 1, status: 'sending' }]);
+        expect(outbox.getStates()).toEqual({ a: 'queued' });
+    });
+
+    it('should drop messages of removed sessions', () => {
+        connected = false;
+        const outbox = createOutbox();
+        outbox.enqueue(message('a', 's1'));
+        outbox.enqueue(message('b', 's2'));
+        outbox.removeSession('s1');
+        expect(outbox.getItems().map((i) => i.localId)).toEqual(['b']);
+    });
+});
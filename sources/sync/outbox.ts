@@ -0,0 +1,209 @@
+/**
+ * Offline outbox for user messages
+ * Keeps encrypted records until the server echoes them back, so messages typed
+ * while the socket is down are replayed in order instead of being lost. Messages
+ * are forgotten once echoed, a message without a delivery state has been delivered
+ */
+
+//
+// Types
+//
+
+export type OutboxStatus = 'queued' | 'sending' | 'failed';
+
+export type MessageDeliveryState = OutboxStatus;
+
+export interface OutboxItem {
+    localId: string;
+    sessionId: string;
+    message: string; // Encrypted raw record, ready to be sent
+    sentFrom: string;
+    permissionMode: string;
+    createdAt: number;
+    attempts: number;
+    status: OutboxStatus;
+}
+
+export interface OutboxTransport {
+    isConnected: () => boolean;
+    send: (item: OutboxItem) => void;
+}
+
+export interface MessageOutboxOptions {
+    items: OutboxItem[];
+    transport: OutboxTransport;
+    persist: (items: OutboxItem[]) => void;
+    onChange: (states: Record<string, MessageDeliveryState>) => void;
+    maxAttempts?: number;
+    ackTimeout?: number; // How long a sent message may go without an echo before it counts as failed
+}
+
+//
+// Main Class
+//
+
+export class MessageOutbox {
+    private items: OutboxItem[];
+    private ackTimers = new Map<string, ReturnType<typeof setTimeout>>();
+    private transport: OutboxTransport;
+    private persist: (items: OutboxItem[]) => void;
+    private onChange: (states: Record<string, MessageDeliveryState>) => void;
+    private maxAttempts: number;
+    private ackTimeout: number;
+
+    constructor(options: MessageOutboxOptions) {
+        // Anything that was in flight when the app was closed has to be sent again
+        this.items = options.items.map((item) => item.status === 'sending' ? { ...item, status: 'queued' } : item);
+        this.transport = options.transport;
+        this.persist = options.persist;
+        this.onChange = options.onChange;
+        this.maxAttempts = options.maxAttempts ?? 5;
+        this.ackTimeout = options.ackTimeout ?? 30 * 1000;
+    }
+
+    /**
+     * Add a message to the outbox, ignoring duplicates by localId
+     */
+    enqueue(item: Omit<OutboxItem, 'attempts' | 'status'>) {
+        if (this.items.some((i) => i.localId === item.localId)) {
+            return;
+        }
+        this.items.push({ ...item, attempts: 0, status: 'queued' });
+        this.commit();
+    }
+
+    /**
+     * Send queued messages in order, optionally only for one session
+     */
+    flush(sessionId?: string) {
+        if (!this.transport.isConnected()) {
+            return;
+        }
+        let changed = false;
+        for (const item of this.items) {
+            if (item.status !== 'queued' || (sessionId && item.sessionId !== sessionId)) {
+                continue;
+            }
+            item.status = 'sending';
+            item.attempts++;
+            changed = true;
+            try {
+                this.transport.send(item);
+                this.startAckTimer(item.localId);
+            } catch (error) {
+                console.error(`Failed to send message ${item.localId}:`, error);
+                item.status = item.attempts >= this.maxAttempts ? 'failed' : 'queued';
+            }
+        }
+        if (changed) {
+            this.commit();
+        }
+    }
+
+    /**
+     * Called when the server echoes a message with our localId back
+     */
+    markDelivered(localId: string) {
+        const index = this.items.findIndex((i) => i.localId === localId);
+        if (index === -1) {
+            return;
+        }
+        this.items.splice(index, 1);
+        this.clearAckTimer(localId);
+        this.commit();
+    }
+
+    /**
+     * Return in-flight messages to the queue after the connection was lost.
+     * Messages that ran out of attempts are marked as failed.
+     */
+    handleDisconnect() {
+        let changed = false;
+        for (const item of this.items) {
+            if (item.status === 'sending') {
+                item.status = item.attempts >= this.maxAttempts ? 'failed' : 'queued';
+                this.clearAckTimer(item.localId);
+                changed = true;
+            }
+        }
+        if (changed) {
+            this.commit();
+        }
+    }
+
+    /**
+     * Manually retry a failed message
+     */
+    retry(localId: string) {
+        const item = this.items.find((i) => i.localId === localId);
+        if (!item || item.status !== 'failed') {
+            return;
+        }
+        item.status = 'queued';
+        item.attempts = 0;
+        this.commit();
+        this.flush(item.sessionId);
+    }
+
+    /**
+     * Drop all pending messages of a deleted session
+     */
+    removeSession(sessionId: string) {
+        const remaining = this.items.filter((i) => i.sessionId !== sessionId);
+        for (const item of this.items) {
+            if (item.sessionId === sessionId) {
+                this.clearAckTimer(item.localId);
+            }
+        }
+        if (remaining.length !== this.items.length) {
+            this.items = remaining;
+            this.commit();
+        }
+    }
+
+    getPendingSessions(): string[] {
+        return Array.from(new Set(this.items.map((i) => i.sessionId)));
+    }
+
+    getItems(sessionId?: string): OutboxItem[] {
+        return this.items
+            .filter((i) => !sessionId || i.sessionId === sessionId)
+            .map((i) => ({ ...i }));
+    }
+
+    getStates(): Record<string, MessageDeliveryState> {
+        const states: Record<string, MessageDeliveryState> = {};
+        for (const item of this.items) {
+            states[item.localId] = item.status;
+        }
+        return states;
+    }
+
+    /**
+     * A message the server never echoed while connected is shown as failed so it can be retried
+     */
+    private startAckTimer(localId: string) {
+        this.clearAckTimer(localId);
+        this.ackTimers.set(localId, setTimeout(() => {
+            this.ackTimers.delete(localId);
+            const item = this.items.find((i) => i.localId === localId);
+            if (item?.status === 'sending') {
+                item.status = 'failed';
+                this.commit();
+            }
+        }, this.ackTimeout));
+    }
+
+    private clearAckTimer(localId: string) {
+        const timer = this.ackTimers.get(localId);
+        if (timer) {
+            clearTimeout(timer);
+            this.ackTimers.delete(localId);
+        }
+    }
+
+    private commit() {
+        this.persist(this.items.map((i) => ({ ...i })));
+        this.onChange(this.getStates());
+    }
+}
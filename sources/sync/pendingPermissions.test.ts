@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import type { AgentState } from './storageTypes';
+import { combinePendingPermissionDiffs, listAnswerablePermissions, listPendingPermissions, selectPendingPermissions } from './pendingPermissions';
+
+const agentState: AgentState = {
+    requests: {
+        b: { tool: 'Edit', arguments: { file_path: '/app/a.ts', old_string: 'x', new_string: 'y' }, createdAt: 200 },
+        a: { tool: 'Bash', arguments: { command: 'npm test' }, createdAt: 100 },
+        c: { tool: 'MultiEdit', arguments: { file_path: '/app/a.ts', edits: [{ old_string: '1', new_string: '2' }] }, createdAt: 300 },
+        d: { tool: 'Write', arguments: { file_path: '/app/b.ts', content: 'new file' }, createdAt: 400 },
+        done: { tool: 'Edit', arguments: {}, createdAt: 50 },
+    },
+    completedRequests: {
+        done: { tool: 'Edit', arguments: {}, status: 'approved' },
+    }
+};
+
+describe('pendingPermissions', () => {
+    it('should number outstanding requests in arrival order', () => {
+        const pending = listPendingPermissions(agentState);
+        expect(pending.map((p) => [p.index, p.id])).toEqual([[1, 'a'], [2, 'b'], [3, 'c'], [4, 'd']]);
+        expect(listPendingPermissions(null)).toEqual([]);
+    });
+
+    it('should not let viewers of a shared session answer requests', () => {
+        expect(listAnswerablePermissions({ agentState, share: { role: 'viewer', ownerId: 'u1' } })).toEqual([]);
+        expect(listAnswerablePermissions({ agentState, share: { role: 'collaborator', ownerId: 'u1' } }).map((p) => p.id)).toEqual(['a', 'b', 'c', 'd']);
+        expect(listAnswerablePermissions({ agentState }).map((p) => p.id)).toEqual(['a', 'b', 'c', 'd']);
+        expect(listAnswerablePermissions(null)).toEqual([]);
+    });
+
+    it('should select requests by index, tool name or all', () => {
+        const pending = listPendingPermissions(agentState);
+        expect(selectPendingPermissions(pending, { index: 2 }).map((p) => p.id)).toEqual(['b']);
+        expect(selectPendingPermissions(pending, { tool: 'edit' }).map((p) => p.id)).toEqual(['b']);
+        expect(selectPendingPermissions(pending, { tool: 'Edit', index: 3 })).toEqual([]);
+        expect(selectPendingPermissions(pending, { all: true })).toHaveLength(4);
+        // Ambiguous without a selector
+        expect(selectPendingPermissions(pending, {})).toEqual([]);
+        expect(selectPendingPermissions(pending.slice(0, 1), {}).map((p) => p.id)).toEqual(['a']);
+    });
+
+    it('should combine diffs per file', () => {
+        const changes = combinePendingPermissionDiffs(listPendingPermissions(agentState));
+        expect(changes.map((c) => c.file)).toEqual(['/app/a.ts', '/app/b.ts']);
+        expect(changes[0].diffs.map((d) => [d.id, d.oldText, d.newText])).toEqual([['b', 'x', 'y'], ['c', '1', '2']]);
+        expect(changes[1].diffs[0]).toEqual({ id: 'd', oldText: '', newText: 'new file' });
+    });
+});
@@ -0,0 +1,111 @@
+/**
+ * Pending permission requests of a session
+ * Requests are numbered from 1 in the order they arrived, which is how they are
+ * shown in the batch approval sheet and addressed by the voice assistant
+ */
+
+import type { AgentState } from './storageTypes';
+import { extractToolPath } from './permissionRules';
+import { canControlSession, SessionShareInfo } from './sessionShareTypes';
+
+export interface PendingPermission {
+    id: string;
+    index: number; // 1-based position in arrival order
+    tool: string;
+    arguments: any;
+    createdAt: number | null;
+}
+
+export interface PendingPermissionSelector {
+    index?: number;
+    tool?: string;
+    all?: boolean;
+}
+
+export interface PendingPermissionDiff {
+    id: string;
+    oldText: string;
+    newText: string;
+}
+
+export interface PendingPermissionFileChanges {
+    file: string;
+    diffs: PendingPermissionDiff[];
+}
+
+export function listPendingPermissions(agentState: AgentState | null | undefined): PendingPermission[] {
+    const requests = agentState?.requests;
+    if (!requests) {
+        return [];
+    }
+    return Object.entries(requests)
+        .filter(([id]) => !agentState?.completedRequests?.[id])
+        .map(([id, request]) => ({ id, tool: request.tool, arguments: request.arguments, createdAt: request.createdAt ?? null }))
+        .sort((a, b) => (a.createdAt ?? 0) - (b.createdAt ?? 0) || a.id.localeCompare(b.id))
+        .map((request, i) => ({ ...request, index: i + 1 }));
+}
+
+/**
+ * Pending requests this account may answer, none in sessions shared with it as a viewer
+ */
+export function listAnswerablePermissions(session: { agentState?: AgentState | null, share?: SessionShareInfo | null } | null | undefined): PendingPermission[] {
+    if (!session || !canControlSession(session)) {
+        return [];
+    }
+    return listPendingPermissions(session.agentState);
+}
+
+/**
+ * Pick requests by position, tool name or all of them. Without a selector only
+ * an unambiguous single request is returned
+ */
+export function selectPendingPermissions(pending: PendingPermission[], selector: PendingPermissionSelector): PendingPermission[] {
+    let selected = pending;
+    if (selector.tool !== undefined) {
+        const tool = selector.tool.toLowerCase();
+        selected = selected.filter((p) => p.tool.toLowerCase() === tool);
+    }
+    if (selector.index !== undefined) {
+        return pending.filter((p) => p.index === selector.index && selected.includes(p));
+    }
+    if (selector.all || selector.tool !== undefined) {
+        return selected;
+    }
+    return selected.length === 1 ? selected : [];
+}
+
+function stringField(input: any, field: string): string {
+    return typeof input?.[field] === 'string' ? input[field] : '';
+}
+
+export function pendingPermissionDiffs(request: PendingPermission): PendingPermissionDiff[] {
+    const input = request.arguments;
+    switch (request.tool) {
+        case 'Edit':
+            return [{ id: request.id, oldText: stringField(input, 'old_string'), newText: stringField(input, 'new_string') }];
+        case 'MultiEdit':
+            return Array.isArray(input?.edits)
+                ? input.edits.map((edit: any) => ({ id: request.id, oldText: stringField(edit, 'old_string'), newText: stringField(edit, 'new_string') }))
+                : [];
+        case 'Write':
+            return [{ id: request.id, oldText: '', newText: stringField(input, 'content') }];
+        default:
+            return [];
+    }
+}
+
+/**
+ * Changes of all given requests grouped by file, in the order files first appear
+ */
+export function combinePendingPermissionDiffs(requests: PendingPermission[]): PendingPermissionFileChanges[] {
+    const files = new Map<string, PendingPermissionDiff[]>();
+    for (const request of requests) {
+        const diffs = pendingPermissionDiffs(request);
+        const file = extractToolPath(request.arguments);
+        if (diffs.length === 0 || !file) {
+            continue;
+        }
+        files.set(file, [...(files.get(file) ?? []), ...diffs]);
+    }
+    return Array.from(files.entries()).map(([file, diffs]) => ({ file, diffs }));
+}
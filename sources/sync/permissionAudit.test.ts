@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import type { Session } from './storageTypes';
+import type { PermissionRuleAuditEntry } from './permissionRules';
+import { buildPermissionAudit, filterPermissionAudit, permissionAuditTools, permissionAuditToCSV, PermissionDecisionRecord } from './permissionAudit';
+
+const sessions: Pick<Session, 'id' | 'agentState'>[] = [
+    {
+        id: 's1',
+        agentState: {
+            completedRequests: {
+                p1: { tool: 'Bash', arguments: { command: 'npm test' }, createdAt: 100, completedAt: 200, status: 'approved', decision: 'approved' },
+                p2: { tool: 'Edit', arguments: { file_path: '/a.ts' }, createdAt: 300, completedAt: 400, status: 'denied', reason: 'Not now' },
+            }
+        }
+    },
+    {
+        id: 's2',
+        agentState: {
+            completedRequests: {
+                p3: { tool: 'Bash', arguments: { command: 'ls' }, createdAt: 500, completedAt: null, status: 'canceled' },
+            }
+        }
+    },
+    { id: 's3', agentState: null },
+];
+
+const records: PermissionDecisionRecord[] = [
+    { id: 'p1', sessionId: 's1', tool: 'Bash', arguments: {}, action: 'allow', sentFrom: 'ios', createdAt: 201 },
+];
+
+const ruleAudit: PermissionRuleAuditEntry[] = [
+    { id: 'p2', sessionId: 's1', ruleId: 'r1', tool: 'Edit', arguments: {}, action: 'deny', createdAt: 401 },
+];
+
+describe('permissionAudit', () => {
+    it('should join completed requests with local decisions, newest first', () => {
+        const entries = buildPermissionAudit(sessions, records, ruleAudit);
+        expect(entries.map((e) => e.id)).toEqual(['p3', 'p2', 'p1']);
+        expect(entries[0].decidedBy).toBe('unknown');
+        expect(entries[1]).toMatchObject({ outcome: 'denied', decidedBy: 'rule', ruleId: 'r1', reason: 'Not now' });
+        expect(entries[2]).toMatchObject({ outcome: 'approved', decidedBy: 'user', sentFrom: 'ios', decision: 'approved' });
+    });
+
+    it('should filter by tool and outcome', () => {
+        const entries = buildPermissionAudit(sessions, records, ruleAudit);
+        expect(permissionAuditTools(entries)).toEqual(['Bash', 'Edit']);
+        expect(filterPermissionAudit(entries, { tool: 'Bash', outcome: null }).map((e) => e.id)).toEqual(['p3', 'p1']);
+        expect(filterPermissionAudit(entries, { tool: 'Bash', outcome: 'approved' }).map((e) => e.id)).toEqual(['p1']);
+        expect(filterPermissionAudit(entries, { tool: null, outcome: 'denied' }).map((e) => e.id)).toEqual(['p2']);
+    });
+
+    it('should export escaped CSV', () => {
+        const entries = buildPermissionAudit(sessions, records, ruleAudit);
+        const lines = permissionAuditToCSV(entries, { s1: 'Fix "tests", please' }).trim().split('\r\n');
+        expect(lines).toHaveLength(4);
+        expect(lines[0].startsWith('requested_at,completed_at,session_id')).toBe(true);
+        expect(lines[3]).toContain('"Fix ""tests"", please"');
+        expect(lines[3]).toContain('"{""command"":""npm test""}"');
+        expect(lines[3].endsWith(',user,,ios')).toBe(true);
+    });
+
+    it('should keep spreadsheets from running cells as formulas', () => {
+        const entries = buildPermissionAudit([{
+            id: 's1',
+            agentState: { completedRequests: { p1: { tool: '=HYPERLINK("x")', arguments: undefined, createdAt: null, completedAt: null, status: 'denied', reason: '@cmd' } } }
+        }], []);
+        const row = permissionAuditToCSV(entries).trim().split('\r\n')[1];
+        expect(row).toContain(`"'=HYPERLINK(""x"")"`);
+        expect(row).toContain(",'@cmd,");
+    });
+});
@@ -0,0 +1,157 @@
+/**
+ * Permission audit log
+ * Decisions come from `agentState.completedRequests` of each session, joined with the
+ * answers the user gave on this device and the audit of permission rules to tell who
+ * answered a request and from which device
+ */
+
+import type { Session } from './storageTypes';
+import type { PermissionRuleAuditEntry } from './permissionRules';
+
+//
+// Types
+//
+
+export interface PermissionDecisionRecord {
+    id: string; // Permission request ID
+    sessionId: string;
+    tool: string;
+    arguments: any;
+    action: 'allow' | 'deny';
+    sentFrom: string;
+    createdAt: number;
+}
+
+export type PermissionOutcome = 'approved' | 'denied' | 'canceled';
+
+export interface PermissionAuditEntry {
+    id: string;
+    sessionId: string;
+    tool: string;
+    arguments: any;
+    outcome: PermissionOutcome;
+    decision: string | null;
+    mode: string | null;
+    reason: string | null;
+    allowedTools: string[];
+    createdAt: number | null;
+    completedAt: number | null;
+    decidedBy: 'user' | 'rule' | 'unknown'; // Unknown when answered from the terminal or another device
+    ruleId: string | null;
+    sentFrom: string | null;
+}
+
+export interface PermissionAuditFilter {
+    tool: string | null;
+    outcome: PermissionOutcome | null;
+}
+
+//
+// Building
+//
+
+type KnownDecision = Pick<PermissionAuditEntry, 'ruleId' | 'sentFrom'> & { decidedBy: 'user' | 'rule', createdAt: number };
+
+export function buildPermissionAudit(
+    sessions: Pick<Session, 'id' | 'agentState'>[],
+    records: PermissionDecisionRecord[],
+    ruleAudit: PermissionRuleAuditEntry[] = []
+): PermissionAuditEntry[] {
+    const recordsById = new Map<string, KnownDecision>();
+    const add = (sessionId: string, id: string, record: KnownDecision) => {
+        const key = `${sessionId}:${id}`;
+        // Both lists are newest first, keep the latest decision
+        if (!recordsById.has(key)) {
+            recordsById.set(key, record);
+        }
+    };
+    for (const entry of ruleAudit) {
+        add(entry.sessionId, entry.id, { decidedBy: 'rule', ruleId: entry.ruleId, sentFrom: null, createdAt: entry.createdAt });
+    }
+    for (const record of records) {
+        add(record.sessionId, record.id, { decidedBy: 'user', ruleId: null, sentFrom: record.sentFrom, createdAt: record.createdAt });
+    }
+
+    const entries: PermissionAuditEntry[] = [];
+    for (const session of sessions) {
+        const completed = session.agentState?.completedRequests;
+        if (!completed) {
+            continue;
+        }
+        for (const [id, request] of Object.entries(completed)) {
+            const record = recordsById.get(`${session.id}:${id}`);
+            entries.push({
+                id,
+                sessionId: session.id,
+                tool: request.tool,
+                arguments: request.arguments,
+                outcome: request.status,
+                decision: request.decision ?? null,
+                mode: request.mode ?? null,
+                reason: request.reason ?? null,
+                allowedTools: request.allowedTools ?? [],
+                createdAt: request.createdAt ?? null,
+                completedAt: request.completedAt ?? record?.createdAt ?? null,
+                decidedBy: record?.decidedBy ?? 'unknown',
+                ruleId: record?.ruleId ?? null,
+                sentFrom: record?.sentFrom ?? null,
+            });
+        }
+    }
+    return entries.sort((a, b) => (b.completedAt ?? b.createdAt ?? 0) - (a.completedAt ?? a.createdAt ?? 0));
+}
+
+export function filterPermissionAudit(entries: PermissionAuditEntry[], filter: PermissionAuditFilter): PermissionAuditEntry[] {
+    return entries.filter((entry) =>
+        (filter.tool === null || entry.tool === filter.tool) &&
+        (filter.outcome === null || entry.outcome === filter.outcome)
+    );
+}
+
+export function permissionAuditTools(entries: PermissionAuditEntry[]): string[] {
+    return Array.from(new Set(entries.map((e) => e.tool))).sort();
+}
+
+//
+// CSV
+//
+
+function csvField(value: string | number | null): string {
+    if (value === null) {
+        return '';
+    }
+    let text = String(value);
+    // Spreadsheets run cells starting with these as formulas
+    if (/^[=+\-@]/.test(text)) {
+        text = `'${text}`;
+    }
+    if (/[",\r\n]/.test(text)) {
+        return `"${text.replace(/"/g, '""')}"`;
+    }
+    return text;
+}
+
+function csvTime(timestamp: number | null): string | null {
+    return timestamp === null ? null : new Date(timestamp).toISOString();
+}
+
+export function permissionAuditToCSV(entries: PermissionAuditEntry[], sessionNames: Record<string, string> = {}): string {
+    const header = ['requested_at', 'completed_at', 'session_id', 'session', 'tool', 'arguments', 'outcome', 'decision', 'mode', 'reason', 'allowed_tools', 'decided_by', 'rule_id', 'sent_from'];
+    const rows = entries.map((entry) => [
+        csvTime(entry.createdAt),
+        csvTime(entry.completedAt),
+        entry.sessionId,
+        sessionNames[entry.sessionId] ?? null,
+        entry.tool,
+        entry.arguments === undefined ? null : JSON.stringify(entry.arguments),
+        entry.outcome,
+        entry.decision,
+        entry.mode,
+        entry.reason,
+        entry.allowedTools.join(' '),
+        entry.decidedBy,
+        entry.ruleId,
+        entry.sentFrom,
+    ].map(csvField).join(','));
+    return [header.join(','), ...rows].join('\r\n') + '\r\n';
+}
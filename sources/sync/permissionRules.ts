@@ -0,0 +1,162 @@
+/**
+ * Client-side permission rules
+ * Rules are configured per project (machine + path) and synced through settings.
+ * When a new permission request arrives the first matching deny rule wins, then
+ * the first matching allow rule, otherwise the request is left for the user.
+ */
+
+import type { Settings } from './settings';
+
+//
+// Types
+//
+
+export type PermissionRule = Settings['permissionRules'][number];
+
+export interface PermissionRuleAuditEntry {
+    id: string; // Permission request ID
+    sessionId: string;
+    ruleId: string;
+    tool: string;
+    arguments: any;
+    action: PermissionRule['action'];
+    createdAt: number;
+}
+
+// Tool input fields that carry the file a tool operates on
+const PATH_FIELDS = ['file_path', 'notebook_path', 'path'];
+
+// Characters the shell acts on outside of quotes: chaining, redirection, process and command
+// substitution, subshells, expansion and escapes
+const SHELL_METACHARACTERS = ';&|<>()$`\\\n\r';
+
+//
+// Matching
+//
+
+function globToRegExp(glob: string): RegExp {
+    let source = '';
+    for (let i = 0; i < glob.length; i++) {
+        const c = glob[i];
+        if (c === '*') {
+            if (glob[i + 1] === '*') {
+                // `**/` matches any number of directories, including none
+                if (glob[i + 2] === '/') {
+                    source += '(?:.*/)?';
+                    i += 2;
+                } else {
+                    source += '.*';
+                    i += 1;
+                }
+            } else {
+                source += '[^/]*';
+            }
+        } else if (c === '?') {
+            source += '[^/]';
+        } else {
+            source += c.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^${source}$`);
+}
+
+/**
+ * Match a file path against a glob, relative globs are resolved against the project root
+ */
+export function matchPathGlob(glob: string, filePath: string, projectPath: string): boolean {
+    // Paths escaping through `..` could match a glob they don't really belong to
+    if (filePath.split('/').includes('..')) {
+        return false;
+    }
+    const root = projectPath.endsWith('/') ? projectPath : projectPath + '/';
+    let target = filePath;
+    if (!glob.startsWith('/') && filePath.startsWith('/')) {
+        // Relative globs never match files outside of the project
+        if (!filePath.startsWith(root)) {
+            return false;
+        }
+        target = filePath.slice(root.length);
+    }
+    return globToRegExp(glob).test(target);
+}
+
+export function extractToolPath(input: any): string | null {
+    if (!input || typeof input !== 'object') {
+        return null;
+    }
+    for (const field of PATH_FIELDS) {
+        if (typeof input[field] === 'string') {
+            return input[field];
+        }
+    }
+    return null;
+}
+
+/**
+ * Whether a command does more than run one program with literal arguments, single quoted text is
+ * literal while double quotes still expand `$` and backticks
+ */
+function hasShellMetacharacters(command: string): boolean {
+    let quote: '\'' | '"' | null = null;
+    for (const c of command) {
+        if (quote === '\'') {
+            if (c === '\'') {
+                quote = null;
+            }
+        } else if (quote === '"') {
+            if (c === '"') {
+                quote = null;
+            } else if (c === '$' || c === '`' || c === '\\') {
+                return true;
+            }
+        } else if (c === '\'' || c === '"') {
+            quote = c;
+        } else if (SHELL_METACHARACTERS.includes(c)) {
+            return true;
+        }
+    }
+    // An unterminated quote leaves the shell to decide what the rest means
+    return quote !== null;
+}
+
+function matchesRule(rule: PermissionRule, tool: string, input: any, projectPath: string): boolean {
+    if (!rule.enabled || (rule.tool !== '*' && rule.tool !== tool)) {
+        return false;
+    }
+    switch (rule.matcher) {
+        case 'any':
+            return true;
+        case 'pathGlob': {
+            const filePath = extractToolPath(input);
+            return !!rule.pattern && !!filePath && matchPathGlob(rule.pattern, filePath, projectPath);
+        }
+        case 'commandPrefix': {
+            const command = typeof input?.command === 'string' ? input.command.trim() : null;
+            if (!rule.pattern || !command) {
+                return false;
+            }
+            const prefix = rule.pattern.trim();
+            if (command !== prefix && !command.startsWith(prefix + ' ')) {
+                return false;
+            }
+            // Never auto-approve something like `git status && rm -rf ~` or `echo x > ~/.bashrc`
+            if (rule.action === 'allow' && hasShellMetacharacters(command)) {
+                return false;
+            }
+            return true;
+        }
+    }
+}
+
+/**
+ * Find the rule that decides a permission request, or null if the user has to decide
+ */
+export function evaluatePermissionRules(
+    rules: PermissionRule[],
+    project: { machineId: string, path: string },
+    request: { tool: string, arguments: any }
+): PermissionRule | null {
+    const projectRules = rules.filter((r) => r.machineId === project.machineId && r.path === project.path);
+    const matching = projectRules.filter((r) => matchesRule(r, request.tool, request.arguments, project.path));
+    return matching.find((r) => r.action === 'deny') ?? matching.find((r) => r.action === 'allow') ?? null;
+}
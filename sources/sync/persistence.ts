@@ -4,8 +4,15 @@ import { LocalSettings, localSettingsDefaults, localSettingsParse } from './loca
 import { Purchases, purchasesDefaults, purchasesParse } from './purchases';
 import { Profile, profileDefaults, profileParse } from './profile';
 import type { PermissionMode } from '@/components/PermissionModeSelector';
+import type { OutboxItem } from './outbox';
+import type { CachedSessionMessages } from './messagePages';
+import type { PermissionRuleAuditEntry } from './permissionRules';
+import type { PermissionDecisionRecord } from './permissionAudit';
+import type { DiffComment } from './diffComments';
+import type { MessageQueues } from './messageQueue';
 
 const mmkv = new MMKV();
+const messageCache = new MMKV({ id: 'message-cache' });
 
 export function loadSettings(): { settings: Settings, version: number | null } {
     const settings = mmkv.getString('settings');
@@ -128,6 +135,112 @@ export function saveSessionPermissionModes(modes: Record<string, PermissionMode>
     mmkv.set('session-permission-modes', JSON.stringify(modes));
 }
 
+export function loadMessageOutbox(): OutboxItem[] {
+    const outbox = mmkv.getString('message-outbox');
+    if (outbox) {
+        try {
+            return JSON.parse(outbox);
+        } catch (e) {
+            console.error('Failed to parse message outbox', e);
+            return [];
+        }
+    }
+    return [];
+}
+
+export function saveMessageOutbox(items: OutboxItem[]) {
+    mmkv.set('message-outbox', JSON.stringify(items));
+}
+
+export function loadPermissionRuleAudit(): PermissionRuleAuditEntry[] {
+    const audit = mmkv.getString('permission-rule-audit');
+    if (audit) {
+        try {
+            return JSON.parse(audit);
+        } catch (e) {
+            console.error('Failed to parse permission rule audit', e);
+            return [];
+        }
+    }
+    return [];
+}
+
+export function savePermissionRuleAudit(entries: PermissionRuleAuditEntry[]) {
+    mmkv.set('permission-rule-audit', JSON.stringify(entries));
+}
+
+export function loadPermissionDecisions(): PermissionDecisionRecord[] {
+    const decisions = mmkv.getString('permission-decisions');
+    if (decisions) {
+        try {
+            return JSON.parse(decisions);
+        } catch (e) {
+            console.error('Failed to parse permission decisions', e);
+            return [];
+        }
+    }
+    return [];
+}
+
+export function savePermissionDecisions(records: PermissionDecisionRecord[]) {
+    mmkv.set('permission-decisions', JSON.stringify(records));
+}
+
+export function loadDiffComments(): Record<string, DiffComment> {
+    const comments = mmkv.getString('diff-comments');
+    if (comments) {
+        try {
+            return JSON.parse(comments);
+        } catch (e) {
+            console.error('Failed to parse diff comments', e);
+            return {};
+        }
+    }
+    return {};
+}
+
+export function saveDiffComments(comments: Record<string, DiffComment>) {
+    mmkv.set('diff-comments', JSON.stringify(comments));
+}
+
+export function loadMessageQueues(): MessageQueues {
+    const queues = mmkv.getString('message-queues');
+    if (queues) {
+        try {
+            return JSON.parse(queues);
+        } catch (e) {
+            console.error('Failed to parse message queues', e);
+            return {};
+        }
+    }
+    return {};
+}
+
+export function saveMessageQueues(queues: MessageQueues) {
+    mmkv.set('message-queues', JSON.stringify(queues));
+}
+
+export function loadCachedSessionMessages(sessionId: string): CachedSessionMessages | null {
+    const cached = messageCache.getString(sessionId);
+    if (cached) {
+        try {
+            return JSON.parse(cached);
+        } catch (e) {
+            console.error('Failed to parse cached session messages', e);
+            return null;
+        }
+    }
+    return null;
+}
+
+export function saveCachedSessionMessages(sessionId: string, cached: CachedSessionMessages) {
+    messageCache.set(sessionId, JSON.stringify(cached));
+}
+
+export function deleteCachedSessionMessages(sessionId: string) {
+    messageCache.delete(sessionId);
+}
+
 export function loadProfile(): Profile {
     const profile = mmkv.getString('profile');
     if (profile) {
@@ -165,4 +278,5 @@ export function retrieveTempText(id: string): string | null {
 
 export function clearPersistence() {
     mmkv.clearAll();
+    messageCache.clearAll();
 }
\ No newline at end of file
@@ -0,0 +1,220 @@
+/**
+ * Presence of this device in the open sessions and of everyone else looking at them
+ * Every session on screen is re-announced every few seconds while the app is active, the server relays
+ * announcements to the other people with access to the session as ephemeral updates
+ */
+
+import { AppState } from 'react-native';
+import { apiSocket } from './apiSocket';
+import { storage } from './storage';
+import type { ApiEphemeralPresenceUpdate } from './apiTypes';
+import { applyPresenceEntry, permissionLockHolder, PRESENCE_HEARTBEAT, PresenceEntry, prunePresence, removePresenceEntry, reviewingElapsed, reviewingSince } from './sessionPresence';
+import { isSessionOwner } from './sessionShareTypes';
+
+// Typing is reported until the input has been idle for this long
+const TYPING_IDLE = 4 * 1000;
+
+interface OwnPresence {
+    refs: number; // Mounted views of the session, several panes can show the same one
+    typing: boolean;
+    typingTimeout: ReturnType<typeof setTimeout> | null;
+    claims: Map<string, { since: number, count: number }>; // Permission requests on screen, by id
+}
+
+class PresenceSync {
+    private sessions = new Map<string, OwnPresence>();
+    private heartbeat: ReturnType<typeof setInterval> | null = null;
+
+    constructor() {
+        AppState.addEventListener('change', (nextAppState) => {
+            if (nextAppState === 'active') {
+                this.publish();
+            } else {
+                this.sessions.forEach((_, sessionId) => this.send(sessionId, 'left'));
+            }
+        });
+        apiSocket.onReconnected(() => this.publish());
+    }
+
+    enter(sessionId: string) {
+        const existing = this.sessions.get(sessionId);
+        if (existing) {
+            existing.refs++;
+            return;
+        }
+        this.sessions.set(sessionId, { refs: 1, typing: false, typingTimeout: null, claims: new Map() });
+        this.prune();
+        this.publish(sessionId);
+        if (!this.heartbeat) {
+            this.heartbeat = setInterval(() => {
+                this.publish();
+                this.prune();
+            }, PRESENCE_HEARTBEAT);
+        }
+    }
+
+    leave(sessionId: string) {
+        const current = this.sessions.get(sessionId);
+        if (!current) {
+            return;
+        }
+        current.refs--;
+        if (current.refs > 0) {
+            return;
+        }
+        this.send(sessionId, 'left');
+        this.sessions.delete(sessionId);
+        if (current.typingTimeout) {
+            clearTimeout(current.typingTimeout);
+        }
+        if (this.sessions.size === 0 && this.heartbeat) {
+            clearInterval(this.heartbeat);
+            this.heartbeat = null;
+        }
+    }
+
+    /**
+     * Called on every change of the input, only transitions are announced
+     */
+    noteTyping(sessionId: string) {
+        const current = this.sessions.get(sessionId);
+        if (!current) {
+            return;
+        }
+        if (current.typingTimeout) {
+            clearTimeout(current.typingTimeout);
+        }
+        current.typingTimeout = setTimeout(() => {
+            current.typingTimeout = null;
+            current.typing = false;
+            this.publish(sessionId);
+        }, TYPING_IDLE);
+        if (!current.typing) {
+            current.typing = true;
+            this.publish(sessionId);
+        }
+    }
+
+    /**
+     * Starts reviewing a pending permission request, returns when the review started
+     */
+    claimPermission(sessionId: string, permissionId: string): number | null {
+        const current = this.sessions.get(sessionId);
+        if (!current) {
+            return null;
+        }
+        const claim = current.claims.get(permissionId);
+        if (claim) {
+            claim.count++;
+            return claim.since;
+        }
+        const since = Date.now();
+        current.claims.set(permissionId, { since, count: 1 });
+        this.publish(sessionId);
+        return since;
+    }
+
+    /**
+     * Moves our review of a request before the one holding it, so every device hands us the lock
+     */
+    takeOverPermission(sessionId: string, permissionId: string, holderSince: number): number | null {
+        const current = this.sessions.get(sessionId);
+        if (!current) {
+            return null;
+        }
+        const since = holderSince - 1;
+        const claim = current.claims.get(permissionId);
+        if (claim) {
+            claim.since = Math.min(claim.since, since);
+        } else {
+            current.claims.set(permissionId, { since, count: 1 });
+        }
+        this.publish(sessionId);
+        return current.claims.get(permissionId)!.since;
+    }
+
+    releasePermission(sessionId: string, permissionId: string) {
+        const current = this.sessions.get(sessionId);
+        const claim = current?.claims.get(permissionId);
+        if (!current || !claim) {
+            return;
+        }
+        claim.count--;
+        if (claim.count === 0) {
+            current.claims.delete(permissionId);
+            this.publish(sessionId);
+        }
+    }
+
+    /**
+     * Viewer holding the soft lock on a request, null when it is free or ours and always for the owner,
+     * for answering requests outside of their permission footer
+     */
+    lockHolder(sessionId: string, permissionId: string): PresenceEntry | null {
+        const state = storage.getState();
+        const session = state.sessions[sessionId];
+        if (!session || isSessionOwner(session)) {
+            return null;
+        }
+        const claim = this.sessions.get(sessionId)?.claims.get(permissionId);
+        return permissionLockHolder(
+            Object.values(state.sessionPresence[sessionId] ?? {}),
+            permissionId,
+            claim ? { userId: state.profile.id, since: claim.since } : null
+        );
+    }
+
+    applyUpdate(update: ApiEphemeralPresenceUpdate) {
+        const state = storage.getState();
+        const now = Date.now();
+        if (update.userId === state.profile.id) {
+            return;
+        }
+        if (update.activity === 'left') {
+            state.applySessionPresence(removePresenceEntry(state.sessionPresence, update.id, update.userId));
+            return;
+        }
+        state.applySessionPresence(applyPresenceEntry(state.sessionPresence, update.id, {
+            userId: update.userId,
+            activity: update.activity,
+            reviewing: reviewingSince(update.reviewing ?? {}, now, state.sessionPresence[update.id]?.[update.userId]?.reviewing),
+            updatedAt: now
+        }));
+    }
+
+    /**
+     * Announce one session, or every session on screen when none is given
+     */
+    private publish(sessionId?: string) {
+        if (AppState.currentState !== 'active') {
+            return;
+        }
+        this.sessions.forEach((current, id) => {
+            if (sessionId !== undefined && id !== sessionId) {
+                return;
+            }
+            const since: Record<string, number> = {};
+            current.claims.forEach((claim, permissionId) => {
+                since[permissionId] = claim.since;
+            });
+            this.send(id, current.typing ? 'typing' : 'viewing', reviewingElapsed(since, Date.now()));
+        });
+    }
+
+    private send(sessionId: string, activity: 'viewing' | 'typing' | 'left', reviewing?: Record<string, number>) {
+        if (!apiSocket.isConnected()) {
+            return;
+        }
+        apiSocket.send('session-presence', { sid: sessionId, activity, reviewing });
+    }
+
+    private prune() {
+        const state = storage.getState();
+        const pruned = prunePresence(state.sessionPresence, Date.now());
+        if (pruned !== state.sessionPresence) {
+            state.applySessionPresence(pruned);
+        }
+    }
+}
+
+export const presenceSync = new PresenceSync();
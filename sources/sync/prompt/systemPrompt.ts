@@ -17,4 +17,16 @@ export const systemPrompt = trimIdent(`
     # Plan mode with options
 
     When you are in the plan mode, you must use the options mode to give the user a easy way to answer your questions if you know possible answers. Do not assume what is needed, when there is discrepancy between what you need and what you have, you must use the options mode.
+
+    # Artifacts
+
+    When you write a standalone document the user will want to keep, like a plan, a report or release notes, you can save it to the user's artifacts by putting it into an XML block:
+
+    <artifact title="Short title">
+    Markdown content
+    </artifact>
+
+    Always dedicate "<artifact ...>" and "</artifact>" to a dedicated line and do not wrap the block into a codeblock. The block is removed from your response and saved linked to this session. Only use it for content worth keeping, never for regular answers.
+
+    Content is markdown by default. Add a type attribute for other content: type="code" language="typescript" for a source file, type="diagram" for a Mermaid diagram, or type="checklist" for a list of "- [ ] item" lines the user can check off.
 `);
\ No newline at end of file
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import {
+    decodeTemplateShare,
+    encodeTemplateShare,
+    extractTemplateVariables,
+    fillTemplate,
+    parseSharedTemplate,
+    PromptTemplate,
+    searchTemplates,
+    templateCommand
+} from './promptTemplates';
+
+function template(id: string, fields: Partial<PromptTemplate>): PromptTemplate {
+    return {
+        id,
+        name: id,
+        description: '',
+        body: '',
+        createdAt: 0,
+        updatedAt: 0,
+        sharedBy: null,
+        sharedByUserId: null,
+        ...fields
+    };
+}
+
+describe('template variables', () => {
+    it('should extract each variable once in order of appearance', () => {
+        expect(extractTemplateVariables('Fix {{ issue }} in {{repo}}, then close {{issue}}')).toEqual(['issue', 'repo']);
+        expect(extractTemplateVariables('No variables, not even {single} or {{ two words }}')).toEqual([]);
+    });
+
+    it('should fill every occurrence and blank out missing values', () => {
+        expect(fillTemplate('Fix {{ issue }} in {{repo}}, then close {{issue}}', { issue: '#42' }))
+            .toBe('Fix #42 in , then close #42');
+    });
+});
+
+describe('templateCommand', () => {
+    it('should turn names into slash commands', () => {
+        expect(templateCommand('  Morning CI check! ')).toBe('morning-ci-check');
+        expect(templateCommand('Уточнить задачу')).toBe('уточнить-задачу');
+    });
+
+    it('should search templates by command', () => {
+        const templates = [template('a', { name: 'Morning CI check' }), template('b', { name: 'Clarify task' })];
+        expect(searchTemplates(templates, 'ci', 5).map((t) => t.id)).toEqual(['a']);
+        expect(searchTemplates(templates, '', 5).map((t) => t.id)).toEqual(['b', 'a']);
+    });
+});
+
+describe('template sharing', () => {
+    it('should round trip templates through share links', () => {
+        const shared = template('a', { name: 'Clarify', description: 'Ask first', body: 'Save to {{taskFile}} — ✓' });
+        const link = encodeTemplateShare(shared, 'steve');
+        expect(link.startsWith('happy:///templates/import?data=')).toBe(true);
+        expect(decodeTemplateShare(link)).toEqual({ name: 'Clarify', description: 'Ask first', body: 'Save to {{taskFile}} — ✓', from: 'steve' });
+        expect(decodeTemplateShare(link.slice(link.indexOf('=') + 1))?.name).toBe('Clarify');
+    });
+
+    it('should reject invalid data', () => {
+        expect(decodeTemplateShare('not base64 !')).toBeNull();
+        expect(decodeTemplateShare('e30')).toBeNull();
+        expect(parseSharedTemplate(null)).toBeNull();
+        expect(parseSharedTemplate({ name: 'Clarify', description: '', body: 'Ask first', from: null })?.body).toBe('Ask first');
+    });
+});
@@ -0,0 +1,109 @@
+/**
+ * Library of reusable prompts with {{variable}} placeholders
+ * Templates are inserted from the slash autocomplete of the input, variables are filled in
+ * right before inserting. Templates are shared as links that carry the whole template, or sent
+ * to a friend encrypted for their key through the feed
+ */
+
+import * as z from 'zod';
+import Fuse from 'fuse.js';
+import { encodeBase64, decodeBase64 } from '@/encryption/base64';
+import { encodeUTF8, decodeUTF8 } from '@/encryption/text';
+
+export interface PromptTemplate {
+    id: string;
+    name: string;
+    description: string;
+    body: string;
+    createdAt: number;
+    updatedAt: number;
+    sharedBy: string | null; // Name of who shared it, only verified when sharedByUserId is set
+    sharedByUserId: string | null; // Friend the template was sent by through the app, null for links
+}
+
+export interface PromptTemplatesState {
+    templates: Record<string, PromptTemplate>;
+    versions: Record<string, number>; // KV versions of the templates
+}
+
+const SharedTemplateSchema = z.object({
+    name: z.string(),
+    description: z.string(),
+    body: z.string(),
+    from: z.string().nullable()
+});
+
+export type SharedTemplate = z.infer<typeof SharedTemplateSchema>;
+
+export const TEMPLATE_SHARE_PREFIX = 'happy:///templates/import?data=';
+
+const VARIABLE_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+/**
+ * Names of the variables of a template in the order they first appear
+ */
+export function extractTemplateVariables(body: string): string[] {
+    const names = new Set<string>();
+    for (const match of body.matchAll(VARIABLE_PATTERN)) {
+        names.add(match[1]);
+    }
+    return Array.from(names);
+}
+
+export function fillTemplate(body: string, values: Record<string, string>): string {
+    return body.replace(VARIABLE_PATTERN, (_, name: string) => values[name] ?? '');
+}
+
+/**
+ * Slash command a template is offered under, e.g. "Morning CI check" becomes "morning-ci-check"
+ */
+export function templateCommand(name: string): string {
+    return name
+        .trim()
+        .toLowerCase()
+        .replace(/[^\p{L}\p{N}]+/gu, '-')
+        .replace(/^-+|-+$/g, '');
+}
+
+export function searchTemplates(templates: PromptTemplate[], query: string, limit: number): PromptTemplate[] {
+    const sorted = [...templates].sort((a, b) => a.name.localeCompare(b.name));
+    if (!query.trim()) {
+        return sorted.slice(0, limit);
+    }
+    const fuse = new Fuse(sorted.map((template) => ({ template, command: templateCommand(template.name) })), {
+        keys: [
+            { name: 'command', weight: 0.7 },
+            { name: 'template.description', weight: 0.3 }
+        ],
+        threshold: 0.3,
+        ignoreLocation: true
+    });
+    return fuse.search(query, { limit }).map((result) => result.item.template);
+}
+
+export function encodeTemplateShare(template: PromptTemplate, from: string | null): string {
+    const shared: SharedTemplate = {
+        name: template.name,
+        description: template.description,
+        body: template.body,
+        from
+    };
+    return TEMPLATE_SHARE_PREFIX + encodeBase64(encodeUTF8(JSON.stringify(shared)), 'base64url');
+}
+
+export function parseSharedTemplate(value: unknown): SharedTemplate | null {
+    const parsed = SharedTemplateSchema.safeParse(value);
+    return parsed.success ? parsed.data : null;
+}
+
+/**
+ * Template of a share link or of its data parameter, null when it isn't a valid template
+ */
+export function decodeTemplateShare(linkOrData: string): SharedTemplate | null {
+    const data = linkOrData.startsWith(TEMPLATE_SHARE_PREFIX) ? linkOrData.slice(TEMPLATE_SHARE_PREFIX.length) : linkOrData;
+    try {
+        return parseSharedTemplate(JSON.parse(decodeUTF8(decodeBase64(decodeURIComponent(data), 'base64url'))));
+    } catch {
+        return null;
+    }
+}
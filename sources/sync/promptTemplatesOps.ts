@@ -0,0 +1,64 @@
+import { AuthCredentials } from '@/auth/tokenStorage';
+import { randomUUID } from 'expo-crypto';
+import { AsyncLock } from '@/utils/lock';
+import { storage } from './storage';
+import { KvCollection } from './kvCollection';
+import { PromptTemplate, PromptTemplatesState } from './promptTemplates';
+
+//
+// Prompt templates are stored encrypted in the KV store, one key per template
+//
+
+const templateLock = new AsyncLock();
+
+export type PromptTemplateFields = Pick<PromptTemplate, 'name' | 'description' | 'body' | 'sharedBy' | 'sharedByUserId'>;
+
+function currentState(): PromptTemplatesState {
+    return storage.getState().promptTemplates ?? { templates: {}, versions: {} };
+}
+
+const templates = new KvCollection<PromptTemplate>({
+    prefix: 'template.',
+    name: 'prompt template',
+    getState: () => {
+        const state = currentState();
+        return { items: state.templates, versions: state.versions };
+    },
+    applyState: (state) => storage.getState().applyPromptTemplates({ templates: state.items, versions: state.versions })
+});
+
+export function isTemplateKey(key: string): boolean {
+    return templates.isKey(key);
+}
+
+export async function refreshPromptTemplates(credentials: AuthCredentials): Promise<void> {
+    await templates.refresh(credentials);
+}
+
+//
+// Mutation Functions
+//
+
+export async function createPromptTemplate(credentials: AuthCredentials, fields: PromptTemplateFields): Promise<string> {
+    const now = Date.now();
+    const template: PromptTemplate = {
+        id: randomUUID(),
+        ...fields,
+        createdAt: now,
+        updatedAt: now
+    };
+    await templateLock.inLock(() => templates.create(credentials, template));
+    return template.id;
+}
+
+export async function updatePromptTemplate(credentials: AuthCredentials, id: string, changes: Partial<PromptTemplateFields>): Promise<void> {
+    await templateLock.inLock(() => templates.update(credentials, id, (template) => ({
+        ...template,
+        ...changes,
+        updatedAt: Date.now()
+    })));
+}
+
+export async function deletePromptTemplate(credentials: AuthCredentials, id: string): Promise<void> {
+    await templateLock.inLock(() => templates.delete(credentials, id));
+}
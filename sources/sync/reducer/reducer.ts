@@ -60,6 +60,8 @@
  *   - Updates tool messages with results
  *   - Sets completion or error states
  *   - Updates completion timestamps
+ *   - Holds results whose tool call has not arrived yet (older history pages are
+ *     loaded after newer ones) and applies them once Phase 2 creates the tool
  * 
  * **Phase 4: Sidechains**
  *   - Processes sidechain messages separately
@@ -116,6 +118,7 @@ import { createTracer, traceMessages, TracerState } from "./reducerTracer";
 import { AgentState } from "../storageTypes";
 import { MessageMeta } from "../typesMessageMeta";
 import { parseMessageAsEvent } from "./messageToEvent";
+import { AgentArtifact, extractAgentArtifacts } from "../agentArtifacts";
 
 type ReducerMessage = {
     id: string;
@@ -126,6 +129,7 @@ type ReducerMessage = {
     event: AgentEvent | null;
     tool: ToolCall | null;
     meta?: MessageMeta;
+    artifacts?: AgentArtifact[]; // Published by the agent from this text
 }
 
 type StoredPermission = {
@@ -140,10 +144,24 @@ type StoredPermission = {
     decision?: 'approved' | 'approved_for_session' | 'denied' | 'abort';
 };
 
+type PendingToolResult = {
+    content: any;
+    isError: boolean;
+    completedAt: number;
+    permissions?: {
+        date: number;
+        result: 'approved' | 'denied';
+        mode?: string;
+        allowedTools?: string[];
+        decision?: 'approved' | 'approved_for_session' | 'denied' | 'abort';
+    };
+};
+
 export type ReducerState = {
     toolIdToMessageId: Map<string, string>; // toolId/permissionId -> messageId (since they're the same now)
     sidechainToolIdToMessageId: Map<string, string>; // toolId -> sidechain messageId (for dual tracking)
     permissions: Map<string, StoredPermission>; // Store permission details by ID for quick lookup
+    pendingToolResults: Map<string, PendingToolResult>; // toolId -> result received before its tool call
     localIds: Map<string, string>;
     messageIds: Map<string, string>; // originalId -> internalId
     messages: Map<string, ReducerMessage>;
@@ -173,6 +191,7 @@ export function createReducer(): ReducerState {
         toolIdToMessageId: new Map(),
         sidechainToolIdToMessageId: new Map(),
         permissions: new Map(),
+        pendingToolResults: new Map(),
         messages: new Map(),
         localIds: new Map(),
         messageIds: new Map(),
@@ -199,6 +218,7 @@ export type ReducerResult = {
         contextSize: number;
     };
     hasReadyEvent?: boolean;
+    artifacts?: AgentArtifact[]; // Published by the agent in the new messages
 };
 
 export function reducer(state: ReducerState, messages: NormalizedMessage[], agentState?: AgentState | null): ReducerResult {
@@ -215,6 +235,7 @@ export function reducer(state: ReducerState, messages: NormalizedMessage[], agen
     let newMessages: Message[] = [];
     let changed: Set<string> = new Set();
     let hasReadyEvent = false;
+    let artifacts: AgentArtifact[] = [];
 
     // First, trace all messages to identify sidechains
     const tracedMessages = traceMessages(state.tracerState, messages);
@@ -628,18 +649,22 @@ export function reducer(state: ReducerState, messages: NormalizedMessage[], agen
             }
 
             // Process text content only (tool calls handled in Phase 2)
-            for (let c of msg.content) {
+            for (let i = 0; i < msg.content.length; i++) {
+                const c = msg.content[i];
                 if (c.type === 'text') {
+                    const extracted = extractAgentArtifacts(`${msg.id}:${i}`, c.text);
+                    artifacts.push(...extracted.artifacts);
                     let mid = allocateId();
                     state.messages.set(mid, {
                         id: mid,
                         realID: msg.id,
                         role: 'agent',
                         createdAt: msg.createdAt,
-                        text: c.text,
+                        text: extracted.text,
                         tool: null,
                         event: null,
                         meta: msg.meta,
+                        ...(extracted.artifacts.length > 0 && { artifacts: extracted.artifacts }),
                     });
                     changed.add(mid);
                 }
@@ -747,6 +772,13 @@ export function reducer(state: ReducerState, messages: NormalizedMessage[], agen
                         state.toolIdToMessageId.set(c.id, mid);
                         changed.add(mid);
 
+                        // Apply a result that arrived before this tool call
+                        const pendingResult = state.pendingToolResults.get(c.id);
+                        if (pendingResult) {
+                            state.pendingToolResults.delete(c.id);
+                            applyToolResult(toolCall, c.id, pendingResult);
+                        }
+
                         // Track TodoWrite tool inputs
                         if (toolCall.name === 'TodoWrite' && toolCall.state === 'running' && toolCall.input?.todos) {
                             // Only update if this is newer than existing todos
@@ -773,7 +805,15 @@ export function reducer(state: ReducerState, messages: NormalizedMessage[], agen
                 if (c.type === 'tool-result') {
                     // Find the message containing this tool
                     let messageId = state.toolIdToMessageId.get(c.tool_use_id);
+                    const result: PendingToolResult = {
+                        content: c.content,
+                        isError: c.is_error,
+                        completedAt: msg.createdAt,
+                        permissions: c.permissions
+                    };
                     if (!messageId) {
+                        // Tool call is in an older page that has not been loaded yet
+                        state.pendingToolResults.set(c.tool_use_id, result);
                         continue;
                     }
 
@@ -782,43 +822,9 @@ export function reducer(state: ReducerState, messages: NormalizedMessage[], agen
                         continue;
                     }
 
-                    if (message.tool.state !== 'running') {
-                        continue;
-                    }
-
-                    // Update tool state and result
-                    message.tool.state = c.is_error ? 'error' : 'completed';
-                    message.tool.result = c.content;
-                    message.tool.completedAt = msg.createdAt;
-
-                    // Update permission data if provided by backend
-                    if (c.permissions) {
-                        // Merge with existing permission to preserve decision field from agentState
-                        if (message.tool.permission) {
-                            // Preserve existing decision if not provided in tool result
-                            const existingDecision = message.tool.permission.decision;
-                            message.tool.permission = {
-                                ...message.tool.permission,
-                                id: c.tool_use_id,
-                                status: c.permissions.result === 'approved' ? 'approved' : 'denied',
-                                date: c.permissions.date,
-                                mode: c.permissions.mode,
-                                allowedTools: c.permissions.allowedTools,
-                                decision: c.permissions.decision || existingDecision
-                            };
-                        } else {
-                            message.tool.permission = {
-                                id: c.tool_use_id,
-                                status: c.permissions.result === 'approved' ? 'approved' : 'denied',
-                                date: c.permissions.date,
-                                mode: c.permissions.mode,
-                                allowedTools: c.permissions.allowedTools,
-                                decision: c.permissions.decision
-                            };
-                        }
+                    if (applyToolResult(message.tool, c.tool_use_id, result)) {
+                        changed.add(messageId);
                     }
-
-                    changed.add(messageId);
                 }
             }
         }
@@ -1069,7 +1075,8 @@ export function reducer(state: ReducerState, messages: NormalizedMessage[], agen
             cacheRead: state.latestUsage.cacheRead,
             contextSize: state.latestUsage.contextSize
         } : undefined,
-        hasReadyEvent: hasReadyEvent || undefined
+        hasReadyEvent: hasReadyEvent || undefined,
+        artifacts: artifacts.length > 0 ? artifacts : undefined
     };
 }
 
@@ -1077,6 +1084,45 @@ export function reducer(state: ReducerState, messages: NormalizedMessage[], agen
 // Helpers
 //
 
+function applyToolResult(tool: ToolCall, toolId: string, result: PendingToolResult): boolean {
+    if (tool.state !== 'running') {
+        return false;
+    }
+
+    // Update tool state and result
+    tool.state = result.isError ? 'error' : 'completed';
+    tool.result = result.content;
+    tool.completedAt = result.completedAt;
+
+    // Update permission data if provided by backend
+    if (result.permissions) {
+        // Merge with existing permission to preserve decision field from agentState
+        if (tool.permission) {
+            // Preserve existing decision if not provided in tool result
+            const existingDecision = tool.permission.decision;
+            tool.permission = {
+                ...tool.permission,
+                id: toolId,
+                status: result.permissions.result === 'approved' ? 'approved' : 'denied',
+                date: result.permissions.date,
+                mode: result.permissions.mode,
+                allowedTools: result.permissions.allowedTools,
+                decision: result.permissions.decision || existingDecision
+            };
+        } else {
+            tool.permission = {
+                id: toolId,
+                status: result.permissions.result === 'approved' ? 'approved' : 'denied',
+                date: result.permissions.date,
+                mode: result.permissions.mode,
+                allowedTools: result.permissions.allowedTools,
+                decision: result.permissions.decision
+            };
+        }
+    }
+    return true;
+}
+
 function allocateId() {
     return Math.random().toString(36).substring(2, 15);
 }
@@ -1114,7 +1160,8 @@ function convertReducerMessageToMessage(reducerMsg: ReducerMessage, state: Reduc
             createdAt: reducerMsg.createdAt,
             kind: 'agent-text',
             text: reducerMsg.text,
-            meta: reducerMsg.meta
+            meta: reducerMsg.meta,
+            ...(reducerMsg.artifacts && { artifacts: reducerMsg.artifacts })
         };
     } else if (reducerMsg.role === 'agent' && reducerMsg.tool !== null) {
         // Convert children recursively
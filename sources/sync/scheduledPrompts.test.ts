@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { getDueRun, lastRunAtOrBefore, nextRunAfter, parseSchedule, ScheduledPrompt } from './scheduledPrompts';
+
+function at(year: number, month: number, day: number, hour: number, minute: number): number {
+    return new Date(year, month - 1, day, hour, minute).getTime();
+}
+
+function prompt(fields: Partial<ScheduledPrompt>): ScheduledPrompt {
+    return {
+        id: 'p1',
+        title: 'CI',
+        prompt: 'Check CI and fix failing tests',
+        schedule: '0 9 * * 1-5',
+        target: { type: 'session', sessionId: 's1' },
+        paused: false,
+        createdAt: 0,
+        updatedAt: 0,
+        lastRun: null,
+        ...fields
+    };
+}
+
+describe('parseSchedule', () => {
+    it('should parse lists, ranges, steps, names and aliases', () => {
+        const schedule = parseSchedule('*/15 9-17 * jan-mar mon,fri')!;
+        expect(Array.from(schedule.minutes)).toEqual([0, 15, 30, 45]);
+        expect(schedule.hours.size).toBe(9);
+        expect(Array.from(schedule.months)).toEqual([1, 2, 3]);
+        expect(Array.from(schedule.weekdays)).toEqual([1, 5]);
+        expect(Array.from(parseSchedule('0 0 * * 7')!.weekdays)).toEqual([0]);
+        expect(parseSchedule('@daily')!.hours.has(0)).toBe(true);
+    });
+
+    it('should reject invalid expressions', () => {
+        expect(parseSchedule('')).toBeNull();
+        expect(parseSchedule('* * * *')).toBeNull();
+        expect(parseSchedule('60 * * * *')).toBeNull();
+        expect(parseSchedule('*/0 * * * *')).toBeNull();
+        expect(parseSchedule('5-1 * * * *')).toBeNull();
+        expect(parseSchedule('0 9 * * funday')).toBeNull();
+    });
+});
+
+describe('nextRunAfter and lastRunAtOrBefore', () => {
+    it('should find weekday mornings', () => {
+        const schedule = parseSchedule('0 9 * * 1-5')!;
+        // Friday 2026-10-16 at 10:00, next is Monday
+        expect(nextRunAfter(schedule, at(2026, 10, 16, 10, 0))).toBe(at(2026, 10, 19, 9, 0));
+        expect(nextRunAfter(schedule, at(2026, 10, 19, 9, 0))).toBe(at(2026, 10, 20, 9, 0));
+        // Sunday evening, latest is Friday
+        expect(lastRunAtOrBefore(schedule, at(2026, 10, 18, 20, 0))).toBe(at(2026, 10, 16, 9, 0));
+        expect(lastRunAtOrBefore(schedule, at(2026, 10, 19, 9, 0))).toBe(at(2026, 10, 19, 9, 0));
+    });
+
+    it('should match either day field when both are restricted', () => {
+        const schedule = parseSchedule('30 8 1 * sun')!;
+        // 2026-11-01 is a Sunday, 2026-11-08 the next one
+        expect(nextRunAfter(schedule, at(2026, 10, 31, 12, 0))).toBe(at(2026, 11, 1, 8, 30));
+        expect(nextRunAfter(schedule, at(2026, 11, 1, 9, 0))).toBe(at(2026, 11, 8, 8, 30));
+        expect(nextRunAfter(parseSchedule('0 0 29 2 *')!, at(2026, 3, 1, 0, 0))).toBe(at(2028, 2, 29, 0, 0));
+    });
+});
+
+describe('getDueRun', () => {
+    const monday = at(2026, 10, 19, 9, 0);
+
+    it('should run an occurrence once', () => {
+        expect(getDueRun(prompt({}), monday + 30 * 1000)).toBe(monday);
+        expect(getDueRun(prompt({ lastRun: {
+            scheduledFor: monday, startedAt: monday, finishedAt: monday, status: 'success', sessionId: 's1', error: null
+        } }), monday + 60 * 1000)).toBeNull();
+        expect(getDueRun(prompt({ paused: true }), monday)).toBeNull();
+    });
+
+    it('should skip occurrences before the last change and outside the grace period', () => {
+        expect(getDueRun(prompt({ updatedAt: monday + 1000 }), monday + 2000)).toBeNull();
+        expect(getDueRun(prompt({}), at(2026, 10, 19, 14, 0))).toBe(monday);
+        expect(getDueRun(prompt({}), at(2026, 10, 19, 16, 0))).toBeNull();
+    });
+});
@@ -0,0 +1,220 @@
+/**
+ * Prompts that are sent to an agent on a cron-like schedule
+ * Schedules are evaluated in the local time of the device that runs them, a prompt either goes to
+ * an existing session or to a new session spawned on a machine and path
+ */
+
+export type ScheduledPromptTarget =
+    | { type: 'session'; sessionId: string }
+    | { type: 'spawn'; machineId: string; path: string; agent: 'claude' | 'codex' | 'gemini' };
+
+export interface ScheduledPromptRun {
+    scheduledFor: number; // Occurrence of the schedule this run belongs to
+    startedAt: number;
+    finishedAt: number | null;
+    status: 'running' | 'success' | 'error';
+    sessionId: string | null; // Session the prompt was sent to
+    error: string | null;
+}
+
+export interface ScheduledPrompt {
+    id: string;
+    title: string;
+    prompt: string;
+    schedule: string; // Five field cron expression or one of the @ aliases
+    target: ScheduledPromptTarget;
+    paused: boolean;
+    createdAt: number;
+    updatedAt: number; // Occurrences before the last change are never run
+    lastRun: ScheduledPromptRun | null;
+}
+
+export interface ScheduledPromptsState {
+    prompts: Record<string, ScheduledPrompt>;
+    versions: Record<string, number>; // KV versions of the prompts
+}
+
+export interface CronSchedule {
+    minutes: Set<number>;
+    hours: Set<number>;
+    days: Set<number>;
+    months: Set<number>;
+    weekdays: Set<number>;
+    anyDay: boolean;
+    anyWeekday: boolean;
+}
+
+// Missed occurrences older than this are skipped instead of being run late
+export const MISSED_RUN_GRACE = 6 * 60 * 60 * 1000;
+
+const SEARCH_STEPS = 50000;
+
+const ALIASES: Record<string, string> = {
+    '@hourly': '0 * * * *',
+    '@daily': '0 0 * * *',
+    '@midnight': '0 0 * * *',
+    '@weekly': '0 0 * * 0',
+    '@monthly': '0 0 1 * *',
+    '@yearly': '0 0 1 1 *',
+    '@annually': '0 0 1 1 *',
+};
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const WEEKDAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+function parseValue(text: string, min: number, names?: string[]): number {
+    const name = names?.indexOf(text.toLowerCase()) ?? -1;
+    if (name !== -1) {
+        return name + min;
+    }
+    return /^\d+$/.test(text) ? parseInt(text, 10) : NaN;
+}
+
+function parseField(text: string, min: number, max: number, names?: string[]): Set<number> | null {
+    const values = new Set<number>();
+    for (const part of text.split(',')) {
+        const [range, stepText, ...rest] = part.split('/');
+        const step = stepText === undefined ? 1 : parseValue(stepText, 0);
+        if (rest.length > 0 || !(step >= 1)) {
+            return null;
+        }
+        let low: number;
+        let high: number;
+        if (range === '*') {
+            low = min;
+            high = max;
+        } else if (range.includes('-')) {
+            const [from, to] = range.split('-');
+            low = parseValue(from, min, names);
+            high = parseValue(to, min, names);
+        } else {
+            low = parseValue(range, min, names);
+            high = stepText === undefined ? low : max;
+        }
+        if (Number.isNaN(low) || Number.isNaN(high) || low < min || high > max || low > high) {
+            return null;
+        }
+        for (let value = low; value <= high; value += step) {
+            values.add(value);
+        }
+    }
+    return values;
+}
+
+/**
+ * Parse "minute hour day-of-month month day-of-week", null when the expression is invalid
+ */
+export function parseSchedule(expression: string): CronSchedule | null {
+    const normalized = expression.trim().toLowerCase();
+    const fields = (ALIASES[normalized] ?? normalized).split(/\s+/);
+    if (fields.length !== 5) {
+        return null;
+    }
+    const minutes = parseField(fields[0], 0, 59);
+    const hours = parseField(fields[1], 0, 23);
+    const days = parseField(fields[2], 1, 31);
+    const months = parseField(fields[3], 1, 12, MONTH_NAMES);
+    const weekdays = parseField(fields[4], 0, 7, WEEKDAY_NAMES);
+    if (!minutes || !hours || !days || !months || !weekdays) {
+        return null;
+    }
+    // Sunday is both 0 and 7
+    if (weekdays.delete(7)) {
+        weekdays.add(0);
+    }
+    return {
+        minutes, hours, days, months, weekdays,
+        anyDay: fields[2] === '*',
+        anyWeekday: fields[4] === '*'
+    };
+}
+
+// Like cron, a day matches either field when both are restricted
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+    const day = schedule.days.has(date.getDate());
+    const weekday = schedule.weekdays.has(date.getDay());
+    if (schedule.anyDay && schedule.anyWeekday) {
+        return true;
+    }
+    if (schedule.anyDay) {
+        return weekday;
+    }
+    if (schedule.anyWeekday) {
+        return day;
+    }
+    return day || weekday;
+}
+
+/**
+ * First occurrence after the given time, null when there is none within years
+ */
+export function nextRunAfter(schedule: CronSchedule, after: number): number | null {
+    const date = new Date(after);
+    date.setSeconds(0, 0);
+    date.setMinutes(date.getMinutes() + 1);
+    for (let step = 0; step < SEARCH_STEPS; step++) {
+        if (!schedule.months.has(date.getMonth() + 1)) {
+            date.setMonth(date.getMonth() + 1, 1);
+            date.setHours(0, 0, 0, 0);
+        } else if (!matchesDay(schedule, date)) {
+            date.setDate(date.getDate() + 1);
+            date.setHours(0, 0, 0, 0);
+        } else if (!schedule.hours.has(date.getHours())) {
+            date.setHours(date.getHours() + 1, 0, 0, 0);
+        } else if (!schedule.minutes.has(date.getMinutes())) {
+            date.setMinutes(date.getMinutes() + 1, 0, 0);
+        } else {
+            return date.getTime();
+        }
+    }
+    return null;
+}
+
+/**
+ * Latest occurrence at or before the given time, null when there is none within years
+ */
+export function lastRunAtOrBefore(schedule: CronSchedule, at: number): number | null {
+    const date = new Date(at);
+    date.setSeconds(0, 0);
+    for (let step = 0; step < SEARCH_STEPS; step++) {
+        // Going back a minute from midnight lands on the last minute of the previous day
+        if (!schedule.months.has(date.getMonth() + 1)) {
+            date.setDate(1);
+            date.setHours(0, -1, 0, 0);
+        } else if (!matchesDay(schedule, date)) {
+            date.setHours(0, -1, 0, 0);
+        } else if (!schedule.hours.has(date.getHours())) {
+            date.setMinutes(-1, 0, 0);
+        } else if (!schedule.minutes.has(date.getMinutes())) {
+            date.setMinutes(date.getMinutes() - 1, 0, 0);
+        } else {
+            return date.getTime();
+        }
+    }
+    return null;
+}
+
+export function getNextRun(prompt: ScheduledPrompt, now: number): number | null {
+    const schedule = parseSchedule(prompt.schedule);
+    if (prompt.paused || !schedule) {
+        return null;
+    }
+    return nextRunAfter(schedule, now);
+}
+
+/**
+ * Occurrence that should run now, null when the prompt isn't due. Only the latest missed
+ * occurrence is run and only within the grace period, older ones are skipped
+ */
+export function getDueRun(prompt: ScheduledPrompt, now: number): number | null {
+    const schedule = parseSchedule(prompt.schedule);
+    if (prompt.paused || !schedule) {
+        return null;
+    }
+    const latest = lastRunAtOrBefore(schedule, now);
+    if (latest === null || now - latest > MISSED_RUN_GRACE) {
+        return null;
+    }
+    const handledUntil = Math.max(prompt.updatedAt, prompt.lastRun?.scheduledFor ?? 0);
+    return latest > handledUntil ? latest : null;
+}
@@ -0,0 +1,170 @@
+import { AuthCredentials } from '@/auth/tokenStorage';
+import { randomUUID } from 'expo-crypto';
+import { AsyncLock } from '@/utils/lock';
+import { sync } from './sync';
+import { storage } from './storage';
+import { KvCollection } from './kvCollection';
+import { machineSpawnNewSession } from './ops';
+import { getDueRun, ScheduledPrompt, ScheduledPromptRun, ScheduledPromptsState } from './scheduledPrompts';
+
+//
+// Scheduled prompts are stored encrypted in the KV store, one key per prompt. Runs are claimed
+// by writing the run with the known version of the prompt, so an occurrence runs on one device only
+//
+
+const scheduleLock = new AsyncLock();
+
+export type ScheduledPromptFields = Pick<ScheduledPrompt, 'title' | 'prompt' | 'schedule' | 'target'>;
+
+function currentState(): ScheduledPromptsState {
+    return storage.getState().scheduledPrompts ?? { prompts: {}, versions: {} };
+}
+
+const prompts = new KvCollection<ScheduledPrompt>({
+    prefix: 'schedule.',
+    name: 'scheduled prompt',
+    getState: () => {
+        const state = currentState();
+        return { items: state.prompts, versions: state.versions };
+    },
+    applyState: (state) => storage.getState().applyScheduledPrompts({ prompts: state.items, versions: state.versions })
+});
+
+export function isScheduleKey(key: string): boolean {
+    return prompts.isKey(key);
+}
+
+export async function refreshScheduledPrompts(credentials: AuthCredentials): Promise<void> {
+    await prompts.refresh(credentials);
+}
+
+//
+// Mutation Functions
+//
+
+export async function createScheduledPrompt(credentials: AuthCredentials, fields: ScheduledPromptFields): Promise<string> {
+    const now = Date.now();
+    const prompt: ScheduledPrompt = {
+        id: randomUUID(),
+        ...fields,
+        paused: false,
+        createdAt: now,
+        updatedAt: now,
+        lastRun: null
+    };
+    await scheduleLock.inLock(() => prompts.create(credentials, prompt));
+    return prompt.id;
+}
+
+export async function updateScheduledPrompt(
+    credentials: AuthCredentials,
+    id: string,
+    changes: Partial<ScheduledPromptFields & { paused: boolean }>
+): Promise<void> {
+    await scheduleLock.inLock(() => prompts.update(credentials, id, (prompt) => ({
+        ...prompt,
+        ...changes,
+        updatedAt: Date.now()
+    })));
+}
+
+export async function deleteScheduledPrompt(credentials: AuthCredentials, id: string): Promise<void> {
+    await scheduleLock.inLock(() => prompts.delete(credentials, id));
+}
+
+//
+// Running
+//
+
+/**
+ * Send the prompt to its session, or spawn the session first. Returns the id of the session
+ */
+// sendMessage gives up silently when the session's keys or state aren't loaded yet
+async function sendPromptTo(sessionId: string, text: string): Promise<void> {
+    if (!await sync.sendMessage(sessionId, text)) {
+        throw new Error('Session is not ready to receive messages');
+    }
+}
+
+async function sendScheduledPrompt(prompt: ScheduledPrompt): Promise<string> {
+    const target = prompt.target;
+    if (target.type === 'session') {
+        const session = storage.getState().sessions[target.sessionId];
+        if (!session) {
+            throw new Error('Session not found');
+        }
+        if (!session.active) {
+            throw new Error('Session is not active');
+        }
+        await sendPromptTo(target.sessionId, prompt.prompt);
+        return target.sessionId;
+    }
+
+    const result = await machineSpawnNewSession({
+        machineId: target.machineId,
+        directory: target.path,
+        agent: target.agent
+    });
+    if (result.type !== 'success') {
+        throw new Error(result.type === 'error' ? result.errorMessage : `Directory ${target.path} does not exist`);
+    }
+    await sync.refreshSessions();
+    await sendPromptTo(result.sessionId, prompt.prompt);
+    return result.sessionId;
+}
+
+async function runPrompt(credentials: AuthCredentials, id: string, scheduledFor: number): Promise<void> {
+    const prompt = currentState().prompts[id];
+    if (!prompt) {
+        return;
+    }
+    const started: ScheduledPromptRun = {
+        scheduledFor,
+        startedAt: Date.now(),
+        finishedAt: null,
+        status: 'running',
+        sessionId: null,
+        error: null
+    };
+    if (!await prompts.write(credentials, { ...prompt, lastRun: started })) {
+        // Claimed by another device or changed, the refetched prompt tells whether it's still due
+        await refreshScheduledPrompts(credentials);
+        return;
+    }
+
+    let run: ScheduledPromptRun;
+    try {
+        const sessionId = await sendScheduledPrompt(prompt);
+        run = { ...started, finishedAt: Date.now(), status: 'success', sessionId };
+    } catch (error) {
+        run = { ...started, finishedAt: Date.now(), status: 'error', error: error instanceof Error ? error.message : String(error) };
+    }
+    await prompts.update(credentials, id, (latest) => ({ ...latest, lastRun: run }));
+}
+
+/**
+ * Run a prompt right away, outside of its schedule
+ */
+export async function runScheduledPromptNow(credentials: AuthCredentials, id: string): Promise<void> {
+    await scheduleLock.inLock(() => runPrompt(credentials, id, Date.now()));
+}
+
+/**
+ * Run every prompt with a due occurrence, called periodically while the app is open
+ */
+export async function runDueScheduledPrompts(credentials: AuthCredentials): Promise<void> {
+    await scheduleLock.inLock(async () => {
+        const now = Date.now();
+        for (const prompt of Object.values(currentState().prompts)) {
+            const scheduledFor = getDueRun(prompt, now);
+            if (scheduledFor === null) {
+                continue;
+            }
+            try {
+                await runPrompt(credentials, prompt.id, scheduledFor);
+            } catch (error) {
+                console.error(`Failed to run scheduled prompt ${prompt.id}:`, error);
+            }
+        }
+    });
+}
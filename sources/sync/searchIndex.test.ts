@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { MessageSearchIndex } from './searchIndex';
+import { Message } from './typesMessage';
+
+function userText(id: string, text: string, createdAt: number): Message {
+    return { kind: 'user-text', id, localId: null, createdAt, text };
+}
+
+function agentText(id: string, text: string, createdAt: number): Message {
+    return { kind: 'agent-text', id, localId: null, createdAt, text };
+}
+
+function toolCall(id: string, name: string, input: any, createdAt: number, children: Message[] = []): Message {
+    return {
+        kind: 'tool-call',
+        id,
+        localId: null,
+        createdAt,
+        tool: { name, state: 'completed', input, createdAt, startedAt: null, completedAt: null, description: null },
+        children
+    };
+}
+
+describe('MessageSearchIndex', () => {
+    it('should find messages containing all query words grouped by session', () => {
+        const index = new MessageSearchIndex();
+        index.indexMessages('s1', [
+            userText('m1', 'Please fix the migration bug', 1),
+            agentText('m2', 'The migration now runs in a transaction', 2),
+        ]);
+        index.indexMessages('s2', [
+            userText('m3', 'Add a migration for users', 3),
+        ]);
+
+        const results = index.search('migration');
+        expect(results.map((r) => r.sessionId)).toEqual(['s2', 's1']);
+        expect(results[1].hits.map((h) => h.messageId)).toEqual(['m2', 'm1']);
+
+        const narrowed = index.search('fix migration');
+        expect(narrowed).toHaveLength(1);
+        expect(narrowed[0].hits[0].messageId).toBe('m1');
+        expect(narrowed[0].hits[0].kind).toBe('user');
+    });
+
+    it('should match the last word as a prefix', () => {
+        const index = new MessageSearchIndex();
+        index.indexMessages('s1', [agentText('m1', 'Refactored the reducer', 1)]);
+        expect(index.search('reduc')).toHaveLength(1);
+        expect(index.search('reduc the')).toHaveLength(0);
+    });
+
+    it('should index tool names, file paths and sidechain children', () => {
+        const index = new MessageSearchIndex();
+        index.indexMessages('s1', [
+            toolCall('t1', 'Edit', { file_path: '/src/db/migrate.ts' }, 1),
+            toolCall('t2', 'Task', { prompt: 'explore' }, 2, [agentText('c1', 'Found the websocket handler', 3)]),
+        ]);
+        expect(index.search('migrate.ts')[0].hits[0].messageId).toBe('t1');
+        expect(index.search('edit')[0].hits[0].kind).toBe('tool');
+        expect(index.search('websocket')[0].hits[0].messageId).toBe('t2');
+    });
+
+    it('should replace updated messages and drop removed sessions', () => {
+        const index = new MessageSearchIndex();
+        index.indexMessages('s1', [agentText('m1', 'first draft', 1)]);
+        index.indexMessages('s1', [agentText('m1', 'final version', 1)]);
+        expect(index.search('draft')).toHaveLength(0);
+        expect(index.search('final')).toHaveLength(1);
+
+        index.removeSession('s1');
+        expect(index.search('final')).toHaveLength(0);
+        expect(index.hasSession('s1')).toBe(false);
+    });
+
+    it('should build snippets around the match', () => {
+        const index = new MessageSearchIndex();
+        const text = 'a'.repeat(100) + ' needle ' + 'b'.repeat(100);
+        index.indexMessages('s1', [agentText('m1', text, 1)]);
+        const snippet = index.search('needle')[0].hits[0].snippet;
+        expect(snippet).toContain('needle');
+        expect(snippet.startsWith('…')).toBe(true);
+        expect(snippet.endsWith('…')).toBe(true);
+    });
+});
@@ -0,0 +1,245 @@
+/**
+ * Local full-text index over decrypted session messages
+ * Messages are indexed as they are applied to storage and never leave the device
+ */
+
+import type { Message } from './typesMessage';
+
+//
+// Types
+//
+
+export type SearchHitKind = 'user' | 'agent' | 'tool';
+
+export interface SearchHit {
+    sessionId: string;
+    messageId: string;
+    createdAt: number;
+    kind: SearchHitKind;
+    snippet: string;
+}
+
+export interface SessionSearchResult {
+    sessionId: string;
+    hits: SearchHit[];
+}
+
+interface IndexedDocument {
+    sessionId: string;
+    messageId: string;
+    createdAt: number;
+    kind: SearchHitKind;
+    text: string;
+    tokens: string[];
+}
+
+// Tool input fields that carry file paths or commands worth finding
+const TOOL_INPUT_FIELDS = ['file_path', 'notebook_path', 'path', 'command', 'pattern', 'url'];
+const SNIPPET_RADIUS = 40;
+
+//
+// Text extraction
+//
+
+export function tokenize(text: string): string[] {
+    return text.toLowerCase().split(/[^\p{L}\p{N}_]+/u).filter((token) => token.length > 0);
+}
+
+function extractDocuments(sessionId: string, message: Message): IndexedDocument[] {
+    const documents: IndexedDocument[] = [];
+    const push = (kind: SearchHitKind, text: string) => {
+        if (text.trim().length > 0) {
+            documents.push({ sessionId, messageId: message.id, createdAt: message.createdAt, kind, text, tokens: tokenize(text) });
+        }
+    };
+    if (message.kind === 'user-text') {
+        push('user', message.displayText || message.text);
+    } else if (message.kind === 'agent-text') {
+        push('agent', message.text);
+    } else if (message.kind === 'tool-call') {
+        const parts = [message.tool.name];
+        if (message.tool.description) {
+            parts.push(message.tool.description);
+        }
+        const input = message.tool.input;
+        if (input && typeof input === 'object') {
+            for (const field of TOOL_INPUT_FIELDS) {
+                if (typeof input[field] === 'string') {
+                    parts.push(input[field]);
+                }
+            }
+        }
+        push('tool', parts.join(' '));
+
+        // Sidechain messages are only reachable through their Task, so hits jump to the Task
+        for (const child of message.children) {
+            for (const document of extractDocuments(sessionId, child)) {
+                documents.push({ ...document, messageId: message.id });
+            }
+        }
+    }
+    return documents;
+}
+
+function buildSnippet(text: string, query: string[]): string {
+    const lower = text.toLowerCase();
+    let position = -1;
+    for (const token of query) {
+        position = lower.indexOf(token);
+        if (position !== -1) {
+            break;
+        }
+    }
+    const flat = (s: string) => s.replace(/\s+/g, ' ').trim();
+    if (position === -1) {
+        return flat(text.slice(0, SNIPPET_RADIUS * 2));
+    }
+    const start = Math.max(0, position - SNIPPET_RADIUS);
+    const end = Math.min(text.length, position + SNIPPET_RADIUS);
+    return (start > 0 ? '…' : '') + flat(text.slice(start, end)) + (end < text.length ? '…' : '');
+}
+
+//
+// Main Class
+//
+
+export class MessageSearchIndex {
+    private documents = new Map<string, IndexedDocument[]>(); // sessionId:messageId -> documents
+    private postings = new Map<string, Set<string>>(); // token -> document keys
+    private sessionKeys = new Map<string, Set<string>>(); // sessionId -> document keys
+
+    /**
+     * Index new or updated messages, replacing whatever was indexed for them before
+     */
+    indexMessages(sessionId: string, messages: Message[]) {
+        for (const message of messages) {
+            const key = `${sessionId}:${message.id}`;
+            this.removeDocument(key);
+            const documents = extractDocuments(sessionId, message);
+            if (documents.length === 0) {
+                continue;
+            }
+            this.documents.set(key, documents);
+            let keys = this.sessionKeys.get(sessionId);
+            if (!keys) {
+                keys = new Set();
+                this.sessionKeys.set(sessionId, keys);
+            }
+            keys.add(key);
+            for (const document of documents) {
+                for (const token of document.tokens) {
+                    let posting = this.postings.get(token);
+                    if (!posting) {
+                        posting = new Set();
+                        this.postings.set(token, posting);
+                    }
+                    posting.add(key);
+                }
+            }
+        }
+    }
+
+    hasSession(sessionId: string): boolean {
+        return this.sessionKeys.has(sessionId);
+    }
+
+    removeSession(sessionId: string) {
+        const keys = this.sessionKeys.get(sessionId);
+        if (!keys) {
+            return;
+        }
+        for (const key of keys) {
+            this.removeDocument(key);
+        }
+        this.sessionKeys.delete(sessionId);
+    }
+
+    /**
+     * Find messages containing every word of the query, the last word may be a prefix.
+     * Results are grouped by session, newest hits first.
+     */
+    search(query: string, limit: number = 200): SessionSearchResult[] {
+        const tokens = tokenize(query);
+        if (tokens.length === 0) {
+            return [];
+        }
+
+        // Intersect postings of all query words
+        let candidates: Set<string> | null = null;
+        for (let i = 0; i < tokens.length; i++) {
+            const matches = i === tokens.length - 1 ? this.prefixPostings(tokens[i]) : (this.postings.get(tokens[i]) ?? new Set<string>());
+            if (candidates === null) {
+                candidates = new Set(matches);
+            } else {
+                const current: Set<string> = candidates;
+                candidates = new Set(Array.from(matches).filter((key) => current.has(key)));
+            }
+            if (candidates.size === 0) {
+                return [];
+            }
+        }
+
+        // Collect hits
+        const hits: SearchHit[] = [];
+        for (const key of candidates!) {
+            const documents = this.documents.get(key)!;
+            const document = documents.find((d) => tokens.every((token, i) => i === tokens.length - 1
+                ? d.tokens.some((t) => t.startsWith(token))
+                : d.tokens.includes(token))) ?? documents[0];
+            hits.push({
+                sessionId: document.sessionId,
+                messageId: document.messageId,
+                createdAt: document.createdAt,
+                kind: document.kind,
+                snippet: buildSnippet(document.text, tokens)
+            });
+        }
+        hits.sort((a, b) => b.createdAt - a.createdAt);
+
+        // Group by session, keeping order of the newest hit
+        const grouped = new Map<string, SearchHit[]>();
+        for (const hit of hits.slice(0, limit)) {
+            let group = grouped.get(hit.sessionId);
+            if (!group) {
+                group = [];
+                grouped.set(hit.sessionId, group);
+            }
+            group.push(hit);
+        }
+        return Array.from(grouped.entries()).map(([sessionId, sessionHits]) => ({ sessionId, hits: sessionHits }));
+    }
+
+    private prefixPostings(prefix: string): Set<string> {
+        const result = new Set<string>();
+        for (const [token, keys] of this.postings) {
+            if (token.startsWith(prefix)) {
+                for (const key of keys) {
+                    result.add(key);
+                }
+            }
+        }
+        return result;
+    }
+
+    private removeDocument(key: string) {
+        const documents = this.documents.get(key);
+        if (!documents) {
+            return;
+        }
+        for (const document of documents) {
+            for (const token of document.tokens) {
+                const posting = this.postings.get(token);
+                if (posting) {
+                    posting.delete(key);
+                    if (posting.size === 0) {
+                        this.postings.delete(token);
+                    }
+                }
+            }
+        }
+        this.documents.delete(key);
+        this.sessionKeys.get(documents[0].sessionId)?.delete(key);
+    }
+}
+
+export const searchIndex = new MessageSearchIndex();
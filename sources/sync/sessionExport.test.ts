@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { exportSession, exportSessionHTML, exportSessionJSON, exportSessionMarkdown, SessionExportInput } from './sessionExport';
+import { Message } from './typesMessage';
+import { Session } from './storageTypes';
+
+const session = {
+    id: 'abcdef1234567890',
+    createdAt: 0,
+    updatedAt: 0,
+    metadata: { path: '/home/user/project', host: 'laptop' },
+    latestUsage: { inputTokens: 10, outputTokens: 20, cacheCreation: 0, cacheRead: 5, contextSize: 35, timestamp: 0 },
+} as unknown as Session;
+
+const messages: Message[] = [
+    { kind: 'agent-text', id: 'm2', localId: null, createdAt: 2000, text: 'Running the migration' },
+    { kind: 'user-text', id: 'm1', localId: null, createdAt: 1000, text: 'Fix the <migration>' },
+    {
+        kind: 'tool-call',
+        id: 'm3',
+        localId: null,
+        createdAt: 3000,
+        tool: {
+            name: 'Bash',
+            state: 'completed',
+            input: { command: 'echo ```' },
+            createdAt: 3000,
+            startedAt: 3000,
+            completedAt: 3500,
+            description: 'Run migration',
+            result: 'done',
+            permission: { id: 'm3', status: 'approved', decision: 'approved_for_session' }
+        },
+        children: [
+            { kind: 'agent-text', id: 'c1', localId: null, createdAt: 3100, text: 'Inside the sidechain' }
+        ]
+    },
+];
+
+const input: SessionExportInput = { title: 'Migration fix', session, messages, exportedAt: 0 };
+
+describe('sessionExport', () => {
+    it('should render markdown chronologically with tools, permissions and sidechains', () => {
+        const markdown = exportSessionMarkdown(input);
+        expect(markdown.indexOf('Fix the <migration>')).toBeLessThan(markdown.indexOf('Running the migration'));
+        expect(markdown).toContain('## Tool: Bash (completed)');
+        expect(markdown).toContain('Permission: approved, decision: approved_for_session');
+        expect(markdown).toContain('### Assistant');
+        expect(markdown).toContain('Inside the sidechain');
+        expect(markdown).toContain('- Tokens: 10 input, 20 output');
+        // Fence must be longer than the backticks inside the input
+        expect(markdown).toContain('````json');
+    });
+
+    it('should keep the full message tree in JSON', () => {
+        const parsed = JSON.parse(exportSessionJSON(input));
+        expect(parsed.format).toBe('happy-session-export');
+        expect(parsed.messages.map((m: Message) => m.id)).toEqual(['m1', 'm2', 'm3']);
+        expect(parsed.messages[2].children[0].text).toBe('Inside the sidechain');
+        expect(parsed.messages[2].tool.permission.decision).toBe('approved_for_session');
+        expect(parsed.session.latestUsage.contextSize).toBe(35);
+    });
+
+    it('should escape html content', () => {
+        const html = exportSessionHTML(input);
+        expect(html).toContain('Fix the &lt;migration&gt;');
+        expect(html).not.toContain('<migration>');
+        expect(html).toContain('<details class="tool completed">');
+    });
+
+    it('should name files after the session', () => {
+        expect(exportSession('markdown', input).fileName).toBe('migration-fix-abcdef12.md');
+        expect(exportSession('json', input).mimeType).toBe('application/json');
+        expect(exportSession('html', input).fileName.endsWith('.html')).toBe(true);
+    });
+});
@@ -0,0 +1,305 @@
+/**
+ * Session transcript export
+ * Walks the reduced message tree (including sidechains of Task tools) and renders it
+ * as Markdown, lossless JSON or a self-contained HTML page
+ */
+
+import type { Session } from './storageTypes';
+import type { Message, ToolCall } from './typesMessage';
+
+//
+// Types
+//
+
+export type ExportFormat = 'markdown' | 'json' | 'html';
+
+export interface SessionExportInput {
+    title: string;
+    session: Session;
+    messages: Message[]; // Any order, exported chronologically
+    exportedAt?: number;
+}
+
+export interface SessionExportFile {
+    content: string;
+    fileName: string;
+    mimeType: string;
+    uti: string;
+}
+
+export const SESSION_EXPORT_FORMAT = 'happy-session-export';
+export const SESSION_EXPORT_VERSION = 1;
+
+//
+// Helpers
+//
+
+function chronological(messages: Message[]): Message[] {
+    return [...messages].sort((a, b) => a.createdAt - b.createdAt);
+}
+
+function formatTime(timestamp: number): string {
+    return new Date(timestamp).toISOString();
+}
+
+function stringify(value: any): string {
+    if (value === undefined || value === null) {
+        return '';
+    }
+    if (typeof value === 'string') {
+        return value;
+    }
+    try {
+        return JSON.stringify(value, null, 2);
+    } catch {
+        return String(value);
+    }
+}
+
+function describeEvent(message: Extract<Message, { kind: 'agent-event' }>): string {
+    const event = message.event;
+    switch (event.type) {
+        case 'switch':
+            return `Switched to ${event.mode} mode`;
+        case 'message':
+            return event.message;
+        case 'limit-reached':
+            return `Usage limit reached until ${formatTime(event.endsAt * 1000)}`;
+        case 'ready':
+            return 'Ready';
+    }
+}
+
+function describePermission(tool: ToolCall): string | null {
+    if (!tool.permission) {
+        return null;
+    }
+    const parts: string[] = [tool.permission.status];
+    if (tool.permission.decision) {
+        parts.push(`decision: ${tool.permission.decision}`);
+    }
+    if (tool.permission.mode) {
+        parts.push(`mode: ${tool.permission.mode}`);
+    }
+    if (tool.permission.reason) {
+        parts.push(`reason: ${tool.permission.reason}`);
+    }
+    return parts.join(', ');
+}
+
+function describeUsage(session: Session): string | null {
+    const usage = session.latestUsage;
+    if (!usage) {
+        return null;
+    }
+    return `${usage.inputTokens} input, ${usage.outputTokens} output, ${usage.cacheRead} cache read, ${usage.cacheCreation} cache creation, ${usage.contextSize} context`;
+}
+
+function fenced(text: string, language: string = ''): string {
+    // Use a longer fence than any backtick run inside the text
+    const longest = Math.max(2, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+    const fence = '`'.repeat(longest + 1);
+    return `${fence}${language}\n${text}\n${fence}`;
+}
+
+function fileSlug(title: string): string {
+    const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 48);
+    return slug || 'session';
+}
+
+//
+// Markdown
+//
+
+function markdownMessage(message: Message, depth: number): string[] {
+    const heading = '#'.repeat(Math.min(6, 2 + depth));
+    switch (message.kind) {
+        case 'user-text':
+            return [`${heading} User · ${formatTime(message.createdAt)}`, '', message.displayText || message.text, ''];
+        case 'agent-text':
+            return [`${heading} Assistant · ${formatTime(message.createdAt)}`, '', message.text, ''];
+        case 'agent-event':
+            return [`_${describeEvent(message)} · ${formatTime(message.createdAt)}_`, ''];
+        case 'tool-call': {
+            const tool = message.tool;
+            const lines = [`${heading} Tool: ${tool.name} (${tool.state}) · ${formatTime(message.createdAt)}`, ''];
+            if (tool.description) {
+                lines.push(tool.description, '');
+            }
+            const permission = describePermission(tool);
+            if (permission) {
+                lines.push(`Permission: ${permission}`, '');
+            }
+            if (tool.input !== undefined && tool.input !== null) {
+                lines.push('Input:', '', fenced(stringify(tool.input), 'json'), '');
+            }
+            if (tool.result !== undefined) {
+                lines.push('Result:', '', fenced(stringify(tool.result)), '');
+            }
+            for (const child of chronological(message.children)) {
+                lines.push(...markdownMessage(child, depth + 1));
+            }
+            return lines;
+        }
+    }
+}
+
+export function exportSessionMarkdown(input: SessionExportInput): string {
+    const { session } = input;
+    const lines = [`# ${input.title}`, ''];
+    lines.push(`- Session: ${session.id}`);
+    if (session.metadata?.path) {
+        lines.push(`- Path: ${session.metadata.host ? `${session.metadata.host}:` : ''}${session.metadata.path}`);
+    }
+    lines.push(`- Created: ${formatTime(session.createdAt)}`);
+    lines.push(`- Exported: ${formatTime(input.exportedAt ?? Date.now())}`);
+    const usage = describeUsage(session);
+    if (usage) {
+        lines.push(`- Tokens: ${usage}`);
+    }
+    lines.push('');
+    for (const message of chronological(input.messages)) {
+        lines.push(...markdownMessage(message, 0));
+    }
+    return lines.join('\n');
+}
+
+//
+// JSON
+//
+
+/**
+ * Lossless export, contains the reduced messages as they are stored in the app
+ */
+export function exportSessionJSON(input: SessionExportInput): string {
+    const { session } = input;
+    return JSON.stringify({
+        format: SESSION_EXPORT_FORMAT,
+        version: SESSION_EXPORT_VERSION,
+        exportedAt: input.exportedAt ?? Date.now(),
+        session: {
+            id: session.id,
+            title: input.title,
+            createdAt: session.createdAt,
+            updatedAt: session.updatedAt,
+            metadata: session.metadata,
+            latestUsage: session.latestUsage ?? null,
+        },
+        messages: chronological(input.messages),
+    }, null, 2);
+}
+
+//
+// HTML
+//
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+function htmlMessage(message: Message): string {
+    const time = `<time>${escapeHtml(formatTime(message.createdAt))}</time>`;
+    switch (message.kind) {
+        case 'user-text':
+            return `<div class="message user"><div class="role">User ${time}</div><div class="text">${escapeHtml(message.displayText || message.text)}</div></div>`;
+        case 'agent-text':
+            return `<div class="message agent"><div class="role">Assistant ${time}</div><div class="text">${escapeHtml(message.text)}</div></div>`;
+        case 'agent-event':
+            return `<div class="event">${escapeHtml(describeEvent(message))} ${time}</div>`;
+        case 'tool-call': {
+            const tool = message.tool;
+            const parts = [`<details class="tool ${tool.state}"><summary><b>${escapeHtml(tool.name)}</b> ${escapeHtml(tool.description ?? '')} <span class="state">${tool.state}</span> ${time}</summary>`];
+            const permission = describePermission(tool);
+            if (permission) {
+                parts.push(`<div class="permission">Permission: ${escapeHtml(permission)}</div>`);
+            }
+            if (tool.input !== undefined && tool.input !== null) {
+                parts.push(`<div class="label">Input</div><pre>${escapeHtml(stringify(tool.input))}</pre>`);
+            }
+            if (tool.result !== undefined) {
+                parts.push(`<div class="label">Result</div><pre>${escapeHtml(stringify(tool.result))}</pre>`);
+            }
+            if (message.children.length > 0) {
+                parts.push(`<div class="sidechain">${chronological(message.children).map(htmlMessage).join('\n')}</div>`);
+            }
+            parts.push('</details>');
+            return parts.join('\n');
+        }
+    }
+}
+
+const HTML_STYLE = `
+body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; max-width: 860px; margin: 0 auto; padding: 24px; color: #1c1c1e; background: #f2f2f7; }
+h1 { font-size: 22px; }
+.meta { color: #6e6e73; font-size: 13px; margin-bottom: 24px; }
+.message { background: #fff; border-radius: 12px; padding: 12px 16px; margin: 12px 0; }
+.message.user { background: #e5f0ff; }
+.role { font-weight: 600; font-size: 13px; margin-bottom: 6px; }
+time { color: #8e8e93; font-weight: 400; font-size: 12px; margin-left: 6px; }
+.text { white-space: pre-wrap; word-wrap: break-word; }
+.event { color: #6e6e73; font-size: 13px; text-align: center; margin: 12px 0; }
+.tool { background: #fff; border-radius: 12px; padding: 10px 16px; margin: 12px 0; border-left: 4px solid #34c759; }
+.tool.error { border-left-color: #ff3b30; }
+.tool.running { border-left-color: #ff9500; }
+.tool summary { cursor: pointer; }
+.state { color: #6e6e73; font-size: 12px; }
+.permission, .label { color: #6e6e73; font-size: 12px; margin-top: 8px; }
+pre { background: #f2f2f7; border-radius: 8px; padding: 8px; overflow-x: auto; font-size: 12px; white-space: pre-wrap; }
+.sidechain { border-left: 2px solid #d1d1d6; padding-left: 12px; margin-top: 8px; }
+@media (prefers-color-scheme: dark) {
+  body { background: #000; color: #f2f2f7; }
+  .message, .tool { background: #1c1c1e; }
+  .message.user { background: #0a2a4d; }
+  pre { background: #2c2c2e; }
+}
+`;
+
+export function exportSessionHTML(input: SessionExportInput): string {
+    const { session } = input;
+    const meta = [`Session ${session.id}`];
+    if (session.metadata?.path) {
+        meta.push(session.metadata.path);
+    }
+    meta.push(`Exported ${formatTime(input.exportedAt ?? Date.now())}`);
+    const usage = describeUsage(session);
+    if (usage) {
+        meta.push(`Tokens: ${usage}`);
+    }
+    return [
+        '<!DOCTYPE html>',
+        '<html>',
+        '<head>',
+        '<meta charset="utf-8">',
+        '<meta name="viewport" content="width=device-width, initial-scale=1">',
+        `<title>${escapeHtml(input.title)}</title>`,
+        `<style>${HTML_STYLE}</style>`,
+        '</head>',
+        '<body>',
+        `<h1>${escapeHtml(input.title)}</h1>`,
+        `<div class="meta">${meta.map(escapeHtml).join('<br>')}</div>`,
+        ...chronological(input.messages).map(htmlMessage),
+        '</body>',
+        '</html>',
+    ].join('\n');
+}
+
+//
+// Entry point
+//
+
+export function exportSession(format: ExportFormat, input: SessionExportInput): SessionExportFile {
+    const base = `${fileSlug(input.title)}-${input.session.id.slice(0, 8)}`;
+    switch (format) {
+        case 'markdown':
+            return { content: exportSessionMarkdown(input), fileName: `${base}.md`, mimeType: 'text/markdown', uti: 'net.daringfireball.markdown' };
+        case 'json':
+            return { content: exportSessionJSON(input), fileName: `${base}.json`, mimeType: 'application/json', uti: 'public.json' };
+        case 'html':
+            return { content: exportSessionHTML(input), fileName: `${base}.html`, mimeType: 'text/html', uti: 'public.html' };
+    }
+}
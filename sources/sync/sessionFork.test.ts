@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { buildForkSeed, buildForkSummary } from './sessionFork';
+import { Message } from './typesMessage';
+
+const messages: Message[] = [
+    { kind: 'user-text', id: 'u1', localId: null, createdAt: 1, text: 'Add a login page' },
+    { kind: 'agent-text', id: 'a1', localId: null, createdAt: 2, text: 'I will create the page' },
+    {
+        kind: 'tool-call',
+        id: 't1',
+        localId: null,
+        createdAt: 3,
+        tool: { name: 'Write', state: 'completed', input: { file_path: '/app/login.tsx' }, createdAt: 3, startedAt: 3, completedAt: 4, description: null },
+        children: []
+    },
+    { kind: 'user-text', id: 'u2', localId: null, createdAt: 5, text: 'Use OAuth instead' },
+    { kind: 'agent-text', id: 'a2', localId: null, createdAt: 6, text: 'Switching to OAuth' },
+];
+
+describe('sessionFork', () => {
+    it('should summarize only the conversation before the fork message', () => {
+        const summary = buildForkSummary(messages, 'u2');
+        expect(summary).toBe('User: Add a login page\nAssistant: I will create the page\nTool: Write /app/login.tsx');
+        expect(buildForkSummary(messages, 'u1')).toBe('');
+        expect(buildForkSummary(messages, 'missing')).toBeNull();
+    });
+
+    it('should drop the oldest lines when over the limit', () => {
+        const summary = buildForkSummary(messages, 'u2', 60);
+        expect(summary).toBe('[Earlier conversation omitted]\nAssistant: I will create the page\nTool: Write /app/login.tsx');
+    });
+
+    it('should seed the fork with a summary prompt and the message as draft', () => {
+        const seed = buildForkSeed(messages, 'u2', 'Login');
+        expect(seed?.draft).toBe('Use OAuth instead');
+        expect(seed?.prompt).toContain('("Login")');
+        expect(seed?.prompt).toContain('Tool: Write /app/login.tsx');
+        expect(seed?.prompt).not.toContain('Switching to OAuth');
+        expect(buildForkSeed(messages, 'a1', 'Login')).toBeNull();
+    });
+});
@@ -0,0 +1,96 @@
+/**
+ * Session forking
+ * A fork is a new session on the same machine and path, seeded with a summary of the
+ * parent conversation up to the selected user message. The message itself becomes the
+ * draft of the fork so it can be rephrased before sending
+ */
+
+import type { Message } from './typesMessage';
+
+export const FORK_SUMMARY_LIMIT = 12000;
+const AGENT_TEXT_LIMIT = 600;
+
+export interface ForkSeed {
+    prompt: string; // First message sent to the fork
+    draft: string; // Text of the message the fork was created from
+}
+
+function truncate(text: string, limit: number): string {
+    const trimmed = text.trim();
+    return trimmed.length > limit ? trimmed.slice(0, limit - 1) + '…' : trimmed;
+}
+
+function describeTool(message: Extract<Message, { kind: 'tool-call' }>): string {
+    const input = message.tool.input ?? {};
+    const target = input.file_path ?? input.notebook_path ?? input.path ?? input.command ?? input.pattern ?? input.url;
+    const parts = [message.tool.name];
+    if (typeof target === 'string') {
+        parts.push(truncate(target, 120));
+    }
+    if (message.tool.description) {
+        parts.push(`(${truncate(message.tool.description, 120)})`);
+    }
+    if (message.tool.state === 'error') {
+        parts.push('[failed]');
+    }
+    return parts.join(' ');
+}
+
+function summarizeMessage(message: Message): string | null {
+    switch (message.kind) {
+        case 'user-text':
+            return `User: ${(message.displayText || message.text).trim()}`;
+        case 'agent-text':
+            return `Assistant: ${truncate(message.text, AGENT_TEXT_LIMIT)}`;
+        case 'tool-call':
+            return `Tool: ${describeTool(message)}`;
+        case 'agent-event':
+            return null;
+    }
+}
+
+/**
+ * Summary of the conversation before the given message, oldest lines are dropped
+ * first when it doesn't fit into the limit
+ */
+export function buildForkSummary(messages: Message[], forkMessageId: string, limit: number = FORK_SUMMARY_LIMIT): string | null {
+    const forkMessage = messages.find((m) => m.id === forkMessageId);
+    if (!forkMessage) {
+        return null;
+    }
+    const lines = messages
+        .filter((m) => m.id !== forkMessageId && m.createdAt < forkMessage.createdAt)
+        .sort((a, b) => a.createdAt - b.createdAt)
+        .map(summarizeMessage)
+        .filter((line): line is string => line !== null);
+
+    const kept: string[] = [];
+    let length = 0;
+    for (let i = lines.length - 1; i >= 0; i--) {
+        if (length + lines[i].length > limit) {
+            kept.unshift('[Earlier conversation omitted]');
+            break;
+        }
+        kept.unshift(lines[i]);
+        length += lines[i].length + 1;
+    }
+    return kept.join('\n');
+}
+
+export function buildForkSeed(messages: Message[], forkMessageId: string, parentTitle: string): ForkSeed | null {
+    const forkMessage = messages.find((m) => m.id === forkMessageId);
+    if (!forkMessage || forkMessage.kind !== 'user-text') {
+        return null;
+    }
+    const summary = buildForkSummary(messages, forkMessageId);
+    const prompt = [
+        `This session is a fork of an earlier conversation ("${parentTitle}"). Here is a summary of that conversation up to the point where it was forked:`,
+        '',
+        '<conversation>',
+        summary || '(The fork starts at the beginning of the conversation)',
+        '</conversation>',
+        '',
+        'Use it as context only. Reply with a one sentence confirmation and wait for my next message.'
+    ].join('\n');
+    return { prompt, draft: forkMessage.text };
+}
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { applyPresenceEntry, permissionLockHolder, PRESENCE_TTL, PresenceEntry, prunePresence, removePresenceEntry, reviewingElapsed, reviewingSince, SessionPresence } from './sessionPresence';
+
+function entry(userId: string, reviewing: Record<string, number> = {}, updatedAt = 0): PresenceEntry {
+    return { userId, activity: 'viewing', reviewing, updatedAt };
+}
+
+describe('sessionPresence', () => {
+    it('should add, replace and remove viewers per session', () => {
+        let presence: SessionPresence = {};
+        presence = applyPresenceEntry(presence, 's1', entry('alice'));
+        presence = applyPresenceEntry(presence, 's1', { ...entry('alice'), activity: 'typing' });
+        presence = applyPresenceEntry(presence, 's2', entry('bob'));
+        expect(presence.s1.alice.activity).toBe('typing');
+        presence = removePresenceEntry(presence, 's2', 'bob');
+        expect(presence.s2).toBeUndefined();
+        expect(removePresenceEntry(presence, 's1', 'missing')).toBe(presence);
+    });
+
+    it('should expire viewers that stopped announcing themselves', () => {
+        let presence: SessionPresence = {};
+        presence = applyPresenceEntry(presence, 's1', entry('alice', {}, 0));
+        presence = applyPresenceEntry(presence, 's1', entry('bob', {}, 20000));
+        expect(prunePresence(presence, PRESENCE_TTL)).toBe(presence);
+        expect(Object.keys(prunePresence(presence, PRESENCE_TTL + 1).s1)).toEqual(['bob']);
+    });
+
+    it('should give the permission lock to the earliest reviewer', () => {
+        const entries = [entry('bob', { p1: 200 }), entry('alice', { p1: 100 }), entry('carol', { p2: 50 })];
+        expect(permissionLockHolder(entries, 'p1', null)?.userId).toBe('alice');
+        expect(permissionLockHolder(entries, 'p1', { userId: 'dave', since: 150 })?.userId).toBe('alice');
+        expect(permissionLockHolder(entries, 'p1', { userId: 'dave', since: 50 })).toBeNull();
+        expect(permissionLockHolder(entries, 'p3', { userId: 'dave', since: 50 })).toBeNull();
+    });
+
+    it('should break ties by user id and ignore our own entry', () => {
+        const entries = [entry('bob', { p1: 100 }), entry('alice', { p1: 100 })];
+        expect(permissionLockHolder(entries, 'p1', { userId: 'carol', since: 100 })?.userId).toBe('alice');
+        expect(permissionLockHolder(entries, 'p1', { userId: 'alice', since: 100 })).toBeNull();
+        expect(permissionLockHolder(entries, 'p1', { userId: 'bob', since: 100 })?.userId).toBe('alice');
+    });
+
+    it('should place announced claims on the local clock', () => {
+        expect(reviewingElapsed({ p1: 1000, p2: 3000 }, 2000)).toEqual({ p1: 1000, p2: 0 });
+        expect(reviewingSince({ p1: 1000, p2: -50 }, 5000)).toEqual({ p1: 4000, p2: 5000 });
+    });
+
+    it('should keep the earliest estimate of a claim across announcements', () => {
+        expect(reviewingSince({ p1: 1000 }, 5100, { p1: 4000 })).toEqual({ p1: 4000 });
+        expect(reviewingSince({ p1: 5000 }, 6000, { p1: 4000 })).toEqual({ p1: 1000 });
+    });
+});
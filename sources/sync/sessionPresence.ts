@@ -0,0 +1,105 @@
+/**
+ * Who else is looking at a session right now
+ * Presence is ephemeral, every device with a session open re-announces itself over the socket
+ * and entries that stop being refreshed expire. Nothing is stored on the server or the device
+ */
+
+export type PresenceActivity = 'viewing' | 'typing';
+
+export interface PresenceEntry {
+    userId: string;
+    activity: PresenceActivity;
+    reviewing: Record<string, number>; // Pending permission id -> local time the viewer started reviewing it
+    updatedAt: number; // Local time of the last announcement
+}
+
+export type SessionPresence = Record<string, Record<string, PresenceEntry>>; // Keyed by session id, then user id
+
+export const PRESENCE_HEARTBEAT = 10 * 1000;
+export const PRESENCE_TTL = 30 * 1000;
+
+export function applyPresenceEntry(presence: SessionPresence, sessionId: string, entry: PresenceEntry): SessionPresence {
+    return {
+        ...presence,
+        [sessionId]: { ...presence[sessionId], [entry.userId]: entry }
+    };
+}
+
+export function removePresenceEntry(presence: SessionPresence, sessionId: string, userId: string): SessionPresence {
+    const entries = presence[sessionId];
+    if (!entries || !entries[userId]) {
+        return presence;
+    }
+    const { [userId]: _, ...rest } = entries;
+    if (Object.keys(rest).length > 0) {
+        return { ...presence, [sessionId]: rest };
+    }
+    const { [sessionId]: __, ...sessions } = presence;
+    return sessions;
+}
+
+/**
+ * Drops viewers that stopped announcing themselves, returns the same object when nothing expired
+ */
+export function prunePresence(presence: SessionPresence, now: number): SessionPresence {
+    let result = presence;
+    for (const [sessionId, entries] of Object.entries(presence)) {
+        for (const entry of Object.values(entries)) {
+            if (now - entry.updatedAt > PRESENCE_TTL) {
+                result = removePresenceEntry(result, sessionId, entry.userId);
+            }
+        }
+    }
+    return result;
+}
+
+/**
+ * Announcements carry how long each request has been reviewed rather than a timestamp, so claims
+ * are placed on our own clock when they arrive and no two devices' clocks are ever compared
+ */
+export function reviewingSince(reviewing: Record<string, number>, now: number, previous?: Record<string, number>): Record<string, number> {
+    const since: Record<string, number> = {};
+    for (const [permissionId, elapsed] of Object.entries(reviewing)) {
+        // Keep the earliest estimate so network jitter between announcements can't reorder claims
+        const estimate = now - Math.max(0, elapsed);
+        since[permissionId] = Math.min(estimate, previous?.[permissionId] ?? estimate);
+    }
+    return since;
+}
+
+export function reviewingElapsed(since: Record<string, number>, now: number): Record<string, number> {
+    const elapsed: Record<string, number> = {};
+    for (const [permissionId, start] of Object.entries(since)) {
+        elapsed[permissionId] = Math.max(0, now - start);
+    }
+    return elapsed;
+}
+
+/**
+ * Viewer holding the soft lock on a permission request, null when it is free or held by us.
+ * The earliest reviewer wins, ties are broken by user id so every device agrees on the holder
+ */
+export function permissionLockHolder(
+    entries: PresenceEntry[],
+    permissionId: string,
+    own: { userId: string, since: number } | null
+): PresenceEntry | null {
+    let holder: PresenceEntry | null = null;
+    for (const entry of entries) {
+        const since = entry.reviewing[permissionId];
+        if (since === undefined || (own && entry.userId === own.userId)) {
+            continue;
+        }
+        if (!holder || isEarlier(entry.userId, since, holder.userId, holder.reviewing[permissionId])) {
+            holder = entry;
+        }
+    }
+    if (holder && own && isEarlier(own.userId, own.since, holder.userId, holder.reviewing[permissionId])) {
+        return null;
+    }
+    return holder;
+}
+
+function isEarlier(userId: string, since: number, otherUserId: string, otherSince: number): boolean {
+    return since < otherSince || (since === otherSince && userId < otherUserId);
+}
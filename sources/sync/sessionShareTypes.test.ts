@@ -0,0 +1,16 @@
+import { describe, it, expect } from 'vitest';
+import { canControlSession, isSessionOwner } from './sessionShareTypes';
+
+describe('sessionShareTypes', () => {
+    it('should only let owners and collaborators control a session', () => {
+        expect(canControlSession({})).toBe(true);
+        expect(canControlSession({ share: { role: 'collaborator', ownerId: 'u1' } })).toBe(true);
+        expect(canControlSession({ share: { role: 'viewer', ownerId: 'u1' } })).toBe(false);
+    });
+
+    it('should keep owner actions from collaborators', () => {
+        expect(isSessionOwner({ share: null })).toBe(true);
+        expect(isSessionOwner({ share: { role: 'collaborator', ownerId: 'u1' } })).toBe(false);
+        expect(isSessionOwner({ share: { role: 'viewer', ownerId: 'u1' } })).toBe(false);
+    });
+});
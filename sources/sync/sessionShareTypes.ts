@@ -0,0 +1,58 @@
+import * as z from 'zod';
+import { UserProfileSchema } from './friendTypes';
+
+//
+// Roles
+//
+
+// Viewers only follow the session, collaborators can also send messages and answer permission requests
+export const SessionShareRoleSchema = z.enum(['viewer', 'collaborator']);
+export type SessionShareRole = z.infer<typeof SessionShareRoleSchema>;
+
+//
+// Share of a session with this account, returned along with the session
+//
+
+export const SessionShareInfoSchema = z.object({
+    role: SessionShareRoleSchema,
+    ownerId: z.string()
+});
+
+export type SessionShareInfo = z.infer<typeof SessionShareInfoSchema>;
+
+//
+// Shares of an own session
+//
+
+export const SessionShareSchema = z.object({
+    user: UserProfileSchema,
+    role: SessionShareRoleSchema,
+    createdAt: z.number()
+});
+
+export type SessionShare = z.infer<typeof SessionShareSchema>;
+
+export const SessionSharesResponseSchema = z.object({
+    shares: z.array(SessionShareSchema)
+});
+
+export type SessionSharesResponse = z.infer<typeof SessionSharesResponseSchema>;
+
+//
+// Utility functions
+//
+
+/**
+ * Whether this account can send messages and answer permission requests in the session
+ */
+export function canControlSession(session: { share?: SessionShareInfo | null }): boolean {
+    return !session.share || session.share.role === 'collaborator';
+}
+
+/**
+ * Whether the session belongs to this account, things that act on the owner's machine or settings
+ * like the terminal, permission rules and archiving are only for the owner, even with a collaborator share
+ */
+export function isSessionOwner(session: { share?: SessionShareInfo | null }): boolean {
+    return !session.share;
+}
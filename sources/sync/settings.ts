@@ -29,6 +29,17 @@ export const SettingsSchema = z.object({
     lastUsedAgent: z.string().nullable().describe('Last selected agent type for new sessions'),
     lastUsedPermissionMode: z.string().nullable().describe('Last selected permission mode for new sessions'),
     lastUsedModelMode: z.string().nullable().describe('Last selected model mode for new sessions'),
+    permissionRules: z.array(z.object({
+        id: z.string(),
+        machineId: z.string(),
+        path: z.string(),
+        tool: z.string(),
+        matcher: z.enum(['any', 'pathGlob', 'commandPrefix']),
+        pattern: z.string().nullable(),
+        action: z.enum(['allow', 'deny']),
+        enabled: z.boolean(),
+        createdAt: z.number()
+    })).describe('Per project rules that automatically allow or deny permission requests'),
 });
 
 //
@@ -72,6 +83,7 @@ export const settingsDefaults: Settings = {
     lastUsedAgent: null,
     lastUsedPermissionMode: null,
     lastUsedModelMode: null,
+    permissionRules: [],
 };
 Object.freeze(settingsDefaults);
 
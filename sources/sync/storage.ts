@@ -1,6 +1,6 @@
 import { create } from "zustand";
 import { useShallow } from 'zustand/react/shallow'
-import { Session, Machine, GitStatus } from "./storageTypes";
+import { Session, Machine, GitStatus, TerminalTab } from "./storageTypes";
 import { createReducer, reducer, ReducerState } from "./reducer/reducer";
 import { Message } from "./typesMessage";
 import { NormalizedMessage } from "./typesRaw";
@@ -11,7 +11,7 @@ import { Purchases, customerInfoToPurchases } from "./purchases";
 import { TodoState } from "../-zen/model/ops";
 import { Profile } from "./profile";
 import { UserProfile, RelationshipUpdatedEvent } from "./friendTypes";
-import { loadSettings, loadLocalSettings, saveLocalSettings, saveSettings, loadPurchases, savePurchases, loadProfile, saveProfile, loadSessionDrafts, saveSessionDrafts, loadSessionPermissionModes, saveSessionPermissionModes } from "./persistence";
+import { loadSettings, loadLocalSettings, saveLocalSettings, saveSettings, loadPurchases, savePurchases, loadProfile, saveProfile, loadSessionDrafts, saveSessionDrafts, loadSessionPermissionModes, saveSessionPermissionModes, loadPermissionRuleAudit, savePermissionRuleAudit, loadPermissionDecisions, savePermissionDecisions, loadDiffComments, saveDiffComments, loadMessageQueues, saveMessageQueues } from "./persistence";
 import type { PermissionMode } from '@/components/PermissionModeSelector';
 import type { CustomerInfo } from './revenueCat/types';
 import React from "react";
@@ -19,8 +19,17 @@ import { sync } from "./sync";
 import { getCurrentRealtimeSessionId, getVoiceSession } from '@/realtime/RealtimeSession';
 import { isMutableTool } from "@/components/tools/knownTools";
 import { projectManager } from "./projectManager";
-import { DecryptedArtifact } from "./artifactTypes";
+import { DecryptedArtifact, DecryptedArtifactRevision } from "./artifactTypes";
 import { FeedItem } from "./feedTypes";
+import type { MessageDeliveryState } from "./outbox";
+import type { PermissionRuleAuditEntry } from "./permissionRules";
+import type { PermissionDecisionRecord } from "./permissionAudit";
+import type { DiffComment } from "./diffComments";
+import type { MessageQueues, QueuedMessage } from "./messageQueue";
+import type { AgentArtifact } from "./agentArtifacts";
+import type { PresenceEntry, SessionPresence } from "./sessionPresence";
+import type { ScheduledPrompt, ScheduledPromptsState } from "./scheduledPrompts";
+import type { PromptTemplate, PromptTemplatesState } from "./promptTemplates";
 
 // Debounce timer for realtimeMode changes
 let realtimeModeDebounceTimer: ReturnType<typeof setTimeout> | null = null;
@@ -46,6 +55,11 @@ function isSessionActive(session: { active: boolean; activeAt: number }): boolea
 // Known entitlement IDs
 export type KnownEntitlements = 'pro';
 
+export interface SessionMessagesPaging {
+    hasOlder: boolean;
+    isLoadingOlder: boolean;
+}
+
 interface SessionMessages {
     messages: Message[];
     messagesMap: Record<string, Message>;
@@ -58,6 +72,7 @@ interface SessionMessages {
 // Unified list item type for SessionsList component
 export type SessionListViewItem =
     | { type: 'header'; title: string }
+    | { type: 'shared-header' }
     | { type: 'active-sessions'; sessions: Session[] }
     | { type: 'project-group'; displayPath: string; machine: Machine }
     | { type: 'session'; session: Session; variant?: 'default' | 'no-path' };
@@ -76,8 +91,17 @@ interface StorageState {
     sessionListViewData: SessionListViewItem[] | null;
     sessionMessages: Record<string, SessionMessages>;
     sessionGitStatus: Record<string, GitStatus | null>;
+    messageDelivery: Record<string, MessageDeliveryState>;  // Keyed by message localId
+    sessionMessagesPaging: Record<string, SessionMessagesPaging>;
+    permissionRuleAudit: PermissionRuleAuditEntry[];  // Newest first
+    permissionDecisions: PermissionDecisionRecord[];  // Decisions the user made on this device, newest first
+    terminalTabs: Record<string, TerminalTab>;  // Open remote terminal tabs, keyed by tab id
+    diffComments: Record<string, DiffComment>;  // Comments on diff lines of all sessions, keyed by comment id
+    messageQueues: MessageQueues;  // Prompts waiting for the agent to be ready, keyed by session id
+    sessionPresence: SessionPresence;  // Other people looking at sessions right now, not persisted
     machines: Record<string, Machine>;
     artifacts: Record<string, DecryptedArtifact>;  // New artifacts storage
+    artifactRevisions: Record<string, DecryptedArtifactRevision[]>;  // Loaded histories keyed by artifact id, newest first
     friends: Record<string, UserProfile>;  // All relationships (friends, pending, requested, etc.)
     users: Record<string, UserProfile | null>;  // Global user cache, null = 404/failed fetch
     feedItems: FeedItem[];  // Simple list of feed items
@@ -95,11 +119,13 @@ interface StorageState {
     nativeUpdateStatus: { available: boolean; updateUrl?: string } | null;
     todoState: TodoState | null;
     todosLoaded: boolean;
+    scheduledPrompts: ScheduledPromptsState | null;  // Null until fetched from the KV store
+    promptTemplates: PromptTemplatesState | null;  // Null until fetched from the KV store
     applySessions: (sessions: (Omit<Session, 'presence'> & { presence?: "online" | number })[]) => void;
     applyMachines: (machines: Machine[], replace?: boolean) => void;
     applyLoaded: () => void;
     applyReady: () => void;
-    applyMessages: (sessionId: string, messages: NormalizedMessage[]) => { changed: string[], hasReadyEvent: boolean };
+    applyMessages: (sessionId: string, messages: NormalizedMessage[]) => { changed: string[], hasReadyEvent: boolean, artifacts: AgentArtifact[] };
     applyMessagesLoaded: (sessionId: string) => void;
     applySettings: (settings: Settings, version: number) => void;
     applySettingsLocal: (settings: Partial<Settings>) => void;
@@ -107,7 +133,19 @@ interface StorageState {
     applyPurchases: (customerInfo: CustomerInfo) => void;
     applyProfile: (profile: Profile) => void;
     applyTodos: (todoState: TodoState) => void;
+    applyScheduledPrompts: (scheduledPrompts: ScheduledPromptsState) => void;
+    applyPromptTemplates: (promptTemplates: PromptTemplatesState) => void;
     applyGitStatus: (sessionId: string, status: GitStatus | null) => void;
+    applyMessageDelivery: (states: Record<string, MessageDeliveryState>) => void;
+    applyMessagesPaging: (sessionId: string, paging: Partial<SessionMessagesPaging>) => void;
+    applyPermissionRuleAudit: (entry: PermissionRuleAuditEntry) => void;
+    applyPermissionDecision: (record: PermissionDecisionRecord) => void;
+    applyTerminalTab: (tab: TerminalTab) => void;
+    removeTerminalTab: (tabId: string) => void;
+    applyDiffComments: (comments: DiffComment[]) => void;
+    removeDiffComment: (commentId: string) => void;
+    applyMessageQueues: (queues: MessageQueues) => void;
+    applySessionPresence: (presence: SessionPresence) => void;
     applyNativeUpdateStatus: (status: { available: boolean; updateUrl?: string } | null) => void;
     isMutableToolCall: (sessionId: string, callId: string) => boolean;
     setRealtimeStatus: (status: 'disconnected' | 'connecting' | 'connected' | 'error') => void;
@@ -124,6 +162,7 @@ interface StorageState {
     addArtifact: (artifact: DecryptedArtifact) => void;
     updateArtifact: (artifact: DecryptedArtifact) => void;
     deleteArtifact: (artifactId: string) => void;
+    applyArtifactRevisions: (artifactId: string, revisions: DecryptedArtifactRevision[]) => void;
     deleteSession: (sessionId: string) => void;
     // Project management methods
     getProjects: () => import('./projectManager').Project[];
@@ -152,12 +191,15 @@ interface StorageState {
 function buildSessionListViewData(
     sessions: Record<string, Session>
 ): SessionListViewItem[] {
-    // Separate active and inactive sessions
+    // Separate shared, active and inactive sessions
+    const sharedSessions: Session[] = [];
     const activeSessions: Session[] = [];
     const inactiveSessions: Session[] = [];
 
     Object.values(sessions).forEach(session => {
-        if (isSessionActive(session)) {
+        if (session.share) {
+            sharedSessions.push(session);
+        } else if (isSessionActive(session)) {
             activeSessions.push(session);
         } else {
             inactiveSessions.push(session);
@@ -165,6 +207,7 @@ function buildSessionListViewData(
     });
 
     // Sort sessions by updated date (newest first)
+    sharedSessions.sort((a, b) => b.updatedAt - a.updatedAt);
     activeSessions.sort((a, b) => b.updatedAt - a.updatedAt);
     inactiveSessions.sort((a, b) => b.updatedAt - a.updatedAt);
 
@@ -176,6 +219,14 @@ function buildSessionListViewData(
         listData.push({ type: 'active-sessions', sessions: activeSessions });
     }
 
+    // Sessions friends shared with this account get their own section
+    if (sharedSessions.length > 0) {
+        listData.push({ type: 'shared-header' });
+        sharedSessions.forEach(sess => {
+            listData.push({ type: 'session', session: sess });
+        });
+    }
+
     // Group inactive sessions by date
     const now = new Date();
     const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
@@ -244,6 +295,9 @@ function buildSessionListViewData(
     return listData;
 }
 
+const PERMISSION_RULE_AUDIT_LIMIT = 500;
+const PERMISSION_DECISIONS_LIMIT = 1000;
+
 export const storage = create<StorageState>()((set, get) => {
     let { settings, version } = loadSettings();
     let localSettings = loadLocalSettings();
@@ -251,6 +305,10 @@ export const storage = create<StorageState>()((set, get) => {
     let profile = loadProfile();
     let sessionDrafts = loadSessionDrafts();
     let sessionPermissionModes = loadSessionPermissionModes();
+    let permissionRuleAudit = loadPermissionRuleAudit();
+    let permissionDecisions = loadPermissionDecisions();
+    let diffComments = loadDiffComments();
+    let messageQueues = loadMessageQueues();
     return {
         settings,
         settingsVersion: version,
@@ -260,6 +318,7 @@ export const storage = create<StorageState>()((set, get) => {
         sessions: {},
         machines: {},
         artifacts: {},  // Initialize artifacts
+        artifactRevisions: {},
         friends: {},  // Initialize relationships cache
         users: {},  // Initialize global user cache
         feedItems: [],  // Initialize feed items list
@@ -270,10 +329,20 @@ export const storage = create<StorageState>()((set, get) => {
         friendsLoaded: false,  // Initialize as false
         todoState: null,  // Initialize todo state
         todosLoaded: false,  // Initialize todos loaded state
+        scheduledPrompts: null,
+        promptTemplates: null,
         sessionsData: null,  // Legacy - to be removed
         sessionListViewData: null,
         sessionMessages: {},
         sessionGitStatus: {},
+        messageDelivery: {},
+        sessionMessagesPaging: {},
+        permissionRuleAudit,
+        permissionDecisions,
+        terminalTabs: {},
+        diffComments,
+        messageQueues,
+        sessionPresence: {},
         realtimeStatus: 'disconnected',
         realtimeMode: 'idle',
         socketStatus: 'disconnected',
@@ -478,6 +547,7 @@ export const storage = create<StorageState>()((set, get) => {
         applyMessages: (sessionId: string, messages: NormalizedMessage[]) => {
             let changed = new Set<string>();
             let hasReadyEvent = false;
+            let artifacts: AgentArtifact[] = [];
             set((state) => {
 
                 // Resolve session messages state
@@ -504,6 +574,9 @@ export const storage = create<StorageState>()((set, get) => {
                 if (reducerResult.hasReadyEvent) {
                     hasReadyEvent = true;
                 }
+                if (reducerResult.artifacts) {
+                    artifacts = reducerResult.artifacts;
+                }
 
                 // Merge messages
                 const mergedMessagesMap = { ...existingSession.messagesMap };
@@ -551,7 +624,7 @@ export const storage = create<StorageState>()((set, get) => {
                 };
             });
 
-            return { changed: Array.from(changed), hasReadyEvent };
+            return { changed: Array.from(changed), hasReadyEvent, artifacts };
         },
         applyMessagesLoaded: (sessionId: string) => set((state) => {
             const existingSession = state.sessionMessages[sessionId];
@@ -675,6 +748,14 @@ export const storage = create<StorageState>()((set, get) => {
                 todosLoaded: true
             };
         }),
+        applyScheduledPrompts: (scheduledPrompts: ScheduledPromptsState) => set((state) => ({
+            ...state,
+            scheduledPrompts
+        })),
+        applyPromptTemplates: (promptTemplates: PromptTemplatesState) => set((state) => ({
+            ...state,
+            promptTemplates
+        })),
         applyGitStatus: (sessionId: string, status: GitStatus | null) => set((state) => {
             // Update project git status as well
             projectManager.updateSessionProjectGitStatus(sessionId, status);
@@ -687,6 +768,80 @@ export const storage = create<StorageState>()((set, get) => {
                 }
             };
         }),
+        applyMessageDelivery: (states: Record<string, MessageDeliveryState>) => set((state) => ({
+            ...state,
+            messageDelivery: states
+        })),
+        applyMessagesPaging: (sessionId: string, paging: Partial<SessionMessagesPaging>) => set((state) => ({
+            ...state,
+            sessionMessagesPaging: {
+                ...state.sessionMessagesPaging,
+                [sessionId]: {
+                    ...(state.sessionMessagesPaging[sessionId] ?? { hasOlder: false, isLoadingOlder: false }),
+                    ...paging
+                }
+            }
+        })),
+        applyPermissionRuleAudit: (entry: PermissionRuleAuditEntry) => set((state) => {
+            const audit = [entry, ...state.permissionRuleAudit].slice(0, PERMISSION_RULE_AUDIT_LIMIT);
+            savePermissionRuleAudit(audit);
+            return {
+                ...state,
+                permissionRuleAudit: audit
+            };
+        }),
+        applyPermissionDecision: (record: PermissionDecisionRecord) => set((state) => {
+            const decisions = [record, ...state.permissionDecisions].slice(0, PERMISSION_DECISIONS_LIMIT);
+            savePermissionDecisions(decisions);
+            return {
+                ...state,
+                permissionDecisions: decisions
+            };
+        }),
+        applyTerminalTab: (tab: TerminalTab) => set((state) => ({
+            ...state,
+            terminalTabs: {
+                ...state.terminalTabs,
+                [tab.id]: tab
+            }
+        })),
+        removeTerminalTab: (tabId: string) => set((state) => {
+            const { [tabId]: _, ...terminalTabs } = state.terminalTabs;
+            return {
+                ...state,
+                terminalTabs
+            };
+        }),
+        applyDiffComments: (comments: DiffComment[]) => set((state) => {
+            const diffComments = { ...state.diffComments };
+            for (const comment of comments) {
+                diffComments[comment.id] = comment;
+            }
+            saveDiffComments(diffComments);
+            return {
+                ...state,
+                diffComments
+            };
+        }),
+        removeDiffComment: (commentId: string) => set((state) => {
+            const { [commentId]: _, ...diffComments } = state.diffComments;
+            saveDiffComments(diffComments);
+            return {
+                ...state,
+                diffComments
+            };
+        }),
+        applyMessageQueues: (queues: MessageQueues) => set((state) => {
+            saveMessageQueues(queues);
+            return {
+                ...state,
+                messageQueues: queues
+            };
+        }),
+        applySessionPresence: (presence: SessionPresence) => set((state) => ({
+            ...state,
+            sessionPresence: presence
+        })),
         applyNativeUpdateStatus: (status: { available: boolean; updateUrl?: string } | null) => set((state) => ({
             ...state,
             nativeUpdateStatus: status
@@ -929,12 +1084,21 @@ export const storage = create<StorageState>()((set, get) => {
         }),
         deleteArtifact: (artifactId: string) => set((state) => {
             const { [artifactId]: _, ...remainingArtifacts } = state.artifacts;
+            const { [artifactId]: __, ...remainingRevisions } = state.artifactRevisions;
             
             return {
                 ...state,
-                artifacts: remainingArtifacts
+                artifacts: remainingArtifacts,
+                artifactRevisions: remainingRevisions
             };
         }),
+        applyArtifactRevisions: (artifactId: string, revisions: DecryptedArtifactRevision[]) => set((state) => ({
+            ...state,
+            artifactRevisions: {
+                ...state.artifactRevisions,
+                [artifactId]: revisions
+            }
+        })),
         deleteSession: (sessionId: string) => set((state) => {
             // Remove session from sessions
             const { [sessionId]: deletedSession, ...remainingSessions } = state.sessions;
@@ -944,6 +1108,9 @@ export const storage = create<StorageState>()((set, get) => {
             
             // Remove session git status if it exists
             const { [sessionId]: deletedGitStatus, ...remainingGitStatus } = state.sessionGitStatus;
+
+            // Remove message paging state if it exists
+            const { [sessionId]: deletedPaging, ...remainingPaging } = state.sessionMessagesPaging;
             
             // Clear drafts and permission modes from persistent storage
             const drafts = loadSessionDrafts();
@@ -962,6 +1129,7 @@ export const storage = create<StorageState>()((set, get) => {
                 sessions: remainingSessions,
                 sessionMessages: remainingSessionMessages,
                 sessionGitStatus: remainingGitStatus,
+                sessionMessagesPaging: remainingPaging,
                 sessionListViewData
             };
         }),
@@ -1099,6 +1267,12 @@ export function useSession(id: string): Session | null {
     return storage(useShallow((state) => state.sessions[id] ?? null));
 }
 
+export function useSessionForks(id: string): Session[] {
+    return storage(useShallow((state) => Object.values(state.sessions)
+        .filter((s) => s.metadata?.forkedFrom?.sessionId === id)
+        .sort((a, b) => a.createdAt - b.createdAt)));
+}
+
 const emptyArray: unknown[] = [];
 
 export function useSessionMessages(sessionId: string): { messages: Message[], isLoaded: boolean } {
@@ -1118,6 +1292,71 @@ export function useMessage(sessionId: string, messageId: string): Message | null
     }));
 }
 
+export function useMessageDelivery(localId: string | null): MessageDeliveryState | null {
+    return storage((state) => localId ? state.messageDelivery[localId] ?? null : null);
+}
+
+const defaultPaging: SessionMessagesPaging = { hasOlder: false, isLoadingOlder: false };
+
+export function useSessionMessagesPaging(sessionId: string): SessionMessagesPaging {
+    return storage(useShallow((state) => state.sessionMessagesPaging[sessionId] ?? defaultPaging));
+}
+
+export function usePermissionRuleAudit(): PermissionRuleAuditEntry[] {
+    return storage((state) => state.permissionRuleAudit);
+}
+
+export function usePermissionDecisions(): PermissionDecisionRecord[] {
+    return storage((state) => state.permissionDecisions);
+}
+
+export function useTerminalTabs(machineId: string): TerminalTab[] {
+    return storage(useShallow((state) => Object.values(state.terminalTabs)
+        .filter((tab) => tab.machineId === machineId)
+        .sort((a, b) => a.createdAt - b.createdAt)));
+}
+
+export function useTerminalTab(tabId: string | null): TerminalTab | null {
+    return storage((state) => tabId ? state.terminalTabs[tabId] ?? null : null);
+}
+
+export function useDiffComments(sessionId: string, messageId?: string): DiffComment[] {
+    return storage(useShallow((state) => Object.values(state.diffComments)
+        .filter((comment) => comment.sessionId === sessionId && (!messageId || comment.messageId === messageId))
+        .sort((a, b) => a.createdAt - b.createdAt)));
+}
+
+const EMPTY_QUEUE: QueuedMessage[] = [];
+
+export function useMessageQueue(sessionId: string): QueuedMessage[] {
+    return storage((state) => state.messageQueues[sessionId] ?? EMPTY_QUEUE);
+}
+
+export function useSessionPresence(sessionId: string): PresenceEntry[] {
+    return storage(useShallow((state) => Object.values(state.sessionPresence[sessionId] ?? {})
+        .sort((a, b) => a.userId.localeCompare(b.userId))));
+}
+
+export function useScheduledPrompts(): ScheduledPrompt[] | null {
+    return storage(useShallow((state) => state.scheduledPrompts
+        ? Object.values(state.scheduledPrompts.prompts).sort((a, b) => a.createdAt - b.createdAt)
+        : null));
+}
+
+export function useScheduledPrompt(id: string): ScheduledPrompt | null {
+    return storage((state) => state.scheduledPrompts?.prompts[id] ?? null);
+}
+
+export function usePromptTemplates(): PromptTemplate[] | null {
+    return storage(useShallow((state) => state.promptTemplates
+        ? Object.values(state.promptTemplates.templates).sort((a, b) => a.name.localeCompare(b.name))
+        : null));
+}
+
+export function usePromptTemplate(id: string): PromptTemplate | null {
+    return storage((state) => state.promptTemplates?.templates[id] ?? null);
+}
+
 export function useSessionUsage(sessionId: string) {
     return storage(useShallow((state) => {
         const session = state.sessionMessages[sessionId];
@@ -1237,6 +1476,15 @@ export function useArtifact(artifactId: string): DecryptedArtifact | null {
     return storage(useShallow((state) => state.artifacts[artifactId] ?? null));
 }
 
+// Id of the artifact made from a block the agent published, null until it is saved
+export function useArtifactIdBySource(source: string): string | null {
+    return storage((state) => Object.values(state.artifacts).find((artifact) => artifact.source === source)?.id ?? null);
+}
+
+export function useArtifactRevisions(artifactId: string): DecryptedArtifactRevision[] | null {
+    return storage((state) => state.artifactRevisions[artifactId] ?? null);
+}
+
 export function useArtifactsCount(): number {
     return storage(useShallow((state) => {
         // Count only non-draft artifacts
@@ -1,4 +1,5 @@
 import { z } from "zod";
+import type { SessionShareInfo } from "./sessionShareTypes";
 
 //
 // Agent states
@@ -33,7 +34,11 @@ export const MetadataSchema = z.object({
     flavor: z.string().nullish(), // Session flavor/variant identifier
     availableModels: z.array(ModelSchema).optional(), // Available models from CLI
     selectedModel: z.string().optional(), // Currently selected model ID
-});
+    forkedFrom: z.object({
+        sessionId: z.string(),
+        messageId: z.string()
+    }).optional(), // Parent session and message this session was forked from
+}).loose(); // Keep fields unknown to the app so metadata updates from the app don't drop them
 
 export type Metadata = z.infer<typeof MetadataSchema>;
 
@@ -82,6 +87,7 @@ export interface Session {
     draft?: string | null; // Local draft message, not synced to server
     permissionMode?: 'default' | 'acceptEdits' | 'bypassPermissions' | 'plan' | 'read-only' | 'safe-yolo' | 'yolo' | null; // Local permission mode, not synced to server
     modelMode?: 'default' | null; // Local model mode, not synced to server (models configured in CLI)
+    share?: SessionShareInfo | null; // Set when another account shared the session with this one
     // IMPORTANT: latestUsage is extracted from reducerState.latestUsage after message processing.
     // We store it directly on Session to ensure it's available immediately on load.
     // Do NOT store reducerState itself on Session - it's mutable and should only exist in SessionMessages.
@@ -164,4 +170,26 @@ export interface GitStatus {
     aheadCount?: number; // Commits ahead of upstream
     behindCount?: number; // Commits behind upstream
     stashCount?: number; // Number of stash entries
-}
\ No newline at end of file
+}
+//
+// Remote Terminal
+//
+
+export interface TerminalEntry {
+    id: string;
+    command: string;
+    cwd: string;
+    output: string;
+    status: 'running' | 'exited' | 'interrupted' | 'failed';
+    exitCode: number | null;
+    startedAt: number;
+}
+
+export interface TerminalTab {
+    id: string;
+    machineId: string;
+    sessionId: string | null; // Commands go through this session while it's active, through the machine otherwise
+    cwd: string;
+    createdAt: number;
+    entries: TerminalEntry[];
+}
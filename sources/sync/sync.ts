@@ -6,9 +6,11 @@ import { decodeBase64, encodeBase64 } from '@/encryption/base64';
 import { storage } from './storage';
 import { ApiEphemeralUpdateSchema, ApiMessage, ApiUpdateContainerSchema } from './apiTypes';
 import type { ApiEphemeralActivityUpdate } from './apiTypes';
-import { Session, Machine } from './storageTypes';
+import { Session, Machine, DecryptedMessage } from './storageTypes';
 import { InvalidateSync } from '@/utils/sync';
 import { ActivityUpdateAccumulator } from './reducer/activityUpdateAccumulator';
+import { createReducer, reducer } from './reducer/reducer';
+import { searchIndex } from './searchIndex';
 import { randomUUID } from 'expo-crypto';
 import * as Notifications from 'expo-notifications';
 import { registerPushToken } from './apiPush';
@@ -17,7 +19,11 @@ import { isRunningOnMac } from '@/utils/platform';
 import { NormalizedMessage, normalizeRawMessage, RawRecord } from './typesRaw';
 import { applySettings, Settings, settingsDefaults, settingsParse } from './settings';
 import { Profile, profileParse } from './profile';
-import { loadPendingSettings, savePendingSettings } from './persistence';
+import { deleteCachedSessionMessages, loadCachedSessionMessages, loadMessageOutbox, loadPendingSettings, saveCachedSessionMessages, saveMessageOutbox, savePendingSettings } from './persistence';
+import { MessageOutbox } from './outbox';
+import { enqueueMessage, takeQueuedMessage } from './messageQueue';
+import { formatAttachmentsMessage, MessageAttachment } from './attachments';
+import { advanceCursor, CachedSessionMessages, hasGapBefore, mergeCachedMessages, MessagePage, MessagePageCursor, messagesPageUrl, parseMessagesPage } from './messagePages';
 import { initializeTracking, tracking } from '@/track';
 import { parseToken } from '@/utils/parseToken';
 import { RevenueCat, LogLevel, PaywallResult } from './revenueCat';
@@ -26,19 +32,49 @@ import { getServerUrl } from './serverConfig';
 import { config } from '@/config';
 import { log } from '@/log';
 import { gitStatusSync } from './gitStatusSync';
+import { presenceSync } from './presenceSync';
 import { projectManager } from './projectManager';
+import { evaluatePermissionRules } from './permissionRules';
+import { machineSpawnNewSession, sessionAllow, sessionDeny, sessionUpdateMetadata } from './ops';
+import { buildForkSeed } from './sessionFork';
+import { createWorktree } from '@/utils/createWorktree';
 import { voiceHooks } from '@/realtime/hooks/voiceHooks';
 import { Message } from './typesMessage';
 import { EncryptionCache } from './encryption/encryptionCache';
 import { systemPrompt } from './prompt/systemPrompt';
-import { fetchArtifact, fetchArtifacts, createArtifact, updateArtifact } from './apiArtifacts';
-import { DecryptedArtifact, Artifact, ArtifactCreateRequest, ArtifactUpdateRequest } from './artifactTypes';
+import { fetchArtifact, fetchArtifacts, fetchArtifactRevisions, createArtifact, updateArtifact } from './apiArtifacts';
+import { DecryptedArtifact, Artifact, ArtifactCreateRequest, ArtifactUpdateRequest, DecryptedArtifactRevision, ArtifactFormat } from './artifactTypes';
+import { isSameArtifactFormat, resolveArtifactFormat } from './artifactContent';
+import { AgentArtifact } from './agentArtifacts';
 import { ArtifactEncryption } from './encryption/artifactEncryption';
 import { getFriendsList, getUserProfile } from './apiFriends';
 import { fetchFeed } from './apiFeed';
 import { FeedItem } from './feedTypes';
 import { UserProfile } from './friendTypes';
+import { SessionShareInfoSchema, SessionShareRole, isSessionOwner } from './sessionShareTypes';
+import { listAnswerablePermissions } from './pendingPermissions';
+import { publishContentPublicKey, shareSession } from './apiSessionShares';
 import { initializeTodoSync } from '../-zen/model/ops';
+import { isScheduleKey, refreshScheduledPrompts, runDueScheduledPrompts } from './scheduledPromptsOps';
+import { isTemplateKey, refreshPromptTemplates } from './promptTemplatesOps';
+import { parseSharedTemplate, PromptTemplate, SharedTemplate } from './promptTemplates';
+import { sendTemplateShare } from './apiTemplateShares';
+import { claimAgentArtifact, releaseAgentArtifact } from './agentArtifactClaims';
+
+/**
+ * Identifies the kind of device an action was sent from
+ */
+function resolveSentFrom(): string {
+    if (Platform.OS === 'web') {
+        return 'web';
+    } else if (Platform.OS === 'android') {
+        return 'android';
+    } else if (Platform.OS === 'ios') {
+        // Check if running on Mac (Catalyst or Designed for iPad on Mac)
+        return isRunningOnMac() ? 'mac' : 'ios';
+    }
+    return 'web'; // fallback
+}
 
 class Sync {
     // Spawned agents (especially in spawn mode) can take noticeable time to connect.
@@ -52,9 +88,15 @@ class Sync {
     private sessionsSync: InvalidateSync;
     private messagesSync = new Map<string, InvalidateSync>();
     private sessionReceivedMessages = new Map<string, Set<string>>();
+    private sessionMessageCursors = new Map<string, MessagePageCursor>();
+    private sessionMessageCache = new Map<string, CachedSessionMessages | null>();
+    private sessionsIndexedFromCache = new Set<string>();
+    private olderMessagesLoads = new Map<string, Promise<void>>();
+    private permissionRequestsDecided = new Set<string>(); // Requests already answered by a rule
     private sessionDataKeys = new Map<string, Uint8Array>(); // Store session data encryption keys internally
     private machineDataKeys = new Map<string, Uint8Array>(); // Store machine data encryption keys internally
     private artifactDataKeys = new Map<string, Uint8Array>(); // Store artifact data encryption keys internally
+    private publishingAgentArtifacts = new Set<string>(); // Sources of agent artifacts being created
     private settingsSync: InvalidateSync;
     private profileSync: InvalidateSync;
     private purchasesSync: InvalidateSync;
@@ -66,8 +108,27 @@ class Sync {
     private friendRequestsSync: InvalidateSync;
     private feedSync: InvalidateSync;
     private todosSync: InvalidateSync;
+    private scheduledPromptsSync: InvalidateSync;
+    private promptTemplatesSync: InvalidateSync;
+    private contentKeySync: InvalidateSync;
+    private scheduledPromptsTimer: ReturnType<typeof setInterval> | null = null;
     private activityAccumulator: ActivityUpdateAccumulator;
     private pendingSettings: Partial<Settings> = loadPendingSettings();
+    private outbox = new MessageOutbox({
+        items: loadMessageOutbox(),
+        persist: saveMessageOutbox,
+        onChange: (states) => storage.getState().applyMessageDelivery(states),
+        transport: {
+            isConnected: () => apiSocket.isConnected(),
+            send: (item) => apiSocket.send('message', {
+                sid: item.sessionId,
+                message: item.message,
+                localId: item.localId,
+                sentFrom: item.sentFrom,
+                permissionMode: item.permissionMode
+            })
+        }
+    });
     revenueCatInitialized = false;
 
     // Generic locking mechanism
@@ -86,6 +147,9 @@ class Sync {
         this.friendRequestsSync = new InvalidateSync(this.fetchFriendRequests);
         this.feedSync = new InvalidateSync(this.fetchFeed);
         this.todosSync = new InvalidateSync(this.fetchTodos);
+        this.scheduledPromptsSync = new InvalidateSync(this.fetchScheduledPrompts);
+        this.promptTemplatesSync = new InvalidateSync(this.fetchPromptTemplates);
+        this.contentKeySync = new InvalidateSync(this.publishContentKey);
 
         const registerPushToken = async () => {
             if (__DEV__) {
@@ -112,6 +176,8 @@ class Sync {
                 this.friendRequestsSync.invalidate();
                 this.feedSync.invalidate();
                 this.todosSync.invalidate();
+                this.scheduledPromptsSync.invalidate();
+                this.promptTemplatesSync.invalidate();
             } else {
                 log.log(`📱 App state changed to: ${nextAppState}`);
             }
@@ -152,6 +218,9 @@ class Sync {
         // Subscribe to updates
         this.subscribeToUpdates();
 
+        // Expose delivery state of messages restored from the outbox
+        storage.getState().applyMessageDelivery(this.outbox.getStates());
+
         // Sync initial PostHog opt-out state with stored settings
         if (tracking) {
             const currentSettings = storage.getState().settings;
@@ -176,8 +245,16 @@ class Sync {
         this.artifactsSync.invalidate();
         this.feedSync.invalidate();
         this.todosSync.invalidate();
+        this.scheduledPromptsSync.invalidate();
+        this.promptTemplatesSync.invalidate();
+        this.contentKeySync.invalidate();
         log.log('🔄 #init: All syncs invalidated, including artifacts and todos');
 
+        // Scheduled prompts run while the app is open on any of the devices
+        if (!this.scheduledPromptsTimer) {
+            this.scheduledPromptsTimer = setInterval(this.runScheduledPrompts, 30 * 1000);
+        }
+
         // Wait for both sessions and machines to load, then mark as ready
         Promise.all([
             this.sessionsSync.awaitQueue(),
@@ -208,8 +285,10 @@ class Sync {
         }
     }
 
-
-    async sendMessage(sessionId: string, text: string, displayText?: string) {
+    /**
+     * Send a user message through the outbox, resolves with its localId
+     */
+    async sendMessage(sessionId: string, text: string, displayText?: string, attachments?: MessageAttachment[]) {
 
         // Get encryption
         const encryption = this.encryption.getSessionEncryption(sessionId);
@@ -232,27 +311,18 @@ class Sync {
         // Generate local ID
         const localId = randomUUID();
 
-        // Determine sentFrom based on platform
-        let sentFrom: string;
-        if (Platform.OS === 'web') {
-            sentFrom = 'web';
-        } else if (Platform.OS === 'android') {
-            sentFrom = 'android';
-        } else if (Platform.OS === 'ios') {
-            // Check if running on Mac (Catalyst or Designed for iPad on Mac)
-            if (isRunningOnMac()) {
-                sentFrom = 'mac';
-            } else {
-                sentFrom = 'ios';
-            }
-        } else {
-            sentFrom = 'web'; // fallback
-        }
+        const sentFrom = resolveSentFrom();
 
         // Model settings - models are configured in CLI settings
         const model: string | null = null;
         const fallbackModel: string | null = null;
 
+        // Attachments are referenced by their paths, the bubble shows the typed text with thumbnails
+        if (attachments && attachments.length > 0) {
+            displayText = displayText ?? text;
+            text = formatAttachmentsMessage(text, attachments);
+        }
+
         // Create user message content with metadata
         const content: RawRecord = {
             role: 'user',
@@ -266,7 +336,8 @@ class Sync {
                 model,
                 fallbackModel,
                 appendSystemPrompt: systemPrompt,
-                ...(displayText && { displayText }) // Add displayText if provided
+                ...(displayText !== undefined && { displayText }), // Add displayText if provided
+                ...(attachments && attachments.length > 0 && { attachments })
             }
         };
         const encryptedRawRecord = await encryption.encryptRawRecord(content);
@@ -278,19 +349,106 @@ class Sync {
             this.applyMessages(sessionId, [normalizedMessage]);
         }
 
+        // Persist in the outbox before sending so the message survives disconnects and restarts
+        this.outbox.enqueue({
+            localId,
+            sessionId,
+            message: encryptedRawRecord,
+            sentFrom,
+            permissionMode: permissionMode || 'default',
+            createdAt
+        });
+
         const ready = await this.waitForAgentReady(sessionId);
         if (!ready) {
             log.log(`Session ${sessionId} not ready after timeout, sending anyway`);
         }
 
-        // Send message with optional permission mode and source identifier
-        apiSocket.send('message', {
-            sid: sessionId,
-            message: encryptedRawRecord,
-            localId,
-            sentFrom,
-            permissionMode: permissionMode || 'default'
+        // Send queued messages of this session in order
+        this.outbox.flush(sessionId);
+        return localId;
+    }
+
+    retryMessage = (localId: string) => {
+        this.outbox.retry(localId);
+    }
+
+    /**
+     * Stage a prompt to be sent once the agent is ready for the next one
+     */
+    queueMessage = (sessionId: string, text: string, attachments?: MessageAttachment[]) => {
+        const queues = enqueueMessage(storage.getState().messageQueues, {
+            id: randomUUID(),
+            sessionId,
+            text,
+            createdAt: Date.now(),
+            ...(attachments && attachments.length > 0 && { attachments })
         });
+        storage.getState().applyMessageQueues(queues);
+    }
+
+    /**
+     * Send the next queued prompt, or a specific one right away
+     */
+    sendQueuedMessage = (sessionId: string, id?: string) => {
+        const { message, queues } = takeQueuedMessage(storage.getState().messageQueues, sessionId, id);
+        if (!message) {
+            return;
+        }
+        storage.getState().applyMessageQueues(queues);
+        this.sendMessage(sessionId, message.text, undefined, message.attachments);
+    }
+
+    /**
+     * Start a new session on the parent's machine and path (or a new worktree of it), seeded
+     * with the conversation up to the given user message. Returns the id of the fork
+     */
+    async forkSession(sessionId: string, messageId: string, opts: { worktree: boolean, parentTitle: string }): Promise<string> {
+        const state = storage.getState();
+        const parent = state.sessions[sessionId];
+        const machineId = parent?.metadata?.machineId;
+        if (!parent?.metadata || !machineId) {
+            throw new Error('Session has no machine to fork on');
+        }
+        if (!isSessionOwner(parent)) {
+            throw new Error('Only the owner can fork a shared session');
+        }
+        // Only the pages scrolled to are loaded, the summary needs everything before the fork point
+        await this.loadAllMessages(sessionId);
+        const seed = buildForkSeed(storage.getState().sessionMessages[sessionId]?.messages ?? [], messageId, opts.parentTitle);
+        if (!seed) {
+            throw new Error('Message not found');
+        }
+
+        let directory = parent.metadata.path;
+        if (opts.worktree) {
+            const worktree = await createWorktree(machineId, directory);
+            if (!worktree.success) {
+                throw new Error(worktree.error || 'Failed to create worktree');
+            }
+            directory = worktree.worktreePath;
+        }
+
+        const flavor = parent.metadata.flavor;
+        const result = await machineSpawnNewSession({
+            machineId,
+            directory,
+            approvedNewDirectoryCreation: true,
+            agent: flavor === 'codex' || flavor === 'gemini' ? flavor : 'claude'
+        });
+        if (result.type !== 'success') {
+            throw new Error(result.type === 'error' ? result.errorMessage : 'Failed to spawn session');
+        }
+        const forkId = result.sessionId;
+
+        await this.refreshSessions();
+        await sessionUpdateMetadata(forkId, (metadata) => ({ ...metadata, forkedFrom: { sessionId, messageId } }));
+        if (parent.permissionMode) {
+            storage.getState().updateSessionPermissionMode(forkId, parent.permissionMode);
+        }
+        storage.getState().updateSessionDraft(forkId, seed.draft);
+        await this.sendMessage(forkId, seed.prompt);
+        return forkId;
     }
 
     applySettings = (delta: Partial<Settings>) => {
@@ -491,6 +649,7 @@ class Sync {
             createdAt: number;
             updatedAt: number;
             lastMessage: ApiMessage | null;
+            share?: unknown; // Set when the session is shared with this account
         }>;
 
         // Initialize all session encryptions first
@@ -526,12 +685,14 @@ class Sync {
             let agentState = await sessionEncryption.decryptAgentState(session.agentStateVersion, session.agentState);
 
             // Put it all together
+            const share = SessionShareInfoSchema.safeParse(session.share);
             const processedSession = {
                 ...session,
                 thinking: false,
                 thinkingAt: 0,
                 metadata,
-                agentState
+                agentState,
+                share: share.success ? share.data : null
             };
             decryptedSessions.push(processedSession);
         }
@@ -591,6 +752,9 @@ class Sync {
                         title: header?.title || null,
                         sessions: header?.sessions,  // Include sessions from header
                         draft: header?.draft,        // Include draft flag from header
+                        source: header?.source,
+                        type: header?.type,
+                        language: header?.language,
                         body: undefined, // Body not loaded in list
                         headerVersion: artifact.headerVersion,
                         bodyVersion: artifact.bodyVersion,
@@ -653,6 +817,9 @@ class Sync {
                 title: header?.title || null,
                 sessions: header?.sessions,  // Include sessions from header
                 draft: header?.draft,        // Include draft flag from header
+                source: header?.source,
+                type: header?.type,
+                language: header?.language,
                 body: body?.body || null,
                 headerVersion: artifact.headerVersion,
                 bodyVersion: artifact.bodyVersion,
@@ -671,7 +838,9 @@ class Sync {
         title: string | null, 
         body: string | null,
         sessions?: string[],
-        draft?: boolean
+        draft?: boolean,
+        source?: string,
+        format?: ArtifactFormat
     ): Promise<string> {
         if (!this.credentials) {
             throw new Error('Not authenticated');
@@ -694,8 +863,11 @@ class Sync {
             const artifactEncryption = new ArtifactEncryption(dataEncryptionKey);
             
             // Encrypt header and body
-            const encryptedHeader = await artifactEncryption.encryptHeader({ title, sessions, draft });
+            const type = format?.type;
+            const language = format?.language;
+            const encryptedHeader = await artifactEncryption.encryptHeader({ title, sessions, draft, source, type, language });
             const encryptedBody = await artifactEncryption.encryptBody({ body });
+            const encryptedRevision = await artifactEncryption.encryptRevision({ title, body, device: resolveSentFrom(), type, language });
             
             // Create the request
             const request: ArtifactCreateRequest = {
@@ -703,6 +875,7 @@ class Sync {
                 header: encryptedHeader,
                 body: encryptedBody,
                 dataEncryptionKey: encodeBase64(encryptedKey, 'base64'),
+                revision: encryptedRevision,
             };
             
             // Send to server
@@ -714,6 +887,9 @@ class Sync {
                 title,
                 sessions,
                 draft,
+                source,
+                type,
+                language,
                 body,
                 headerVersion: artifact.headerVersion,
                 bodyVersion: artifact.bodyVersion,
@@ -737,7 +913,8 @@ class Sync {
         title: string | null, 
         body: string | null,
         sessions?: string[],
-        draft?: boolean
+        draft?: boolean,
+        format?: ArtifactFormat
     ): Promise<void> {
         if (!this.credentials) {
             throw new Error('Not authenticated');
@@ -779,14 +956,22 @@ class Sync {
             // Prepare update request
             const updateRequest: ArtifactUpdateRequest = {};
             
-            // Check if header needs updating (title, sessions, or draft changed)
+            // Without a new format the artifact keeps its type
+            const type = format ? format.type : currentArtifact.type;
+            const language = format ? format.language : currentArtifact.language;
+
+            // Check if header needs updating (title, sessions, draft or format changed)
             if (title !== currentArtifact.title || 
                 JSON.stringify(sessions) !== JSON.stringify(currentArtifact.sessions) ||
-                draft !== currentArtifact.draft) {
+                draft !== currentArtifact.draft ||
+                (format && !isSameArtifactFormat(format, resolveArtifactFormat(currentArtifact)))) {
                 const encryptedHeader = await artifactEncryption.encryptHeader({ 
                     title, 
                     sessions, 
-                    draft 
+                    draft,
+                    source: currentArtifact.source,
+                    type,
+                    language
                 });
                 updateRequest.header = encryptedHeader;
                 updateRequest.expectedHeaderVersion = headerVersion;
@@ -804,6 +989,9 @@ class Sync {
                 return;
             }
 
+            // Keep the saved state in the history of the artifact
+            updateRequest.revision = await artifactEncryption.encryptRevision({ title, body, device: resolveSentFrom(), type, language });
+
             // Send update to server
             const response = await updateArtifact(this.credentials, artifactId, updateRequest);
             
@@ -821,6 +1009,8 @@ class Sync {
                 title,
                 sessions,
                 draft,
+                type,
+                language,
                 body,
                 headerVersion: response.headerVersion !== undefined ? response.headerVersion : headerVersion,
                 bodyVersion: response.bodyVersion !== undefined ? response.bodyVersion : bodyVersion,
@@ -834,6 +1024,94 @@ class Sync {
         }
     }
 
+    public async fetchArtifactRevisions(artifactId: string): Promise<DecryptedArtifactRevision[]> {
+        if (!this.credentials) {
+            throw new Error('Not authenticated');
+        }
+
+        let dataEncryptionKey = this.artifactDataKeys.get(artifactId);
+        if (!dataEncryptionKey) {
+            const artifact = await fetchArtifact(this.credentials, artifactId);
+            const decryptedKey = await this.encryption.decryptEncryptionKey(artifact.dataEncryptionKey);
+            if (!decryptedKey) {
+                throw new Error('Failed to decrypt encryption key');
+            }
+            this.artifactDataKeys.set(artifactId, decryptedKey);
+            dataEncryptionKey = decryptedKey;
+        }
+        const artifactEncryption = new ArtifactEncryption(dataEncryptionKey);
+
+        const revisions = await fetchArtifactRevisions(this.credentials, artifactId);
+        const decryptedRevisions: DecryptedArtifactRevision[] = [];
+        for (const revision of revisions) {
+            const content = await artifactEncryption.decryptRevision(revision.content);
+            decryptedRevisions.push({
+                id: revision.id,
+                title: content?.title ?? null,
+                body: content?.body ?? null,
+                device: content?.device ?? null,
+                type: content?.type,
+                language: content?.language,
+                headerVersion: revision.headerVersion,
+                bodyVersion: revision.bodyVersion,
+                createdAt: revision.createdAt,
+                isDecrypted: !!content,
+            });
+        }
+        decryptedRevisions.sort((a, b) => b.createdAt - a.createdAt);
+        storage.getState().applyArtifactRevisions(artifactId, decryptedRevisions);
+        return decryptedRevisions;
+    }
+
+    /**
+     * Saves an older revision as the current state, which adds a new revision on top
+     */
+    public async restoreArtifactRevision(artifactId: string, revision: DecryptedArtifactRevision): Promise<void> {
+        const artifact = storage.getState().artifacts[artifactId];
+        if (!artifact) {
+            throw new Error('Artifact not found');
+        }
+        await this.updateArtifact(artifactId, revision.title, revision.body, artifact.sessions, artifact.draft, resolveArtifactFormat(revision));
+        await this.fetchArtifactRevisions(artifactId);
+    }
+
+    /**
+     * Saves artifacts the agent published in live messages, each block is claimed in the KV store
+     * first so it is saved by one device only and never again once the user deleted it
+     */
+    private publishAgentArtifacts = async (sessionId: string, artifacts: AgentArtifact[]) => {
+        // Friends viewing a shared session don't get its artifacts in their account
+        if (!this.credentials || storage.getState().sessions[sessionId]?.share) {
+            return;
+        }
+        const credentials = this.credentials;
+        await this.artifactsSync.awaitQueue();
+        for (const artifact of artifacts) {
+            const source = `${sessionId}:${artifact.key}`;
+            const exists = Object.values(storage.getState().artifacts).some((existing) => existing.source === source);
+            if (exists || this.publishingAgentArtifacts.has(source)) {
+                continue;
+            }
+            this.publishingAgentArtifacts.add(source);
+            try {
+                const claim = await claimAgentArtifact(credentials, source);
+                if (claim === null) {
+                    continue;
+                }
+                try {
+                    await this.createArtifact(artifact.title, artifact.body, [sessionId], false, source, artifact.format);
+                } catch (error) {
+                    await releaseAgentArtifact(credentials, source, claim);
+                    throw error;
+                }
+            } catch (error) {
+                console.error('Failed to publish agent artifact:', error);
+            } finally {
+                this.publishingAgentArtifacts.delete(source);
+            }
+        }
+    }
+
     private fetchMachines = async () => {
         if (!this.credentials) return;
 
@@ -975,6 +1253,100 @@ class Sync {
         }
     }
 
+    private fetchScheduledPrompts = async () => {
+        if (!this.credentials) return;
+
+        try {
+            await refreshScheduledPrompts(this.credentials);
+            await this.runScheduledPrompts();
+        } catch (error) {
+            console.error('Failed to fetch scheduled prompts:', error);
+        }
+    }
+
+    private runScheduledPrompts = async () => {
+        // Session targets can only be checked once sessions are loaded
+        const state = storage.getState();
+        if (!this.credentials || !state.isDataReady || !state.scheduledPrompts) return;
+
+        try {
+            await runDueScheduledPrompts(this.credentials);
+        } catch (error) {
+            console.error('Failed to run scheduled prompts:', error);
+        }
+    }
+
+    private fetchPromptTemplates = async () => {
+        if (!this.credentials) return;
+
+        try {
+            await refreshPromptTemplates(this.credentials);
+        } catch (error) {
+            console.error('Failed to fetch prompt templates:', error);
+        }
+    }
+
+    private publishContentKey = async () => {
+        if (!this.credentials) return;
+        await publishContentPublicKey(this.credentials, encodeBase64(this.encryption.contentDataKey));
+    }
+
+    /**
+     * Share an own session with a friend, re-wrapping its data key for the friend's public key
+     */
+    async shareSessionWith(sessionId: string, friend: UserProfile, role: SessionShareRole): Promise<{ type: 'success' } | { type: 'legacySession' } | { type: 'friendNeedsUpdate' }> {
+        if (!this.credentials) {
+            throw new Error('Not authenticated');
+        }
+
+        // Legacy sessions are encrypted with the master secret, which can't be shared
+        const dataKey = this.encryption.getSessionDataKey(sessionId);
+        if (!dataKey) {
+            return { type: 'legacySession' };
+        }
+        if (!friend.contentPublicKey) {
+            return { type: 'friendNeedsUpdate' };
+        }
+        const encryptedDataKey = await this.encryption.encryptEncryptionKeyFor(dataKey, decodeBase64(friend.contentPublicKey));
+        await shareSession(this.credentials, sessionId, {
+            userId: friend.id,
+            role,
+            encryptedDataKey: encodeBase64(encryptedDataKey)
+        });
+        return { type: 'success' };
+    }
+
+    /**
+     * Send a prompt template to a friend's feed, encrypted for the friend's public key
+     */
+    async shareTemplateWith(template: PromptTemplate, friend: UserProfile): Promise<{ type: 'success' } | { type: 'friendNeedsUpdate' }> {
+        if (!this.credentials) {
+            throw new Error('Not authenticated');
+        }
+        if (!friend.contentPublicKey) {
+            return { type: 'friendNeedsUpdate' };
+        }
+        // The sender is the account the server puts on the feed item, so the template doesn't name it
+        const shared: SharedTemplate = {
+            name: template.name,
+            description: template.description,
+            body: template.body,
+            from: null
+        };
+        await sendTemplateShare(this.credentials, {
+            userId: friend.id,
+            encryptedTemplate: await this.encryption.encryptForAccount(shared, decodeBase64(friend.contentPublicKey))
+        });
+        return { type: 'success' };
+    }
+
+    /**
+     * Template of a template_shared feed item, null when it can't be opened
+     */
+    async openSharedTemplate(encryptedTemplate: string): Promise<SharedTemplate | null> {
+        return parseSharedTemplate(await this.encryption.decryptFromAccount(encryptedTemplate));
+    }
+
     private applyTodoSocketUpdates = async (changes: any[]) => {
         if (!this.credentials || !this.encryption) return;
 
@@ -1094,7 +1466,7 @@ class Sync {
             // Collect user IDs from friend-related feed items
             const userIds = new Set<string>();
             allItems.forEach(item => {
-                if (item.body && (item.body.kind === 'friend_request' || item.body.kind === 'friend_accepted')) {
+                if (item.body && (item.body.kind === 'friend_request' || item.body.kind === 'friend_accepted' || item.body.kind === 'session_shared' || item.body.kind === 'template_shared')) {
                     userIds.add(item.body.uid);
                 }
             });
@@ -1111,7 +1483,7 @@ class Sync {
                 if (item.body.kind === 'text') return true;
                 
                 // For friend-related items, check if user exists and is not null (404)
-                if (item.body.kind === 'friend_request' || item.body.kind === 'friend_accepted') {
+                if (item.body.kind === 'friend_request' || item.body.kind === 'friend_accepted' || item.body.kind === 'session_shared' || item.body.kind === 'template_shared') {
                     const userProfile = users[item.body.uid];
                     // Keep item only if user exists and is not null
                     return userProfile !== null && userProfile !== undefined;
@@ -1392,51 +1764,203 @@ class Sync {
             throw new Error(`Session encryption not ready for ${sessionId}`);
         }
 
-        // Request
-        const response = await apiSocket.request(`/v1/sessions/${sessionId}/messages`);
-        const data = await response.json();
-
-        // Collect existing messages
-        let eixstingMessages = this.sessionReceivedMessages.get(sessionId);
-        if (!eixstingMessages) {
-            eixstingMessages = new Set<string>();
-            this.sessionReceivedMessages.set(sessionId, eixstingMessages);
+        // Restore decrypted history from the local cache before hitting the network
+        let cursor = this.sessionMessageCursors.get(sessionId);
+        if (!cursor) {
+            cursor = { oldestSeq: null, newestSeq: null, hasOlder: false };
+            const cached = this.getMessageCache(sessionId);
+            if (cached && cached.messages.length > 0) {
+                this.applyDecryptedMessages(sessionId, cached.messages);
+                cursor = advanceCursor(cursor, cached.messages, cached.hasOlder);
+                storage.getState().applyMessagesPaging(sessionId, { hasOlder: cursor.hasOlder });
+                log.log(`💬 fetchMessages: restored ${cached.messages.length} cached messages for ${sessionId}`);
+            }
+            this.sessionMessageCursors.set(sessionId, cursor);
+        }
+        const isFirstPage = cursor.newestSeq === null;
+
+        // Request newest page and page back until we reach messages we already have
+        let page = await this.fetchMessagesPage(sessionId, null);
+        const fetched: ApiMessage[] = [...page.messages];
+        while (hasGapBefore(page, cursor)) {
+            page = await this.fetchMessagesPage(sessionId, page.messages[0].seq);
+            fetched.unshift(...page.messages);
         }
 
-        // Decrypt and normalize messages
+        // Decrypt only messages we have not seen yet
         let start = Date.now();
-        let normalizedMessages: NormalizedMessage[] = [];
+        const receivedMessages = this.getReceivedMessages(sessionId);
+        const messagesToDecrypt = fetched.filter((msg) => !receivedMessages.has(msg.id));
+        const decryptedMessages = (await encryption.decryptMessages(messagesToDecrypt))
+            .filter((msg): msg is DecryptedMessage => !!msg);
+        console.log('Batch decrypted messages in', Date.now() - start, 'ms');
+
+        // Apply to storage, messages newer than what was already loaded are live, the first load is history
+        const liveAfter = isFirstPage ? null : cursor.newestSeq;
+        const isLive = (msg: DecryptedMessage) => liveAfter !== null && msg.seq !== null && msg.seq > liveAfter;
+        const processed = this.applyDecryptedMessages(sessionId, decryptedMessages.filter((msg) => !isLive(msg)))
+            + this.applyDecryptedMessages(sessionId, decryptedMessages.filter(isLive), true);
+
+        // Advance cursor, only the first page tells us whether older history exists
+        const next = advanceCursor(this.sessionMessageCursors.get(sessionId) ?? cursor, fetched, isFirstPage ? page.hasMore : undefined);
+        this.sessionMessageCursors.set(sessionId, next);
+        storage.getState().applyMessagesPaging(sessionId, { hasOlder: next.hasOlder });
+        this.updateMessageCache(sessionId, decryptedMessages, next.hasOlder);
+        log.log(`💬 fetchMessages completed for session ${sessionId} - processed ${processed} messages`);
+    }
+
+    loadOlderMessages = (sessionId: string): Promise<void> => {
+        // Share the in-flight request so callers can await it
+        let pending = this.olderMessagesLoads.get(sessionId);
+        if (!pending) {
+            pending = this.fetchOlderMessages(sessionId).finally(() => this.olderMessagesLoads.delete(sessionId));
+            this.olderMessagesLoads.set(sessionId, pending);
+        }
+        return pending;
+    }
+
+    private fetchOlderMessages = async (sessionId: string) => {
+        const cursor = this.sessionMessageCursors.get(sessionId);
+        if (!cursor || !cursor.hasOlder || cursor.oldestSeq === null) {
+            return;
+        }
+        const encryption = this.encryption.getSessionEncryption(sessionId);
+        if (!encryption) {
+            return;
+        }
+
+        storage.getState().applyMessagesPaging(sessionId, { isLoadingOlder: true });
+        try {
+            const page = await this.fetchMessagesPage(sessionId, cursor.oldestSeq);
+            const receivedMessages = this.getReceivedMessages(sessionId);
+            const decryptedMessages = (await encryption.decryptMessages(page.messages.filter((msg) => !receivedMessages.has(msg.id))))
+                .filter((msg): msg is DecryptedMessage => !!msg);
+            this.applyDecryptedMessages(sessionId, decryptedMessages);
+
+            const next = advanceCursor(this.sessionMessageCursors.get(sessionId) ?? cursor, page.messages, page.hasMore);
+            this.sessionMessageCursors.set(sessionId, next);
+            this.updateMessageCache(sessionId, decryptedMessages, next.hasOlder);
+            storage.getState().applyMessagesPaging(sessionId, { hasOlder: next.hasOlder, isLoadingOlder: false });
+        } catch (error) {
+            console.error(`Failed to load older messages for ${sessionId}:`, error);
+            storage.getState().applyMessagesPaging(sessionId, { isLoadingOlder: false });
+        }
+    }
 
-        // Filter out existing messages and prepare for batch decryption
-        const messagesToDecrypt: ApiMessage[] = [];
-        for (const msg of [...data.messages as ApiMessage[]].reverse()) {
-            if (!eixstingMessages.has(msg.id)) {
-                messagesToDecrypt.push(msg);
+    /**
+     * Page back through the whole history, used before exporting or forking a session
+     */
+    loadAllMessages = async (sessionId: string) => {
+        await this.messagesSync.get(sessionId)?.awaitQueue();
+        while (this.sessionMessageCursors.get(sessionId)?.hasOlder) {
+            const before = this.sessionMessageCursors.get(sessionId)?.oldestSeq;
+            await this.loadOlderMessages(sessionId);
+            if (this.sessionMessageCursors.get(sessionId)?.oldestSeq === before) {
+                break;
+            }
+        }
+    }
+
+    private fetchMessagesPage = async (sessionId: string, before: number | null): Promise<MessagePage> => {
+        const response = await apiSocket.request(messagesPageUrl(sessionId, before));
+        if (!response.ok) {
+            throw new Error(`Failed to fetch messages: ${response.status}`);
+        }
+        return parseMessagesPage(await response.json());
+    }
+
+    private getReceivedMessages(sessionId: string): Set<string> {
+        let received = this.sessionReceivedMessages.get(sessionId);
+        if (!received) {
+            received = new Set<string>();
+            this.sessionReceivedMessages.set(sessionId, received);
+        }
+        return received;
+    }
+
+    private applyDecryptedMessages(sessionId: string, decryptedMessages: DecryptedMessage[], live: boolean = false): number {
+        const receivedMessages = this.getReceivedMessages(sessionId);
+        let normalizedMessages: NormalizedMessage[] = [];
+        for (const decrypted of decryptedMessages) {
+            receivedMessages.add(decrypted.id);
+            if (decrypted.localId) {
+                this.outbox.markDelivered(decrypted.localId);
+            }
+            // Normalize the decrypted message
+            let normalized = normalizeRawMessage(decrypted.id, decrypted.localId, decrypted.createdAt, decrypted.content);
+            if (normalized) {
+                normalizedMessages.push(normalized);
             }
         }
+        if (normalizedMessages.length > 0) {
+            this.applyMessages(sessionId, normalizedMessages, live);
+        }
+        return normalizedMessages.length;
+    }
 
-        // Batch decrypt all messages at once
-        const decryptedMessages = await encryption.decryptMessages(messagesToDecrypt);
+    private getMessageCache(sessionId: string): CachedSessionMessages | null {
+        if (!this.sessionMessageCache.has(sessionId)) {
+            this.sessionMessageCache.set(sessionId, loadCachedSessionMessages(sessionId));
+        }
+        return this.sessionMessageCache.get(sessionId) ?? null;
+    }
 
-        // Process decrypted messages
-        for (let i = 0; i < decryptedMessages.length; i++) {
-            const decrypted = decryptedMessages[i];
-            if (decrypted) {
-                eixstingMessages.add(decrypted.id);
-                // Normalize the decrypted message
-                let normalized = normalizeRawMessage(decrypted.id, decrypted.localId, decrypted.createdAt, decrypted.content);
+    /**
+     * Index sessions that were not opened yet from their cached history, so search
+     * covers everything on this device without fetching or decrypting anything
+     */
+    indexCachedSessions = () => {
+        const state = storage.getState();
+        for (const sessionId of Object.keys(state.sessions)) {
+            if (state.sessionMessages[sessionId] || searchIndex.hasSession(sessionId)) {
+                continue;
+            }
+            const cached = this.getMessageCache(sessionId);
+            if (!cached || cached.messages.length === 0) {
+                continue;
+            }
+            const normalizedMessages: NormalizedMessage[] = [];
+            for (const decrypted of cached.messages) {
+                const normalized = normalizeRawMessage(decrypted.id, decrypted.localId, decrypted.createdAt, decrypted.content);
                 if (normalized) {
                     normalizedMessages.push(normalized);
                 }
             }
+            searchIndex.indexMessages(sessionId, reducer(createReducer(), normalizedMessages, null).messages);
+            this.sessionsIndexedFromCache.add(sessionId);
         }
-        console.log('Batch decrypted and normalized messages in', Date.now() - start, 'ms');
-        console.log('normalizedMessages', JSON.stringify(normalizedMessages));
-        // console.log('messages', JSON.stringify(normalizedMessages));
+    }
 
-        // Apply to storage
-        this.applyMessages(sessionId, normalizedMessages);
-        log.log(`💬 fetchMessages completed for session ${sessionId} - processed ${normalizedMessages.length} messages`);
+    /**
+     * Add a message from the socket to the decrypted cache when it directly follows what we have,
+     * otherwise refetch so the missing messages are loaded and cached along with it
+     */
+    private cacheLiveMessage(sessionId: string, decrypted: DecryptedMessage) {
+        const cursor = this.sessionMessageCursors.get(sessionId);
+        if (!cursor || cursor.newestSeq === null) {
+            return;
+        }
+        if (decrypted.seq === null || decrypted.seq <= cursor.newestSeq) {
+            return;
+        }
+        if (decrypted.seq !== cursor.newestSeq + 1) {
+            this.messagesSync.get(sessionId)?.invalidate();
+            return;
+        }
+        this.getReceivedMessages(sessionId).add(decrypted.id);
+        const next = advanceCursor(cursor, [decrypted]);
+        this.sessionMessageCursors.set(sessionId, next);
+        this.updateMessageCache(sessionId, [decrypted], next.hasOlder);
+    }
+
+    private updateMessageCache(sessionId: string, decryptedMessages: DecryptedMessage[], hasOlder: boolean) {
+        const current = this.getMessageCache(sessionId);
+        if (decryptedMessages.length === 0 && (current?.hasOlder ?? false) === hasOlder) {
+            return;
+        }
+        const merged = mergeCachedMessages(current, decryptedMessages, hasOlder);
+        this.sessionMessageCache.set(sessionId, merged);
+        saveCachedSessionMessages(sessionId, merged);
     }
 
     private registerPushToken = async () => {
@@ -1502,6 +2026,23 @@ class Sync {
                     }
                 }
             }
+
+            // Replay the outbox once messages are refetched, so anything that did arrive is not sent twice
+            for (const sessionId of this.outbox.getPendingSessions()) {
+                const messagesSync = this.messagesSync.get(sessionId);
+                if (messagesSync) {
+                    messagesSync.invalidateAndAwait().then(() => this.outbox.flush(sessionId));
+                } else {
+                    this.outbox.flush(sessionId);
+                }
+            }
+        });
+
+        // Messages in flight when the connection drops are not confirmed, return them to the queue
+        apiSocket.onStatusChange((status) => {
+            if (status === 'disconnected' || status === 'error') {
+                this.outbox.handleDisconnect();
+            }
         });
     }
 
@@ -1531,6 +2072,10 @@ class Sync {
             if (updateData.body.message) {
                 const decrypted = await encryption.decryptMessage(updateData.body.message);
                 if (decrypted) {
+                    if (decrypted.localId) {
+                        this.outbox.markDelivered(decrypted.localId);
+                    }
+                    this.cacheLiveMessage(updateData.body.sid, decrypted);
                     lastMessage = normalizeRawMessage(decrypted.id, decrypted.localId, decrypted.createdAt, decrypted.content);
 
                     // Update session
@@ -1549,7 +2094,7 @@ class Sync {
                     // Update messages
                     if (lastMessage) {
                         console.log('🔄 Sync: Applying message:', JSON.stringify(lastMessage));
-                        this.applyMessages(updateData.body.sid, [lastMessage]);
+                        this.applyMessages(updateData.body.sid, [lastMessage], true);
                         let hasMutableTool = false;
                         if (lastMessage.role === 'agent' && lastMessage.content[0] && lastMessage.content[0].type === 'tool-result') {
                             hasMutableTool = storage.getState().isMutableToolCall(updateData.body.sid, lastMessage.content[0].tool_use_id);
@@ -1580,6 +2125,22 @@ class Sync {
             // Remove from project manager
             projectManager.removeSession(sessionId);
 
+            // Drop undelivered messages
+            this.outbox.removeSession(sessionId);
+
+            // Drop prompts waiting for the agent
+            if (storage.getState().messageQueues[sessionId]) {
+                const { [sessionId]: _, ...messageQueues } = storage.getState().messageQueues;
+                storage.getState().applyMessageQueues(messageQueues);
+            }
+
+            // Drop cached message history
+            this.sessionMessageCursors.delete(sessionId);
+            this.sessionMessageCache.delete(sessionId);
+            deleteCachedSessionMessages(sessionId);
+            this.sessionsIndexedFromCache.delete(sessionId);
+            searchIndex.removeSession(sessionId);
+
             // Clear any cached git status
             gitStatusSync.clearForSession(sessionId);
 
@@ -1620,11 +2181,9 @@ class Sync {
                     gitStatusSync.invalidate(updateData.body.id);
 
                     // Check for new permission requests and notify voice assistant
-                    if (agentState?.requests && Object.keys(agentState.requests).length > 0) {
-                        const requestIds = Object.keys(agentState.requests);
-                        const firstRequest = agentState.requests[requestIds[0]];
-                        const toolName = firstRequest?.tool;
-                        voiceHooks.onPermissionRequested(updateData.body.id, requestIds[0], toolName, firstRequest?.arguments);
+                    const pending = listAnswerablePermissions({ agentState, share: session.share });
+                    if (pending.length > 0) {
+                        voiceHooks.onPermissionRequested(updateData.body.id, pending);
                     }
 
                     // Re-fetch messages when control returns to mobile (local -> remote mode switch)
@@ -1757,6 +2316,11 @@ class Sync {
                 const decryptedArtifact: DecryptedArtifact = {
                     id: artifactId,
                     title: header?.title || null,
+                    sessions: header?.sessions,
+                    draft: header?.draft,
+                    source: header?.source,
+                    type: header?.type,
+                    language: header?.language,
                     body: decryptedBody,
                     headerVersion: artifactUpdate.headerVersion,
                     bodyVersion: artifactUpdate.bodyVersion,
@@ -1810,6 +2374,9 @@ class Sync {
                     updatedArtifact.title = header?.title || null;
                     updatedArtifact.sessions = header?.sessions;
                     updatedArtifact.draft = header?.draft;
+                    updatedArtifact.source = header?.source;
+                    updatedArtifact.type = header?.type;
+                    updatedArtifact.language = header?.language;
                     updatedArtifact.headerVersion = artifactUpdate.header.version;
                 }
                 
@@ -1850,7 +2417,7 @@ class Sync {
             };
             
             // Check if we need to fetch user for friend-related items
-            if (feedItem.body && (feedItem.body.kind === 'friend_request' || feedItem.body.kind === 'friend_accepted')) {
+            if (feedItem.body && (feedItem.body.kind === 'friend_request' || feedItem.body.kind === 'friend_accepted' || feedItem.body.kind === 'session_shared' || feedItem.body.kind === 'template_shared')) {
                 await this.assumeUsers([feedItem.body.uid]);
                 
                 // Check if user fetch failed (404) - don't store item if user not found
@@ -1865,6 +2432,11 @@ class Sync {
             
             // Apply to storage (will handle repeatKey replacement)
             storage.getState().applyFeedItems([feedItem]);
+
+            // The shared session comes with the session list
+            if (feedItem.body.kind === 'session_shared') {
+                this.sessionsSync.invalidate();
+            }
         } else if (updateData.body.t === 'kv-batch-update') {
             log.log('📝 Received kv-batch-update');
             const kvUpdate = updateData.body;
@@ -1887,6 +2459,13 @@ class Sync {
                         this.todosSync.invalidate();
                     }
                 }
+
+                if (kvUpdate.changes.some(change => change.key && isScheduleKey(change.key))) {
+                    this.scheduledPromptsSync.invalidate();
+                }
+                if (kvUpdate.changes.some(change => change.key && isTemplateKey(change.key))) {
+                    this.promptTemplatesSync.invalidate();
+                }
             }
         }
     }
@@ -1948,6 +2527,11 @@ class Sync {
             }
         }
 
+        // Other people looking at a shared session
+        if (updateData.type === 'presence') {
+            presenceSync.applyUpdate(updateData);
+        }
+
         // daemon-status ephemeral updates are deprecated, machine status is handled via machine-activity
     }
 
@@ -1955,7 +2539,11 @@ class Sync {
     // Apply store
     //
 
-    private applyMessages = (sessionId: string, messages: NormalizedMessage[]) => {
+    /**
+     * Apply messages to the store, `live` is set for messages that just arrived rather than history
+     * being loaded or paged in, only those can end the current turn of the agent
+     */
+    private applyMessages = (sessionId: string, messages: NormalizedMessage[], live: boolean = false) => {
         const result = storage.getState().applyMessages(sessionId, messages);
         let m: Message[] = [];
         for (let messageId of result.changed) {
@@ -1964,11 +2552,27 @@ class Sync {
                 m.push(message);
             }
         }
+
+        // Keep search index in sync, entries built from the cache have different message ids
+        if (this.sessionsIndexedFromCache.delete(sessionId)) {
+            searchIndex.removeSession(sessionId);
+            searchIndex.indexMessages(sessionId, storage.getState().sessionMessages[sessionId].messages);
+        } else {
+            searchIndex.indexMessages(sessionId, m);
+        }
         if (m.length > 0) {
             voiceHooks.onMessages(sessionId, m);
         }
+        if (live && result.artifacts.length > 0) {
+            this.publishAgentArtifacts(sessionId, result.artifacts);
+        }
         if (result.hasReadyEvent) {
             voiceHooks.onReady(sessionId);
+
+            // Ready events in older history are not the end of the current turn
+            if (live) {
+                this.sendQueuedMessage(sessionId);
+            }
         }
     }
 
@@ -1979,6 +2583,82 @@ class Sync {
         storage.getState().applySessions(sessions);
         const newActive = storage.getState().getActiveSessions();
         this.applySessionDiff(active, newActive);
+        this.applyPermissionRules(sessions.map((s) => s.id));
+    }
+
+    /**
+     * Remember permission requests the user answered from this device, for the audit log.
+     * Answers of permission rules are kept in the rule audit instead
+     */
+    recordPermissionDecision = (sessionId: string, id: string, action: 'allow' | 'deny') => {
+        if (this.permissionRequestsDecided.has(id)) {
+            return;
+        }
+        const state = storage.getState();
+        const request = state.sessions[sessionId]?.agentState?.requests?.[id];
+        state.applyPermissionDecision({
+            id,
+            sessionId,
+            tool: request?.tool ?? 'unknown',
+            arguments: request?.arguments ?? null,
+            action,
+            sentFrom: resolveSentFrom(),
+            createdAt: Date.now()
+        });
+    }
+
+    /**
+     * Answer pending permission requests that match one of the user's rules
+     */
+    private applyPermissionRules = (sessionIds: string[]) => {
+        const state = storage.getState();
+        const rules = state.settings.permissionRules;
+        if (rules.length === 0) {
+            return;
+        }
+        for (const sessionId of sessionIds) {
+            const session = state.sessions[sessionId];
+            const requests = session?.agentState?.requests;
+            // Rules are for the user's own projects, shared sessions are answered by hand
+            if (!requests || !isSessionOwner(session)) {
+                continue;
+            }
+            const project = projectManager.getProjectForSession(sessionId)?.key
+                ?? (session.metadata?.machineId && session.metadata.path
+                    ? { machineId: session.metadata.machineId, path: session.metadata.path }
+                    : null);
+            if (!project) {
+                continue;
+            }
+            for (const [id, request] of Object.entries(requests)) {
+                if (this.permissionRequestsDecided.has(id) || session.agentState?.completedRequests?.[id]) {
+                    continue;
+                }
+                const rule = evaluatePermissionRules(rules, project, request);
+                if (!rule) {
+                    continue;
+                }
+                this.permissionRequestsDecided.add(id);
+                const answer = rule.action === 'allow'
+                    ? sessionAllow(sessionId, id, undefined, undefined, 'approved')
+                    : sessionDeny(sessionId, id, undefined, undefined, 'denied');
+                answer.then(() => {
+                    storage.getState().applyPermissionRuleAudit({
+                        id,
+                        sessionId,
+                        ruleId: rule.id,
+                        tool: request.tool,
+                        arguments: request.arguments,
+                        action: rule.action,
+                        createdAt: Date.now()
+                    });
+                }).catch((error) => {
+                    // Let the next session update try again
+                    this.permissionRequestsDecided.delete(id);
+                    log.log(`Failed to apply permission rule ${rule.id} to ${id}: ${error}`);
+                });
+            }
+        }
     }
 
     private applySessionDiff = (active: Session[], newActive: Session[]) => {
@@ -0,0 +1,249 @@
+/**
+ * Remote terminal tabs
+ * Commands run in the background on the machine and their output is polled in chunks, see terminalCommands.
+ * They go through the bash RPC of the tab's session while it's active, and through the machine daemon otherwise
+ */
+
+import { randomUUID } from 'expo-crypto';
+import { machineBash, sessionBash } from './ops';
+import { storage } from './storage';
+import { TerminalEntry, TerminalTab } from './storageTypes';
+import {
+    buildCdScript,
+    buildCleanupScript,
+    buildInterruptScript,
+    buildPollScript,
+    buildStartScript,
+    completeUtf8Length,
+    parseCdCommand,
+    parsePollOutput,
+    parseStartOutput,
+    TERMINAL_CHUNK_BYTES,
+    TerminalJob
+} from './terminalCommands';
+import { decodeUTF8 } from '@/encryption/text';
+import { delay } from '@/utils/time';
+
+const POLL_INTERVAL_MS = 500;
+const MAX_POLL_FAILURES = 5;
+const MAX_OUTPUT_CHARS = 200000;
+const MAX_ENTRIES = 100;
+
+interface RunningCommand {
+    job: TerminalJob;
+    entryId: string;
+    interrupts: number;
+}
+
+interface BashResult {
+    success: boolean;
+    stdout: string;
+    stderr: string;
+}
+
+class TerminalManager {
+    // Running command of each tab, keyed by tab id
+    private running = new Map<string, RunningCommand>();
+
+    openTab(machineId: string, cwd: string, sessionId: string | null): string {
+        const tab: TerminalTab = {
+            id: randomUUID(),
+            machineId,
+            sessionId,
+            cwd,
+            createdAt: Date.now(),
+            entries: []
+        };
+        storage.getState().applyTerminalTab(tab);
+        return tab.id;
+    }
+
+    closeTab(tabId: string) {
+        if (this.running.has(tabId)) {
+            this.interrupt(tabId, true);
+        }
+        storage.getState().removeTerminalTab(tabId);
+    }
+
+    isRunning(tabId: string): boolean {
+        return this.running.has(tabId);
+    }
+
+    /**
+     * Commands previously run on the machine, most recent first and without duplicates
+     */
+    getHistory(machineId: string): string[] {
+        const entries = Object.values(storage.getState().terminalTabs)
+            .filter((tab) => tab.machineId === machineId)
+            .flatMap((tab) => tab.entries)
+            .sort((a, b) => b.startedAt - a.startedAt);
+        return [...new Set(entries.map((entry) => entry.command))];
+    }
+
+    clear(tabId: string) {
+        const tab = this.getTab(tabId);
+        if (tab) {
+            const running = this.running.get(tabId);
+            storage.getState().applyTerminalTab({ ...tab, entries: tab.entries.filter((entry) => entry.id === running?.entryId) });
+        }
+    }
+
+    async run(tabId: string, command: string) {
+        const tab = this.getTab(tabId);
+        if (!tab || this.running.has(tabId) || !command.trim()) {
+            return;
+        }
+
+        const entry: TerminalEntry = {
+            id: randomUUID(),
+            command,
+            cwd: tab.cwd,
+            output: '',
+            status: 'running',
+            exitCode: null,
+            startedAt: Date.now()
+        };
+        storage.getState().applyTerminalTab({ ...tab, entries: [...tab.entries, entry].slice(-MAX_ENTRIES) });
+
+        const cdTarget = parseCdCommand(command);
+        if (cdTarget !== null) {
+            await this.changeDirectory(tabId, entry.id, cdTarget);
+            return;
+        }
+
+        const jobId = randomUUID();
+        const started = await this.bash(tab, buildStartScript(jobId, command));
+        const pid = started.success ? parseStartOutput(started.stdout) : null;
+        if (pid === null) {
+            this.updateEntry(tabId, entry.id, (e) => ({ ...e, status: 'failed', output: started.stderr || started.stdout }));
+            return;
+        }
+
+        const running: RunningCommand = { job: { id: jobId, pid }, entryId: entry.id, interrupts: 0 };
+        this.running.set(tabId, running);
+        try {
+            await this.poll(tab, running);
+        } finally {
+            this.running.delete(tabId);
+            this.bash(tab, buildCleanupScript(running.job));
+        }
+    }
+
+    /**
+     * Interrupt the running command like Ctrl-C, a second interrupt kills it
+     */
+    async interrupt(tabId: string, force: boolean = false) {
+        const running = this.running.get(tabId);
+        const tab = this.getTab(tabId);
+        if (!running || !tab) {
+            return;
+        }
+        running.interrupts++;
+        await this.bash(tab, buildInterruptScript(running.job, force || running.interrupts > 1));
+    }
+
+    private async poll(tab: TerminalTab, running: RunningCommand) {
+        let offset = 0;
+        let pending = new Uint8Array(0);
+        let failures = 0;
+        while (true) {
+            const result = await this.bash(tab, buildPollScript(running.job, offset));
+            if (!result.success) {
+                if (++failures >= MAX_POLL_FAILURES) {
+                    this.updateEntry(tab.id, running.entryId, (e) => ({ ...e, status: 'failed', output: appendOutput(e.output, `\n${result.stderr}`) }));
+                    return;
+                }
+                await delay(POLL_INTERVAL_MS);
+                continue;
+            }
+            failures = 0;
+
+            const { status, bytes } = parsePollOutput(result.stdout);
+            offset += bytes.length;
+            const combined = new Uint8Array(pending.length + bytes.length);
+            combined.set(pending);
+            combined.set(bytes, pending.length);
+            const complete = completeUtf8Length(combined);
+            const text = decodeUTF8(combined.slice(0, complete));
+            pending = combined.slice(complete);
+            if (text.length > 0) {
+                this.updateEntry(tab.id, running.entryId, (e) => ({ ...e, output: appendOutput(e.output, text) }));
+            }
+
+            // More output is waiting when a full chunk was read
+            if (bytes.length === TERMINAL_CHUNK_BYTES) {
+                continue;
+            }
+            if (status.type === 'running') {
+                await delay(POLL_INTERVAL_MS);
+                continue;
+            }
+
+            const interrupted = running.interrupts > 0;
+            this.updateEntry(tab.id, running.entryId, (e) => ({
+                ...e,
+                status: status.type === 'exited' ? (interrupted ? 'interrupted' : 'exited') : (interrupted ? 'interrupted' : 'failed'),
+                exitCode: status.type === 'exited' ? status.exitCode : null
+            }));
+            return;
+        }
+    }
+
+    private async changeDirectory(tabId: string, entryId: string, target: string) {
+        const tab = this.getTab(tabId);
+        if (!tab) {
+            return;
+        }
+        const result = await this.bash(tab, buildCdScript(tab.cwd, target));
+        const cwd = result.stdout.trim();
+        if (result.success && cwd) {
+            const current = this.getTab(tabId);
+            if (current) {
+                storage.getState().applyTerminalTab({ ...current, cwd });
+            }
+            this.updateEntry(tabId, entryId, (e) => ({ ...e, status: 'exited', exitCode: 0 }));
+        } else {
+            this.updateEntry(tabId, entryId, (e) => ({ ...e, status: 'exited', exitCode: 1, output: result.stderr }));
+        }
+    }
+
+    private async bash(tab: TerminalTab, command: string): Promise<BashResult> {
+        const session = tab.sessionId ? storage.getState().sessions[tab.sessionId] : null;
+        if (session?.active) {
+            const result = await sessionBash(session.id, { command, cwd: tab.cwd, timeout: 30000 });
+            return {
+                success: result.success && result.exitCode === 0,
+                stdout: result.stdout,
+                stderr: result.stderr || result.error || ''
+            };
+        }
+        const result = await machineBash(tab.machineId, command, tab.cwd);
+        return {
+            success: result.success && result.exitCode === 0,
+            stdout: result.stdout,
+            stderr: result.stderr
+        };
+    }
+
+    private getTab(tabId: string): TerminalTab | null {
+        return storage.getState().terminalTabs[tabId] ?? null;
+    }
+
+    private updateEntry(tabId: string, entryId: string, update: (entry: TerminalEntry) => TerminalEntry) {
+        const tab = this.getTab(tabId);
+        if (!tab) {
+            return;
+        }
+        storage.getState().applyTerminalTab({
+            ...tab,
+            entries: tab.entries.map((entry) => entry.id === entryId ? update(entry) : entry)
+        });
+    }
+}
+
+function appendOutput(output: string, text: string): string {
+    const combined = output + text;
+    return combined.length > MAX_OUTPUT_CHARS ? combined.slice(combined.length - MAX_OUTPUT_CHARS) : combined;
+}
+
+export const terminalManager = new TerminalManager();
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { buildCdScript, buildPollScript, completeUtf8Length, parseCdCommand, parsePollOutput, parseStartOutput } from './terminalCommands';
+
+describe('terminalCommands', () => {
+    it('should parse the pid of a started job', () => {
+        expect(parseStartOutput('4242\n')).toBe(4242);
+        expect(parseStartOutput('')).toBeNull();
+    });
+
+    it('should read output from the next offset', () => {
+        const script = buildPollScript({ id: 'job1', pid: 10 }, 100, 50);
+        expect(script).toContain('tail -c +101');
+        expect(script).toContain('head -c 50');
+        expect(script).toContain('kill -0 10');
+    });
+
+    it('should parse status and output of a poll', () => {
+        const running = parsePollOutput('running\naGVs\nbG8=\n');
+        expect(running.status).toEqual({ type: 'running' });
+        expect(new TextDecoder().decode(running.bytes)).toBe('hello');
+        expect(parsePollOutput('exit:2\n').status).toEqual({ type: 'exited', exitCode: 2 });
+        expect(parsePollOutput('lost\n').bytes).toHaveLength(0);
+    });
+
+    it('should keep incomplete UTF-8 characters for the next chunk', () => {
+        const bytes = new TextEncoder().encode('aé€😀');
+        expect(completeUtf8Length(bytes)).toBe(bytes.length);
+        expect(completeUtf8Length(bytes.slice(0, bytes.length - 1))).toBe(bytes.length - 4);
+        expect(completeUtf8Length(bytes.slice(0, 2))).toBe(1);
+        expect(completeUtf8Length(new Uint8Array(0))).toBe(0);
+    });
+
+    it('should recognize directory changes', () => {
+        expect(parseCdCommand('cd src/app ')).toBe('src/app');
+        expect(parseCdCommand('cd')).toBe('~');
+        expect(parseCdCommand('cd src && ls')).toBeNull();
+        expect(parseCdCommand('cdk deploy')).toBeNull();
+        expect(buildCdScript('/home/me', '..')).toBe(`cd '/home/me' && cd .. && pwd`);
+    });
+});
@@ -0,0 +1,132 @@
+/**
+ * Shell scripts behind the remote terminal
+ * Bash RPCs only return once a command finished, so commands are started in the background with
+ * their output written to a file on the machine, which is then read back in chunks while they run
+ */
+
+import { shellQuote } from '@/utils/shellQuote';
+import { decodeBase64 } from '@/encryption/base64';
+
+export interface TerminalJob {
+    id: string;
+    pid: number;
+}
+
+export type TerminalJobStatus =
+    | { type: 'running' }
+    | { type: 'exited'; exitCode: number }
+    | { type: 'lost' }; // The process is gone without recording an exit code, e.g. killed by a signal
+
+export const TERMINAL_CHUNK_BYTES = 64 * 1024;
+
+function jobDir(jobId: string): string {
+    return `"\${TMPDIR:-/tmp}/happy-terminal-${jobId}"`;
+}
+
+/**
+ * Start the command in the background and print the pid of the job. Background jobs of a
+ * non-interactive shell ignore SIGINT, so where perl is available the command gets its own
+ * process group with SIGINT restored, which lets an interrupt reach everything it started
+ */
+export function buildStartScript(jobId: string, command: string): string {
+    return [
+        `dir=${jobDir(jobId)}`,
+        'mkdir -p "$dir"',
+        `run='echo $$ > "$1/pid"; exec sh -c "$2"'`,
+        `cmd=${shellQuote(command)}`,
+        'export FORCE_COLOR=1 CLICOLOR_FORCE=1',
+        'if command -v perl > /dev/null 2>&1; then',
+        `  ( perl -e 'setpgrp(0, 0); $SIG{INT} = "DEFAULT"; exec @ARGV' sh -c "$run" sh "$dir" "$cmd"; echo $? > "$dir/exit" ) > "$dir/out" 2>&1 < /dev/null &`,
+        'else',
+        '  ( sh -c "$run" sh "$dir" "$cmd"; echo $? > "$dir/exit" ) > "$dir/out" 2>&1 < /dev/null &',
+        'fi',
+        'echo $!'
+    ].join('\n');
+}
+
+export function parseStartOutput(stdout: string): number | null {
+    const pid = parseInt(stdout.trim(), 10);
+    return Number.isFinite(pid) && pid > 0 ? pid : null;
+}
+
+/**
+ * Print the job status on the first line, followed by up to limit bytes of output from offset as base64.
+ * The status is taken before reading the output, so once exited the output read is complete
+ */
+export function buildPollScript(job: TerminalJob, offset: number, limit: number = TERMINAL_CHUNK_BYTES): string {
+    return [
+        `dir=${jobDir(job.id)}`,
+        `if [ -f "$dir/exit" ]; then echo "exit:$(cat "$dir/exit")"; elif kill -0 ${job.pid} 2>/dev/null; then echo running; else echo lost; fi`,
+        `tail -c +${offset + 1} "$dir/out" 2>/dev/null | head -c ${limit} | base64`
+    ].join('\n');
+}
+
+export function parsePollOutput(stdout: string): { status: TerminalJobStatus, bytes: Uint8Array } {
+    const newline = stdout.indexOf('\n');
+    const statusLine = (newline === -1 ? stdout : stdout.slice(0, newline)).trim();
+    const encoded = newline === -1 ? '' : stdout.slice(newline + 1).replace(/\s+/g, '');
+    let status: TerminalJobStatus;
+    if (statusLine.startsWith('exit:')) {
+        const exitCode = parseInt(statusLine.slice(5), 10);
+        status = Number.isFinite(exitCode) ? { type: 'exited', exitCode } : { type: 'lost' };
+    } else if (statusLine === 'running') {
+        status = { type: 'running' };
+    } else {
+        status = { type: 'lost' };
+    }
+    return { status, bytes: encoded.length > 0 ? decodeBase64(encoded) : new Uint8Array(0) };
+}
+
+/**
+ * Send SIGINT like Ctrl-C, or SIGKILL when forced, to the process group of the command
+ */
+export function buildInterruptScript(job: TerminalJob, force: boolean): string {
+    const signal = force ? 'KILL' : 'INT';
+    return [
+        `p=$(cat ${jobDir(job.id)}/pid 2>/dev/null)`,
+        `[ -n "$p" ] && { kill -s ${signal} -- "-$p" 2>/dev/null || kill -s ${signal} "$p"; }`
+    ].join('\n');
+}
+
+export function buildCleanupScript(job: TerminalJob): string {
+    return `rm -rf ${jobDir(job.id)}`;
+}
+
+/**
+ * Length of the prefix of bytes that ends on a complete UTF-8 character,
+ * chunks can split a multi-byte character and the rest arrives with the next chunk
+ */
+export function completeUtf8Length(bytes: Uint8Array): number {
+    const length = bytes.length;
+    // A character is at most 4 bytes, so only the last 3 bytes can start an incomplete one
+    for (let i = length - 1; i >= Math.max(0, length - 3); i--) {
+        const byte = bytes[i];
+        if ((byte & 0xc0) === 0x80) {
+            continue; // Continuation byte
+        }
+        const size = byte >= 0xf0 ? 4 : byte >= 0xe0 ? 3 : byte >= 0xc0 ? 2 : 1;
+        return i + size > length ? i : length;
+    }
+    return length;
+}
+
+/**
+ * Commands run in separate processes, so a directory change is applied to the terminal instead.
+ * Returns the target of a plain `cd` command, or null for other commands
+ */
+export function parseCdCommand(command: string): string | null {
+    // Combined commands like `cd src && npm test` run as they are
+    const match = command.trim().match(/^cd(?:\s+([^;&|<>`\n]+))?$/);
+    if (!match) {
+        return null;
+    }
+    return match[1]?.trim() || '~';
+}
+
+/**
+ * Resolve the directory a `cd` to target leads to from cwd, printed by the script
+ */
+export function buildCdScript(cwd: string, target: string): string {
+    // The target is left unquoted so ~ and variables expand like in a shell
+    return `cd ${shellQuote(cwd)} && cd ${target} && pwd`;
+}
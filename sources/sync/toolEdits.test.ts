@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { collectEditToolCalls, toolEdits } from './toolEdits';
+import { repoMetadata as metadata, toolCall, toolCallMessage } from './__testdata__/toolMessages';
+
+describe('toolEdits', () => {
+    it('should collect completed edit calls from the given time on, including nested ones', () => {
+        const nested = toolCallMessage(20, 'Edit', {});
+        const messages = [
+            toolCallMessage(5, 'Write', {}),
+            toolCallMessage(10, 'Task', {}, { children: [nested] }),
+            toolCallMessage(30, 'Edit', {}, { state: 'running' }),
+            toolCallMessage(40, 'Bash', {})
+        ];
+        expect(collectEditToolCalls(messages, 10)).toEqual([nested.tool]);
+    });
+
+    it('should read the changes of every edit tool', () => {
+        expect(toolEdits(toolCall('MultiEdit', { file_path: '/repo/a.ts', edits: [{ old_string: 'a', new_string: 'b' }, { old_string: 'c', new_string: 'd' }] }), metadata)).toEqual([
+            { path: 'a.ts', kind: 'replace', oldText: 'a', newText: 'b' },
+            { path: 'a.ts', kind: 'replace', oldText: 'c', newText: 'd' }
+        ]);
+        expect(toolEdits(toolCall('Write', { file_path: '/repo/b.ts', content: 'x' }), metadata)).toEqual([
+            { path: 'b.ts', kind: 'write', oldText: '', newText: 'x' }
+        ]);
+        expect(toolEdits(toolCall('CodexPatch', { changes: {
+            '/repo/c.ts': { modify: { old_content: 'o', new_content: 'n' } },
+            '/repo/d.ts': { add: { content: 'new' } },
+            '/repo/e.ts': { delete: { content: 'gone' } }
+        } }), metadata).map((edit) => edit.kind)).toEqual(['rewrite', 'add', 'delete']);
+        expect(toolEdits(toolCall('Bash', { command: 'ls' }), metadata)).toEqual([]);
+    });
+});
@@ -0,0 +1,81 @@
+/**
+ * File changes made by the file editing tools of the agent
+ * Shared by the change review and diff comments, which both read Edit, MultiEdit, Write and
+ * CodexPatch calls back out of the session
+ */
+
+import { Message, ToolCall } from './typesMessage';
+import { Metadata } from './storageTypes';
+import { resolvePath } from '@/utils/pathUtils';
+
+export const EDIT_TOOLS = ['Edit', 'MultiEdit', 'Write', 'CodexPatch'];
+
+export interface ToolEdit {
+    path: string;
+    // replace: oldText was replaced by newText somewhere in the file
+    // rewrite: both texts are the whole file
+    // write, add: newText is the whole file, what was there before is unknown or nothing
+    // delete: oldText was the whole file
+    kind: 'replace' | 'rewrite' | 'write' | 'add' | 'delete';
+    oldText: string;
+    newText: string;
+}
+
+/**
+ * Completed edit tool calls from `since` on, including the ones nested in tasks
+ */
+export function collectEditToolCalls(messages: Message[], since: number, into: ToolCall[] = []): ToolCall[] {
+    for (const message of messages) {
+        if (message.kind !== 'tool-call') {
+            continue;
+        }
+        if (message.createdAt >= since && EDIT_TOOLS.includes(message.tool.name) && message.tool.state === 'completed') {
+            into.push(message.tool);
+        }
+        collectEditToolCalls(message.children, since, into);
+    }
+    return into;
+}
+
+/**
+ * Changes of one tool call in the order the tool made them, MultiEdit gives one per edit
+ */
+export function toolEdits(tool: ToolCall, metadata: Metadata | null): ToolEdit[] {
+    const input = tool.input ?? {};
+
+    if (tool.name === 'CodexPatch') {
+        if (!input.changes || typeof input.changes !== 'object') {
+            return [];
+        }
+        return Object.entries(input.changes as Record<string, any>).flatMap(([file, change]): ToolEdit[] => {
+            const path = resolvePath(file, metadata);
+            if (change?.modify) {
+                return [{ path, kind: 'rewrite', oldText: change.modify.old_content ?? '', newText: change.modify.new_content ?? '' }];
+            }
+            if (change?.add) {
+                return [{ path, kind: 'add', oldText: '', newText: change.add.content ?? '' }];
+            }
+            if (change?.delete) {
+                return [{ path, kind: 'delete', oldText: change.delete.content ?? '', newText: '' }];
+            }
+            return [];
+        });
+    }
+
+    if (typeof input.file_path !== 'string') {
+        return [];
+    }
+    const path = resolvePath(input.file_path, metadata);
+    switch (tool.name) {
+        case 'Edit':
+            return [{ path, kind: 'replace', oldText: input.old_string ?? '', newText: input.new_string ?? '' }];
+        case 'MultiEdit':
+            return (Array.isArray(input.edits) ? input.edits : []).map((edit: any): ToolEdit => ({
+                path, kind: 'replace', oldText: edit?.old_string ?? '', newText: edit?.new_string ?? ''
+            }));
+        case 'Write':
+            return [{ path, kind: 'write', oldText: '', newText: typeof input.content === 'string' ? input.content : '' }];
+        default:
+            return [];
+    }
+}
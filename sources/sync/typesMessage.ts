@@ -1,5 +1,6 @@
 import { AgentEvent } from "./typesRaw";
 import { MessageMeta } from "./typesMessageMeta";
+import { AgentArtifact } from "./agentArtifacts";
 
 export type ToolCall = {
     name: string;
@@ -47,6 +48,7 @@ export type AgentTextMessage = {
     createdAt: number;
     text: string;
     meta?: MessageMeta;
+    artifacts?: AgentArtifact[]; // Blocks the agent published as artifacts, taken out of the text
 }
 
 export type ToolCallMessage = {
@@ -364,6 +364,14 @@ export const en = {
         failedToDeleteSession: 'Failed to delete session',
         sessionDeleted: 'Session deleted successfully',
         
+        exportConversation: 'Export Conversation',
+        exportMarkdown: 'Markdown',
+        exportMarkdownSubtitle: 'Readable transcript with tool calls',
+        exportJson: 'JSON',
+        exportJsonSubtitle: 'Complete data including permissions and sidechains',
+        exportHtml: 'HTML',
+        exportHtmlSubtitle: 'Self-contained page that opens in any browser',
+        exportFailed: 'Failed to export conversation',
     },
 
     components: {
@@ -423,6 +431,7 @@ export const en = {
         suggestion: {
             fileLabel: 'FILE',
             folderLabel: 'FOLDER',
+            templateLabel: 'TEMPLATE',
         },
         noMachinesAvailable: 'No machines',
     },
@@ -523,6 +532,23 @@ export const en = {
         file: 'File',
         fileEmpty: 'File is empty',
         noChanges: 'No changes to display',
+        stageAll: 'Stage All',
+        unstageAll: 'Unstage All',
+        stageHunk: 'Stage Hunk',
+        unstageHunk: 'Unstage Hunk',
+        unstagedDiff: 'Unstaged',
+        stagedDiff: 'Staged',
+        commitMessagePlaceholder: 'Commit message',
+        commitMessageRequired: 'Enter a commit message first.',
+        draftCommitMessage: 'Ask Agent',
+        draftCommitMessageTimeout: 'The agent did not reply with a commit message in time.',
+        commit: ({ count }: { count: number }) => `Commit ${count} ${count === 1 ? 'file' : 'files'}`,
+        pull: 'Pull',
+        push: 'Push',
+        pullCount: ({ count }: { count: number }) => `Pull ${count}`,
+        pushCount: ({ count }: { count: number }) => `Push ${count}`,
+        gitFailed: 'Git Command Failed',
+        edit: 'Edit',
     },
 
     settingsVoice: {
@@ -678,7 +704,25 @@ export const en = {
         enjoyingApp: 'Enjoying the app?',
         feedbackPrompt: "We'd love to hear your feedback!",
         yesILoveIt: 'Yes, I love it!',
-        notReally: 'Not really'
+        notReally: 'Not really',
+        title: 'Review Changes',
+        openSubtitle: 'Keep, revert or comment on what the agent changed',
+        sinceLastPrompt: 'Since last prompt',
+        wholeSession: 'Whole session',
+        summary: ({ files, hunks }: { files: number; hunks: number }) => `${files} file${files !== 1 ? 's' : ''}, ${hunks} change${hunks !== 1 ? 's' : ''}`,
+        noChanges: 'No changes since the checkpoint',
+        notByAgent: 'Not changed by the agent',
+        agentEdit: 'Agent edit',
+        fileWrite: 'Whole file written, can\'t be reverted',
+        keep: 'Keep',
+        revert: 'Revert',
+        comment: 'Comment',
+        commentDescription: 'Sent to the agent together with the rest of the review.',
+        commentPlaceholder: 'What should change here?',
+        apply: ({ reverts, comments }: { reverts: number; comments: number }) => `Apply review (${reverts} reverted, ${comments} comment${comments !== 1 ? 's' : ''})`,
+        sentMessage: ({ comments, reverts }: { comments: number; reverts: number }) => `Review: ${comments} comment${comments !== 1 ? 's' : ''}, ${reverts} reverted`,
+        revertFailed: ({ count }: { count: number }) => `${count} change${count !== 1 ? 's' : ''} couldn't be reverted`,
+        revertFailedDescription: 'The file changed since the review was loaded. These changes were kept and not reported as reverted.',
     },
 
     items: {
@@ -718,6 +762,9 @@ export const en = {
         unknownEvent: 'Unknown event',
         usageLimitUntil: ({ time }: { time: string }) => `Usage limit reached until ${time}`,
         unknownTime: 'unknown time',
+        deliveryQueued: 'Waiting for connection',
+        deliverySending: 'Sending...',
+        deliveryFailed: 'Not delivered',
     },
 
     codex: {
@@ -781,6 +828,42 @@ export const en = {
         saving: 'Saving...',
         loading: 'Loading artifacts...',
         error: 'Failed to load artifact',
+        history: 'History',
+        revisions: 'Revisions',
+        noRevisions: 'No saved revisions yet',
+        historyFooter: 'Every save keeps an encrypted revision. Select one revision to compare it with the current one, or two to compare them with each other.',
+        historyError: 'Failed to load the history',
+        currentRevision: 'Current',
+        revisionUnreadable: 'Could not decrypt this revision',
+        savedFrom: ({ device }: { device: string }) => `Saved from ${device}`,
+        savedFromUnknown: 'Saved from an unknown device',
+        compareWithCurrent: 'Compare with Current',
+        compareSelected: 'Compare Selected',
+        compareTitle: 'Compare Revisions',
+        compareRange: ({ from, to }: { from: string; to: string }) => `${from} → ${to}`,
+        revisionNotFound: 'Revision not found',
+        restore: 'Restore',
+        restoreConfirm: 'Restore this revision?',
+        restoreConfirmDescription: ({ date }: { date: string }) => `The artifact goes back to how it was on ${date}. The current content stays in the history.`,
+        restoreError: 'Failed to restore the revision. Please try again.',
+        untitled: 'Untitled',
+        saveAsArtifact: 'Save as Artifact',
+        savedAsArtifact: 'Saved as artifact',
+        open: 'Open',
+        publishedByAgent: 'Artifact published by the agent',
+        publishing: 'Saving artifact...',
+        typeLabel: 'TYPE',
+        typeMarkdown: 'Text',
+        typeCode: 'Code',
+        typeDiagram: 'Diagram',
+        typeChecklist: 'Checklist',
+        languageLabel: 'LANGUAGE',
+        languagePlaceholder: 'e.g. typescript',
+        diagramPlaceholder: 'Mermaid diagram, e.g. graph TD; A-->B',
+        checklistItemPlaceholder: 'Item',
+        addChecklistItem: 'Add Item',
+        removeChecklistItem: 'Remove item',
+        checklistProgress: ({ done, total }: { done: number; total: number }) => `${done} of ${total} done`,
     },
 
     friends: {
@@ -854,6 +937,329 @@ export const en = {
         friendRequestGeneric: 'New friend request',
         friendAccepted: ({ name }: { name: string }) => `You are now friends with ${name}`,
         friendAcceptedGeneric: 'Friend request accepted',
+        sessionShared: ({ name }: { name: string }) => `${name} shared a session with you`,
+        templateShared: ({ name }: { name: string }) => `${name} sent you a prompt template`,
+    },
+
+    sessionSearch: {
+        // Used by message search screen
+        title: 'Search Messages',
+        placeholder: 'Search all sessions',
+        hint: 'Find messages, tool calls and file paths from sessions on this device',
+        noResults: 'No matching messages',
+        matches: ({ count }: { count: number }) => `${count} ${count === 1 ? 'match' : 'matches'}`,
+    },
+
+    permissionRules: {
+        // Per project rules that answer permission requests automatically
+        title: 'Permission Rules',
+        subtitle: 'Automatically allow or deny tool requests',
+        sessionSubtitle: 'Rules for this project',
+        projects: 'Projects',
+        projectsFooter: 'Rules apply to sessions started in the same folder on the same machine and sync across your devices',
+        noProjects: 'No projects yet',
+        rulesCount: ({ count }: { count: number }) => `${count} ${count === 1 ? 'rule' : 'rules'}`,
+        rules: 'Rules',
+        rulesFooter: ({ path, machine }: { path: string; machine: string }) => `Applies to ${path} on ${machine}. Deny rules win over allow rules, and chained shell commands are never allowed automatically. Tap a rule to delete it.`,
+        noRules: 'No rules for this project',
+        addRule: 'Add Rule',
+        toolPlaceholder: 'Tool name, e.g. Bash, Edit or * for any',
+        matchAny: 'Any arguments',
+        matchPathGlob: 'File path glob',
+        matchCommandPrefix: 'Command prefix',
+        pathGlobPlaceholder: 'src/**/*.ts',
+        commandPrefixPlaceholder: 'npm test',
+        allow: 'Allow',
+        deny: 'Deny',
+        allowed: 'Allowed',
+        denied: 'Denied',
+        delete: 'Delete',
+        deleteRule: 'Delete Rule',
+        deleteRuleConfirm: 'Matching requests will ask for your approval again.',
+        toolRequired: 'Enter a tool name',
+        patternRequired: 'Enter a pattern for this rule',
+        recentDecisions: 'Recent Automatic Decisions',
+    },
+
+    permissionAudit: {
+        // Log of permission decisions per session and project
+        title: 'Permission Log',
+        sessionSubtitle: 'Every permission decision in this session',
+        projectSubtitle: 'Every permission decision in this project',
+        allSubtitle: 'Permission decisions across all sessions',
+        approved: 'Approved',
+        denied: 'Denied',
+        canceled: 'Canceled',
+        allOutcomes: 'All',
+        allTools: 'All tools',
+        decidedByRule: 'Permission rule',
+        decidedByYou: ({ device }: { device: string }) => `You on ${device}`,
+        decidedElsewhere: 'Terminal or another device',
+        decision: ({ decision }: { decision: string }) => `Decision: ${decision}`,
+        mode: ({ mode }: { mode: string }) => `Mode: ${mode}`,
+        decisions: 'Decisions',
+        footer: 'Who decided is known for decisions made on this device. Tap a decision to see its full arguments.',
+        empty: 'No permission decisions',
+        exportCsv: 'Export CSV',
+        exportCsvSubtitle: ({ count }: { count: number }) => `${count} ${count === 1 ? 'decision' : 'decisions'} matching the filters`,
+        exportFailed: 'Failed to export permission log',
+    },
+
+    pendingPermissions: {
+        // Batch approval of pending permission requests
+        title: 'Pending Requests',
+        pill: ({ count }: { count: number }) => `${count} permission requests waiting`,
+        requests: ({ count }: { count: number }) => `${count} ${count === 1 ? 'request' : 'requests'}`,
+        requestsFooter: 'Tap a request to include or exclude it. Changes of selected requests are shown below, grouped by file.',
+        selectAll: 'Select All',
+        selectNone: 'Select None',
+        approveSelected: ({ count }: { count: number }) => `Approve ${count} selected`,
+        denySelected: ({ count }: { count: number }) => `Deny ${count} selected`,
+        empty: 'No pending permission requests',
+        failed: 'Failed to answer some permission requests',
+    },
+
+    sessionFork: {
+        // Forking a session from a message
+        fork: 'Fork',
+        forkInWorktree: 'Fork in New Worktree',
+        forking: 'Forking…',
+        title: 'Fork From Here',
+        message: 'Start a new session on the same machine with a summary of the conversation up to this message. The message is put into the new session\'s input so you can edit it before sending.',
+        failed: ({ error }: { error: string }) => `Failed to fork session: ${error}`,
+        subtitle: ({ subtitle, name }: { subtitle: string; name: string }) => `${subtitle} · forked from ${name}`,
+        lineage: 'Forks',
+        forkedFrom: 'Forked From',
+        forkCreated: ({ date }: { date: string }) => `Fork created ${date}`,
+    },
+
+    sessionDashboard: {
+        // Multi-session dashboard
+        title: 'Dashboard',
+        layout: 'Layout',
+        columns2: 'Two Columns',
+        columns3: 'Three Columns',
+        grid4: 'Grid of Four',
+        pickSession: 'Show Session',
+        noSessions: 'All sessions are already shown.',
+        closePane: 'Close Pane',
+    },
+
+    fileEditor: {
+        // In-app file editor
+        unsaved: 'Unsaved changes',
+        yourVersion: 'your version',
+        diskVersion: 'version on disk',
+        conflictTitle: 'The file changed on disk',
+        conflictCount: ({ count }: { count: number }) => `${count} ${count === 1 ? 'region conflicts' : 'regions conflict'} with your edits. Conflicts are marked in the merged version.`,
+        conflictMergeable: 'Your edits don\'t overlap the changes on disk and can be merged.',
+        useMerged: 'Use Merged',
+        keepMine: 'Keep Mine',
+        useDisk: 'Use Disk',
+        changesOnDisk: 'Changes on disk',
+        yourChanges: 'Your changes',
+    },
+
+    codeSearch: {
+        // Project-wide code search
+        title: 'Search Code',
+        placeholder: 'Search in project',
+        includePlaceholder: 'Include, e.g. src/**',
+        excludePlaceholder: 'Exclude, e.g. *.test.ts',
+        hint: 'Search file contents with plain text or regular expressions. Tap a line to open it, or the comment icon to reference it in your message.',
+        searching: 'Searching…',
+        summary: ({ matches, files }: { matches: number; files: number }) => `${matches} ${matches === 1 ? 'match' : 'matches'} in ${files} ${files === 1 ? 'file' : 'files'}`,
+        truncated: 'Only the first 200 files are shown, narrow the search to see more.',
+    },
+
+    remoteTerminal: {
+        // Remote terminal
+        title: 'Terminal',
+        open: 'Open Terminal',
+        openSessionSubtitle: 'Run commands in the session\'s working directory',
+        openMachineSubtitle: 'Run commands in your home directory',
+        placeholder: 'Command',
+        running: 'Running… tap ^C to interrupt',
+        hint: 'Commands run on the machine without a TTY, so interactive programs won\'t work. Tap ^C once to interrupt and again to kill.',
+        noTabs: 'No open tabs. Tap + to open one.',
+        interrupted: 'Interrupted',
+        failed: 'Lost track of the command',
+        exitCode: ({ code }: { code: number }) => `Exited with code ${code}`,
+    },
+
+    gitHistory: {
+        // Commit history and branches
+        title: 'History',
+        commitTitle: 'Commit',
+        commits: 'Commits',
+        branches: 'Branches',
+        allBranches: 'All branches',
+        showAll: 'Show all',
+        showCurrent: 'Current only',
+        noCommits: 'No commits yet',
+        checkout: 'Check out',
+        viewHistory: 'View history',
+        newBranch: 'New Branch',
+        newBranchDescription: 'The branch starts at the current commit and is checked out.',
+        branchNamePlaceholder: 'feature/my-change',
+        createBranch: 'Create',
+        noUpstream: 'No upstream',
+        upstreamGone: ({ upstream }: { upstream: string }) => `${upstream} (gone)`,
+        mergeOf: ({ parents }: { parents: string }) => `Merge of ${parents}`,
+        changeSummary: ({ files, insertions, deletions }: { files: number; insertions: number; deletions: number }) => `${files} file${files !== 1 ? 's' : ''} changed, +${insertions} -${deletions}`,
+        binary: 'binary',
+        binaryNotShown: 'Binary files are not shown',
+    },
+
+    diffComments: {
+        // Comments on diff lines
+        title: 'Diff Comments',
+        commentOnLine: ({ line }: { line: number }) => `Comment on line ${line}`,
+        line: ({ line }: { line: number }) => `line ${line}`,
+        placeholder: 'What should the agent change?',
+        empty: 'Long-press a line in the diff of an edit to comment on it.',
+        pending: 'Not sent',
+        sent: 'Sent',
+        resolved: 'Resolved',
+        send: ({ count }: { count: number }) => count > 0 ? `Send ${count} comment${count !== 1 ? 's' : ''} to agent` : 'No comments to send',
+        pill: ({ count }: { count: number }) => `${count} diff comment${count !== 1 ? 's' : ''} to send`,
+        sentMessage: ({ count }: { count: number }) => `Comments on ${count} diff line${count !== 1 ? 's' : ''}`,
+        clearResolved: ({ count }: { count: number }) => `Clear ${count} resolved`,
+    },
+
+    scheduledPrompts: {
+        // Scheduled and recurring prompts
+        title: 'Scheduled Prompts',
+        subtitle: 'Send prompts to agents on a recurring schedule',
+        schedulePrompt: 'Schedule a Prompt',
+        schedulePromptSubtitle: 'Send a prompt to this session on a schedule',
+        new: 'New Scheduled Prompt',
+        edit: 'Edit Scheduled Prompt',
+        empty: 'Add a scheduled prompt',
+        footer: 'Prompts run while the app is open on one of your devices. Missed runs are caught up within six hours.',
+        missingSession: 'Session not found',
+        newSessionIn: ({ path, machine }: { path: string; machine: string }) => `New session in ${path} on ${machine}`,
+        nextRun: ({ time }: { time: string }) => `Next run: ${time}`,
+        paused: 'Paused',
+        neverRun: 'Not run yet',
+        running: 'Running…',
+        lastRunSuccess: ({ time }: { time: string }) => `Last run ${time}: sent`,
+        lastRunError: ({ time, error }: { time: string; error: string }) => `Last run ${time} failed: ${error}`,
+        invalidSchedule: 'Invalid schedule',
+        neverRuns: 'This schedule never runs',
+        scheduleFooter: 'Invalid schedule. Use minute, hour, day of month, month and day of week like cron, for example "0 9 * * 1-5" for weekdays at 9:00, or @hourly, @daily and @weekly.',
+        presetHourly: 'Every hour',
+        presetDaily: 'Every day at 9:00',
+        presetWeekdays: 'Weekdays at 9:00',
+        presetWeekly: 'Mondays at 9:00',
+        prompt: 'Prompt',
+        titlePlaceholder: 'Name, e.g. Morning CI check',
+        promptPlaceholder: 'What should the agent do?',
+        schedule: 'Schedule',
+        existingSession: 'Send to Session',
+        noActiveSessions: 'No active sessions',
+        newSession: 'Start a New Session',
+        newSessionFooter: 'A new session is started in the project for every run.',
+        agent: 'Agent',
+        fieldsRequired: 'Enter a name and a prompt',
+        targetRequired: 'Choose a session or a project to send the prompt to',
+        runNow: 'Run Now',
+        openLastSession: 'Open Last Session',
+        delete: 'Delete Scheduled Prompt',
+        deleteConfirm: ({ title }: { title: string }) => `"${title}" will no longer run on any device.`,
+    },
+
+    promptTemplates: {
+        // Prompt template library
+        title: 'Prompt Templates',
+        subtitle: 'Reusable prompts for the / menu',
+        footer: 'Type / in a session to insert a template. Placeholders like {{issue}} are filled in right before inserting.',
+        empty: 'Add a template',
+        new: 'New Template',
+        edit: 'Edit Template',
+        template: 'Template',
+        namePlaceholder: 'Name, e.g. Clarify task',
+        descriptionPlaceholder: 'Description (optional)',
+        commandFooter: ({ command }: { command: string }) => `Insert with /${command}`,
+        body: 'Prompt',
+        bodyPlaceholder: 'Fix {{issue}} and add a test for it',
+        variablesFooter: ({ variables }: { variables: string }) => `Asked for when inserting: ${variables}`,
+        noVariablesFooter: 'Use {{name}} for parts that change each time.',
+        variablesCount: ({ count }: { count: number }) => `${count} variable${count !== 1 ? 's' : ''}`,
+        fieldsRequired: 'Enter a name and a prompt',
+        variablePlaceholder: ({ name }: { name: string }) => `Value for ${name}`,
+        insert: 'Insert',
+        share: 'Share',
+        shareLink: 'Share Link',
+        shareFooter: 'The link contains the whole template. Whoever opens it can add it to their library.',
+        shareMessage: ({ template, link }: { template: string; link: string }) => `Prompt template "${template}": ${link}`,
+        linkFrom: ({ name }: { name: string }) => `The link says it's from ${name}, this is not verified`,
+        delete: 'Delete Template',
+        deleteConfirm: ({ name }: { name: string }) => `"${name}" will be removed from all your devices.`,
+        importTitle: 'Import Template',
+        importMessage: 'Paste a template link someone shared with you',
+        import: 'Import',
+        invalidLink: 'This is not a valid template link',
+        addToLibrary: 'Add to My Templates',
+        sendToFriends: 'Send to Friends',
+        sendToFriendsFooter: 'The template is encrypted for the friend and shows up in their feed.',
+        sent: 'Template Sent',
+        sentTo: ({ name, template }: { name: string; template: string }) => `${name} can now add "${template}" from their feed.`,
+        friendNeedsUpdate: ({ name }: { name: string }) => `${name} needs to open the latest version of the app before you can send them templates.`,
+        sharedBy: ({ name }: { name: string }) => `Sent by ${name}`,
+        cannotOpenShare: 'This template can\'t be opened on this account',
+    },
+
+    messageQueue: {
+        // Prompts queued while the agent is thinking
+        title: ({ count }: { count: number }) => `${count} queued · sent when the agent is ready`,
+        editTitle: 'Edit Queued Message',
+        moveUp: 'Move up',
+        moveDown: 'Move down',
+        sendNow: 'Send now',
+        remove: 'Remove from queue',
+        queue: 'Queue until the agent is ready',
+    },
+
+    attachments: {
+        // Images and files attached to messages
+        title: 'Attach',
+        attach: 'Attach images or files',
+        photoLibrary: 'Photos & Screenshots',
+        files: 'Files',
+        remove: 'Remove attachment',
+        uploadFailed: 'Upload Failed',
+    },
+
+    sessionSharing: {
+        // Sharing sessions with friends
+        title: 'Share with Friends',
+        openSubtitle: 'Let friends follow or work in this session',
+        sharedWith: 'Shared With',
+        notShared: 'Not shared with anyone',
+        friends: 'Friends',
+        noFriends: 'No other friends to share with',
+        footer: 'The session key is encrypted for each friend, the server never sees the conversation. Viewers can follow along, collaborators can also send messages and answer permission requests.',
+        roleViewer: 'Can view',
+        roleCollaborator: 'Can send messages and approve',
+        shareWith: ({ name }: { name: string }) => `Share with ${name}`,
+        chooseRole: 'What should they be able to do?',
+        changeTo: ({ role }: { role: string }) => `Change to: ${role}`,
+        stopSharing: 'Stop Sharing',
+        legacySession: 'This session was created by an older version of the CLI and can\'t be shared.',
+        friendNeedsUpdate: ({ name }: { name: string }) => `${name} needs to open the latest version of the app before you can share sessions with them.`,
+        sharedWithMe: 'Shared with me',
+        sharedBy: ({ name }: { name: string }) => `Shared by ${name}`,
+        viewOnly: ({ name }: { name: string }) => `View only · shared by ${name}`,
+    },
+
+    sessionPresence: {
+        // Other people looking at a shared session
+        someone: 'Someone',
+        typing: ({ name }: { name: string }) => `${name} is typing…`,
+        reviewingPermission: ({ name }: { name: string }) => `${name} is reviewing a permission request`,
+        permissionLocked: ({ name }: { name: string }) => `${name} is answering this request`,
+        takeOver: 'Take over',
     }
 } as const;
 
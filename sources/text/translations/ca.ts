@@ -364,6 +364,14 @@ export const ca: TranslationStructure = {
         failedToDeleteSession: 'Error en eliminar la sessió',
         sessionDeleted: 'Sessió eliminada amb èxit',
         
+        exportConversation: 'Exporta la conversa',
+        exportMarkdown: 'Markdown',
+        exportMarkdownSubtitle: 'Transcripció llegible amb crides a eines',
+        exportJson: 'JSON',
+        exportJsonSubtitle: 'Dades completes amb permisos i subconverses',
+        exportHtml: 'HTML',
+        exportHtmlSubtitle: 'Pàgina autònoma que s\'obre a qualsevol navegador',
+        exportFailed: 'No s\'ha pogut exportar la conversa',
     },
 
     components: {
@@ -423,6 +431,7 @@ export const ca: TranslationStructure = {
         suggestion: {
             fileLabel: 'FITXER',
             folderLabel: 'CARPETA',
+            templateLabel: 'PLANTILLA',
         },
         noMachinesAvailable: 'Sense màquines',
     },
@@ -523,6 +532,23 @@ export const ca: TranslationStructure = {
         file: 'Fitxer',
         fileEmpty: 'El fitxer està buit',
         noChanges: 'No hi ha canvis a mostrar',
+        stageAll: 'Prepara-ho tot',
+        unstageAll: 'Treu-ho tot',
+        stageHunk: 'Prepara el fragment',
+        unstageHunk: 'Treu el fragment',
+        unstagedDiff: 'No preparats',
+        stagedDiff: 'Preparats',
+        commitMessagePlaceholder: 'Missatge de commit',
+        commitMessageRequired: 'Primer escriu un missatge de commit.',
+        draftCommitMessage: 'Demana a l\'agent',
+        draftCommitMessageTimeout: 'L\'agent no ha respost amb un missatge de commit a temps.',
+        commit: ({ count }: { count: number }) => `Fes commit de ${count} ${count === 1 ? 'fitxer' : 'fitxers'}`,
+        pull: 'Pull',
+        push: 'Push',
+        pullCount: ({ count }: { count: number }) => `Pull ${count}`,
+        pushCount: ({ count }: { count: number }) => `Push ${count}`,
+        gitFailed: 'L\'ordre git ha fallat',
+        edit: 'Edita',
     },
 
     settingsVoice: {
@@ -678,7 +704,25 @@ export const ca: TranslationStructure = {
         enjoyingApp: 'T\'està agradant l\'aplicació?',
         feedbackPrompt: 'Ens encantaria conèixer la teva opinió!',
         yesILoveIt: 'Sí, m\'encanta!',
-        notReally: 'No gaire'
+        notReally: 'No gaire',
+        title: 'Revisa els canvis',
+        openSubtitle: 'Conserva, reverteix o comenta el que ha canviat l\'agent',
+        sinceLastPrompt: 'Des de l\'última petició',
+        wholeSession: 'Tota la sessió',
+        summary: ({ files, hunks }: { files: number; hunks: number }) => `${files} fitxer${files !== 1 ? 's' : ''}, ${hunks} canvi${hunks !== 1 ? 's' : ''}`,
+        noChanges: 'No hi ha canvis des del punt de control',
+        notByAgent: 'No l\'ha canviat l\'agent',
+        agentEdit: 'Edició de l\'agent',
+        fileWrite: 'Fitxer escrit sencer, no es pot revertir',
+        keep: 'Conserva',
+        revert: 'Reverteix',
+        comment: 'Comentari',
+        commentDescription: 'S\'envia a l\'agent amb la resta de la revisió.',
+        commentPlaceholder: 'Què s\'hauria de canviar aquí?',
+        apply: ({ reverts, comments }: { reverts: number; comments: number }) => `Aplica la revisió (${reverts} revertits, ${comments} comentari${comments !== 1 ? 's' : ''})`,
+        sentMessage: ({ comments, reverts }: { comments: number; reverts: number }) => `Revisió: ${comments} comentari${comments !== 1 ? 's' : ''}, ${reverts} revertits`,
+        revertFailed: ({ count }: { count: number }) => `No s'han pogut revertir ${count} canvi${count !== 1 ? 's' : ''}`,
+        revertFailedDescription: 'El fitxer ha canviat des que es va carregar la revisió. Aquests canvis s\'han conservat i no s\'han indicat com a revertits.',
     },
 
     items: {
@@ -718,6 +762,9 @@ export const ca: TranslationStructure = {
         unknownEvent: 'Esdeveniment desconegut',
         usageLimitUntil: ({ time }: { time: string }) => `Límit d'ús assolit fins a ${time}`,
         unknownTime: 'temps desconegut',
+        deliveryQueued: 'Esperant connexió',
+        deliverySending: 'Enviant...',
+        deliveryFailed: 'No lliurat',
     },
 
     codex: {
@@ -780,6 +827,42 @@ export const ca: TranslationStructure = {
         bodyLabel: 'CONTINGUT',
         emptyFieldsError: 'Si us plau, introdueix un títol o contingut',
         createError: 'No s\'ha pogut crear l\'artefacte. Si us plau, torna-ho a provar.',
+        history: 'Historial',
+        revisions: 'Revisions',
+        noRevisions: 'Encara no hi ha revisions desades',
+        historyFooter: 'Cada desada conserva una revisió xifrada. Selecciona una revisió per comparar-la amb l\'actual, o dues per comparar-les entre si.',
+        historyError: 'No s\'ha pogut carregar l\'historial',
+        currentRevision: 'Actual',
+        revisionUnreadable: 'No s\'ha pogut desxifrar aquesta revisió',
+        savedFrom: ({ device }: { device: string }) => `Desada des de ${device}`,
+        savedFromUnknown: 'Desada des d\'un dispositiu desconegut',
+        compareWithCurrent: 'Compara amb l\'actual',
+        compareSelected: 'Compara les seleccionades',
+        compareTitle: 'Compara revisions',
+        compareRange: ({ from, to }: { from: string; to: string }) => `${from} → ${to}`,
+        revisionNotFound: 'No s\'ha trobat la revisió',
+        restore: 'Restaura',
+        restoreConfirm: 'Vols restaurar aquesta revisió?',
+        restoreConfirmDescription: ({ date }: { date: string }) => `L'artefacte tornarà a com era el ${date}. El contingut actual es conserva a l'historial.`,
+        restoreError: 'No s\'ha pogut restaurar la revisió. Torna-ho a provar.',
+        untitled: 'Sense títol',
+        saveAsArtifact: 'Desa com a artefacte',
+        savedAsArtifact: 'S\'ha desat com a artefacte',
+        open: 'Obre',
+        publishedByAgent: 'Artefacte publicat per l\'agent',
+        publishing: 'S\'està desant l\'artefacte...',
+        typeLabel: 'TIPUS',
+        typeMarkdown: 'Text',
+        typeCode: 'Codi',
+        typeDiagram: 'Diagrama',
+        typeChecklist: 'Llista de tasques',
+        languageLabel: 'LLENGUATGE',
+        languagePlaceholder: 'p. ex. typescript',
+        diagramPlaceholder: 'Diagrama Mermaid, p. ex. graph TD; A-->B',
+        checklistItemPlaceholder: 'Element',
+        addChecklistItem: 'Afegeix un element',
+        removeChecklistItem: 'Elimina l\'element',
+        checklistProgress: ({ done, total }: { done: number; total: number }) => `${done} de ${total} fetes`,
     },
 
     friends: {
@@ -853,6 +936,329 @@ export const ca: TranslationStructure = {
         friendRequestGeneric: 'Nova sol·licitud d\'amistat',
         friendAccepted: ({ name }: { name: string }) => `Ara ets amic de ${name}`,
         friendAcceptedGeneric: 'Sol·licitud d\'amistat acceptada',
+        sessionShared: ({ name }: { name: string }) => `${name} ha compartit una sessió amb tu`,
+        templateShared: ({ name }: { name: string }) => `${name} t'ha enviat una plantilla de prompt`,
+    },
+
+    sessionSearch: {
+        // Used by message search screen
+        title: 'Cerca missatges',
+        placeholder: 'Cerca a totes les sessions',
+        hint: 'Troba missatges, crides a eines i rutes de fitxers de les sessions d\'aquest dispositiu',
+        noResults: 'No hi ha missatges coincidents',
+        matches: ({ count }: { count: number }) => `${count} ${count === 1 ? 'coincidència' : 'coincidències'}`,
+    },
+
+    permissionRules: {
+        // Per project rules that answer permission requests automatically
+        title: 'Regles de permisos',
+        subtitle: 'Permet o denega automàticament les sol·licituds d\'eines',
+        sessionSubtitle: 'Regles d\'aquest projecte',
+        projects: 'Projectes',
+        projectsFooter: 'Les regles s\'apliquen a les sessions iniciades a la mateixa carpeta i màquina i se sincronitzen entre els teus dispositius',
+        noProjects: 'Encara no hi ha projectes',
+        rulesCount: ({ count }: { count: number }) => `${count} ${count === 1 ? 'regla' : 'regles'}`,
+        rules: 'Regles',
+        rulesFooter: ({ path, machine }: { path: string; machine: string }) => `S'aplica a ${path} a ${machine}. Les regles de denegació tenen prioritat i les ordres encadenades mai no es permeten automàticament. Toca una regla per eliminar-la.`,
+        noRules: 'No hi ha regles per a aquest projecte',
+        addRule: 'Afegeix una regla',
+        toolPlaceholder: 'Nom de l\'eina, p. ex. Bash, Edit o * per a qualsevol',
+        matchAny: 'Qualsevol argument',
+        matchPathGlob: 'Patró de ruta de fitxer',
+        matchCommandPrefix: 'Prefix d\'ordre',
+        pathGlobPlaceholder: 'src/**/*.ts',
+        commandPrefixPlaceholder: 'npm test',
+        allow: 'Permet',
+        deny: 'Denega',
+        allowed: 'Permès',
+        denied: 'Denegat',
+        delete: 'Elimina',
+        deleteRule: 'Elimina la regla',
+        deleteRuleConfirm: 'Les sol·licituds coincidents tornaran a demanar la teva aprovació.',
+        toolRequired: 'Introdueix el nom d\'una eina',
+        patternRequired: 'Introdueix un patró per a aquesta regla',
+        recentDecisions: 'Decisions automàtiques recents',
+    },
+
+    permissionAudit: {
+        // Log of permission decisions per session and project
+        title: 'Registre de permisos',
+        sessionSubtitle: 'Totes les decisions de permisos d\'aquesta sessió',
+        projectSubtitle: 'Totes les decisions de permisos d\'aquest projecte',
+        allSubtitle: 'Decisions de permisos de totes les sessions',
+        approved: 'Aprovat',
+        denied: 'Denegat',
+        canceled: 'Cancel·lat',
+        allOutcomes: 'Tots',
+        allTools: 'Totes les eines',
+        decidedByRule: 'Regla de permisos',
+        decidedByYou: ({ device }: { device: string }) => `Tu des de ${device}`,
+        decidedElsewhere: 'Terminal o un altre dispositiu',
+        decision: ({ decision }: { decision: string }) => `Decisió: ${decision}`,
+        mode: ({ mode }: { mode: string }) => `Mode: ${mode}`,
+        decisions: 'Decisions',
+        footer: 'Qui ha decidit només es coneix per a les decisions preses en aquest dispositiu. Toca una decisió per veure\'n tots els arguments.',
+        empty: 'No hi ha decisions de permisos',
+        exportCsv: 'Exporta CSV',
+        exportCsvSubtitle: ({ count }: { count: number }) => `${count} ${count === 1 ? 'decisió' : 'decisions'} que coincideixen amb els filtres`,
+        exportFailed: 'No s\'ha pogut exportar el registre de permisos',
+    },
+
+    pendingPermissions: {
+        // Batch approval of pending permission requests
+        title: 'Sol·licituds pendents',
+        pill: ({ count }: { count: number }) => `${count} sol·licituds de permís pendents`,
+        requests: ({ count }: { count: number }) => `${count} ${count === 1 ? 'sol·licitud' : 'sol·licituds'}`,
+        requestsFooter: 'Toca una sol·licitud per incloure-la o excloure-la. Els canvis de les sol·licituds seleccionades es mostren a sota, agrupats per fitxer.',
+        selectAll: 'Selecciona-ho tot',
+        selectNone: 'No seleccionis res',
+        approveSelected: ({ count }: { count: number }) => `Aprova les ${count} seleccionades`,
+        denySelected: ({ count }: { count: number }) => `Denega les ${count} seleccionades`,
+        empty: 'No hi ha sol·licituds de permís pendents',
+        failed: 'No s\'han pogut respondre algunes sol·licituds de permís',
+    },
+
+    sessionFork: {
+        // Forking a session from a message
+        fork: 'Bifurca',
+        forkInWorktree: 'Bifurca en un worktree nou',
+        forking: 'Bifurcant…',
+        title: 'Bifurca des d\'aquí',
+        message: 'Inicia una sessió nova a la mateixa màquina amb un resum de la conversa fins a aquest missatge. El missatge es posa a l\'entrada de la sessió nova perquè el puguis editar abans d\'enviar-lo.',
+        failed: ({ error }: { error: string }) => `No s'ha pogut bifurcar la sessió: ${error}`,
+        subtitle: ({ subtitle, name }: { subtitle: string; name: string }) => `${subtitle} · bifurcada de ${name}`,
+        lineage: 'Bifurcacions',
+        forkedFrom: 'Bifurcada de',
+        forkCreated: ({ date }: { date: string }) => `Bifurcació creada ${date}`,
+    },
+
+    sessionDashboard: {
+        // Multi-session dashboard
+        title: 'Tauler',
+        layout: 'Disposició',
+        columns2: 'Dues columnes',
+        columns3: 'Tres columnes',
+        grid4: 'Quadrícula de quatre',
+        pickSession: 'Mostra una sessió',
+        noSessions: 'Totes les sessions ja es mostren.',
+        closePane: 'Tanca el panell',
+    },
+
+    fileEditor: {
+        // In-app file editor
+        unsaved: 'Canvis sense desar',
+        yourVersion: 'la teva versió',
+        diskVersion: 'versió al disc',
+        conflictTitle: 'El fitxer ha canviat al disc',
+        conflictCount: ({ count }: { count: number }) => `${count} ${count === 1 ? 'regió entra' : 'regions entren'} en conflicte amb les teves edicions. Els conflictes estan marcats a la versió combinada.`,
+        conflictMergeable: 'Les teves edicions no se solapen amb els canvis del disc i es poden combinar.',
+        useMerged: 'Usa la combinada',
+        keepMine: 'Mantén la meva',
+        useDisk: 'Usa la del disc',
+        changesOnDisk: 'Canvis al disc',
+        yourChanges: 'Els teus canvis',
+    },
+
+    codeSearch: {
+        // Project-wide code search
+        title: 'Cerca al codi',
+        placeholder: 'Cerca al projecte',
+        includePlaceholder: 'Inclou, p. ex. src/**',
+        excludePlaceholder: 'Exclou, p. ex. *.test.ts',
+        hint: 'Cerca al contingut dels fitxers amb text o expressions regulars. Toca una línia per obrir-la, o la icona de comentari per citar-la al missatge.',
+        searching: 'Cercant…',
+        summary: ({ matches, files }: { matches: number; files: number }) => `${matches} ${matches === 1 ? 'coincidència' : 'coincidències'} en ${files} ${files === 1 ? 'fitxer' : 'fitxers'}`,
+        truncated: 'Només es mostren els primers 200 fitxers, afina la cerca per veure\'n més.',
+    },
+
+    remoteTerminal: {
+        // Remote terminal
+        title: 'Terminal',
+        open: 'Obre el terminal',
+        openSessionSubtitle: 'Executa ordres al directori de treball de la sessió',
+        openMachineSubtitle: 'Executa ordres al teu directori personal',
+        placeholder: 'Ordre',
+        running: 'En execució… toca ^C per interrompre',
+        hint: 'Les ordres s\'executen a la màquina sense TTY, per tant els programes interactius no funcionen. Toca ^C un cop per interrompre i un altre per aturar del tot.',
+        noTabs: 'No hi ha pestanyes obertes. Toca + per obrir-ne una.',
+        interrupted: 'Interromput',
+        failed: 'S\'ha perdut el seguiment de l\'ordre',
+        exitCode: ({ code }: { code: number }) => `Ha acabat amb el codi ${code}`,
+    },
+
+    gitHistory: {
+        // Commit history and branches
+        title: 'Historial',
+        commitTitle: 'Commit',
+        commits: 'Commits',
+        branches: 'Branques',
+        allBranches: 'Totes les branques',
+        showAll: 'Mostra-les totes',
+        showCurrent: 'Només l\'actual',
+        noCommits: 'Encara no hi ha commits',
+        checkout: 'Canvia a aquesta branca',
+        viewHistory: 'Mostra l\'historial',
+        newBranch: 'Nova branca',
+        newBranchDescription: 'La branca comença al commit actual i s\'hi canvia.',
+        branchNamePlaceholder: 'feature/el-meu-canvi',
+        createBranch: 'Crea',
+        noUpstream: 'Sense upstream',
+        upstreamGone: ({ upstream }: { upstream: string }) => `${upstream} (eliminada)`,
+        mergeOf: ({ parents }: { parents: string }) => `Fusió de ${parents}`,
+        changeSummary: ({ files, insertions, deletions }: { files: number; insertions: number; deletions: number }) => `${files} fitxer${files !== 1 ? 's' : ''} modificat${files !== 1 ? 's' : ''}, +${insertions} -${deletions}`,
+        binary: 'binari',
+        binaryNotShown: 'Els fitxers binaris no es mostren',
+    },
+
+    diffComments: {
+        // Comments on diff lines
+        title: 'Comentaris al diff',
+        commentOnLine: ({ line }: { line: number }) => `Comenta la línia ${line}`,
+        line: ({ line }: { line: number }) => `línia ${line}`,
+        placeholder: 'Què hauria de canviar l\'agent?',
+        empty: 'Mantén premuda una línia del diff d\'una edició per comentar-la.',
+        pending: 'No enviat',
+        sent: 'Enviat',
+        resolved: 'Resolt',
+        send: ({ count }: { count: number }) => count > 0 ? `Envia ${count} comentari${count !== 1 ? 's' : ''} a l'agent` : 'No hi ha comentaris per enviar',
+        pill: ({ count }: { count: number }) => `${count} comentari${count !== 1 ? 's' : ''} per enviar`,
+        sentMessage: ({ count }: { count: number }) => `Comentaris a ${count} líni${count !== 1 ? 'es' : 'a'} del diff`,
+        clearResolved: ({ count }: { count: number }) => `Esborra ${count} resolt${count !== 1 ? 's' : ''}`,
+    },
+
+    scheduledPrompts: {
+        // Scheduled and recurring prompts
+        title: 'Indicacions programades',
+        subtitle: 'Envia indicacions als agents de manera periòdica',
+        schedulePrompt: 'Programa una indicació',
+        schedulePromptSubtitle: 'Envia una indicació a aquesta sessió periòdicament',
+        new: 'Nova indicació programada',
+        edit: 'Edita la indicació programada',
+        empty: 'Afegeix una indicació programada',
+        footer: 'Les indicacions s\'executen mentre l\'aplicació està oberta en algun dels teus dispositius. Les execucions perdudes es recuperen durant sis hores.',
+        missingSession: 'No s\'ha trobat la sessió',
+        newSessionIn: ({ path, machine }: { path: string; machine: string }) => `Nova sessió a ${path} a ${machine}`,
+        nextRun: ({ time }: { time: string }) => `Propera execució: ${time}`,
+        paused: 'En pausa',
+        neverRun: 'Encara no s\'ha executat',
+        running: 'S\'està executant…',
+        lastRunSuccess: ({ time }: { time: string }) => `Darrera execució ${time}: enviada`,
+        lastRunError: ({ time, error }: { time: string; error: string }) => `La darrera execució ${time} ha fallat: ${error}`,
+        invalidSchedule: 'Programació no vàlida',
+        neverRuns: 'Aquesta programació no s\'executa mai',
+        scheduleFooter: 'Programació no vàlida. Fes servir minut, hora, dia del mes, mes i dia de la setmana com a cron, per exemple "0 9 * * 1-5" per als dies feiners a les 9:00, o @hourly, @daily i @weekly.',
+        presetHourly: 'Cada hora',
+        presetDaily: 'Cada dia a les 9:00',
+        presetWeekdays: 'Dies feiners a les 9:00',
+        presetWeekly: 'Els dilluns a les 9:00',
+        prompt: 'Indicació',
+        titlePlaceholder: 'Nom, p. ex. Revisió matinal de la CI',
+        promptPlaceholder: 'Què ha de fer l\'agent?',
+        schedule: 'Programació',
+        existingSession: 'Envia a una sessió',
+        noActiveSessions: 'No hi ha sessions actives',
+        newSession: 'Inicia una sessió nova',
+        newSessionFooter: 'Cada execució inicia una sessió nova al projecte.',
+        agent: 'Agent',
+        fieldsRequired: 'Introdueix un nom i una indicació',
+        targetRequired: 'Tria una sessió o un projecte on enviar la indicació',
+        runNow: 'Executa ara',
+        openLastSession: 'Obre la darrera sessió',
+        delete: 'Suprimeix la indicació programada',
+        deleteConfirm: ({ title }: { title: string }) => `"${title}" ja no s'executarà en cap dispositiu.`,
+    },
+
+    promptTemplates: {
+        // Prompt template library
+        title: 'Plantilles d\'indicacions',
+        subtitle: 'Indicacions reutilitzables per al menú /',
+        footer: 'Escriu / en una sessió per inserir una plantilla. Els marcadors com {{issue}} s\'omplen just abans d\'inserir-la.',
+        empty: 'Afegeix una plantilla',
+        new: 'Plantilla nova',
+        edit: 'Edita la plantilla',
+        template: 'Plantilla',
+        namePlaceholder: 'Nom, p. ex. Aclarir la tasca',
+        descriptionPlaceholder: 'Descripció (opcional)',
+        commandFooter: ({ command }: { command: string }) => `Insereix amb /${command}`,
+        body: 'Indicació',
+        bodyPlaceholder: 'Arregla {{issue}} i afegeix-hi una prova',
+        variablesFooter: ({ variables }: { variables: string }) => `Es demanen en inserir: ${variables}`,
+        noVariablesFooter: 'Fes servir {{name}} per a les parts que canvien cada vegada.',
+        variablesCount: ({ count }: { count: number }) => `${count} variable${count !== 1 ? 's' : ''}`,
+        fieldsRequired: 'Introdueix un nom i una indicació',
+        variablePlaceholder: ({ name }: { name: string }) => `Valor per a ${name}`,
+        insert: 'Insereix',
+        share: 'Comparteix',
+        shareLink: 'Comparteix l\'enllaç',
+        shareFooter: 'L\'enllaç conté tota la plantilla. Qui l\'obri la pot afegir a la seva biblioteca.',
+        shareMessage: ({ template, link }: { template: string; link: string }) => `Plantilla d'indicació "${template}": ${link}`,
+        linkFrom: ({ name }: { name: string }) => `L'enllaç diu que és de ${name}, això no està verificat`,
+        delete: 'Suprimeix la plantilla',
+        deleteConfirm: ({ name }: { name: string }) => `"${name}" s'eliminarà de tots els teus dispositius.`,
+        importTitle: 'Importa una plantilla',
+        importMessage: 'Enganxa un enllaç de plantilla que t\'hagin compartit',
+        import: 'Importa',
+        invalidLink: 'Aquest no és un enllaç de plantilla vàlid',
+        addToLibrary: 'Afegeix a les meves plantilles',
+        sendToFriends: 'Envia a amics',
+        sendToFriendsFooter: 'La plantilla es xifra per a l\'amic i apareix al seu feed.',
+        sent: 'Plantilla enviada',
+        sentTo: ({ name, template }: { name: string; template: string }) => `${name} ja pot afegir "${template}" des del seu feed.`,
+        friendNeedsUpdate: ({ name }: { name: string }) => `${name} ha d'obrir la darrera versió de l'app abans que li puguis enviar plantilles.`,
+        sharedBy: ({ name }: { name: string }) => `Enviada per ${name}`,
+        cannotOpenShare: 'Aquesta plantilla no es pot obrir en aquest compte',
+    },
+
+    messageQueue: {
+        // Prompts queued while the agent is thinking
+        title: ({ count }: { count: number }) => `${count} en cua · s'enviaran quan l'agent estigui llest`,
+        editTitle: 'Edita el missatge en cua',
+        moveUp: 'Mou amunt',
+        moveDown: 'Mou avall',
+        sendNow: 'Envia ara',
+        remove: 'Treu de la cua',
+        queue: 'Posa a la cua fins que l\'agent estigui llest',
+    },
+
+    attachments: {
+        // Images and files attached to messages
+        title: 'Adjunta',
+        attach: 'Adjunta imatges o fitxers',
+        photoLibrary: 'Fotos i captures',
+        files: 'Fitxers',
+        remove: 'Treu l\'adjunt',
+        uploadFailed: 'Error en pujar',
+    },
+
+    sessionSharing: {
+        // Sharing sessions with friends
+        title: 'Comparteix amb amics',
+        openSubtitle: 'Deixa que els amics segueixin o treballin en aquesta sessió',
+        sharedWith: 'Compartida amb',
+        notShared: 'No es comparteix amb ningú',
+        friends: 'Amics',
+        noFriends: 'No hi ha més amics amb qui compartir',
+        footer: 'La clau de la sessió es xifra per a cada amic, el servidor mai veu la conversa. Els lectors poden seguir-la, els col·laboradors també poden enviar missatges i respondre sol·licituds de permís.',
+        roleViewer: 'Pot veure',
+        roleCollaborator: 'Pot enviar missatges i aprovar',
+        shareWith: ({ name }: { name: string }) => `Comparteix amb ${name}`,
+        chooseRole: 'Què hauria de poder fer?',
+        changeTo: ({ role }: { role: string }) => `Canvia a: ${role}`,
+        stopSharing: 'Deixa de compartir',
+        legacySession: 'Aquesta sessió es va crear amb una versió antiga de la CLI i no es pot compartir.',
+        friendNeedsUpdate: ({ name }: { name: string }) => `${name} ha d'obrir la darrera versió de l'app abans que hi puguis compartir sessions.`,
+        sharedWithMe: 'Compartides amb mi',
+        sharedBy: ({ name }: { name: string }) => `Compartida per ${name}`,
+        viewOnly: ({ name }: { name: string }) => `Només lectura · compartida per ${name}`,
+    },
+
+    sessionPresence: {
+        // Other people looking at a shared session
+        someone: 'Algú',
+        typing: ({ name }: { name: string }) => `${name} està escrivint…`,
+        reviewingPermission: ({ name }: { name: string }) => `${name} està revisant una sol·licitud de permís`,
+        permissionLocked: ({ name }: { name: string }) => `${name} està responent aquesta sol·licitud`,
+        takeOver: 'Pren el control',
     }
 } as const;
 
@@ -364,6 +364,14 @@ export const es: TranslationStructure = {
         failedToDeleteSession: 'Error al eliminar la sesión',
         sessionDeleted: 'Sesión eliminada exitosamente',
         
+        exportConversation: 'Exportar conversación',
+        exportMarkdown: 'Markdown',
+        exportMarkdownSubtitle: 'Transcripción legible con llamadas a herramientas',
+        exportJson: 'JSON',
+        exportJsonSubtitle: 'Datos completos con permisos y subconversaciones',
+        exportHtml: 'HTML',
+        exportHtmlSubtitle: 'Página independiente que se abre en cualquier navegador',
+        exportFailed: 'No se pudo exportar la conversación',
     },
 
     components: {
@@ -423,6 +431,7 @@ export const es: TranslationStructure = {
         suggestion: {
             fileLabel: 'ARCHIVO',
             folderLabel: 'CARPETA',
+            templateLabel: 'PLANTILLA',
         },
         noMachinesAvailable: 'Sin máquinas',
     },
@@ -523,6 +532,23 @@ export const es: TranslationStructure = {
         file: 'Archivo',
         fileEmpty: 'El archivo está vacío',
         noChanges: 'No hay cambios que mostrar',
+        stageAll: 'Preparar todo',
+        unstageAll: 'Quitar todo',
+        stageHunk: 'Preparar fragmento',
+        unstageHunk: 'Quitar fragmento',
+        unstagedDiff: 'No preparados',
+        stagedDiff: 'Preparados',
+        commitMessagePlaceholder: 'Mensaje del commit',
+        commitMessageRequired: 'Primero escribe un mensaje de commit.',
+        draftCommitMessage: 'Pedir al agente',
+        draftCommitMessageTimeout: 'El agente no respondió con un mensaje de commit a tiempo.',
+        commit: ({ count }: { count: number }) => `Hacer commit de ${count} ${count === 1 ? 'archivo' : 'archivos'}`,
+        pull: 'Pull',
+        push: 'Push',
+        pullCount: ({ count }: { count: number }) => `Pull ${count}`,
+        pushCount: ({ count }: { count: number }) => `Push ${count}`,
+        gitFailed: 'El comando git falló',
+        edit: 'Editar',
     },
 
     settingsVoice: {
@@ -678,7 +704,25 @@ export const es: TranslationStructure = {
         enjoyingApp: '¿Disfrutando la aplicación?',
         feedbackPrompt: '¡Nos encantaría escuchar tus comentarios!',
         yesILoveIt: '¡Sí, me encanta!',
-        notReally: 'No realmente'
+        notReally: 'No realmente',
+        title: 'Revisar cambios',
+        openSubtitle: 'Conserva, revierte o comenta lo que cambió el agente',
+        sinceLastPrompt: 'Desde la última petición',
+        wholeSession: 'Toda la sesión',
+        summary: ({ files, hunks }: { files: number; hunks: number }) => `${files} archivo${files !== 1 ? 's' : ''}, ${hunks} cambio${hunks !== 1 ? 's' : ''}`,
+        noChanges: 'No hay cambios desde el punto de control',
+        notByAgent: 'No lo cambió el agente',
+        agentEdit: 'Edición del agente',
+        fileWrite: 'Archivo escrito completo, no se puede revertir',
+        keep: 'Conservar',
+        revert: 'Revertir',
+        comment: 'Comentario',
+        commentDescription: 'Se envía al agente junto con el resto de la revisión.',
+        commentPlaceholder: '¿Qué debería cambiar aquí?',
+        apply: ({ reverts, comments }: { reverts: number; comments: number }) => `Aplicar revisión (${reverts} revertidos, ${comments} comentario${comments !== 1 ? 's' : ''})`,
+        sentMessage: ({ comments, reverts }: { comments: number; reverts: number }) => `Revisión: ${comments} comentario${comments !== 1 ? 's' : ''}, ${reverts} revertidos`,
+        revertFailed: ({ count }: { count: number }) => `No se pudieron revertir ${count} cambio${count !== 1 ? 's' : ''}`,
+        revertFailedDescription: 'El archivo cambió desde que se cargó la revisión. Estos cambios se conservaron y no se indicaron como revertidos.',
     },
 
     items: {
@@ -718,6 +762,9 @@ export const es: TranslationStructure = {
         unknownEvent: 'Evento desconocido',
         usageLimitUntil: ({ time }: { time: string }) => `Límite de uso alcanzado hasta ${time}`,
         unknownTime: 'tiempo desconocido',
+        deliveryQueued: 'Esperando conexión',
+        deliverySending: 'Enviando...',
+        deliveryFailed: 'No entregado',
     },
 
     codex: {
@@ -781,6 +828,42 @@ export const es: TranslationStructure = {
         saving: 'Guardando...',
         loading: 'Cargando artefactos...',
         error: 'Error al cargar el artefacto',
+        history: 'Historial',
+        revisions: 'Revisiones',
+        noRevisions: 'Aún no hay revisiones guardadas',
+        historyFooter: 'Cada guardado conserva una revisión cifrada. Selecciona una revisión para compararla con la actual, o dos para compararlas entre sí.',
+        historyError: 'No se pudo cargar el historial',
+        currentRevision: 'Actual',
+        revisionUnreadable: 'No se pudo descifrar esta revisión',
+        savedFrom: ({ device }: { device: string }) => `Guardada desde ${device}`,
+        savedFromUnknown: 'Guardada desde un dispositivo desconocido',
+        compareWithCurrent: 'Comparar con la actual',
+        compareSelected: 'Comparar seleccionadas',
+        compareTitle: 'Comparar revisiones',
+        compareRange: ({ from, to }: { from: string; to: string }) => `${from} → ${to}`,
+        revisionNotFound: 'Revisión no encontrada',
+        restore: 'Restaurar',
+        restoreConfirm: '¿Restaurar esta revisión?',
+        restoreConfirmDescription: ({ date }: { date: string }) => `El artefacto vuelve a como estaba el ${date}. El contenido actual se conserva en el historial.`,
+        restoreError: 'No se pudo restaurar la revisión. Inténtalo de nuevo.',
+        untitled: 'Sin título',
+        saveAsArtifact: 'Guardar como artefacto',
+        savedAsArtifact: 'Guardado como artefacto',
+        open: 'Abrir',
+        publishedByAgent: 'Artefacto publicado por el agente',
+        publishing: 'Guardando artefacto...',
+        typeLabel: 'TIPO',
+        typeMarkdown: 'Texto',
+        typeCode: 'Código',
+        typeDiagram: 'Diagrama',
+        typeChecklist: 'Lista de tareas',
+        languageLabel: 'LENGUAJE',
+        languagePlaceholder: 'p. ej. typescript',
+        diagramPlaceholder: 'Diagrama Mermaid, p. ej. graph TD; A-->B',
+        checklistItemPlaceholder: 'Elemento',
+        addChecklistItem: 'Añadir elemento',
+        removeChecklistItem: 'Eliminar elemento',
+        checklistProgress: ({ done, total }: { done: number; total: number }) => `${done} de ${total} hechas`,
     },
 
     friends: {
@@ -854,6 +937,329 @@ export const es: TranslationStructure = {
         friendRequestGeneric: 'Nueva solicitud de amistad',
         friendAccepted: ({ name }: { name: string }) => `Ahora eres amigo de ${name}`,
         friendAcceptedGeneric: 'Solicitud de amistad aceptada',
+        sessionShared: ({ name }: { name: string }) => `${name} compartió una sesión contigo`,
+        templateShared: ({ name }: { name: string }) => `${name} te ha enviado una plantilla de prompt`,
+    },
+
+    sessionSearch: {
+        // Used by message search screen
+        title: 'Buscar mensajes',
+        placeholder: 'Buscar en todas las sesiones',
+        hint: 'Encuentra mensajes, llamadas a herramientas y rutas de archivos de las sesiones de este dispositivo',
+        noResults: 'No hay mensajes coincidentes',
+        matches: ({ count }: { count: number }) => `${count} ${count === 1 ? 'coincidencia' : 'coincidencias'}`,
+    },
+
+    permissionRules: {
+        // Per project rules that answer permission requests automatically
+        title: 'Reglas de permisos',
+        subtitle: 'Permitir o denegar automáticamente solicitudes de herramientas',
+        sessionSubtitle: 'Reglas de este proyecto',
+        projects: 'Proyectos',
+        projectsFooter: 'Las reglas se aplican a las sesiones iniciadas en la misma carpeta y máquina y se sincronizan entre tus dispositivos',
+        noProjects: 'Aún no hay proyectos',
+        rulesCount: ({ count }: { count: number }) => `${count} ${count === 1 ? 'regla' : 'reglas'}`,
+        rules: 'Reglas',
+        rulesFooter: ({ path, machine }: { path: string; machine: string }) => `Se aplica a ${path} en ${machine}. Las reglas de denegación tienen prioridad y los comandos encadenados nunca se permiten automáticamente. Toca una regla para eliminarla.`,
+        noRules: 'No hay reglas para este proyecto',
+        addRule: 'Añadir regla',
+        toolPlaceholder: 'Nombre de la herramienta, p. ej. Bash, Edit o * para cualquiera',
+        matchAny: 'Cualquier argumento',
+        matchPathGlob: 'Patrón de ruta de archivo',
+        matchCommandPrefix: 'Prefijo de comando',
+        pathGlobPlaceholder: 'src/**/*.ts',
+        commandPrefixPlaceholder: 'npm test',
+        allow: 'Permitir',
+        deny: 'Denegar',
+        allowed: 'Permitido',
+        denied: 'Denegado',
+        delete: 'Eliminar',
+        deleteRule: 'Eliminar regla',
+        deleteRuleConfirm: 'Las solicitudes coincidentes volverán a pedir tu aprobación.',
+        toolRequired: 'Introduce el nombre de una herramienta',
+        patternRequired: 'Introduce un patrón para esta regla',
+        recentDecisions: 'Decisiones automáticas recientes',
+    },
+
+    permissionAudit: {
+        // Log of permission decisions per session and project
+        title: 'Registro de permisos',
+        sessionSubtitle: 'Todas las decisiones de permisos de esta sesión',
+        projectSubtitle: 'Todas las decisiones de permisos de este proyecto',
+        allSubtitle: 'Decisiones de permisos de todas las sesiones',
+        approved: 'Aprobado',
+        denied: 'Denegado',
+        canceled: 'Cancelado',
+        allOutcomes: 'Todos',
+        allTools: 'Todas las herramientas',
+        decidedByRule: 'Regla de permisos',
+        decidedByYou: ({ device }: { device: string }) => `Tú desde ${device}`,
+        decidedElsewhere: 'Terminal u otro dispositivo',
+        decision: ({ decision }: { decision: string }) => `Decisión: ${decision}`,
+        mode: ({ mode }: { mode: string }) => `Modo: ${mode}`,
+        decisions: 'Decisiones',
+        footer: 'Quién decidió solo se conoce para las decisiones tomadas en este dispositivo. Toca una decisión para ver todos sus argumentos.',
+        empty: 'No hay decisiones de permisos',
+        exportCsv: 'Exportar CSV',
+        exportCsvSubtitle: ({ count }: { count: number }) => `${count} ${count === 1 ? 'decisión' : 'decisiones'} que coinciden con los filtros`,
+        exportFailed: 'No se pudo exportar el registro de permisos',
+    },
+
+    pendingPermissions: {
+        // Batch approval of pending permission requests
+        title: 'Solicitudes pendientes',
+        pill: ({ count }: { count: number }) => `${count} solicitudes de permiso pendientes`,
+        requests: ({ count }: { count: number }) => `${count} ${count === 1 ? 'solicitud' : 'solicitudes'}`,
+        requestsFooter: 'Toca una solicitud para incluirla o excluirla. Los cambios de las solicitudes seleccionadas se muestran abajo, agrupados por archivo.',
+        selectAll: 'Seleccionar todo',
+        selectNone: 'No seleccionar nada',
+        approveSelected: ({ count }: { count: number }) => `Aprobar ${count} seleccionadas`,
+        denySelected: ({ count }: { count: number }) => `Denegar ${count} seleccionadas`,
+        empty: 'No hay solicitudes de permiso pendientes',
+        failed: 'No se pudieron responder algunas solicitudes de permiso',
+    },
+
+    sessionFork: {
+        // Forking a session from a message
+        fork: 'Bifurcar',
+        forkInWorktree: 'Bifurcar en un worktree nuevo',
+        forking: 'Bifurcando…',
+        title: 'Bifurcar desde aquí',
+        message: 'Inicia una nueva sesión en la misma máquina con un resumen de la conversación hasta este mensaje. El mensaje se coloca en la entrada de la nueva sesión para que puedas editarlo antes de enviarlo.',
+        failed: ({ error }: { error: string }) => `No se pudo bifurcar la sesión: ${error}`,
+        subtitle: ({ subtitle, name }: { subtitle: string; name: string }) => `${subtitle} · bifurcada de ${name}`,
+        lineage: 'Bifurcaciones',
+        forkedFrom: 'Bifurcada de',
+        forkCreated: ({ date }: { date: string }) => `Bifurcación creada ${date}`,
+    },
+
+    sessionDashboard: {
+        // Multi-session dashboard
+        title: 'Panel',
+        layout: 'Disposición',
+        columns2: 'Dos columnas',
+        columns3: 'Tres columnas',
+        grid4: 'Cuadrícula de cuatro',
+        pickSession: 'Mostrar sesión',
+        noSessions: 'Todas las sesiones ya se muestran.',
+        closePane: 'Cerrar panel',
+    },
+
+    fileEditor: {
+        // In-app file editor
+        unsaved: 'Cambios sin guardar',
+        yourVersion: 'tu versión',
+        diskVersion: 'versión en disco',
+        conflictTitle: 'El archivo cambió en el disco',
+        conflictCount: ({ count }: { count: number }) => `${count} ${count === 1 ? 'región entra' : 'regiones entran'} en conflicto con tus cambios. Los conflictos están marcados en la versión combinada.`,
+        conflictMergeable: 'Tus cambios no se solapan con los del disco y se pueden combinar.',
+        useMerged: 'Usar combinada',
+        keepMine: 'Mantener la mía',
+        useDisk: 'Usar la del disco',
+        changesOnDisk: 'Cambios en el disco',
+        yourChanges: 'Tus cambios',
+    },
+
+    codeSearch: {
+        // Project-wide code search
+        title: 'Buscar en el código',
+        placeholder: 'Buscar en el proyecto',
+        includePlaceholder: 'Incluir, p. ej. src/**',
+        excludePlaceholder: 'Excluir, p. ej. *.test.ts',
+        hint: 'Busca en el contenido de los archivos con texto o expresiones regulares. Toca una línea para abrirla, o el icono de comentario para citarla en tu mensaje.',
+        searching: 'Buscando…',
+        summary: ({ matches, files }: { matches: number; files: number }) => `${matches} ${matches === 1 ? 'coincidencia' : 'coincidencias'} en ${files} ${files === 1 ? 'archivo' : 'archivos'}`,
+        truncated: 'Solo se muestran los primeros 200 archivos, acota la búsqueda para ver más.',
+    },
+
+    remoteTerminal: {
+        // Remote terminal
+        title: 'Terminal',
+        open: 'Abrir terminal',
+        openSessionSubtitle: 'Ejecuta comandos en el directorio de trabajo de la sesión',
+        openMachineSubtitle: 'Ejecuta comandos en tu directorio personal',
+        placeholder: 'Comando',
+        running: 'En ejecución… toca ^C para interrumpir',
+        hint: 'Los comandos se ejecutan en la máquina sin TTY, así que los programas interactivos no funcionan. Toca ^C una vez para interrumpir y otra para forzar la detención.',
+        noTabs: 'No hay pestañas abiertas. Toca + para abrir una.',
+        interrupted: 'Interrumpido',
+        failed: 'Se perdió el seguimiento del comando',
+        exitCode: ({ code }: { code: number }) => `Terminó con el código ${code}`,
+    },
+
+    gitHistory: {
+        // Commit history and branches
+        title: 'Historial',
+        commitTitle: 'Commit',
+        commits: 'Commits',
+        branches: 'Ramas',
+        allBranches: 'Todas las ramas',
+        showAll: 'Mostrar todas',
+        showCurrent: 'Solo la actual',
+        noCommits: 'Aún no hay commits',
+        checkout: 'Cambiar a esta rama',
+        viewHistory: 'Ver historial',
+        newBranch: 'Nueva rama',
+        newBranchDescription: 'La rama empieza en el commit actual y se cambia a ella.',
+        branchNamePlaceholder: 'feature/mi-cambio',
+        createBranch: 'Crear',
+        noUpstream: 'Sin upstream',
+        upstreamGone: ({ upstream }: { upstream: string }) => `${upstream} (eliminada)`,
+        mergeOf: ({ parents }: { parents: string }) => `Fusión de ${parents}`,
+        changeSummary: ({ files, insertions, deletions }: { files: number; insertions: number; deletions: number }) => `${files} archivo${files !== 1 ? 's' : ''} modificado${files !== 1 ? 's' : ''}, +${insertions} -${deletions}`,
+        binary: 'binario',
+        binaryNotShown: 'Los archivos binarios no se muestran',
+    },
+
+    diffComments: {
+        // Comments on diff lines
+        title: 'Comentarios del diff',
+        commentOnLine: ({ line }: { line: number }) => `Comentar la línea ${line}`,
+        line: ({ line }: { line: number }) => `línea ${line}`,
+        placeholder: '¿Qué debería cambiar el agente?',
+        empty: 'Mantén pulsada una línea del diff de una edición para comentarla.',
+        pending: 'Sin enviar',
+        sent: 'Enviado',
+        resolved: 'Resuelto',
+        send: ({ count }: { count: number }) => count > 0 ? `Enviar ${count} comentario${count !== 1 ? 's' : ''} al agente` : 'No hay comentarios para enviar',
+        pill: ({ count }: { count: number }) => `${count} comentario${count !== 1 ? 's' : ''} por enviar`,
+        sentMessage: ({ count }: { count: number }) => `Comentarios en ${count} línea${count !== 1 ? 's' : ''} del diff`,
+        clearResolved: ({ count }: { count: number }) => `Borrar ${count} resuelto${count !== 1 ? 's' : ''}`,
+    },
+
+    scheduledPrompts: {
+        // Scheduled and recurring prompts
+        title: 'Prompts programados',
+        subtitle: 'Envía prompts a los agentes de forma periódica',
+        schedulePrompt: 'Programar un prompt',
+        schedulePromptSubtitle: 'Envía un prompt a esta sesión de forma programada',
+        new: 'Nuevo prompt programado',
+        edit: 'Editar prompt programado',
+        empty: 'Añadir un prompt programado',
+        footer: 'Los prompts se ejecutan mientras la app está abierta en alguno de tus dispositivos. Las ejecuciones perdidas se recuperan durante seis horas.',
+        missingSession: 'Sesión no encontrada',
+        newSessionIn: ({ path, machine }: { path: string; machine: string }) => `Nueva sesión en ${path} en ${machine}`,
+        nextRun: ({ time }: { time: string }) => `Próxima ejecución: ${time}`,
+        paused: 'En pausa',
+        neverRun: 'Aún no se ha ejecutado',
+        running: 'Ejecutando…',
+        lastRunSuccess: ({ time }: { time: string }) => `Última ejecución ${time}: enviado`,
+        lastRunError: ({ time, error }: { time: string; error: string }) => `La última ejecución ${time} falló: ${error}`,
+        invalidSchedule: 'Programación no válida',
+        neverRuns: 'Esta programación nunca se ejecuta',
+        scheduleFooter: 'Programación no válida. Usa minuto, hora, día del mes, mes y día de la semana como en cron, por ejemplo "0 9 * * 1-5" para los días laborables a las 9:00, o @hourly, @daily y @weekly.',
+        presetHourly: 'Cada hora',
+        presetDaily: 'Todos los días a las 9:00',
+        presetWeekdays: 'Días laborables a las 9:00',
+        presetWeekly: 'Los lunes a las 9:00',
+        prompt: 'Prompt',
+        titlePlaceholder: 'Nombre, p. ej. Revisión matutina de CI',
+        promptPlaceholder: '¿Qué debe hacer el agente?',
+        schedule: 'Programación',
+        existingSession: 'Enviar a una sesión',
+        noActiveSessions: 'No hay sesiones activas',
+        newSession: 'Iniciar una sesión nueva',
+        newSessionFooter: 'Cada ejecución inicia una sesión nueva en el proyecto.',
+        agent: 'Agente',
+        fieldsRequired: 'Introduce un nombre y un prompt',
+        targetRequired: 'Elige una sesión o un proyecto al que enviar el prompt',
+        runNow: 'Ejecutar ahora',
+        openLastSession: 'Abrir la última sesión',
+        delete: 'Eliminar prompt programado',
+        deleteConfirm: ({ title }: { title: string }) => `"${title}" dejará de ejecutarse en todos los dispositivos.`,
+    },
+
+    promptTemplates: {
+        // Prompt template library
+        title: 'Plantillas de prompts',
+        subtitle: 'Prompts reutilizables para el menú /',
+        footer: 'Escribe / en una sesión para insertar una plantilla. Los marcadores como {{issue}} se rellenan justo antes de insertarla.',
+        empty: 'Añadir una plantilla',
+        new: 'Nueva plantilla',
+        edit: 'Editar plantilla',
+        template: 'Plantilla',
+        namePlaceholder: 'Nombre, p. ej. Aclarar tarea',
+        descriptionPlaceholder: 'Descripción (opcional)',
+        commandFooter: ({ command }: { command: string }) => `Insertar con /${command}`,
+        body: 'Prompt',
+        bodyPlaceholder: 'Corrige {{issue}} y añade una prueba',
+        variablesFooter: ({ variables }: { variables: string }) => `Se piden al insertar: ${variables}`,
+        noVariablesFooter: 'Usa {{name}} para las partes que cambian cada vez.',
+        variablesCount: ({ count }: { count: number }) => `${count} variable${count !== 1 ? 's' : ''}`,
+        fieldsRequired: 'Introduce un nombre y un prompt',
+        variablePlaceholder: ({ name }: { name: string }) => `Valor para ${name}`,
+        insert: 'Insertar',
+        share: 'Compartir',
+        shareLink: 'Compartir enlace',
+        shareFooter: 'El enlace contiene toda la plantilla. Quien lo abra puede añadirla a su biblioteca.',
+        shareMessage: ({ template, link }: { template: string; link: string }) => `Plantilla de prompt "${template}": ${link}`,
+        linkFrom: ({ name }: { name: string }) => `El enlace dice que es de ${name}, esto no está verificado`,
+        delete: 'Eliminar plantilla',
+        deleteConfirm: ({ name }: { name: string }) => `"${name}" se eliminará de todos tus dispositivos.`,
+        importTitle: 'Importar plantilla',
+        importMessage: 'Pega un enlace de plantilla que te hayan compartido',
+        import: 'Importar',
+        invalidLink: 'Este no es un enlace de plantilla válido',
+        addToLibrary: 'Añadir a mis plantillas',
+        sendToFriends: 'Enviar a amigos',
+        sendToFriendsFooter: 'La plantilla se cifra para el amigo y aparece en su feed.',
+        sent: 'Plantilla enviada',
+        sentTo: ({ name, template }: { name: string; template: string }) => `${name} ya puede añadir "${template}" desde su feed.`,
+        friendNeedsUpdate: ({ name }: { name: string }) => `${name} tiene que abrir la última versión de la app antes de que puedas enviarle plantillas.`,
+        sharedBy: ({ name }: { name: string }) => `Enviada por ${name}`,
+        cannotOpenShare: 'Esta plantilla no se puede abrir en esta cuenta',
+    },
+
+    messageQueue: {
+        // Prompts queued while the agent is thinking
+        title: ({ count }: { count: number }) => `${count} en cola · se enviarán cuando el agente esté listo`,
+        editTitle: 'Editar mensaje en cola',
+        moveUp: 'Subir',
+        moveDown: 'Bajar',
+        sendNow: 'Enviar ahora',
+        remove: 'Quitar de la cola',
+        queue: 'Poner en cola hasta que el agente esté listo',
+    },
+
+    attachments: {
+        // Images and files attached to messages
+        title: 'Adjuntar',
+        attach: 'Adjuntar imágenes o archivos',
+        photoLibrary: 'Fotos y capturas',
+        files: 'Archivos',
+        remove: 'Quitar adjunto',
+        uploadFailed: 'Error al subir',
+    },
+
+    sessionSharing: {
+        // Sharing sessions with friends
+        title: 'Compartir con amigos',
+        openSubtitle: 'Permite que tus amigos sigan o trabajen en esta sesión',
+        sharedWith: 'Compartida con',
+        notShared: 'No se comparte con nadie',
+        friends: 'Amigos',
+        noFriends: 'No hay más amigos con quienes compartir',
+        footer: 'La clave de la sesión se cifra para cada amigo, el servidor nunca ve la conversación. Los lectores pueden seguirla, los colaboradores también pueden enviar mensajes y responder solicitudes de permiso.',
+        roleViewer: 'Puede ver',
+        roleCollaborator: 'Puede enviar mensajes y aprobar',
+        shareWith: ({ name }: { name: string }) => `Compartir con ${name}`,
+        chooseRole: '¿Qué debería poder hacer?',
+        changeTo: ({ role }: { role: string }) => `Cambiar a: ${role}`,
+        stopSharing: 'Dejar de compartir',
+        legacySession: 'Esta sesión se creó con una versión antigua de la CLI y no se puede compartir.',
+        friendNeedsUpdate: ({ name }: { name: string }) => `${name} debe abrir la última versión de la app antes de que puedas compartir sesiones.`,
+        sharedWithMe: 'Compartidas conmigo',
+        sharedBy: ({ name }: { name: string }) => `Compartida por ${name}`,
+        viewOnly: ({ name }: { name: string }) => `Solo lectura · compartida por ${name}`,
+    },
+
+    sessionPresence: {
+        // Other people looking at a shared session
+        someone: 'Alguien',
+        typing: ({ name }: { name: string }) => `${name} está escribiendo…`,
+        reviewingPermission: ({ name }: { name: string }) => `${name} está revisando una solicitud de permiso`,
+        permissionLocked: ({ name }: { name: string }) => `${name} está respondiendo esta solicitud`,
+        takeOver: 'Tomar el control',
     }
 } as const;
 
@@ -374,6 +374,14 @@ export const pl: TranslationStructure = {
         deleteSessionWarning: 'Ta operacja jest nieodwracalna. Wszystkie wiadomości i dane powiązane z tą sesją zostaną trwale usunięte.',
         failedToDeleteSession: 'Nie udało się usunąć sesji',
         sessionDeleted: 'Sesja została pomyślnie usunięta',
+        exportConversation: 'Eksportuj rozmowę',
+        exportMarkdown: 'Markdown',
+        exportMarkdownSubtitle: 'Czytelny zapis z wywołaniami narzędzi',
+        exportJson: 'JSON',
+        exportJsonSubtitle: 'Pełne dane z uprawnieniami i podrozmowami',
+        exportHtml: 'HTML',
+        exportHtmlSubtitle: 'Samodzielna strona otwierana w każdej przeglądarce',
+        exportFailed: 'Nie udało się wyeksportować rozmowy',
     },
 
     components: {
@@ -433,6 +441,7 @@ export const pl: TranslationStructure = {
         suggestion: {
             fileLabel: 'PLIK',
             folderLabel: 'FOLDER',
+            templateLabel: 'SZABLON',
         },
         noMachinesAvailable: 'Brak maszyn',
     },
@@ -533,6 +542,23 @@ export const pl: TranslationStructure = {
         file: 'Plik',
         fileEmpty: 'Plik jest pusty',
         noChanges: 'Brak zmian do wyświetlenia',
+        stageAll: 'Dodaj wszystkie',
+        unstageAll: 'Usuń wszystkie',
+        stageHunk: 'Dodaj fragment',
+        unstageHunk: 'Usuń fragment',
+        unstagedDiff: 'Niedodane',
+        stagedDiff: 'Dodane',
+        commitMessagePlaceholder: 'Opis commita',
+        commitMessageRequired: 'Najpierw wpisz opis commita.',
+        draftCommitMessage: 'Zapytaj agenta',
+        draftCommitMessageTimeout: 'Agent nie odpowiedział opisem commita na czas.',
+        commit: ({ count }: { count: number }) => `Zatwierdź ${count} ${plural({ count, one: 'plik', few: 'pliki', many: 'plików' })}`,
+        pull: 'Pull',
+        push: 'Push',
+        pullCount: ({ count }: { count: number }) => `Pull ${count}`,
+        pushCount: ({ count }: { count: number }) => `Push ${count}`,
+        gitFailed: 'Polecenie git nie powiodło się',
+        edit: 'Edytuj',
     },
 
     settingsVoice: {
@@ -688,7 +714,25 @@ export const pl: TranslationStructure = {
         enjoyingApp: 'Podoba Ci się aplikacja?',
         feedbackPrompt: 'Chcielibyśmy usłyszeć Twoją opinię!',
         yesILoveIt: 'Tak, uwielbiam ją!',
-        notReally: 'Nie bardzo'
+        notReally: 'Nie bardzo',
+        title: 'Przegląd zmian',
+        openSubtitle: 'Zachowaj, cofnij lub skomentuj zmiany agenta',
+        sinceLastPrompt: 'Od ostatniego polecenia',
+        wholeSession: 'Cała sesja',
+        summary: ({ files, hunks }: { files: number; hunks: number }) => `${files} ${plural({ count: files, one: 'plik', few: 'pliki', many: 'plików' })}, ${hunks} ${plural({ count: hunks, one: 'zmiana', few: 'zmiany', many: 'zmian' })}`,
+        noChanges: 'Brak zmian od punktu kontrolnego',
+        notByAgent: 'Nie zmienione przez agenta',
+        agentEdit: 'Edycja agenta',
+        fileWrite: 'Zapisano cały plik, nie można cofnąć',
+        keep: 'Zachowaj',
+        revert: 'Cofnij',
+        comment: 'Komentarz',
+        commentDescription: 'Zostanie wysłany do agenta razem z resztą przeglądu.',
+        commentPlaceholder: 'Co powinno się tu zmienić?',
+        apply: ({ reverts, comments }: { reverts: number; comments: number }) => `Zastosuj przegląd (cofnięte: ${reverts}, komentarze: ${comments})`,
+        sentMessage: ({ comments, reverts }: { comments: number; reverts: number }) => `Przegląd: komentarze: ${comments}, cofnięte: ${reverts}`,
+        revertFailed: ({ count }: { count: number }) => `Nie udało się cofnąć zmian: ${count}`,
+        revertFailedDescription: 'Plik zmienił się od załadowania przeglądu. Te zmiany zostały zachowane i nie zgłoszono ich jako cofniętych.',
     },
 
     items: {
@@ -728,6 +772,9 @@ export const pl: TranslationStructure = {
         unknownEvent: 'Nieznane zdarzenie',
         usageLimitUntil: ({ time }: { time: string }) => `Osiągnięto limit użycia do ${time}`,
         unknownTime: 'nieznany czas',
+        deliveryQueued: 'Oczekiwanie na połączenie',
+        deliverySending: 'Wysyłanie...',
+        deliveryFailed: 'Nie dostarczono',
     },
 
     codex: {
@@ -804,6 +851,42 @@ export const pl: TranslationStructure = {
         saving: 'Zapisywanie...',
         loading: 'Ładowanie artefaktów...',
         error: 'Nie udało się załadować artefaktu',
+        history: 'Historia',
+        revisions: 'Wersje',
+        noRevisions: 'Brak zapisanych wersji',
+        historyFooter: 'Każdy zapis zachowuje zaszyfrowaną wersję. Wybierz jedną wersję, aby porównać ją z bieżącą, lub dwie, aby porównać je ze sobą.',
+        historyError: 'Nie udało się wczytać historii',
+        currentRevision: 'Bieżąca',
+        revisionUnreadable: 'Nie udało się odszyfrować tej wersji',
+        savedFrom: ({ device }: { device: string }) => `Zapisano z: ${device}`,
+        savedFromUnknown: 'Zapisano z nieznanego urządzenia',
+        compareWithCurrent: 'Porównaj z bieżącą',
+        compareSelected: 'Porównaj wybrane',
+        compareTitle: 'Porównaj wersje',
+        compareRange: ({ from, to }: { from: string; to: string }) => `${from} → ${to}`,
+        revisionNotFound: 'Nie znaleziono wersji',
+        restore: 'Przywróć',
+        restoreConfirm: 'Przywrócić tę wersję?',
+        restoreConfirmDescription: ({ date }: { date: string }) => `Artefakt wróci do stanu z ${date}. Bieżąca treść pozostanie w historii.`,
+        restoreError: 'Nie udało się przywrócić wersji. Spróbuj ponownie.',
+        untitled: 'Bez tytułu',
+        saveAsArtifact: 'Zapisz jako artefakt',
+        savedAsArtifact: 'Zapisano jako artefakt',
+        open: 'Otwórz',
+        publishedByAgent: 'Artefakt opublikowany przez agenta',
+        publishing: 'Zapisywanie artefaktu...',
+        typeLabel: 'TYP',
+        typeMarkdown: 'Tekst',
+        typeCode: 'Kod',
+        typeDiagram: 'Diagram',
+        typeChecklist: 'Lista zadań',
+        languageLabel: 'JĘZYK',
+        languagePlaceholder: 'np. typescript',
+        diagramPlaceholder: 'Diagram Mermaid, np. graph TD; A-->B',
+        checklistItemPlaceholder: 'Element',
+        addChecklistItem: 'Dodaj element',
+        removeChecklistItem: 'Usuń element',
+        checklistProgress: ({ done, total }: { done: number; total: number }) => `Ukończono ${done} z ${total}`,
     },
 
     friends: {
@@ -877,6 +960,329 @@ export const pl: TranslationStructure = {
         friendRequestGeneric: 'Nowe zaproszenie do znajomych',
         friendAccepted: ({ name }: { name: string }) => `Jesteś teraz znajomym z ${name}`,
         friendAcceptedGeneric: 'Zaproszenie do znajomych zaakceptowane',
+        sessionShared: ({ name }: { name: string }) => `${name} udostępnił(a) Ci sesję`,
+        templateShared: ({ name }: { name: string }) => `${name} wysłał(a) Ci szablon promptu`,
+    },
+
+    sessionSearch: {
+        // Used by message search screen
+        title: 'Szukaj wiadomości',
+        placeholder: 'Szukaj we wszystkich sesjach',
+        hint: 'Znajdź wiadomości, wywołania narzędzi i ścieżki plików z sesji na tym urządzeniu',
+        noResults: 'Brak pasujących wiadomości',
+        matches: ({ count }: { count: number }) => `${count} ${plural({ count, one: 'wynik', few: 'wyniki', many: 'wyników' })}`,
+    },
+
+    permissionRules: {
+        // Per project rules that answer permission requests automatically
+        title: 'Reguły uprawnień',
+        subtitle: 'Automatycznie zezwalaj lub odmawiaj żądaniom narzędzi',
+        sessionSubtitle: 'Reguły dla tego projektu',
+        projects: 'Projekty',
+        projectsFooter: 'Reguły dotyczą sesji uruchomionych w tym samym folderze na tej samej maszynie i synchronizują się między urządzeniami',
+        noProjects: 'Brak projektów',
+        rulesCount: ({ count }: { count: number }) => `${count} ${plural({ count, one: 'reguła', few: 'reguły', many: 'reguł' })}`,
+        rules: 'Reguły',
+        rulesFooter: ({ path, machine }: { path: string; machine: string }) => `Dotyczy ${path} na ${machine}. Reguły odmowy mają pierwszeństwo, a połączone polecenia powłoki nigdy nie są automatycznie dozwolone. Dotknij reguły, aby ją usunąć.`,
+        noRules: 'Brak reguł dla tego projektu',
+        addRule: 'Dodaj regułę',
+        toolPlaceholder: 'Nazwa narzędzia, np. Bash, Edit lub * dla dowolnego',
+        matchAny: 'Dowolne argumenty',
+        matchPathGlob: 'Wzorzec ścieżki pliku',
+        matchCommandPrefix: 'Prefiks polecenia',
+        pathGlobPlaceholder: 'src/**/*.ts',
+        commandPrefixPlaceholder: 'npm test',
+        allow: 'Zezwól',
+        deny: 'Odmów',
+        allowed: 'Zezwolono',
+        denied: 'Odmówiono',
+        delete: 'Usuń',
+        deleteRule: 'Usuń regułę',
+        deleteRuleConfirm: 'Pasujące żądania znów będą wymagać Twojej zgody.',
+        toolRequired: 'Wpisz nazwę narzędzia',
+        patternRequired: 'Wpisz wzorzec dla tej reguły',
+        recentDecisions: 'Ostatnie automatyczne decyzje',
+    },
+
+    permissionAudit: {
+        // Log of permission decisions per session and project
+        title: 'Dziennik uprawnień',
+        sessionSubtitle: 'Wszystkie decyzje o uprawnieniach w tej sesji',
+        projectSubtitle: 'Wszystkie decyzje o uprawnieniach w tym projekcie',
+        allSubtitle: 'Decyzje o uprawnieniach ze wszystkich sesji',
+        approved: 'Zatwierdzono',
+        denied: 'Odrzucono',
+        canceled: 'Anulowano',
+        allOutcomes: 'Wszystkie',
+        allTools: 'Wszystkie narzędzia',
+        decidedByRule: 'Reguła uprawnień',
+        decidedByYou: ({ device }: { device: string }) => `Ty na ${device}`,
+        decidedElsewhere: 'Terminal lub inne urządzenie',
+        decision: ({ decision }: { decision: string }) => `Decyzja: ${decision}`,
+        mode: ({ mode }: { mode: string }) => `Tryb: ${mode}`,
+        decisions: 'Decyzje',
+        footer: 'Autor decyzji jest znany tylko dla decyzji podjętych na tym urządzeniu. Dotknij decyzji, aby zobaczyć wszystkie argumenty.',
+        empty: 'Brak decyzji o uprawnieniach',
+        exportCsv: 'Eksportuj CSV',
+        exportCsvSubtitle: ({ count }: { count: number }) => `${count} ${plural({ count, one: 'decyzja', few: 'decyzje', many: 'decyzji' })} pasujących do filtrów`,
+        exportFailed: 'Nie udało się wyeksportować dziennika uprawnień',
+    },
+
+    pendingPermissions: {
+        // Batch approval of pending permission requests
+        title: 'Oczekujące żądania',
+        pill: ({ count }: { count: number }) => `${count} ${plural({ count, one: 'żądanie', few: 'żądania', many: 'żądań' })} uprawnień czeka`,
+        requests: ({ count }: { count: number }) => `${count} ${plural({ count, one: 'żądanie', few: 'żądania', many: 'żądań' })}`,
+        requestsFooter: 'Dotknij żądania, aby je zaznaczyć lub odznaczyć. Zmiany zaznaczonych żądań są pokazane poniżej, pogrupowane według plików.',
+        selectAll: 'Zaznacz wszystkie',
+        selectNone: 'Odznacz wszystkie',
+        approveSelected: ({ count }: { count: number }) => `Zatwierdź zaznaczone (${count})`,
+        denySelected: ({ count }: { count: number }) => `Odrzuć zaznaczone (${count})`,
+        empty: 'Brak oczekujących żądań uprawnień',
+        failed: 'Nie udało się odpowiedzieć na niektóre żądania uprawnień',
+    },
+
+    sessionFork: {
+        // Forking a session from a message
+        fork: 'Rozgałęź',
+        forkInWorktree: 'Rozgałęź w nowym worktree',
+        forking: 'Rozgałęzianie…',
+        title: 'Rozgałęź od tego miejsca',
+        message: 'Rozpocznij nową sesję na tej samej maszynie z podsumowaniem rozmowy do tej wiadomości. Wiadomość trafi do pola wprowadzania nowej sesji, więc możesz ją edytować przed wysłaniem.',
+        failed: ({ error }: { error: string }) => `Nie udało się rozgałęzić sesji: ${error}`,
+        subtitle: ({ subtitle, name }: { subtitle: string; name: string }) => `${subtitle} · rozgałęziona z ${name}`,
+        lineage: 'Rozgałęzienia',
+        forkedFrom: 'Rozgałęziona z',
+        forkCreated: ({ date }: { date: string }) => `Rozgałęzienie utworzone ${date}`,
+    },
+
+    sessionDashboard: {
+        // Multi-session dashboard
+        title: 'Pulpit',
+        layout: 'Układ',
+        columns2: 'Dwie kolumny',
+        columns3: 'Trzy kolumny',
+        grid4: 'Siatka czterech',
+        pickSession: 'Pokaż sesję',
+        noSessions: 'Wszystkie sesje są już wyświetlane.',
+        closePane: 'Zamknij panel',
+    },
+
+    fileEditor: {
+        // In-app file editor
+        unsaved: 'Niezapisane zmiany',
+        yourVersion: 'twoja wersja',
+        diskVersion: 'wersja na dysku',
+        conflictTitle: 'Plik zmienił się na dysku',
+        conflictCount: ({ count }: { count: number }) => `${count} ${plural({ count, one: 'fragment koliduje', few: 'fragmenty kolidują', many: 'fragmentów koliduje' })} z twoimi zmianami. Konflikty są oznaczone w scalonej wersji.`,
+        conflictMergeable: 'Twoje zmiany nie nakładają się na zmiany na dysku i można je scalić.',
+        useMerged: 'Użyj scalonej',
+        keepMine: 'Zachowaj moją',
+        useDisk: 'Użyj z dysku',
+        changesOnDisk: 'Zmiany na dysku',
+        yourChanges: 'Twoje zmiany',
+    },
+
+    codeSearch: {
+        // Project-wide code search
+        title: 'Szukaj w kodzie',
+        placeholder: 'Szukaj w projekcie',
+        includePlaceholder: 'Uwzględnij, np. src/**',
+        excludePlaceholder: 'Wyklucz, np. *.test.ts',
+        hint: 'Przeszukuj zawartość plików tekstem lub wyrażeniami regularnymi. Dotknij linii, aby ją otworzyć, lub ikony komentarza, aby dodać odwołanie do wiadomości.',
+        searching: 'Wyszukiwanie…',
+        summary: ({ matches, files }: { matches: number; files: number }) => `${matches} ${plural({ count: matches, one: 'wynik', few: 'wyniki', many: 'wyników' })} w ${files} ${plural({ count: files, one: 'pliku', few: 'plikach', many: 'plikach' })}`,
+        truncated: 'Pokazano tylko pierwsze 200 plików, zawęź wyszukiwanie, aby zobaczyć więcej.',
+    },
+
+    remoteTerminal: {
+        // Remote terminal
+        title: 'Terminal',
+        open: 'Otwórz terminal',
+        openSessionSubtitle: 'Uruchamiaj polecenia w katalogu roboczym sesji',
+        openMachineSubtitle: 'Uruchamiaj polecenia w katalogu domowym',
+        placeholder: 'Polecenie',
+        running: 'Trwa… dotknij ^C, aby przerwać',
+        hint: 'Polecenia działają na maszynie bez TTY, więc programy interaktywne nie zadziałają. Dotknij ^C raz, aby przerwać, i ponownie, aby zabić proces.',
+        noTabs: 'Brak otwartych kart. Dotknij +, aby otworzyć.',
+        interrupted: 'Przerwano',
+        failed: 'Utracono kontakt z poleceniem',
+        exitCode: ({ code }: { code: number }) => `Zakończono z kodem ${code}`,
+    },
+
+    gitHistory: {
+        // Commit history and branches
+        title: 'Historia',
+        commitTitle: 'Commit',
+        commits: 'Commity',
+        branches: 'Gałęzie',
+        allBranches: 'Wszystkie gałęzie',
+        showAll: 'Pokaż wszystkie',
+        showCurrent: 'Tylko bieżąca',
+        noCommits: 'Brak commitów',
+        checkout: 'Przełącz',
+        viewHistory: 'Pokaż historię',
+        newBranch: 'Nowa gałąź',
+        newBranchDescription: 'Gałąź zaczyna się od bieżącego commita i zostanie przełączona.',
+        branchNamePlaceholder: 'feature/moja-zmiana',
+        createBranch: 'Utwórz',
+        noUpstream: 'Brak upstream',
+        upstreamGone: ({ upstream }: { upstream: string }) => `${upstream} (usunięta)`,
+        mergeOf: ({ parents }: { parents: string }) => `Scalenie ${parents}`,
+        changeSummary: ({ files, insertions, deletions }: { files: number; insertions: number; deletions: number }) => `${files} ${plural({ count: files, one: 'zmieniony plik', few: 'zmienione pliki', many: 'zmienionych plików' })}, +${insertions} -${deletions}`,
+        binary: 'binarny',
+        binaryNotShown: 'Pliki binarne nie są wyświetlane',
+    },
+
+    diffComments: {
+        // Comments on diff lines
+        title: 'Komentarze do zmian',
+        commentOnLine: ({ line }: { line: number }) => `Skomentuj wiersz ${line}`,
+        line: ({ line }: { line: number }) => `wiersz ${line}`,
+        placeholder: 'Co agent powinien zmienić?',
+        empty: 'Przytrzymaj wiersz w zmianach edycji, aby go skomentować.',
+        pending: 'Niewysłany',
+        sent: 'Wysłany',
+        resolved: 'Rozwiązany',
+        send: ({ count }: { count: number }) => count > 0 ? `Wyślij agentowi ${count} ${plural({ count, one: 'komentarz', few: 'komentarze', many: 'komentarzy' })}` : 'Brak komentarzy do wysłania',
+        pill: ({ count }: { count: number }) => `${count} ${plural({ count, one: 'komentarz', few: 'komentarze', many: 'komentarzy' })} do wysłania`,
+        sentMessage: ({ count }: { count: number }) => `Komentarze do wierszy zmian: ${count}`,
+        clearResolved: ({ count }: { count: number }) => `Usuń rozwiązane (${count})`,
+    },
+
+    scheduledPrompts: {
+        // Scheduled and recurring prompts
+        title: 'Zaplanowane polecenia',
+        subtitle: 'Wysyłaj polecenia do agentów według harmonogramu',
+        schedulePrompt: 'Zaplanuj polecenie',
+        schedulePromptSubtitle: 'Wysyłaj polecenie do tej sesji według harmonogramu',
+        new: 'Nowe zaplanowane polecenie',
+        edit: 'Edytuj zaplanowane polecenie',
+        empty: 'Dodaj zaplanowane polecenie',
+        footer: 'Polecenia są wysyłane, gdy aplikacja jest otwarta na jednym z Twoich urządzeń. Pominięte uruchomienia są nadrabiane w ciągu sześciu godzin.',
+        missingSession: 'Nie znaleziono sesji',
+        newSessionIn: ({ path, machine }: { path: string; machine: string }) => `Nowa sesja w ${path} na ${machine}`,
+        nextRun: ({ time }: { time: string }) => `Następne uruchomienie: ${time}`,
+        paused: 'Wstrzymane',
+        neverRun: 'Jeszcze nie uruchomiono',
+        running: 'Uruchamianie…',
+        lastRunSuccess: ({ time }: { time: string }) => `Ostatnie uruchomienie ${time}: wysłano`,
+        lastRunError: ({ time, error }: { time: string; error: string }) => `Ostatnie uruchomienie ${time} nie powiodło się: ${error}`,
+        invalidSchedule: 'Nieprawidłowy harmonogram',
+        neverRuns: 'Ten harmonogram nigdy się nie uruchomi',
+        scheduleFooter: 'Nieprawidłowy harmonogram. Podaj minutę, godzinę, dzień miesiąca, miesiąc i dzień tygodnia jak w cron, na przykład "0 9 * * 1-5" dla dni roboczych o 9:00, albo @hourly, @daily i @weekly.',
+        presetHourly: 'Co godzinę',
+        presetDaily: 'Codziennie o 9:00',
+        presetWeekdays: 'W dni robocze o 9:00',
+        presetWeekly: 'W poniedziałki o 9:00',
+        prompt: 'Polecenie',
+        titlePlaceholder: 'Nazwa, np. Poranne sprawdzenie CI',
+        promptPlaceholder: 'Co agent ma zrobić?',
+        schedule: 'Harmonogram',
+        existingSession: 'Wyślij do sesji',
+        noActiveSessions: 'Brak aktywnych sesji',
+        newSession: 'Uruchom nową sesję',
+        newSessionFooter: 'Każde uruchomienie tworzy nową sesję w projekcie.',
+        agent: 'Agent',
+        fieldsRequired: 'Podaj nazwę i polecenie',
+        targetRequired: 'Wybierz sesję lub projekt, do którego trafi polecenie',
+        runNow: 'Uruchom teraz',
+        openLastSession: 'Otwórz ostatnią sesję',
+        delete: 'Usuń zaplanowane polecenie',
+        deleteConfirm: ({ title }: { title: string }) => `"${title}" nie będzie już uruchamiane na żadnym urządzeniu.`,
+    },
+
+    promptTemplates: {
+        // Prompt template library
+        title: 'Szablony poleceń',
+        subtitle: 'Polecenia wielokrotnego użytku w menu /',
+        footer: 'Wpisz / w sesji, aby wstawić szablon. Znaczniki takie jak {{issue}} uzupełnisz tuż przed wstawieniem.',
+        empty: 'Dodaj szablon',
+        new: 'Nowy szablon',
+        edit: 'Edytuj szablon',
+        template: 'Szablon',
+        namePlaceholder: 'Nazwa, np. Doprecyzuj zadanie',
+        descriptionPlaceholder: 'Opis (opcjonalnie)',
+        commandFooter: ({ command }: { command: string }) => `Wstaw przez /${command}`,
+        body: 'Polecenie',
+        bodyPlaceholder: 'Napraw {{issue}} i dodaj do tego test',
+        variablesFooter: ({ variables }: { variables: string }) => `Pytanie przy wstawianiu o: ${variables}`,
+        noVariablesFooter: 'Użyj {{name}} dla części, które za każdym razem są inne.',
+        variablesCount: ({ count }: { count: number }) => `${count} ${plural({ count, one: 'zmienna', few: 'zmienne', many: 'zmiennych' })}`,
+        fieldsRequired: 'Podaj nazwę i polecenie',
+        variablePlaceholder: ({ name }: { name: string }) => `Wartość dla ${name}`,
+        insert: 'Wstaw',
+        share: 'Udostępnij',
+        shareLink: 'Udostępnij link',
+        shareFooter: 'Link zawiera cały szablon. Każdy, kto go otworzy, może dodać go do swojej biblioteki.',
+        shareMessage: ({ template, link }: { template: string; link: string }) => `Szablon polecenia "${template}": ${link}`,
+        linkFrom: ({ name }: { name: string }) => `Link podaje, że pochodzi od: ${name}, nie jest to zweryfikowane`,
+        delete: 'Usuń szablon',
+        deleteConfirm: ({ name }: { name: string }) => `"${name}" zostanie usunięty ze wszystkich Twoich urządzeń.`,
+        importTitle: 'Importuj szablon',
+        importMessage: 'Wklej link do szablonu, który ktoś Ci udostępnił',
+        import: 'Importuj',
+        invalidLink: 'To nie jest prawidłowy link do szablonu',
+        addToLibrary: 'Dodaj do moich szablonów',
+        sendToFriends: 'Wyślij znajomym',
+        sendToFriendsFooter: 'Szablon jest szyfrowany dla znajomego i pojawia się w jego aktualnościach.',
+        sent: 'Szablon wysłany',
+        sentTo: ({ name, template }: { name: string; template: string }) => `${name} może teraz dodać „${template}” ze swoich aktualności.`,
+        friendNeedsUpdate: ({ name }: { name: string }) => `${name} musi otworzyć najnowszą wersję aplikacji, zanim będzie można wysyłać mu szablony.`,
+        sharedBy: ({ name }: { name: string }) => `Wysłane przez ${name}`,
+        cannotOpenShare: 'Tego szablonu nie można otworzyć na tym koncie',
+    },
+
+    messageQueue: {
+        // Prompts queued while the agent is thinking
+        title: ({ count }: { count: number }) => `W kolejce: ${count} · wysyłane, gdy agent będzie gotowy`,
+        editTitle: 'Edytuj wiadomość w kolejce',
+        moveUp: 'Przesuń w górę',
+        moveDown: 'Przesuń w dół',
+        sendNow: 'Wyślij teraz',
+        remove: 'Usuń z kolejki',
+        queue: 'Dodaj do kolejki, aż agent będzie gotowy',
+    },
+
+    attachments: {
+        // Images and files attached to messages
+        title: 'Załącz',
+        attach: 'Załącz obrazy lub pliki',
+        photoLibrary: 'Zdjęcia i zrzuty ekranu',
+        files: 'Pliki',
+        remove: 'Usuń załącznik',
+        uploadFailed: 'Przesyłanie nie powiodło się',
+    },
+
+    sessionSharing: {
+        // Sharing sessions with friends
+        title: 'Udostępnij znajomym',
+        openSubtitle: 'Pozwól znajomym śledzić tę sesję lub w niej pracować',
+        sharedWith: 'Udostępniono',
+        notShared: 'Nie udostępniono nikomu',
+        friends: 'Znajomi',
+        noFriends: 'Brak innych znajomych do udostępnienia',
+        footer: 'Klucz sesji jest szyfrowany dla każdego znajomego, serwer nigdy nie widzi rozmowy. Obserwujący mogą ją śledzić, współpracownicy mogą też wysyłać wiadomości i odpowiadać na prośby o uprawnienia.',
+        roleViewer: 'Może przeglądać',
+        roleCollaborator: 'Może wysyłać wiadomości i zatwierdzać',
+        shareWith: ({ name }: { name: string }) => `Udostępnij: ${name}`,
+        chooseRole: 'Co ta osoba może robić?',
+        changeTo: ({ role }: { role: string }) => `Zmień na: ${role}`,
+        stopSharing: 'Przestań udostępniać',
+        legacySession: 'Ta sesja została utworzona starszą wersją CLI i nie można jej udostępnić.',
+        friendNeedsUpdate: ({ name }: { name: string }) => `${name} musi otworzyć najnowszą wersję aplikacji, zanim udostępnisz tej osobie sesje.`,
+        sharedWithMe: 'Udostępnione mi',
+        sharedBy: ({ name }: { name: string }) => `Udostępnione przez: ${name}`,
+        viewOnly: ({ name }: { name: string }) => `Tylko podgląd · udostępnione przez: ${name}`,
+    },
+
+    sessionPresence: {
+        // Other people looking at a shared session
+        someone: 'Ktoś',
+        typing: ({ name }: { name: string }) => `${name} pisze…`,
+        reviewingPermission: ({ name }: { name: string }) => `${name} przegląda prośbę o uprawnienia`,
+        permissionLocked: ({ name }: { name: string }) => `${name} odpowiada na tę prośbę`,
+        takeOver: 'Przejmij',
     }
 } as const;
 
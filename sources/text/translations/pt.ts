@@ -364,6 +364,14 @@ export const pt: TranslationStructure = {
         failedToDeleteSession: 'Falha ao excluir sessão',
         sessionDeleted: 'Sessão excluída com sucesso',
         
+        exportConversation: 'Exportar conversa',
+        exportMarkdown: 'Markdown',
+        exportMarkdownSubtitle: 'Transcrição legível com chamadas de ferramentas',
+        exportJson: 'JSON',
+        exportJsonSubtitle: 'Dados completos com permissões e subconversas',
+        exportHtml: 'HTML',
+        exportHtmlSubtitle: 'Página independente que abre em qualquer navegador',
+        exportFailed: 'Falha ao exportar a conversa',
     },
 
     components: {
@@ -423,6 +431,7 @@ export const pt: TranslationStructure = {
         suggestion: {
             fileLabel: 'ARQUIVO',
             folderLabel: 'PASTA',
+            templateLabel: 'MODELO',
         },
         noMachinesAvailable: 'Sem máquinas',
     },
@@ -523,6 +532,23 @@ export const pt: TranslationStructure = {
         file: 'Arquivo',
         fileEmpty: 'Arquivo está vazio',
         noChanges: 'Nenhuma alteração para exibir',
+        stageAll: 'Preparar tudo',
+        unstageAll: 'Remover tudo',
+        stageHunk: 'Preparar trecho',
+        unstageHunk: 'Remover trecho',
+        unstagedDiff: 'Não preparados',
+        stagedDiff: 'Preparados',
+        commitMessagePlaceholder: 'Mensagem do commit',
+        commitMessageRequired: 'Digite uma mensagem de commit primeiro.',
+        draftCommitMessage: 'Pedir ao agente',
+        draftCommitMessageTimeout: 'O agente não respondeu com uma mensagem de commit a tempo.',
+        commit: ({ count }: { count: number }) => `Fazer commit de ${count} ${count === 1 ? 'arquivo' : 'arquivos'}`,
+        pull: 'Pull',
+        push: 'Push',
+        pullCount: ({ count }: { count: number }) => `Pull ${count}`,
+        pushCount: ({ count }: { count: number }) => `Push ${count}`,
+        gitFailed: 'O comando git falhou',
+        edit: 'Editar',
     },
 
     settingsVoice: {
@@ -678,7 +704,25 @@ export const pt: TranslationStructure = {
         enjoyingApp: 'Curtindo o aplicativo?',
         feedbackPrompt: 'Adoraríamos ouvir seu feedback!',
         yesILoveIt: 'Sim, eu amo!',
-        notReally: 'Não muito'
+        notReally: 'Não muito',
+        title: 'Revisar alterações',
+        openSubtitle: 'Mantenha, reverta ou comente o que o agente alterou',
+        sinceLastPrompt: 'Desde o último prompt',
+        wholeSession: 'Sessão inteira',
+        summary: ({ files, hunks }: { files: number; hunks: number }) => `${files} arquivo${files !== 1 ? 's' : ''}, ${hunks} alteraç${hunks !== 1 ? 'ões' : 'ão'}`,
+        noChanges: 'Nenhuma alteração desde o checkpoint',
+        notByAgent: 'Não alterado pelo agente',
+        agentEdit: 'Edição do agente',
+        fileWrite: 'Arquivo escrito por inteiro, não pode ser revertido',
+        keep: 'Manter',
+        revert: 'Reverter',
+        comment: 'Comentário',
+        commentDescription: 'Enviado ao agente junto com o resto da revisão.',
+        commentPlaceholder: 'O que deve mudar aqui?',
+        apply: ({ reverts, comments }: { reverts: number; comments: number }) => `Aplicar revisão (${reverts} revertidas, ${comments} comentário${comments !== 1 ? 's' : ''})`,
+        sentMessage: ({ comments, reverts }: { comments: number; reverts: number }) => `Revisão: ${comments} comentário${comments !== 1 ? 's' : ''}, ${reverts} revertidas`,
+        revertFailed: ({ count }: { count: number }) => `Não foi possível reverter ${count} alteraç${count !== 1 ? 'ões' : 'ão'}`,
+        revertFailedDescription: 'O arquivo mudou desde que a revisão foi carregada. Essas alterações foram mantidas e não informadas como revertidas.',
     },
 
     items: {
@@ -718,6 +762,9 @@ export const pt: TranslationStructure = {
         unknownEvent: 'Evento desconhecido',
         usageLimitUntil: ({ time }: { time: string }) => `Limite de uso atingido até ${time}`,
         unknownTime: 'horário desconhecido',
+        deliveryQueued: 'Aguardando conexão',
+        deliverySending: 'Enviando...',
+        deliveryFailed: 'Não entregue',
     },
 
     codex: {
@@ -780,6 +827,42 @@ export const pt: TranslationStructure = {
         bodyLabel: 'CONTEÚDO',
         emptyFieldsError: 'Por favor, insira um título ou conteúdo',
         createError: 'Falha ao criar artefato. Por favor, tente novamente.',
+        history: 'Histórico',
+        revisions: 'Revisões',
+        noRevisions: 'Nenhuma revisão salva ainda',
+        historyFooter: 'Cada salvamento mantém uma revisão criptografada. Selecione uma revisão para compará-la com a atual, ou duas para compará-las entre si.',
+        historyError: 'Falha ao carregar o histórico',
+        currentRevision: 'Atual',
+        revisionUnreadable: 'Não foi possível descriptografar esta revisão',
+        savedFrom: ({ device }: { device: string }) => `Salva pelo ${device}`,
+        savedFromUnknown: 'Salva por um dispositivo desconhecido',
+        compareWithCurrent: 'Comparar com a atual',
+        compareSelected: 'Comparar selecionadas',
+        compareTitle: 'Comparar revisões',
+        compareRange: ({ from, to }: { from: string; to: string }) => `${from} → ${to}`,
+        revisionNotFound: 'Revisão não encontrada',
+        restore: 'Restaurar',
+        restoreConfirm: 'Restaurar esta revisão?',
+        restoreConfirmDescription: ({ date }: { date: string }) => `O artefato volta a ser como era em ${date}. O conteúdo atual fica no histórico.`,
+        restoreError: 'Falha ao restaurar a revisão. Tente novamente.',
+        untitled: 'Sem título',
+        saveAsArtifact: 'Salvar como artefato',
+        savedAsArtifact: 'Salvo como artefato',
+        open: 'Abrir',
+        publishedByAgent: 'Artefato publicado pelo agente',
+        publishing: 'Salvando artefato...',
+        typeLabel: 'TIPO',
+        typeMarkdown: 'Texto',
+        typeCode: 'Código',
+        typeDiagram: 'Diagrama',
+        typeChecklist: 'Lista de tarefas',
+        languageLabel: 'LINGUAGEM',
+        languagePlaceholder: 'ex.: typescript',
+        diagramPlaceholder: 'Diagrama Mermaid, ex.: graph TD; A-->B',
+        checklistItemPlaceholder: 'Item',
+        addChecklistItem: 'Adicionar item',
+        removeChecklistItem: 'Remover item',
+        checklistProgress: ({ done, total }: { done: number; total: number }) => `${done} de ${total} concluídos`,
     },
 
     friends: {
@@ -853,6 +936,329 @@ export const pt: TranslationStructure = {
         friendRequestGeneric: 'Novo pedido de amizade',
         friendAccepted: ({ name }: { name: string }) => `Agora você é amigo de ${name}`,
         friendAcceptedGeneric: 'Pedido de amizade aceito',
+        sessionShared: ({ name }: { name: string }) => `${name} compartilhou uma sessão com você`,
+        templateShared: ({ name }: { name: string }) => `${name} enviou um modelo de prompt para você`,
+    },
+
+    sessionSearch: {
+        // Used by message search screen
+        title: 'Buscar mensagens',
+        placeholder: 'Buscar em todas as sessões',
+        hint: 'Encontre mensagens, chamadas de ferramentas e caminhos de arquivos das sessões neste dispositivo',
+        noResults: 'Nenhuma mensagem correspondente',
+        matches: ({ count }: { count: number }) => `${count} ${count === 1 ? 'resultado' : 'resultados'}`,
+    },
+
+    permissionRules: {
+        // Per project rules that answer permission requests automatically
+        title: 'Regras de permissão',
+        subtitle: 'Permitir ou negar automaticamente solicitações de ferramentas',
+        sessionSubtitle: 'Regras deste projeto',
+        projects: 'Projetos',
+        projectsFooter: 'As regras se aplicam a sessões iniciadas na mesma pasta e máquina e são sincronizadas entre seus dispositivos',
+        noProjects: 'Nenhum projeto ainda',
+        rulesCount: ({ count }: { count: number }) => `${count} ${count === 1 ? 'regra' : 'regras'}`,
+        rules: 'Regras',
+        rulesFooter: ({ path, machine }: { path: string; machine: string }) => `Aplica-se a ${path} em ${machine}. Regras de negação têm prioridade e comandos encadeados nunca são permitidos automaticamente. Toque em uma regra para excluí-la.`,
+        noRules: 'Nenhuma regra para este projeto',
+        addRule: 'Adicionar regra',
+        toolPlaceholder: 'Nome da ferramenta, ex. Bash, Edit ou * para qualquer',
+        matchAny: 'Quaisquer argumentos',
+        matchPathGlob: 'Padrão de caminho de arquivo',
+        matchCommandPrefix: 'Prefixo de comando',
+        pathGlobPlaceholder: 'src/**/*.ts',
+        commandPrefixPlaceholder: 'npm test',
+        allow: 'Permitir',
+        deny: 'Negar',
+        allowed: 'Permitido',
+        denied: 'Negado',
+        delete: 'Excluir',
+        deleteRule: 'Excluir regra',
+        deleteRuleConfirm: 'As solicitações correspondentes voltarão a pedir sua aprovação.',
+        toolRequired: 'Digite o nome de uma ferramenta',
+        patternRequired: 'Digite um padrão para esta regra',
+        recentDecisions: 'Decisões automáticas recentes',
+    },
+
+    permissionAudit: {
+        // Log of permission decisions per session and project
+        title: 'Registro de permissões',
+        sessionSubtitle: 'Todas as decisões de permissão desta sessão',
+        projectSubtitle: 'Todas as decisões de permissão deste projeto',
+        allSubtitle: 'Decisões de permissão de todas as sessões',
+        approved: 'Aprovado',
+        denied: 'Negado',
+        canceled: 'Cancelado',
+        allOutcomes: 'Todos',
+        allTools: 'Todas as ferramentas',
+        decidedByRule: 'Regra de permissão',
+        decidedByYou: ({ device }: { device: string }) => `Você no ${device}`,
+        decidedElsewhere: 'Terminal ou outro dispositivo',
+        decision: ({ decision }: { decision: string }) => `Decisão: ${decision}`,
+        mode: ({ mode }: { mode: string }) => `Modo: ${mode}`,
+        decisions: 'Decisões',
+        footer: 'Quem decidiu só é conhecido para decisões tomadas neste dispositivo. Toque em uma decisão para ver todos os argumentos.',
+        empty: 'Nenhuma decisão de permissão',
+        exportCsv: 'Exportar CSV',
+        exportCsvSubtitle: ({ count }: { count: number }) => `${count} ${count === 1 ? 'decisão' : 'decisões'} correspondentes aos filtros`,
+        exportFailed: 'Falha ao exportar o registro de permissões',
+    },
+
+    pendingPermissions: {
+        // Batch approval of pending permission requests
+        title: 'Solicitações pendentes',
+        pill: ({ count }: { count: number }) => `${count} solicitações de permissão aguardando`,
+        requests: ({ count }: { count: number }) => `${count} ${count === 1 ? 'solicitação' : 'solicitações'}`,
+        requestsFooter: 'Toque em uma solicitação para incluí-la ou excluí-la. As alterações das solicitações selecionadas aparecem abaixo, agrupadas por arquivo.',
+        selectAll: 'Selecionar tudo',
+        selectNone: 'Desmarcar tudo',
+        approveSelected: ({ count }: { count: number }) => `Aprovar ${count} selecionadas`,
+        denySelected: ({ count }: { count: number }) => `Negar ${count} selecionadas`,
+        empty: 'Nenhuma solicitação de permissão pendente',
+        failed: 'Falha ao responder algumas solicitações de permissão',
+    },
+
+    sessionFork: {
+        // Forking a session from a message
+        fork: 'Bifurcar',
+        forkInWorktree: 'Bifurcar em um novo worktree',
+        forking: 'Bifurcando…',
+        title: 'Bifurcar a partir daqui',
+        message: 'Inicia uma nova sessão na mesma máquina com um resumo da conversa até esta mensagem. A mensagem é colocada na entrada da nova sessão para que você possa editá-la antes de enviar.',
+        failed: ({ error }: { error: string }) => `Falha ao bifurcar a sessão: ${error}`,
+        subtitle: ({ subtitle, name }: { subtitle: string; name: string }) => `${subtitle} · bifurcada de ${name}`,
+        lineage: 'Bifurcações',
+        forkedFrom: 'Bifurcada de',
+        forkCreated: ({ date }: { date: string }) => `Bifurcação criada ${date}`,
+    },
+
+    sessionDashboard: {
+        // Multi-session dashboard
+        title: 'Painel',
+        layout: 'Layout',
+        columns2: 'Duas colunas',
+        columns3: 'Três colunas',
+        grid4: 'Grade de quatro',
+        pickSession: 'Mostrar sessão',
+        noSessions: 'Todas as sessões já estão sendo exibidas.',
+        closePane: 'Fechar painel',
+    },
+
+    fileEditor: {
+        // In-app file editor
+        unsaved: 'Alterações não salvas',
+        yourVersion: 'sua versão',
+        diskVersion: 'versão no disco',
+        conflictTitle: 'O arquivo mudou no disco',
+        conflictCount: ({ count }: { count: number }) => `${count} ${count === 1 ? 'região entra' : 'regiões entram'} em conflito com suas edições. Os conflitos estão marcados na versão mesclada.`,
+        conflictMergeable: 'Suas edições não se sobrepõem às mudanças no disco e podem ser mescladas.',
+        useMerged: 'Usar mesclada',
+        keepMine: 'Manter a minha',
+        useDisk: 'Usar a do disco',
+        changesOnDisk: 'Mudanças no disco',
+        yourChanges: 'Suas alterações',
+    },
+
+    codeSearch: {
+        // Project-wide code search
+        title: 'Pesquisar no código',
+        placeholder: 'Pesquisar no projeto',
+        includePlaceholder: 'Incluir, ex. src/**',
+        excludePlaceholder: 'Excluir, ex. *.test.ts',
+        hint: 'Pesquise o conteúdo dos arquivos com texto ou expressões regulares. Toque em uma linha para abri-la, ou no ícone de comentário para referenciá-la na sua mensagem.',
+        searching: 'Pesquisando…',
+        summary: ({ matches, files }: { matches: number; files: number }) => `${matches} ${matches === 1 ? 'ocorrência' : 'ocorrências'} em ${files} ${files === 1 ? 'arquivo' : 'arquivos'}`,
+        truncated: 'Apenas os primeiros 200 arquivos são mostrados, refine a pesquisa para ver mais.',
+    },
+
+    remoteTerminal: {
+        // Remote terminal
+        title: 'Terminal',
+        open: 'Abrir terminal',
+        openSessionSubtitle: 'Execute comandos no diretório de trabalho da sessão',
+        openMachineSubtitle: 'Execute comandos no seu diretório pessoal',
+        placeholder: 'Comando',
+        running: 'Executando… toque em ^C para interromper',
+        hint: 'Os comandos rodam na máquina sem TTY, então programas interativos não funcionam. Toque em ^C uma vez para interromper e outra para encerrar à força.',
+        noTabs: 'Nenhuma aba aberta. Toque em + para abrir uma.',
+        interrupted: 'Interrompido',
+        failed: 'O acompanhamento do comando foi perdido',
+        exitCode: ({ code }: { code: number }) => `Saiu com o código ${code}`,
+    },
+
+    gitHistory: {
+        // Commit history and branches
+        title: 'Histórico',
+        commitTitle: 'Commit',
+        commits: 'Commits',
+        branches: 'Branches',
+        allBranches: 'Todos os branches',
+        showAll: 'Mostrar todos',
+        showCurrent: 'Só o atual',
+        noCommits: 'Ainda não há commits',
+        checkout: 'Fazer checkout',
+        viewHistory: 'Ver histórico',
+        newBranch: 'Novo branch',
+        newBranchDescription: 'O branch começa no commit atual e é feito checkout dele.',
+        branchNamePlaceholder: 'feature/minha-mudanca',
+        createBranch: 'Criar',
+        noUpstream: 'Sem upstream',
+        upstreamGone: ({ upstream }: { upstream: string }) => `${upstream} (removido)`,
+        mergeOf: ({ parents }: { parents: string }) => `Merge de ${parents}`,
+        changeSummary: ({ files, insertions, deletions }: { files: number; insertions: number; deletions: number }) => `${files} arquivo${files !== 1 ? 's' : ''} alterado${files !== 1 ? 's' : ''}, +${insertions} -${deletions}`,
+        binary: 'binário',
+        binaryNotShown: 'Arquivos binários não são exibidos',
+    },
+
+    diffComments: {
+        // Comments on diff lines
+        title: 'Comentários no diff',
+        commentOnLine: ({ line }: { line: number }) => `Comentar a linha ${line}`,
+        line: ({ line }: { line: number }) => `linha ${line}`,
+        placeholder: 'O que o agente deve mudar?',
+        empty: 'Toque e segure uma linha no diff de uma edição para comentá-la.',
+        pending: 'Não enviado',
+        sent: 'Enviado',
+        resolved: 'Resolvido',
+        send: ({ count }: { count: number }) => count > 0 ? `Enviar ${count} comentário${count !== 1 ? 's' : ''} ao agente` : 'Nenhum comentário para enviar',
+        pill: ({ count }: { count: number }) => `${count} comentário${count !== 1 ? 's' : ''} para enviar`,
+        sentMessage: ({ count }: { count: number }) => `Comentários em ${count} linha${count !== 1 ? 's' : ''} do diff`,
+        clearResolved: ({ count }: { count: number }) => `Limpar ${count} resolvido${count !== 1 ? 's' : ''}`,
+    },
+
+    scheduledPrompts: {
+        // Scheduled and recurring prompts
+        title: 'Prompts agendados',
+        subtitle: 'Envie prompts aos agentes de forma recorrente',
+        schedulePrompt: 'Agendar um prompt',
+        schedulePromptSubtitle: 'Envie um prompt para esta sessão de forma agendada',
+        new: 'Novo prompt agendado',
+        edit: 'Editar prompt agendado',
+        empty: 'Adicionar um prompt agendado',
+        footer: 'Os prompts são executados enquanto o app está aberto em um dos seus dispositivos. Execuções perdidas são recuperadas em até seis horas.',
+        missingSession: 'Sessão não encontrada',
+        newSessionIn: ({ path, machine }: { path: string; machine: string }) => `Nova sessão em ${path} em ${machine}`,
+        nextRun: ({ time }: { time: string }) => `Próxima execução: ${time}`,
+        paused: 'Pausado',
+        neverRun: 'Ainda não executado',
+        running: 'Executando…',
+        lastRunSuccess: ({ time }: { time: string }) => `Última execução ${time}: enviado`,
+        lastRunError: ({ time, error }: { time: string; error: string }) => `A última execução ${time} falhou: ${error}`,
+        invalidSchedule: 'Agendamento inválido',
+        neverRuns: 'Este agendamento nunca é executado',
+        scheduleFooter: 'Agendamento inválido. Use minuto, hora, dia do mês, mês e dia da semana como no cron, por exemplo "0 9 * * 1-5" para dias úteis às 9:00, ou @hourly, @daily e @weekly.',
+        presetHourly: 'A cada hora',
+        presetDaily: 'Todos os dias às 9:00',
+        presetWeekdays: 'Dias úteis às 9:00',
+        presetWeekly: 'Às segundas às 9:00',
+        prompt: 'Prompt',
+        titlePlaceholder: 'Nome, ex.: Verificação matinal do CI',
+        promptPlaceholder: 'O que o agente deve fazer?',
+        schedule: 'Agendamento',
+        existingSession: 'Enviar para uma sessão',
+        noActiveSessions: 'Nenhuma sessão ativa',
+        newSession: 'Iniciar uma nova sessão',
+        newSessionFooter: 'Cada execução inicia uma nova sessão no projeto.',
+        agent: 'Agente',
+        fieldsRequired: 'Informe um nome e um prompt',
+        targetRequired: 'Escolha uma sessão ou um projeto para enviar o prompt',
+        runNow: 'Executar agora',
+        openLastSession: 'Abrir a última sessão',
+        delete: 'Excluir prompt agendado',
+        deleteConfirm: ({ title }: { title: string }) => `"${title}" não será mais executado em nenhum dispositivo.`,
+    },
+
+    promptTemplates: {
+        // Prompt template library
+        title: 'Modelos de prompts',
+        subtitle: 'Prompts reutilizáveis para o menu /',
+        footer: 'Digite / em uma sessão para inserir um modelo. Marcadores como {{issue}} são preenchidos logo antes de inserir.',
+        empty: 'Adicionar um modelo',
+        new: 'Novo modelo',
+        edit: 'Editar modelo',
+        template: 'Modelo',
+        namePlaceholder: 'Nome, ex.: Esclarecer tarefa',
+        descriptionPlaceholder: 'Descrição (opcional)',
+        commandFooter: ({ command }: { command: string }) => `Inserir com /${command}`,
+        body: 'Prompt',
+        bodyPlaceholder: 'Corrija {{issue}} e adicione um teste',
+        variablesFooter: ({ variables }: { variables: string }) => `Solicitados ao inserir: ${variables}`,
+        noVariablesFooter: 'Use {{name}} para as partes que mudam a cada vez.',
+        variablesCount: ({ count }: { count: number }) => `${count} variáve${count !== 1 ? 'is' : 'l'}`,
+        fieldsRequired: 'Informe um nome e um prompt',
+        variablePlaceholder: ({ name }: { name: string }) => `Valor para ${name}`,
+        insert: 'Inserir',
+        share: 'Compartilhar',
+        shareLink: 'Compartilhar link',
+        shareFooter: 'O link contém o modelo inteiro. Quem abrir pode adicioná-lo à própria biblioteca.',
+        shareMessage: ({ template, link }: { template: string; link: string }) => `Modelo de prompt "${template}": ${link}`,
+        linkFrom: ({ name }: { name: string }) => `O link diz que é de ${name}, isso não é verificado`,
+        delete: 'Excluir modelo',
+        deleteConfirm: ({ name }: { name: string }) => `"${name}" será removido de todos os seus dispositivos.`,
+        importTitle: 'Importar modelo',
+        importMessage: 'Cole um link de modelo que compartilharam com você',
+        import: 'Importar',
+        invalidLink: 'Este não é um link de modelo válido',
+        addToLibrary: 'Adicionar aos meus modelos',
+        sendToFriends: 'Enviar para amigos',
+        sendToFriendsFooter: 'O modelo é criptografado para o amigo e aparece no feed dele.',
+        sent: 'Modelo enviado',
+        sentTo: ({ name, template }: { name: string; template: string }) => `${name} já pode adicionar "${template}" pelo feed.`,
+        friendNeedsUpdate: ({ name }: { name: string }) => `${name} precisa abrir a versão mais recente do app antes que você possa enviar modelos.`,
+        sharedBy: ({ name }: { name: string }) => `Enviado por ${name}`,
+        cannotOpenShare: 'Este modelo não pode ser aberto nesta conta',
+    },
+
+    messageQueue: {
+        // Prompts queued while the agent is thinking
+        title: ({ count }: { count: number }) => `${count} na fila · enviadas quando o agente estiver pronto`,
+        editTitle: 'Editar mensagem na fila',
+        moveUp: 'Mover para cima',
+        moveDown: 'Mover para baixo',
+        sendNow: 'Enviar agora',
+        remove: 'Remover da fila',
+        queue: 'Colocar na fila até o agente ficar pronto',
+    },
+
+    attachments: {
+        // Images and files attached to messages
+        title: 'Anexar',
+        attach: 'Anexar imagens ou arquivos',
+        photoLibrary: 'Fotos e capturas de tela',
+        files: 'Arquivos',
+        remove: 'Remover anexo',
+        uploadFailed: 'Falha no envio',
+    },
+
+    sessionSharing: {
+        // Sharing sessions with friends
+        title: 'Compartilhar com amigos',
+        openSubtitle: 'Permita que amigos acompanhem ou trabalhem nesta sessão',
+        sharedWith: 'Compartilhada com',
+        notShared: 'Não compartilhada com ninguém',
+        friends: 'Amigos',
+        noFriends: 'Nenhum outro amigo para compartilhar',
+        footer: 'A chave da sessão é criptografada para cada amigo, o servidor nunca vê a conversa. Leitores podem acompanhar, colaboradores também podem enviar mensagens e responder pedidos de permissão.',
+        roleViewer: 'Pode ver',
+        roleCollaborator: 'Pode enviar mensagens e aprovar',
+        shareWith: ({ name }: { name: string }) => `Compartilhar com ${name}`,
+        chooseRole: 'O que essa pessoa pode fazer?',
+        changeTo: ({ role }: { role: string }) => `Mudar para: ${role}`,
+        stopSharing: 'Parar de compartilhar',
+        legacySession: 'Esta sessão foi criada por uma versão antiga da CLI e não pode ser compartilhada.',
+        friendNeedsUpdate: ({ name }: { name: string }) => `${name} precisa abrir a versão mais recente do app antes que você possa compartilhar sessões.`,
+        sharedWithMe: 'Compartilhadas comigo',
+        sharedBy: ({ name }: { name: string }) => `Compartilhada por ${name}`,
+        viewOnly: ({ name }: { name: string }) => `Somente leitura · compartilhada por ${name}`,
+    },
+
+    sessionPresence: {
+        // Other people looking at a shared session
+        someone: 'Alguém',
+        typing: ({ name }: { name: string }) => `${name} está digitando…`,
+        reviewingPermission: ({ name }: { name: string }) => `${name} está revisando um pedido de permissão`,
+        permissionLocked: ({ name }: { name: string }) => `${name} está respondendo este pedido`,
+        takeOver: 'Assumir',
     }
 } as const;
 
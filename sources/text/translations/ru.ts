@@ -338,6 +338,14 @@ export const ru: TranslationStructure = {
         deleteSessionWarning: 'Это действие нельзя отменить. Все сообщения и данные, связанные с этой сессией, будут удалены навсегда.',
         failedToDeleteSession: 'Не удалось удалить сессию',
         sessionDeleted: 'Сессия успешно удалена',
+        exportConversation: 'Экспорт переписки',
+        exportMarkdown: 'Markdown',
+        exportMarkdownSubtitle: 'Читаемая расшифровка с вызовами инструментов',
+        exportJson: 'JSON',
+        exportJsonSubtitle: 'Полные данные с разрешениями и подзадачами',
+        exportHtml: 'HTML',
+        exportHtmlSubtitle: 'Автономная страница для любого браузера',
+        exportFailed: 'Не удалось экспортировать переписку',
     },
 
     components: {
@@ -433,6 +441,7 @@ export const ru: TranslationStructure = {
         suggestion: {
             fileLabel: 'ФАЙЛ',
             folderLabel: 'ПАПКА',
+            templateLabel: 'ШАБЛОН',
         },
         noMachinesAvailable: 'Нет машин',
     },
@@ -533,6 +542,23 @@ export const ru: TranslationStructure = {
         file: 'Файл',
         fileEmpty: 'Файл пустой',
         noChanges: 'Нет изменений для отображения',
+        stageAll: 'Проиндексировать все',
+        unstageAll: 'Убрать все из индекса',
+        stageHunk: 'Проиндексировать фрагмент',
+        unstageHunk: 'Убрать фрагмент из индекса',
+        unstagedDiff: 'Не в индексе',
+        stagedDiff: 'В индексе',
+        commitMessagePlaceholder: 'Сообщение коммита',
+        commitMessageRequired: 'Сначала введите сообщение коммита.',
+        draftCommitMessage: 'Спросить агента',
+        draftCommitMessageTimeout: 'Агент не ответил сообщением коммита вовремя.',
+        commit: ({ count }: { count: number }) => `Закоммитить ${count} ${plural({ count, one: 'файл', few: 'файла', many: 'файлов' })}`,
+        pull: 'Pull',
+        push: 'Push',
+        pullCount: ({ count }: { count: number }) => `Pull ${count}`,
+        pushCount: ({ count }: { count: number }) => `Push ${count}`,
+        gitFailed: 'Ошибка команды git',
+        edit: 'Редактировать',
     },
 
     settingsVoice: {
@@ -676,7 +702,25 @@ export const ru: TranslationStructure = {
         enjoyingApp: 'Нравится приложение?',
         feedbackPrompt: 'Мы будем рады вашему отзыву!',
         yesILoveIt: 'Да, мне нравится!',
-        notReally: 'Не совсем'
+        notReally: 'Не совсем',
+        title: 'Проверка изменений',
+        openSubtitle: 'Оставьте, откатите или прокомментируйте изменения агента',
+        sinceLastPrompt: 'С последнего запроса',
+        wholeSession: 'Вся сессия',
+        summary: ({ files, hunks }: { files: number; hunks: number }) => `${files} ${plural({ count: files, one: 'файл', few: 'файла', many: 'файлов' })}, ${hunks} ${plural({ count: hunks, one: 'изменение', few: 'изменения', many: 'изменений' })}`,
+        noChanges: 'С контрольной точки изменений нет',
+        notByAgent: 'Изменено не агентом',
+        agentEdit: 'Правка агента',
+        fileWrite: 'Файл записан целиком, откат невозможен',
+        keep: 'Оставить',
+        revert: 'Откатить',
+        comment: 'Комментарий',
+        commentDescription: 'Будет отправлен агенту вместе с остальной проверкой.',
+        commentPlaceholder: 'Что здесь нужно изменить?',
+        apply: ({ reverts, comments }: { reverts: number; comments: number }) => `Применить проверку (откатов: ${reverts}, комментариев: ${comments})`,
+        sentMessage: ({ comments, reverts }: { comments: number; reverts: number }) => `Проверка: комментариев: ${comments}, откатов: ${reverts}`,
+        revertFailed: ({ count }: { count: number }) => `Не удалось откатить изменений: ${count}`,
+        revertFailedDescription: 'Файл изменился после загрузки проверки. Эти изменения сохранены и не отмечены как откаченные.',
     },
 
     items: {
@@ -716,6 +760,9 @@ export const ru: TranslationStructure = {
         unknownEvent: 'Неизвестное событие',
         usageLimitUntil: ({ time }: { time: string }) => `Лимит использования достигнут до ${time}`,
         unknownTime: 'неизвестное время',
+        deliveryQueued: 'Ожидание соединения',
+        deliverySending: 'Отправка...',
+        deliveryFailed: 'Не доставлено',
     },
 
     codex: {
@@ -803,6 +850,42 @@ export const ru: TranslationStructure = {
         saving: 'Сохранение...',
         loading: 'Загрузка артефактов...',
         error: 'Не удалось загрузить артефакт',
+        history: 'История',
+        revisions: 'Версии',
+        noRevisions: 'Сохранённых версий пока нет',
+        historyFooter: 'Каждое сохранение создаёт зашифрованную версию. Выберите одну версию, чтобы сравнить её с текущей, или две, чтобы сравнить их между собой.',
+        historyError: 'Не удалось загрузить историю',
+        currentRevision: 'Текущая',
+        revisionUnreadable: 'Не удалось расшифровать эту версию',
+        savedFrom: ({ device }: { device: string }) => `Сохранено с ${device}`,
+        savedFromUnknown: 'Сохранено с неизвестного устройства',
+        compareWithCurrent: 'Сравнить с текущей',
+        compareSelected: 'Сравнить выбранные',
+        compareTitle: 'Сравнение версий',
+        compareRange: ({ from, to }: { from: string; to: string }) => `${from} → ${to}`,
+        revisionNotFound: 'Версия не найдена',
+        restore: 'Восстановить',
+        restoreConfirm: 'Восстановить эту версию?',
+        restoreConfirmDescription: ({ date }: { date: string }) => `Артефакт вернётся к состоянию на ${date}. Текущее содержимое останется в истории.`,
+        restoreError: 'Не удалось восстановить версию. Попробуйте ещё раз.',
+        untitled: 'Без названия',
+        saveAsArtifact: 'Сохранить как артефакт',
+        savedAsArtifact: 'Сохранено как артефакт',
+        open: 'Открыть',
+        publishedByAgent: 'Артефакт, опубликованный агентом',
+        publishing: 'Сохранение артефакта...',
+        typeLabel: 'ТИП',
+        typeMarkdown: 'Текст',
+        typeCode: 'Код',
+        typeDiagram: 'Диаграмма',
+        typeChecklist: 'Чек-лист',
+        languageLabel: 'ЯЗЫК',
+        languagePlaceholder: 'например, typescript',
+        diagramPlaceholder: 'Диаграмма Mermaid, например graph TD; A-->B',
+        checklistItemPlaceholder: 'Пункт',
+        addChecklistItem: 'Добавить пункт',
+        removeChecklistItem: 'Удалить пункт',
+        checklistProgress: ({ done, total }: { done: number; total: number }) => `Выполнено ${done} из ${total}`,
     },
 
     friends: {
@@ -876,6 +959,329 @@ export const ru: TranslationStructure = {
         friendRequestGeneric: 'Новый запрос в друзья',
         friendAccepted: ({ name }: { name: string }) => `Вы теперь друзья с ${name}`,
         friendAcceptedGeneric: 'Запрос в друзья принят',
+        sessionShared: ({ name }: { name: string }) => `${name} поделился(-ась) с вами сессией`,
+        templateShared: ({ name }: { name: string }) => `${name} отправил(а) вам шаблон промпта`,
+    },
+
+    sessionSearch: {
+        // Used by message search screen
+        title: 'Поиск сообщений',
+        placeholder: 'Искать во всех сессиях',
+        hint: 'Ищите сообщения, вызовы инструментов и пути к файлам в сессиях на этом устройстве',
+        noResults: 'Совпадений не найдено',
+        matches: ({ count }: { count: number }) => `${count} ${plural({ count, one: 'совпадение', few: 'совпадения', many: 'совпадений' })}`,
+    },
+
+    permissionRules: {
+        // Per project rules that answer permission requests automatically
+        title: 'Правила разрешений',
+        subtitle: 'Автоматически разрешать или запрещать запросы инструментов',
+        sessionSubtitle: 'Правила для этого проекта',
+        projects: 'Проекты',
+        projectsFooter: 'Правила применяются к сессиям в той же папке на той же машине и синхронизируются между устройствами',
+        noProjects: 'Проектов пока нет',
+        rulesCount: ({ count }: { count: number }) => `${count} ${plural({ count, one: 'правило', few: 'правила', many: 'правил' })}`,
+        rules: 'Правила',
+        rulesFooter: ({ path, machine }: { path: string; machine: string }) => `Применяется к ${path} на ${machine}. Запрещающие правила важнее разрешающих, а цепочки команд никогда не разрешаются автоматически. Нажмите на правило, чтобы удалить его.`,
+        noRules: 'Для этого проекта нет правил',
+        addRule: 'Добавить правило',
+        toolPlaceholder: 'Имя инструмента, например Bash, Edit или * для любого',
+        matchAny: 'Любые аргументы',
+        matchPathGlob: 'Шаблон пути к файлу',
+        matchCommandPrefix: 'Префикс команды',
+        pathGlobPlaceholder: 'src/**/*.ts',
+        commandPrefixPlaceholder: 'npm test',
+        allow: 'Разрешить',
+        deny: 'Запретить',
+        allowed: 'Разрешено',
+        denied: 'Запрещено',
+        delete: 'Удалить',
+        deleteRule: 'Удалить правило',
+        deleteRuleConfirm: 'Подходящие запросы снова будут требовать вашего подтверждения.',
+        toolRequired: 'Введите имя инструмента',
+        patternRequired: 'Введите шаблон для этого правила',
+        recentDecisions: 'Недавние автоматические решения',
+    },
+
+    permissionAudit: {
+        // Log of permission decisions per session and project
+        title: 'Журнал разрешений',
+        sessionSubtitle: 'Все решения о разрешениях в этой сессии',
+        projectSubtitle: 'Все решения о разрешениях в этом проекте',
+        allSubtitle: 'Решения о разрешениях во всех сессиях',
+        approved: 'Одобрено',
+        denied: 'Отклонено',
+        canceled: 'Отменено',
+        allOutcomes: 'Все',
+        allTools: 'Все инструменты',
+        decidedByRule: 'Правило разрешений',
+        decidedByYou: ({ device }: { device: string }) => `Вы на ${device}`,
+        decidedElsewhere: 'Терминал или другое устройство',
+        decision: ({ decision }: { decision: string }) => `Решение: ${decision}`,
+        mode: ({ mode }: { mode: string }) => `Режим: ${mode}`,
+        decisions: 'Решения',
+        footer: 'Автор решения известен только для решений, принятых на этом устройстве. Нажмите на решение, чтобы увидеть все аргументы.',
+        empty: 'Решений о разрешениях нет',
+        exportCsv: 'Экспорт CSV',
+        exportCsvSubtitle: ({ count }: { count: number }) => `${count} ${plural({ count, one: 'решение', few: 'решения', many: 'решений' })} по фильтрам`,
+        exportFailed: 'Не удалось экспортировать журнал разрешений',
+    },
+
+    pendingPermissions: {
+        // Batch approval of pending permission requests
+        title: 'Ожидающие запросы',
+        pill: ({ count }: { count: number }) => `${count} ${plural({ count, one: 'запрос', few: 'запроса', many: 'запросов' })} разрешений ожидают`,
+        requests: ({ count }: { count: number }) => `${count} ${plural({ count, one: 'запрос', few: 'запроса', many: 'запросов' })}`,
+        requestsFooter: 'Нажмите на запрос, чтобы выбрать его или снять выбор. Изменения выбранных запросов показаны ниже, сгруппированные по файлам.',
+        selectAll: 'Выбрать все',
+        selectNone: 'Снять выбор',
+        approveSelected: ({ count }: { count: number }) => `Одобрить выбранные (${count})`,
+        denySelected: ({ count }: { count: number }) => `Отклонить выбранные (${count})`,
+        empty: 'Нет ожидающих запросов разрешений',
+        failed: 'Не удалось ответить на некоторые запросы разрешений',
+    },
+
+    sessionFork: {
+        // Forking a session from a message
+        fork: 'Ответвить',
+        forkInWorktree: 'Ответвить в новом worktree',
+        forking: 'Ответвление…',
+        title: 'Ответвить отсюда',
+        message: 'Начать новую сессию на той же машине с кратким изложением разговора до этого сообщения. Сообщение будет помещено в поле ввода новой сессии, чтобы его можно было изменить перед отправкой.',
+        failed: ({ error }: { error: string }) => `Не удалось ответвить сессию: ${error}`,
+        subtitle: ({ subtitle, name }: { subtitle: string; name: string }) => `${subtitle} · ответвление от ${name}`,
+        lineage: 'Ответвления',
+        forkedFrom: 'Ответвление от',
+        forkCreated: ({ date }: { date: string }) => `Ответвление создано ${date}`,
+    },
+
+    sessionDashboard: {
+        // Multi-session dashboard
+        title: 'Панель',
+        layout: 'Расположение',
+        columns2: 'Две колонки',
+        columns3: 'Три колонки',
+        grid4: 'Сетка из четырёх',
+        pickSession: 'Показать сессию',
+        noSessions: 'Все сессии уже показаны.',
+        closePane: 'Закрыть панель',
+    },
+
+    fileEditor: {
+        // In-app file editor
+        unsaved: 'Несохранённые изменения',
+        yourVersion: 'ваша версия',
+        diskVersion: 'версия на диске',
+        conflictTitle: 'Файл изменился на диске',
+        conflictCount: ({ count }: { count: number }) => `${count} ${plural({ count, one: 'фрагмент конфликтует', few: 'фрагмента конфликтуют', many: 'фрагментов конфликтуют' })} с вашими правками. Конфликты отмечены в объединённой версии.`,
+        conflictMergeable: 'Ваши правки не пересекаются с изменениями на диске и могут быть объединены.',
+        useMerged: 'Объединённая',
+        keepMine: 'Оставить мою',
+        useDisk: 'С диска',
+        changesOnDisk: 'Изменения на диске',
+        yourChanges: 'Ваши изменения',
+    },
+
+    codeSearch: {
+        // Project-wide code search
+        title: 'Поиск по коду',
+        placeholder: 'Поиск в проекте',
+        includePlaceholder: 'Включить, напр. src/**',
+        excludePlaceholder: 'Исключить, напр. *.test.ts',
+        hint: 'Ищите по содержимому файлов текстом или регулярными выражениями. Нажмите на строку, чтобы открыть её, или на значок комментария, чтобы сослаться на неё в сообщении.',
+        searching: 'Поиск…',
+        summary: ({ matches, files }: { matches: number; files: number }) => `${matches} ${plural({ count: matches, one: 'совпадение', few: 'совпадения', many: 'совпадений' })} в ${files} ${plural({ count: files, one: 'файле', few: 'файлах', many: 'файлах' })}`,
+        truncated: 'Показаны только первые 200 файлов, уточните поиск, чтобы увидеть больше.',
+    },
+
+    remoteTerminal: {
+        // Remote terminal
+        title: 'Терминал',
+        open: 'Открыть терминал',
+        openSessionSubtitle: 'Выполняйте команды в рабочей папке сессии',
+        openMachineSubtitle: 'Выполняйте команды в домашней папке',
+        placeholder: 'Команда',
+        running: 'Выполняется… нажмите ^C, чтобы прервать',
+        hint: 'Команды выполняются на машине без TTY, поэтому интерактивные программы не работают. Нажмите ^C один раз, чтобы прервать, и ещё раз, чтобы завершить принудительно.',
+        noTabs: 'Нет открытых вкладок. Нажмите +, чтобы открыть.',
+        interrupted: 'Прервано',
+        failed: 'Связь с командой потеряна',
+        exitCode: ({ code }: { code: number }) => `Завершено с кодом ${code}`,
+    },
+
+    gitHistory: {
+        // Commit history and branches
+        title: 'История',
+        commitTitle: 'Коммит',
+        commits: 'Коммиты',
+        branches: 'Ветки',
+        allBranches: 'Все ветки',
+        showAll: 'Показать все',
+        showCurrent: 'Только текущая',
+        noCommits: 'Коммитов пока нет',
+        checkout: 'Переключиться',
+        viewHistory: 'Показать историю',
+        newBranch: 'Новая ветка',
+        newBranchDescription: 'Ветка создаётся от текущего коммита, и на неё выполняется переключение.',
+        branchNamePlaceholder: 'feature/my-change',
+        createBranch: 'Создать',
+        noUpstream: 'Нет upstream',
+        upstreamGone: ({ upstream }: { upstream: string }) => `${upstream} (удалена)`,
+        mergeOf: ({ parents }: { parents: string }) => `Слияние ${parents}`,
+        changeSummary: ({ files, insertions, deletions }: { files: number; insertions: number; deletions: number }) => `${files} ${plural({ count: files, one: 'файл изменён', few: 'файла изменено', many: 'файлов изменено' })}, +${insertions} -${deletions}`,
+        binary: 'двоичный',
+        binaryNotShown: 'Двоичные файлы не отображаются',
+    },
+
+    diffComments: {
+        // Comments on diff lines
+        title: 'Комментарии к изменениям',
+        commentOnLine: ({ line }: { line: number }) => `Комментарий к строке ${line}`,
+        line: ({ line }: { line: number }) => `строка ${line}`,
+        placeholder: 'Что агенту нужно изменить?',
+        empty: 'Нажмите и удерживайте строку в изменениях правки, чтобы её прокомментировать.',
+        pending: 'Не отправлен',
+        sent: 'Отправлен',
+        resolved: 'Решён',
+        send: ({ count }: { count: number }) => count > 0 ? `Отправить агенту ${count} ${plural({ count, one: 'комментарий', few: 'комментария', many: 'комментариев' })}` : 'Нет комментариев для отправки',
+        pill: ({ count }: { count: number }) => `${count} ${plural({ count, one: 'комментарий', few: 'комментария', many: 'комментариев' })} к отправке`,
+        sentMessage: ({ count }: { count: number }) => `Комментарии к строкам изменений: ${count}`,
+        clearResolved: ({ count }: { count: number }) => `Удалить решённые (${count})`,
+    },
+
+    scheduledPrompts: {
+        // Scheduled and recurring prompts
+        title: 'Запланированные запросы',
+        subtitle: 'Отправляйте запросы агентам по расписанию',
+        schedulePrompt: 'Запланировать запрос',
+        schedulePromptSubtitle: 'Отправлять запрос в эту сессию по расписанию',
+        new: 'Новый запланированный запрос',
+        edit: 'Изменить запланированный запрос',
+        empty: 'Добавить запланированный запрос',
+        footer: 'Запросы выполняются, пока приложение открыто на одном из ваших устройств. Пропущенные запуски выполняются в течение шести часов.',
+        missingSession: 'Сессия не найдена',
+        newSessionIn: ({ path, machine }: { path: string; machine: string }) => `Новая сессия в ${path} на ${machine}`,
+        nextRun: ({ time }: { time: string }) => `Следующий запуск: ${time}`,
+        paused: 'Приостановлено',
+        neverRun: 'Ещё не запускался',
+        running: 'Выполняется…',
+        lastRunSuccess: ({ time }: { time: string }) => `Последний запуск ${time}: отправлено`,
+        lastRunError: ({ time, error }: { time: string; error: string }) => `Последний запуск ${time} не удался: ${error}`,
+        invalidSchedule: 'Неверное расписание',
+        neverRuns: 'Это расписание никогда не сработает',
+        scheduleFooter: 'Неверное расписание. Укажите минуту, час, день месяца, месяц и день недели как в cron, например "0 9 * * 1-5" для будних дней в 9:00, или @hourly, @daily и @weekly.',
+        presetHourly: 'Каждый час',
+        presetDaily: 'Каждый день в 9:00',
+        presetWeekdays: 'По будням в 9:00',
+        presetWeekly: 'По понедельникам в 9:00',
+        prompt: 'Запрос',
+        titlePlaceholder: 'Название, например Утренняя проверка CI',
+        promptPlaceholder: 'Что должен сделать агент?',
+        schedule: 'Расписание',
+        existingSession: 'Отправить в сессию',
+        noActiveSessions: 'Нет активных сессий',
+        newSession: 'Начать новую сессию',
+        newSessionFooter: 'Для каждого запуска в проекте создаётся новая сессия.',
+        agent: 'Агент',
+        fieldsRequired: 'Введите название и запрос',
+        targetRequired: 'Выберите сессию или проект для отправки запроса',
+        runNow: 'Запустить сейчас',
+        openLastSession: 'Открыть последнюю сессию',
+        delete: 'Удалить запланированный запрос',
+        deleteConfirm: ({ title }: { title: string }) => `"${title}" больше не будет запускаться ни на одном устройстве.`,
+    },
+
+    promptTemplates: {
+        // Prompt template library
+        title: 'Шаблоны запросов',
+        subtitle: 'Повторно используемые запросы для меню /',
+        footer: 'Введите / в сессии, чтобы вставить шаблон. Поля вроде {{issue}} заполняются прямо перед вставкой.',
+        empty: 'Добавить шаблон',
+        new: 'Новый шаблон',
+        edit: 'Изменить шаблон',
+        template: 'Шаблон',
+        namePlaceholder: 'Название, например Уточнить задачу',
+        descriptionPlaceholder: 'Описание (необязательно)',
+        commandFooter: ({ command }: { command: string }) => `Вставка через /${command}`,
+        body: 'Запрос',
+        bodyPlaceholder: 'Исправь {{issue}} и добавь тест',
+        variablesFooter: ({ variables }: { variables: string }) => `Запрашиваются при вставке: ${variables}`,
+        noVariablesFooter: 'Используйте {{name}} для частей, которые каждый раз меняются.',
+        variablesCount: ({ count }: { count: number }) => `${count} ${plural({ count, one: 'переменная', few: 'переменные', many: 'переменных' })}`,
+        fieldsRequired: 'Введите название и запрос',
+        variablePlaceholder: ({ name }: { name: string }) => `Значение для ${name}`,
+        insert: 'Вставить',
+        share: 'Поделиться',
+        shareLink: 'Поделиться ссылкой',
+        shareFooter: 'Ссылка содержит весь шаблон. Любой, кто её откроет, сможет добавить его в свою библиотеку.',
+        shareMessage: ({ template, link }: { template: string; link: string }) => `Шаблон запроса "${template}": ${link}`,
+        linkFrom: ({ name }: { name: string }) => `В ссылке указано, что она от ${name}, это не проверено`,
+        delete: 'Удалить шаблон',
+        deleteConfirm: ({ name }: { name: string }) => `"${name}" будет удалён со всех ваших устройств.`,
+        importTitle: 'Импортировать шаблон',
+        importMessage: 'Вставьте ссылку на шаблон, которой с вами поделились',
+        import: 'Импортировать',
+        invalidLink: 'Это неверная ссылка на шаблон',
+        addToLibrary: 'Добавить в мои шаблоны',
+        sendToFriends: 'Отправить друзьям',
+        sendToFriendsFooter: 'Шаблон шифруется для друга и появляется в его ленте.',
+        sent: 'Шаблон отправлен',
+        sentTo: ({ name, template }: { name: string; template: string }) => `${name} теперь может добавить «${template}» из своей ленты.`,
+        friendNeedsUpdate: ({ name }: { name: string }) => `${name} нужно открыть последнюю версию приложения, прежде чем вы сможете отправлять ему шаблоны.`,
+        sharedBy: ({ name }: { name: string }) => `Отправлено: ${name}`,
+        cannotOpenShare: 'Этот шаблон нельзя открыть в этом аккаунте',
+    },
+
+    messageQueue: {
+        // Prompts queued while the agent is thinking
+        title: ({ count }: { count: number }) => `В очереди: ${count} · отправятся, когда агент будет готов`,
+        editTitle: 'Изменить сообщение в очереди',
+        moveUp: 'Переместить выше',
+        moveDown: 'Переместить ниже',
+        sendNow: 'Отправить сейчас',
+        remove: 'Удалить из очереди',
+        queue: 'Поставить в очередь до готовности агента',
+    },
+
+    attachments: {
+        // Images and files attached to messages
+        title: 'Прикрепить',
+        attach: 'Прикрепить изображения или файлы',
+        photoLibrary: 'Фото и скриншоты',
+        files: 'Файлы',
+        remove: 'Убрать вложение',
+        uploadFailed: 'Не удалось загрузить',
+    },
+
+    sessionSharing: {
+        // Sharing sessions with friends
+        title: 'Поделиться с друзьями',
+        openSubtitle: 'Друзья смогут следить за сессией или работать в ней',
+        sharedWith: 'Доступ открыт',
+        notShared: 'Ни с кем не поделились',
+        friends: 'Друзья',
+        noFriends: 'Больше не с кем поделиться',
+        footer: 'Ключ сессии шифруется для каждого друга, сервер никогда не видит переписку. Наблюдатели могут следить за сессией, соавторы также могут отправлять сообщения и отвечать на запросы разрешений.',
+        roleViewer: 'Может просматривать',
+        roleCollaborator: 'Может писать и одобрять',
+        shareWith: ({ name }: { name: string }) => `Поделиться с ${name}`,
+        chooseRole: 'Что этот человек сможет делать?',
+        changeTo: ({ role }: { role: string }) => `Изменить на: ${role}`,
+        stopSharing: 'Закрыть доступ',
+        legacySession: 'Эта сессия создана старой версией CLI, ею нельзя поделиться.',
+        friendNeedsUpdate: ({ name }: { name: string }) => `${name} нужно открыть последнюю версию приложения, прежде чем вы сможете делиться сессиями.`,
+        sharedWithMe: 'Доступные мне',
+        sharedBy: ({ name }: { name: string }) => `Поделился(-ась): ${name}`,
+        viewOnly: ({ name }: { name: string }) => `Только просмотр · поделился(-ась): ${name}`,
+    },
+
+    sessionPresence: {
+        // Other people looking at a shared session
+        someone: 'Кто-то',
+        typing: ({ name }: { name: string }) => `${name} печатает…`,
+        reviewingPermission: ({ name }: { name: string }) => `${name} просматривает запрос разрешения`,
+        permissionLocked: ({ name }: { name: string }) => `${name} отвечает на этот запрос`,
+        takeOver: 'Перехватить',
     }
 } as const;
 
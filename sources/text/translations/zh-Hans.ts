@@ -366,6 +366,14 @@ export const zhHans: TranslationStructure = {
         failedToDeleteSession: '删除会话失败',
         sessionDeleted: '会话删除成功',
         
+        exportConversation: '导出对话',
+        exportMarkdown: 'Markdown',
+        exportMarkdownSubtitle: '包含工具调用的可读记录',
+        exportJson: 'JSON',
+        exportJsonSubtitle: '包含权限和子对话的完整数据',
+        exportHtml: 'HTML',
+        exportHtmlSubtitle: '可在任意浏览器中打开的独立页面',
+        exportFailed: '导出对话失败',
     },
 
     components: {
@@ -425,6 +433,7 @@ export const zhHans: TranslationStructure = {
         suggestion: {
             fileLabel: '文件',
             folderLabel: '文件夹',
+            templateLabel: '模板',
         },
         noMachinesAvailable: '无设备',
     },
@@ -525,6 +534,23 @@ export const zhHans: TranslationStructure = {
         file: '文件',
         fileEmpty: '文件为空',
         noChanges: '没有要显示的更改',
+        stageAll: '全部暂存',
+        unstageAll: '全部取消暂存',
+        stageHunk: '暂存此块',
+        unstageHunk: '取消暂存此块',
+        unstagedDiff: '未暂存',
+        stagedDiff: '已暂存',
+        commitMessagePlaceholder: '提交信息',
+        commitMessageRequired: '请先输入提交信息。',
+        draftCommitMessage: '让代理起草',
+        draftCommitMessageTimeout: '代理未能及时回复提交信息。',
+        commit: ({ count }: { count: number }) => `提交 ${count} 个文件`,
+        pull: '拉取',
+        push: '推送',
+        pullCount: ({ count }: { count: number }) => `拉取 ${count}`,
+        pushCount: ({ count }: { count: number }) => `推送 ${count}`,
+        gitFailed: 'Git 命令失败',
+        edit: '编辑',
     },
 
     settingsVoice: {
@@ -680,7 +706,25 @@ export const zhHans: TranslationStructure = {
         enjoyingApp: '喜欢这个应用吗？',
         feedbackPrompt: "我们很希望听到您的反馈！",
         yesILoveIt: '是的，我喜欢！',
-        notReally: '不太喜欢'
+        notReally: '不太喜欢',
+        title: '审查更改',
+        openSubtitle: '保留、还原或评论代理所做的更改',
+        sinceLastPrompt: '自上次提示以来',
+        wholeSession: '整个会话',
+        summary: ({ files, hunks }: { files: number; hunks: number }) => `${files} 个文件，${hunks} 处更改`,
+        noChanges: '自检查点以来没有更改',
+        notByAgent: '非代理更改',
+        agentEdit: '代理编辑',
+        fileWrite: '整个文件已写入，无法还原',
+        keep: '保留',
+        revert: '还原',
+        comment: '评论',
+        commentDescription: '将与审查的其余部分一起发送给代理。',
+        commentPlaceholder: '这里应该改什么？',
+        apply: ({ reverts, comments }: { reverts: number; comments: number }) => `应用审查（已还原 ${reverts} 处，${comments} 条评论）`,
+        sentMessage: ({ comments, reverts }: { comments: number; reverts: number }) => `审查：${comments} 条评论，已还原 ${reverts} 处`,
+        revertFailed: ({ count }: { count: number }) => `有 ${count} 处更改无法还原`,
+        revertFailedDescription: '加载审查后文件已更改。这些更改已保留，且未报告为已还原。',
     },
 
     items: {
@@ -720,6 +764,9 @@ export const zhHans: TranslationStructure = {
         unknownEvent: '未知事件',
         usageLimitUntil: ({ time }: { time: string }) => `使用限制到 ${time}`,
         unknownTime: '未知时间',
+        deliveryQueued: '等待连接',
+        deliverySending: '发送中...',
+        deliveryFailed: '未送达',
     },
 
     codex: {
@@ -782,6 +829,42 @@ export const zhHans: TranslationStructure = {
         bodyLabel: '内容',
         emptyFieldsError: '请输入标题或内容',
         createError: '创建工件失败。请重试。',
+        history: '历史记录',
+        revisions: '版本',
+        noRevisions: '暂无已保存的版本',
+        historyFooter: '每次保存都会保留一个加密版本。选择一个版本与当前版本比较，或选择两个版本相互比较。',
+        historyError: '无法加载历史记录',
+        currentRevision: '当前',
+        revisionUnreadable: '无法解密此版本',
+        savedFrom: ({ device }: { device: string }) => `保存自 ${device}`,
+        savedFromUnknown: '保存自未知设备',
+        compareWithCurrent: '与当前版本比较',
+        compareSelected: '比较所选版本',
+        compareTitle: '比较版本',
+        compareRange: ({ from, to }: { from: string; to: string }) => `${from} → ${to}`,
+        revisionNotFound: '未找到该版本',
+        restore: '恢复',
+        restoreConfirm: '恢复此版本？',
+        restoreConfirmDescription: ({ date }: { date: string }) => `工件将恢复到 ${date} 时的状态，当前内容会保留在历史记录中。`,
+        restoreError: '恢复版本失败，请重试。',
+        untitled: '无标题',
+        saveAsArtifact: '保存为工件',
+        savedAsArtifact: '已保存为工件',
+        open: '打开',
+        publishedByAgent: '由智能体发布的工件',
+        publishing: '正在保存工件...',
+        typeLabel: '类型',
+        typeMarkdown: '文本',
+        typeCode: '代码',
+        typeDiagram: '图表',
+        typeChecklist: '清单',
+        languageLabel: '语言',
+        languagePlaceholder: '例如 typescript',
+        diagramPlaceholder: 'Mermaid 图表，例如 graph TD; A-->B',
+        checklistItemPlaceholder: '事项',
+        addChecklistItem: '添加事项',
+        removeChecklistItem: '删除事项',
+        checklistProgress: ({ done, total }: { done: number; total: number }) => `已完成 ${done}/${total}`,
     },
 
     friends: {
@@ -855,5 +938,328 @@ export const zhHans: TranslationStructure = {
         friendRequestGeneric: '新的好友请求',
         friendAccepted: ({ name }: { name: string }) => `您现在与 ${name} 成为了好友`,
         friendAcceptedGeneric: '好友请求已接受',
+        sessionShared: ({ name }: { name: string }) => `${name} 与你共享了一个会话`,
+        templateShared: ({ name }: { name: string }) => `${name} 向你发送了一个提示模板`,
+    },
+
+    sessionSearch: {
+        // Used by message search screen
+        title: '搜索消息',
+        placeholder: '搜索所有会话',
+        hint: '在此设备的会话中查找消息、工具调用和文件路径',
+        noResults: '没有匹配的消息',
+        matches: ({ count }: { count: number }) => `${count} 个匹配`,
+    },
+
+    permissionRules: {
+        // Per project rules that answer permission requests automatically
+        title: '权限规则',
+        subtitle: '自动允许或拒绝工具请求',
+        sessionSubtitle: '此项目的规则',
+        projects: '项目',
+        projectsFooter: '规则适用于同一机器同一文件夹中启动的会话，并在你的设备间同步',
+        noProjects: '暂无项目',
+        rulesCount: ({ count }: { count: number }) => `${count} 条规则`,
+        rules: '规则',
+        rulesFooter: ({ path, machine }: { path: string; machine: string }) => `适用于 ${machine} 上的 ${path}。拒绝规则优先于允许规则，链式命令永远不会被自动允许。点击规则可将其删除。`,
+        noRules: '此项目没有规则',
+        addRule: '添加规则',
+        toolPlaceholder: '工具名称，例如 Bash、Edit，或 * 表示任意',
+        matchAny: '任意参数',
+        matchPathGlob: '文件路径通配符',
+        matchCommandPrefix: '命令前缀',
+        pathGlobPlaceholder: 'src/**/*.ts',
+        commandPrefixPlaceholder: 'npm test',
+        allow: '允许',
+        deny: '拒绝',
+        allowed: '已允许',
+        denied: '已拒绝',
+        delete: '删除',
+        deleteRule: '删除规则',
+        deleteRuleConfirm: '匹配的请求将再次需要你的批准。',
+        toolRequired: '请输入工具名称',
+        patternRequired: '请为此规则输入匹配模式',
+        recentDecisions: '最近的自动决定',
+    },
+
+    permissionAudit: {
+        // Log of permission decisions per session and project
+        title: '权限日志',
+        sessionSubtitle: '此会话中的所有权限决定',
+        projectSubtitle: '此项目中的所有权限决定',
+        allSubtitle: '所有会话中的权限决定',
+        approved: '已批准',
+        denied: '已拒绝',
+        canceled: '已取消',
+        allOutcomes: '全部',
+        allTools: '所有工具',
+        decidedByRule: '权限规则',
+        decidedByYou: ({ device }: { device: string }) => `你（${device}）`,
+        decidedElsewhere: '终端或其他设备',
+        decision: ({ decision }: { decision: string }) => `决定：${decision}`,
+        mode: ({ mode }: { mode: string }) => `模式：${mode}`,
+        decisions: '决定',
+        footer: '仅能识别在此设备上做出的决定者。点击某个决定可查看完整参数。',
+        empty: '没有权限决定',
+        exportCsv: '导出 CSV',
+        exportCsvSubtitle: ({ count }: { count: number }) => `${count} 个符合筛选条件的决定`,
+        exportFailed: '导出权限日志失败',
+    },
+
+    pendingPermissions: {
+        // Batch approval of pending permission requests
+        title: '待处理请求',
+        pill: ({ count }: { count: number }) => `${count} 个权限请求待处理`,
+        requests: ({ count }: { count: number }) => `${count} 个请求`,
+        requestsFooter: '点击请求可选中或取消选中。所选请求的更改按文件分组显示在下方。',
+        selectAll: '全选',
+        selectNone: '全不选',
+        approveSelected: ({ count }: { count: number }) => `批准所选的 ${count} 项`,
+        denySelected: ({ count }: { count: number }) => `拒绝所选的 ${count} 项`,
+        empty: '没有待处理的权限请求',
+        failed: '部分权限请求处理失败',
+    },
+
+    sessionFork: {
+        // Forking a session from a message
+        fork: '分叉',
+        forkInWorktree: '在新 worktree 中分叉',
+        forking: '正在分叉…',
+        title: '从这里分叉',
+        message: '在同一台机器上开始新会话，并附上截至此消息的对话摘要。该消息会放入新会话的输入框，发送前可以编辑。',
+        failed: ({ error }: { error: string }) => `分叉会话失败：${error}`,
+        subtitle: ({ subtitle, name }: { subtitle: string; name: string }) => `${subtitle} · 分叉自 ${name}`,
+        lineage: '分叉',
+        forkedFrom: '分叉自',
+        forkCreated: ({ date }: { date: string }) => `分叉创建于 ${date}`,
+    },
+
+    sessionDashboard: {
+        // Multi-session dashboard
+        title: '仪表板',
+        layout: '布局',
+        columns2: '两列',
+        columns3: '三列',
+        grid4: '四宫格',
+        pickSession: '显示会话',
+        noSessions: '所有会话都已显示。',
+        closePane: '关闭窗格',
+    },
+
+    fileEditor: {
+        // In-app file editor
+        unsaved: '未保存的更改',
+        yourVersion: '你的版本',
+        diskVersion: '磁盘上的版本',
+        conflictTitle: '文件已在磁盘上更改',
+        conflictCount: ({ count }: { count: number }) => `有 ${count} 处与你的编辑冲突。冲突已在合并版本中标出。`,
+        conflictMergeable: '你的编辑与磁盘上的更改不重叠，可以合并。',
+        useMerged: '使用合并版本',
+        keepMine: '保留我的',
+        useDisk: '使用磁盘版本',
+        changesOnDisk: '磁盘上的更改',
+        yourChanges: '你的更改',
+    },
+
+    codeSearch: {
+        // Project-wide code search
+        title: '搜索代码',
+        placeholder: '在项目中搜索',
+        includePlaceholder: '包含，例如 src/**',
+        excludePlaceholder: '排除，例如 *.test.ts',
+        hint: '使用文本或正则表达式搜索文件内容。点按某一行即可打开，点按评论图标可在消息中引用它。',
+        searching: '正在搜索…',
+        summary: ({ matches, files }: { matches: number; files: number }) => `${files} 个文件中有 ${matches} 处匹配`,
+        truncated: '仅显示前 200 个文件，请缩小搜索范围以查看更多。',
+    },
+
+    remoteTerminal: {
+        // Remote terminal
+        title: '终端',
+        open: '打开终端',
+        openSessionSubtitle: '在会话的工作目录中运行命令',
+        openMachineSubtitle: '在主目录中运行命令',
+        placeholder: '命令',
+        running: '正在运行… 点按 ^C 中断',
+        hint: '命令在没有 TTY 的机器上运行，因此交互式程序无法使用。点按一次 ^C 中断，再次点按强制结束。',
+        noTabs: '没有打开的标签页。点按 + 打开一个。',
+        interrupted: '已中断',
+        failed: '已无法跟踪该命令',
+        exitCode: ({ code }: { code: number }) => `退出代码 ${code}`,
+    },
+
+    gitHistory: {
+        // Commit history and branches
+        title: '历史',
+        commitTitle: '提交',
+        commits: '提交',
+        branches: '分支',
+        allBranches: '所有分支',
+        showAll: '显示全部',
+        showCurrent: '仅当前',
+        noCommits: '还没有提交',
+        checkout: '检出',
+        viewHistory: '查看历史',
+        newBranch: '新建分支',
+        newBranchDescription: '分支从当前提交创建并被检出。',
+        branchNamePlaceholder: 'feature/my-change',
+        createBranch: '创建',
+        noUpstream: '无上游',
+        upstreamGone: ({ upstream }: { upstream: string }) => `${upstream}（已删除）`,
+        mergeOf: ({ parents }: { parents: string }) => `合并自 ${parents}`,
+        changeSummary: ({ files, insertions, deletions }: { files: number; insertions: number; deletions: number }) => `${files} 个文件已更改，+${insertions} -${deletions}`,
+        binary: '二进制',
+        binaryNotShown: '不显示二进制文件',
+    },
+
+    diffComments: {
+        // Comments on diff lines
+        title: '差异评论',
+        commentOnLine: ({ line }: { line: number }) => `评论第 ${line} 行`,
+        line: ({ line }: { line: number }) => `第 ${line} 行`,
+        placeholder: '代理应该修改什么？',
+        empty: '长按编辑差异中的一行即可评论。',
+        pending: '未发送',
+        sent: '已发送',
+        resolved: '已解决',
+        send: ({ count }: { count: number }) => count > 0 ? `向代理发送 ${count} 条评论` : '没有要发送的评论',
+        pill: ({ count }: { count: number }) => `${count} 条差异评论待发送`,
+        sentMessage: ({ count }: { count: number }) => `对 ${count} 行差异的评论`,
+        clearResolved: ({ count }: { count: number }) => `清除 ${count} 条已解决`,
+    },
+
+    scheduledPrompts: {
+        // Scheduled and recurring prompts
+        title: '定时提示',
+        subtitle: '按周期计划向代理发送提示',
+        schedulePrompt: '定时发送提示',
+        schedulePromptSubtitle: '按计划向此会话发送提示',
+        new: '新建定时提示',
+        edit: '编辑定时提示',
+        empty: '添加定时提示',
+        footer: '提示会在应用于任一设备上打开时运行。错过的运行会在六小时内补上。',
+        missingSession: '未找到会话',
+        newSessionIn: ({ path, machine }: { path: string; machine: string }) => `在 ${machine} 的 ${path} 中新建会话`,
+        nextRun: ({ time }: { time: string }) => `下次运行：${time}`,
+        paused: '已暂停',
+        neverRun: '尚未运行',
+        running: '运行中…',
+        lastRunSuccess: ({ time }: { time: string }) => `上次运行 ${time}：已发送`,
+        lastRunError: ({ time, error }: { time: string; error: string }) => `上次运行 ${time} 失败：${error}`,
+        invalidSchedule: '无效的计划',
+        neverRuns: '此计划永远不会运行',
+        scheduleFooter: '无效的计划。请像 cron 一样使用分钟、小时、日期、月份和星期，例如 "0 9 * * 1-5" 表示工作日 9:00，或使用 @hourly、@daily 和 @weekly。',
+        presetHourly: '每小时',
+        presetDaily: '每天 9:00',
+        presetWeekdays: '工作日 9:00',
+        presetWeekly: '每周一 9:00',
+        prompt: '提示',
+        titlePlaceholder: '名称，例如：早间 CI 检查',
+        promptPlaceholder: '代理应该做什么？',
+        schedule: '计划',
+        existingSession: '发送到会话',
+        noActiveSessions: '没有活动会话',
+        newSession: '启动新会话',
+        newSessionFooter: '每次运行都会在项目中启动一个新会话。',
+        agent: '代理',
+        fieldsRequired: '请输入名称和提示',
+        targetRequired: '请选择要发送提示的会话或项目',
+        runNow: '立即运行',
+        openLastSession: '打开上次的会话',
+        delete: '删除定时提示',
+        deleteConfirm: ({ title }: { title: string }) => `"${title}" 将不再在任何设备上运行。`,
+    },
+
+    promptTemplates: {
+        // Prompt template library
+        title: '提示模板',
+        subtitle: '用于 / 菜单的可复用提示',
+        footer: '在会话中输入 / 即可插入模板。像 {{issue}} 这样的占位符会在插入前填写。',
+        empty: '添加模板',
+        new: '新建模板',
+        edit: '编辑模板',
+        template: '模板',
+        namePlaceholder: '名称，例如：澄清任务',
+        descriptionPlaceholder: '描述（可选）',
+        commandFooter: ({ command }: { command: string }) => `使用 /${command} 插入`,
+        body: '提示',
+        bodyPlaceholder: '修复 {{issue}} 并为其添加测试',
+        variablesFooter: ({ variables }: { variables: string }) => `插入时需要填写：${variables}`,
+        noVariablesFooter: '对每次都会变化的部分使用 {{name}}。',
+        variablesCount: ({ count }: { count: number }) => `${count} 个变量`,
+        fieldsRequired: '请输入名称和提示',
+        variablePlaceholder: ({ name }: { name: string }) => `${name} 的值`,
+        insert: '插入',
+        share: '分享',
+        shareLink: '分享链接',
+        shareFooter: '链接包含完整模板。打开链接的人可以将其添加到自己的模板库。',
+        shareMessage: ({ template, link }: { template: string; link: string }) => `提示模板“${template}”：${link}`,
+        linkFrom: ({ name }: { name: string }) => `链接声称来自 ${name}，未经验证`,
+        delete: '删除模板',
+        deleteConfirm: ({ name }: { name: string }) => `“${name}”将从你的所有设备中移除。`,
+        importTitle: '导入模板',
+        importMessage: '粘贴别人分享给你的模板链接',
+        import: '导入',
+        invalidLink: '这不是有效的模板链接',
+        addToLibrary: '添加到我的模板',
+        sendToFriends: '发送给好友',
+        sendToFriendsFooter: '模板会为好友加密，并显示在其动态中。',
+        sent: '模板已发送',
+        sentTo: ({ name, template }: { name: string; template: string }) => `${name} 现在可以从动态中添加“${template}”。`,
+        friendNeedsUpdate: ({ name }: { name: string }) => `${name} 需要先打开最新版本的应用，你才能向其发送模板。`,
+        sharedBy: ({ name }: { name: string }) => `由 ${name} 发送`,
+        cannotOpenShare: '无法在此账户中打开此模板',
+    },
+
+    messageQueue: {
+        // Prompts queued while the agent is thinking
+        title: ({ count }: { count: number }) => `${count} 条排队中 · 代理就绪后发送`,
+        editTitle: '编辑排队消息',
+        moveUp: '上移',
+        moveDown: '下移',
+        sendNow: '立即发送',
+        remove: '从队列中移除',
+        queue: '排队，等智能体就绪后发送',
+    },
+
+    attachments: {
+        // Images and files attached to messages
+        title: '添加附件',
+        attach: '添加图片或文件',
+        photoLibrary: '照片和截图',
+        files: '文件',
+        remove: '移除附件',
+        uploadFailed: '上传失败',
+    },
+
+    sessionSharing: {
+        // Sharing sessions with friends
+        title: '与好友共享',
+        openSubtitle: '让好友关注或参与此会话',
+        sharedWith: '已共享给',
+        notShared: '尚未与任何人共享',
+        friends: '好友',
+        noFriends: '没有其他可共享的好友',
+        footer: '会话密钥为每位好友单独加密，服务器无法看到对话内容。查看者可以关注会话，协作者还可以发送消息并处理权限请求。',
+        roleViewer: '可查看',
+        roleCollaborator: '可发送消息和审批',
+        shareWith: ({ name }: { name: string }) => `与 ${name} 共享`,
+        chooseRole: '对方可以做什么？',
+        changeTo: ({ role }: { role: string }) => `改为：${role}`,
+        stopSharing: '停止共享',
+        legacySession: '此会话由旧版 CLI 创建，无法共享。',
+        friendNeedsUpdate: ({ name }: { name: string }) => `${name} 需要先打开最新版本的应用，你才能与其共享会话。`,
+        sharedWithMe: '与我共享',
+        sharedBy: ({ name }: { name: string }) => `由 ${name} 共享`,
+        viewOnly: ({ name }: { name: string }) => `仅查看 · 由 ${name} 共享`,
+    },
+
+    sessionPresence: {
+        // Other people looking at a shared session
+        someone: '有人',
+        typing: ({ name }: { name: string }) => `${name} 正在输入…`,
+        reviewingPermission: ({ name }: { name: string }) => `${name} 正在审阅权限请求`,
+        permissionLocked: ({ name }: { name: string }) => `${name} 正在处理此请求`,
+        takeOver: '接管',
     }
 } as const;
@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { ansi256Color, parseAnsi, stripAnsi } from './ansi';
+
+describe('ansi', () => {
+    it('should split text into styled segments', () => {
+        const segments = parseAnsi('plain \x1b[1;31mbold red\x1b[0m done');
+        expect(segments.map((s) => s.text)).toEqual(['plain ', 'bold red', ' done']);
+        expect(segments[0].style.fg).toBeNull();
+        expect(segments[1].style).toMatchObject({ fg: '#cd3131', bold: true });
+        expect(segments[2].style.bold).toBe(false);
+    });
+
+    it('should support extended colors', () => {
+        const [first, second] = parseAnsi('\x1b[38;5;196ma\x1b[48;2;1;2;3mb');
+        expect(first.style.fg).toBe('#ff0000');
+        expect(second.style).toMatchObject({ fg: '#ff0000', bg: '#010203' });
+        expect(ansi256Color(244)).toBe('#808080');
+    });
+
+    it('should drop other control sequences', () => {
+        expect(stripAnsi('\x1b[2K\x1b[1Gline\x1b]0;title\x07')).toBe('line');
+    });
+
+    it('should keep only the last redraw of a line', () => {
+        expect(stripAnsi('progress 10%\rprogress 100%\r\nnext')).toBe('progress 100%\nnext');
+    });
+});
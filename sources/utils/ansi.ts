@@ -0,0 +1,150 @@
+/**
+ * Minimal ANSI escape sequence parser for rendering terminal output
+ * Supports SGR colors and styles, other control sequences are dropped
+ */
+
+export interface AnsiStyle {
+    fg: string | null;
+    bg: string | null;
+    bold: boolean;
+    dim: boolean;
+    italic: boolean;
+    underline: boolean;
+}
+
+export interface AnsiSegment {
+    text: string;
+    style: AnsiStyle;
+}
+
+const BASE_COLORS = [
+    '#000000', '#cd3131', '#0dbc79', '#e5e510', '#2472c8', '#bc3fbc', '#11a8cd', '#e5e5e5',
+    '#666666', '#f14c4c', '#23d18b', '#f5f543', '#3b8eea', '#d670d6', '#29b8db', '#ffffff'
+];
+
+const DEFAULT_STYLE: AnsiStyle = { fg: null, bg: null, bold: false, dim: false, italic: false, underline: false };
+
+// CSI sequences, OSC sequences (terminated by BEL or ST) and single character escapes
+const ESCAPE_PATTERN = /\x1b\[([0-9;?]*)([@-~])|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)|\x1b[@-Z\\-_]/g;
+
+function toHex(value: number): string {
+    return value.toString(16).padStart(2, '0');
+}
+
+export function ansi256Color(index: number): string {
+    if (index < 16) {
+        return BASE_COLORS[index];
+    }
+    if (index < 232) {
+        const cube = index - 16;
+        const level = (value: number) => value === 0 ? 0 : 55 + value * 40;
+        return `#${toHex(level(Math.floor(cube / 36)))}${toHex(level(Math.floor(cube / 6) % 6))}${toHex(level(cube % 6))}`;
+    }
+    const gray = 8 + (index - 232) * 10;
+    return `#${toHex(gray)}${toHex(gray)}${toHex(gray)}`;
+}
+
+/**
+ * Apply the parameters of an SGR sequence (ESC [ ... m) to a style
+ */
+function applySgr(style: AnsiStyle, params: number[]): AnsiStyle {
+    const next = { ...style };
+    for (let i = 0; i < params.length; i++) {
+        const code = params[i];
+        if (code === 0) {
+            Object.assign(next, DEFAULT_STYLE);
+        } else if (code === 1) {
+            next.bold = true;
+        } else if (code === 2) {
+            next.dim = true;
+        } else if (code === 3) {
+            next.italic = true;
+        } else if (code === 4) {
+            next.underline = true;
+        } else if (code === 22) {
+            next.bold = false;
+            next.dim = false;
+        } else if (code === 23) {
+            next.italic = false;
+        } else if (code === 24) {
+            next.underline = false;
+        } else if (code >= 30 && code <= 37) {
+            next.fg = BASE_COLORS[code - 30];
+        } else if (code >= 90 && code <= 97) {
+            next.fg = BASE_COLORS[code - 90 + 8];
+        } else if (code >= 40 && code <= 47) {
+            next.bg = BASE_COLORS[code - 40];
+        } else if (code >= 100 && code <= 107) {
+            next.bg = BASE_COLORS[code - 100 + 8];
+        } else if (code === 39) {
+            next.fg = null;
+        } else if (code === 49) {
+            next.bg = null;
+        } else if (code === 38 || code === 48) {
+            // Extended colors: 5;n for the 256 color palette, 2;r;g;b for true color
+            let color: string | null = null;
+            if (params[i + 1] === 5 && params[i + 2] !== undefined) {
+                color = ansi256Color(params[i + 2]);
+                i += 2;
+            } else if (params[i + 1] === 2 && params[i + 4] !== undefined) {
+                color = `#${toHex(params[i + 2])}${toHex(params[i + 3])}${toHex(params[i + 4])}`;
+                i += 4;
+            }
+            if (code === 38) {
+                next.fg = color;
+            } else {
+                next.bg = color;
+            }
+        }
+    }
+    return next;
+}
+
+/**
+ * Carriage returns without a newline redraw the line (progress bars), keep only what was drawn last
+ */
+function collapseCarriageReturns(text: string): string {
+    return text
+        .split('\n')
+        .map((line) => {
+            const trimmed = line.endsWith('\r') ? line.slice(0, -1) : line;
+            const index = trimmed.lastIndexOf('\r');
+            return index === -1 ? trimmed : trimmed.slice(index + 1);
+        })
+        .join('\n');
+}
+
+export function parseAnsi(text: string): AnsiSegment[] {
+    const segments: AnsiSegment[] = [];
+    const input = collapseCarriageReturns(text);
+    let style = DEFAULT_STYLE;
+    let index = 0;
+    const push = (value: string) => {
+        if (value.length === 0) {
+            return;
+        }
+        const last = segments[segments.length - 1];
+        if (last && last.style === style) {
+            last.text += value;
+        } else {
+            segments.push({ text: value, style });
+        }
+    };
+
+    ESCAPE_PATTERN.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = ESCAPE_PATTERN.exec(input)) !== null) {
+        push(input.slice(index, match.index));
+        index = match.index + match[0].length;
+        if (match[2] === 'm') {
+            const params = match[1].length === 0 ? [0] : match[1].split(';').map((value) => parseInt(value, 10) || 0);
+            style = applySgr(style, params);
+        }
+    }
+    push(input.slice(index));
+    return segments;
+}
+
+export function stripAnsi(text: string): string {
+    return parseAnsi(text).map((segment) => segment.text).join('');
+}
@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { createEditHistory, recordEdit, redoEdit, undoEdit } from './editHistory';
+
+describe('editHistory', () => {
+    it('should group quick edits into one undo step', () => {
+        let history = createEditHistory('');
+        history = recordEdit(history, 'a', 1000);
+        history = recordEdit(history, 'ab', 1200);
+        history = recordEdit(history, 'abc', 1400);
+        history = recordEdit(history, 'abc d', 5000);
+        expect(history.past).toEqual(['', 'abc']);
+        history = undoEdit(history);
+        expect(history.present).toBe('abc');
+        history = undoEdit(history);
+        expect(history.present).toBe('');
+        expect(undoEdit(history)).toBe(history);
+    });
+
+    it('should redo undone edits until the next edit', () => {
+        let history = recordEdit(recordEdit(createEditHistory('a'), 'ab', 1000), 'abc', 5000);
+        history = undoEdit(undoEdit(history));
+        expect(history.present).toBe('a');
+        history = redoEdit(history);
+        expect(history.present).toBe('ab');
+        history = recordEdit(history, 'abX', 9000);
+        expect(history.future).toEqual([]);
+        expect(redoEdit(history)).toBe(history);
+    });
+});
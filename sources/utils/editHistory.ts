@@ -0,0 +1,55 @@
+/**
+ * Undo history for text editing
+ * Keystrokes that follow each other quickly are grouped into one undo step
+ */
+
+export interface EditHistory {
+    past: string[];
+    present: string;
+    future: string[];
+    lastEditAt: number;
+}
+
+const GROUP_WINDOW_MS = 1000;
+const MAX_STEPS = 200;
+
+export function createEditHistory(text: string): EditHistory {
+    return { past: [], present: text, future: [], lastEditAt: 0 };
+}
+
+export function recordEdit(history: EditHistory, text: string, now: number = Date.now(), group: boolean = true): EditHistory {
+    if (text === history.present) {
+        return history;
+    }
+    const grouped = group && now - history.lastEditAt < GROUP_WINDOW_MS && history.past.length > 0;
+    return {
+        past: grouped ? history.past : [...history.past, history.present].slice(-MAX_STEPS),
+        present: text,
+        future: [],
+        lastEditAt: now
+    };
+}
+
+export function undoEdit(history: EditHistory): EditHistory {
+    if (history.past.length === 0) {
+        return history;
+    }
+    return {
+        past: history.past.slice(0, -1),
+        present: history.past[history.past.length - 1],
+        future: [history.present, ...history.future],
+        lastEditAt: 0
+    };
+}
+
+export function redoEdit(history: EditHistory): EditHistory {
+    if (history.future.length === 0) {
+        return history;
+    }
+    return {
+        past: [...history.past, history.present],
+        present: history.future[0],
+        future: history.future.slice(1),
+        lastEditAt: 0
+    };
+}
@@ -0,0 +1,45 @@
+import * as ImagePicker from 'expo-image-picker';
+import * as DocumentPicker from 'expo-document-picker';
+import { randomUUID } from 'expo-crypto';
+import { DraftAttachment } from '@/sync/attachments';
+
+/**
+ * Photos and screenshots from the library of the device, empty when cancelled
+ */
+export async function pickImageAttachments(): Promise<DraftAttachment[]> {
+    const result = await ImagePicker.launchImageLibraryAsync({
+        mediaTypes: ['images'],
+        allowsMultipleSelection: true,
+        quality: 0.8
+    });
+    if (result.canceled) {
+        return [];
+    }
+    return result.assets.map((asset) => ({
+        id: randomUUID(),
+        name: asset.fileName || `image-${Date.now()}.jpg`,
+        uri: asset.uri,
+        mimeType: asset.mimeType || 'image/jpeg',
+        size: asset.fileSize ?? 0
+    }));
+}
+
+/**
+ * Any files picked from the device, empty when cancelled
+ */
+export async function pickFileAttachments(): Promise<DraftAttachment[]> {
+    const result = await DocumentPicker.getDocumentAsync({
+        multiple: true,
+        copyToCacheDirectory: true
+    });
+    if (result.canceled) {
+        return [];
+    }
+    return result.assets.map((asset) => ({
+        id: randomUUID(),
+        name: asset.name,
+        uri: asset.uri,
+        mimeType: asset.mimeType || 'application/octet-stream',
+        size: asset.size ?? 0
+    }));
+}
@@ -0,0 +1,8 @@
+import { File } from 'expo-file-system';
+
+/**
+ * Content of a local file picked on the device, base64 encoded
+ */
+export async function readFileBase64(uri: string): Promise<string> {
+    return await new File(uri).base64();
+}
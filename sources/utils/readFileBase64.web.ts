@@ -0,0 +1,13 @@
+/**
+ * Content of a file picked in the browser, base64 encoded. Picked files are blob or data urls
+ */
+export async function readFileBase64(uri: string): Promise<string> {
+    const blob = await (await fetch(uri)).blob();
+    const dataUrl = await new Promise<string>((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error ?? new Error('Failed to read file'));
+        reader.readAsDataURL(blob);
+    });
+    return dataUrl.slice(dataUrl.indexOf(',') + 1);
+}
@@ -0,0 +1,22 @@
+import { File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+
+/**
+ * Write text to a temporary file and open the OS share sheet for it
+ */
+export async function shareTextFile(opts: { content: string, fileName: string, mimeType: string, uti: string, dialogTitle?: string }) {
+    if (!(await Sharing.isAvailableAsync())) {
+        throw new Error('Sharing is not available on this device');
+    }
+    const file = new File(Paths.cache, opts.fileName);
+    if (file.exists) {
+        file.delete();
+    }
+    file.create();
+    file.write(opts.content);
+    await Sharing.shareAsync(file.uri, {
+        mimeType: opts.mimeType,
+        UTI: opts.uti,
+        dialogTitle: opts.dialogTitle
+    });
+}
@@ -0,0 +1,15 @@
+/**
+ * Download text as a file, browsers have no share sheet for generated files
+ */
+export async function shareTextFile(opts: { content: string, fileName: string, mimeType: string, uti: string, dialogTitle?: string }) {
+    const blob = new Blob([opts.content], { type: `${opts.mimeType};charset=utf-8` });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = opts.fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    // Give the browser a moment to start the download before releasing the blob
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,15 @@
+import { describe, it, expect } from 'vitest';
+import { shellHeredoc, shellQuote } from './shellQuote';
+
+describe('shellQuote', () => {
+    it('should wrap values in single quotes', () => {
+        expect(shellQuote('src/my file.ts')).toBe(`'src/my file.ts'`);
+        expect(shellQuote(`it's`)).toBe(`'it'\\''s'`);
+        expect(shellQuote('$(rm -rf /)')).toBe(`'$(rm -rf /)'`);
+    });
+
+    it('should pick a heredoc delimiter that does not occur in the text', () => {
+        expect(shellHeredoc('a\nb')).toBe(`<<'HAPPY_EOF'\na\nb\nHAPPY_EOF`);
+        expect(shellHeredoc('HAPPY_EOF\n')).toBe(`<<'HAPPY_EOF_'\nHAPPY_EOF\nHAPPY_EOF_`);
+    });
+});
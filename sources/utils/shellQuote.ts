@@ -0,0 +1,18 @@
+/**
+ * Quote a value for use as a single POSIX shell argument
+ */
+export function shellQuote(value: string): string {
+    return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Shell snippet that feeds the given text to a command's stdin through a quoted heredoc
+ */
+export function shellHeredoc(text: string): string {
+    let delimiter = 'HAPPY_EOF';
+    while (text.split('\n').includes(delimiter)) {
+        delimiter += '_';
+    }
+    const body = text.endsWith('\n') ? text : text + '\n';
+    return `<<'${delimiter}'\n${body}${delimiter}`;
+}